@@ -38,6 +38,7 @@ import DeliveryApply from "./pages/delivery/DeliveryApply";
 import DeliveryDashboard from "./pages/delivery/DeliveryDashboard";
 
 // Admin Pages
+import AdminRoute from "./components/admin/AdminRoute";
 import AdminDashboard from "./pages/admin/AdminDashboard";
 import AdminOrders from "./pages/admin/AdminOrders";
 import AdminItems from "./pages/admin/AdminItems";
@@ -58,6 +59,7 @@ import CloudKitchenModule from "./pages/admin/cloud-kitchen/CloudKitchenModule";
 import HomeDeliveryModule from "./pages/admin/home-delivery/HomeDeliveryModule";
 import AdminUsers from "./pages/admin/users/AdminUsers";
 import AdminStorageSettings from "./pages/admin/AdminStorageSettings";
+import AdminAuditLog from "./pages/admin/AdminAuditLog";
 
 const queryClient = new QueryClient();
 
@@ -103,28 +105,29 @@ const App = () => (
                 <Route path="/delivery/dashboard" element={<DeliveryDashboard />} />
                 
                 {/* Admin Routes - Main Dashboard */}
-                <Route path="/admin" element={<AdminDashboard />} />
+                <Route path="/admin" element={<AdminRoute><AdminDashboard /></AdminRoute>} />
                 
                 {/* Admin Module Routes */}
-                <Route path="/admin/indoor-events/*" element={<IndoorEventsModule />} />
-                <Route path="/admin/cloud-kitchen/*" element={<CloudKitchenModule />} />
-                <Route path="/admin/home-delivery/*" element={<HomeDeliveryModule />} />
+                <Route path="/admin/indoor-events/*" element={<AdminRoute><IndoorEventsModule /></AdminRoute>} />
+                <Route path="/admin/cloud-kitchen/*" element={<AdminRoute><CloudKitchenModule /></AdminRoute>} />
+                <Route path="/admin/home-delivery/*" element={<AdminRoute><HomeDeliveryModule /></AdminRoute>} />
                 
                 {/* Admin Common Utilities */}
-                <Route path="/admin/users" element={<AdminUsers />} />
-                <Route path="/admin/orders" element={<AdminOrders />} />
-                <Route path="/admin/items" element={<AdminItems />} />
-                <Route path="/admin/categories" element={<AdminCategories />} />
-                <Route path="/admin/locations" element={<AdminLocations />} />
-                <Route path="/admin/cooks" element={<AdminCooks />} />
-                <Route path="/admin/cooks/:cookId" element={<AdminCookProfile />} />
-                <Route path="/admin/delivery-staff" element={<AdminDeliveryStaff />} />
-                <Route path="/admin/reports" element={<AdminReports />} />
-                <Route path="/admin/banners" element={<AdminBanners />} />
-                <Route path="/admin/special-offers" element={<AdminSpecialOffers />} />
-                <Route path="/admin/admins" element={<AdminAdmins />} />
-                <Route path="/admin/work-assignment" element={<AdminWorkAssignment />} />
-                <Route path="/admin/storage-settings" element={<AdminStorageSettings />} />
+                <Route path="/admin/users" element={<AdminRoute><AdminUsers /></AdminRoute>} />
+                <Route path="/admin/orders" element={<AdminRoute><AdminOrders /></AdminRoute>} />
+                <Route path="/admin/items" element={<AdminRoute><AdminItems /></AdminRoute>} />
+                <Route path="/admin/categories" element={<AdminRoute><AdminCategories /></AdminRoute>} />
+                <Route path="/admin/locations" element={<AdminRoute><AdminLocations /></AdminRoute>} />
+                <Route path="/admin/cooks" element={<AdminRoute><AdminCooks /></AdminRoute>} />
+                <Route path="/admin/cooks/:cookId" element={<AdminRoute><AdminCookProfile /></AdminRoute>} />
+                <Route path="/admin/delivery-staff" element={<AdminRoute><AdminDeliveryStaff /></AdminRoute>} />
+                <Route path="/admin/reports" element={<AdminRoute><AdminReports /></AdminRoute>} />
+                <Route path="/admin/banners" element={<AdminRoute><AdminBanners /></AdminRoute>} />
+                <Route path="/admin/special-offers" element={<AdminRoute><AdminSpecialOffers /></AdminRoute>} />
+                <Route path="/admin/admins" element={<AdminRoute superAdminOnly><AdminAdmins /></AdminRoute>} />
+                <Route path="/admin/work-assignment" element={<AdminRoute><AdminWorkAssignment /></AdminRoute>} />
+                <Route path="/admin/storage-settings" element={<AdminRoute><AdminStorageSettings /></AdminRoute>} />
+                <Route path="/admin/audit-log" element={<AdminRoute><AdminAuditLog /></AdminRoute>} />
                 
                 {/* Catch-all */}
                 <Route path="*" element={<NotFound />} />
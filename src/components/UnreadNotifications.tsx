@@ -0,0 +1,35 @@
+import React from 'react';
+import { BellRing } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { AppNotification } from '@/hooks/useNotifications';
+
+interface UnreadNotificationsProps {
+  notifications: AppNotification[];
+  onDismiss: () => void;
+}
+
+const UnreadNotifications: React.FC<UnreadNotificationsProps> = ({ notifications, onDismiss }) => {
+  if (notifications.length === 0) return null;
+
+  return (
+    <div className="bg-destructive/10 border border-destructive/20 rounded-lg p-3 space-y-2">
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <BellRing className="h-5 w-5 text-destructive shrink-0" />
+          <p className="text-sm font-medium">Updates on your orders</p>
+        </div>
+        <Button variant="ghost" size="sm" onClick={onDismiss}>
+          Dismiss
+        </Button>
+      </div>
+      {notifications.map((notification) => (
+        <div key={notification.id} className="text-xs">
+          <span className="font-medium">{notification.title}</span>
+          <span className="text-muted-foreground"> · {notification.message}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default UnreadNotifications;
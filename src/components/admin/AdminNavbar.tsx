@@ -14,9 +14,12 @@ import {
   Settings,
   ArrowLeft,
   LogOut,
-  FolderOpen
+  FolderOpen,
+  History
 } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
+import { useAdminPermissions } from '@/hooks/usePermission';
+import { canOpenAdminRoute } from '@/lib/permissions';
 import { cn } from '@/lib/utils';
 
 interface NavItem {
@@ -29,8 +32,9 @@ const AdminNavbar: React.FC = () => {
   const navigate = useNavigate();
   const location = useLocation();
   const { role, signOut } = useAuth();
+  const { data: permissions } = useAdminPermissions();
 
-  const navItems: NavItem[] = [
+  const allNavItems: NavItem[] = [
     { icon: LayoutDashboard, label: 'Dashboard', path: '/admin' },
     { icon: ShoppingBag, label: 'Orders', path: '/admin/orders' },
     { icon: UtensilsCrossed, label: 'Items', path: '/admin/items' },
@@ -41,8 +45,12 @@ const AdminNavbar: React.FC = () => {
     { icon: MapPin, label: 'Locations', path: '/admin/locations' },
     { icon: BarChart3, label: 'Reports', path: '/admin/reports' },
     { icon: Settings, label: 'Storage', path: '/admin/storage-settings' },
+    { icon: History, label: 'Audit Log', path: '/admin/audit-log' },
   ];
 
+  // Only areas the admin can at least view
+  const navItems = allNavItems.filter((item) => canOpenAdminRoute(item.path, role, permissions));
+
   if (role === 'super_admin') {
     navItems.push({ icon: Settings, label: 'Admins', path: '/admin/admins' });
   }
@@ -0,0 +1,55 @@
+import React from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Loader2, Settings } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useAdminPermissions } from '@/hooks/usePermission';
+import { canOpenAdminRoute } from '@/lib/permissions';
+
+interface AdminRouteProps {
+  children: React.ReactNode;
+  superAdminOnly?: boolean;
+}
+
+/**
+ * Renders an admin page only for admins with at least view access to the
+ * area the current path belongs to (see canOpenAdminRoute).
+ */
+const AdminRoute: React.FC<AdminRouteProps> = ({ children, superAdminOnly = false }) => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { role, isLoading: authLoading } = useAuth();
+  const { data: permissions, isLoading } = useAdminPermissions();
+
+  if (authLoading || isLoading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-background">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const isAdmin = role === 'super_admin' || role === 'admin';
+  const allowed = superAdminOnly
+    ? role === 'super_admin'
+    : canOpenAdminRoute(location.pathname, role, permissions);
+
+  if (!allowed) {
+    return (
+      <div className="flex min-h-screen flex-col items-center justify-center bg-background p-4">
+        <Settings className="h-16 w-16 text-muted-foreground" />
+        <h2 className="mt-4 text-xl font-semibold">Access Denied</h2>
+        <p className="mt-2 text-center text-muted-foreground">
+          You don't have permission to access this page
+        </p>
+        <Button className="mt-6" onClick={() => navigate(isAdmin ? '/admin' : '/')}>
+          {isAdmin ? 'Back to Dashboard' : 'Go Home'}
+        </Button>
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+};
+
+export default AdminRoute;
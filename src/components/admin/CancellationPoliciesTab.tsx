@@ -0,0 +1,319 @@
+import React, { useState } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Plus, Pencil, Trash2, Ban, Loader2 } from 'lucide-react';
+import {
+  useCancellationPolicies,
+  type CancellationPolicy,
+  type CancellationPolicyInput,
+} from '@/hooks/useCancellationPolicies';
+import { usePermission } from '@/hooks/usePermission';
+import type { OrderStatus, ServiceType } from '@/types/database';
+
+const serviceTypeOptions: { value: ServiceType; label: string }[] = [
+  { value: 'cloud_kitchen', label: 'Cloud Kitchen' },
+  { value: 'homemade', label: 'Home Delivery' },
+  { value: 'indoor_events', label: 'Indoor Events' },
+];
+
+const statusOptions: { value: OrderStatus; label: string }[] = [
+  { value: 'pending', label: 'Pending' },
+  { value: 'confirmed', label: 'Confirmed' },
+  { value: 'preparing', label: 'Preparing' },
+  { value: 'ready', label: 'Ready' },
+  { value: 'out_for_delivery', label: 'Out for Delivery' },
+  { value: 'delivered', label: 'Delivered' },
+];
+
+const emptyForm: CancellationPolicyInput = {
+  service_type: 'cloud_kitchen',
+  name: '',
+  description: '',
+  order_statuses: [],
+  min_days_before_event: null,
+  allow_cancellation: true,
+  fee_percent: 0,
+  forfeit_advance: false,
+  display_order: 0,
+  is_active: true,
+};
+
+const describeRule = (policy: CancellationPolicy) => {
+  const when = [
+    policy.order_statuses?.length
+      ? policy.order_statuses.map(s => statusOptions.find(o => o.value === s)?.label || s).join(', ')
+      : 'Any status',
+    policy.min_days_before_event != null && `${policy.min_days_before_event}+ days before event`,
+  ].filter(Boolean).join(' • ');
+
+  if (!policy.allow_cancellation) return `${when} → not allowed`;
+  const charges = [
+    policy.fee_percent > 0 && `${policy.fee_percent}% fee`,
+    policy.forfeit_advance && 'advance forfeited',
+  ].filter(Boolean).join(' + ');
+  return `${when} → ${charges || 'free'}`;
+};
+
+const CancellationPoliciesTab: React.FC = () => {
+  const { policies, isLoading, createPolicy, updatePolicy, deletePolicy } = useCancellationPolicies();
+  const { canEdit } = usePermission('orders');
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null);
+  const [form, setForm] = useState<CancellationPolicyInput>(emptyForm);
+
+  const resetForm = () => {
+    setForm(emptyForm);
+    setEditingId(null);
+  };
+
+  const openCreate = () => { resetForm(); setIsDialogOpen(true); };
+
+  const openEdit = (policy: CancellationPolicy) => {
+    setEditingId(policy.id);
+    setForm({
+      service_type: policy.service_type,
+      name: policy.name,
+      description: policy.description || '',
+      order_statuses: policy.order_statuses || [],
+      min_days_before_event: policy.min_days_before_event,
+      allow_cancellation: policy.allow_cancellation,
+      fee_percent: policy.fee_percent,
+      forfeit_advance: policy.forfeit_advance,
+      display_order: policy.display_order,
+      is_active: policy.is_active,
+    });
+    setIsDialogOpen(true);
+  };
+
+  const toggleStatus = (status: OrderStatus, checked: boolean) => {
+    setForm(prev => {
+      const current = prev.order_statuses || [];
+      return {
+        ...prev,
+        order_statuses: checked ? [...current, status] : current.filter(s => s !== status),
+      };
+    });
+  };
+
+  const handleSubmit = () => {
+    if (!form.name.trim()) return;
+    const isEvent = form.service_type === 'indoor_events';
+    const payload = {
+      ...form,
+      description: form.description?.trim() || null,
+      order_statuses: form.order_statuses?.length ? form.order_statuses : null,
+      min_days_before_event: isEvent ? form.min_days_before_event : null,
+      forfeit_advance: isEvent ? form.forfeit_advance : false,
+    };
+    if (editingId) {
+      updatePolicy.mutate({ id: editingId, ...payload }, {
+        onSuccess: () => { setIsDialogOpen(false); resetForm(); },
+      });
+    } else {
+      createPolicy.mutate(payload, {
+        onSuccess: () => { setIsDialogOpen(false); resetForm(); },
+      });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-4 mt-4">
+        {[...Array(3)].map((_, i) => <Skeleton key={i} className="h-16" />)}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4 mt-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold flex items-center gap-2">
+            <Ban className="h-5 w-5" />
+            Cancellation Policies
+          </h2>
+          <p className="text-sm text-muted-foreground">
+            The first active rule that matches a customer cancellation decides the fee; the rest of what they paid goes to their wallet
+          </p>
+        </div>
+        {canEdit && (
+          <Button size="sm" onClick={openCreate}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add Rule
+          </Button>
+        )}
+      </div>
+
+      {serviceTypeOptions.map(option => {
+        const items = policies.filter(p => p.service_type === option.value);
+        return (
+          <div key={option.value} className="space-y-2">
+            <h3 className="text-sm font-semibold text-muted-foreground uppercase tracking-wide">{option.label}</h3>
+            {items.length > 0 ? (
+              items.map(policy => (
+                <Card key={policy.id} className="border">
+                  <CardContent className="flex items-center justify-between gap-2 p-3">
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <h4 className="font-medium text-sm truncate">{policy.name}</h4>
+                        <Badge variant={policy.is_active ? 'default' : 'secondary'} className="text-xs">
+                          {policy.is_active ? 'Active' : 'Inactive'}
+                        </Badge>
+                      </div>
+                      <p className="text-xs text-muted-foreground">{describeRule(policy)}</p>
+                    </div>
+                    {canEdit && (
+                      <div className="flex items-center gap-1">
+                        <Switch
+                          checked={policy.is_active}
+                          onCheckedChange={() => updatePolicy.mutate({ id: policy.id, is_active: !policy.is_active })}
+                        />
+                        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => openEdit(policy)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" className="h-8 w-8 text-destructive" onClick={() => setDeleteConfirmId(policy.id)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              ))
+            ) : (
+              <Card className="p-3 text-center">
+                <p className="text-sm text-muted-foreground">No rules – customers can cancel for free</p>
+              </Card>
+            )}
+          </div>
+        );
+      })}
+
+      {/* Add/Edit Dialog */}
+      <Dialog open={isDialogOpen} onOpenChange={(open) => { setIsDialogOpen(open); if (!open) resetForm(); }}>
+        <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingId ? 'Edit' : 'Add'} Cancellation Rule</DialogTitle>
+            <DialogDescription>
+              Cancellations by admins, and by cooks or partners on a customer's order, are refunded in full
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label>Service</Label>
+              <Select value={form.service_type} onValueChange={(v) => setForm(prev => ({ ...prev, service_type: v as ServiceType }))}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {serviceTypeOptions.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Name</Label>
+              <Input placeholder="e.g. Before the cook accepts" value={form.name} onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))} />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Message to Customer</Label>
+              <Input placeholder="e.g. Free cancellation until the cook accepts" value={form.description || ''} onChange={(e) => setForm(prev => ({ ...prev, description: e.target.value }))} />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Order Status <span className="text-muted-foreground text-xs">None selected = any</span></Label>
+              <div className="grid grid-cols-2 gap-2">
+                {statusOptions.map(option => (
+                  <label key={option.value} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={form.order_statuses?.includes(option.value) || false}
+                      onCheckedChange={(checked) => toggleStatus(option.value, checked === true)}
+                    />
+                    {option.label}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            {form.service_type === 'indoor_events' && (
+              <div className="space-y-2">
+                <Label>Minimum Days Before Event <span className="text-muted-foreground text-xs">Optional</span></Label>
+                <Input
+                  type="number"
+                  min="0"
+                  value={form.min_days_before_event ?? ''}
+                  onChange={(e) => setForm(prev => ({ ...prev, min_days_before_event: e.target.value === '' ? null : parseInt(e.target.value) || 0 }))}
+                />
+              </div>
+            )}
+
+            <div className="flex items-center justify-between">
+              <Label>Allow Cancellation</Label>
+              <Switch checked={form.allow_cancellation} onCheckedChange={(v) => setForm(prev => ({ ...prev, allow_cancellation: v }))} />
+            </div>
+
+            {form.allow_cancellation && (
+              <>
+                <div className="space-y-2">
+                  <Label>Fee (% of order total)</Label>
+                  <Input type="number" min="0" max="100" step="0.01" value={form.fee_percent} onChange={(e) => setForm(prev => ({ ...prev, fee_percent: Number(e.target.value) }))} />
+                </div>
+                {form.service_type === 'indoor_events' && (
+                  <div className="flex items-center justify-between">
+                    <Label>Forfeit Advance Payment</Label>
+                    <Switch checked={form.forfeit_advance} onCheckedChange={(v) => setForm(prev => ({ ...prev, forfeit_advance: v }))} />
+                  </div>
+                )}
+              </>
+            )}
+
+            <div className="space-y-2">
+              <Label>Display Order <span className="text-muted-foreground text-xs">Lower rules are checked first</span></Label>
+              <Input type="number" value={form.display_order} onChange={(e) => setForm(prev => ({ ...prev, display_order: parseInt(e.target.value) || 0 }))} />
+            </div>
+          </div>
+
+          <Button className="w-full mt-2" onClick={handleSubmit} disabled={createPolicy.isPending || updatePolicy.isPending || !form.name.trim()}>
+            {(createPolicy.isPending || updatePolicy.isPending) && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {editingId ? 'Save Changes' : 'Create Rule'}
+          </Button>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation */}
+      <Dialog open={!!deleteConfirmId} onOpenChange={(open) => { if (!open) setDeleteConfirmId(null); }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Cancellation Rule</DialogTitle>
+            <DialogDescription>Cancellations it covered will fall through to the next matching rule.</DialogDescription>
+          </DialogHeader>
+          <div className="flex justify-end gap-2 mt-4">
+            <Button variant="outline" onClick={() => setDeleteConfirmId(null)}>Cancel</Button>
+            <Button variant="destructive" onClick={() => { if (deleteConfirmId) deletePolicy.mutate(deleteConfirmId, { onSuccess: () => setDeleteConfirmId(null) }); }} disabled={deletePolicy.isPending}>
+              {deletePolicy.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Delete
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default CancellationPoliciesTab;
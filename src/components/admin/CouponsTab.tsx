@@ -0,0 +1,348 @@
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent } from '@/components/ui/card';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Plus, Pencil, Trash2, Ticket, Loader2 } from 'lucide-react';
+import { useCoupons, type Coupon, type CouponInput } from '@/hooks/useCoupons';
+import { usePanchayats } from '@/hooks/useReports';
+
+const serviceTypes = [
+  { value: 'cloud_kitchen', label: 'Cloud Kitchen' },
+  { value: 'homemade', label: 'Homemade' },
+];
+
+const emptyForm: CouponInput = {
+  code: '',
+  description: '',
+  discount_type: 'percent',
+  discount_value: 10,
+  min_order_amount: 0,
+  max_discount_amount: null,
+  valid_from: null,
+  valid_until: null,
+  usage_limit_total: null,
+  usage_limit_per_user: 1,
+  service_types: [],
+  panchayat_ids: [],
+  category_ids: [],
+  is_active: true,
+};
+
+// <input type="datetime-local"> works in local time without a zone
+const toLocalInput = (iso: string | null) => (iso ? format(new Date(iso), "yyyy-MM-dd'T'HH:mm") : '');
+const fromLocalInput = (value: string) => (value ? new Date(value).toISOString() : null);
+
+const toggle = (list: string[], value: string) =>
+  list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+
+const CouponsTab: React.FC = () => {
+  const { coupons, isLoading, createCoupon, updateCoupon, deleteCoupon } = useCoupons();
+  const { data: panchayats } = usePanchayats();
+  const { data: categories } = useQuery({
+    queryKey: ['coupon-categories'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('food_categories')
+        .select('id, name')
+        .eq('is_active', true)
+        .order('display_order');
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null);
+  const [form, setForm] = useState<CouponInput>(emptyForm);
+
+  const resetForm = () => {
+    setForm(emptyForm);
+    setEditingId(null);
+  };
+
+  const openCreate = () => { resetForm(); setIsDialogOpen(true); };
+
+  const openEdit = (coupon: Coupon) => {
+    const { id, created_by, created_at, updated_at, redemption_count, ...input } = coupon;
+    setEditingId(id);
+    setForm({ ...input, description: input.description || '' });
+    setIsDialogOpen(true);
+  };
+
+  const handleSubmit = () => {
+    if (!form.code.trim() || form.discount_value <= 0) return;
+    const payload = { ...form, description: form.description?.trim() || null };
+    if (editingId) {
+      updateCoupon.mutate({ id: editingId, ...payload }, {
+        onSuccess: () => { setIsDialogOpen(false); resetForm(); },
+      });
+    } else {
+      createCoupon.mutate(payload, {
+        onSuccess: () => { setIsDialogOpen(false); resetForm(); },
+      });
+    }
+  };
+
+  const describeDiscount = (coupon: Coupon) => {
+    const amount = coupon.discount_type === 'percent'
+      ? `${coupon.discount_value}% off`
+      : `₹${coupon.discount_value} off`;
+    const cap = coupon.max_discount_amount != null ? ` up to ₹${coupon.max_discount_amount}` : '';
+    const min = coupon.min_order_amount > 0 ? ` on orders above ₹${coupon.min_order_amount}` : '';
+    return amount + cap + min;
+  };
+
+  const isExpired = (coupon: Coupon) => !!coupon.valid_until && new Date(coupon.valid_until) < new Date();
+
+  if (isLoading) {
+    return (
+      <div className="space-y-4">
+        {[...Array(3)].map((_, i) => <Skeleton key={i} className="h-20" />)}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">Codes customers can apply at checkout</p>
+        <Button size="sm" onClick={openCreate}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add Coupon
+        </Button>
+      </div>
+
+      {coupons.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-16">
+          <Ticket className="h-16 w-16 text-muted-foreground/30" />
+          <h2 className="mt-4 text-lg font-semibold">No coupons yet</h2>
+          <p className="text-sm text-muted-foreground">Create a coupon, then link it from an offer card</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {coupons.map(coupon => (
+            <Card key={coupon.id}>
+              <CardContent className="flex items-start justify-between gap-2 p-4">
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <span className="font-mono font-semibold">{coupon.code}</span>
+                    <Badge variant={coupon.is_active && !isExpired(coupon) ? 'default' : 'secondary'} className="text-xs">
+                      {isExpired(coupon) ? 'Expired' : coupon.is_active ? 'Active' : 'Inactive'}
+                    </Badge>
+                  </div>
+                  <p className="text-sm">{describeDiscount(coupon)}</p>
+                  <p className="text-xs text-muted-foreground">
+                    Used {coupon.redemption_count}{coupon.usage_limit_total != null ? ` / ${coupon.usage_limit_total}` : ''} times
+                    {coupon.usage_limit_per_user != null && ` • ${coupon.usage_limit_per_user} per customer`}
+                    {coupon.valid_until && ` • until ${format(new Date(coupon.valid_until), 'dd MMM yyyy')}`}
+                  </p>
+                  {(coupon.service_types.length > 0 || coupon.panchayat_ids.length > 0 || coupon.category_ids.length > 0) && (
+                    <p className="text-xs text-muted-foreground">
+                      Limited to
+                      {coupon.service_types.length > 0 && ` ${coupon.service_types.map(s => s.replace('_', ' ')).join(', ')}`}
+                      {coupon.panchayat_ids.length > 0 && ` • ${coupon.panchayat_ids.length} panchayat(s)`}
+                      {coupon.category_ids.length > 0 && ` • ${coupon.category_ids.length} categor${coupon.category_ids.length === 1 ? 'y' : 'ies'}`}
+                    </p>
+                  )}
+                </div>
+                <div className="flex items-center gap-1">
+                  <Switch
+                    checked={coupon.is_active}
+                    onCheckedChange={() => updateCoupon.mutate({ id: coupon.id, is_active: !coupon.is_active })}
+                  />
+                  <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => openEdit(coupon)}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" className="h-8 w-8 text-destructive" onClick={() => setDeleteConfirmId(coupon.id)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {/* Add/Edit Dialog */}
+      <Dialog open={isDialogOpen} onOpenChange={(open) => { setIsDialogOpen(open); if (!open) resetForm(); }}>
+        <DialogContent className="max-w-md max-h-[90vh] flex flex-col">
+          <DialogHeader>
+            <DialogTitle>{editingId ? 'Edit' : 'Add'} Coupon</DialogTitle>
+            <DialogDescription>Leave a scope empty to allow all</DialogDescription>
+          </DialogHeader>
+
+          <ScrollArea className="flex-1 max-h-[60vh] pr-4 overflow-y-auto">
+            <div className="space-y-4 py-2 pb-6">
+              <div className="space-y-2">
+                <Label>Code *</Label>
+                <Input
+                  className="font-mono uppercase"
+                  placeholder="e.g. WELCOME50"
+                  value={form.code}
+                  onChange={(e) => setForm(prev => ({ ...prev, code: e.target.value.toUpperCase() }))}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Description</Label>
+                <Input value={form.description || ''} onChange={(e) => setForm(prev => ({ ...prev, description: e.target.value }))} />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Discount Type</Label>
+                  <Select value={form.discount_type} onValueChange={(v) => setForm(prev => ({ ...prev, discount_type: v as 'percent' | 'flat' }))}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="percent">Percentage (%)</SelectItem>
+                      <SelectItem value="flat">Flat Amount (₹)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>{form.discount_type === 'percent' ? 'Discount %' : 'Discount ₹'}</Label>
+                  <Input
+                    type="number"
+                    min="0"
+                    max={form.discount_type === 'percent' ? '100' : undefined}
+                    value={form.discount_value}
+                    onChange={(e) => setForm(prev => ({ ...prev, discount_value: Number(e.target.value) }))}
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Min Order (₹)</Label>
+                  <Input type="number" min="0" value={form.min_order_amount} onChange={(e) => setForm(prev => ({ ...prev, min_order_amount: Number(e.target.value) }))} />
+                </div>
+                <div className="space-y-2">
+                  <Label>Max Discount (₹)</Label>
+                  <Input type="number" min="0" placeholder="No cap" value={form.max_discount_amount ?? ''} onChange={(e) => setForm(prev => ({ ...prev, max_discount_amount: e.target.value ? Number(e.target.value) : null }))} />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Valid From</Label>
+                  <Input type="datetime-local" value={toLocalInput(form.valid_from)} onChange={(e) => setForm(prev => ({ ...prev, valid_from: fromLocalInput(e.target.value) }))} />
+                </div>
+                <div className="space-y-2">
+                  <Label>Valid Until</Label>
+                  <Input type="datetime-local" value={toLocalInput(form.valid_until)} onChange={(e) => setForm(prev => ({ ...prev, valid_until: fromLocalInput(e.target.value) }))} />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Total Uses</Label>
+                  <Input type="number" min="1" placeholder="Unlimited" value={form.usage_limit_total ?? ''} onChange={(e) => setForm(prev => ({ ...prev, usage_limit_total: e.target.value ? parseInt(e.target.value) : null }))} />
+                </div>
+                <div className="space-y-2">
+                  <Label>Uses per Customer</Label>
+                  <Input type="number" min="1" placeholder="Unlimited" value={form.usage_limit_per_user ?? ''} onChange={(e) => setForm(prev => ({ ...prev, usage_limit_per_user: e.target.value ? parseInt(e.target.value) : null }))} />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Services</Label>
+                <div className="flex flex-wrap gap-4">
+                  {serviceTypes.map(st => (
+                    <div key={st.value} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`coupon-st-${st.value}`}
+                        checked={form.service_types.includes(st.value)}
+                        onCheckedChange={() => setForm(prev => ({ ...prev, service_types: toggle(prev.service_types, st.value) }))}
+                      />
+                      <Label htmlFor={`coupon-st-${st.value}`} className="font-normal cursor-pointer">{st.label}</Label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Panchayats</Label>
+                <div className="grid grid-cols-2 gap-2 rounded-md border p-2 max-h-32 overflow-y-auto">
+                  {panchayats?.map(p => (
+                    <div key={p.id} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`coupon-p-${p.id}`}
+                        checked={form.panchayat_ids.includes(p.id)}
+                        onCheckedChange={() => setForm(prev => ({ ...prev, panchayat_ids: toggle(prev.panchayat_ids, p.id) }))}
+                      />
+                      <Label htmlFor={`coupon-p-${p.id}`} className="font-normal text-sm cursor-pointer truncate">{p.name}</Label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Categories</Label>
+                <p className="text-xs text-muted-foreground">The discount is calculated on items from these categories only</p>
+                <div className="grid grid-cols-2 gap-2 rounded-md border p-2 max-h-32 overflow-y-auto">
+                  {categories?.map(c => (
+                    <div key={c.id} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`coupon-c-${c.id}`}
+                        checked={form.category_ids.includes(c.id)}
+                        onCheckedChange={() => setForm(prev => ({ ...prev, category_ids: toggle(prev.category_ids, c.id) }))}
+                      />
+                      <Label htmlFor={`coupon-c-${c.id}`} className="font-normal text-sm cursor-pointer truncate">{c.name}</Label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="flex items-center justify-between">
+                <Label>Active</Label>
+                <Switch checked={form.is_active} onCheckedChange={(v) => setForm(prev => ({ ...prev, is_active: v }))} />
+              </div>
+            </div>
+          </ScrollArea>
+
+          <Button className="w-full mt-2" onClick={handleSubmit} disabled={createCoupon.isPending || updateCoupon.isPending || !form.code.trim()}>
+            {(createCoupon.isPending || updateCoupon.isPending) && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {editingId ? 'Save Changes' : 'Create Coupon'}
+          </Button>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation */}
+      <Dialog open={!!deleteConfirmId} onOpenChange={(open) => { if (!open) setDeleteConfirmId(null); }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Coupon</DialogTitle>
+            <DialogDescription>Offer cards linked to this coupon will no longer show a code.</DialogDescription>
+          </DialogHeader>
+          <div className="flex justify-end gap-2 mt-4">
+            <Button variant="outline" onClick={() => setDeleteConfirmId(null)}>Cancel</Button>
+            <Button variant="destructive" onClick={() => { if (deleteConfirmId) deleteCoupon.mutate(deleteConfirmId, { onSuccess: () => setDeleteConfirmId(null) }); }} disabled={deleteCoupon.isPending}>
+              {deleteCoupon.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Delete
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default CouponsTab;
@@ -13,6 +13,11 @@ interface ImageUploadProps {
   onUploadComplete: (url: string) => void;
   onRemove?: () => void;
   className?: string;
+  // Open the device camera instead of the file picker on phones
+  capture?: 'user' | 'environment';
+  // The bucket is private: the file always goes to Supabase storage and
+  // onUploadComplete gets its path rather than a public URL
+  privateBucket?: boolean;
 }
 
 const uploadToCloudinary = async (file: File, provider: StorageProvider): Promise<string> => {
@@ -79,6 +84,8 @@ const ImageUpload: React.FC<ImageUploadProps> = ({
   onUploadComplete,
   onRemove,
   className = '',
+  capture,
+  privateBucket = false,
 }) => {
   const [isUploading, setIsUploading] = useState(false);
   const [preview, setPreview] = useState<string | null>(currentImageUrl || null);
@@ -95,6 +102,7 @@ const ImageUpload: React.FC<ImageUploadProps> = ({
       .upload(filePath, file);
 
     if (uploadError) throw uploadError;
+    if (privateBucket) return filePath;
 
     const { data: urlData } = supabase.storage
       .from(bucket)
@@ -120,21 +128,21 @@ const ImageUpload: React.FC<ImageUploadProps> = ({
     setIsUploading(true);
 
     try {
-      let publicUrl: string;
+      let uploaded: string;
 
-      if (activeProvider) {
+      if (activeProvider && !privateBucket) {
         try {
-          publicUrl = await uploadToExternalProvider(file, activeProvider);
+          uploaded = await uploadToExternalProvider(file, activeProvider);
         } catch (extError) {
           console.warn('External provider upload failed, falling back to Supabase:', extError);
-          publicUrl = await uploadToSupabase(file);
+          uploaded = await uploadToSupabase(file);
         }
       } else {
-        publicUrl = await uploadToSupabase(file);
+        uploaded = await uploadToSupabase(file);
       }
 
-      setPreview(publicUrl);
-      onUploadComplete(publicUrl);
+      setPreview(privateBucket ? URL.createObjectURL(file) : uploaded);
+      onUploadComplete(uploaded);
       toast({ title: 'Image uploaded', description: 'Image uploaded successfully' });
     } catch (error) {
       console.error('Upload error:', error);
@@ -152,7 +160,7 @@ const ImageUpload: React.FC<ImageUploadProps> = ({
 
   return (
     <div className={`space-y-2 ${className}`}>
-      <Input ref={inputRef} type="file" accept="image/*" onChange={handleFileSelect} className="hidden" />
+      <Input ref={inputRef} type="file" accept="image/*" capture={capture} onChange={handleFileSelect} className="hidden" />
 
       {preview ? (
         <div className="relative inline-block">
@@ -0,0 +1,278 @@
+import React, { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { SlidersHorizontal, Plus, Trash2 } from 'lucide-react';
+import { useModifierGroups } from '@/hooks/useModifierGroups';
+import type { ModifierGroup } from '@/lib/modifiers';
+
+interface ItemModifiersDialogProps {
+  foodItemId: string;
+  foodItemName: string;
+  trigger: React.ReactNode;
+}
+
+const ItemModifiersDialog: React.FC<ItemModifiersDialogProps> = ({
+  foodItemId,
+  foodItemName,
+  trigger,
+}) => {
+  const [open, setOpen] = useState(false);
+  const [groupName, setGroupName] = useState('');
+  const [selectionType, setSelectionType] = useState<'single' | 'multiple'>('single');
+  const [isRequired, setIsRequired] = useState(false);
+  const [newOptions, setNewOptions] = useState<Record<string, { name: string; price: string }>>({});
+
+  const {
+    groups,
+    isLoading,
+    createGroup,
+    updateGroup,
+    deleteGroup,
+    createOption,
+    updateOption,
+    deleteOption,
+  } = useModifierGroups(open ? foodItemId : undefined);
+
+  const handleAddGroup = () => {
+    if (!groupName.trim()) return;
+    createGroup.mutate(
+      {
+        food_item_id: foodItemId,
+        name: groupName.trim(),
+        selection_type: selectionType,
+        is_required: isRequired,
+        display_order: groups.length,
+      },
+      {
+        onSuccess: () => {
+          setGroupName('');
+          setIsRequired(false);
+        },
+      }
+    );
+  };
+
+  const handleAddOption = (group: ModifierGroup) => {
+    const draft = newOptions[group.id];
+    if (!draft?.name.trim()) return;
+    createOption.mutate(
+      {
+        group_id: group.id,
+        name: draft.name.trim(),
+        price: parseFloat(draft.price) || 0,
+        display_order: group.options.length,
+      },
+      {
+        onSuccess: () => setNewOptions(prev => ({ ...prev, [group.id]: { name: '', price: '' } })),
+      }
+    );
+  };
+
+  const setDraft = (groupId: string, field: 'name' | 'price', value: string) => {
+    setNewOptions(prev => ({
+      ...prev,
+      [groupId]: { name: '', price: '', ...prev[groupId], [field]: value },
+    }));
+  };
+
+  return (
+    <>
+      <span onClick={() => setOpen(true)}>{trigger}</span>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <SlidersHorizontal className="h-5 w-5" />
+              Modifiers for "{foodItemName}"
+            </DialogTitle>
+          </DialogHeader>
+
+          <div className="max-h-[60vh] overflow-y-auto space-y-4">
+            {isLoading ? (
+              Array.from({ length: 2 }).map((_, i) => (
+                <Skeleton key={i} className="h-24 rounded-lg" />
+              ))
+            ) : groups.length === 0 ? (
+              <div className="py-6 text-center text-muted-foreground">
+                <SlidersHorizontal className="h-10 w-10 mx-auto mb-2 opacity-40" />
+                <p>No modifiers for this item</p>
+              </div>
+            ) : (
+              groups.map((group) => (
+                <div key={group.id} className="rounded-lg border p-3 space-y-3">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-2 min-w-0">
+                      <p className="font-medium truncate">{group.name}</p>
+                      <Badge variant="outline" className="text-xs">
+                        {group.selection_type === 'single' ? 'Pick one' : 'Pick many'}
+                      </Badge>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Label className="text-xs text-muted-foreground">Active</Label>
+                      <Switch
+                        checked={group.is_active}
+                        onCheckedChange={(checked) => updateGroup.mutate({ id: group.id, is_active: checked })}
+                      />
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 text-destructive"
+                        onClick={() => deleteGroup.mutate(group.id)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+
+                  <div className="flex flex-wrap items-center gap-4 text-sm">
+                    <div className="flex items-center gap-2">
+                      <Switch
+                        checked={group.is_required}
+                        onCheckedChange={(checked) => updateGroup.mutate({ id: group.id, is_required: checked })}
+                      />
+                      <Label className="text-xs">Required</Label>
+                    </div>
+                    {group.selection_type === 'multiple' && (
+                      <div className="flex items-center gap-2">
+                        <Label className="text-xs">Max</Label>
+                        <Input
+                          type="number"
+                          min="1"
+                          className="h-8 w-16"
+                          defaultValue={group.max_selections ?? ''}
+                          onBlur={(e) => {
+                            const max = e.target.value ? parseInt(e.target.value) : null;
+                            if (max !== group.max_selections) {
+                              updateGroup.mutate({ id: group.id, max_selections: max });
+                            }
+                          }}
+                        />
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="space-y-2">
+                    {group.options.map((option) => (
+                      <div key={option.id} className="flex items-center gap-2 text-sm">
+                        <span className="flex-1 truncate">{option.name}</span>
+                        <Input
+                          type="number"
+                          min="0"
+                          className="h-8 w-20"
+                          defaultValue={option.price}
+                          onBlur={(e) => {
+                            const price = parseFloat(e.target.value) || 0;
+                            if (price !== Number(option.price)) {
+                              updateOption.mutate({ id: option.id, price });
+                            }
+                          }}
+                        />
+                        <div className="flex items-center gap-1">
+                          <Switch
+                            checked={option.is_default}
+                            onCheckedChange={(checked) => updateOption.mutate({ id: option.id, is_default: checked })}
+                          />
+                          <span className="text-xs text-muted-foreground">Default</span>
+                        </div>
+                        <Switch
+                          checked={option.is_available}
+                          onCheckedChange={(checked) => updateOption.mutate({ id: option.id, is_available: checked })}
+                          title="Available"
+                        />
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 text-destructive"
+                          onClick={() => deleteOption.mutate(option.id)}
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    ))}
+
+                    <div className="flex items-center gap-2">
+                      <Input
+                        placeholder="Option name"
+                        className="h-8"
+                        value={newOptions[group.id]?.name || ''}
+                        onChange={(e) => setDraft(group.id, 'name', e.target.value)}
+                      />
+                      <Input
+                        type="number"
+                        min="0"
+                        placeholder="₹ extra"
+                        className="h-8 w-24"
+                        value={newOptions[group.id]?.price || ''}
+                        onChange={(e) => setDraft(group.id, 'price', e.target.value)}
+                      />
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        className="h-8 w-8 shrink-0"
+                        onClick={() => handleAddOption(group)}
+                        disabled={createOption.isPending}
+                      >
+                        <Plus className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+
+          <div className="space-y-3 border-t pt-4">
+            <p className="text-sm font-medium">Add Modifier Group</p>
+            <Input
+              placeholder="e.g., Spice level, Extras, Portion size"
+              value={groupName}
+              onChange={(e) => setGroupName(e.target.value)}
+            />
+            <div className="flex items-center gap-4">
+              <Select value={selectionType} onValueChange={(v) => setSelectionType(v as 'single' | 'multiple')}>
+                <SelectTrigger className="w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="single">Pick one</SelectItem>
+                  <SelectItem value="multiple">Pick many</SelectItem>
+                </SelectContent>
+              </Select>
+              <div className="flex items-center gap-2">
+                <Switch checked={isRequired} onCheckedChange={setIsRequired} />
+                <Label className="text-sm">Required</Label>
+              </div>
+              <Button
+                className="ml-auto"
+                onClick={handleAddGroup}
+                disabled={!groupName.trim() || createGroup.isPending}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default ItemModifiersDialog;
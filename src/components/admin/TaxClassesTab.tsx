@@ -0,0 +1,217 @@
+import React, { useState } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Plus, Pencil, Trash2, Percent, Loader2 } from 'lucide-react';
+import { useTaxClasses, type TaxClass, type TaxClassInput, type TaxAppliesTo } from '@/hooks/useTaxClasses';
+
+const appliesToOptions: { value: TaxAppliesTo; label: string; hint: string }[] = [
+  { value: 'food', label: 'Food Items', hint: 'Assign to categories or items' },
+  { value: 'delivery', label: 'Delivery Charge', hint: 'First active class is used' },
+  { value: 'service_charge', label: 'Event Service Charge', hint: 'First active class is used' },
+];
+
+const emptyForm: TaxClassInput = {
+  name: '',
+  hsn_sac_code: '',
+  rate_percent: 0,
+  applies_to: 'food',
+  is_active: true,
+  display_order: 0,
+};
+
+const TaxClassesTab: React.FC = () => {
+  const { taxClasses, isLoading, createTaxClass, updateTaxClass, deleteTaxClass } = useTaxClasses();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null);
+  const [form, setForm] = useState<TaxClassInput>(emptyForm);
+
+  const resetForm = () => {
+    setForm(emptyForm);
+    setEditingId(null);
+  };
+
+  const openCreate = () => { resetForm(); setIsDialogOpen(true); };
+
+  const openEdit = (taxClass: TaxClass) => {
+    setEditingId(taxClass.id);
+    setForm({
+      name: taxClass.name,
+      hsn_sac_code: taxClass.hsn_sac_code || '',
+      rate_percent: taxClass.rate_percent,
+      applies_to: taxClass.applies_to,
+      is_active: taxClass.is_active,
+      display_order: taxClass.display_order,
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleSubmit = () => {
+    if (!form.name.trim()) return;
+    const payload = { ...form, hsn_sac_code: form.hsn_sac_code?.trim() || null };
+    if (editingId) {
+      updateTaxClass.mutate({ id: editingId, ...payload }, {
+        onSuccess: () => { setIsDialogOpen(false); resetForm(); },
+      });
+    } else {
+      createTaxClass.mutate(payload, {
+        onSuccess: () => { setIsDialogOpen(false); resetForm(); },
+      });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-4">
+        {[...Array(2)].map((_, i) => <Skeleton key={i} className="h-16" />)}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold flex items-center gap-2">
+            <Percent className="h-5 w-5" />
+            GST Tax Classes
+          </h2>
+          <p className="text-sm text-muted-foreground">Charged on top of prices and split equally into CGST and SGST</p>
+        </div>
+        <Button size="sm" onClick={openCreate}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add Class
+        </Button>
+      </div>
+
+      {appliesToOptions.map(option => {
+        const items = taxClasses.filter(tc => tc.applies_to === option.value);
+        return (
+          <div key={option.value} className="space-y-2">
+            <h3 className="text-sm font-semibold text-muted-foreground uppercase tracking-wide">
+              {option.label} <span className="normal-case font-normal">· {option.hint}</span>
+            </h3>
+            {items.length > 0 ? (
+              items.map(taxClass => (
+                <Card key={taxClass.id} className="border">
+                  <CardContent className="flex items-center justify-between gap-2 p-3">
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <h4 className="font-medium text-sm truncate">{taxClass.name}</h4>
+                        <Badge variant={taxClass.is_active ? 'default' : 'secondary'} className="text-xs">
+                          {taxClass.is_active ? 'Active' : 'Inactive'}
+                        </Badge>
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {taxClass.rate_percent}% (CGST {taxClass.rate_percent / 2}% + SGST {taxClass.rate_percent / 2}%)
+                        {taxClass.hsn_sac_code && ` • HSN/SAC ${taxClass.hsn_sac_code}`}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <Switch
+                        checked={taxClass.is_active}
+                        onCheckedChange={() => updateTaxClass.mutate({ id: taxClass.id, is_active: !taxClass.is_active })}
+                      />
+                      <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => openEdit(taxClass)}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" className="h-8 w-8 text-destructive" onClick={() => setDeleteConfirmId(taxClass.id)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))
+            ) : (
+              <Card className="p-3 text-center">
+                <p className="text-sm text-muted-foreground">No tax classes yet</p>
+              </Card>
+            )}
+          </div>
+        );
+      })}
+
+      {/* Add/Edit Dialog */}
+      <Dialog open={isDialogOpen} onOpenChange={(open) => { setIsDialogOpen(open); if (!open) resetForm(); }}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editingId ? 'Edit' : 'Add'} Tax Class</DialogTitle>
+            <DialogDescription>Rates apply to new orders only; placed orders keep the tax they were charged</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label>Applies To</Label>
+              <Select value={form.applies_to} onValueChange={(v) => setForm(prev => ({ ...prev, applies_to: v as TaxAppliesTo }))}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {appliesToOptions.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Name</Label>
+              <Input placeholder="e.g. GST 5%" value={form.name} onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))} />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Total GST Rate (%)</Label>
+                <Input type="number" min="0" max="100" step="0.01" value={form.rate_percent} onChange={(e) => setForm(prev => ({ ...prev, rate_percent: Number(e.target.value) }))} />
+              </div>
+              <div className="space-y-2">
+                <Label>HSN/SAC <span className="text-muted-foreground text-xs">Optional</span></Label>
+                <Input value={form.hsn_sac_code || ''} onChange={(e) => setForm(prev => ({ ...prev, hsn_sac_code: e.target.value }))} />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Display Order</Label>
+              <Input type="number" value={form.display_order} onChange={(e) => setForm(prev => ({ ...prev, display_order: parseInt(e.target.value) || 0 }))} />
+            </div>
+          </div>
+
+          <Button className="w-full mt-2" onClick={handleSubmit} disabled={createTaxClass.isPending || updateTaxClass.isPending || !form.name.trim()}>
+            {(createTaxClass.isPending || updateTaxClass.isPending) && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {editingId ? 'Save Changes' : 'Create Class'}
+          </Button>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation */}
+      <Dialog open={!!deleteConfirmId} onOpenChange={(open) => { if (!open) setDeleteConfirmId(null); }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Tax Class</DialogTitle>
+            <DialogDescription>Categories and items using this class will no longer be taxed.</DialogDescription>
+          </DialogHeader>
+          <div className="flex justify-end gap-2 mt-4">
+            <Button variant="outline" onClick={() => setDeleteConfirmId(null)}>Cancel</Button>
+            <Button variant="destructive" onClick={() => { if (deleteConfirmId) deleteTaxClass.mutate(deleteConfirmId, { onSuccess: () => setDeleteConfirmId(null) }); }} disabled={deleteTaxClass.isPending}>
+              {deleteTaxClass.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Delete
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default TaxClassesTab;
@@ -24,6 +24,7 @@ interface UnacceptedOrder {
   ward_number: number;
   created_at: string;
   updated_at: string;
+  delivery_escalated_at: string | null;
   panchayat?: { name: string };
 }
 
@@ -115,8 +116,8 @@ const UnacceptedOrdersAlert: React.FC<UnacceptedOrdersAlertProps> = ({
         </DialogHeader>
 
         <p className="text-sm text-muted-foreground">
-          These orders have been ready for delivery but no driver has accepted them.
-          Consider manual assignment or contact available staff.
+          Every available delivery partner was offered these orders and none accepted.
+          Assign a partner manually or contact available staff.
         </p>
 
         <div className="space-y-3 mt-2">
@@ -144,7 +145,7 @@ const UnacceptedOrdersAlert: React.FC<UnacceptedOrdersAlertProps> = ({
                 <div className="grid grid-cols-2 gap-2 text-sm">
                   <div className="flex items-center gap-1.5 text-destructive">
                     <Clock className="h-3.5 w-3.5" />
-                    <span>Waiting: {getWaitingTime(order.updated_at)}</span>
+                    <span>Waiting: {getWaitingTime(order.delivery_escalated_at ?? order.updated_at)}</span>
                   </div>
                   <div className="flex items-center gap-1.5 text-muted-foreground">
                     <Users className="h-3.5 w-3.5" />
@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertCircle, Loader2, MapIcon } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { useReplaceWardBoundaries } from '@/hooks/useWardBoundaries';
+import { parseWardBoundaries, type ParsedWardBoundaries } from '@/lib/geo';
+import type { Panchayat } from '@/types/database';
+
+interface WardBoundariesDialogProps {
+  panchayat: Panchayat;
+  // Wards that already have a boundary
+  mappedCount: number;
+  canEdit: boolean;
+  trigger: React.ReactNode;
+}
+
+const WardBoundariesDialog: React.FC<WardBoundariesDialogProps> = ({
+  panchayat,
+  mappedCount,
+  canEdit,
+  trigger,
+}) => {
+  const [open, setOpen] = useState(false);
+  const [fileName, setFileName] = useState('');
+  const [parsed, setParsed] = useState<ParsedWardBoundaries | null>(null);
+  const replaceBoundaries = useReplaceWardBoundaries();
+
+  const handleOpenChange = (value: boolean) => {
+    setOpen(value);
+    if (!value) {
+      setFileName('');
+      setParsed(null);
+    }
+  };
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setFileName(file.name);
+    setParsed(parseWardBoundaries(await file.text(), panchayat.ward_count));
+  };
+
+  const handleUpload = () => {
+    if (!parsed) return;
+    replaceBoundaries.mutate(
+      { panchayatId: panchayat.id, boundaries: parsed.boundaries },
+      {
+        onSuccess: (count) => {
+          toast({ title: `${count} ward boundaries saved for ${panchayat.name}` });
+          handleOpenChange(false);
+        },
+        onError: (error) => {
+          toast({ title: 'Upload failed', description: (error as Error).message, variant: 'destructive' });
+        },
+      }
+    );
+  };
+
+  const canUpload = canEdit && !!parsed && parsed.errors.length === 0 && parsed.boundaries.length > 0;
+
+  return (
+    <>
+      <span onClick={() => setOpen(true)}>{trigger}</span>
+      <Dialog open={open} onOpenChange={handleOpenChange}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <MapIcon className="h-5 w-5" />
+              Ward boundaries for {panchayat.name}
+            </DialogTitle>
+            <DialogDescription>
+              {mappedCount} of {panchayat.ward_count} wards mapped. Customer addresses are placed in a
+              ward from their pin; once this panchayat has boundaries, its addresses need a pin
+              inside one of them.
+            </DialogDescription>
+          </DialogHeader>
+
+          {canEdit ? (
+            <div className="space-y-3">
+              <div className="space-y-1">
+                <Input type="file" accept=".geojson,.json,application/geo+json" onChange={handleFileSelect} />
+                <p className="text-xs text-muted-foreground">
+                  A GeoJSON FeatureCollection with one Polygon or MultiPolygon per ward, numbered by
+                  a "ward", "ward_no" or "ward_number" property. Uploading replaces this panchayat's
+                  boundaries.
+                </p>
+              </div>
+
+              {parsed && (
+                <div className="space-y-2 text-sm">
+                  <p>
+                    <span className="font-medium">{fileName}</span>: {parsed.boundaries.length} ward
+                    {parsed.boundaries.length === 1 ? '' : 's'} found
+                  </p>
+                  {parsed.errors.length > 0 && (
+                    <Alert variant="destructive">
+                      <AlertCircle className="h-4 w-4" />
+                      <AlertDescription>
+                        <ul className="list-disc pl-4">
+                          {parsed.errors.map((error) => (
+                            <li key={error}>{error}</li>
+                          ))}
+                        </ul>
+                      </AlertDescription>
+                    </Alert>
+                  )}
+                  {parsed.errors.length === 0 && parsed.missingWards.length > 0 && (
+                    <p className="text-xs text-amber-600">
+                      No boundary for ward{parsed.missingWards.length === 1 ? '' : 's'}{' '}
+                      {parsed.missingWards.join(', ')}. Addresses there cannot be saved until it is added.
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">You can view but not change ward boundaries.</p>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => handleOpenChange(false)}>
+              Close
+            </Button>
+            {canEdit && (
+              <Button onClick={handleUpload} disabled={!canUpload || replaceBoundaries.isPending}>
+                {replaceBoundaries.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Upload
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default WardBoundariesDialog;
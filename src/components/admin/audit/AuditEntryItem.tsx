@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ChevronDown, ChevronUp } from 'lucide-react';
+import {
+  ACTION_LABELS,
+  AUDITED_TABLES,
+  auditChanges,
+  auditRecordLabel,
+  formatAuditValue,
+  type AuditAction,
+  type AuditEntry,
+} from '@/lib/auditLog';
+
+interface AuditEntryItemProps {
+  entry: AuditEntry;
+  actorName?: string;
+  // Hide the table and row name when the list is already about one record
+  showRecord?: boolean;
+}
+
+const actionColors: Record<AuditAction, string> = {
+  INSERT: 'bg-green-100 text-green-800',
+  UPDATE: 'bg-blue-100 text-blue-800',
+  DELETE: 'bg-red-100 text-red-800',
+};
+
+// Changes beyond this many stay collapsed until asked for
+const PREVIEW_CHANGES = 4;
+
+const AuditEntryItem: React.FC<AuditEntryItemProps> = ({ entry, actorName, showRecord = true }) => {
+  const [expanded, setExpanded] = useState(false);
+  const changes = auditChanges(entry);
+  const shown = expanded ? changes : changes.slice(0, PREVIEW_CHANGES);
+
+  return (
+    <div className="space-y-2 rounded-lg border p-3">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <Badge className={actionColors[entry.action]}>{ACTION_LABELS[entry.action]}</Badge>
+        {showRecord && (
+          <span className="font-medium">
+            {AUDITED_TABLES[entry.table_name] ?? entry.table_name} · {auditRecordLabel(entry)}
+          </span>
+        )}
+        <span className="ml-auto text-xs text-muted-foreground">
+          {format(new Date(entry.created_at), 'dd MMM yyyy, hh:mm a')}
+        </span>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        by {actorName || entry.actor_id?.slice(0, 8) || 'Unknown'}
+        {entry.actor_role === 'super_admin' && ' (super admin)'}
+      </p>
+
+      {changes.length > 0 && (
+        <div className="space-y-1 rounded-md bg-muted/50 p-2 text-xs">
+          {shown.map((change) => (
+            <div key={change.field} className="grid grid-cols-[8rem_1fr] gap-2">
+              <span className="truncate font-mono text-muted-foreground">{change.field}</span>
+              <span className="break-all">
+                {entry.action !== 'INSERT' && (
+                  <span className={entry.action === 'UPDATE' ? 'text-muted-foreground line-through' : ''}>
+                    {formatAuditValue(change.before)}
+                  </span>
+                )}
+                {entry.action === 'UPDATE' && ' → '}
+                {entry.action !== 'DELETE' && formatAuditValue(change.after)}
+              </span>
+            </div>
+          ))}
+          {changes.length > PREVIEW_CHANGES && (
+            <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={() => setExpanded(!expanded)}>
+              {expanded ? (
+                <>Show less <ChevronUp className="ml-1 h-3 w-3" /></>
+              ) : (
+                <>Show {changes.length - PREVIEW_CHANGES} more <ChevronDown className="ml-1 h-3 w-3" /></>
+              )}
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AuditEntryItem;
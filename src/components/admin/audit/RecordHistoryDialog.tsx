@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Skeleton } from '@/components/ui/skeleton';
+import { FileClock } from 'lucide-react';
+import { useAuditActors, useRecordHistory } from '@/hooks/useAuditLog';
+import AuditEntryItem from './AuditEntryItem';
+
+interface RecordHistoryDialogProps {
+  tableName: string;
+  recordId: string;
+  recordName: string;
+  trigger: React.ReactNode;
+}
+
+const RecordHistoryDialog: React.FC<RecordHistoryDialogProps> = ({ tableName, recordId, recordName, trigger }) => {
+  const [open, setOpen] = useState(false);
+  const { data: entries, isLoading } = useRecordHistory(tableName, recordId, open);
+  const { data: actors } = useAuditActors(open);
+  const actorNames = new Map((actors || []).map((actor) => [actor.actor_id, actor.name ?? undefined]));
+
+  return (
+    <>
+      <span onClick={() => setOpen(true)}>{trigger}</span>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-h-[85vh] overflow-y-auto sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <FileClock className="h-5 w-5" />
+              History
+            </DialogTitle>
+            <DialogDescription>Admin changes to {recordName}</DialogDescription>
+          </DialogHeader>
+
+          {isLoading ? (
+            <div className="space-y-2">
+              {[1, 2].map((i) => (
+                <Skeleton key={i} className="h-20 w-full" />
+              ))}
+            </div>
+          ) : !entries?.length ? (
+            <p className="py-6 text-center text-sm text-muted-foreground">No admin changes recorded yet</p>
+          ) : (
+            <div className="space-y-2">
+              {entries.map((entry) => (
+                <AuditEntryItem
+                  key={entry.id}
+                  entry={entry}
+                  actorName={entry.actor_id ? actorNames.get(entry.actor_id) : undefined}
+                  showRecord={false}
+                />
+              ))}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default RecordHistoryDialog;
@@ -0,0 +1,167 @@
+import React from 'react';
+import { addDays, format } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Loader2, Pause, Play, Repeat, X } from 'lucide-react';
+import {
+  useAdminMealSubscriptions,
+  useMealSubscriptionActions,
+  type MealSubscription,
+} from '@/hooks/useMealSubscriptions';
+import { atTime, formatDeliveryDate, toDateKey } from '@/lib/scheduling';
+import { SUBSCRIPTION_STATUS_CONFIG, formatWeekdays, subscriptionDeliveryDates } from '@/lib/subscriptions';
+
+// Meals a plan still expects on a date: active, a delivery day, not skipped
+const hasMealOn = (subscription: MealSubscription, date: string) =>
+  subscription.status === 'active' &&
+  !subscription.skips.some((s) => s.skip_date === date) &&
+  subscriptionDeliveryDates(subscription.weekdays, subscription.start_date, subscription.end_date).includes(date);
+
+const MealSubscriptionsOverview: React.FC = () => {
+  const { data: subscriptions, isLoading } = useAdminMealSubscriptions();
+  const { setStatus, generateOrders } = useMealSubscriptionActions();
+
+  const days = [toDateKey(new Date()), toDateKey(addDays(new Date(), 1))];
+
+  // Sets due per division for today and tomorrow
+  const dueByDivision = new Map<string, { name: string; sets: number[] }>();
+  (subscriptions || []).forEach((subscription) => {
+    const setSize = Math.max(subscription.food_item?.set_size ?? 1, 1);
+    days.forEach((date, i) => {
+      if (!hasMealOn(subscription, date)) return;
+      const entry = dueByDivision.get(subscription.cloud_kitchen_slot_id) ?? {
+        name: subscription.slot?.name ?? 'Division',
+        sets: days.map(() => 0),
+      };
+      entry.sets[i] += subscription.quantity / setSize;
+      dueByDivision.set(subscription.cloud_kitchen_slot_id, entry);
+    });
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between pb-2">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Repeat className="h-4 w-4" />
+          Meal Subscriptions
+        </CardTitle>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={generateOrders.isPending}
+          onClick={() => generateOrders.mutate()}
+        >
+          {generateOrders.isPending && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+          Place Due Meals
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Each day's subscription orders are placed automatically two hours before the division's cutoff.
+        </p>
+
+        {dueByDivision.size > 0 && (
+          <div className="grid gap-2 sm:grid-cols-2">
+            {[...dueByDivision.values()].map((entry) => (
+              <div key={entry.name} className="rounded-lg bg-muted/50 p-3 text-sm">
+                <p className="font-medium">{entry.name}</p>
+                <p className="text-muted-foreground">
+                  {days.map((date, i) => `${formatDeliveryDate(date)}: ${entry.sets[i]} sets`).join(' · ')}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {isLoading ? (
+          <Skeleton className="h-32 w-full" />
+        ) : subscriptions && subscriptions.length > 0 ? (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Customer</TableHead>
+                  <TableHead>Plan</TableHead>
+                  <TableHead>Period</TableHead>
+                  <TableHead>Prepaid Left</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {subscriptions.map((subscription) => {
+                  const status = SUBSCRIPTION_STATUS_CONFIG[subscription.status];
+                  const isOpen = subscription.status === 'active' || subscription.status === 'paused';
+                  const sets = subscription.quantity / Math.max(subscription.food_item?.set_size ?? 1, 1);
+
+                  return (
+                    <TableRow key={subscription.id}>
+                      <TableCell>
+                        <p className="font-medium">{subscription.customer?.name || 'Unknown'}</p>
+                        <p className="text-xs text-muted-foreground">{subscription.customer?.mobile_number}</p>
+                      </TableCell>
+                      <TableCell>
+                        <p>{subscription.slot?.name} · {subscription.food_item?.name} × {sets}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {formatWeekdays(subscription.weekdays)} · {subscription.cook?.kitchen_name}
+                        </p>
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap text-sm">
+                        {format(atTime(subscription.start_date, '00:00'), 'd MMM')} – {format(atTime(subscription.end_date, '00:00'), 'd MMM')}
+                        <p className="text-xs text-muted-foreground">
+                          {subscription.orders.length}/{subscription.meal_count} ordered
+                        </p>
+                      </TableCell>
+                      <TableCell>₹{subscription.balance}</TableCell>
+                      <TableCell>
+                        <Badge className={status.color}>{status.label}</Badge>
+                      </TableCell>
+                      <TableCell>
+                        {isOpen && (
+                          <div className="flex gap-1">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-7 w-7"
+                              disabled={setStatus.isPending}
+                              onClick={() => setStatus.mutate({
+                                subscriptionId: subscription.id,
+                                status: subscription.status === 'active' ? 'paused' : 'active',
+                              })}
+                            >
+                              {subscription.status === 'active' ? <Pause className="h-3 w-3" /> : <Play className="h-3 w-3" />}
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-7 w-7 text-destructive"
+                              disabled={setStatus.isPending}
+                              onClick={() => {
+                                if (confirm('Cancel this plan and refund the remaining prepayment to the customer\'s wallet?')) {
+                                  setStatus.mutate({ subscriptionId: subscription.id, status: 'cancelled' });
+                                }
+                              }}
+                            >
+                              <X className="h-3 w-3" />
+                            </Button>
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        ) : (
+          <p className="py-4 text-center text-sm text-muted-foreground">No meal subscriptions yet</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MealSubscriptionsOverview;
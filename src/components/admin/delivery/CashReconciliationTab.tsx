@@ -0,0 +1,294 @@
+import React, { useState } from 'react';
+import { format, subDays } from 'date-fns';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { toast } from '@/hooks/use-toast';
+import { usePermission } from '@/hooks/usePermission';
+import { useCashReconciliation, useCloseCashDay } from '@/hooks/useCashReconciliation';
+import {
+  CASH_DAY_STATUS_LABELS,
+  cashDue,
+  describeCashVariance,
+  type CashReconciliationRow,
+} from '@/lib/cashReconciliation';
+import { toDateKey } from '@/lib/scheduling';
+import RecordHistoryDialog from '@/components/admin/audit/RecordHistoryDialog';
+import { AlertTriangle, Banknote, Clock, FileClock, Lock } from 'lucide-react';
+
+const statusVariants: Record<CashReconciliationRow['status'], 'default' | 'secondary' | 'outline'> = {
+  open: 'outline',
+  declared: 'secondary',
+  closed: 'default',
+};
+
+const CashReconciliationTab: React.FC = () => {
+  const { canEdit } = usePermission('settlements');
+  const [from, setFrom] = useState(() => toDateKey(subDays(new Date(), 6)));
+  const [to, setTo] = useState(() => toDateKey(new Date()));
+  const [flaggedOnly, setFlaggedOnly] = useState(false);
+  const [closingRow, setClosingRow] = useState<CashReconciliationRow | null>(null);
+  const [depositAmount, setDepositAmount] = useState('');
+  const [adminNote, setAdminNote] = useState('');
+
+  const { data: rows, isLoading } = useCashReconciliation(from, to);
+  const closeCashDay = useCloseCashDay();
+
+  const visibleRows = rows?.filter(r => !flaggedOnly || r.is_flagged);
+  const pendingRows = rows?.filter(r => r.status !== 'closed') || [];
+
+  const openCloseDialog = (row: CashReconciliationRow) => {
+    setClosingRow(row);
+    setDepositAmount(String(row.declared_amount ?? cashDue(row)));
+    setAdminNote('');
+  };
+
+  const handleClose = async () => {
+    if (!closingRow) return;
+    try {
+      await closeCashDay.mutateAsync({
+        deliveryStaffId: closingRow.delivery_staff_id,
+        businessDate: closingRow.business_date,
+        depositedAmount: parseFloat(depositAmount),
+        note: adminNote.trim(),
+      });
+      toast({ title: `Cash closed for ${closingRow.staff_name}` });
+      setClosingRow(null);
+    } catch (error) {
+      toast({ title: 'Could not close cash', description: (error as Error).message, variant: 'destructive' });
+    }
+  };
+
+  const closingDue = closingRow ? cashDue(closingRow) : 0;
+  const depositVariance = closingRow && depositAmount !== ''
+    ? describeCashVariance(closingDue, parseFloat(depositAmount))
+    : null;
+
+  return (
+    <div className="space-y-4">
+      {/* Summary Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card className="bg-blue-50 border-blue-200">
+          <CardContent className="p-4">
+            <div className="flex items-center gap-2">
+              <Banknote className="h-5 w-5 text-blue-600" />
+              <span className="text-sm font-medium text-blue-800">Cash Not Deposited</span>
+            </div>
+            <p className="text-2xl font-bold text-blue-600 mt-2">
+              ₹{pendingRows.reduce((sum, r) => sum + r.outstanding_amount, 0).toLocaleString()}
+            </p>
+            <p className="text-xs text-blue-600">Days not closed in this range</p>
+          </CardContent>
+        </Card>
+        <Card className="bg-yellow-50 border-yellow-200">
+          <CardContent className="p-4">
+            <div className="flex items-center gap-2">
+              <Clock className="h-5 w-5 text-yellow-600" />
+              <span className="text-sm font-medium text-yellow-800">Awaiting Deposit</span>
+            </div>
+            <p className="text-2xl font-bold text-yellow-600 mt-2">
+              {pendingRows.filter(r => r.status === 'declared').length}
+            </p>
+            <p className="text-xs text-yellow-600">Declared by partners</p>
+          </CardContent>
+        </Card>
+        <Card className="bg-red-50 border-red-200">
+          <CardContent className="p-4">
+            <div className="flex items-center gap-2">
+              <AlertTriangle className="h-5 w-5 text-red-600" />
+              <span className="text-sm font-medium text-red-800">Flagged Days</span>
+            </div>
+            <p className="text-2xl font-bold text-red-600 mt-2">
+              {rows?.filter(r => r.is_flagged).length || 0}
+            </p>
+            <p className="text-xs text-red-600">Deposit differed from what was due or declared</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-wrap items-end gap-4">
+        <div>
+          <Label htmlFor="cash-from">From</Label>
+          <Input id="cash-from" type="date" value={from} max={to} onChange={(e) => setFrom(e.target.value)} />
+        </div>
+        <div>
+          <Label htmlFor="cash-to">To</Label>
+          <Input id="cash-to" type="date" value={to} min={from} onChange={(e) => setTo(e.target.value)} />
+        </div>
+        <div className="flex items-center gap-2 pb-2">
+          <Switch id="cash-flagged" checked={flaggedOnly} onCheckedChange={setFlaggedOnly} />
+          <Label htmlFor="cash-flagged">Flagged only</Label>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <Skeleton className="h-64 w-full" />
+      ) : visibleRows && visibleRows.length > 0 ? (
+        <Card>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Partner</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Expected</TableHead>
+                <TableHead className="text-right">Carried In</TableHead>
+                <TableHead className="text-right">Declared</TableHead>
+                <TableHead className="text-right">Deposited</TableHead>
+                <TableHead className="text-right">Outstanding</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visibleRows.map((row) => {
+                const declaredVariance = describeCashVariance(cashDue(row), row.declared_amount);
+                return (
+                  <TableRow key={`${row.delivery_staff_id}-${row.business_date}-${row.status}`}>
+                    <TableCell className="text-sm whitespace-nowrap">
+                      {format(new Date(`${row.business_date}T00:00:00`), 'dd MMM yyyy')}
+                    </TableCell>
+                    <TableCell className="font-medium">{row.staff_name}</TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-1">
+                        <Badge variant={statusVariants[row.status]}>
+                          {row.status === 'closed' && <Lock className="h-3 w-3 mr-1" />}
+                          {CASH_DAY_STATUS_LABELS[row.status]}
+                        </Badge>
+                        {row.is_flagged && (
+                          <Badge variant="destructive" className="gap-1">
+                            <AlertTriangle className="h-3 w-3" />
+                            Flagged
+                          </Badge>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">₹{row.expected_amount.toLocaleString()}</TableCell>
+                    <TableCell className="text-right">₹{row.carried_forward.toLocaleString()}</TableCell>
+                    <TableCell className="text-right">
+                      {row.declared_amount != null ? `₹${row.declared_amount.toLocaleString()}` : '-'}
+                      {row.status === 'declared' && declaredVariance && (
+                        <p className="text-xs text-red-600">{declaredVariance}</p>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {row.deposited_amount != null ? `₹${row.deposited_amount.toLocaleString()}` : '-'}
+                    </TableCell>
+                    <TableCell className={`text-right font-semibold ${row.outstanding_amount > 0 ? 'text-red-600' : ''}`}>
+                      ₹{row.outstanding_amount.toLocaleString()}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex justify-end gap-2">
+                        {row.closing_id && (
+                          <RecordHistoryDialog
+                            tableName="cash_closings"
+                            recordId={row.closing_id}
+                            recordName={`${row.staff_name}'s cash for ${row.business_date}`}
+                            trigger={
+                              <Button size="sm" variant="outline" title="Admin changes">
+                                <FileClock className="h-4 w-4" />
+                              </Button>
+                            }
+                          />
+                        )}
+                        {canEdit && row.status !== 'closed' && (
+                          <Button size="sm" onClick={() => openCloseDialog(row)}>
+                            Close Day
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </Card>
+      ) : (
+        <Card className="p-6 text-center">
+          <p className="text-muted-foreground">No cash to reconcile in this range</p>
+        </Card>
+      )}
+
+      {/* Close Day Dialog */}
+      <Dialog open={!!closingRow} onOpenChange={(open) => !open && setClosingRow(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Close Cash Day</DialogTitle>
+            <DialogDescription>
+              {closingRow?.staff_name} · {closingRow && format(new Date(`${closingRow.business_date}T00:00:00`), 'dd MMM yyyy')}
+            </DialogDescription>
+          </DialogHeader>
+          {closingRow && (
+            <div className="space-y-4">
+              <div className="p-3 bg-blue-50 rounded-lg text-sm text-blue-800 space-y-1">
+                <p>Cash from deliveries: <strong>₹{closingRow.expected_amount.toLocaleString()}</strong></p>
+                <p>Carried in from earlier days: <strong>₹{closingRow.carried_forward.toLocaleString()}</strong></p>
+                <p>Partner declared: <strong>{closingRow.declared_amount != null ? `₹${closingRow.declared_amount.toLocaleString()}` : 'Not yet'}</strong></p>
+                <p className="text-xs text-blue-600">
+                  Amounts are recomputed when the day is closed. Closed days are locked.
+                </p>
+              </div>
+              <div>
+                <Label>Deposited Amount (₹)</Label>
+                <Input
+                  type="number"
+                  value={depositAmount}
+                  onChange={(e) => setDepositAmount(e.target.value)}
+                  min={0}
+                />
+                {depositVariance && (
+                  <p className="text-xs text-red-600 mt-1">
+                    {depositVariance} — the day will be flagged and the difference carried forward
+                  </p>
+                )}
+              </div>
+              <div>
+                <Label>Note</Label>
+                <Textarea
+                  value={adminNote}
+                  onChange={(e) => setAdminNote(e.target.value)}
+                  placeholder="Optional"
+                  rows={2}
+                />
+              </div>
+              <div className="flex gap-2 justify-end">
+                <Button variant="outline" onClick={() => setClosingRow(null)}>
+                  Cancel
+                </Button>
+                <Button
+                  onClick={handleClose}
+                  disabled={depositAmount === '' || parseFloat(depositAmount) < 0 || closeCashDay.isPending}
+                >
+                  {closeCashDay.isPending ? 'Closing...' : 'Close Day'}
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default CashReconciliationTab;
@@ -23,16 +23,18 @@ import {
   TableRow,
 } from '@/components/ui/table';
 import { toast } from '@/hooks/use-toast';
+import { usePermission } from '@/hooks/usePermission';
 import { format } from 'date-fns';
 import { 
   Wallet, 
   IndianRupee, 
-  ArrowDownToLine, 
   ArrowUpFromLine,
   CheckCircle,
   History,
-  Search
+  Search,
+  FileClock
 } from 'lucide-react';
+import RecordHistoryDialog from '@/components/admin/audit/RecordHistoryDialog';
 
 interface DeliveryStaffWithWallet {
   id: string;
@@ -59,12 +61,11 @@ interface WalletTransaction {
 
 const DeliveryStaffWalletTab: React.FC = () => {
   const queryClient = useQueryClient();
+  const { canEdit: canPayOut } = usePermission('settlements');
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedStaff, setSelectedStaff] = useState<DeliveryStaffWithWallet | null>(null);
   const [payoutAmount, setPayoutAmount] = useState('');
-  const [settlementAmount, setSettlementAmount] = useState('');
   const [isPayoutDialogOpen, setIsPayoutDialogOpen] = useState(false);
-  const [isSettlementDialogOpen, setIsSettlementDialogOpen] = useState(false);
   const [isHistoryDialogOpen, setIsHistoryDialogOpen] = useState(false);
 
   // Fetch all delivery staff with wallets
@@ -167,58 +168,6 @@ const DeliveryStaffWalletTab: React.FC = () => {
     },
   });
 
-  // Process settlement (admin collects cash from staff)
-  const settlementMutation = useMutation({
-    mutationFn: async ({ staffId, amount }: { staffId: string; amount: number }) => {
-      // Get current wallet
-      const { data: wallet, error: walletError } = await supabase
-        .from('delivery_wallets')
-        .select('*')
-        .eq('delivery_staff_id', staffId)
-        .single();
-
-      if (walletError) throw new Error('Wallet not found');
-      if (wallet.collected_amount < amount) throw new Error('Amount exceeds collected balance');
-
-      // Update wallet - deduct from collected_amount
-      const { error: updateError } = await supabase
-        .from('delivery_wallets')
-        .update({
-          collected_amount: wallet.collected_amount - amount,
-          total_settled: wallet.total_settled + amount,
-          updated_at: new Date().toISOString(),
-        })
-        .eq('delivery_staff_id', staffId);
-
-      if (updateError) throw updateError;
-
-      // Create transaction record
-      const { error: txError } = await supabase
-        .from('wallet_transactions')
-        .insert({
-          delivery_staff_id: staffId,
-          transaction_type: 'settlement',
-          amount: -amount, // Negative because it's deducted
-          description: `Cash settlement of ₹${amount} collected by admin`,
-          status: 'approved',
-          approved_at: new Date().toISOString(),
-        });
-
-      if (txError) throw txError;
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['admin-delivery-wallets'] });
-      queryClient.invalidateQueries({ queryKey: ['admin-wallet-transactions'] });
-      toast({ title: 'Settlement processed successfully' });
-      setIsSettlementDialogOpen(false);
-      setSettlementAmount('');
-      setSelectedStaff(null);
-    },
-    onError: (error: Error) => {
-      toast({ title: 'Settlement failed', description: error.message, variant: 'destructive' });
-    },
-  });
-
   const filteredStaff = staffList?.filter(
     s =>
       s.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -231,12 +180,6 @@ const DeliveryStaffWalletTab: React.FC = () => {
     setIsPayoutDialogOpen(true);
   };
 
-  const openSettlementDialog = (staff: DeliveryStaffWithWallet) => {
-    setSelectedStaff(staff);
-    setSettlementAmount(staff.wallet?.collected_amount?.toString() || '0');
-    setIsSettlementDialogOpen(true);
-  };
-
   const openHistoryDialog = (staff: DeliveryStaffWithWallet) => {
     setSelectedStaff(staff);
     setIsHistoryDialogOpen(true);
@@ -266,7 +209,7 @@ const DeliveryStaffWalletTab: React.FC = () => {
             <p className="text-2xl font-bold text-blue-600 mt-2">
               ₹{staffList?.reduce((sum, s) => sum + (s.wallet?.collected_amount || 0), 0).toLocaleString()}
             </p>
-            <p className="text-xs text-blue-600">Cash to be collected from staff</p>
+            <p className="text-xs text-blue-600">Settled by closing cash days in the Cash tab</p>
           </CardContent>
         </Card>
         <Card className="bg-green-50 border-green-200">
@@ -351,24 +294,29 @@ const DeliveryStaffWalletTab: React.FC = () => {
                   >
                     <History className="h-4 w-4" />
                   </Button>
-                  <Button
-                    size="sm"
-                    variant="default"
-                    disabled={!staff.wallet?.job_earnings || staff.wallet.job_earnings <= 0}
-                    onClick={() => openPayoutDialog(staff)}
-                  >
-                    <ArrowUpFromLine className="h-4 w-4 mr-1" />
-                    Payout
-                  </Button>
-                  <Button
-                    size="sm"
-                    variant="secondary"
-                    disabled={!staff.wallet?.collected_amount || staff.wallet.collected_amount <= 0}
-                    onClick={() => openSettlementDialog(staff)}
-                  >
-                    <ArrowDownToLine className="h-4 w-4 mr-1" />
-                    Settle
-                  </Button>
+                  {staff.wallet && (
+                    <RecordHistoryDialog
+                      tableName="delivery_wallets"
+                      recordId={staff.wallet.id}
+                      recordName={`${staff.name}'s wallet`}
+                      trigger={
+                        <Button size="sm" variant="outline" title="Admin changes">
+                          <FileClock className="h-4 w-4" />
+                        </Button>
+                      }
+                    />
+                  )}
+                  {canPayOut && (
+                    <Button
+                      size="sm"
+                      variant="default"
+                      disabled={!staff.wallet?.job_earnings || staff.wallet.job_earnings <= 0}
+                      onClick={() => openPayoutDialog(staff)}
+                    >
+                      <ArrowUpFromLine className="h-4 w-4 mr-1" />
+                      Payout
+                    </Button>
+                  )}
                 </div>
               </div>
             </CardContent>
@@ -429,56 +377,6 @@ const DeliveryStaffWalletTab: React.FC = () => {
         </DialogContent>
       </Dialog>
 
-      {/* Settlement Dialog */}
-      <Dialog open={isSettlementDialogOpen} onOpenChange={setIsSettlementDialogOpen}>
-        <DialogContent>
-          <DialogHeader>
-            <DialogTitle>Settle Collections</DialogTitle>
-            <DialogDescription>
-              Record cash collection from {selectedStaff?.name}
-            </DialogDescription>
-          </DialogHeader>
-          <div className="space-y-4">
-            <div className="p-3 bg-blue-50 rounded-lg">
-              <p className="text-sm text-blue-800">
-                Total Collections: <strong>₹{selectedStaff?.wallet?.collected_amount?.toLocaleString() || 0}</strong>
-              </p>
-              <p className="text-xs text-blue-600 mt-1">
-                This is the cash collected from customers that staff needs to hand over.
-              </p>
-            </div>
-            <div>
-              <Label>Settlement Amount (₹)</Label>
-              <Input
-                type="number"
-                value={settlementAmount}
-                onChange={(e) => setSettlementAmount(e.target.value)}
-                min={0}
-                max={selectedStaff?.wallet?.collected_amount || 0}
-              />
-            </div>
-            <div className="flex gap-2 justify-end">
-              <Button variant="outline" onClick={() => setIsSettlementDialogOpen(false)}>
-                Cancel
-              </Button>
-              <Button
-                onClick={() => {
-                  if (selectedStaff && settlementAmount) {
-                    settlementMutation.mutate({
-                      staffId: selectedStaff.id,
-                      amount: parseFloat(settlementAmount),
-                    });
-                  }
-                }}
-                disabled={!settlementAmount || parseFloat(settlementAmount) <= 0 || settlementMutation.isPending}
-              >
-                {settlementMutation.isPending ? 'Processing...' : 'Confirm Settlement'}
-              </Button>
-            </div>
-          </div>
-        </DialogContent>
-      </Dialog>
-
       {/* Transaction History Dialog */}
       <Dialog open={isHistoryDialogOpen} onOpenChange={setIsHistoryDialogOpen}>
         <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
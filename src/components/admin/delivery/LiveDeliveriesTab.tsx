@@ -0,0 +1,164 @@
+import React, { useState } from 'react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useActiveDeliveryLocations, useLocationBreadcrumbs } from '@/hooks/useDeliveryTracking';
+import {
+  isLive,
+  mapsPointUrl,
+  mapsTrailUrl,
+  type ActiveDeliveryLocation,
+} from '@/lib/deliveryTracking';
+import { Loader2, MapPin, Navigation, Phone, Route, Truck } from 'lucide-react';
+
+// Loads the partner's breadcrumbs on demand and links to them on a map
+const TrailLink: React.FC<{ deliveryStaffId: string }> = ({ deliveryStaffId }) => {
+  const [requested, setRequested] = useState(false);
+  const { data: points, isLoading } = useLocationBreadcrumbs(deliveryStaffId, requested);
+  const trailUrl = points ? mapsTrailUrl(points) : null;
+
+  if (!requested) {
+    return (
+      <Button size="sm" variant="outline" onClick={() => setRequested(true)}>
+        <Route className="h-4 w-4 mr-1" />
+        Trail
+      </Button>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <Button size="sm" variant="outline" disabled>
+        <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+        Trail
+      </Button>
+    );
+  }
+
+  return trailUrl ? (
+    <Button size="sm" variant="outline" asChild>
+      <a href={trailUrl} target="_blank" rel="noopener noreferrer">
+        <Route className="h-4 w-4 mr-1" />
+        Trail ({points!.length})
+      </a>
+    </Button>
+  ) : (
+    <span className="text-xs text-muted-foreground">No trail in the last 2 hours</span>
+  );
+};
+
+const PartnerCard: React.FC<{ partner: ActiveDeliveryLocation }> = ({ partner }) => {
+  const live = isLive(partner.recorded_at);
+  const hasLocation = partner.latitude != null && partner.longitude != null;
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-3">
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+          <div>
+            <div className="flex items-center gap-2">
+              <h3 className="font-semibold">{partner.name}</h3>
+              <Badge variant="outline" className="text-xs capitalize">{partner.vehicle_type}</Badge>
+              {live ? (
+                <Badge className="bg-green-100 text-green-800 hover:bg-green-100">Live</Badge>
+              ) : (
+                <Badge variant="secondary">{hasLocation ? 'Stale' : 'No location'}</Badge>
+              )}
+            </div>
+            <p className="text-sm text-muted-foreground">
+              {partner.recorded_at
+                ? `Last seen ${formatDistanceToNow(new Date(partner.recorded_at), { addSuffix: true })}`
+                : 'Has not shared a location yet'}
+              {partner.accuracy_m != null && ` · ±${Math.round(partner.accuracy_m)} m`}
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button size="sm" variant="outline" asChild>
+              <a href={`tel:${partner.mobile_number}`}>
+                <Phone className="h-4 w-4" />
+              </a>
+            </Button>
+            {hasLocation && (
+              <Button size="sm" variant="outline" asChild>
+                <a
+                  href={mapsPointUrl({ latitude: partner.latitude!, longitude: partner.longitude! })}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                >
+                  <MapPin className="h-4 w-4 mr-1" />
+                  Map
+                </a>
+              </Button>
+            )}
+            <TrailLink deliveryStaffId={partner.delivery_staff_id} />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          {partner.active_orders.map((order) => (
+            <div key={order.id} className="flex items-center justify-between gap-3 rounded-lg bg-muted/50 p-2 text-sm">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">#{order.order_number}</span>
+                  <Badge variant={order.delivery_status === 'picked_up' ? 'default' : 'outline'} className="text-xs">
+                    {order.delivery_status === 'picked_up' ? 'On the way' : 'To pick up'}
+                  </Badge>
+                </div>
+                <p className="text-xs text-muted-foreground truncate">{order.delivery_address || '-'}</p>
+              </div>
+              <div className="text-right shrink-0">
+                {order.delivery_eta && (
+                  <p className="font-medium">
+                    ETA {format(new Date(order.delivery_eta), 'HH:mm')}
+                    {isLive(order.delivery_eta_updated_at) && (
+                      <Navigation className="inline h-3 w-3 ml-1 text-green-600" />
+                    )}
+                  </p>
+                )}
+                {order.distance_km != null && (
+                  <p className="text-xs text-muted-foreground">{order.distance_km} km away</p>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+// Partners on active jobs, updated as their location pings arrive
+const LiveDeliveriesTab: React.FC = () => {
+  const { data: partners, isLoading } = useActiveDeliveryLocations();
+
+  if (isLoading) {
+    return (
+      <div className="space-y-3">
+        {[...Array(3)].map((_, i) => (
+          <Skeleton key={i} className="h-32 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  if (!partners || partners.length === 0) {
+    return (
+      <Card className="p-6 text-center">
+        <Truck className="h-12 w-12 mx-auto mb-2 text-muted-foreground" />
+        <p className="text-muted-foreground">No partners are on a delivery right now</p>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {partners.map((partner) => (
+        <PartnerCard key={partner.delivery_staff_id} partner={partner} />
+      ))}
+    </div>
+  );
+};
+
+export default LiveDeliveriesTab;
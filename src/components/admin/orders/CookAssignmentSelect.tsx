@@ -0,0 +1,48 @@
+import React, { useState } from 'react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2 } from 'lucide-react';
+import { useOrderCookRanking } from '@/hooks/useCookAssignment';
+import { cookRankReasons } from '@/lib/cookAssignment';
+
+interface CookAssignmentSelectProps {
+  orderId: string;
+  disabled?: boolean;
+  onAssign: (cookId: string) => void;
+}
+
+// Cooks in the order the assignment engine would try them; loaded when opened
+const CookAssignmentSelect: React.FC<CookAssignmentSelectProps> = ({ orderId, disabled, onAssign }) => {
+  const [open, setOpen] = useState(false);
+  const { data: cooks, isLoading } = useOrderCookRanking(orderId, open);
+
+  return (
+    <Select open={open} onOpenChange={setOpen} onValueChange={onAssign} disabled={disabled}>
+      <SelectTrigger className="w-44">
+        <SelectValue placeholder="Select cook" />
+      </SelectTrigger>
+      <SelectContent className="bg-popover">
+        {isLoading ? (
+          <div className="flex justify-center p-2">
+            <Loader2 className="h-4 w-4 animate-spin" />
+          </div>
+        ) : !cooks?.length ? (
+          <div className="p-2 text-sm text-muted-foreground">No qualified cooks available</div>
+        ) : (
+          cooks.map((cook, index) => (
+            <SelectItem key={cook.cook_id} value={cook.cook_id}>
+              <div>
+                <span className="font-medium">
+                  {index + 1}. {cook.kitchen_name}
+                </span>
+                {cook.declined && <span className="ml-1 text-xs text-destructive">(declined)</span>}
+                <div className="text-xs text-muted-foreground">{cookRankReasons(cook).join(' · ')}</div>
+              </div>
+            </SelectItem>
+          ))
+        )}
+      </SelectContent>
+    </Select>
+  );
+};
+
+export default CookAssignmentSelect;
@@ -0,0 +1,44 @@
+import React from 'react';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ShieldCheck } from 'lucide-react';
+import { format } from 'date-fns';
+import { useDeliveryProof } from '@/hooks/useDeliveryProof';
+
+interface DeliveryProofSectionProps {
+  orderId: string;
+}
+
+// Handover code check and doorstep photo recorded when the order was delivered
+const DeliveryProofSection: React.FC<DeliveryProofSectionProps> = ({ orderId }) => {
+  const { data: proof, isLoading } = useDeliveryProof(orderId);
+
+  return (
+    <div className="space-y-2">
+      <h4 className="text-sm font-semibold flex items-center gap-1.5">
+        <ShieldCheck className="h-4 w-4 text-muted-foreground" />
+        Proof of Delivery
+      </h4>
+      {isLoading ? (
+        <Skeleton className="h-12 w-full" />
+      ) : !proof ? (
+        <p className="text-xs text-muted-foreground">No proof recorded (marked delivered by an admin)</p>
+      ) : (
+        <div className="text-xs space-y-1">
+          <p>
+            Code verified {format(new Date(proof.code_verified_at), 'dd MMM, HH:mm')}
+            {proof.delivery_staff?.name && ` by ${proof.delivery_staff.name}`}
+          </p>
+          {proof.photo_url ? (
+            <a href={proof.photo_url} target="_blank" rel="noopener noreferrer" className="inline-block">
+              <img src={proof.photo_url} alt="Doorstep" className="h-20 w-20 rounded-md border object-cover" />
+            </a>
+          ) : (
+            <p className="text-muted-foreground">No doorstep photo</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DeliveryProofSection;
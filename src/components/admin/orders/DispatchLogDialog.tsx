@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Route } from 'lucide-react';
+import { format } from 'date-fns';
+import { useDispatchLog } from '@/hooks/useDeliveryDispatch';
+import { DISPATCH_EVENT_LABELS, describeDispatchDetails } from '@/lib/dispatch';
+
+interface DispatchLogDialogProps {
+  orderId: string;
+  orderNumber: string;
+  trigger: React.ReactNode;
+}
+
+const DispatchLogDialog: React.FC<DispatchLogDialogProps> = ({ orderId, orderNumber, trigger }) => {
+  const [open, setOpen] = useState(false);
+  const { data: entries, isLoading } = useDispatchLog(orderId, open);
+
+  return (
+    <>
+      <span onClick={() => setOpen(true)}>{trigger}</span>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-h-[85vh] overflow-y-auto sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Route className="h-5 w-5" />
+              Dispatch Log
+            </DialogTitle>
+            <DialogDescription>How order #{orderNumber} was offered to delivery partners</DialogDescription>
+          </DialogHeader>
+
+          {isLoading ? (
+            <div className="space-y-2">
+              {[1, 2].map((i) => (
+                <Skeleton key={i} className="h-16 w-full" />
+              ))}
+            </div>
+          ) : !entries?.length ? (
+            <p className="py-6 text-center text-sm text-muted-foreground">Not dispatched yet</p>
+          ) : (
+            <div className="space-y-2">
+              {entries.map((entry) => {
+                const factors = describeDispatchDetails(entry.details);
+
+                return (
+                  <div key={entry.id} className="rounded-lg border p-3 text-sm">
+                    <div className="flex items-center justify-between gap-2">
+                      <div className="flex items-center gap-2">
+                        <Badge variant={entry.event === 'exhausted' ? 'destructive' : 'secondary'}>
+                          {DISPATCH_EVENT_LABELS[entry.event] ?? entry.event}
+                        </Badge>
+                        {entry.delivery_staff?.name && <span className="font-medium">{entry.delivery_staff.name}</span>}
+                      </div>
+                      <span className="text-xs text-muted-foreground">
+                        {format(new Date(entry.created_at), 'HH:mm:ss')}
+                      </span>
+                    </div>
+                    <p className="mt-1 text-muted-foreground">{entry.reason}</p>
+                    {factors.length > 0 && (
+                      <p className="mt-1 text-xs text-muted-foreground">{factors.join(' · ')}</p>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default DispatchLogDialog;
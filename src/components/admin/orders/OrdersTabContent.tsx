@@ -21,6 +21,8 @@ import {
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { describeModifiers, type SelectedModifier } from '@/lib/modifiers';
+import DeliveryProofSection from '@/components/admin/orders/DeliveryProofSection';
 
 interface OrderWithProfile extends Order {
   profiles?: {
@@ -28,6 +30,14 @@ interface OrderWithProfile extends Order {
     mobile_number: string;
   };
   service_charge_amount?: number | null;
+  cgst_amount?: number | null;
+  sgst_amount?: number | null;
+  coupon_code?: string | null;
+  coupon_discount_amount?: number | null;
+  wallet_amount?: number;
+  online_paid_amount?: number;
+  cancellation_fee?: number;
+  refund_amount?: number;
   guest_count?: number | null;
 }
 
@@ -38,6 +48,7 @@ interface OrderItemDetail {
   unit_price: number;
   total_price: number;
   special_instructions: string | null;
+  modifiers?: SelectedModifier[];
   food_item?: { name: string };
   assigned_cook?: { kitchen_name: string; mobile_number: string } | null;
 }
@@ -125,7 +136,7 @@ const OrdersTabContent: React.FC<OrdersTabContentProps> = ({ serviceType }) => {
       // Fetch order items with food item names
       const { data: items } = await supabase
         .from('order_items')
-        .select('id, food_item_id, quantity, unit_price, total_price, special_instructions, assigned_cook_id')
+        .select('id, food_item_id, quantity, unit_price, total_price, special_instructions, assigned_cook_id, modifiers')
         .eq('order_id', order.id);
 
       const enrichedItems: OrderItemDetail[] = await Promise.all(
@@ -148,6 +159,7 @@ const OrdersTabContent: React.FC<OrdersTabContentProps> = ({ serviceType }) => {
 
           return {
             ...item,
+            modifiers: item.modifiers as unknown as SelectedModifier[],
             food_item: foodItem || undefined,
             assigned_cook,
           };
@@ -165,14 +177,14 @@ const OrdersTabContent: React.FC<OrdersTabContentProps> = ({ serviceType }) => {
         cook = cookData;
       }
 
-      // Fetch delivery staff
+      // Fetch delivery staff (assigned_delivery_id is their user id)
       let delivery_staff = null;
       if (order.assigned_delivery_id) {
         const { data: dsData } = await supabase
           .from('delivery_staff')
           .select('name, mobile_number, vehicle_type')
-          .eq('id', order.assigned_delivery_id)
-          .single();
+          .eq('user_id', order.assigned_delivery_id)
+          .maybeSingle();
         delivery_staff = dsData;
       }
 
@@ -212,17 +224,21 @@ const OrdersTabContent: React.FC<OrdersTabContentProps> = ({ serviceType }) => {
 
   const updateOrderStatus = async (orderId: string, newStatus: OrderStatus) => {
     try {
-      const { error } = await supabase
-        .from('orders')
-        .update({ status: newStatus, updated_at: new Date().toISOString() })
-        .eq('id', orderId);
+      const { error } = await supabase.rpc('update_order_status', {
+        p_order_id: orderId,
+        p_status: newStatus,
+      });
 
       if (error) throw error;
       toast({ title: 'Success', description: 'Order status updated' });
       fetchOrders();
     } catch (error) {
       console.error('Error updating order:', error);
-      toast({ title: 'Error', description: 'Failed to update order status', variant: 'destructive' });
+      toast({
+        title: 'Error',
+        description: (error as Error)?.message || 'Failed to update order status',
+        variant: 'destructive',
+      });
     }
   };
 
@@ -384,6 +400,9 @@ const OrdersTabContent: React.FC<OrdersTabContentProps> = ({ serviceType }) => {
                                       <TableRow key={item.id}>
                                         <TableCell className="py-2 text-xs">
                                           <p>{item.food_item?.name || 'Unknown Item'}</p>
+                                          {item.modifiers && item.modifiers.length > 0 && (
+                                            <p className="text-muted-foreground mt-0.5">{describeModifiers(item.modifiers)}</p>
+                                          )}
                                           {item.special_instructions && (
                                             <p className="text-muted-foreground italic mt-0.5">
                                               "{item.special_instructions}"
@@ -411,6 +430,12 @@ const OrdersTabContent: React.FC<OrdersTabContentProps> = ({ serviceType }) => {
                                 <span className="text-muted-foreground">Items Total</span>
                                 <span>₹{details.items.reduce((s, i) => s + i.total_price, 0)}</span>
                               </div>
+                              {(order.coupon_discount_amount ?? 0) > 0 && (
+                                <div className="flex justify-between">
+                                  <span className="text-muted-foreground">Coupon ({order.coupon_code})</span>
+                                  <span className="text-green-600">-₹{order.coupon_discount_amount}</span>
+                                </div>
+                              )}
                               {(order.delivery_amount ?? 0) > 0 && (
                                 <div className="flex justify-between">
                                   <span className="text-muted-foreground">Delivery</span>
@@ -423,10 +448,46 @@ const OrdersTabContent: React.FC<OrdersTabContentProps> = ({ serviceType }) => {
                                   <span>₹{order.service_charge_amount}</span>
                                 </div>
                               )}
+                              {((order.cgst_amount ?? 0) + (order.sgst_amount ?? 0)) > 0 && (
+                                <>
+                                  <div className="flex justify-between">
+                                    <span className="text-muted-foreground">CGST</span>
+                                    <span>₹{order.cgst_amount}</span>
+                                  </div>
+                                  <div className="flex justify-between">
+                                    <span className="text-muted-foreground">SGST</span>
+                                    <span>₹{order.sgst_amount}</span>
+                                  </div>
+                                </>
+                              )}
                               <div className="flex justify-between font-semibold border-t pt-1 mt-1">
                                 <span>Total</span>
                                 <span>₹{order.total_amount}</span>
                               </div>
+                              {(order.wallet_amount ?? 0) > 0 && (
+                                <div className="flex justify-between">
+                                  <span className="text-muted-foreground">Paid from Wallet</span>
+                                  <span>₹{order.wallet_amount}</span>
+                                </div>
+                              )}
+                              {(order.online_paid_amount ?? 0) > 0 && (
+                                <div className="flex justify-between">
+                                  <span className="text-muted-foreground">Paid Online</span>
+                                  <span>₹{order.online_paid_amount}</span>
+                                </div>
+                              )}
+                              {(order.cancellation_fee ?? 0) > 0 && (
+                                <div className="flex justify-between">
+                                  <span className="text-muted-foreground">Cancellation Fee</span>
+                                  <span>₹{order.cancellation_fee}</span>
+                                </div>
+                              )}
+                              {(order.refund_amount ?? 0) > 0 && (
+                                <div className="flex justify-between">
+                                  <span className="text-muted-foreground">Refunded to Wallet</span>
+                                  <span>₹{order.refund_amount}</span>
+                                </div>
+                              )}
                             </div>
 
                             {/* Location & Delivery Info */}
@@ -496,6 +557,10 @@ const OrdersTabContent: React.FC<OrdersTabContentProps> = ({ serviceType }) => {
                                 </div>
                               )}
 
+                              {order.delivery_status === 'delivered' && (
+                                <DeliveryProofSection orderId={order.id} />
+                              )}
+
                               {/* Event Details (for indoor events) */}
                               {order.event_date && (
                                 <div className="space-y-2">
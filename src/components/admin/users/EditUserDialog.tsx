@@ -17,6 +17,8 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { Switch } from '@/components/ui/switch';
+import { FileClock } from 'lucide-react';
+import RecordHistoryDialog from '@/components/admin/audit/RecordHistoryDialog';
 
 interface Panchayat {
   id: string;
@@ -25,6 +27,12 @@ interface Panchayat {
 
 type UserType = 'customer' | 'cook' | 'delivery';
 
+const auditTables: Record<UserType, string> = {
+  customer: 'profiles',
+  cook: 'cooks',
+  delivery: 'delivery_staff',
+};
+
 interface EditUserDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -194,6 +202,19 @@ const EditUserDialog: React.FC<EditUserDialogProps> = ({
           </div>
         </div>
         <DialogFooter>
+          {user?.id && (
+            <RecordHistoryDialog
+              tableName={auditTables[userType]}
+              recordId={user.id}
+              recordName={user.kitchen_name || user.name || 'this user'}
+              trigger={
+                <Button variant="ghost" className="w-full sm:mr-auto sm:w-auto">
+                  <FileClock className="mr-2 h-4 w-4" />
+                  History
+                </Button>
+              }
+            />
+          )}
           <Button variant="outline" onClick={() => onOpenChange(false)}>
             Cancel
           </Button>
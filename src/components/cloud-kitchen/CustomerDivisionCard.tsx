@@ -5,6 +5,8 @@ import { Clock, Coffee, Sun, Sunset, Moon, AlertCircle } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import type { ActiveDivision } from '@/hooks/useCustomerCloudKitchen';
 import { formatSlotTime } from '@/hooks/useCloudKitchenSlots';
+import { formatDeliveryDate } from '@/lib/scheduling';
+import { format } from 'date-fns';
 
 interface CustomerDivisionCardProps {
   division: ActiveDivision;
@@ -32,6 +34,7 @@ const CustomerDivisionCard: React.FC<CustomerDivisionCardProps> = ({
   onSelect,
 }) => {
   const colorClass = slotColors[division.slot_type] || 'bg-muted text-muted-foreground';
+  const dayLabel = formatDeliveryDate(division.scheduled_for);
 
   return (
     <Card
@@ -69,13 +72,15 @@ const CustomerDivisionCard: React.FC<CustomerDivisionCardProps> = ({
             ) : (
               <Badge variant="outline" className="text-xs border-green-300 bg-green-50 text-green-700 dark:bg-green-950 dark:text-green-300">
                 <Clock className="h-3 w-3 mr-1" />
-                Open • {division.time_until_cutoff?.hours}h {division.time_until_cutoff?.minutes}m left
+                {(division.time_until_cutoff?.hours ?? 0) >= 24
+                  ? `Open • order by ${format(new Date(division.cutoff_at), 'EEE h:mm a')}`
+                  : `Open • ${division.time_until_cutoff?.hours}h ${division.time_until_cutoff?.minutes}m left`}
               </Badge>
             )
           ) : (
             <Badge variant="destructive" className="text-xs">
               <AlertCircle className="h-3 w-3 mr-1" />
-              Closed for today
+              Closed for {dayLabel === 'Today' || dayLabel === 'Tomorrow' ? dayLabel.toLowerCase() : dayLabel}
             </Badge>
           )}
         </div>
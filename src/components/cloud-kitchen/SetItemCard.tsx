@@ -4,14 +4,11 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Leaf, Plus, Minus, ChefHat, Star, ChevronDown, Clock } from 'lucide-react';
 import type { CustomerCloudKitchenItem } from '@/hooks/useCustomerCloudKitchen';
-import { calculatePlatformMargin } from '@/lib/priceUtils';
+import { quoteLine } from '@/lib/priceUtils';
 
-const getCustomerPrice = (item: CustomerCloudKitchenItem): number => {
-  const marginType = (item.platform_margin_type || 'percent') as 'percent' | 'fixed';
-  const marginValue = item.platform_margin_value || 0;
-  const margin = calculatePlatformMargin(item.price, marginType, marginValue);
-  return item.price + margin;
-};
+// Customer price for one set from a specific cook's entry
+const getSetPrice = (item: CustomerCloudKitchenItem): number =>
+  quoteLine({ item, quantity: 1, unit: 'set' }).setPrice;
 
 export interface GroupedFoodItem {
   id: string;
@@ -53,7 +50,7 @@ const SetItemCard: React.FC<SetItemCardProps> = ({
   const totalSelected = orderableCooks.reduce((sum, c) => sum + (cart[c.unique_key]?.quantity || 0), 0);
 
   // Get price range for display
-  const prices = orderableCooks.map(c => getCustomerPrice(c) * setSize);
+  const prices = orderableCooks.map(c => getSetPrice(c));
   const minPrice = prices.length > 0 ? Math.min(...prices) : 0;
   const maxPrice = prices.length > 0 ? Math.max(...prices) : 0;
 
@@ -138,7 +135,7 @@ const SetItemCard: React.FC<SetItemCardProps> = ({
         <div className="border-t bg-muted/30 p-3 space-y-2">
           {orderableCooks.map((cookItem) => {
             const quantity = cart[cookItem.unique_key]?.quantity || 0;
-            const cookPrice = getCustomerPrice(cookItem) * setSize;
+            const cookPrice = getSetPrice(cookItem);
             const totalPieces = quantity * setSize;
 
             const handleDecrease = () => {
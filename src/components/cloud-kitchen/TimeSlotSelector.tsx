@@ -10,6 +10,8 @@ import type { CloudKitchenSlot } from '@/types/events';
 interface TimeSlotSelectorProps {
   selectedSlot: CloudKitchenSlot | null;
   onSelect: (slot: CloudKitchenSlot) => void;
+  // Delivery date as YYYY-MM-DD; today when not given
+  date?: string;
 }
 
 const slotIcons: Record<string, React.ReactNode> = {
@@ -29,6 +31,7 @@ const slotColors: Record<string, string> = {
 const TimeSlotSelector: React.FC<TimeSlotSelectorProps> = ({
   selectedSlot,
   onSelect,
+  date,
 }) => {
   const { data: slots, isLoading } = useCloudKitchenSlots();
 
@@ -47,8 +50,8 @@ const TimeSlotSelector: React.FC<TimeSlotSelectorProps> = ({
       <h3 className="text-sm font-medium text-muted-foreground">Select Time Slot</h3>
       <div className="grid grid-cols-2 gap-3">
         {slots?.map((slot) => {
-          const available = isSlotAvailable(slot);
-          const timeRemaining = getTimeUntilCutoff(slot);
+          const available = isSlotAvailable(slot, date);
+          const timeRemaining = getTimeUntilCutoff(slot, date);
 
           return (
             <Card
@@ -11,6 +11,7 @@ import { toast } from '@/hooks/use-toast';
 import { Switch } from '@/components/ui/switch';
 import { ChefHat, Leaf, IndianRupee, Check, X } from 'lucide-react';
 import DishFeaturesManager from './DishFeaturesManager';
+import DishModifierPricesManager from './DishModifierPricesManager';
 
 const CookAllocatedDishes: React.FC = () => {
   const { data: allocatedDishes, isLoading } = useCookAllocatedDishes();
@@ -112,6 +113,11 @@ const CookAllocatedDishes: React.FC = () => {
                         <span className="text-[10px] text-muted-foreground">Coming Soon</span>
                       </div>
                       <DishFeaturesManager cookDishId={dish.id} />
+                      <DishModifierPricesManager
+                        cookDishId={dish.id}
+                        foodItemId={dish.food_item_id}
+                        modifierPrices={dish.modifier_prices || {}}
+                      />
                     </div>
                   </div>
 
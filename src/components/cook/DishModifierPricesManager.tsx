@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { toast } from '@/hooks/use-toast';
+import { SlidersHorizontal, ChevronDown, ChevronUp } from 'lucide-react';
+import { useModifierGroups } from '@/hooks/useModifierGroups';
+import type { ModifierPriceOverrides } from '@/lib/modifiers';
+
+interface DishModifierPricesManagerProps {
+  cookDishId: string;
+  foodItemId: string;
+  modifierPrices: ModifierPriceOverrides;
+}
+
+const DishModifierPricesManager: React.FC<DishModifierPricesManagerProps> = ({
+  cookDishId,
+  foodItemId,
+  modifierPrices,
+}) => {
+  const queryClient = useQueryClient();
+  const { groups } = useModifierGroups(foodItemId);
+  const [expanded, setExpanded] = useState(false);
+
+  const activeGroups = groups.filter(group => group.is_active && group.options.length > 0);
+  if (activeGroups.length === 0) return null;
+
+  const savePrice = async (optionId: string, basePrice: number, value: string) => {
+    const price = value.trim() === '' ? null : parseFloat(value);
+    if (price != null && (isNaN(price) || price < 0)) {
+      toast({ title: 'Invalid price', description: 'Price cannot be negative', variant: 'destructive' });
+      return;
+    }
+
+    // Back to the admin price when cleared or set equal to it
+    const next = { ...modifierPrices };
+    if (price == null || price === Number(basePrice)) {
+      delete next[optionId];
+    } else {
+      next[optionId] = price;
+    }
+    if (next[optionId] === modifierPrices[optionId]) return;
+
+    try {
+      const { error } = await supabase
+        .from('cook_dishes')
+        .update({ modifier_prices: next })
+        .eq('id', cookDishId);
+      if (error) throw error;
+      toast({ title: 'Option price updated' });
+      queryClient.invalidateQueries({ queryKey: ['cook-allocated-dishes'] });
+    } catch (err: unknown) {
+      toast({ title: 'Failed to update price', description: (err as Error).message, variant: 'destructive' });
+    }
+  };
+
+  return (
+    <div className="mt-1">
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-6 text-xs gap-1 text-primary"
+        onClick={() => setExpanded(!expanded)}
+      >
+        <SlidersHorizontal className="h-3 w-3" />
+        Option Prices
+        {expanded ? <ChevronUp className="h-3 w-3" /> : <ChevronDown className="h-3 w-3" />}
+      </Button>
+
+      {expanded && (
+        <div className="mt-1 space-y-2 rounded-md border p-2">
+          {activeGroups.map(group => (
+            <div key={group.id} className="space-y-1">
+              <p className="text-[10px] font-medium uppercase text-muted-foreground">{group.name}</p>
+              {group.options.map(option => (
+                <div key={option.id} className="flex items-center gap-2 text-xs">
+                  <span className="flex-1 truncate">{option.name}</span>
+                  <span className="text-muted-foreground">Base ₹{option.price}</span>
+                  <Input
+                    type="number"
+                    min="0"
+                    className="h-7 w-20 text-xs"
+                    placeholder={String(option.price)}
+                    defaultValue={modifierPrices[option.id] ?? ''}
+                    onBlur={(e) => savePrice(option.id, option.price, e.target.value)}
+                  />
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DishModifierPricesManager;
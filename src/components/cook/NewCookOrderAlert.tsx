@@ -12,8 +12,11 @@ import {
   XCircle,
   UtensilsCrossed,
   Users,
+  CalendarClock,
 } from 'lucide-react';
 import type { PendingCookOrder } from '@/hooks/useCookNotifications';
+import { describeModifiers } from '@/lib/modifiers';
+import { formatDeliveryDate, formatDeliveryWindow } from '@/lib/scheduling';
 
 interface NewCookOrderAlertProps {
   open: boolean;
@@ -88,6 +91,17 @@ const NewCookOrderAlert: React.FC<NewCookOrderAlertProps> = ({
                     </div>
                   )}
 
+                  {order.scheduled_for && (
+                    <div className="flex items-center gap-1.5 text-sm p-2 rounded-lg bg-primary/10 border border-primary/20">
+                      <CalendarClock className="h-4 w-4 text-primary" />
+                      <span className="font-medium text-primary">
+                        For {formatDeliveryDate(order.scheduled_for)}
+                        {order.delivery_window_start && order.delivery_window_end &&
+                          `, ${formatDeliveryWindow(order.delivery_window_start, order.delivery_window_end)}`}
+                      </span>
+                    </div>
+                  )}
+
                   {/* Order Items */}
                   {order.order_items && order.order_items.length > 0 && (
                     <div className="rounded-lg p-3 bg-gradient-to-r from-emerald-50 to-teal-50 dark:from-emerald-950/20 dark:to-teal-950/10 border border-emerald-100 dark:border-emerald-900/30">
@@ -98,7 +112,12 @@ const NewCookOrderAlert: React.FC<NewCookOrderAlertProps> = ({
                       <div className="space-y-1">
                         {order.order_items.map((item) => (
                           <div key={item.id} className="flex justify-between text-sm">
-                            <span className="font-medium text-emerald-900 dark:text-emerald-200">{item.food_item?.name || 'Unknown'}</span>
+                            <div>
+                              <span className="font-medium text-emerald-900 dark:text-emerald-200">{item.food_item?.name || 'Unknown'}</span>
+                              {item.modifiers && item.modifiers.length > 0 && (
+                                <p className="text-xs font-medium text-amber-700 dark:text-amber-400">{describeModifiers(item.modifiers)}</p>
+                              )}
+                            </div>
                             <Badge variant="outline" className="text-xs border-emerald-300 text-emerald-700 dark:text-emerald-300">
                               Qty: {item.quantity}
                             </Badge>
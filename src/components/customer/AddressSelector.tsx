@@ -1,6 +1,9 @@
 import React, { useState, useEffect } from 'react';
 import { useCustomerAddresses, CustomerAddress, CreateAddressInput } from '@/hooks/useCustomerAddresses';
 import { useLocation } from '@/contexts/LocationContext';
+import { useWardAt } from '@/hooks/useWardBoundaries';
+import type { LocationPoint } from '@/lib/geo';
+import LocationPinPicker from '@/components/customer/LocationPinPicker';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -44,6 +47,11 @@ const AddressSelector: React.FC<AddressSelectorProps> = ({
   const [fullAddress, setFullAddress] = useState('');
   const [landmark, setLandmark] = useState('');
   const [isDefault, setIsDefault] = useState(false);
+  const [pin, setPin] = useState<LocationPoint | null>(null);
+
+  const { data: pinnedWard, isFetching: isLocatingWard } = useWardAt(pin, selectedPanchayat?.id);
+  // In a panchayat with uploaded boundaries, addresses need a pin inside one of them
+  const outsideCoverage = !!pinnedWard?.coverage_configured && !pinnedWard.found;
 
   // Set initial selection
   useEffect(() => {
@@ -62,6 +70,7 @@ const AddressSelector: React.FC<AddressSelectorProps> = ({
     setFullAddress('');
     setLandmark('');
     setIsDefault(false);
+    setPin(null);
     setEditingAddress(null);
   };
 
@@ -76,6 +85,11 @@ const AddressSelector: React.FC<AddressSelectorProps> = ({
     setFullAddress(address.full_address);
     setLandmark(address.landmark || '');
     setIsDefault(address.is_default);
+    setPin(
+      address.latitude != null && address.longitude != null
+        ? { latitude: address.latitude, longitude: address.longitude }
+        : null
+    );
     setShowAddDialog(true);
   };
 
@@ -89,12 +103,24 @@ const AddressSelector: React.FC<AddressSelectorProps> = ({
       return;
     }
 
+    if (outsideCoverage) {
+      toast({
+        title: 'Outside our delivery area',
+        description: 'Move the pin to an address we deliver to',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    // The server derives the ward from the pin too; this keeps the list right until it refetches
     const addressData: CreateAddressInput = {
       address_label: addressLabel,
       full_address: fullAddress,
       landmark: landmark || undefined,
-      panchayat_id: selectedPanchayat?.id,
-      ward_number: selectedWardNumber || undefined,
+      panchayat_id: pinnedWard?.found ? pinnedWard.panchayat_id! : selectedPanchayat?.id,
+      ward_number: pinnedWard?.found ? pinnedWard.ward_number! : selectedWardNumber || undefined,
+      latitude: pin?.latitude ?? null,
+      longitude: pin?.longitude ?? null,
       is_default: isDefault,
     };
 
@@ -175,6 +201,11 @@ const AddressSelector: React.FC<AddressSelectorProps> = ({
                           <Star className="h-3 w-3 mr-1" /> Default
                         </Badge>
                       )}
+                      {address.ward_number && (
+                        <Badge variant="outline" className="text-xs">
+                          Ward {address.ward_number}
+                        </Badge>
+                      )}
                     </div>
                     <p className="text-sm text-muted-foreground mt-1 line-clamp-2">
                       {address.full_address}
@@ -267,7 +298,7 @@ const AddressSelector: React.FC<AddressSelectorProps> = ({
 
       {/* Add/Edit Address Dialog */}
       <Dialog open={showAddDialog} onOpenChange={setShowAddDialog}>
-        <DialogContent>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>
               {editingAddress ? 'Edit Address' : 'Add New Address'}
@@ -302,6 +333,25 @@ const AddressSelector: React.FC<AddressSelectorProps> = ({
                 rows={3}
               />
             </div>
+            <div className="space-y-2">
+              <Label>Location on map</Label>
+              <LocationPinPicker value={pin} onChange={setPin} />
+              {pin && (
+                isLocatingWard ? (
+                  <p className="flex items-center text-xs text-muted-foreground">
+                    <Loader2 className="h-3 w-3 mr-1 animate-spin" /> Finding your ward...
+                  </p>
+                ) : pinnedWard?.found ? (
+                  <p className="text-xs text-green-600">
+                    Ward {pinnedWard.ward_number}, {pinnedWard.panchayat_name}
+                  </p>
+                ) : outsideCoverage ? (
+                  <p className="text-xs text-destructive">
+                    Outside our delivery area. Move the pin if it is not on your address.
+                  </p>
+                ) : null
+              )}
+            </div>
             <div className="space-y-2">
               <Label htmlFor="landmark">Landmark (Optional)</Label>
               <Input
@@ -328,7 +378,10 @@ const AddressSelector: React.FC<AddressSelectorProps> = ({
             <Button variant="outline" onClick={() => setShowAddDialog(false)}>
               Cancel
             </Button>
-            <Button onClick={handleSaveAddress} disabled={isCreating}>
+            <Button
+              onClick={handleSaveAddress}
+              disabled={isCreating || isLocatingWard || outsideCoverage}
+            >
               {isCreating && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
               {editingAddress ? 'Update' : 'Save'} Address
             </Button>
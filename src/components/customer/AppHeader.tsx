@@ -3,7 +3,6 @@ import { useNavigate } from 'react-router-dom';
 import { z } from 'zod';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { useQuery } from '@tanstack/react-query';
 import { useAuth } from '@/contexts/AuthContext';
 import { useLocation } from '@/contexts/LocationContext';
 import { supabase } from '@/integrations/supabase/client';
@@ -28,6 +27,8 @@ import {
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { MapPin, Search, User, ChevronDown, LogOut, ShoppingBag, Settings, Truck, Phone, Loader2, Wallet } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
+import { useCustomerWallet } from '@/hooks/useCustomerWallet';
+import OtpCodeForm from '@/components/customer/OtpCodeForm';
 import logo from '@/assets/logo.png';
 
 const mobileSchema = z.object({
@@ -45,7 +46,7 @@ interface AppHeaderProps {
 
 const AppHeader: React.FC<AppHeaderProps> = ({ onSearch }) => {
   const navigate = useNavigate();
-  const { user, profile, signOut, role, customerSignIn } = useAuth();
+  const { user, profile, signOut, role, requestCustomerOtp, verifyCustomerOtp } = useAuth();
   const { selectedPanchayat, selectedWardNumber, isLocationSet } = useLocation();
   
   const [searchQuery, setSearchQuery] = useState('');
@@ -53,22 +54,11 @@ const AppHeader: React.FC<AppHeaderProps> = ({ onSearch }) => {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [showNotRegistered, setShowNotRegistered] = useState(false);
   const [attemptedMobile, setAttemptedMobile] = useState('');
+  const [attemptedCode, setAttemptedCode] = useState('');
+  // Number the login code was sent to
+  const [otpMobile, setOtpMobile] = useState<string | null>(null);
 
-  // Fetch wallet balance
-  const { data: wallet } = useQuery({
-    queryKey: ['customer-wallet', user?.id],
-    queryFn: async () => {
-      if (!user?.id) return null;
-      const { data, error } = await supabase
-        .from('customer_wallets')
-        .select('balance')
-        .eq('user_id', user.id)
-        .maybeSingle();
-      if (error) throw error;
-      return data;
-    },
-    enabled: !!user?.id,
-  });
+  const { data: wallet } = useCustomerWallet();
 
   const mobileForm = useForm<MobileFormData>({
     resolver: zodResolver(mobileSchema),
@@ -91,24 +81,45 @@ const AppHeader: React.FC<AppHeaderProps> = ({ onSearch }) => {
     setIsSubmitting(true);
     setShowNotRegistered(false);
     try {
-      const { error } = await customerSignIn(data.mobileNumber);
+      const { error, retryAfter } = await requestCustomerOtp(data.mobileNumber);
       if (error) {
-        if (error.message.includes('not found') || error.message.includes('Invalid login')) {
-          setAttemptedMobile(data.mobileNumber);
-          setShowNotRegistered(true);
-        } else {
-          toast({
-            title: "Login failed",
-            description: error.message,
-            variant: "destructive",
-          });
-        }
+        toast({
+          title: "Could not send code",
+          description: error.message,
+          variant: "destructive",
+        });
+        // Rate limited: a recent code may still be on its way
+        if (retryAfter === undefined) return;
+      }
+      setOtpMobile(data.mobileNumber);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleVerify = async (code: string) => {
+    if (!otpMobile) return;
+    setIsSubmitting(true);
+    try {
+      const { error, needsSignup } = await verifyCustomerOtp(otpMobile, code);
+      if (needsSignup) {
+        setAttemptedMobile(otpMobile);
+        setAttemptedCode(code);
+        setShowNotRegistered(true);
+        setOtpMobile(null);
+      } else if (error) {
+        toast({
+          title: "Login failed",
+          description: error.message,
+          variant: "destructive",
+        });
       } else {
         toast({
           title: "Welcome back!",
           description: "You have been logged in successfully",
         });
         setCustomerLoginOpen(false);
+        setOtpMobile(null);
         mobileForm.reset();
       }
     } finally {
@@ -118,7 +129,8 @@ const AppHeader: React.FC<AppHeaderProps> = ({ onSearch }) => {
 
   const handleGoToRegister = () => {
     setCustomerLoginOpen(false);
-    navigate('/customer-auth', { state: { mobileNumber: attemptedMobile, tab: 'signup' } });
+    // The verified code lets the signup page create the account without another SMS
+    navigate('/customer-auth', { state: { mobileNumber: attemptedMobile, otpCode: attemptedCode, tab: 'signup' } });
   };
 
   // Location display - derived from user profile
@@ -254,11 +266,22 @@ const AppHeader: React.FC<AppHeaderProps> = ({ onSearch }) => {
               Customer Login
             </DialogTitle>
             <DialogDescription>
-              Enter your registered mobile number to login
+              We will text a login code to your registered mobile number
             </DialogDescription>
           </DialogHeader>
           
-          {!showNotRegistered ? (
+          {!showNotRegistered && otpMobile ? (
+            <div className="py-4">
+              <OtpCodeForm
+                mobileNumber={otpMobile}
+                isSubmitting={isSubmitting}
+                submitLabel="Verify & Login"
+                onVerify={handleVerify}
+                onResend={() => requestCustomerOtp(otpMobile)}
+                onChangeNumber={() => setOtpMobile(null)}
+              />
+            </div>
+          ) : !showNotRegistered ? (
             <Form {...mobileForm}>
               <form onSubmit={mobileForm.handleSubmit(handleCustomerLogin)} className="space-y-4 py-4">
                 <FormField
@@ -283,7 +306,7 @@ const AppHeader: React.FC<AppHeaderProps> = ({ onSearch }) => {
                 />
                 <Button type="submit" className="w-full" disabled={isSubmitting}>
                   {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-                  Continue
+                  Send Code
                 </Button>
               </form>
             </Form>
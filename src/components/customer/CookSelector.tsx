@@ -3,7 +3,8 @@ import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
 import { ChefHat, Star, Sparkles } from 'lucide-react';
-import { calculatePlatformMargin } from '@/lib/priceUtils';
+import { quoteLine, type PriceableItem } from '@/lib/priceUtils';
+import type { ModifierPriceOverrides } from '@/lib/modifiers';
 
 export interface CookOption {
   cook_id: string;
@@ -11,6 +12,7 @@ export interface CookOption {
   rating: number | null;
   total_orders: number | null;
   custom_price: number | null;
+  modifier_prices?: ModifierPriceOverrides;
   features?: string[];
 }
 
@@ -18,21 +20,15 @@ interface CookSelectorProps {
   cooks: CookOption[];
   selectedCookId: string | null;
   onSelectCook: (cookId: string) => void;
-  basePrice?: number;
-  platformMarginType?: 'percent' | 'fixed';
-  platformMarginValue?: number;
+  item?: PriceableItem;
 }
 
-const CookSelector: React.FC<CookSelectorProps> = ({ cooks, selectedCookId, onSelectCook, basePrice, platformMarginType = 'percent', platformMarginValue = 0 }) => {
+const CookSelector: React.FC<CookSelectorProps> = ({ cooks, selectedCookId, onSelectCook, item }) => {
   if (cooks.length === 0) return null;
 
   // If only one cook, don't show selector (auto-select it)
   if (cooks.length === 1) return null;
 
-  const getCustomerPrice = (cookPrice: number) => {
-    const margin = calculatePlatformMargin(cookPrice, platformMarginType, platformMarginValue);
-    return cookPrice + margin;
-  };
 
   return (
     <div className="mt-4 rounded-lg border bg-muted/30 p-4">
@@ -43,8 +39,9 @@ const CookSelector: React.FC<CookSelectorProps> = ({ cooks, selectedCookId, onSe
       <RadioGroup value={selectedCookId || ''} onValueChange={onSelectCook}>
         <div className="space-y-2">
           {cooks.map((cook) => {
-            const rawPrice = cook.custom_price ?? basePrice;
-            const displayPrice = rawPrice != null ? getCustomerPrice(rawPrice) : null;
+            const displayPrice = item
+              ? quoteLine({ item, quantity: 1, cookCustomPrice: cook.custom_price }).unitPrice
+              : null;
             return (
               <div
                 key={cook.cook_id}
@@ -0,0 +1,81 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Ticket, X, Loader2 } from 'lucide-react';
+
+// Set when a customer taps an offer card that carries a coupon
+export const PENDING_COUPON_KEY = 'pending_coupon_code';
+
+interface CouponInputProps {
+  appliedCode: string | null;
+  discount: number;
+  error: string | null;
+  isChecking: boolean;
+  onApply: (code: string) => void;
+  onRemove: () => void;
+}
+
+const CouponInput: React.FC<CouponInputProps> = ({
+  appliedCode,
+  discount,
+  error,
+  isChecking,
+  onApply,
+  onRemove,
+}) => {
+  const [code, setCode] = useState('');
+
+  // Pick up a code saved from an offer card. The saved code is removed once
+  // applied, so running again on a new onApply is harmless.
+  useEffect(() => {
+    const pending = sessionStorage.getItem(PENDING_COUPON_KEY);
+    if (pending && !appliedCode) {
+      sessionStorage.removeItem(PENDING_COUPON_KEY);
+      onApply(pending);
+    }
+  }, [appliedCode, onApply]);
+
+  if (appliedCode && !error) {
+    return (
+      <div className="flex items-center justify-between rounded-lg border border-green-600/30 bg-green-600/5 p-3">
+        <div className="flex items-center gap-2">
+          <Ticket className="h-4 w-4 text-green-600" />
+          <div>
+            <p className="font-mono text-sm font-semibold">{appliedCode}</p>
+            <p className="text-xs text-green-600">
+              {isChecking ? 'Checking...' : `You save ₹${discount.toFixed(0)}`}
+            </p>
+          </div>
+        </div>
+        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onRemove}>
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-1">
+      <div className="flex gap-2">
+        <Input
+          className="font-mono uppercase"
+          placeholder="Coupon code"
+          value={code}
+          onChange={(e) => setCode(e.target.value.toUpperCase())}
+        />
+        <Button
+          variant="outline"
+          onClick={() => onApply(code.trim())}
+          disabled={!code.trim() || isChecking}
+        >
+          {isChecking ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Apply'}
+        </Button>
+      </div>
+      {appliedCode && error && (
+        <p className="text-xs text-destructive">{appliedCode}: {error}</p>
+      )}
+    </div>
+  );
+};
+
+export default CouponInput;
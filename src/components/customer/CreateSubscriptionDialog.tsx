@@ -0,0 +1,255 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { addDays } from 'date-fns';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Loader2, Wallet } from 'lucide-react';
+import { useCustomerDivisions, useCustomerDivisionItems } from '@/hooks/useCustomerCloudKitchen';
+import { useCustomerAddresses } from '@/hooks/useCustomerAddresses';
+import { useCustomerWallet } from '@/hooks/useCustomerWallet';
+import { useOrderQuote } from '@/hooks/useOrderQuote';
+import { useMealSubscriptionActions } from '@/hooks/useMealSubscriptions';
+import { slotCutoff, toDateKey } from '@/lib/scheduling';
+import { WEEKDAYS, formatWeekdays, subscriptionDeliveryDates, subscriptionEndDate } from '@/lib/subscriptions';
+
+interface CreateSubscriptionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const WEEK_OPTIONS = [1, 2, 4, 8, 12];
+
+const CreateSubscriptionDialog: React.FC<CreateSubscriptionDialogProps> = ({ open, onOpenChange }) => {
+  const { profile } = useAuth();
+  const { defaultAddress } = useCustomerAddresses();
+  const { data: wallet } = useCustomerWallet();
+  const { data: divisions } = useCustomerDivisions();
+  const { createSubscription } = useMealSubscriptionActions();
+
+  const [divisionId, setDivisionId] = useState('');
+  const [itemKey, setItemKey] = useState('');
+  const [sets, setSets] = useState(1);
+  const [weekdays, setWeekdays] = useState<string[]>(['1', '2', '3', '4', '5']);
+  const [weeks, setWeeks] = useState(4);
+  const [startDate, setStartDate] = useState(() => toDateKey(addDays(new Date(), 1)));
+  const [address, setAddress] = useState('');
+
+  const { data: items } = useCustomerDivisionItems(divisionId || null);
+  const orderableItems = (items || []).filter((item) => item.is_orderable && item.cook);
+  const item = orderableItems.find((i) => i.unique_key === itemKey);
+  const division = divisions?.find((d) => d.id === divisionId);
+
+  useEffect(() => {
+    if (open && !address && defaultAddress) setAddress(defaultAddress.full_address);
+  }, [open, address, defaultAddress]);
+
+  useEffect(() => {
+    if (item) setSets(item.min_order_sets);
+  }, [item]);
+
+  const quantity = item ? sets * item.set_size : 0;
+  const lines = useMemo(
+    () => (item ? [{ food_item_id: item.id, quantity, cook_id: item.cook!.id }] : []),
+    [item, quantity]
+  );
+  const { data: quote, isLoading: quoteLoading, error: quoteError } = useOrderQuote(
+    item ? 'cloud_kitchen' : null,
+    lines,
+    divisionId || null,
+    { panchayatId: profile?.panchayat_id }
+  );
+
+  // Days whose ordering has already closed are left out, as on the server
+  const mealDates = division
+    ? subscriptionDeliveryDates(weekdays.map(Number), startDate, subscriptionEndDate(startDate, weeks))
+      .filter((date) => slotCutoff(division, date) > new Date())
+    : [];
+  const total = quote ? quote.total * mealDates.length : 0;
+  const balance = wallet?.balance ?? 0;
+  const hasLocation = !!profile?.panchayat_id && !!profile?.ward_number;
+
+  const canSubmit =
+    !!item && !!quote && hasLocation && mealDates.length > 0 && !!address.trim() && total <= balance;
+
+  const handleSubmit = () => {
+    if (!item || !quote || !profile?.panchayat_id || !profile.ward_number) return;
+
+    createSubscription.mutate(
+      {
+        cloud_kitchen_slot_id: divisionId,
+        food_item_id: item.id,
+        cook_id: item.cook!.id,
+        quantity,
+        weekdays: weekdays.map(Number),
+        start_date: startDate,
+        weeks,
+        panchayat_id: profile.panchayat_id,
+        ward_number: profile.ward_number,
+        delivery_address: address.trim(),
+        expected_meal_price: quote.total,
+      },
+      {
+        onSuccess: () => {
+          onOpenChange(false);
+          setDivisionId('');
+          setItemKey('');
+        },
+      }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-sm max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>New Meal Plan</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label>Meal</Label>
+            <Select value={divisionId} onValueChange={(v) => { setDivisionId(v); setItemKey(''); }}>
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a meal time" />
+              </SelectTrigger>
+              <SelectContent>
+                {divisions?.map((d) => (
+                  <SelectItem key={d.id} value={d.id}>{d.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {divisionId && (
+            <div>
+              <Label>Dish</Label>
+              <Select value={itemKey} onValueChange={setItemKey}>
+                <SelectTrigger>
+                  <SelectValue placeholder={orderableItems.length ? 'Choose a dish' : 'No dishes available'} />
+                </SelectTrigger>
+                <SelectContent>
+                  {orderableItems.map((i) => (
+                    <SelectItem key={i.unique_key} value={i.unique_key}>
+                      {i.name} · {i.cook!.kitchen_name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {item && (
+            <div>
+              <Label htmlFor="plan-sets">Sets per meal ({item.set_size} per set)</Label>
+              <Input
+                id="plan-sets"
+                type="number"
+                min={item.min_order_sets}
+                value={sets}
+                onChange={(e) => setSets(Math.max(item.min_order_sets, parseInt(e.target.value) || item.min_order_sets))}
+              />
+            </div>
+          )}
+
+          <div>
+            <Label>Days</Label>
+            <ToggleGroup
+              type="multiple"
+              variant="outline"
+              size="sm"
+              className="mt-1 flex-wrap justify-start"
+              value={weekdays}
+              onValueChange={(v) => v.length > 0 && setWeekdays(v)}
+            >
+              {WEEKDAYS.map((day) => (
+                <ToggleGroupItem key={day.value} value={String(day.value)} className="px-2 text-xs">
+                  {day.label}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <Label htmlFor="plan-start">Starts</Label>
+              <Input
+                id="plan-start"
+                type="date"
+                min={toDateKey(new Date())}
+                value={startDate}
+                onChange={(e) => e.target.value && setStartDate(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label>For</Label>
+              <Select value={String(weeks)} onValueChange={(v) => setWeeks(Number(v))}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {WEEK_OPTIONS.map((w) => (
+                    <SelectItem key={w} value={String(w)}>{w} {w === 1 ? 'week' : 'weeks'}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="plan-address">Delivery Address</Label>
+            <Input
+              id="plan-address"
+              value={address}
+              onChange={(e) => setAddress(e.target.value)}
+              placeholder="House name, street, landmark"
+            />
+            {!hasLocation && (
+              <p className="mt-1 text-xs text-destructive">Set your panchayat and ward in your profile first</p>
+            )}
+          </div>
+
+          {item && (
+            <div className="rounded-lg bg-muted p-3 text-sm space-y-1">
+              {quoteLoading ? (
+                <div className="flex justify-center py-2">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                </div>
+              ) : quoteError ? (
+                <p className="text-destructive">{(quoteError as Error).message}</p>
+              ) : quote && (
+                <>
+                  <div className="flex justify-between">
+                    <span>{formatWeekdays(weekdays.map(Number))}, {mealDates.length} meals</span>
+                    <span>₹{quote.total} each</span>
+                  </div>
+                  <div className="flex justify-between font-semibold">
+                    <span>Paid now from wallet</span>
+                    <span>₹{total.toFixed(2)}</span>
+                  </div>
+                  <div className={`flex items-center gap-1 text-xs ${total > balance ? 'text-destructive' : 'text-muted-foreground'}`}>
+                    <Wallet className="h-3 w-3" />
+                    Wallet balance ₹{balance}
+                    {total > balance && ' is not enough for this plan'}
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSubmit} disabled={!canSubmit || createSubscription.isPending}>
+            {createSubscription.isPending ? 'Subscribing...' : 'Subscribe'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CreateSubscriptionDialog;
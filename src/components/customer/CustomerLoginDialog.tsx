@@ -3,8 +3,9 @@ import { useNavigate } from 'react-router-dom';
 import { z } from 'zod';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { useAuth } from '@/contexts/AuthContext';
+import { useAuth, type CustomerSignupDetails } from '@/contexts/AuthContext';
 import { useLocation } from '@/contexts/LocationContext';
+import { useCart } from '@/contexts/CartContext';
 import { supabase } from '@/integrations/supabase/client';
 import {
   Dialog,
@@ -35,6 +36,7 @@ import { Loader2, Phone, User, Shield, MapPin } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
 import logo from '@/assets/logo.png';
 import { AlertDialog, AlertDialogContent } from '@/components/ui/alert-dialog';
+import OtpCodeForm from '@/components/customer/OtpCodeForm';
 
 const loginSchema = z.object({
   mobileNumber: z
@@ -83,11 +85,20 @@ const CustomerLoginDialog: React.FC<CustomerLoginDialogProps> = ({
   message,
 }) => {
   const navigate = useNavigate();
-  const { customerSignIn, customerSignUp } = useAuth();
+  const { requestCustomerOtp, verifyCustomerOtp } = useAuth();
+  const { mergeGuestCart } = useCart();
   const { panchayats, getWardsForPanchayat, isLoading: locationLoading } = useLocation();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [activeTab, setActiveTab] = useState('login');
   const [isSignupMode, setIsSignupMode] = useState(false);
+  // Number the code was sent to, which form sent it, and the details to register with
+  const [otpFor, setOtpFor] = useState<{
+    mobileNumber: string;
+    mode: 'login' | 'signup' | 'staff';
+    signup?: CustomerSignupDetails;
+  } | null>(null);
+  // A verified code for a number without an account, reused to register
+  const [pendingCode, setPendingCode] = useState<{ mobileNumber: string; code: string } | null>(null);
 
   const loginForm = useForm<LoginFormData>({
     resolver: zodResolver(loginSchema),
@@ -112,6 +123,28 @@ const CustomerLoginDialog: React.FC<CustomerLoginDialogProps> = ({
     signupForm.setValue('wardNumber', '');
   }, [selectedPanchayatId, signupForm]);
 
+  useEffect(() => {
+    if (!open) setOtpFor(null);
+  }, [open]);
+
+  const sendCode = async (mobileNumber: string, mode: 'login' | 'signup' | 'staff', signup?: CustomerSignupDetails) => {
+    const { error, retryAfter } = await requestCustomerOtp(mobileNumber);
+    if (error) {
+      toast({ title: 'Could not send code', description: error.message, variant: 'destructive' });
+      // Rate limited: a recent code may still be on its way
+      if (retryAfter === undefined) return;
+    }
+    setOtpFor({ mobileNumber, mode, signup });
+  };
+
+  const finishLogin = async (title: string, description: string) => {
+    toast({ title, description });
+    await mergeGuestCart();
+    setOtpFor(null);
+    onOpenChange(false);
+    onLoginSuccess?.();
+  };
+
   const handleLogin = async (data: LoginFormData) => {
     setIsSubmitting(true);
     try {
@@ -132,35 +165,55 @@ const CustomerLoginDialog: React.FC<CustomerLoginDialogProps> = ({
         }
       }
 
-      const { error } = await customerSignIn(data.mobileNumber);
-      if (error) {
-        if (error.message.includes('not found')) {
-          toast({
-            title: 'Account not found',
-            description: 'Please complete registration to continue',
-            variant: 'destructive',
-          });
-          setIsSignupMode(true);
-          signupForm.setValue('mobileNumber', data.mobileNumber);
+      await sendCode(data.mobileNumber, 'login');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const [showInactivePanchayat, setShowInactivePanchayat] = useState(false);
+
+  const handleVerify = async (code: string) => {
+    if (!otpFor) return;
+    setIsSubmitting(true);
+    try {
+      const { error, needsSignup } = await verifyCustomerOtp(otpFor.mobileNumber, code, {
+        signup: otpFor.signup,
+        staffQuickAccess: otpFor.mode === 'staff',
+      });
+
+      if (needsSignup) {
+        toast({
+          title: 'Account not found',
+          description: 'Please complete registration to continue',
+          variant: 'destructive',
+        });
+        setPendingCode({ mobileNumber: otpFor.mobileNumber, code });
+        setIsSignupMode(true);
+        signupForm.setValue('mobileNumber', otpFor.mobileNumber);
+        setOtpFor(null);
+      } else if (error) {
+        if (otpFor.mode === 'staff' && error.message.includes('not registered as staff')) {
+          toast({ title: 'Not a staff member', description: error.message, variant: 'destructive' });
+          setActiveTab('login');
+          loginForm.setValue('mobileNumber', otpFor.mobileNumber);
+          setOtpFor(null);
         } else {
-          toast({
-            title: 'Login failed',
-            description: error.message,
-            variant: 'destructive',
-          });
+          toast({ title: 'Login failed', description: error.message, variant: 'destructive' });
         }
+      } else if (otpFor.mode === 'staff') {
+        sessionStorage.setItem('staff_browse_mode', 'true');
+        await finishLogin('Staff Quick Access', 'You are now browsing as a customer.');
+      } else if (otpFor.mode === 'signup') {
+        await finishLogin('Welcome!', 'Your account has been created successfully');
       } else {
-        toast({ title: 'Welcome back!', description: 'You have been logged in successfully' });
-        onOpenChange(false);
-        onLoginSuccess?.();
+        await finishLogin('Welcome back!', 'You have been logged in successfully');
       }
     } finally {
       setIsSubmitting(false);
     }
   };
 
-  const [showInactivePanchayat, setShowInactivePanchayat] = useState(false);
-
   const handleSignup = async (data: SignupFormData) => {
     // Check if selected panchayat is active
     const selected = panchayats.find(p => p.id === data.panchayatId);
@@ -169,152 +222,35 @@ const CustomerLoginDialog: React.FC<CustomerLoginDialogProps> = ({
       return;
     }
 
+    const signup = {
+      name: data.name,
+      panchayatId: data.panchayatId,
+      wardNumber: parseInt(data.wardNumber, 10),
+    };
+
     setIsSubmitting(true);
     try {
-      const { error } = await customerSignUp(
-        data.mobileNumber,
-        data.name,
-        data.panchayatId,
-        parseInt(data.wardNumber, 10)
-      );
-      if (error) {
-        toast({ title: 'Registration failed', description: error.message, variant: 'destructive' });
-      } else {
-        toast({ title: 'Welcome!', description: 'Your account has been created successfully' });
-        onOpenChange(false);
-        onLoginSuccess?.();
+      // The number was just verified while trying to log in
+      if (pendingCode?.mobileNumber === data.mobileNumber) {
+        const { error } = await verifyCustomerOtp(data.mobileNumber, pendingCode.code, { signup });
+        setPendingCode(null);
+        if (!error) {
+          await finishLogin('Welcome!', 'Your account has been created successfully');
+          return;
+        }
       }
+
+      await sendCode(data.mobileNumber, 'signup', signup);
     } finally {
       setIsSubmitting(false);
     }
   };
 
+  // Cooks and delivery staff browse as customers; the code proves the number is theirs
   const handleStaffQuickAccess = async (data: StaffQuickAccessData) => {
     setIsSubmitting(true);
     try {
-      // Check if this mobile number belongs to a staff member (cook or delivery_staff or admin)
-      const { data: cookData } = await supabase
-        .from('cooks')
-        .select('id, user_id, mobile_number')
-        .eq('mobile_number', data.mobileNumber)
-        .eq('is_active', true)
-        .maybeSingle();
-
-      const { data: deliveryData } = await supabase
-        .from('delivery_staff')
-        .select('id, user_id, mobile_number')
-        .eq('mobile_number', data.mobileNumber)
-        .eq('is_active', true)
-        .maybeSingle();
-
-      // Check if user has admin/super_admin role through profiles
-      const { data: profileData } = await supabase
-        .from('profiles')
-        .select('user_id')
-        .eq('mobile_number', data.mobileNumber)
-        .maybeSingle();
-
-      let isStaff = false;
-      if (cookData || deliveryData) {
-        isStaff = true;
-      } else if (profileData) {
-        const { data: roleData } = await supabase
-          .from('user_roles')
-          .select('role')
-          .eq('user_id', profileData.user_id)
-          .maybeSingle();
-
-        if (roleData && (roleData.role === 'admin' || roleData.role === 'super_admin')) {
-          isStaff = true;
-        }
-      }
-
-      if (!isStaff) {
-        toast({
-          title: 'Not a staff member',
-          description: 'This mobile number is not registered as staff. Please use customer login.',
-          variant: 'destructive',
-        });
-        setActiveTab('login');
-        loginForm.setValue('mobileNumber', data.mobileNumber);
-        return;
-      }
-
-      // Staff member found - log them in as customer
-      let { error } = await customerSignIn(data.mobileNumber);
-      
-      if (error && error.message.includes('not found')) {
-        // Auto-create a customer account for this staff member
-        // Get staff name and panchayat info
-        let staffName = 'Staff User';
-        let staffPanchayatId = panchayats[0]?.id || '';
-        let staffWard = 1;
-
-        if (cookData) {
-          staffName = cookData.mobile_number;
-          // Get cook's panchayat
-          const { data: cookFull } = await supabase
-            .from('cooks')
-            .select('kitchen_name, panchayat_id')
-            .eq('id', cookData.id)
-            .maybeSingle();
-          if (cookFull) {
-            staffName = cookFull.kitchen_name;
-            if (cookFull.panchayat_id) staffPanchayatId = cookFull.panchayat_id;
-          }
-        } else if (deliveryData) {
-          const { data: dsFull } = await supabase
-            .from('delivery_staff')
-            .select('name, panchayat_id')
-            .eq('id', deliveryData.id)
-            .maybeSingle();
-          if (dsFull) {
-            staffName = dsFull.name;
-            if (dsFull.panchayat_id) staffPanchayatId = dsFull.panchayat_id;
-          }
-        } else if (profileData) {
-          const { data: prof } = await supabase
-            .from('profiles')
-            .select('name, panchayat_id, ward_number')
-            .eq('user_id', profileData.user_id)
-            .maybeSingle();
-          if (prof) {
-            staffName = prof.name;
-            if (prof.panchayat_id) staffPanchayatId = prof.panchayat_id;
-            if (prof.ward_number) staffWard = prof.ward_number;
-          }
-        }
-
-        // Sign up as customer
-        const { error: signupError } = await customerSignUp(
-          data.mobileNumber,
-          staffName,
-          staffPanchayatId,
-          staffWard
-        );
-
-        if (signupError) {
-          toast({ title: 'Access failed', description: signupError.message, variant: 'destructive' });
-          setIsSubmitting(false);
-          return;
-        }
-
-        // Now sign in
-        const result = await customerSignIn(data.mobileNumber);
-        error = result.error;
-      }
-
-      if (error) {
-        toast({ title: 'Access failed', description: error.message, variant: 'destructive' });
-      } else {
-        toast({
-          title: 'Staff Quick Access',
-          description: 'You are now browsing as a customer.',
-        });
-        sessionStorage.setItem('staff_browse_mode', 'true');
-        onOpenChange(false);
-        onLoginSuccess?.();
-      }
+      await sendCode(data.mobileNumber, 'staff');
     } finally {
       setIsSubmitting(false);
     }
@@ -332,64 +268,29 @@ const CustomerLoginDialog: React.FC<CustomerLoginDialogProps> = ({
           <DialogDescription>{message || 'Please login to view dish details and place orders'}</DialogDescription>
         </DialogHeader>
 
-        <Tabs value={activeTab} onValueChange={setActiveTab}>
-          <TabsList className="grid w-full grid-cols-2">
-            <TabsTrigger value="login">Customer Login</TabsTrigger>
-            <TabsTrigger value="staff">Staff Login</TabsTrigger>
-          </TabsList>
-
-          {/* Customer Login Tab - shows login form, auto-switches to signup if not found */}
-          <TabsContent value="login" className="mt-4">
-            {activeTab === 'login' && !isSignupMode ? (
-              <Form {...loginForm}>
-                <form onSubmit={loginForm.handleSubmit(handleLogin)} className="space-y-4">
-                  <FormField
-                    control={loginForm.control}
-                    name="mobileNumber"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Mobile Number</FormLabel>
-                        <FormControl>
-                          <div className="relative">
-                            <Phone className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
-                            <Input placeholder="Enter 10-digit mobile number" className="pl-10" {...field} />
-                          </div>
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                  <Button type="submit" className="w-full" disabled={isSubmitting}>
-                    {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-                    Continue
-                  </Button>
-                </form>
-              </Form>
-            ) : activeTab === 'login' && isSignupMode ? (
-              <div>
-                <p className="text-sm text-muted-foreground mb-3">
-                  No account found. Please complete registration.
-                </p>
-                <Form {...signupForm}>
-                  <form onSubmit={signupForm.handleSubmit(handleSignup)} className="space-y-3">
+        {otpFor ? (
+          <OtpCodeForm
+            mobileNumber={otpFor.mobileNumber}
+            isSubmitting={isSubmitting}
+            submitLabel={otpFor.mode === 'signup' ? 'Verify & Create Account' : 'Verify & Login'}
+            onVerify={handleVerify}
+            onResend={() => requestCustomerOtp(otpFor.mobileNumber)}
+            onChangeNumber={() => setOtpFor(null)}
+          />
+        ) : (
+          <Tabs value={activeTab} onValueChange={setActiveTab}>
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="login">Customer Login</TabsTrigger>
+              <TabsTrigger value="staff">Staff Login</TabsTrigger>
+            </TabsList>
+
+            {/* Customer Login Tab - shows login form, auto-switches to signup if not found */}
+            <TabsContent value="login" className="mt-4">
+              {activeTab === 'login' && !isSignupMode ? (
+                <Form {...loginForm}>
+                  <form onSubmit={loginForm.handleSubmit(handleLogin)} className="space-y-4">
                     <FormField
-                      control={signupForm.control}
-                      name="name"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Full Name</FormLabel>
-                          <FormControl>
-                            <div className="relative">
-                              <User className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
-                              <Input placeholder="Enter your name" className="pl-10" {...field} />
-                            </div>
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    <FormField
-                      control={signupForm.control}
+                      control={loginForm.control}
                       name="mobileNumber"
                       render={({ field }) => (
                         <FormItem>
@@ -397,113 +298,159 @@ const CustomerLoginDialog: React.FC<CustomerLoginDialogProps> = ({
                           <FormControl>
                             <div className="relative">
                               <Phone className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
-                              <Input placeholder="Enter 10-digit mobile number" className="pl-10" {...field} disabled />
+                              <Input placeholder="Enter 10-digit mobile number" className="pl-10" {...field} />
                             </div>
                           </FormControl>
                           <FormMessage />
                         </FormItem>
                       )}
                     />
-                    <div className="grid grid-cols-2 gap-3">
+                    <Button type="submit" className="w-full" disabled={isSubmitting}>
+                      {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                      Send Code
+                    </Button>
+                  </form>
+                </Form>
+              ) : activeTab === 'login' && isSignupMode ? (
+                <div>
+                  <p className="text-sm text-muted-foreground mb-3">
+                    No account found. Please complete registration.
+                  </p>
+                  <Form {...signupForm}>
+                    <form onSubmit={signupForm.handleSubmit(handleSignup)} className="space-y-3">
                       <FormField
                         control={signupForm.control}
-                        name="panchayatId"
+                        name="name"
                         render={({ field }) => (
                           <FormItem>
-                            <FormLabel>Panchayat</FormLabel>
-                            <Select onValueChange={field.onChange} value={field.value}>
-                              <FormControl>
-                                <SelectTrigger>
-                                  <SelectValue placeholder="Select" />
-                                </SelectTrigger>
-                              </FormControl>
-                              <SelectContent className="bg-popover">
-                                {panchayats.map((p) => (
-                                  <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
-                                ))}
-                              </SelectContent>
-                            </Select>
+                            <FormLabel>Full Name</FormLabel>
+                            <FormControl>
+                              <div className="relative">
+                                <User className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                                <Input placeholder="Enter your name" className="pl-10" {...field} />
+                              </div>
+                            </FormControl>
                             <FormMessage />
                           </FormItem>
                         )}
                       />
                       <FormField
                         control={signupForm.control}
-                        name="wardNumber"
+                        name="mobileNumber"
                         render={({ field }) => (
                           <FormItem>
-                            <FormLabel>Ward</FormLabel>
-                            <Select onValueChange={field.onChange} value={field.value} disabled={!selectedPanchayatId}>
-                              <FormControl>
-                                <SelectTrigger>
-                                  <SelectValue placeholder="Select" />
-                                </SelectTrigger>
-                              </FormControl>
-                              <SelectContent className="bg-popover max-h-48">
-                                {availableWards.map((wardNum) => (
-                                  <SelectItem key={wardNum} value={wardNum.toString()}>Ward {wardNum}</SelectItem>
-                                ))}
-                              </SelectContent>
-                            </Select>
+                            <FormLabel>Mobile Number</FormLabel>
+                            <FormControl>
+                              <div className="relative">
+                                <Phone className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                                <Input placeholder="Enter 10-digit mobile number" className="pl-10" {...field} disabled />
+                              </div>
+                            </FormControl>
                             <FormMessage />
                           </FormItem>
                         )}
                       />
-                    </div>
-                    <div className="flex gap-2">
-                      <Button type="button" variant="outline" className="flex-1" onClick={() => setIsSignupMode(false)}>
-                        Back
-                      </Button>
-                      <Button type="submit" className="flex-1" disabled={isSubmitting || locationLoading}>
-                        {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-                        Create Account
-                      </Button>
-                    </div>
-                  </form>
-                </Form>
+                      <div className="grid grid-cols-2 gap-3">
+                        <FormField
+                          control={signupForm.control}
+                          name="panchayatId"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Panchayat</FormLabel>
+                              <Select onValueChange={field.onChange} value={field.value}>
+                                <FormControl>
+                                  <SelectTrigger>
+                                    <SelectValue placeholder="Select" />
+                                  </SelectTrigger>
+                                </FormControl>
+                                <SelectContent className="bg-popover">
+                                  {panchayats.map((p) => (
+                                    <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={signupForm.control}
+                          name="wardNumber"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Ward</FormLabel>
+                              <Select onValueChange={field.onChange} value={field.value} disabled={!selectedPanchayatId}>
+                                <FormControl>
+                                  <SelectTrigger>
+                                    <SelectValue placeholder="Select" />
+                                  </SelectTrigger>
+                                </FormControl>
+                                <SelectContent className="bg-popover max-h-48">
+                                  {availableWards.map((wardNum) => (
+                                    <SelectItem key={wardNum} value={wardNum.toString()}>Ward {wardNum}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      </div>
+                      <div className="flex gap-2">
+                        <Button type="button" variant="outline" className="flex-1" onClick={() => setIsSignupMode(false)}>
+                          Back
+                        </Button>
+                        <Button type="submit" className="flex-1" disabled={isSubmitting || locationLoading}>
+                          {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                          Create Account
+                        </Button>
+                      </div>
+                    </form>
+                  </Form>
+                </div>
+              ) : null}
+            </TabsContent>
+
+            {/* Staff Quick Access Tab */}
+            <TabsContent value="staff" className="mt-4">
+              <div className="mb-4 rounded-lg border border-muted bg-muted/30 p-3">
+                <div className="flex items-start gap-2">
+                  <Shield className="h-4 w-4 text-muted-foreground mt-0.5" />
+                  <p className="text-xs text-muted-foreground">
+                    Staff can browse as customers with a code sent to their registered mobile. Dashboard access requires full login via{' '}
+                    <Button variant="link" className="h-auto p-0 text-xs" onClick={() => navigate('/auth')}>
+                      Staff Portal
+                    </Button>
+                  </p>
+                </div>
               </div>
-            ) : null}
-          </TabsContent>
-
-          {/* Staff Quick Access Tab */}
-          <TabsContent value="staff" className="mt-4">
-            <div className="mb-4 rounded-lg border border-muted bg-muted/30 p-3">
-              <div className="flex items-start gap-2">
-                <Shield className="h-4 w-4 text-muted-foreground mt-0.5" />
-                <p className="text-xs text-muted-foreground">
-                  Staff can browse as customers without credentials. Dashboard access requires full login via{' '}
-                  <Button variant="link" className="h-auto p-0 text-xs" onClick={() => navigate('/auth')}>
-                    Staff Portal
+              <Form {...staffForm}>
+                <form onSubmit={staffForm.handleSubmit(handleStaffQuickAccess)} className="space-y-4">
+                  <FormField
+                    control={staffForm.control}
+                    name="mobileNumber"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Staff Mobile Number</FormLabel>
+                        <FormControl>
+                          <div className="relative">
+                            <Phone className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                            <Input placeholder="Enter registered staff mobile" className="pl-10" {...field} />
+                          </div>
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <Button type="submit" className="w-full" disabled={isSubmitting}>
+                    {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Quick Access
                   </Button>
-                </p>
-              </div>
-            </div>
-            <Form {...staffForm}>
-              <form onSubmit={staffForm.handleSubmit(handleStaffQuickAccess)} className="space-y-4">
-                <FormField
-                  control={staffForm.control}
-                  name="mobileNumber"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Staff Mobile Number</FormLabel>
-                      <FormControl>
-                        <div className="relative">
-                          <Phone className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
-                          <Input placeholder="Enter registered staff mobile" className="pl-10" {...field} />
-                        </div>
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                <Button type="submit" className="w-full" disabled={isSubmitting}>
-                  {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-                  Quick Access
-                </Button>
-              </form>
-            </Form>
-          </TabsContent>
-        </Tabs>
+                </form>
+              </Form>
+            </TabsContent>
+          </Tabs>
+        )}
       </DialogContent>
     </Dialog>
 
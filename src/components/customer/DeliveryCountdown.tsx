@@ -0,0 +1,56 @@
+import React, { useEffect, useState } from 'react';
+import { Timer } from 'lucide-react';
+
+interface DeliveryCountdownProps {
+  // Expected arrival time
+  eta: Date;
+  // The ETA is being recomputed from the partner's live location
+  live?: boolean;
+}
+
+const formatRemaining = (ms: number) => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${pad(minutes)}:${pad(seconds)}`;
+};
+
+const DeliveryCountdown: React.FC<DeliveryCountdownProps> = ({ eta, live = false }) => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const remaining = eta.getTime() - now;
+
+  return (
+    <div className="flex items-center gap-3 rounded-lg bg-primary/10 p-3">
+      <Timer className="h-5 w-5 text-primary" />
+      <div className="flex-1">
+        <p className="text-xs text-muted-foreground">
+          {remaining > 0 ? 'Arriving in' : 'Running a little late'}
+        </p>
+        <p className="font-display text-xl font-bold tabular-nums text-primary">
+          {remaining > 0 ? formatRemaining(remaining) : 'Any moment now'}
+        </p>
+      </div>
+      <div className="text-right">
+        {live && (
+          <p className="flex items-center justify-end gap-1 text-xs font-medium text-green-600">
+            <span className="h-2 w-2 rounded-full bg-green-500 animate-pulse" />
+            Live
+          </p>
+        )}
+        <p className="text-xs text-muted-foreground">
+          ETA {eta.toLocaleTimeString('en-IN', { hour: '2-digit', minute: '2-digit' })}
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default DeliveryCountdown;
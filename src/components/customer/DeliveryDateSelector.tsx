@@ -0,0 +1,36 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { CalendarDays } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { formatDeliveryDate } from '@/lib/scheduling';
+
+interface DeliveryDateSelectorProps {
+  // YYYY-MM-DD dates, today first
+  dates: string[];
+  value: string;
+  onChange: (date: string) => void;
+}
+
+const DeliveryDateSelector: React.FC<DeliveryDateSelectorProps> = ({ dates, value, onChange }) => {
+  if (dates.length <= 1) return null;
+
+  return (
+    <div className="flex gap-2 overflow-x-auto pb-1">
+      {dates.map((date) => (
+        <Button
+          key={date}
+          type="button"
+          size="sm"
+          variant={date === value ? 'default' : 'outline'}
+          className={cn('shrink-0 gap-1', date !== value && 'text-muted-foreground')}
+          onClick={() => onChange(date)}
+        >
+          {date === value && <CalendarDays className="h-3.5 w-3.5" />}
+          {formatDeliveryDate(date)}
+        </Button>
+      ))}
+    </div>
+  );
+};
+
+export default DeliveryDateSelector;
@@ -0,0 +1,46 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { formatSlotTime } from '@/hooks/useCloudKitchenSlots';
+import {
+  HOMEMADE_DELIVERY_WINDOWS,
+  isWindowAvailable,
+  type DeliveryWindow,
+} from '@/lib/scheduling';
+
+interface DeliveryWindowSelectorProps {
+  date: string;
+  // Preparation and ride time the order needs before its window opens
+  leadMinutes: number;
+  value: DeliveryWindow | null;
+  onChange: (window: DeliveryWindow) => void;
+}
+
+const DeliveryWindowSelector: React.FC<DeliveryWindowSelectorProps> = ({ date, leadMinutes, value, onChange }) => {
+  const windows = HOMEMADE_DELIVERY_WINDOWS.filter((window) => isWindowAvailable(window, date, leadMinutes));
+
+  if (windows.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No delivery windows left on this day. Please pick another date.
+      </p>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-2 gap-2">
+      {windows.map((window) => (
+        <Button
+          key={window.start}
+          type="button"
+          size="sm"
+          variant={value?.start === window.start ? 'default' : 'outline'}
+          onClick={() => onChange(window)}
+        >
+          {formatSlotTime(window.start)} - {formatSlotTime(window.end)}
+        </Button>
+      ))}
+    </div>
+  );
+};
+
+export default DeliveryWindowSelector;
@@ -11,7 +11,7 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Plus, Star, Percent } from 'lucide-react';
-import { calculatePlatformMargin } from '@/lib/priceUtils';
+import { quoteListingPrice } from '@/lib/priceUtils';
 import { useCookAllocatedItemIds } from '@/hooks/useCookAllocatedItems';
 import { useLowestCookPrices } from '@/hooks/useLowestCookPrices';
 import { useActiveCloudKitchenSlotIds } from '@/hooks/useCloudKitchenSlots';
@@ -30,22 +30,9 @@ interface FeaturedItem {
   images: { image_url: string; is_primary: boolean }[];
 }
 
-// Helper to calculate customer display price (base + margin), using lowest cook price for homemade
-const getCustomerPrice = (item: FeaturedItem, lowestCookPrices?: Map<string, number | null>): number => {
-  const marginType = (item.platform_margin_type || 'percent') as 'percent' | 'fixed';
-  const marginValue = item.platform_margin_value || 0;
-  
-  let basePrice = item.price;
-  if (item.service_type === 'homemade' && lowestCookPrices) {
-    const lowestPrice = lowestCookPrices.get(item.id);
-    if (lowestPrice !== undefined && lowestPrice !== null) {
-      basePrice = Math.min(basePrice, lowestPrice);
-    }
-  }
-  
-  const margin = calculatePlatformMargin(basePrice, marginType, marginValue);
-  return basePrice + margin;
-};
+// Customer display price before discount (base + margin), using lowest cook price for homemade
+const getCustomerPrice = (item: FeaturedItem, lowestCookPrices?: Map<string, number | null>): number =>
+  quoteListingPrice(item, lowestCookPrices).grossUnitPrice;
 
 interface FeaturedItemsProps {
   activeServiceTypes?: string[];
@@ -118,7 +105,7 @@ const FeaturedItems: React.FC<FeaturedItemsProps> = ({ activeServiceTypes }) =>
     if (item.service_type === 'indoor_events') {
       requireAuth(() => navigate('/indoor-events'));
     } else {
-      requireAuth(() => addToCart(item.id));
+      addToCart(item.id);
     }
   };
 
@@ -130,16 +117,8 @@ const FeaturedItems: React.FC<FeaturedItemsProps> = ({ activeServiceTypes }) =>
     }
   };
 
-  const getDiscountedPrice = (item: FeaturedItem) => {
-    const customerPrice = getCustomerPrice(item, lowestCookPrices);
-    if (item.discount_percent && item.discount_percent > 0) {
-      return customerPrice - (customerPrice * item.discount_percent / 100);
-    }
-    if (item.discount_amount && item.discount_amount > 0) {
-      return customerPrice - item.discount_amount;
-    }
-    return customerPrice;
-  };
+  const getDiscountedPrice = (item: FeaturedItem) =>
+    quoteListingPrice(item, lowestCookPrices).unitPrice;
 
   const hasDiscount = (item: FeaturedItem) => {
     return (item.discount_percent && item.discount_percent > 0) || 
@@ -0,0 +1,176 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { toast } from '@/hooks/use-toast';
+import { TILE_SIZE, fromWorldPixel, toWorldPixel, type LocationPoint } from '@/lib/geo';
+import { Crosshair, Loader2, MapPin, Minus, Plus } from 'lucide-react';
+
+interface LocationPinPickerProps {
+  value: LocationPoint | null;
+  // Called once the map settles after a drag, or on "Use current location"
+  onChange: (point: LocationPoint) => void;
+}
+
+// Shown until a pin is dropped
+const DEFAULT_CENTRE: LocationPoint = { latitude: 10.8505, longitude: 76.2711 };
+const MIN_ZOOM = 5;
+const MAX_ZOOM = 19;
+const MAP_HEIGHT = 224;
+
+/**
+ * A map the customer drags under a fixed centre pin, drawn from OpenStreetMap
+ * tiles. The pin's position is what gets saved with the address.
+ */
+const LocationPinPicker: React.FC<LocationPinPickerProps> = ({ value, onChange }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ pointerX: number; pointerY: number; x: number; y: number } | null>(null);
+  const [width, setWidth] = useState(0);
+  const [centre, setCentre] = useState<LocationPoint>(value ?? DEFAULT_CENTRE);
+  const [zoom, setZoom] = useState(value ? 17 : 8);
+  const [locating, setLocating] = useState(false);
+
+  useEffect(() => {
+    const measure = () => setWidth(containerRef.current?.clientWidth ?? 0);
+    measure();
+    window.addEventListener('resize', measure);
+    return () => window.removeEventListener('resize', measure);
+  }, []);
+
+  // Follow a pin set from outside, e.g. when editing another address
+  useEffect(() => {
+    if (value) setCentre(value);
+  }, [value]);
+
+  const centrePixel = toWorldPixel(centre, zoom);
+  const left = centrePixel.x - width / 2;
+  const top = centrePixel.y - MAP_HEIGHT / 2;
+  const tileCount = 2 ** zoom;
+
+  const tiles: { key: string; src: string; x: number; y: number }[] = [];
+  if (width > 0) {
+    for (let ty = Math.floor(top / TILE_SIZE); ty <= Math.floor((top + MAP_HEIGHT) / TILE_SIZE); ty++) {
+      if (ty < 0 || ty >= tileCount) continue;
+      for (let tx = Math.floor(left / TILE_SIZE); tx <= Math.floor((left + width) / TILE_SIZE); tx++) {
+        const wrapped = ((tx % tileCount) + tileCount) % tileCount;
+        tiles.push({
+          key: `${zoom}/${tx}/${ty}`,
+          src: `https://tile.openstreetmap.org/${zoom}/${wrapped}/${ty}.png`,
+          x: tx * TILE_SIZE - left,
+          y: ty * TILE_SIZE - top,
+        });
+      }
+    }
+  }
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { pointerX: e.clientX, pointerY: e.clientY, ...centrePixel };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    setCentre(
+      fromWorldPixel(
+        { x: drag.x - (e.clientX - drag.pointerX), y: drag.y - (e.clientY - drag.pointerY) },
+        zoom
+      )
+    );
+  };
+
+  const handlePointerUp = () => {
+    if (!dragRef.current) return;
+    dragRef.current = null;
+    onChange(centre);
+  };
+
+  const locateMe = () => {
+    if (!('geolocation' in navigator)) {
+      toast({ title: 'Location is not available on this device', variant: 'destructive' });
+      return;
+    }
+    setLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        const point = { latitude: position.coords.latitude, longitude: position.coords.longitude };
+        setLocating(false);
+        setCentre(point);
+        setZoom(17);
+        onChange(point);
+      },
+      (error) => {
+        setLocating(false);
+        toast({ title: 'Could not get your location', description: error.message, variant: 'destructive' });
+      },
+      { enableHighAccuracy: true, timeout: 15_000 }
+    );
+  };
+
+  return (
+    <div className="space-y-2">
+      <div
+        ref={containerRef}
+        className="relative overflow-hidden rounded-lg border bg-muted select-none touch-none cursor-grab active:cursor-grabbing"
+        style={{ height: MAP_HEIGHT }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        {tiles.map((tile) => (
+          <img
+            key={tile.key}
+            src={tile.src}
+            alt=""
+            draggable={false}
+            className="absolute max-w-none pointer-events-none"
+            style={{ left: tile.x, top: tile.y, width: TILE_SIZE, height: TILE_SIZE }}
+          />
+        ))}
+
+        {/* The pin's tip marks the centre of the map */}
+        <MapPin
+          className="absolute left-1/2 top-1/2 h-8 w-8 -translate-x-1/2 -translate-y-full text-primary drop-shadow pointer-events-none"
+          fill="currentColor"
+          stroke="white"
+        />
+
+        <div className="absolute right-2 top-2 flex flex-col gap-1" onPointerDown={(e) => e.stopPropagation()}>
+          <Button
+            type="button"
+            size="icon"
+            variant="secondary"
+            className="h-7 w-7"
+            onClick={() => setZoom((z) => Math.min(z + 1, MAX_ZOOM))}
+          >
+            <Plus className="h-4 w-4" />
+          </Button>
+          <Button
+            type="button"
+            size="icon"
+            variant="secondary"
+            className="h-7 w-7"
+            onClick={() => setZoom((z) => Math.max(z - 1, MIN_ZOOM))}
+          >
+            <Minus className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <span className="absolute bottom-0 right-0 bg-background/80 px-1 text-[10px] text-muted-foreground">
+          © <a href="https://www.openstreetmap.org/copyright" target="_blank" rel="noreferrer">OpenStreetMap</a> contributors
+        </span>
+      </div>
+
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs text-muted-foreground">
+          {value ? 'Drag the map to move the pin to your door' : 'Drag the map to put the pin on your door'}
+        </p>
+        <Button type="button" variant="outline" size="sm" onClick={locateMe} disabled={locating}>
+          {locating ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Crosshair className="h-4 w-4 mr-1" />}
+          Use current location
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default LocationPinPicker;
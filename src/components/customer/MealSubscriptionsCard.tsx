@@ -0,0 +1,204 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { CalendarDays, Pause, Play, Plus, Repeat, X } from 'lucide-react';
+import CreateSubscriptionDialog from '@/components/customer/CreateSubscriptionDialog';
+import {
+  useMealSubscriptionActions,
+  useMyMealSubscriptions,
+  type MealSubscription,
+} from '@/hooks/useMealSubscriptions';
+import { atTime, formatDeliveryDate, slotCutoff, toDateKey } from '@/lib/scheduling';
+import { SUBSCRIPTION_STATUS_CONFIG, formatWeekdays, subscriptionDeliveryDates } from '@/lib/subscriptions';
+
+// Upcoming delivery days shown per plan
+const UPCOMING_DAYS = 5;
+
+const SubscriptionRow: React.FC<{ subscription: MealSubscription }> = ({ subscription }) => {
+  const navigate = useNavigate();
+  const { skipDay, setStatus } = useMealSubscriptionActions();
+  const [cancelOpen, setCancelOpen] = useState(false);
+
+  const status = SUBSCRIPTION_STATUS_CONFIG[subscription.status];
+  const isOpen = subscription.status === 'active' || subscription.status === 'paused';
+  const sets = subscription.food_item ? subscription.quantity / Math.max(subscription.food_item.set_size, 1) : subscription.quantity;
+
+  const upcoming = isOpen
+    ? subscriptionDeliveryDates(subscription.weekdays, subscription.start_date, subscription.end_date)
+      .filter((date) => date >= toDateKey(new Date()))
+      .slice(0, UPCOMING_DAYS)
+    : [];
+
+  return (
+    <div className="space-y-2 p-4">
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <p className="font-medium">
+            {subscription.slot?.name} · {subscription.food_item?.name} × {sets} {sets === 1 ? 'set' : 'sets'}
+          </p>
+          <p className="text-xs text-muted-foreground">
+            {formatWeekdays(subscription.weekdays)} · {format(atTime(subscription.start_date, '00:00'), 'd MMM')} – {format(atTime(subscription.end_date, '00:00'), 'd MMM')}
+            {subscription.cook && ` · ${subscription.cook.kitchen_name}`}
+          </p>
+        </div>
+        <Badge className={status.color}>{status.label}</Badge>
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        {subscription.meal_count} meals at ₹{subscription.meal_price} · ₹{subscription.balance} prepaid left
+      </p>
+
+      {upcoming.length > 0 && (
+        <div className="space-y-1">
+          {upcoming.map((date) => {
+            const order = subscription.orders.find((o) => o.scheduled_for === date);
+            const skip = subscription.skips.find((s) => s.skip_date === date);
+            const canSkip =
+              !order && !skip && !!subscription.slot && slotCutoff(subscription.slot, date) > new Date();
+
+            return (
+              <div key={date} className="flex items-center justify-between rounded-md bg-muted/50 px-2 py-1 text-sm">
+                <span className="flex items-center gap-1">
+                  <CalendarDays className="h-3 w-3 text-muted-foreground" />
+                  {formatDeliveryDate(date)}
+                </span>
+                {order ? (
+                  <button className="text-xs font-medium text-primary" onClick={() => navigate(`/order/${order.id}`)}>
+                    Ordered #{order.order_number}
+                  </button>
+                ) : skip ? (
+                  <span className="text-xs text-muted-foreground">
+                    {skip.reason === 'paused' ? 'Paused' : 'Skipped'}
+                  </span>
+                ) : subscription.status === 'paused' ? (
+                  <span className="text-xs text-muted-foreground">Paused</span>
+                ) : canSkip ? (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 text-xs"
+                    disabled={skipDay.isPending}
+                    onClick={() => skipDay.mutate({ subscriptionId: subscription.id, date })}
+                  >
+                    Skip
+                  </Button>
+                ) : (
+                  <span className="text-xs text-muted-foreground">Being ordered</span>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {isOpen && (
+        <div className="flex gap-2 pt-1">
+          {subscription.status === 'active' ? (
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={setStatus.isPending}
+              onClick={() => setStatus.mutate({ subscriptionId: subscription.id, status: 'paused' })}
+            >
+              <Pause className="h-3 w-3 mr-1" />
+              Pause
+            </Button>
+          ) : (
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={setStatus.isPending}
+              onClick={() => setStatus.mutate({ subscriptionId: subscription.id, status: 'active' })}
+            >
+              <Play className="h-3 w-3 mr-1" />
+              Resume
+            </Button>
+          )}
+          <Button
+            variant="outline"
+            size="sm"
+            className="text-destructive"
+            disabled={setStatus.isPending}
+            onClick={() => setCancelOpen(true)}
+          >
+            <X className="h-3 w-3 mr-1" />
+            Cancel Plan
+          </Button>
+        </div>
+      )}
+
+      <AlertDialog open={cancelOpen} onOpenChange={setCancelOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Cancel this meal plan?</AlertDialogTitle>
+            <AlertDialogDescription>
+              No more meals will be ordered. ₹{subscription.balance} prepaid for the remaining meals goes back to your
+              wallet. Meals already ordered can be cancelled from your orders.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep Plan</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => setStatus.mutate({ subscriptionId: subscription.id, status: 'cancelled' })}
+            >
+              Cancel Plan
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+const MealSubscriptionsCard: React.FC = () => {
+  const { data: subscriptions, isLoading } = useMyMealSubscriptions();
+  const [createOpen, setCreateOpen] = useState(false);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between pb-2 pt-4 px-4">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Repeat className="h-4 w-4 text-cloud-kitchen" />
+          Meal Plans
+        </CardTitle>
+        <Button variant="outline" size="sm" onClick={() => setCreateOpen(true)}>
+          <Plus className="h-3 w-3 mr-1" />
+          New Plan
+        </Button>
+      </CardHeader>
+      <CardContent className="p-0 divide-y">
+        {isLoading ? (
+          <div className="p-4">
+            <Skeleton className="h-16 w-full" />
+          </div>
+        ) : subscriptions && subscriptions.length > 0 ? (
+          subscriptions.map((subscription) => (
+            <SubscriptionRow key={subscription.id} subscription={subscription} />
+          ))
+        ) : (
+          <p className="px-4 pb-4 text-sm text-muted-foreground">
+            Get the same cloud kitchen meal delivered on the days you choose, paid up front from your wallet.
+          </p>
+        )}
+      </CardContent>
+
+      <CreateSubscriptionDialog open={createOpen} onOpenChange={setCreateOpen} />
+    </Card>
+  );
+};
+
+export default MealSubscriptionsCard;
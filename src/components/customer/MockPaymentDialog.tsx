@@ -0,0 +1,51 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { CreditCard, Loader2 } from 'lucide-react';
+import type { PaymentIntent } from '@/hooks/useOnlinePayment';
+
+interface MockPaymentDialogProps {
+  intent: PaymentIntent | null;
+  isProcessing: boolean;
+  onComplete: (outcome: 'success' | 'failure' | 'dismissed') => void;
+}
+
+// Stands in for the gateway's checkout when the mock payment provider is active
+const MockPaymentDialog: React.FC<MockPaymentDialogProps> = ({ intent, isProcessing, onComplete }) => (
+  <Dialog
+    open={!!intent}
+    onOpenChange={(open) => { if (!open && !isProcessing) onComplete('dismissed'); }}
+  >
+    <DialogContent className="max-w-sm">
+      <DialogHeader>
+        <DialogTitle className="flex items-center gap-2">
+          <CreditCard className="h-5 w-5" />
+          Test Payment
+        </DialogTitle>
+        <DialogDescription>
+          Mock gateway – no money is charged. Order #{intent?.order_number}
+        </DialogDescription>
+      </DialogHeader>
+
+      <p className="text-center text-3xl font-bold">₹{intent?.amount.toFixed(2)}</p>
+
+      <div className="grid grid-cols-2 gap-2">
+        <Button variant="outline" onClick={() => onComplete('failure')} disabled={isProcessing}>
+          Decline
+        </Button>
+        <Button onClick={() => onComplete('success')} disabled={isProcessing}>
+          {isProcessing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Pay
+        </Button>
+      </div>
+    </DialogContent>
+  </Dialog>
+);
+
+export default MockPaymentDialog;
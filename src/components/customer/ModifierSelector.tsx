@@ -0,0 +1,99 @@
+import React from 'react';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { SlidersHorizontal } from 'lucide-react';
+import type { ModifierGroup, ModifierPriceOverrides } from '@/lib/modifiers';
+
+interface ModifierSelectorProps {
+  groups: ModifierGroup[];
+  selectedOptionIds: string[];
+  onChange: (optionIds: string[]) => void;
+  // Selected cook's prices for options
+  priceOverrides?: ModifierPriceOverrides | null;
+}
+
+const ModifierSelector: React.FC<ModifierSelectorProps> = ({ groups, selectedOptionIds, onChange, priceOverrides }) => {
+  if (groups.length === 0) return null;
+
+  const priceLabel = (optionId: string, price: number) => {
+    const effective = Number(priceOverrides?.[optionId] ?? price);
+    return effective > 0 ? `+₹${effective.toFixed(0)}` : null;
+  };
+
+  const selectSingle = (group: ModifierGroup, optionId: string) => {
+    const groupOptionIds = group.options.map(option => option.id);
+    onChange([...selectedOptionIds.filter(id => !groupOptionIds.includes(id)), optionId]);
+  };
+
+  const toggleMultiple = (group: ModifierGroup, optionId: string, checked: boolean) => {
+    if (!checked) {
+      onChange(selectedOptionIds.filter(id => id !== optionId));
+      return;
+    }
+    const chosenInGroup = group.options.filter(option => selectedOptionIds.includes(option.id)).length;
+    if (group.max_selections != null && chosenInGroup >= group.max_selections) return;
+    onChange([...selectedOptionIds, optionId]);
+  };
+
+  return (
+    <div className="mt-4 space-y-4 rounded-lg border bg-muted/30 p-4">
+      <div className="flex items-center gap-2 text-sm font-medium">
+        <SlidersHorizontal className="h-4 w-4 text-primary" />
+        <span>Customise</span>
+      </div>
+
+      {groups.map((group) => (
+        <div key={group.id} className="space-y-2">
+          <div className="flex items-center gap-2">
+            <span className="text-sm font-medium">{group.name}</span>
+            {group.is_required ? (
+              <Badge variant="secondary" className="text-[10px] px-1.5 py-0">Required</Badge>
+            ) : (
+              <span className="text-xs text-muted-foreground">Optional</span>
+            )}
+            {group.selection_type === 'multiple' && group.max_selections != null && (
+              <span className="text-xs text-muted-foreground">up to {group.max_selections}</span>
+            )}
+          </div>
+
+          {group.selection_type === 'single' ? (
+            <RadioGroup
+              value={group.options.find(option => selectedOptionIds.includes(option.id))?.id || ''}
+              onValueChange={(optionId) => selectSingle(group, optionId)}
+            >
+              {group.options.map((option) => (
+                <div key={option.id} className="flex items-center space-x-3">
+                  <RadioGroupItem value={option.id} id={`modifier-${option.id}`} />
+                  <Label htmlFor={`modifier-${option.id}`} className="flex flex-1 justify-between cursor-pointer font-normal">
+                    <span>{option.name}</span>
+                    <span className="text-muted-foreground">{priceLabel(option.id, option.price)}</span>
+                  </Label>
+                </div>
+              ))}
+            </RadioGroup>
+          ) : (
+            <div className="space-y-2">
+              {group.options.map((option) => (
+                <div key={option.id} className="flex items-center space-x-3">
+                  <Checkbox
+                    id={`modifier-${option.id}`}
+                    checked={selectedOptionIds.includes(option.id)}
+                    onCheckedChange={(checked) => toggleMultiple(group, option.id, checked === true)}
+                  />
+                  <Label htmlFor={`modifier-${option.id}`} className="flex flex-1 justify-between cursor-pointer font-normal">
+                    <span>{option.name}</span>
+                    <span className="text-muted-foreground">{priceLabel(option.id, option.price)}</span>
+                  </Label>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ModifierSelector;
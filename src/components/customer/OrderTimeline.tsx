@@ -0,0 +1,165 @@
+import React from 'react';
+import { CheckCircle, ChefHat, Clock, Package, Phone, Truck, XCircle } from 'lucide-react';
+import type { Order, OrderStatus, OrderStatusHistoryEntry } from '@/types/database';
+import type { DeliveryPartner } from '@/hooks/useOrderTracking';
+
+interface OrderTimelineProps {
+  order: Order;
+  history: OrderStatusHistoryEntry[];
+  cookNames: string[];
+  deliveryPartner: DeliveryPartner | null;
+}
+
+type StepKey = 'placed' | 'accepted' | 'preparing' | 'ready' | 'picked_up' | 'delivered';
+
+interface Step {
+  key: StepKey;
+  label: string;
+  icon: React.ReactNode;
+  // History entries that mark this step as reached
+  matches: { field: OrderStatusHistoryEntry['field']; to: string }[];
+}
+
+const steps: Step[] = [
+  { key: 'placed', label: 'Order placed', icon: <Clock className="h-4 w-4" />, matches: [] },
+  {
+    key: 'accepted',
+    label: 'Cook accepted',
+    icon: <ChefHat className="h-4 w-4" />,
+    matches: [{ field: 'cook_status', to: 'accepted' }, { field: 'status', to: 'confirmed' }],
+  },
+  {
+    key: 'preparing',
+    label: 'Preparing',
+    icon: <Package className="h-4 w-4" />,
+    matches: [{ field: 'cook_status', to: 'preparing' }, { field: 'status', to: 'preparing' }],
+  },
+  {
+    key: 'ready',
+    label: 'Ready',
+    icon: <Package className="h-4 w-4" />,
+    matches: [{ field: 'cook_status', to: 'ready' }, { field: 'status', to: 'ready' }],
+  },
+  {
+    key: 'picked_up',
+    label: 'Picked up',
+    icon: <Truck className="h-4 w-4" />,
+    matches: [{ field: 'delivery_status', to: 'picked_up' }, { field: 'status', to: 'out_for_delivery' }],
+  },
+  {
+    key: 'delivered',
+    label: 'Delivered',
+    icon: <CheckCircle className="h-4 w-4" />,
+    matches: [{ field: 'status', to: 'delivered' }, { field: 'delivery_status', to: 'delivered' }],
+  },
+];
+
+// Last step each order status has reached, for orders with no history for a step
+const reachedStepIndex: Record<OrderStatus, number> = {
+  pending: 0,
+  confirmed: 1,
+  preparing: 2,
+  ready: 3,
+  out_for_delivery: 4,
+  delivered: 5,
+  cancelled: 0,
+};
+
+const formatTime = (value: string) =>
+  new Date(value).toLocaleString('en-IN', {
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+const OrderTimeline: React.FC<OrderTimelineProps> = ({ order, history, cookNames, deliveryPartner }) => {
+  const stepTime = (step: Step): string | null => {
+    if (step.key === 'placed') return order.created_at;
+    const entry = history.find((h) => step.matches.some((m) => m.field === h.field && m.to === h.to_status));
+    if (entry) return entry.created_at;
+    if (step.key === 'delivered') return order.delivered_at;
+    return null;
+  };
+
+  const timeline = steps.map((step, index) => {
+    const time = stepTime(step);
+    return { ...step, time, done: !!time || index <= reachedStepIndex[order.status] };
+  });
+
+  const cancelled = order.status === 'cancelled'
+    ? [...history].reverse().find((h) => h.field === 'status' && h.to_status === 'cancelled')
+    : undefined;
+
+  // A cancelled order only shows the steps it got through
+  const visible = order.status === 'cancelled' ? timeline.filter((s) => s.done) : timeline;
+  const currentIndex = visible.reduce((last, s, i) => (s.done ? i : last), 0);
+
+  const detail = (key: StepKey): React.ReactNode => {
+    if (key === 'accepted' && cookNames.length > 0) {
+      return <p className="text-xs text-muted-foreground">{cookNames.join(', ')}</p>;
+    }
+    if (key === 'picked_up' && deliveryPartner) {
+      return (
+        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+          <span>
+            {deliveryPartner.name}
+            {deliveryPartner.vehicle_number ? ` · ${deliveryPartner.vehicle_number}` : ''}
+          </span>
+          <a href={`tel:${deliveryPartner.mobile_number}`} className="flex items-center gap-1 text-primary">
+            <Phone className="h-3 w-3" />
+            Call
+          </a>
+        </div>
+      );
+    }
+    return null;
+  };
+
+  return (
+    <ol className="space-y-0">
+      {visible.map((step, index) => {
+        const hasNext = index < visible.length - 1 || order.status === 'cancelled';
+        return (
+          <li key={step.key} className="relative flex gap-3 pb-4 last:pb-0">
+            {hasNext && (
+              <span
+                className={`absolute left-4 top-8 h-[calc(100%-2rem)] w-0.5 -translate-x-1/2 ${visible[index + 1]?.done ? 'bg-primary' : 'bg-border'}`}
+              />
+            )}
+            <span
+              className={`z-10 flex h-8 w-8 shrink-0 items-center justify-center rounded-full ${
+                step.done ? 'bg-primary text-primary-foreground' : 'bg-muted text-muted-foreground'
+              } ${index === currentIndex && order.status !== 'delivered' && order.status !== 'cancelled' ? 'ring-4 ring-primary/20' : ''}`}
+            >
+              {step.icon}
+            </span>
+            <div className="flex-1 pt-1">
+              <div className="flex items-center justify-between gap-2">
+                <p className={`text-sm font-medium ${step.done ? '' : 'text-muted-foreground'}`}>{step.label}</p>
+                {step.time && <p className="text-xs text-muted-foreground">{formatTime(step.time)}</p>}
+              </div>
+              {step.done && detail(step.key)}
+            </div>
+          </li>
+        );
+      })}
+      {order.status === 'cancelled' && (
+        <li className="relative flex gap-3">
+          <span className="z-10 flex h-8 w-8 shrink-0 items-center justify-center rounded-full bg-destructive text-destructive-foreground">
+            <XCircle className="h-4 w-4" />
+          </span>
+          <div className="flex-1 pt-1">
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-sm font-medium">Cancelled</p>
+              <p className="text-xs text-muted-foreground">{formatTime(cancelled?.created_at ?? order.updated_at)}</p>
+            </div>
+            {cancelled?.reason && <p className="text-xs text-muted-foreground">{cancelled.reason}</p>}
+          </div>
+        </li>
+      )}
+    </ol>
+  );
+};
+
+export default OrderTimeline;
@@ -0,0 +1,102 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import { Loader2, MessageSquare } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+
+interface OtpCodeFormProps {
+  mobileNumber: string;
+  isSubmitting: boolean;
+  onVerify: (code: string) => void;
+  // Sends a new code to the same number
+  onResend: () => Promise<{ error: Error | null; retryAfter?: number }>;
+  onChangeNumber: () => void;
+  submitLabel?: string;
+}
+
+// Seconds before a code can be sent again, matching the customer-auth function
+const RESEND_AFTER_SECONDS = 60;
+
+const OtpCodeForm: React.FC<OtpCodeFormProps> = ({
+  mobileNumber,
+  isSubmitting,
+  onVerify,
+  onResend,
+  onChangeNumber,
+  submitLabel = 'Verify',
+}) => {
+  const [code, setCode] = useState('');
+  const [resendIn, setResendIn] = useState(RESEND_AFTER_SECONDS);
+  const [isResending, setIsResending] = useState(false);
+
+  useEffect(() => {
+    if (resendIn <= 0) return;
+    const timer = setTimeout(() => setResendIn((s) => s - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [resendIn]);
+
+  const handleResend = async () => {
+    setIsResending(true);
+    try {
+      const { error, retryAfter } = await onResend();
+      if (error) {
+        toast({ title: 'Could not resend code', description: error.message, variant: 'destructive' });
+      } else {
+        setCode('');
+        toast({ title: 'Code sent', description: `A new code has been sent to +91 ${mobileNumber}` });
+      }
+      setResendIn(retryAfter ?? (error ? 0 : RESEND_AFTER_SECONDS));
+    } finally {
+      setIsResending(false);
+    }
+  };
+
+  return (
+    <form
+      className="space-y-4"
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (code.length === 6) onVerify(code);
+      }}
+    >
+      <div className="flex items-start gap-2 rounded-lg bg-muted/50 p-3 text-sm">
+        <MessageSquare className="mt-0.5 h-4 w-4 text-primary" />
+        <p>
+          Enter the 6 digit code sent to <span className="font-medium">+91 {mobileNumber}</span>
+        </p>
+      </div>
+
+      <div className="flex justify-center">
+        <InputOTP maxLength={6} value={code} onChange={setCode} autoFocus inputMode="numeric" pattern="^[0-9]*$">
+          <InputOTPGroup>
+            {[0, 1, 2, 3, 4, 5].map((index) => (
+              <InputOTPSlot key={index} index={index} />
+            ))}
+          </InputOTPGroup>
+        </InputOTP>
+      </div>
+
+      <Button type="submit" className="w-full" disabled={isSubmitting || code.length !== 6}>
+        {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        {submitLabel}
+      </Button>
+
+      <div className="flex items-center justify-between text-sm">
+        <Button type="button" variant="link" className="h-auto p-0" onClick={onChangeNumber}>
+          Change number
+        </Button>
+        <Button
+          type="button"
+          variant="link"
+          className="h-auto p-0"
+          disabled={resendIn > 0 || isResending}
+          onClick={handleResend}
+        >
+          {resendIn > 0 ? `Resend code in ${resendIn}s` : 'Resend code'}
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export default OtpCodeForm;
@@ -0,0 +1,39 @@
+import React from 'react';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Label } from '@/components/ui/label';
+import { Banknote, CreditCard } from 'lucide-react';
+
+export type PaymentMethod = 'cash' | 'online';
+
+interface PaymentMethodSelectorProps {
+  value: PaymentMethod;
+  onChange: (value: PaymentMethod) => void;
+}
+
+const options: { value: PaymentMethod; label: string; hint: string; icon: React.ReactNode }[] = [
+  { value: 'cash', label: 'Cash on Delivery', hint: 'Pay when your order arrives', icon: <Banknote className="h-4 w-4" /> },
+  { value: 'online', label: 'Pay Online', hint: 'UPI, cards and net banking', icon: <CreditCard className="h-4 w-4" /> },
+];
+
+const PaymentMethodSelector: React.FC<PaymentMethodSelectorProps> = ({ value, onChange }) => (
+  <RadioGroup value={value} onValueChange={(v) => onChange(v as PaymentMethod)} className="space-y-2">
+    {options.map((option) => (
+      <div
+        key={option.value}
+        className={`flex items-center gap-3 rounded-lg border p-3 cursor-pointer ${value === option.value ? 'border-primary bg-primary/5' : ''}`}
+        onClick={() => onChange(option.value)}
+      >
+        <RadioGroupItem value={option.value} id={`payment-${option.value}`} />
+        <Label htmlFor={`payment-${option.value}`} className="flex flex-1 items-center gap-2 cursor-pointer">
+          {option.icon}
+          <div>
+            <p className="font-medium">{option.label}</p>
+            <p className="text-xs font-normal text-muted-foreground">{option.hint}</p>
+          </div>
+        </Label>
+      </div>
+    ))}
+  </RadioGroup>
+);
+
+export default PaymentMethodSelector;
@@ -10,30 +10,14 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Plus, Clock, ChevronRight, Lock } from 'lucide-react';
-import { calculatePlatformMargin } from '@/lib/priceUtils';
+import { quoteListingPrice } from '@/lib/priceUtils';
 import { useCookAllocatedItemIds } from '@/hooks/useCookAllocatedItems';
 import { useLowestCookPrices } from '@/hooks/useLowestCookPrices';
 import { useActiveCloudKitchenSlotIds } from '@/hooks/useCloudKitchenSlots';
 
-// Helper to calculate customer display price (base + margin), using lowest cook price for homemade
-const getCustomerPrice = (item: FoodItemWithImages, lowestCookPrices?: Map<string, number | null>): number => {
-  const marginType = ((item as any).platform_margin_type || 'percent') as 'percent' | 'fixed';
-  const marginValue = (item as any).platform_margin_value || 0;
-  
-  let basePrice = item.price;
-  // For homemade items, use lowest cook price if available
-  const serviceTypes = (item as any).service_types || [];
-  const isHomemade = item.service_type === 'homemade' || serviceTypes.includes('homemade');
-  if (isHomemade && lowestCookPrices) {
-    const lowestPrice = lowestCookPrices.get(item.id);
-    if (lowestPrice !== undefined && lowestPrice !== null) {
-      basePrice = Math.min(basePrice, lowestPrice);
-    }
-  }
-  
-  const margin = calculatePlatformMargin(basePrice, marginType, marginValue);
-  return basePrice + margin;
-};
+// Customer display price, using lowest cook price for homemade
+const getCustomerPrice = (item: FoodItemWithImages, lowestCookPrices?: Map<string, number | null>): number =>
+  quoteListingPrice(item, lowestCookPrices).unitPrice;
 
 interface PopularItemsProps {
   serviceType: ServiceType;
@@ -119,7 +103,7 @@ const PopularItems: React.FC<PopularItemsProps> = ({
 
   const handleAddToCart = async (e: React.MouseEvent, item: FoodItemWithImages) => {
     e.stopPropagation();
-    requireAuth(() => addToCart(item.id));
+    addToCart(item.id);
   };
 
   const handleItemClick = (itemId: string) => {
@@ -0,0 +1,206 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, RotateCcw } from 'lucide-react';
+import { useCart } from '@/contexts/CartContext';
+import { useCooksForDishes } from '@/hooks/useCookDishes';
+import { useReorder } from '@/hooks/useReorder';
+import { describeModifiers } from '@/lib/modifiers';
+import { currentUnitPrice, type ReorderLine, type ReorderMenu, type ReorderStatus } from '@/lib/reorder';
+
+interface ReorderDialogProps {
+  orderId: string | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const statusConfig: Record<ReorderStatus, { label: string; color: string } | null> = {
+  ok: null,
+  price_changed: { label: 'Price changed', color: 'bg-yellow-100 text-yellow-800' },
+  unavailable: { label: 'Unavailable', color: 'bg-red-100 text-red-800' },
+  not_in_area: { label: 'Not in your area', color: 'bg-red-100 text-red-800' },
+  cook_unavailable: { label: 'Cook unavailable', color: 'bg-orange-100 text-orange-800' },
+};
+
+// Today's per-unit price of a line, with a replacement cook where one was picked
+const linePrice = (line: ReorderLine, menu: ReorderMenu, cookId: string | undefined): number | null => {
+  if (!cookId) return line.current_unit_price;
+  const dish = menu.dishes.get(line.food_item_id);
+  if (!dish) return null;
+  const cookDish = menu.cookDishes.find((cd) => cd.cook_id === cookId && cd.food_item_id === line.food_item_id) ?? null;
+  const groups = menu.modifierGroups.filter((group) => group.food_item_id === line.food_item_id && group.is_active);
+  return currentUnitPrice(dish, cookDish, groups, line.modifier_option_ids);
+};
+
+interface AlternativeCookSelectProps {
+  line: ReorderLine;
+  menu: ReorderMenu;
+  value: string | undefined;
+  onChange: (cookId: string) => void;
+}
+
+const AlternativeCookSelect: React.FC<AlternativeCookSelectProps> = ({ line, menu, value, onChange }) => {
+  const { data: cooks, isLoading } = useCooksForDishes([line.food_item_id]);
+
+  // Other cooks who make this dish and take orders now
+  const alternatives = (cooks || []).filter((cook) =>
+    cook.id !== line.cook_id &&
+    menu.cookDishes.some((cd) => cd.cook_id === cook.id && cd.food_item_id === line.food_item_id && cd.cook_available)
+  );
+
+  if (isLoading) return <Skeleton className="h-8 w-full" />;
+  if (alternatives.length === 0) {
+    return <p className="text-xs text-muted-foreground">No other cook makes this dish right now</p>;
+  }
+
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="h-8 text-xs">
+        <SelectValue placeholder="Choose another cook" />
+      </SelectTrigger>
+      <SelectContent>
+        {alternatives.map((cook) => (
+          <SelectItem key={cook.id} value={cook.id}>
+            {cook.kitchen_name}
+            {cook.rating ? ` · ★ ${Number(cook.rating).toFixed(1)}` : ''}
+            {` · ₹${linePrice(line, menu, cook.id)}`}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
+
+const ReorderDialog: React.FC<ReorderDialogProps> = ({ orderId, open, onOpenChange }) => {
+  const navigate = useNavigate();
+  const { addToCart } = useCart();
+  const { data, isLoading } = useReorder(open ? orderId ?? undefined : undefined);
+  const [replacementCooks, setReplacementCooks] = useState<Record<number, string>>({});
+  const [isAdding, setIsAdding] = useState(false);
+
+  useEffect(() => {
+    setReplacementCooks({});
+  }, [orderId]);
+
+  const lines = data?.lines || [];
+  const canAdd = (line: ReorderLine, index: number) =>
+    line.status === 'ok' || line.status === 'price_changed' ||
+    (line.status === 'cook_unavailable' && !!replacementCooks[index]);
+
+  const addable = lines.filter(canAdd);
+  const total = lines.reduce((sum, line, index) => {
+    if (!canAdd(line, index) || !data) return sum;
+    return sum + (linePrice(line, data.menu, replacementCooks[index]) ?? 0) * line.quantity;
+  }, 0);
+  const needsReview = lines.some((line) => line.status !== 'ok');
+
+  const handleAdd = async () => {
+    setIsAdding(true);
+    try {
+      // One at a time so each line sees the cart the previous one left
+      for (const [index, line] of lines.entries()) {
+        if (!canAdd(line, index)) continue;
+        await addToCart(
+          line.food_item_id,
+          line.quantity,
+          replacementCooks[index] ?? line.cook_id ?? undefined,
+          line.modifier_option_ids
+        );
+      }
+      onOpenChange(false);
+      navigate('/cart');
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <RotateCcw className="h-5 w-5 text-primary" />
+            Order Again
+          </DialogTitle>
+          <DialogDescription>
+            {needsReview
+              ? 'Some things have changed since this order. Review them before adding to your cart.'
+              : 'Everything is available at the same price.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="space-y-2">
+            {[1, 2].map((i) => (
+              <Skeleton key={i} className="h-14 w-full" />
+            ))}
+          </div>
+        ) : (
+          <div className="divide-y">
+            {lines.map((line, index) => {
+              const status = statusConfig[line.status];
+              const price = data ? linePrice(line, data.menu, replacementCooks[index]) : null;
+              const isGone = line.status === 'unavailable' || line.status === 'not_in_area';
+              const extras = describeModifiers(
+                line.modifiers.filter((m) => line.modifier_option_ids.includes(m.option_id))
+              );
+
+              return (
+                <div key={index} className="space-y-1 py-3">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className={isGone ? 'text-muted-foreground line-through' : ''}>
+                      <p className="text-sm font-medium">{line.name} × {line.quantity}</p>
+                      {extras && <p className="text-xs text-muted-foreground">{extras}</p>}
+                    </div>
+                    <div className="text-right text-sm">
+                      {status && <Badge className={`mb-1 ${status.color}`}>{status.label}</Badge>}
+                      {!isGone && price != null && (
+                        <p>
+                          {Math.abs(price - line.unit_price) > 0.005 && (
+                            <span className="mr-1 text-xs text-muted-foreground line-through">₹{line.unit_price}</span>
+                          )}
+                          ₹{price}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                  {line.dropped_modifiers.length > 0 && !isGone && (
+                    <p className="text-xs text-muted-foreground">
+                      No longer offered: {line.dropped_modifiers.map((m) => m.name).join(', ')}
+                    </p>
+                  )}
+                  {line.status === 'cook_unavailable' && data && (
+                    <AlternativeCookSelect
+                      line={line}
+                      menu={data.menu}
+                      value={replacementCooks[index]}
+                      onChange={(cookId) => setReplacementCooks((prev) => ({ ...prev, [index]: cookId }))}
+                    />
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <DialogFooter className="flex-col gap-2 sm:flex-col">
+          {addable.length > 0 && (
+            <p className="text-sm text-muted-foreground">
+              {addable.length} of {lines.length} items · ₹{total.toFixed(2)} today
+            </p>
+          )}
+          <Button className="w-full" disabled={isLoading || isAdding || addable.length === 0} onClick={handleAdd}>
+            {isAdding && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Add to Cart
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReorderDialog;
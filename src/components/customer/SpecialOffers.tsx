@@ -3,6 +3,8 @@ import { useQuery } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { Skeleton } from '@/components/ui/skeleton';
 import { useNavigate } from 'react-router-dom';
+import { toast } from '@/hooks/use-toast';
+import { PENDING_COUPON_KEY } from '@/components/customer/CouponInput';
 
 interface SpecialOffer {
   id: string;
@@ -12,6 +14,7 @@ interface SpecialOffer {
   background_color: string | null;
   link_url: string | null;
   display_order: number;
+  coupon: { code: string } | null;
 }
 
 const SpecialOffers: React.FC = () => {
@@ -22,7 +25,7 @@ const SpecialOffers: React.FC = () => {
     queryFn: async () => {
       const { data, error } = await supabase
         .from('special_offers')
-        .select('*')
+        .select('*, coupon:coupons(code)')
         .eq('is_active', true)
         .order('display_order', { ascending: true });
       
@@ -32,6 +35,15 @@ const SpecialOffers: React.FC = () => {
   });
 
   const handleOfferClick = (offer: SpecialOffer) => {
+    // Linked coupons are carried over to checkout
+    if (offer.coupon?.code) {
+      sessionStorage.setItem(PENDING_COUPON_KEY, offer.coupon.code);
+      toast({
+        title: `Coupon ${offer.coupon.code} saved`,
+        description: 'It will be applied at checkout',
+      });
+    }
+
     if (offer.link_url) {
       if (offer.link_url.startsWith('http')) {
         window.open(offer.link_url, '_blank');
@@ -83,6 +95,11 @@ const SpecialOffers: React.FC = () => {
                     {offer.subtitle}
                   </p>
                 )}
+                {offer.coupon?.code && (
+                  <p className="text-[9px] font-mono font-semibold leading-tight rounded bg-white/20 px-1 self-start">
+                    {offer.coupon.code}
+                  </p>
+                )}
               </div>
             )}
           </div>
@@ -0,0 +1,45 @@
+import React from 'react';
+import { Switch } from '@/components/ui/switch';
+import { Wallet } from 'lucide-react';
+
+interface WalletPaymentProps {
+  balance: number;
+  // Amount the wallet will cover when enabled
+  walletAmount: number;
+  amountDue: number;
+  enabled: boolean;
+  onToggle: (enabled: boolean) => void;
+}
+
+const WalletPayment: React.FC<WalletPaymentProps> = ({
+  balance,
+  walletAmount,
+  amountDue,
+  enabled,
+  onToggle,
+}) => {
+  if (balance <= 0) return null;
+
+  const remaining = Math.max(amountDue - walletAmount, 0);
+
+  return (
+    <div className="flex items-center justify-between gap-3">
+      <div className="flex items-center gap-2">
+        <Wallet className="h-4 w-4 text-primary" />
+        <div>
+          <p className="text-sm font-medium">Use wallet balance</p>
+          <p className="text-xs text-muted-foreground">
+            {enabled
+              ? remaining > 0
+                ? `₹${walletAmount.toFixed(2)} from wallet, ₹${remaining.toFixed(2)} to pay`
+                : 'Fully paid from wallet'
+              : `₹${balance.toFixed(2)} available`}
+          </p>
+        </div>
+      </div>
+      <Switch checked={enabled} onCheckedChange={onToggle} />
+    </div>
+  );
+};
+
+export default WalletPayment;
@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { toast } from '@/hooks/use-toast';
+import { useDeclareCashHandover, useMyCashClosings, useMyCashDue } from '@/hooks/useCashReconciliation';
+import { cashDue, describeCashVariance } from '@/lib/cashReconciliation';
+import { toDateKey } from '@/lib/scheduling';
+import { AlertTriangle, Banknote, Lock } from 'lucide-react';
+
+interface CashHandoverCardProps {
+  deliveryStaffId: string;
+}
+
+const formatDay = (dateKey: string) => format(new Date(`${dateKey}T00:00:00`), 'dd MMM');
+
+// Today's cash to hand over, and the partner's declaration for it
+const CashHandoverCard: React.FC<CashHandoverCardProps> = ({ deliveryStaffId }) => {
+  const today = toDateKey(new Date());
+  const [amount, setAmount] = useState('');
+  const [note, setNote] = useState('');
+
+  const { data: closings } = useMyCashClosings(deliveryStaffId);
+  const todayClosing = closings?.find(c => c.business_date === today);
+  const isClosed = todayClosing?.status === 'closed';
+  const { data: due } = useMyCashDue(today, !!closings && !isClosed);
+  const declareHandover = useDeclareCashHandover();
+
+  const earlierPending = closings?.find(c => c.status === 'declared' && c.business_date !== today);
+  const lastFlagged = closings?.find(c => c.status === 'closed' && c.is_flagged);
+  const totalDue = due ? cashDue(due) : 0;
+
+  const handleDeclare = async () => {
+    try {
+      await declareHandover.mutateAsync({ businessDate: today, amount: parseFloat(amount), note: note.trim() });
+      toast({ title: 'Cash handover declared', description: 'An admin will verify it when you deposit.' });
+      setAmount('');
+      setNote('');
+    } catch (error) {
+      toast({ title: 'Could not declare cash', description: (error as Error).message, variant: 'destructive' });
+    }
+  };
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Banknote className="h-5 w-5 text-primary" />
+            <span className="font-semibold">Today's Cash</span>
+          </div>
+          {todayClosing && (
+            <Badge variant={isClosed ? 'default' : 'secondary'}>
+              {isClosed && <Lock className="h-3 w-3 mr-1" />}
+              {isClosed ? 'Closed' : 'Awaiting deposit'}
+            </Badge>
+          )}
+        </div>
+
+        {isClosed ? (
+          <p className="text-sm text-muted-foreground">
+            Deposited ₹{todayClosing.deposited_amount?.toLocaleString() || 0}
+            {todayClosing.outstanding_amount ? ` · ₹${todayClosing.outstanding_amount.toLocaleString()} carried forward` : ''}
+          </p>
+        ) : (
+          <>
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <p className="text-xs text-muted-foreground">From deliveries</p>
+                <p className="text-lg font-bold">₹{due?.expected_amount.toLocaleString() || 0}</p>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">Carried in</p>
+                <p className="text-lg font-bold">₹{due?.carried_forward.toLocaleString() || 0}</p>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">To hand over</p>
+                <p className="text-lg font-bold text-blue-600">₹{totalDue.toLocaleString()}</p>
+              </div>
+            </div>
+
+            {todayClosing?.declared_amount != null && (
+              <p className="text-sm text-muted-foreground">
+                You declared ₹{todayClosing.declared_amount.toLocaleString()}
+                {describeCashVariance(totalDue, todayClosing.declared_amount) &&
+                  ` (${describeCashVariance(totalDue, todayClosing.declared_amount)})`}
+              </p>
+            )}
+
+            {earlierPending ? (
+              <p className="text-sm text-yellow-700">
+                Your handover for {formatDay(earlierPending.business_date)} is still awaiting verification.
+              </p>
+            ) : (
+              <div className="space-y-2">
+                <div className="flex gap-2">
+                  <Input
+                    type="number"
+                    min={0}
+                    placeholder={`Cash handed over (₹${totalDue})`}
+                    value={amount}
+                    onChange={(e) => setAmount(e.target.value)}
+                  />
+                  <Button
+                    onClick={handleDeclare}
+                    disabled={amount === '' || parseFloat(amount) < 0 || declareHandover.isPending}
+                  >
+                    {todayClosing ? 'Update' : 'Declare'}
+                  </Button>
+                </div>
+                {amount !== '' && describeCashVariance(totalDue, parseFloat(amount)) && (
+                  <Input
+                    placeholder="Reason for the difference"
+                    value={note}
+                    onChange={(e) => setNote(e.target.value)}
+                  />
+                )}
+              </div>
+            )}
+          </>
+        )}
+
+        {lastFlagged && (
+          <p className="flex items-center gap-1 text-xs text-red-600">
+            <AlertTriangle className="h-3 w-3" />
+            {formatDay(lastFlagged.business_date)} was closed with a difference
+            {lastFlagged.outstanding_amount ? ` of ₹${Math.abs(lastFlagged.outstanding_amount).toLocaleString()}` : ''}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CashHandoverCard;
@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import { CheckCircle2, KeyRound, Loader2 } from 'lucide-react';
+import ImageUpload from '@/components/admin/ImageUpload';
+import { HANDOVER_CODE_LENGTH } from '@/lib/deliveryProof';
+
+interface HandoverDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  orderId: string;
+  orderNumber: string;
+  isSubmitting: boolean;
+  // photoPath is the doorstep photo's path in the private delivery-proofs bucket
+  onConfirm: (handoverCode: string, photoPath: string | null) => void;
+}
+
+// Collects the customer's handover code and an optional doorstep photo
+const HandoverDialog: React.FC<HandoverDialogProps> = ({
+  open,
+  onOpenChange,
+  orderId,
+  orderNumber,
+  isSubmitting,
+  onConfirm,
+}) => {
+  const [code, setCode] = useState('');
+  const [photoPath, setPhotoPath] = useState<string | null>(null);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <KeyRound className="h-5 w-5" />
+            Hand Over #{orderNumber}
+          </DialogTitle>
+          <DialogDescription>Ask the customer for the {HANDOVER_CODE_LENGTH} digit code shown on their order</DialogDescription>
+        </DialogHeader>
+
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (code.length === HANDOVER_CODE_LENGTH) onConfirm(code, photoPath);
+          }}
+        >
+          <div className="flex justify-center">
+            <InputOTP
+              maxLength={HANDOVER_CODE_LENGTH}
+              value={code}
+              onChange={setCode}
+              autoFocus
+              inputMode="numeric"
+              pattern="^[0-9]*$"
+            >
+              <InputOTPGroup>
+                {Array.from({ length: HANDOVER_CODE_LENGTH }, (_, index) => (
+                  <InputOTPSlot key={index} index={index} />
+                ))}
+              </InputOTPGroup>
+            </InputOTP>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Doorstep photo (optional)</Label>
+            <ImageUpload
+              bucket="delivery-proofs"
+              folder={orderId}
+              privateBucket
+              onUploadComplete={setPhotoPath}
+              onRemove={() => setPhotoPath(null)}
+              capture="environment"
+            />
+          </div>
+
+          <Button type="submit" className="w-full" disabled={isSubmitting || code.length !== HANDOVER_CODE_LENGTH}>
+            {isSubmitting ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <CheckCircle2 className="mr-2 h-4 w-4" />
+            )}
+            Confirm Delivery
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default HandoverDialog;
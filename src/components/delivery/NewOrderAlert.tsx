@@ -18,6 +18,8 @@ interface NewOrderAlertProps {
   open: boolean;
   orders: PendingDeliveryOrder[];
   onAccept: (orderId: string) => void;
+  // Pass the offer on to the next ranked partner
+  onDecline?: (orderId: string) => void;
   onDismiss: () => void;
   isAccepting: boolean;
   cutoffSeconds: number;
@@ -27,6 +29,7 @@ const NewOrderAlert: React.FC<NewOrderAlertProps> = ({
   open,
   orders,
   onAccept,
+  onDecline,
   onDismiss,
   isAccepting,
   cutoffSeconds,
@@ -125,15 +128,27 @@ const NewOrderAlert: React.FC<NewOrderAlertProps> = ({
                   </div>
 
                   {/* Accept Button */}
-                  <Button 
-                    className="w-full bg-gradient-to-r from-emerald-500 via-teal-500 to-cyan-600 hover:from-emerald-600 hover:via-teal-600 hover:to-cyan-700 text-white shadow-lg shadow-emerald-500/25 border-0 text-base font-semibold" 
-                    size="lg"
-                    onClick={() => onAccept(order.id)}
-                    disabled={isAccepting}
-                  >
-                    <Bike className="h-5 w-5 mr-2" />
-                    🏍️ Accept Delivery
-                  </Button>
+                  <div className="flex gap-2">
+                    {onDecline && (
+                      <Button
+                        variant="outline"
+                        size="lg"
+                        onClick={() => onDecline(order.id)}
+                        disabled={isAccepting}
+                      >
+                        Pass
+                      </Button>
+                    )}
+                    <Button 
+                      className="flex-1 bg-gradient-to-r from-emerald-500 via-teal-500 to-cyan-600 hover:from-emerald-600 hover:via-teal-600 hover:to-cyan-700 text-white shadow-lg shadow-emerald-500/25 border-0 text-base font-semibold" 
+                      size="lg"
+                      onClick={() => onAccept(order.id)}
+                      disabled={isAccepting}
+                    >
+                      <Bike className="h-5 w-5 mr-2" />
+                      🏍️ Accept Delivery
+                    </Button>
+                  </div>
                 </CardContent>
               </Card>
             );
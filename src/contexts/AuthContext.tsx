@@ -12,13 +12,40 @@ interface AuthContextType {
   // Staff auth (with password)
   signIn: (mobileNumber: string, password: string) => Promise<{ error: Error | null }>;
   signUp: (mobileNumber: string, password: string, name: string, panchayatId: string, wardNumber: number) => Promise<{ error: Error | null }>;
-  // Customer auth (passwordless)
-  customerSignIn: (mobileNumber: string) => Promise<{ error: Error | null }>;
-  customerSignUp: (mobileNumber: string, name: string, panchayatId: string, wardNumber: number) => Promise<{ error: Error | null }>;
+  // Customer auth (one-time code sent by SMS)
+  requestCustomerOtp: (mobileNumber: string) => Promise<{ error: Error | null; retryAfter?: number }>;
+  verifyCustomerOtp: (
+    mobileNumber: string,
+    code: string,
+    options?: CustomerOtpOptions
+  ) => Promise<{ error: Error | null; needsSignup?: boolean }>;
   signOut: () => Promise<void>;
   refreshProfile: () => Promise<void>;
 }
 
+export interface CustomerSignupDetails {
+  name: string;
+  panchayatId: string;
+  wardNumber: number;
+}
+
+export interface CustomerOtpOptions {
+  // Creates the account when the number has none
+  signup?: CustomerSignupDetails;
+  // Cooks and delivery staff browsing as customers; their account comes from the staff record
+  staffQuickAccess?: boolean;
+}
+
+// The customer-auth edge function reports failures as { error } with a non-2xx status
+const invokeCustomerAuth = async <T,>(body: Record<string, unknown>): Promise<{ data: T | null; error: (Error & { details?: Record<string, unknown> }) | null }> => {
+  const { data, error } = await supabase.functions.invoke('customer-auth', { body });
+  if (error) {
+    const details = await (error as { context?: Response }).context?.json?.().catch(() => null);
+    return { data: null, error: Object.assign(new Error(details?.error || error.message), { details }) };
+  }
+  return { data: data as T, error: null };
+};
+
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export const useAuth = () => {
@@ -175,120 +202,43 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
-  // Customer passwordless sign in - uses mobile number as identifier
-  const customerSignIn = async (mobileNumber: string) => {
-    try {
-      // Check if customer exists in profiles
-      const { data: profileData, error: profileError } = await supabase
-        .from('profiles')
-        .select('user_id')
-        .eq('mobile_number', mobileNumber)
-        .maybeSingle();
-
-      if (profileError) {
-        return { error: new Error(profileError.message) };
-      }
-
-      if (!profileData) {
-        return { error: new Error('Customer not found. Please register first.') };
-      }
-
-      // Check if user has a non-customer role (staff account)
-      const { data: roleData } = await supabase
-        .from('user_roles')
-        .select('role')
-        .eq('user_id', profileData.user_id)
-        .maybeSingle();
-
-      if (roleData && roleData.role !== 'customer') {
-        return { error: new Error('This account is registered as staff. Please use the Staff Login page.') };
-      }
-
-      // Try customer email pattern first (new passwordless format)
-      const customerEmail = `${mobileNumber}@customer.pennycarbs.app`;
-      const customerPassword = `PC_CUSTOMER_${mobileNumber}`;
-
-      const { error: customerError } = await supabase.auth.signInWithPassword({
-        email: customerEmail,
-        password: customerPassword,
-      });
-
-      if (!customerError) {
-        return { error: null };
-      }
-
-      // Try legacy staff email pattern (for customers who registered via old flow)
-      const staffEmail = `${mobileNumber}@pennycarbs.app`;
-      const { error: staffError } = await supabase.auth.signInWithPassword({
-        email: staffEmail,
-        password: customerPassword,
-      });
-
-      if (!staffError) {
-        return { error: null };
-      }
-
-      // Both patterns failed - user needs to enter password manually or reset
-      return { error: new Error('Unable to sign in automatically. This account may require a password. Please use Staff Login or contact support.') };
-    } catch (error) {
-      return { error: error as Error };
+  // Text a login code to the number; retryAfter is set when asked again too soon
+  const requestCustomerOtp = async (mobileNumber: string) => {
+    const { error } = await invokeCustomerAuth({ action: 'request_otp', mobile_number: mobileNumber });
+    if (error) {
+      const retryAfter = error.details?.retry_after;
+      return { error, retryAfter: typeof retryAfter === 'number' ? retryAfter : undefined };
     }
+    return { error: null };
   };
 
-  // Customer passwordless sign up
-  const customerSignUp = async (
-    mobileNumber: string,
-    name: string,
-    panchayatId: string,
-    wardNumber: number
-  ) => {
+  // Check the code and sign in. needsSignup means the number has no account yet;
+  // the same code can then be verified again with signup details.
+  const verifyCustomerOtp = async (mobileNumber: string, code: string, options: CustomerOtpOptions = {}) => {
     try {
-      // Check if mobile already exists
-      const { data: existingProfile } = await supabase
-        .from('profiles')
-        .select('id')
-        .eq('mobile_number', mobileNumber)
-        .maybeSingle();
-
-      if (existingProfile) {
-        return { error: new Error('An account with this mobile number already exists. Please login.') };
-      }
-
-      // Use mobile number as email and auto-generate password
-      const email = `${mobileNumber}@customer.pennycarbs.app`;
-      const password = `PC_CUSTOMER_${mobileNumber}`;
-      const redirectUrl = `${window.location.origin}/`;
-
-      const { data: authData, error: authError } = await supabase.auth.signUp({
-        email,
-        password,
-        options: {
-          emailRedirectTo: redirectUrl,
+      const { data, error } = await invokeCustomerAuth<{ token_hash: string }>({
+        action: 'verify_otp',
+        mobile_number: mobileNumber,
+        code,
+        signup: options.signup && {
+          name: options.signup.name,
+          panchayat_id: options.signup.panchayatId,
+          ward_number: options.signup.wardNumber,
         },
+        staff_quick_access: options.staffQuickAccess ?? false,
       });
 
-      if (authError) {
-        return { error: new Error(authError.message) };
+      if (error) {
+        return { error, needsSignup: error.details?.needs_signup === true };
       }
 
-      if (authData.user) {
-        // Create profile
-        const { error: profileError } = await supabase
-          .from('profiles')
-          .insert({
-            user_id: authData.user.id,
-            name,
-            mobile_number: mobileNumber,
-            panchayat_id: panchayatId,
-            ward_number: wardNumber,
-          });
-
-        if (profileError) {
-          console.error('Profile creation error:', profileError);
-          return { error: new Error('Failed to create profile. Please try again.') };
-        }
+      const { error: sessionError } = await supabase.auth.verifyOtp({
+        token_hash: data!.token_hash,
+        type: 'magiclink',
+      });
 
-        // Role is auto-assigned by database trigger
+      if (sessionError) {
+        return { error: new Error(sessionError.message) };
       }
 
       return { error: null };
@@ -319,8 +269,8 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         isLoading,
         signIn,
         signUp,
-        customerSignIn,
-        customerSignUp,
+        requestCustomerOtp,
+        verifyCustomerOtp,
         signOut,
         refreshProfile,
       }}
@@ -3,11 +3,24 @@ import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from './AuthContext';
 import type { CartItem, FoodItemWithImages } from '@/types/database';
 import { toast } from '@/hooks/use-toast';
-import { calculatePlatformMargin } from '@/lib/priceUtils';
+import { computeOrderQuote } from '@/lib/priceUtils';
+import { loadGuestCart, saveGuestCart, clearGuestCart, planCartMerge, type GuestCartLine } from '@/lib/guestCart';
+import {
+  defaultModifierSelection,
+  modifierKey,
+  priceModifiers,
+  type ModifierGroup,
+  type ModifierPriceOverrides,
+  type SelectedModifier,
+} from '@/lib/modifiers';
 
 interface CartItemWithCook extends CartItem {
   selected_cook_id?: string | null;
   cook_custom_price?: number | null;
+  modifier_option_ids: string[];
+  modifiers: SelectedModifier[];
+  // Per unit, at the selected cook's prices where set
+  modifier_price: number;
 }
 
 interface CartContextType {
@@ -15,11 +28,19 @@ interface CartContextType {
   isLoading: boolean;
   itemCount: number;
   totalAmount: number;
-  addToCart: (foodItemId: string, quantity?: number, selectedCookId?: string | null) => Promise<void>;
+  // Without modifierOptionIds the dish's default modifiers are used
+  addToCart: (
+    foodItemId: string,
+    quantity?: number,
+    selectedCookId?: string | null,
+    modifierOptionIds?: string[]
+  ) => Promise<void>;
   updateQuantity: (cartItemId: string, quantity: number) => Promise<void>;
   removeFromCart: (cartItemId: string) => Promise<void>;
   clearCart: () => Promise<void>;
   refreshCart: () => Promise<void>;
+  // Move the cart built while logged out into the customer's cart
+  mergeGuestCart: () => Promise<void>;
 }
 
 const CartContext = createContext<CartContextType | undefined>(undefined);
@@ -37,14 +58,105 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const [items, setItems] = useState<CartItemWithCook[]>([]);
   const [isLoading, setIsLoading] = useState(false);
 
-  const fetchCart = async () => {
-    if (!user) {
+  // Attach cook custom prices and modifier prices to cart lines
+  const withPrices = async (cartItems: CartItemWithCook[]) => {
+    const itemsWithCook = cartItems.filter(ci => ci.selected_cook_id);
+    const optionIds = [...new Set(cartItems.flatMap(ci => ci.modifier_option_ids))];
+
+    const cookPrices = new Map<string, { custom_price: number | null; modifier_prices: ModifierPriceOverrides }>();
+    if (itemsWithCook.length > 0) {
+      const cookIds = [...new Set(itemsWithCook.map(ci => ci.selected_cook_id!))];
+      const foodItemIds = [...new Set(itemsWithCook.map(ci => ci.food_item_id))];
+      const { data: cookDishes } = await supabase
+        .from('cook_dishes')
+        .select('cook_id, food_item_id, custom_price, modifier_prices')
+        .in('cook_id', cookIds)
+        .in('food_item_id', foodItemIds);
+
+      (cookDishes || []).forEach(cd => {
+        cookPrices.set(`${cd.cook_id}_${cd.food_item_id}`, {
+          custom_price: cd.custom_price,
+          modifier_prices: (cd.modifier_prices || {}) as ModifierPriceOverrides,
+        });
+      });
+    }
+
+    // Chosen options grouped back into their modifier groups for pricing
+    let modifierGroups: ModifierGroup[] = [];
+    if (optionIds.length > 0) {
+      const { data: options } = await supabase
+        .from('modifier_options')
+        .select('*, group:modifier_groups(*)')
+        .in('id', optionIds);
+
+      const groupMap = new Map<string, ModifierGroup>();
+      (options || []).forEach(({ group, ...option }) => {
+        if (!group) return;
+        const entry = groupMap.get(group.id) ?? { ...(group as Omit<ModifierGroup, 'options'>), options: [] };
+        entry.options.push(option as ModifierGroup['options'][number]);
+        groupMap.set(group.id, entry);
+      });
+      modifierGroups = [...groupMap.values()].sort((a, b) => a.display_order - b.display_order);
+    }
+
+    return cartItems.map(ci => {
+      const cookPrice = ci.selected_cook_id ? cookPrices.get(`${ci.selected_cook_id}_${ci.food_item_id}`) : undefined;
+      const { price, modifiers } = priceModifiers(
+        modifierGroups.filter(group => group.food_item_id === ci.food_item_id),
+        ci.modifier_option_ids,
+        cookPrice?.modifier_prices
+      );
+      return {
+        ...ci,
+        cook_custom_price: cookPrice?.custom_price ?? null,
+        modifiers,
+        modifier_price: price,
+      };
+    });
+  };
+
+  // Guest lines from localStorage, with their food items loaded like cart_items rows
+  const fetchGuestCart = async () => {
+    const lines = loadGuestCart();
+    if (lines.length === 0) {
       setItems([]);
       return;
     }
 
+    const { data, error } = await supabase
+      .from('food_items')
+      .select('*, images:food_item_images(*)')
+      .in('id', lines.map(line => line.food_item_id));
+
+    if (error) {
+      console.error('Error fetching guest cart:', error);
+      return;
+    }
+
+    const foodItems = new Map((data || []).map(item => [item.id, item as FoodItemWithImages]));
+    const cartItems: CartItemWithCook[] = lines
+      .filter(line => foodItems.has(line.food_item_id))
+      .map(line => ({
+        ...line,
+        user_id: '',
+        modifier_option_ids: line.modifier_option_ids || [],
+        food_item: foodItems.get(line.food_item_id),
+        cook_custom_price: null,
+        modifiers: [],
+        modifier_price: 0,
+      }));
+
+    setItems(await withPrices(cartItems));
+  };
+
+  const fetchCart = async (userId = user?.id) => {
     setIsLoading(true);
     try {
+      if (!userId) {
+        await fetchGuestCart();
+        return;
+      }
+
       const { data, error } = await supabase
         .from('cart_items')
         .select(`
@@ -54,14 +166,14 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
             images:food_item_images(*)
           )
         `)
-        .eq('user_id', user.id);
+        .eq('user_id', userId);
 
       if (error) {
         console.error('Error fetching cart:', error);
         return;
       }
 
-      let cartItems: CartItemWithCook[] = (data || []).map(item => ({
+      const cartItems: CartItemWithCook[] = (data || []).map(item => ({
         id: item.id,
         user_id: item.user_id,
         food_item_id: item.food_item_id,
@@ -71,34 +183,12 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
         food_item: item.food_item as FoodItemWithImages,
         selected_cook_id: item.selected_cook_id,
         cook_custom_price: null,
+        modifier_option_ids: item.modifier_option_ids || [],
+        modifiers: [],
+        modifier_price: 0,
       }));
 
-      // Fetch cook custom prices for items with selected_cook_id
-      const itemsWithCook = cartItems.filter(ci => ci.selected_cook_id);
-      if (itemsWithCook.length > 0) {
-        const cookIds = [...new Set(itemsWithCook.map(ci => ci.selected_cook_id!))];
-        const foodItemIds = [...new Set(itemsWithCook.map(ci => ci.food_item_id))];
-        const { data: cookDishes } = await supabase
-          .from('cook_dishes')
-          .select('cook_id, food_item_id, custom_price')
-          .in('cook_id', cookIds)
-          .in('food_item_id', foodItemIds);
-
-        if (cookDishes) {
-          const priceMap = new Map<string, number | null>();
-          cookDishes.forEach(cd => {
-            priceMap.set(`${cd.cook_id}_${cd.food_item_id}`, cd.custom_price);
-          });
-          cartItems = cartItems.map(ci => ({
-            ...ci,
-            cook_custom_price: ci.selected_cook_id
-              ? priceMap.get(`${ci.selected_cook_id}_${ci.food_item_id}`) ?? null
-              : null,
-          }));
-        }
-      }
-
-      setItems(cartItems);
+      setItems(await withPrices(cartItems));
     } catch (error) {
       console.error('Error in fetchCart:', error);
     } finally {
@@ -110,19 +200,63 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
     fetchCart();
   }, [user]);
 
-  const addToCart = async (foodItemId: string, quantity = 1, selectedCookId?: string | null) => {
+  // Quick adds from listings take the dish's default modifiers
+  const resolveModifiers = async (foodItemId: string, modifierOptionIds?: string[]) => {
+    if (modifierOptionIds) return modifierOptionIds;
+
+    const { data } = await supabase
+      .from('modifier_groups')
+      .select('*, options:modifier_options(*)')
+      .eq('food_item_id', foodItemId)
+      .eq('is_active', true);
+
+    return defaultModifierSelection((data || []) as unknown as ModifierGroup[]);
+  };
+
+  const addToCart = async (
+    foodItemId: string,
+    quantity = 1,
+    selectedCookId?: string | null,
+    modifierOptionIds?: string[]
+  ) => {
+    const optionIds = await resolveModifiers(foodItemId, modifierOptionIds);
+    const sameLine = (line: { food_item_id: string; modifier_option_ids?: string[] | null }) =>
+      line.food_item_id === foodItemId && modifierKey(line.modifier_option_ids) === modifierKey(optionIds);
+
     if (!user) {
+      const lines = loadGuestCart();
+      const now = new Date().toISOString();
+      const existing = lines.find(sameLine);
+
+      if (existing) {
+        existing.quantity += quantity;
+        if (selectedCookId !== undefined) existing.selected_cook_id = selectedCookId;
+        existing.updated_at = now;
+      } else {
+        lines.push({
+          id: crypto.randomUUID(),
+          food_item_id: foodItemId,
+          quantity,
+          selected_cook_id: selectedCookId || null,
+          modifier_option_ids: optionIds,
+          created_at: now,
+          updated_at: now,
+        });
+      }
+      saveGuestCart(lines);
+
       toast({
-        title: "Please log in",
-        description: "You need to be logged in to add items to cart",
-        variant: "destructive",
+        title: existing ? "Updated cart" : "Added to cart",
+        description: existing ? "Item quantity updated" : "Item has been added to your cart",
       });
+
+      await fetchCart();
       return;
     }
 
     try {
       // Check if item already exists in cart
-      const existingItem = items.find(item => item.food_item_id === foodItemId);
+      const existingItem = items.find(sameLine);
 
       if (existingItem) {
         // Update quantity and cook selection if provided
@@ -151,6 +285,7 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
             food_item_id: foodItemId,
             quantity,
             selected_cook_id: selectedCookId || null,
+            modifier_option_ids: optionIds,
           });
 
         if (error) {
@@ -181,13 +316,19 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
 
     try {
-      const { error } = await supabase
-        .from('cart_items')
-        .update({ quantity })
-        .eq('id', cartItemId);
+      if (!user) {
+        saveGuestCart(loadGuestCart().map((line: GuestCartLine) =>
+          line.id === cartItemId ? { ...line, quantity, updated_at: new Date().toISOString() } : line
+        ));
+      } else {
+        const { error } = await supabase
+          .from('cart_items')
+          .update({ quantity })
+          .eq('id', cartItemId);
 
-      if (error) {
-        throw error;
+        if (error) {
+          throw error;
+        }
       }
 
       setItems(prev =>
@@ -207,13 +348,17 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
   const removeFromCart = async (cartItemId: string) => {
     try {
-      const { error } = await supabase
-        .from('cart_items')
-        .delete()
-        .eq('id', cartItemId);
+      if (!user) {
+        saveGuestCart(loadGuestCart().filter(line => line.id !== cartItemId));
+      } else {
+        const { error } = await supabase
+          .from('cart_items')
+          .delete()
+          .eq('id', cartItemId);
 
-      if (error) {
-        throw error;
+        if (error) {
+          throw error;
+        }
       }
 
       setItems(prev => prev.filter(item => item.id !== cartItemId));
@@ -233,7 +378,11 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
   };
 
   const clearCart = async () => {
-    if (!user) return;
+    if (!user) {
+      saveGuestCart([]);
+      setItems([]);
+      return;
+    }
 
     try {
       const { error } = await supabase
@@ -251,17 +400,101 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
+  /**
+   * Merge the guest cart into the signed-in customer's cart. Dishes that are
+   * no longer available in the customer's panchayat are dropped. The guest
+   * cart is kept until the merge has been saved, so a failed one can be retried
+   * on the next sign-in.
+   */
+  const mergeGuestCart = async () => {
+    // Called straight after sign-in, before this provider sees the new user
+    const { data: { user: signedInUser } } = await supabase.auth.getUser();
+    if (!signedInUser) return;
+
+    const guestLines = loadGuestCart();
+    if (guestLines.length === 0) {
+      await fetchCart(signedInUser.id);
+      return;
+    }
+
+    try {
+      const [
+        { data: profileData, error: profileError },
+        { data: foodItems, error: foodItemsError },
+        { data: serverLines, error: serverLinesError },
+      ] = await Promise.all([
+        supabase.from('profiles').select('panchayat_id').eq('user_id', signedInUser.id).maybeSingle(),
+        supabase
+          .from('food_items')
+          .select('id, is_available, available_all_panchayats, available_panchayat_ids')
+          .in('id', guestLines.map(line => line.food_item_id)),
+        supabase
+          .from('cart_items')
+          .select('id, food_item_id, quantity, selected_cook_id, modifier_option_ids')
+          .eq('user_id', signedInUser.id),
+      ]);
+      if (profileError) throw profileError;
+      if (foodItemsError) throw foodItemsError;
+      if (serverLinesError) throw serverLinesError;
+
+      const panchayatId = profileData?.panchayat_id;
+      const available = new Set(
+        (foodItems || [])
+          .filter(fi => fi.is_available && (
+            fi.available_all_panchayats
+            || !panchayatId
+            || (fi.available_panchayat_ids || []).includes(panchayatId)
+          ))
+          .map(fi => fi.id)
+      );
+      const keptLines = guestLines.filter(line => available.has(line.food_item_id));
+      const plan = planCartMerge(serverLines || [], keptLines);
+
+      for (const update of plan.updates) {
+        const { id, ...changes } = update;
+        const { error } = await supabase.from('cart_items').update(changes).eq('id', id);
+        if (error) throw error;
+      }
+      if (plan.inserts.length > 0) {
+        const { error } = await supabase
+          .from('cart_items')
+          .insert(plan.inserts.map(line => ({ ...line, user_id: signedInUser.id })));
+        if (error) throw error;
+      }
+      clearGuestCart();
+
+      const dropped = guestLines.length - keptLines.length;
+      if (dropped > 0) {
+        toast({
+          title: "Some items were removed",
+          description: `${dropped} item${dropped > 1 ? 's are' : ' is'} not available in your area`,
+        });
+      }
+    } catch (error) {
+      console.error('Error merging guest cart:', error);
+      toast({
+        title: "Error",
+        description: "Failed to restore the items you added before logging in",
+        variant: "destructive",
+      });
+    }
+
+    await fetchCart(signedInUser.id);
+  };
+
   const itemCount = items.reduce((sum, item) => sum + item.quantity, 0);
   
-  const totalAmount = items.reduce((sum, item) => {
-    // Use cook's custom price if available, otherwise base price
-    const effectiveBasePrice = item.cook_custom_price ?? item.food_item?.price ?? 0;
-    const marginType = (item.food_item?.platform_margin_type || 'percent') as 'percent' | 'fixed';
-    const marginValue = item.food_item?.platform_margin_value || 0;
-    const margin = calculatePlatformMargin(effectiveBasePrice, marginType, marginValue);
-    const customerPrice = effectiveBasePrice + margin;
-    return sum + (customerPrice * item.quantity);
-  }, 0);
+  // Display total only; checkout charges the server quote
+  const totalAmount = computeOrderQuote(
+    items
+      .filter(item => item.food_item)
+      .map(item => ({
+        item: item.food_item!,
+        quantity: item.quantity,
+        cookCustomPrice: item.cook_custom_price,
+        modifierPrice: item.modifier_price,
+      }))
+  ).subtotal;
 
   return (
     <CartContext.Provider
@@ -274,7 +507,8 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
         updateQuantity,
         removeFromCart,
         clearCart,
-        refreshCart: fetchCart,
+        refreshCart: () => fetchCart(),
+        mergeGuestCart,
       }}
     >
       {children}
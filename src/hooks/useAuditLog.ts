@@ -0,0 +1,80 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { AuditEntry } from '@/lib/auditLog';
+
+export interface AuditLogFilters {
+  actorId: string;
+  tableName: string;
+  // yyyy-MM-dd, inclusive
+  fromDate: string;
+  toDate: string;
+}
+
+export interface AuditActor {
+  actor_id: string;
+  name: string | null;
+  mobile_number: string | null;
+}
+
+export const AUDIT_LOG_PAGE_SIZE = 200;
+
+export function useAuditActors(enabled = true) {
+  return useQuery({
+    queryKey: ['audit-actors'],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_audit_actors');
+      if (error) throw error;
+      return (data || []) as AuditActor[];
+    },
+    enabled,
+  });
+}
+
+// Latest entries matching the filters, newest first
+export function useAuditLog(filters: AuditLogFilters) {
+  return useQuery({
+    queryKey: ['audit-log', filters],
+    queryFn: async () => {
+      let query = supabase
+        .from('audit_log')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(AUDIT_LOG_PAGE_SIZE);
+
+      if (filters.actorId !== 'all') {
+        query = query.eq('actor_id', filters.actorId);
+      }
+      if (filters.tableName !== 'all') {
+        query = query.eq('table_name', filters.tableName);
+      }
+      if (filters.fromDate) {
+        query = query.gte('created_at', new Date(`${filters.fromDate}T00:00:00`).toISOString());
+      }
+      if (filters.toDate) {
+        query = query.lte('created_at', new Date(`${filters.toDate}T23:59:59.999`).toISOString());
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return data as unknown as AuditEntry[];
+    },
+  });
+}
+
+// Every logged change to one row, newest first
+export function useRecordHistory(tableName: string, recordId: string | undefined, enabled = true) {
+  return useQuery({
+    queryKey: ['audit-log', 'record', tableName, recordId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('audit_log')
+        .select('*')
+        .eq('table_name', tableName)
+        .eq('record_id', recordId!)
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      return data as unknown as AuditEntry[];
+    },
+    enabled: !!recordId && enabled,
+  });
+}
@@ -0,0 +1,143 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import type { OrderStatus, ServiceType } from '@/types/database';
+
+export interface CancellationPolicy {
+  id: string;
+  service_type: ServiceType;
+  name: string;
+  description: string | null;
+  // null covers every status
+  order_statuses: OrderStatus[] | null;
+  // Indoor events: applies this many days or more before event_date
+  min_days_before_event: number | null;
+  allow_cancellation: boolean;
+  fee_percent: number;
+  forfeit_advance: boolean;
+  display_order: number;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CancellationPolicyInput {
+  service_type: ServiceType;
+  name: string;
+  description?: string | null;
+  order_statuses?: OrderStatus[] | null;
+  min_days_before_event?: number | null;
+  allow_cancellation?: boolean;
+  fee_percent?: number;
+  forfeit_advance?: boolean;
+  display_order?: number;
+  is_active?: boolean;
+}
+
+export interface CancellationTerms {
+  allowed: boolean;
+  fee: number;
+  refund: number;
+  policy_name: string | null;
+  description: string | null;
+}
+
+export const useCancellationPolicies = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: policies, isLoading } = useQuery({
+    queryKey: ['cancellation-policies'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('cancellation_policies')
+        .select('*')
+        .order('service_type')
+        .order('display_order');
+
+      if (error) throw error;
+      return data as CancellationPolicy[];
+    },
+  });
+
+  const createPolicy = useMutation({
+    mutationFn: async (policy: CancellationPolicyInput) => {
+      const { data, error } = await supabase
+        .from('cancellation_policies')
+        .insert(policy)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['cancellation-policies'] });
+      toast({ title: 'Policy Created' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const updatePolicy = useMutation({
+    mutationFn: async ({ id, ...updates }: Partial<CancellationPolicyInput> & { id: string }) => {
+      const { data, error } = await supabase
+        .from('cancellation_policies')
+        .update(updates)
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['cancellation-policies'] });
+      toast({ title: 'Policy Updated' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const deletePolicy = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('cancellation_policies')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['cancellation-policies'] });
+      toast({ title: 'Policy Deleted' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  return {
+    policies: policies || [],
+    isLoading,
+    createPolicy,
+    updatePolicy,
+    deletePolicy,
+  };
+};
+
+// What cancelling the order now would cost, per the matching policy
+export const useCancellationTerms = (orderId: string | undefined, status: OrderStatus | undefined) => {
+  return useQuery({
+    queryKey: ['cancellation-terms', orderId, status],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_cancellation_terms', { p_order_id: orderId! });
+
+      if (error) throw error;
+      return (data?.[0] ?? null) as CancellationTerms | null;
+    },
+    enabled: !!orderId && !!status && status !== 'cancelled' && status !== 'delivered',
+  });
+};
@@ -0,0 +1,108 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { CashReconciliationRow } from '@/lib/cashReconciliation';
+
+// Outstanding cash per partner per day, newest day first
+export function useCashReconciliation(from: string, to: string) {
+  return useQuery({
+    queryKey: ['cash-reconciliation', from, to],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_cash_reconciliation', {
+        p_from: from,
+        p_to: to,
+      });
+      if (error) throw error;
+      return (data || []) as CashReconciliationRow[];
+    },
+  });
+}
+
+export function useCloseCashDay() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ deliveryStaffId, businessDate, depositedAmount, note }: {
+      deliveryStaffId: string;
+      businessDate: string;
+      depositedAmount: number;
+      note?: string;
+    }) => {
+      const { error } = await supabase.rpc('close_cash_day', {
+        p_delivery_staff_id: deliveryStaffId,
+        p_business_date: businessDate,
+        p_deposited_amount: depositedAmount,
+        p_note: note || undefined,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['cash-reconciliation'] });
+      queryClient.invalidateQueries({ queryKey: ['admin-delivery-wallets'] });
+      queryClient.invalidateQueries({ queryKey: ['admin-wallet-transactions'] });
+    },
+  });
+}
+
+export interface MyCashClosing {
+  id: string;
+  business_date: string;
+  expected_amount: number;
+  carried_forward: number;
+  declared_amount: number | null;
+  deposited_amount: number | null;
+  outstanding_amount: number | null;
+  is_flagged: boolean;
+  status: 'declared' | 'closed';
+}
+
+// The signed-in partner's recent cash closings
+export function useMyCashClosings(deliveryStaffId: string | undefined) {
+  return useQuery({
+    queryKey: ['my-cash-closings', deliveryStaffId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('cash_closings')
+        .select('id, business_date, expected_amount, carried_forward, declared_amount, deposited_amount, outstanding_amount, is_flagged, status')
+        .eq('delivery_staff_id', deliveryStaffId!)
+        .order('business_date', { ascending: false })
+        .limit(7);
+      if (error) throw error;
+      return (data || []) as MyCashClosing[];
+    },
+    enabled: !!deliveryStaffId,
+  });
+}
+
+// What the signed-in partner owes for a day if they hand over now
+export function useMyCashDue(businessDate: string, enabled = true) {
+  return useQuery({
+    queryKey: ['my-cash-due', businessDate],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_my_cash_due', {
+        p_business_date: businessDate,
+      });
+      if (error) throw error;
+      return data?.[0] ?? { expected_amount: 0, carried_forward: 0 };
+    },
+    enabled,
+  });
+}
+
+export function useDeclareCashHandover() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ businessDate, amount, note }: { businessDate: string; amount: number; note?: string }) => {
+      const { error } = await supabase.rpc('declare_cash_handover', {
+        p_business_date: businessDate,
+        p_amount: amount,
+        p_note: note || undefined,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['my-cash-closings'] });
+      queryClient.invalidateQueries({ queryKey: ['my-cash-due'] });
+    },
+  });
+}
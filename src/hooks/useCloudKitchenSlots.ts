@@ -1,6 +1,7 @@
 import { useQuery } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import type { CloudKitchenSlot } from '@/types/events';
+import { getSlotOrderingStatus, toDateKey } from '@/lib/scheduling';
 
 export function useCloudKitchenSlots() {
   return useQuery({
@@ -18,40 +19,17 @@ export function useCloudKitchenSlots() {
   });
 }
 
-// Helper function to check if a slot is available for ordering
-export function isSlotAvailable(slot: CloudKitchenSlot): boolean {
-  const now = new Date();
-  const currentTime = now.getHours() * 60 + now.getMinutes();
-  
-  // Parse slot start time (format: "HH:MM:SS")
-  const [hours, minutes] = slot.start_time.split(':').map(Number);
-  const slotStartMinutes = hours * 60 + minutes;
-  
-  // Calculate cutoff time
-  const cutoffMinutes = slotStartMinutes - (slot.cutoff_hours_before * 60);
-  
-  // Check if current time is before cutoff
-  return currentTime < cutoffMinutes;
+// Helper function to check if a slot is available for ordering on a date (default today)
+export function isSlotAvailable(slot: CloudKitchenSlot, dateKey: string = toDateKey(new Date())): boolean {
+  return getSlotOrderingStatus(slot, dateKey).isOpen;
 }
 
 // Get time remaining until cutoff
-export function getTimeUntilCutoff(slot: CloudKitchenSlot): { hours: number; minutes: number } | null {
-  const now = new Date();
-  const currentMinutes = now.getHours() * 60 + now.getMinutes();
-  
-  const [hours, minutes] = slot.start_time.split(':').map(Number);
-  const slotStartMinutes = hours * 60 + minutes;
-  const cutoffMinutes = slotStartMinutes - (slot.cutoff_hours_before * 60);
-  
-  if (currentMinutes >= cutoffMinutes) {
-    return null; // Cutoff passed
-  }
-  
-  const remainingMinutes = cutoffMinutes - currentMinutes;
-  return {
-    hours: Math.floor(remainingMinutes / 60),
-    minutes: remainingMinutes % 60,
-  };
+export function getTimeUntilCutoff(
+  slot: CloudKitchenSlot,
+  dateKey: string = toDateKey(new Date())
+): { hours: number; minutes: number } | null {
+  return getSlotOrderingStatus(slot, dateKey).timeRemaining;
 }
 
 // Format time for display
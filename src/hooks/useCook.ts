@@ -2,6 +2,7 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import type { Cook, CookOrder, CookStatus, CookEarnings, CookOrderItem } from '@/types/cook';
+import { readSelectedModifiers } from '@/lib/modifiers';
 
 export interface CookOrderHistory {
   id: string;
@@ -57,7 +58,7 @@ export function useCookOrders() {
 
   return useQuery({
     queryKey: ['cook-orders', profile?.id],
-    queryFn: async () => {
+    queryFn: async (): Promise<CookOrder[]> => {
       if (!profile?.id) return [];
 
       // Fetch assignments from order_assigned_cooks (include cooked status for visibility until shipped)
@@ -87,15 +88,19 @@ export function useCookOrders() {
           delivery_address,
           guest_count,
           created_at,
-          customer_id
+          customer_id,
+          scheduled_for,
+          delivery_window_start,
+          delivery_window_end,
+          release_at
         `)
         .in('id', orderIds)
         .order('created_at', { ascending: false });
 
       if (error) throw error;
       
-      // Merge cook_status from assignments
-      const assignmentMap = new Map(assignments.map(a => [a.order_id, a.cook_status]));
+      // Merge cook_status from assignments (limited to cook statuses by the filter above)
+      const assignmentMap = new Map(assignments.map(a => [a.order_id, a.cook_status as CookStatus]));
 
       // Fetch all order items for the assigned orders (not filtered by cook since items may not have assigned_cook_id set)
       const { data: orderItems } = await supabase
@@ -107,17 +112,18 @@ export function useCookOrders() {
           quantity,
           unit_price,
           total_price,
+          modifiers,
           food_item:food_items(id, name, price)
         `)
         .in('order_id', orderIds);
 
       // Group order items by order_id
-      const orderItemsMap = new Map<string, typeof orderItems>();
+      const orderItemsMap = new Map<string, CookOrderItem[]>();
       orderItems?.forEach(item => {
         if (!orderItemsMap.has(item.order_id)) {
           orderItemsMap.set(item.order_id, []);
         }
-        orderItemsMap.get(item.order_id)!.push(item);
+        orderItemsMap.get(item.order_id)!.push({ ...item, modifiers: readSelectedModifiers(item.modifiers) });
       });
       
       // Fetch customer details separately
@@ -137,7 +143,7 @@ export function useCookOrders() {
       }));
       
       // Filter out cancelled orders as defense in depth
-      return ordersWithDetails.filter(o => o.status !== 'cancelled') as CookOrder[];
+      return ordersWithDetails.filter(o => o.status !== 'cancelled');
     },
     enabled: !!profile?.id,
     refetchInterval: 2 * 60 * 1000, // Auto-refresh every 2 minutes
@@ -255,7 +261,7 @@ export function useCookOrderHistory() {
       const { data: orderItems } = await supabase
         .from('order_items')
         .select(`
-          id, order_id, food_item_id, quantity, unit_price, total_price,
+          id, order_id, food_item_id, quantity, unit_price, total_price, modifiers,
           food_item:food_items(id, name, price)
         `)
         .in('order_id', orderIds)
@@ -300,11 +306,11 @@ export function useUpdateCookStatus() {
 
       if (error) throw error;
 
-      // Update the main orders table based on cook status change
+      // Update the main orders table based on cook status change. A rejection
+      // needs nothing here: the assignment engine passes the order to the next cook.
       type OrderStatus = 'pending' | 'confirmed' | 'preparing' | 'ready' | 'out_for_delivery' | 'delivered' | 'cancelled';
       const orderUpdates: Record<string, { status: OrderStatus; cook_status: string; cook_assignment_status?: string }> = {
         accepted: { status: 'confirmed', cook_status: 'accepted', cook_assignment_status: 'accepted' },
-        rejected: { status: 'cancelled', cook_status: 'rejected', cook_assignment_status: 'rejected' },
         preparing: { status: 'preparing', cook_status: 'preparing' },
         cooked: { status: 'ready', cook_status: 'ready' },
       };
@@ -0,0 +1,31 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { RankedCook } from '@/lib/cookAssignment';
+
+// Qualified cooks for an order's dishes still without a cook, best first
+export function useOrderCookRanking(orderId: string, enabled = true) {
+  return useQuery({
+    queryKey: ['order-cook-ranking', orderId],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_order_cook_ranking', { p_order_id: orderId });
+      if (error) throw error;
+      return (data || []) as RankedCook[];
+    },
+    enabled,
+  });
+}
+
+export function useAssignOrderCook() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ orderId, cookId }: { orderId: string; cookId: string }) => {
+      const { error } = await supabase.rpc('assign_order_cook', { p_order_id: orderId, p_cook_id: cookId });
+      if (error) throw error;
+    },
+    onSuccess: (_, { orderId }) => {
+      queryClient.invalidateQueries({ queryKey: ['admin-orders-assignment'] });
+      queryClient.invalidateQueries({ queryKey: ['order-cook-ranking', orderId] });
+    },
+  });
+}
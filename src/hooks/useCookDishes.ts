@@ -15,7 +15,7 @@ export function useCookAllocatedDishes() {
       const { data, error } = await supabase
         .from('cook_dishes')
         .select(`
-          id, cook_id, food_item_id, allocated_at, allocated_by, created_at, updated_at, custom_price, is_coming_soon,
+          id, cook_id, food_item_id, allocated_at, allocated_by, created_at, updated_at, custom_price, is_coming_soon, modifier_prices,
           food_item:food_items(id, name, price, category_id, is_vegetarian, category:food_categories(name))
         `)
         .eq('cook_id', profile.id)
@@ -3,9 +3,14 @@ import { useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useCookProfile } from '@/hooks/useCook';
 import { useBrowserNotifications } from '@/hooks/useBrowserNotifications';
-import type { CookOrder, CookOrderItem } from '@/types/cook';
+import { responseSecondsLeft } from '@/lib/cookAssignment';
+import { readSelectedModifiers } from '@/lib/modifiers';
+import type { CookOrder } from '@/types/cook';
 
+// Same as the response window prepare_cook_assignment gives each offer
 const ORDER_ACCEPT_CUTOFF_SECONDS = 120;
+// setTimeout cannot wait longer than this; longer holds are re-checked when it fires
+const MAX_HOLD_MS = 2 ** 31 - 1;
 
 export interface PendingCookOrder extends CookOrder {
   cutoff_at: Date;
@@ -19,6 +24,7 @@ export function useCookNotifications() {
   const [pendingOrders, setPendingOrders] = useState<PendingCookOrder[]>([]);
   const [showAlert, setShowAlert] = useState(false);
   const audioRef = useRef<HTMLAudioElement | null>(null);
+  const releaseTimersRef = useRef(new Map<string, ReturnType<typeof setTimeout>>());
 
   // Show browser notification for new order
   const showBrowserNotification = useCallback((order: PendingCookOrder) => {
@@ -30,6 +36,10 @@ export function useCookNotifications() {
     }
   }, [permission, notifyNewOrder]);
 
+  // Kept in a ref so a permission change doesn't reload and re-announce pending orders
+  const showBrowserNotificationRef = useRef(showBrowserNotification);
+  showBrowserNotificationRef.current = showBrowserNotification;
+
   const playNotificationSound = useCallback(() => {
     try {
       if (!audioRef.current) {
@@ -47,7 +57,7 @@ export function useCookNotifications() {
   const fetchOrderDetails = useCallback(async (orderId: string): Promise<PendingCookOrder | null> => {
     const { data: order, error } = await supabase
       .from('orders')
-      .select('id, order_number, status, service_type, total_amount, event_date, event_details, delivery_address, guest_count, created_at, customer_id')
+      .select('id, order_number, status, service_type, total_amount, event_date, event_details, delivery_address, guest_count, created_at, customer_id, scheduled_for, delivery_window_start, delivery_window_end, release_at')
       .eq('id', orderId)
       .maybeSingle();
 
@@ -66,9 +76,18 @@ export function useCookNotifications() {
     // Get order items
     const { data: items } = await supabase
       .from('order_items')
-      .select('id, food_item_id, quantity, unit_price, total_price, food_item:food_items(id, name)')
+      .select('id, food_item_id, quantity, unit_price, total_price, modifiers, food_item:food_items(id, name, price)')
       .eq('order_id', orderId);
 
+    // Count down to the server's deadline; the order moves on when it passes
+    const { data: assignment } = await supabase
+      .from('order_assigned_cooks')
+      .select('response_deadline')
+      .eq('order_id', orderId)
+      .eq('cook_id', profile?.id ?? '')
+      .maybeSingle();
+    const secondsRemaining = responseSecondsLeft(assignment?.response_deadline, ORDER_ACCEPT_CUTOFF_SECONDS);
+
     return {
       id: order.id,
       order_number: order.order_number,
@@ -80,12 +99,64 @@ export function useCookNotifications() {
       delivery_address: order.delivery_address,
       guest_count: order.guest_count,
       created_at: order.created_at,
+      scheduled_for: order.scheduled_for,
+      delivery_window_start: order.delivery_window_start,
+      delivery_window_end: order.delivery_window_end,
+      release_at: order.release_at,
       customer: customer || undefined,
-      order_items: (items as CookOrderItem[]) || [],
-      cutoff_at: new Date(Date.now() + ORDER_ACCEPT_CUTOFF_SECONDS * 1000),
-      seconds_remaining: ORDER_ACCEPT_CUTOFF_SECONDS,
+      order_items: (items || []).map(item => ({ ...item, modifiers: readSelectedModifiers(item.modifiers) })),
+      cutoff_at: new Date(Date.now() + secondsRemaining * 1000),
+      seconds_remaining: secondsRemaining,
     };
-  }, []);
+  }, [profile?.id]);
+
+  // Add an order to the alert, or hold a scheduled one until its release time.
+  // Returns whether the order was added.
+  const showOrder = useCallback(async (orderId: string, announce: boolean): Promise<boolean> => {
+    const orderDetails = await fetchOrderDetails(orderId);
+    if (!orderDetails) return false;
+
+    const holdMs = orderDetails.release_at ? new Date(orderDetails.release_at).getTime() - Date.now() : 0;
+    if (holdMs > 0) {
+      if (!releaseTimersRef.current.has(orderId)) {
+        console.log('[CookNotifications] Holding scheduled order until', orderDetails.release_at);
+        releaseTimersRef.current.set(orderId, setTimeout(async () => {
+          releaseTimersRef.current.delete(orderId);
+          // Still waiting on this cook?
+          const { data: assignment } = await supabase
+            .from('order_assigned_cooks')
+            .select('cook_status')
+            .eq('order_id', orderId)
+            .eq('cook_id', profile?.id ?? '')
+            .maybeSingle();
+          if (assignment?.cook_status === 'pending') showOrder(orderId, true);
+        }, Math.min(holdMs, MAX_HOLD_MS)));
+      }
+      return false;
+    }
+
+    setPendingOrders(prev => {
+      if (prev.find(o => o.id === orderDetails.id)) return prev;
+      return [...prev, orderDetails];
+    });
+
+    if (announce) {
+      setShowAlert(true);
+      playNotificationSound();
+      showBrowserNotificationRef.current(orderDetails);
+      queryClient.invalidateQueries({ queryKey: ['cook-orders'] });
+    }
+    return true;
+  }, [fetchOrderDetails, profile?.id, playNotificationSound, queryClient]);
+
+  // Drop held orders when the cook signs out or the page closes
+  useEffect(() => {
+    const timers = releaseTimersRef.current;
+    return () => {
+      timers.forEach(timer => clearTimeout(timer));
+      timers.clear();
+    };
+  }, [profile?.id]);
 
   // Subscribe to real-time assignment changes + cancellation updates
   useEffect(() => {
@@ -107,17 +178,8 @@ export function useCookNotifications() {
           const assignment = payload.new as any;
           console.log('[CookNotifications] New assignment:', assignment.order_id);
 
-          const orderDetails = await fetchOrderDetails(assignment.order_id);
-          if (orderDetails) {
-            setPendingOrders(prev => {
-              if (prev.find(o => o.id === orderDetails.id)) return prev;
-              return [...prev, orderDetails];
-            });
-            setShowAlert(true);
-            playNotificationSound();
-            showBrowserNotification(orderDetails);
-            queryClient.invalidateQueries({ queryKey: ['cook-orders'] });
-          }
+          const shown = await showOrder(assignment.order_id, true);
+          if (!shown) queryClient.invalidateQueries({ queryKey: ['cook-orders'] });
         }
       )
       .on(
@@ -130,8 +192,8 @@ export function useCookNotifications() {
         },
         (payload) => {
           const updated = payload.new as any;
-          if (updated.cook_status === 'rejected') {
-            console.log('[CookNotifications] Assignment rejected/cancelled:', updated.order_id);
+          if (updated.cook_status === 'rejected' || updated.cook_status === 'auto_rejected') {
+            console.log('[CookNotifications] Assignment rejected/passed on:', updated.order_id);
             setPendingOrders(prev => prev.filter(o => o.id !== updated.order_id));
             queryClient.invalidateQueries({ queryKey: ['cook-orders'] });
           }
@@ -148,6 +210,8 @@ export function useCookNotifications() {
           const updated = payload.new as any;
           if (updated.status === 'cancelled') {
             console.log('[CookNotifications] Order cancelled:', updated.id);
+            clearTimeout(releaseTimersRef.current.get(updated.id));
+            releaseTimersRef.current.delete(updated.id);
             setPendingOrders(prev => prev.filter(o => o.id !== updated.id));
             queryClient.invalidateQueries({ queryKey: ['cook-orders'] });
           }
@@ -160,7 +224,7 @@ export function useCookNotifications() {
     return () => {
       supabase.removeChannel(channel);
     };
-  }, [profile?.id, fetchOrderDetails, playNotificationSound, queryClient]);
+  }, [profile?.id, showOrder, queryClient]);
 
   // Load existing pending assignments on mount
   useEffect(() => {
@@ -175,24 +239,19 @@ export function useCookNotifications() {
 
       if (!assignments || assignments.length === 0) return;
 
+      let shownCount = 0;
       for (const a of assignments) {
-        const orderDetails = await fetchOrderDetails(a.order_id);
-        if (orderDetails) {
-          setPendingOrders(prev => {
-            if (prev.find(o => o.id === orderDetails.id)) return prev;
-            return [...prev, orderDetails];
-          });
-        }
+        if (await showOrder(a.order_id, false)) shownCount++;
       }
 
-      if (assignments.length > 0) {
+      if (shownCount > 0) {
         setShowAlert(true);
         playNotificationSound();
       }
     };
 
     loadPending();
-  }, [profile?.id, fetchOrderDetails, playNotificationSound]);
+  }, [profile?.id, showOrder, playNotificationSound]);
 
   // Countdown timer
   useEffect(() => {
@@ -0,0 +1,115 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+
+export interface Coupon {
+  id: string;
+  code: string;
+  description: string | null;
+  discount_type: 'percent' | 'flat';
+  discount_value: number;
+  min_order_amount: number;
+  max_discount_amount: number | null;
+  valid_from: string | null;
+  valid_until: string | null;
+  usage_limit_total: number | null;
+  usage_limit_per_user: number | null;
+  // Empty scope arrays mean the coupon is not restricted on that dimension
+  service_types: string[];
+  panchayat_ids: string[];
+  category_ids: string[];
+  is_active: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  redemption_count?: number;
+}
+
+export type CouponInput = Omit<Coupon, 'id' | 'created_by' | 'created_at' | 'updated_at' | 'redemption_count'>;
+
+export const useCoupons = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: coupons, isLoading } = useQuery({
+    queryKey: ['coupons'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('coupons')
+        .select('*, coupon_redemptions(count)')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return (data || []).map(({ coupon_redemptions, ...coupon }) => ({
+        ...coupon,
+        redemption_count: (coupon_redemptions as unknown as { count: number }[])?.[0]?.count || 0,
+      })) as Coupon[];
+    },
+  });
+
+  const createCoupon = useMutation({
+    mutationFn: async (coupon: CouponInput) => {
+      const { data: { user } } = await supabase.auth.getUser();
+      const { data, error } = await supabase
+        .from('coupons')
+        .insert({ ...coupon, code: coupon.code.trim().toUpperCase(), created_by: user?.id })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['coupons'] });
+      toast({ title: 'Coupon Created' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const updateCoupon = useMutation({
+    mutationFn: async ({ id, ...updates }: Partial<CouponInput> & { id: string }) => {
+      const { data, error } = await supabase
+        .from('coupons')
+        .update(updates.code ? { ...updates, code: updates.code.trim().toUpperCase() } : updates)
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['coupons'] });
+      toast({ title: 'Coupon Updated' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const deleteCoupon = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('coupons')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['coupons'] });
+      toast({ title: 'Coupon Deleted' });
+    },
+    onError: () => {
+      toast({
+        title: 'Error',
+        description: 'Coupons that have been redeemed cannot be deleted. Deactivate it instead.',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return { coupons: coupons || [], isLoading, createCoupon, updateCoupon, deleteCoupon };
+};
@@ -11,6 +11,9 @@ export interface CustomerAddress {
   landmark: string | null;
   panchayat_id: string | null;
   ward_number: number | null;
+  // Pin dropped for the address; the ward is derived from it (see locate_ward)
+  latitude: number | null;
+  longitude: number | null;
   is_default: boolean;
   created_at: string;
   updated_at: string;
@@ -22,6 +25,8 @@ export interface CreateAddressInput {
   landmark?: string;
   panchayat_id?: string;
   ward_number?: number;
+  latitude?: number | null;
+  longitude?: number | null;
   is_default?: boolean;
 }
 
@@ -68,6 +73,8 @@ export const useCustomerAddresses = () => {
           landmark: input.landmark || null,
           panchayat_id: input.panchayat_id || null,
           ward_number: input.ward_number || null,
+          latitude: input.latitude ?? null,
+          longitude: input.longitude ?? null,
           is_default: input.is_default || false,
         })
         .select()
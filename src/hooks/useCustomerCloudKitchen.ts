@@ -1,5 +1,6 @@
 import { useQuery } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
+import { getSlotOrderingStatus, slotCutoff, toDateKey, type OrderingStatusLabel } from '@/lib/scheduling';
 
 export interface CookInfo {
   id: string;
@@ -19,6 +20,8 @@ export interface CustomerCloudKitchenItem {
   cloud_kitchen_slot_id: string | null;
   platform_margin_type: string | null;
   platform_margin_value: number | null;
+  discount_percent: number | null;
+  discount_amount: number | null;
   images: {
     id: string;
     image_url: string;
@@ -37,91 +40,18 @@ export interface ActiveDivision {
   end_time: string;
   cutoff_hours_before: number;
   delivery_charge: number;
+  // Delivery date the ordering status is for
+  scheduled_for: string;
+  cutoff_at: string;
   is_ordering_open: boolean;
   time_until_cutoff: { hours: number; minutes: number } | null;
-  status_label: 'open' | 'closing_soon' | 'closed';
+  status_label: OrderingStatusLabel;
 }
 
-function checkIfOrderingOpen(slot: {
-  start_time: string;
-  end_time: string;
-  cutoff_hours_before: number;
-}): { 
-  isOpen: boolean; 
-  timeRemaining: { hours: number; minutes: number } | null;
-  statusLabel: 'open' | 'closing_soon' | 'closed';
-} {
-  const now = new Date();
-  const currentMinutes = now.getHours() * 60 + now.getMinutes();
-
-  // Parse slot times
-  const [startHours, startMins] = slot.start_time.split(':').map(Number);
-  const slotStartMinutes = startHours * 60 + startMins;
-  
-  const [endHours, endMins] = slot.end_time.split(':').map(Number);
-  const slotEndMinutes = endHours * 60 + endMins;
-
-  // Calculate cutoff time (when ordering closes)
-  let cutoffMinutes = slotStartMinutes - (slot.cutoff_hours_before * 60);
-  
-  // Handle negative cutoff (wraps to previous day logic)
-  if (cutoffMinutes < 0) {
-    cutoffMinutes = 24 * 60 + cutoffMinutes; // wrap around
-  }
-
-  // Check if slot has already ended today (past the end time)
-  const hasSlotEndedToday = slotEndMinutes > slotStartMinutes 
-    ? currentMinutes >= slotEndMinutes  // Normal slot: ended if past end time
-    : (currentMinutes >= slotEndMinutes && currentMinutes < slotStartMinutes); // Overnight slot
-
-  if (hasSlotEndedToday) {
-    return { isOpen: false, timeRemaining: null, statusLabel: 'closed' };
-  }
-
-  // Check if ordering is still open (before cutoff)
-  // Cutoff is when orders stop being accepted, before the slot starts
-  let isBeforeCutoff: boolean;
-  
-  if (cutoffMinutes < 0 || cutoffMinutes > slotStartMinutes) {
-    // Cutoff wraps to previous day (e.g., slot at 06:00 with 8h cutoff = 22:00 previous day)
-    // If cutoff wrapped, check if we're in the valid ordering window
-    const wrappedCutoff = cutoffMinutes < 0 ? 24 * 60 + cutoffMinutes : cutoffMinutes;
-    isBeforeCutoff = currentMinutes < slotStartMinutes && 
-      (currentMinutes < wrappedCutoff || currentMinutes >= slotStartMinutes);
-  } else {
-    // Normal case: cutoff is before slot start on same day
-    isBeforeCutoff = currentMinutes < cutoffMinutes;
-  }
-
-  if (!isBeforeCutoff) {
-    return { isOpen: false, timeRemaining: null, statusLabel: 'closed' };
-  }
-
-  // Calculate remaining time until cutoff
-  let remainingMinutes = cutoffMinutes - currentMinutes;
-  if (remainingMinutes < 0) {
-    remainingMinutes = 24 * 60 + remainingMinutes;
-  }
-
-  const hours = Math.floor(remainingMinutes / 60);
-  const minutes = remainingMinutes % 60;
-
-  // Determine status label
-  let statusLabel: 'open' | 'closing_soon' | 'closed' = 'open';
-  if (remainingMinutes <= 60) {
-    statusLabel = 'closing_soon'; // Less than 1 hour remaining
-  }
-
-  return {
-    isOpen: true,
-    timeRemaining: { hours, minutes },
-    statusLabel,
-  };
-}
-
-export function useCustomerDivisions() {
+// Meal slots and whether each still takes orders for the date (default today)
+export function useCustomerDivisions(scheduledFor?: string) {
   return useQuery({
-    queryKey: ['customer-cloud-kitchen-divisions'],
+    queryKey: ['customer-cloud-kitchen-divisions', scheduledFor],
     queryFn: async () => {
       const { data: slots, error } = await supabase
         .from('cloud_kitchen_slots')
@@ -131,8 +61,9 @@ export function useCustomerDivisions() {
 
       if (error) throw error;
 
+      const date = scheduledFor || toDateKey(new Date());
       return (slots || []).map((slot) => {
-        const { isOpen, timeRemaining, statusLabel } = checkIfOrderingOpen(slot);
+        const { isOpen, timeRemaining, statusLabel } = getSlotOrderingStatus(slot, date);
         return {
           id: slot.id,
           name: slot.name,
@@ -141,6 +72,8 @@ export function useCustomerDivisions() {
           end_time: slot.end_time,
           cutoff_hours_before: slot.cutoff_hours_before,
           delivery_charge: slot.delivery_charge || 0,
+          scheduled_for: date,
+          cutoff_at: slotCutoff(slot, date).toISOString(),
           is_ordering_open: isOpen,
           time_until_cutoff: timeRemaining,
           status_label: statusLabel,
@@ -172,6 +105,8 @@ export function useCustomerDivisionItems(divisionId: string | null) {
           cloud_kitchen_slot_id,
           platform_margin_type,
           platform_margin_value,
+          discount_percent,
+          discount_amount,
           food_item_images(id, image_url, is_primary)
         `)
         .eq('cloud_kitchen_slot_id', divisionId)
@@ -234,6 +169,8 @@ export function useCustomerDivisionItems(divisionId: string | null) {
               cloud_kitchen_slot_id: item.cloud_kitchen_slot_id,
               platform_margin_type: item.platform_margin_type,
               platform_margin_value: item.platform_margin_value,
+              discount_percent: item.discount_percent,
+              discount_amount: item.discount_amount,
               images: item.food_item_images || [],
               cook: {
                 id: cd.cooks.id,
@@ -258,6 +195,8 @@ export function useCustomerDivisionItems(divisionId: string | null) {
             cloud_kitchen_slot_id: item.cloud_kitchen_slot_id,
             platform_margin_type: item.platform_margin_type,
             platform_margin_value: item.platform_margin_value,
+            discount_percent: item.discount_percent,
+            discount_amount: item.discount_amount,
             images: item.food_item_images || [],
             cook: null,
             unique_key: `${item.id}_no_cook`,
@@ -0,0 +1,31 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+
+export interface CustomerWallet {
+  id: string;
+  balance: number;
+}
+
+/**
+ * The signed-in customer's wallet, or null if they have never been credited.
+ * Spending happens server-side through place_order / pay_order_advance_from_wallet.
+ */
+export const useCustomerWallet = () => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['customer-wallet', user?.id],
+    queryFn: async (): Promise<CustomerWallet | null> => {
+      if (!user?.id) return null;
+      const { data, error } = await supabase
+        .from('customer_wallets')
+        .select('id, balance')
+        .eq('user_id', user.id)
+        .maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user?.id,
+  });
+};
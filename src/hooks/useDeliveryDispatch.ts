@@ -0,0 +1,38 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { DispatchLogEntry } from '@/lib/dispatch';
+
+// Every dispatch decision for an order, oldest first
+export function useDispatchLog(orderId: string, enabled = true) {
+  return useQuery({
+    queryKey: ['dispatch-log', orderId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('dispatch_log')
+        .select('id, order_id, delivery_staff_id, event, reason, details, created_at, delivery_staff(name)')
+        .eq('order_id', orderId)
+        .order('created_at', { ascending: true });
+      if (error) throw error;
+      return (data || []) as unknown as DispatchLogEntry[];
+    },
+    enabled,
+  });
+}
+
+export function useAssignOrderDelivery() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ orderId, deliveryStaffId }: { orderId: string; deliveryStaffId: string }) => {
+      const { error } = await supabase.rpc('assign_order_delivery', {
+        p_order_id: orderId,
+        p_delivery_staff_id: deliveryStaffId,
+      });
+      if (error) throw error;
+    },
+    onSuccess: (_, { orderId }) => {
+      queryClient.invalidateQueries({ queryKey: ['admin-orders-assignment'] });
+      queryClient.invalidateQueries({ queryKey: ['dispatch-log', orderId] });
+    },
+  });
+}
@@ -3,8 +3,10 @@ import { useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useDeliveryProfile } from './useDeliveryStaff';
 import { useBrowserNotifications } from '@/hooks/useBrowserNotifications';
+import { responseSecondsLeft } from '@/lib/cookAssignment';
 import type { DeliveryOrder } from '@/types/delivery';
 
+// Matches the offer window set by dispatch_delivery_order
 const ORDER_ACCEPT_CUTOFF_SECONDS = 120; // 2 minutes to accept
 
 export interface PendingDeliveryOrder extends DeliveryOrder {
@@ -41,29 +43,8 @@ export function useDeliveryNotifications() {
     }
   }, []);
 
-  // Check if order matches staff location (panchayat and ward)
-  const orderMatchesLocation = useCallback((order: any) => {
-    if (!profile) return false;
-
-    // Check if panchayat matches - staff's own panchayat or any assigned panchayat
-    const assignedPanchayats = profile.assigned_panchayat_ids || [];
-    const matchesPanchayat = 
-      profile.panchayat_id === order.panchayat_id ||
-      assignedPanchayats.includes(order.panchayat_id);
-
-    if (!matchesPanchayat) return false;
-
-    // For registered partners with specific ward assignments, check ward
-    if (profile.staff_type === 'registered_partner' && profile.assigned_wards && profile.assigned_wards.length > 0) {
-      return profile.assigned_wards.includes(order.ward_number);
-    }
-
-    // Fixed salary staff or partners without specific wards get all orders in their panchayat
-    return true;
-  }, [profile]);
-
-  // Add order to pending list with cutoff time
-  const addPendingOrder = useCallback(async (orderData: any) => {
+  // Add an offered order to the pending list, counting down to the offer's expiry
+  const addPendingOrder = useCallback(async (orderData: any, expiresAt: string) => {
     // Fetch customer details
     const { data: customerProfile } = await supabase
       .from('profiles')
@@ -87,8 +68,8 @@ export function useDeliveryNotifications() {
       created_at: orderData.created_at,
       delivered_at: orderData.delivered_at || null,
       customer: customerProfile || undefined,
-      cutoff_at: new Date(Date.now() + ORDER_ACCEPT_CUTOFF_SECONDS * 1000),
-      seconds_remaining: ORDER_ACCEPT_CUTOFF_SECONDS,
+      cutoff_at: new Date(expiresAt),
+      seconds_remaining: responseSecondsLeft(expiresAt, ORDER_ACCEPT_CUTOFF_SECONDS),
     };
 
     setPendingOrders(prev => {
@@ -108,7 +89,7 @@ export function useDeliveryNotifications() {
     }
   }, [playNotificationSound, permission, notifyOrderReady]);
 
-  // Remove order from pending (accepted by someone or expired)
+  // Remove order from pending (accepted, passed on or expired)
   const removeOrder = useCallback((orderId: string) => {
     setPendingOrders(prev => prev.filter(o => o.id !== orderId));
   }, []);
@@ -146,100 +127,76 @@ export function useDeliveryNotifications() {
     }
   }, [pendingOrders.length]);
 
-  // Subscribe to real-time order updates for delivery staff
+  // Subscribe to this partner's dispatch offers. The server offers each ready
+  // order to one partner at a time, so every offer here is ours alone until it
+  // is accepted, declined, withdrawn or times out.
   useEffect(() => {
     if (!profile?.is_approved || !profile?.is_available) return;
 
-    console.log('[DeliveryNotifications] Setting up realtime subscriptions for staff:', profile.id);
+    console.log('[DeliveryNotifications] Setting up offer subscription for staff:', profile.id);
 
-    // Subscribe to new orders that need delivery (status = confirmed or cook_status = ready)
     const channel = supabase
-      .channel('delivery-orders-realtime')
-      // Listen for orders becoming ready for pickup (cook finished)
+      .channel(`delivery-offers-${profile.id}`)
       .on(
         'postgres_changes',
         {
-          event: 'UPDATE',
+          event: 'INSERT',
           schema: 'public',
-          table: 'orders',
+          table: 'delivery_offers',
+          filter: `delivery_staff_id=eq.${profile.id}`,
         },
-        (payload) => {
-          const order = payload.new as any;
-          const oldOrder = payload.old as any;
-          
-          // Only process cloud_kitchen and homemade orders
-          if (!['cloud_kitchen', 'homemade'].includes(order.service_type)) return;
-          
-          // Check if order just became ready for delivery (cook_status changed to ready)
-          const justBecameReady = 
-            order.cook_status === 'ready' && 
-            oldOrder.cook_status !== 'ready';
-          
-          // Check if order is confirmed and pending delivery
-          const pendingDelivery = 
-            order.delivery_status === 'pending' &&
-            !order.assigned_delivery_id;
-          
-          if (justBecameReady && pendingDelivery && orderMatchesLocation(order)) {
-            console.log('[DeliveryNotifications] New order ready for delivery:', order.order_number);
-            addPendingOrder(order);
-          }
-          
-          // Handle order being taken by another staff member
-          if (order.assigned_delivery_id && !oldOrder.assigned_delivery_id) {
-            console.log('[DeliveryNotifications] Order taken:', order.order_number);
-            
-            // If we had this order in pending, remove it and show "taken" notification
-            setPendingOrders(prev => {
-              const hadOrder = prev.find(o => o.id === order.id);
-              if (hadOrder) {
-                // Show "order taken" notification
-                setOrdersTaken(prevTaken => [
-                  ...prevTaken,
-                  { 
-                    orderId: order.id, 
-                    orderNumber: order.order_number,
-                    takenBy: 'another driver'
-                  }
-                ]);
-                // Show browser notification for order taken
-                if (permission === 'granted') {
-                  notifyOrderTaken(order.order_number);
-                }
-                // Auto-dismiss after 5 seconds
-                setTimeout(() => clearOrderTaken(order.id), 5000);
-              }
-              return prev.filter(o => o.id !== order.id);
-            });
-            
-            // Refresh queries
-            queryClient.invalidateQueries({ queryKey: ['delivery-orders'] });
+        async (payload) => {
+          const offer = payload.new as { order_id: string; status: string; expires_at: string };
+          if (offer.status !== 'pending') return;
+
+          const { data: order } = await supabase
+            .from('orders')
+            .select('*')
+            .eq('id', offer.order_id)
+            .maybeSingle();
+
+          if (order) {
+            console.log('[DeliveryNotifications] New delivery offer:', order.order_number);
+            addPendingOrder(order, offer.expires_at);
             queryClient.invalidateQueries({ queryKey: ['available-delivery-orders'] });
           }
         }
       )
-      // Listen for new orders being placed (confirmed status)
       .on(
         'postgres_changes',
         {
-          event: 'INSERT',
+          event: 'UPDATE',
           schema: 'public',
-          table: 'orders',
+          table: 'delivery_offers',
+          filter: `delivery_staff_id=eq.${profile.id}`,
         },
         (payload) => {
-          const order = payload.new as any;
-          
-          // For homemade orders, they might be ready immediately
-          if (
-            order.service_type === 'homemade' &&
-            order.status === 'confirmed' &&
-            order.cook_status === 'ready' &&
-            !order.assigned_delivery_id &&
-            orderMatchesLocation(order)
-          ) {
-            console.log('[DeliveryNotifications] New homemade order ready:', order.order_number);
-            addPendingOrder(order);
-          }
+          const offer = payload.new as { order_id: string; status: string };
+          if (offer.status === 'pending') return;
+
+          setPendingOrders(prev => {
+            const hadOrder = prev.find(o => o.id === offer.order_id);
+            // An admin handed the order to someone else while it was on our screen
+            if (hadOrder && offer.status === 'withdrawn') {
+              setOrdersTaken(prevTaken => [
+                ...prevTaken,
+                {
+                  orderId: hadOrder.id,
+                  orderNumber: hadOrder.order_number,
+                  takenBy: 'another driver'
+                }
+              ]);
+              if (permission === 'granted') {
+                notifyOrderTaken(hadOrder.order_number);
+              }
+              // Auto-dismiss after 5 seconds
+              setTimeout(() => clearOrderTaken(hadOrder.id), 5000);
+            }
+            return prev.filter(o => o.id !== offer.order_id);
+          });
+
+          queryClient.invalidateQueries({ queryKey: ['delivery-orders'] });
+          queryClient.invalidateQueries({ queryKey: ['available-delivery-orders'] });
         }
       )
       .subscribe((status) => {
@@ -250,59 +207,41 @@ export function useDeliveryNotifications() {
       console.log('[DeliveryNotifications] Cleaning up subscriptions');
       supabase.removeChannel(channel);
     };
-  }, [profile, orderMatchesLocation, addPendingOrder, clearOrderTaken, queryClient]);
+  }, [profile, addPendingOrder, clearOrderTaken, queryClient, permission, notifyOrderTaken]);
 
-  // Function to load/refresh pending orders
+  // Function to load/refresh open offers
   const loadPendingOrders = useCallback(async () => {
     if (!profile?.is_approved || !profile?.is_available) return;
 
-    console.log('[DeliveryNotifications] Loading/refreshing available orders');
-    
-    // Build query for orders matching location
-    let query = supabase
-      .from('orders')
-      .select('*')
-      .in('service_type', ['cloud_kitchen', 'homemade'])
-      .eq('cook_status', 'ready')
-      .eq('delivery_status', 'pending')
-      .is('assigned_delivery_id', null)
-      .order('created_at', { ascending: false });
-
-    // Filter by panchayat
-    const panchayatIds = [profile.panchayat_id, ...(profile.assigned_panchayat_ids || [])].filter(Boolean);
-    if (panchayatIds.length > 0) {
-      query = query.in('panchayat_id', panchayatIds);
-    }
+    console.log('[DeliveryNotifications] Loading/refreshing open offers');
+
+    const { data: offers, error } = await supabase
+      .from('delivery_offers')
+      .select('expires_at, order:orders(*)')
+      .eq('delivery_staff_id', profile.id)
+      .eq('status', 'pending')
+      .gt('expires_at', new Date().toISOString())
+      .order('offered_at', { ascending: false });
 
-    const { data: orders, error } = await query;
-    
     if (error) {
-      console.error('[DeliveryNotifications] Error loading orders:', error);
+      console.error('[DeliveryNotifications] Error loading offers:', error);
       return;
     }
 
-    // Filter by ward if applicable
-    let filteredOrders = orders || [];
-    if (profile.staff_type === 'registered_partner' && profile.assigned_wards && profile.assigned_wards.length > 0) {
-      filteredOrders = filteredOrders.filter(order => 
-        profile.assigned_wards!.includes(order.ward_number)
-      );
-    }
-
     // Track if we have new orders to show alert
     let hasNewOrders = false;
 
-    // Add each order to pending if not already present
-    for (const order of filteredOrders) {
-      const alreadyExists = pendingOrders.some(o => o.id === order.id);
+    for (const offer of offers || []) {
+      if (!offer.order) continue;
+      const alreadyExists = pendingOrders.some(o => o.id === offer.order.id);
       if (!alreadyExists) {
         hasNewOrders = true;
-        await addPendingOrder(order);
+        await addPendingOrder(offer.order, offer.expires_at);
       }
     }
 
     // Show alert and play sound if we found new orders
-    if (hasNewOrders && filteredOrders.length > 0) {
+    if (hasNewOrders) {
       setShowAlert(true);
       playNotificationSound();
     }
@@ -358,16 +297,6 @@ export function useAdminDeliveryAlerts() {
     } catch (e) {}
   }, []);
 
-  // Check for orders that have been waiting too long
-  const checkUnacceptedOrder = useCallback((order: any) => {
-    const cookReadyTime = new Date(order.updated_at).getTime();
-    const now = Date.now();
-    const waitingSeconds = (now - cookReadyTime) / 1000;
-    
-    // Alert if waiting more than 3 minutes
-    return waitingSeconds > 180;
-  }, []);
-
   useEffect(() => {
     console.log('[AdminDeliveryAlerts] Setting up realtime subscription');
 
@@ -395,20 +324,14 @@ export function useAdminDeliveryAlerts() {
             return;
           }
           
-          // Check if order is ready but not accepted
-          if (
-            order.cook_status === 'ready' &&
-            order.delivery_status === 'pending' &&
-            !order.assigned_delivery_id
-          ) {
-            if (checkUnacceptedOrder(order)) {
-              setUnacceptedOrders(prev => {
-                if (prev.find(o => o.id === order.id)) return prev;
-                return [...prev, order];
-              });
-              setShowAdminAlert(true);
-              playAdminAlertSound();
-            }
+          // Dispatch ran out of partners to offer the order to
+          if (order.delivery_escalated_at && order.delivery_status === 'pending') {
+            setUnacceptedOrders(prev => {
+              if (prev.find(o => o.id === order.id)) return prev;
+              return [...prev, order];
+            });
+            setShowAdminAlert(true);
+            playAdminAlertSound();
           }
         }
       )
@@ -416,18 +339,15 @@ export function useAdminDeliveryAlerts() {
         console.log('[AdminDeliveryAlerts] Subscription status:', status);
       });
 
-    // Also periodically check for stale orders
+    // Also periodically check for escalated orders
     const checkInterval = setInterval(async () => {
-      const threeMinutesAgo = new Date(Date.now() - 3 * 60 * 1000).toISOString();
-      
       const { data: staleOrders } = await supabase
         .from('orders')
         .select('*')
         .in('service_type', ['cloud_kitchen', 'homemade'])
-        .eq('cook_status', 'ready')
         .eq('delivery_status', 'pending')
         .is('assigned_delivery_id', null)
-        .lt('updated_at', threeMinutesAgo);
+        .not('delivery_escalated_at', 'is', null);
 
       if (staleOrders && staleOrders.length > 0) {
         setUnacceptedOrders(prev => {
@@ -448,7 +368,7 @@ export function useAdminDeliveryAlerts() {
       supabase.removeChannel(channel);
       clearInterval(checkInterval);
     };
-  }, [checkUnacceptedOrder, playAdminAlertSound]);
+  }, [playAdminAlertSound]);
 
   const dismissAdminAlert = useCallback(() => {
     setShowAdminAlert(false);
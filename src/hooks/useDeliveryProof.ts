@@ -0,0 +1,55 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+
+// The code the customer reads out to the delivery partner at the door
+export function useOrderHandoverCode(orderId: string | undefined, enabled = true) {
+  return useQuery({
+    queryKey: ['order-handover-code', orderId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('order_handover_codes')
+        .select('code')
+        .eq('order_id', orderId!)
+        .maybeSingle();
+      if (error) throw error;
+      return data?.code ?? null;
+    },
+    enabled: !!orderId && enabled,
+  });
+}
+
+export interface DeliveryProof {
+  id: string;
+  code_verified_at: string;
+  // Short-lived signed link to the doorstep photo
+  photo_url: string | null;
+  delivery_staff: { name: string } | null;
+}
+
+// Doorstep photos are private, so links to them expire
+const PHOTO_LINK_SECONDS = 60 * 60;
+
+export function useDeliveryProof(orderId: string, enabled = true) {
+  return useQuery({
+    queryKey: ['delivery-proof', orderId],
+    queryFn: async (): Promise<DeliveryProof | null> => {
+      const { data, error } = await supabase
+        .from('delivery_proofs')
+        .select('id, code_verified_at, photo_path, delivery_staff(name)')
+        .eq('order_id', orderId)
+        .maybeSingle();
+      if (error) throw error;
+      if (!data) return null;
+
+      const { photo_path, ...proof } = data;
+      if (!photo_path) return { ...proof, photo_url: null };
+
+      const { data: signed, error: signError } = await supabase.storage
+        .from('delivery-proofs')
+        .createSignedUrl(photo_path, PHOTO_LINK_SECONDS);
+      if (signError) throw signError;
+      return { ...proof, photo_url: signed.signedUrl };
+    },
+    enabled,
+  });
+}
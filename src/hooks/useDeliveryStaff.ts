@@ -2,6 +2,7 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import type { DeliveryStaff, DeliveryWallet, WalletTransaction, DeliveryOrder, DeliveryStatus } from '@/types/delivery';
+import { handoverFailureMessage, type HandoverResult } from '@/lib/deliveryProof';
 
 export function useDeliveryProfile() {
   const { user } = useAuth();
@@ -96,12 +97,16 @@ export function useDeliveryOrders() {
           order_number,
           service_type,
           total_amount,
+          wallet_amount,
+          online_paid_amount,
           delivery_amount,
           delivery_status,
           delivery_address,
           delivery_instructions,
           estimated_delivery_minutes,
           delivery_eta,
+          delivery_window_start,
+          delivery_window_end,
           panchayat_id,
           ward_number,
           created_at,
@@ -198,6 +203,7 @@ export function useDeliveryOrderHistory(startDate?: Date, endDate?: Date) {
   });
 }
 
+// Orders the dispatcher is currently offering to this partner
 export function useAvailableDeliveryOrders() {
   const { data: profile } = useDeliveryProfile();
 
@@ -206,39 +212,40 @@ export function useAvailableDeliveryOrders() {
     queryFn: async () => {
       if (!profile) return [];
 
-      // Build list of all panchayat IDs this staff is connected to
-      const panchayatIds = [profile.panchayat_id, ...(profile.assigned_panchayat_ids || [])].filter(Boolean);
-
-      const { data, error } = await supabase
-        .from('orders')
+      const { data: offers, error } = await supabase
+        .from('delivery_offers')
         .select(`
-          id,
-          order_number,
-          service_type,
-          total_amount,
-          delivery_amount,
-          delivery_status,
-          delivery_address,
-          delivery_instructions,
-          estimated_delivery_minutes,
-          delivery_eta,
-          panchayat_id,
-          ward_number,
-          created_at,
-          delivered_at,
-          customer_id
+          order:orders(
+            id,
+            order_number,
+            service_type,
+            total_amount,
+            delivery_amount,
+            delivery_status,
+            delivery_address,
+            delivery_instructions,
+            estimated_delivery_minutes,
+            delivery_eta,
+            delivery_window_start,
+            delivery_window_end,
+            panchayat_id,
+            ward_number,
+            created_at,
+            delivered_at,
+            customer_id
+          )
         `)
-        .in('panchayat_id', panchayatIds)
-        .in('service_type', ['cloud_kitchen', 'homemade'])
-        .eq('cook_status', 'ready')
-        .eq('delivery_status', 'pending')
-        .is('assigned_delivery_id', null)
-        .order('created_at', { ascending: false });
+        .eq('delivery_staff_id', profile.id)
+        .eq('status', 'pending')
+        .gt('expires_at', new Date().toISOString())
+        .order('offered_at', { ascending: false });
 
       if (error) throw error;
       
+      const data = (offers || []).map(offer => offer.order).filter(Boolean);
+
       // Fetch customer details separately
-      const ordersWithCustomers = await Promise.all((data || []).map(async (order) => {
+      const ordersWithCustomers = await Promise.all(data.map(async (order) => {
         const { data: orderProfile } = await supabase
           .from('profiles')
           .select('name, mobile_number')
@@ -251,13 +258,6 @@ export function useAvailableDeliveryOrders() {
         };
       }));
       
-      // Filter by assigned wards for registered partners
-      if (profile.staff_type === 'registered_partner' && profile.assigned_wards.length > 0) {
-        return ordersWithCustomers.filter(order => 
-          profile.assigned_wards.includes(order.ward_number)
-        ) as DeliveryOrder[];
-      }
-
       return ordersWithCustomers as DeliveryOrder[];
     },
     enabled: !!profile && profile.is_approved,
@@ -270,25 +270,42 @@ export function useUpdateDeliveryStatus() {
   const { data: profile } = useDeliveryProfile();
 
   return useMutation({
-    mutationFn: async ({ orderId, status, orderAmount, deliveryCharge }: { 
+    mutationFn: async ({ orderId, status, orderAmount, deliveryCharge, handoverCode, photoPath }: { 
       orderId: string; 
       status: DeliveryStatus;
       orderAmount?: number;
       deliveryCharge?: number;
+      // Required to mark an order delivered
+      handoverCode?: string;
+      // Doorstep photo in the delivery-proofs bucket
+      photoPath?: string | null;
     }) => {
-      const updateData: Record<string, unknown> = { delivery_status: status };
-      
       if (status === 'delivered') {
-        updateData.delivered_at = new Date().toISOString();
-        updateData.status = 'delivered';
-      }
+        // The server checks the customer's code and records the proof
+        const { data, error } = await supabase.rpc('complete_delivery', {
+          p_order_id: orderId,
+          p_handover_code: handoverCode ?? '',
+          p_photo_path: photoPath ?? undefined,
+        });
+
+        if (error) throw error;
+
+        const result = data as unknown as HandoverResult;
+        if (!result.delivered) throw new Error(handoverFailureMessage(result));
+      } else {
+        const updateData: Record<string, unknown> = { delivery_status: status };
+
+        if (status === 'picked_up') {
+          updateData.status = 'out_for_delivery';
+        }
 
-      const { error } = await supabase
-        .from('orders')
-        .update(updateData)
-        .eq('id', orderId);
+        const { error } = await supabase
+          .from('orders')
+          .update(updateData)
+          .eq('id', orderId);
 
-      if (error) throw error;
+        if (error) throw error;
+      }
 
       // Update wallet when order is delivered
       if (status === 'delivered' && profile?.id) {
@@ -369,6 +386,24 @@ export function useAcceptDelivery() {
   });
 }
 
+// Pass an offered order on to the next ranked partner
+export function useDeclineDelivery() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (orderId: string) => {
+      const { error } = await supabase.rpc('decline_delivery_offer', {
+        p_order_id: orderId,
+      });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['available-delivery-orders'] });
+    },
+  });
+}
+
 export function useUpdateDeliveryAvailability() {
   const queryClient = useQueryClient();
   const { user } = useAuth();
@@ -0,0 +1,127 @@
+import { useEffect, useRef, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { LOCATION_PING_INTERVAL_MS, getDeviceLocation, type ActiveDeliveryLocation } from '@/lib/deliveryTracking';
+import type { LocationPoint } from '@/lib/geo';
+
+/**
+ * Reports the device's location while `enabled` (the partner has deliveries in
+ * hand), at most once per LOCATION_PING_INTERVAL_MS. Returns the last
+ * geolocation error, e.g. when the partner has blocked location access.
+ */
+export function useLocationReporting(enabled: boolean) {
+  const queryClient = useQueryClient();
+  const [error, setError] = useState<string | null>(null);
+  const lastSentRef = useRef(0);
+
+  useEffect(() => {
+    if (!enabled) return;
+    if (!('geolocation' in navigator)) {
+      setError('Location is not available on this device');
+      return;
+    }
+
+    const report = async (position: GeolocationPosition) => {
+      setError(null);
+      if (Date.now() - lastSentRef.current < LOCATION_PING_INTERVAL_MS) return;
+      lastSentRef.current = Date.now();
+
+      const { data, error: rpcError } = await supabase.rpc('record_delivery_location', {
+        p_latitude: position.coords.latitude,
+        p_longitude: position.coords.longitude,
+        p_accuracy_m: position.coords.accuracy,
+      });
+      if (rpcError) {
+        console.error('Location report error:', rpcError);
+        return;
+      }
+      if ((data as { updated_orders?: number } | null)?.updated_orders) {
+        queryClient.invalidateQueries({ queryKey: ['delivery-orders'] });
+      }
+    };
+
+    const watchId = navigator.geolocation.watchPosition(
+      report,
+      (positionError) => setError(positionError.message),
+      { enableHighAccuracy: true, maximumAge: LOCATION_PING_INTERVAL_MS / 2 }
+    );
+
+    return () => navigator.geolocation.clearWatch(watchId);
+  }, [enabled, queryClient]);
+
+  return { error };
+}
+
+/**
+ * Sends the device's location as the drop point of orders placed without a
+ * pinned address, so their ETA can follow the partner. Orders that already have
+ * one keep it; nothing is sent when location is unavailable or refused.
+ */
+export async function shareDropPoint(orderIds: string[]) {
+  if (orderIds.length === 0) return;
+  const point = await getDeviceLocation();
+  if (!point) return;
+
+  for (const orderId of orderIds) {
+    const { error } = await supabase.rpc('set_order_drop_point', {
+      p_order_id: orderId,
+      p_latitude: point.latitude,
+      p_longitude: point.longitude,
+    });
+    if (error) console.error('Drop point error:', error);
+  }
+}
+
+// Partners with deliveries in hand and where they last were, kept live through realtime
+export function useActiveDeliveryLocations() {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    const channel = supabase
+      .channel('admin-delivery-locations')
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'delivery_location_pings' },
+        () => {
+          queryClient.invalidateQueries({ queryKey: ['active-delivery-locations'] });
+          queryClient.invalidateQueries({ queryKey: ['location-breadcrumbs'] });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [queryClient]);
+
+  return useQuery({
+    queryKey: ['active-delivery-locations'],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_active_delivery_locations');
+      if (error) throw error;
+      return (data || []) as unknown as ActiveDeliveryLocation[];
+    },
+    // Picks up assignments and handovers between pings
+    refetchInterval: 60_000,
+  });
+}
+
+// A partner's pings over the last two hours, oldest first
+export function useLocationBreadcrumbs(deliveryStaffId: string, enabled = true) {
+  return useQuery({
+    queryKey: ['location-breadcrumbs', deliveryStaffId],
+    queryFn: async () => {
+      const since = new Date(Date.now() - 2 * 60 * 60_000).toISOString();
+      const { data, error } = await supabase
+        .from('delivery_location_pings')
+        .select('latitude, longitude, recorded_at')
+        .eq('delivery_staff_id', deliveryStaffId)
+        .gte('recorded_at', since)
+        .order('recorded_at', { ascending: true })
+        .limit(240);
+      if (error) throw error;
+      return (data || []) as (LocationPoint & { recorded_at: string })[];
+    },
+    enabled,
+  });
+}
@@ -0,0 +1,234 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import type { SubscriptionStatus } from '@/lib/subscriptions';
+
+export interface MealSubscriptionSkip {
+  skip_date: string;
+  reason: 'customer' | 'paused' | 'unavailable';
+  note: string | null;
+  refund_amount: number;
+}
+
+export interface MealSubscriptionOrder {
+  id: string;
+  order_number: string;
+  scheduled_for: string;
+  status: string;
+}
+
+export interface MealSubscription {
+  id: string;
+  customer_id: string;
+  cloud_kitchen_slot_id: string;
+  food_item_id: string;
+  cook_id: string;
+  quantity: number;
+  weekdays: number[];
+  start_date: string;
+  end_date: string;
+  delivery_address: string;
+  meal_price: number;
+  meal_count: number;
+  prepaid_amount: number;
+  balance: number;
+  status: SubscriptionStatus;
+  created_at: string;
+  slot: { name: string; start_time: string; cutoff_hours_before: number } | null;
+  food_item: { name: string; set_size: number } | null;
+  cook: { kitchen_name: string } | null;
+  skips: MealSubscriptionSkip[];
+  orders: MealSubscriptionOrder[];
+  customer?: { name: string; mobile_number: string } | null;
+}
+
+export interface CreateMealSubscriptionInput {
+  cloud_kitchen_slot_id: string;
+  food_item_id: string;
+  cook_id: string;
+  quantity: number;
+  weekdays: number[];
+  start_date: string;
+  weeks: number;
+  panchayat_id: string;
+  ward_number: number;
+  delivery_address: string;
+  delivery_instructions?: string;
+  expected_meal_price?: number;
+}
+
+const SUBSCRIPTION_SELECT = `
+  id,
+  customer_id,
+  cloud_kitchen_slot_id,
+  food_item_id,
+  cook_id,
+  quantity,
+  weekdays,
+  start_date,
+  end_date,
+  delivery_address,
+  meal_price,
+  meal_count,
+  prepaid_amount,
+  balance,
+  status,
+  created_at,
+  slot:cloud_kitchen_slots(name, start_time, cutoff_hours_before),
+  food_item:food_items(name, set_size),
+  cook:cooks(kitchen_name),
+  skips:meal_subscription_skips(skip_date, reason, note, refund_amount),
+  orders(id, order_number, scheduled_for, status)
+`;
+
+// The signed-in customer's meal plans, newest first
+export function useMyMealSubscriptions() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['meal-subscriptions', user?.id],
+    queryFn: async () => {
+      if (!user?.id) return [];
+      const { data, error } = await supabase
+        .from('meal_subscriptions')
+        .select(SUBSCRIPTION_SELECT)
+        .eq('customer_id', user.id)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data as unknown as MealSubscription[];
+    },
+    enabled: !!user?.id,
+  });
+}
+
+// Every plan with its customer, for the cloud kitchen admin
+export function useAdminMealSubscriptions() {
+  return useQuery({
+    queryKey: ['admin-meal-subscriptions'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('meal_subscriptions')
+        .select(SUBSCRIPTION_SELECT)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      const subscriptions = data as unknown as MealSubscription[];
+      const customerIds = [...new Set(subscriptions.map((s) => s.customer_id))];
+      if (customerIds.length === 0) return subscriptions;
+
+      const { data: profiles } = await supabase
+        .from('profiles')
+        .select('user_id, name, mobile_number')
+        .in('user_id', customerIds);
+
+      const profileMap = new Map((profiles || []).map((p) => [p.user_id, p]));
+      return subscriptions.map((s) => ({ ...s, customer: profileMap.get(s.customer_id) ?? null }));
+    },
+  });
+}
+
+export function useMealSubscriptionActions() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['meal-subscriptions'] });
+    queryClient.invalidateQueries({ queryKey: ['admin-meal-subscriptions'] });
+    queryClient.invalidateQueries({ queryKey: ['customer-wallet'] });
+  };
+
+  const onError = (error: Error) => {
+    toast({ title: 'Error', description: error.message, variant: 'destructive' });
+  };
+
+  const createSubscription = useMutation({
+    mutationFn: async (input: CreateMealSubscriptionInput) => {
+      const { data, error } = await supabase.rpc('create_meal_subscription', {
+        p_cloud_kitchen_slot_id: input.cloud_kitchen_slot_id,
+        p_food_item_id: input.food_item_id,
+        p_cook_id: input.cook_id,
+        p_quantity: input.quantity,
+        p_weekdays: input.weekdays,
+        p_start_date: input.start_date,
+        p_weeks: input.weeks,
+        p_panchayat_id: input.panchayat_id,
+        p_ward_number: input.ward_number,
+        p_delivery_address: input.delivery_address,
+        p_delivery_instructions: input.delivery_instructions || undefined,
+        p_expected_meal_price: input.expected_meal_price,
+      });
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (subscription) => {
+      refresh();
+      toast({
+        title: 'Subscription Started',
+        description: `₹${subscription.prepaid_amount} paid from your wallet for ${subscription.meal_count} meals`,
+      });
+    },
+    onError,
+  });
+
+  const skipDay = useMutation({
+    mutationFn: async ({ subscriptionId, date }: { subscriptionId: string; date: string }) => {
+      const { data, error } = await supabase.rpc('skip_subscription_day', {
+        p_subscription_id: subscriptionId,
+        p_date: date,
+      });
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (skip) => {
+      refresh();
+      toast({
+        title: 'Meal Skipped',
+        description: skip.refund_amount > 0 ? `₹${skip.refund_amount} returned to your wallet` : undefined,
+      });
+    },
+    onError,
+  });
+
+  const setStatus = useMutation({
+    mutationFn: async ({ subscriptionId, status }: { subscriptionId: string; status: 'active' | 'paused' | 'cancelled' }) => {
+      const { data, error } = await supabase.rpc('set_meal_subscription_status', {
+        p_subscription_id: subscriptionId,
+        p_status: status,
+      });
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (subscription) => {
+      refresh();
+      const titles: Record<string, string> = {
+        active: 'Subscription Resumed',
+        paused: 'Subscription Paused',
+        cancelled: 'Subscription Cancelled',
+      };
+      toast({ title: titles[subscription.status] ?? 'Subscription Updated' });
+    },
+    onError,
+  });
+
+  // Admins can place due meals without waiting for the scheduled run
+  const generateOrders = useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase.rpc('generate_subscription_orders');
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (placed) => {
+      refresh();
+      toast({ title: placed > 0 ? `${placed} subscription orders placed` : 'No subscription meals are due' });
+    },
+    onError,
+  });
+
+  return { createSubscription, skipDay, setStatus, generateOrders };
+}
@@ -0,0 +1,121 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import type { ModifierGroup } from '@/lib/modifiers';
+
+export interface ModifierGroupInput {
+  food_item_id: string;
+  name: string;
+  selection_type?: 'single' | 'multiple';
+  is_required?: boolean;
+  max_selections?: number | null;
+  display_order?: number;
+  is_active?: boolean;
+}
+
+export interface ModifierOptionInput {
+  group_id: string;
+  name: string;
+  price?: number;
+  is_default?: boolean;
+  is_available?: boolean;
+  display_order?: number;
+}
+
+// Modifier groups of a dish with their options, both in display order
+export const useModifierGroups = (foodItemId: string | undefined) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const queryKey = ['modifier-groups', foodItemId];
+
+  const { data: groups, isLoading } = useQuery({
+    queryKey,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('modifier_groups')
+        .select('*, options:modifier_options(*)')
+        .eq('food_item_id', foodItemId!)
+        .order('display_order');
+
+      if (error) throw error;
+      return (data as unknown as ModifierGroup[]).map(group => ({
+        ...group,
+        options: [...group.options].sort((a, b) => a.display_order - b.display_order),
+      }));
+    },
+    enabled: !!foodItemId,
+  });
+
+  const onSuccess = (title: string) => () => {
+    queryClient.invalidateQueries({ queryKey });
+    toast({ title });
+  };
+  const onError = (error: Error) => {
+    toast({ title: 'Error', description: error.message, variant: 'destructive' });
+  };
+
+  const createGroup = useMutation({
+    mutationFn: async (group: ModifierGroupInput) => {
+      const { error } = await supabase.from('modifier_groups').insert(group);
+      if (error) throw error;
+    },
+    onSuccess: onSuccess('Modifier Group Added'),
+    onError,
+  });
+
+  const updateGroup = useMutation({
+    mutationFn: async ({ id, ...updates }: Partial<ModifierGroupInput> & { id: string }) => {
+      const { error } = await supabase.from('modifier_groups').update(updates).eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: onSuccess('Modifier Group Updated'),
+    onError,
+  });
+
+  const deleteGroup = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from('modifier_groups').delete().eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: onSuccess('Modifier Group Deleted'),
+    onError,
+  });
+
+  const createOption = useMutation({
+    mutationFn: async (option: ModifierOptionInput) => {
+      const { error } = await supabase.from('modifier_options').insert(option);
+      if (error) throw error;
+    },
+    onSuccess: onSuccess('Option Added'),
+    onError,
+  });
+
+  const updateOption = useMutation({
+    mutationFn: async ({ id, ...updates }: Partial<ModifierOptionInput> & { id: string }) => {
+      const { error } = await supabase.from('modifier_options').update(updates).eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: onSuccess('Option Updated'),
+    onError,
+  });
+
+  const deleteOption = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from('modifier_options').delete().eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: onSuccess('Option Deleted'),
+    onError,
+  });
+
+  return {
+    groups: groups || [],
+    isLoading,
+    createGroup,
+    updateGroup,
+    deleteGroup,
+    createOption,
+    updateOption,
+    deleteOption,
+  };
+};
@@ -0,0 +1,91 @@
+import { useCallback, useEffect } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from '@/hooks/use-toast';
+
+export interface AppNotification {
+  id: string;
+  user_id: string;
+  order_id: string | null;
+  type: string;
+  title: string;
+  message: string;
+  read_at: string | null;
+  created_at: string;
+}
+
+/**
+ * Unread in-app notifications for the signed-in user. New ones are shown as a
+ * toast as they arrive and `refreshQueryKeys` are invalidated so lists catch up.
+ */
+export function useNotifications(refreshQueryKeys: string[] = []) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const refreshKeys = refreshQueryKeys.join('|');
+
+  const { data: notifications } = useQuery({
+    queryKey: ['notifications', user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('notifications')
+        .select('*')
+        .eq('user_id', user!.id)
+        .is('read_at', null)
+        .order('created_at', { ascending: false })
+        .limit(20);
+
+      if (error) throw error;
+      return data as AppNotification[];
+    },
+    enabled: !!user?.id,
+  });
+
+  useEffect(() => {
+    if (!user?.id) return;
+
+    const channel = supabase
+      .channel(`notifications-${user.id}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'notifications',
+          filter: `user_id=eq.${user.id}`,
+        },
+        (payload) => {
+          const notification = payload.new as AppNotification;
+          toast({
+            title: notification.title,
+            description: notification.message,
+            variant: notification.type === 'order_cancelled' ? 'destructive' : 'default',
+          });
+          queryClient.invalidateQueries({ queryKey: ['notifications', user.id] });
+          refreshKeys.split('|').filter(Boolean).forEach((key) => {
+            queryClient.invalidateQueries({ queryKey: [key] });
+          });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user?.id, queryClient, refreshKeys]);
+
+  const markAllRead = useCallback(async () => {
+    if (!user?.id) return;
+    await supabase
+      .from('notifications')
+      .update({ read_at: new Date().toISOString() })
+      .eq('user_id', user.id)
+      .is('read_at', null);
+    queryClient.invalidateQueries({ queryKey: ['notifications', user.id] });
+  }, [user?.id, queryClient]);
+
+  return {
+    notifications: notifications || [],
+    markAllRead,
+  };
+}
@@ -0,0 +1,162 @@
+import { useCallback, useRef, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+
+// checkout_group pays for every order placed together in one checkout
+export type PaymentPurpose = 'order' | 'event_advance' | 'checkout_group';
+
+export interface PaymentIntent {
+  payment_id: string;
+  provider: 'razorpay' | 'mock';
+  provider_order_id: string;
+  amount: number;
+  currency: string;
+  order_number: string;
+  checkout: { key_id?: string };
+}
+
+export interface PaymentResult {
+  // dismissed: the customer closed the checkout without paying
+  status: 'captured' | 'failed' | 'dismissed';
+  error?: string;
+}
+
+interface RazorpayInstance {
+  open(): void;
+}
+
+type RazorpayConstructor = new (options: Record<string, unknown>) => RazorpayInstance;
+
+const RAZORPAY_CHECKOUT_URL = 'https://checkout.razorpay.com/v1/checkout.js';
+
+const loadRazorpay = (): Promise<RazorpayConstructor> => {
+  const existing = (window as unknown as { Razorpay?: RazorpayConstructor }).Razorpay;
+  if (existing) return Promise.resolve(existing);
+
+  return new Promise((resolve, reject) => {
+    const script = document.createElement('script');
+    script.src = RAZORPAY_CHECKOUT_URL;
+    script.onload = () => resolve((window as unknown as { Razorpay: RazorpayConstructor }).Razorpay);
+    script.onerror = () => reject(new Error('Could not load the payment page'));
+    document.body.appendChild(script);
+  });
+};
+
+// The payments edge function reports failures as { error } with a non-2xx status
+const invokePayments = async <T>(body: Record<string, unknown>): Promise<T> => {
+  const { data, error } = await supabase.functions.invoke('payments', { body });
+  if (error) {
+    const details = await (error as { context?: Response }).context?.json?.().catch(() => null);
+    throw new Error(details?.error || error.message);
+  }
+  return data as T;
+};
+
+const verifyCheckout = async (paymentId: string, providerPaymentId: string, signature: string): Promise<PaymentResult> => {
+  const result = await invokePayments<{ status: string; failure_reason: string | null }>({
+    action: 'verify',
+    payment_id: paymentId,
+    provider_payment_id: providerPaymentId,
+    signature,
+  });
+  return result.status === 'captured'
+    ? { status: 'captured' }
+    : { status: 'failed', error: result.failure_reason || 'Payment was not completed' };
+};
+
+/**
+ * Collects an online payment for an order through the payments edge function.
+ * With the mock provider the page must render MockPaymentDialog with `mockCheckout`.
+ */
+export const useOnlinePayment = () => {
+  const { profile } = useAuth();
+  const [isPaying, setIsPaying] = useState(false);
+  const [mockIntent, setMockIntent] = useState<PaymentIntent | null>(null);
+  const [isCompletingMock, setIsCompletingMock] = useState(false);
+  const mockResolver = useRef<((result: PaymentResult) => void) | null>(null);
+
+  // targetId is the checkout group's id for checkout_group, otherwise the order's
+  const pay = useCallback(async (targetId: string, purpose: PaymentPurpose): Promise<PaymentResult> => {
+    setIsPaying(true);
+    try {
+      const intent = await invokePayments<PaymentIntent>({
+        action: 'create',
+        ...(purpose === 'checkout_group' ? { checkout_group_id: targetId } : { order_id: targetId }),
+        purpose,
+      });
+
+      let result: PaymentResult;
+      if (intent.provider === 'mock') {
+        result = await new Promise<PaymentResult>((resolve) => {
+          mockResolver.current = resolve;
+          setMockIntent(intent);
+        });
+      } else {
+        const Razorpay = await loadRazorpay();
+        result = await new Promise<PaymentResult>((resolve) => {
+          new Razorpay({
+            key: intent.checkout.key_id,
+            order_id: intent.provider_order_id,
+            amount: Math.round(intent.amount * 100),
+            currency: intent.currency,
+            name: 'Penny Carbs',
+            description: `Order #${intent.order_number}`,
+            prefill: { name: profile?.name, contact: profile?.mobile_number },
+            handler: (response: { razorpay_payment_id: string; razorpay_signature: string }) => {
+              verifyCheckout(intent.payment_id, response.razorpay_payment_id, response.razorpay_signature)
+                .then(resolve)
+                .catch((err: Error) => resolve({ status: 'failed', error: err.message }));
+            },
+            modal: { ondismiss: () => resolve({ status: 'dismissed' }) },
+          }).open();
+        });
+      }
+
+      return result;
+    } catch (error) {
+      console.error('Online payment failed:', error);
+      return { status: 'failed', error: (error as Error).message };
+    } finally {
+      setIsPaying(false);
+    }
+  }, [profile]);
+
+  const completeMock = useCallback(async (outcome: 'success' | 'failure' | 'dismissed') => {
+    const intent = mockIntent;
+    const resolve = mockResolver.current;
+    if (!intent || !resolve) return;
+
+    let result: PaymentResult = { status: 'dismissed' };
+    if (outcome !== 'dismissed') {
+      setIsCompletingMock(true);
+      try {
+        const response = await invokePayments<{ status: string; failure_reason: string | null }>({
+          action: 'mock_complete',
+          payment_id: intent.payment_id,
+          outcome,
+        });
+        result = response.status === 'captured'
+          ? { status: 'captured' }
+          : { status: 'failed', error: response.failure_reason || 'Payment was not completed' };
+      } catch (error) {
+        result = { status: 'failed', error: (error as Error).message };
+      } finally {
+        setIsCompletingMock(false);
+      }
+    }
+
+    mockResolver.current = null;
+    setMockIntent(null);
+    resolve(result);
+  }, [mockIntent]);
+
+  return {
+    pay,
+    isPaying,
+    mockCheckout: {
+      intent: mockIntent,
+      isProcessing: isCompletingMock,
+      onComplete: completeMock,
+    },
+  };
+};
@@ -0,0 +1,120 @@
+import { useQueries, useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { ServiceType } from '@/types/database';
+import type { SelectedModifier } from '@/lib/modifiers';
+
+export interface OrderQuoteLineInput {
+  food_item_id: string;
+  // Units (pieces); for cloud kitchen items this is sets * set_size
+  quantity: number;
+  cook_id?: string | null;
+  modifier_option_ids?: string[];
+}
+
+export interface OrderQuoteLine {
+  food_item_id: string;
+  cook_id: string | null;
+  quantity: number;
+  base_price: number;
+  cook_custom_price: number | null;
+  platform_margin: number;
+  modifier_option_ids: string[];
+  modifiers: SelectedModifier[];
+  // Per unit, included in unit_price
+  modifier_price: number;
+  discount: number;
+  unit_price: number;
+  line_total: number;
+  coupon_discount: number;
+  tax_rate: number;
+  cgst_amount: number;
+  sgst_amount: number;
+}
+
+export interface OrderQuote {
+  lines: OrderQuoteLine[];
+  item_total: number;
+  discount_total: number;
+  subtotal: number;
+  coupon_id: string | null;
+  coupon_code: string | null;
+  coupon_discount: number;
+  // Set when the requested coupon cannot be applied; the quote is then without it
+  coupon_error: string | null;
+  delivery_charge: number;
+  delivery_tax_rate: number;
+  delivery_tax: number;
+  cgst_total: number;
+  sgst_total: number;
+  tax_total: number;
+  total: number;
+}
+
+export interface OrderQuoteOptions {
+  couponCode?: string | null;
+  // Needed for panchayat-scoped coupons
+  panchayatId?: string | null;
+}
+
+const fetchOrderQuote = async (
+  serviceType: ServiceType,
+  lines: OrderQuoteLineInput[],
+  cloudKitchenSlotId: string | null,
+  couponCode: string | null,
+  panchayatId: string | null
+) => {
+  const { data, error } = await supabase.rpc('quote_order', {
+    p_service_type: serviceType,
+    p_items: lines.map(line => ({
+      food_item_id: line.food_item_id,
+      quantity: line.quantity,
+      cook_id: line.cook_id ?? null,
+      modifier_option_ids: line.modifier_option_ids ?? [],
+    })),
+    p_cloud_kitchen_slot_id: cloudKitchenSlotId ?? undefined,
+    p_coupon_code: couponCode ?? undefined,
+    p_panchayat_id: panchayatId ?? undefined,
+  });
+
+  if (error) throw error;
+  return data as unknown as OrderQuote;
+};
+
+/**
+ * Server-computed price quote for a set of cart lines (quote_order RPC).
+ * The same quote is recomputed by place_order, which rejects stale totals.
+ */
+export const useOrderQuote = (
+  serviceType: ServiceType | null,
+  lines: OrderQuoteLineInput[],
+  cloudKitchenSlotId?: string | null,
+  options: OrderQuoteOptions = {}
+) => {
+  const couponCode = options.couponCode || null;
+  const panchayatId = options.panchayatId || null;
+
+  return useQuery({
+    queryKey: ['order-quote', serviceType, cloudKitchenSlotId ?? null, couponCode, panchayatId, lines],
+    queryFn: () => fetchOrderQuote(serviceType!, lines, cloudKitchenSlotId ?? null, couponCode, panchayatId),
+    enabled: !!serviceType && lines.length > 0,
+    retry: false,
+  });
+};
+
+export interface CheckoutQuoteGroup {
+  serviceType: ServiceType;
+  lines: OrderQuoteLineInput[];
+  couponCode?: string | null;
+}
+
+// One quote per order of a split checkout, in the order the groups are given
+export const useCheckoutQuotes = (groups: CheckoutQuoteGroup[], panchayatId?: string | null) => {
+  return useQueries({
+    queries: groups.map(group => ({
+      queryKey: ['order-quote', group.serviceType, null, group.couponCode || null, panchayatId || null, group.lines],
+      queryFn: () => fetchOrderQuote(group.serviceType, group.lines, null, group.couponCode || null, panchayatId || null),
+      enabled: group.lines.length > 0,
+      retry: false,
+    })),
+  });
+};
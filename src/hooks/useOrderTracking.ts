@@ -0,0 +1,100 @@
+import { useEffect, useRef } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Order, OrderStatusHistoryEntry } from '@/types/database';
+
+export interface DeliveryPartner {
+  name: string;
+  mobile_number: string;
+  vehicle_type: string;
+  vehicle_number: string | null;
+}
+
+/**
+ * Status history and delivery partner for an order, kept live through realtime.
+ * `onOrderChange` receives the updated orders row whenever it changes.
+ */
+export const useOrderTracking = (
+  orderId: string | undefined,
+  assignedDeliveryId: string | null | undefined,
+  onOrderChange: (order: Order) => void
+) => {
+  const queryClient = useQueryClient();
+  // Keep the latest callback without resubscribing on every render
+  const onOrderChangeRef = useRef(onOrderChange);
+  onOrderChangeRef.current = onOrderChange;
+
+  const historyQuery = useQuery({
+    queryKey: ['order-status-history', orderId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('order_status_history')
+        .select('*')
+        .eq('order_id', orderId!)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return data as OrderStatusHistoryEntry[];
+    },
+    enabled: !!orderId,
+  });
+
+  const partnerQuery = useQuery({
+    queryKey: ['order-delivery-partner', orderId, assignedDeliveryId],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_order_delivery_partner', {
+        p_order_id: orderId!,
+      });
+
+      if (error) throw error;
+      return (data?.[0] ?? null) as DeliveryPartner | null;
+    },
+    enabled: !!orderId && !!assignedDeliveryId,
+  });
+
+  useEffect(() => {
+    if (!orderId) return;
+
+    const channel = supabase
+      .channel(`order-tracking-${orderId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'orders',
+          filter: `id=eq.${orderId}`,
+        },
+        (payload) => {
+          onOrderChangeRef.current(payload.new as Order);
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'order_status_history',
+          filter: `order_id=eq.${orderId}`,
+        },
+        (payload) => {
+          const entry = payload.new as OrderStatusHistoryEntry;
+          queryClient.setQueryData<OrderStatusHistoryEntry[]>(
+            ['order-status-history', orderId],
+            (prev) => (prev?.some((e) => e.id === entry.id) ? prev : [...(prev ?? []), entry])
+          );
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [orderId, queryClient]);
+
+  return {
+    history: historyQuery.data ?? [],
+    deliveryPartner: partnerQuery.data ?? null,
+    isLoading: historyQuery.isLoading,
+  };
+};
@@ -0,0 +1,49 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  FULL_ACCESS,
+  NO_ACCESS,
+  hasPermissionLevel,
+  permissionsFromRow,
+  type AdminPermission,
+  type AdminPermissionLevels,
+} from '@/lib/permissions';
+
+/**
+ * Access levels of the signed-in admin for every admin area.
+ * Super admins have edit access everywhere; everyone else has none.
+ */
+export function useAdminPermissions() {
+  const { user, role } = useAuth();
+
+  return useQuery({
+    queryKey: ['admin-permissions', user?.id, role],
+    queryFn: async (): Promise<AdminPermissionLevels> => {
+      if (role === 'super_admin') return FULL_ACCESS;
+      if (role !== 'admin') return NO_ACCESS;
+
+      const { data, error } = await supabase
+        .from('admin_permissions')
+        .select('*')
+        .eq('user_id', user!.id)
+        .maybeSingle();
+      if (error) throw error;
+      return permissionsFromRow(data);
+    },
+    enabled: !!user && !!role,
+  });
+}
+
+export function usePermission(permission: AdminPermission) {
+  const { isLoading: authLoading } = useAuth();
+  const { data, isLoading } = useAdminPermissions();
+  const level = data?.[permission] ?? 'none';
+
+  return {
+    level,
+    canView: hasPermissionLevel(level, 'view'),
+    canEdit: hasPermissionLevel(level, 'edit'),
+    isLoading: authLoading || isLoading,
+  };
+}
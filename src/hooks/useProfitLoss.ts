@@ -4,7 +4,9 @@ import { ReportFilters } from '@/types/reports';
 import { calculatePlatformMargin } from '@/lib/priceUtils';
 
 export interface ProfitLossData {
+  // Net of GST; collected tax is a liability, reported separately
   totalRevenue: number;
+  taxCollected: number;
   platformMarginRevenue: number;
   cookPayouts: number;
   deliveryPayouts: number;
@@ -40,6 +42,8 @@ export const useProfitLossReport = (filters: ReportFilters) => {
         .select(`
           id,
           total_amount,
+          cgst_amount,
+          sgst_amount,
           service_type,
           delivery_earnings,
           created_at,
@@ -98,6 +102,7 @@ export const useProfitLossReport = (filters: ReportFilters) => {
 
       // Calculate totals
       let totalRevenue = 0;
+      let taxCollected = 0;
       let platformMarginRevenue = 0;
       let cookPayouts = 0;
       let deliveryPayouts = 0;
@@ -106,8 +111,10 @@ export const useProfitLossReport = (filters: ReportFilters) => {
       const byDate: Record<string, ProfitLossByDate> = {};
 
       orders?.forEach(order => {
-        const orderTotal = order.total_amount || 0;
+        const orderTax = (order.cgst_amount || 0) + (order.sgst_amount || 0);
+        const orderTotal = (order.total_amount || 0) - orderTax;
         totalRevenue += orderTotal;
+        taxCollected += orderTax;
         deliveryPayouts += order.delivery_earnings || 0;
 
         // Calculate platform margin from order items
@@ -183,6 +190,7 @@ export const useProfitLossReport = (filters: ReportFilters) => {
       return {
         summary: {
           totalRevenue,
+          taxCollected,
           platformMarginRevenue,
           cookPayouts,
           deliveryPayouts,
@@ -0,0 +1,82 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useLocation as useLocationContext } from '@/contexts/LocationContext';
+import type { ModifierGroup, ModifierPriceOverrides, SelectedModifier } from '@/lib/modifiers';
+import {
+  reconcileReorder,
+  type CurrentCookDish,
+  type CurrentDish,
+  type PastOrderLine,
+  type ReorderMenu,
+} from '@/lib/reorder';
+
+const emptyMenu = (): ReorderMenu => ({ dishes: new Map(), cookDishes: [], modifierGroups: [] });
+
+// A past order's lines checked against today's menu, dishes and cooks
+export const useReorder = (orderId: string | undefined) => {
+  const { profile } = useAuth();
+  const { selectedPanchayat } = useLocationContext();
+  const panchayatId = selectedPanchayat?.id ?? profile?.panchayat_id ?? null;
+
+  return useQuery({
+    queryKey: ['reorder', orderId, panchayatId],
+    queryFn: async () => {
+      const { data: items, error } = await supabase
+        .from('order_items')
+        .select('food_item_id, quantity, unit_price, assigned_cook_id, modifiers, food_item:food_items(name)')
+        .eq('order_id', orderId!);
+
+      if (error) throw error;
+
+      const lines: PastOrderLine[] = (items || []).map((item) => ({
+        food_item_id: item.food_item_id,
+        name: item.food_item?.name ?? 'Item',
+        quantity: item.quantity,
+        unit_price: Number(item.unit_price),
+        cook_id: item.assigned_cook_id,
+        modifiers: (item.modifiers as unknown as SelectedModifier[] | null) || [],
+      }));
+
+      const foodItemIds = [...new Set(lines.map((line) => line.food_item_id))];
+      if (!foodItemIds.length) return { lines: [], menu: emptyMenu() };
+
+      const [dishesResult, cookDishesResult, groupsResult] = await Promise.all([
+        supabase
+          .from('food_items')
+          .select(`
+            id, price, platform_margin_type, platform_margin_value, discount_percent, discount_amount,
+            set_size, min_order_sets, is_available, available_all_panchayats, available_panchayat_ids
+          `)
+          .in('id', foodItemIds),
+        supabase
+          .from('cook_dishes')
+          .select('cook_id, food_item_id, custom_price, modifier_prices, is_coming_soon, cook:cooks(is_active, is_available)')
+          .in('food_item_id', foodItemIds),
+        supabase
+          .from('modifier_groups')
+          .select('*, options:modifier_options(*)')
+          .in('food_item_id', foodItemIds),
+      ]);
+
+      if (dishesResult.error) throw dishesResult.error;
+      if (cookDishesResult.error) throw cookDishesResult.error;
+      if (groupsResult.error) throw groupsResult.error;
+
+      const menu: ReorderMenu = {
+        dishes: new Map((dishesResult.data as CurrentDish[]).map((dish) => [dish.id, dish])),
+        cookDishes: (cookDishesResult.data || []).map((cd): CurrentCookDish => ({
+          cook_id: cd.cook_id,
+          food_item_id: cd.food_item_id,
+          custom_price: cd.custom_price,
+          modifier_prices: cd.modifier_prices as unknown as ModifierPriceOverrides | null,
+          cook_available: !!cd.cook?.is_active && !!cd.cook?.is_available && !cd.is_coming_soon,
+        })),
+        modifierGroups: groupsResult.data as unknown as ModifierGroup[],
+      };
+
+      return { lines: reconcileReorder(lines, menu, panchayatId), menu };
+    },
+    enabled: !!orderId,
+  });
+};
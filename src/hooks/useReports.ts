@@ -1,6 +1,7 @@
 import { useQuery } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
-import { ReportFilters } from '@/types/reports';
+import { ReportFilters, TaxLiabilityData } from '@/types/reports';
+import { toPaise } from '@/lib/priceUtils';
 
 export const useSalesReport = (filters: ReportFilters) => {
   return useQuery({
@@ -203,6 +204,105 @@ export const useVehicleRentReport = (filters: ReportFilters) => {
   });
 };
 
+// GST collected on non-cancelled orders, grouped by component and rate
+export const useTaxLiabilityReport = (filters: ReportFilters) => {
+  return useQuery({
+    queryKey: ['tax-liability-report', filters],
+    queryFn: async () => {
+      let query = supabase
+        .from('orders')
+        .select(`
+          id,
+          delivery_amount,
+          delivery_tax_rate,
+          delivery_tax_amount,
+          service_charge_amount,
+          service_charge_tax_rate,
+          service_charge_tax_amount,
+          order_items(total_price, coupon_discount, tax_rate, cgst_amount, sgst_amount)
+        `)
+        .neq('status', 'cancelled');
+
+      if (filters.startDate) {
+        query = query.gte('created_at', filters.startDate.toISOString());
+      }
+      if (filters.endDate) {
+        query = query.lte('created_at', filters.endDate.toISOString());
+      }
+      if (filters.serviceType && filters.serviceType !== 'all') {
+        query = query.eq('service_type', filters.serviceType as 'indoor_events' | 'cloud_kitchen' | 'homemade');
+      }
+      if (filters.panchayatId && filters.panchayatId !== 'all') {
+        query = query.eq('panchayat_id', filters.panchayatId);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      // Sum in paise, then convert once per row
+      const groups: Record<string, { row: TaxLiabilityData; orderIds: Set<string>; taxable: number; cgst: number; sgst: number }> = {};
+      const add = (
+        orderId: string,
+        component: TaxLiabilityData['component'],
+        rate: number,
+        taxable: number,
+        cgst: number,
+        sgst: number
+      ) => {
+        const key = `${component}:${rate}`;
+        if (!groups[key]) {
+          groups[key] = {
+            row: { component, tax_rate: rate, order_count: 0, taxable_value: 0, cgst_amount: 0, sgst_amount: 0, total_tax: 0 },
+            orderIds: new Set(),
+            taxable: 0,
+            cgst: 0,
+            sgst: 0,
+          };
+        }
+        const group = groups[key];
+        group.orderIds.add(orderId);
+        group.taxable += toPaise(taxable);
+        group.cgst += toPaise(cgst);
+        group.sgst += toPaise(sgst);
+      };
+
+      data?.forEach(order => {
+        // Coupon discounts reduce the taxable value of the line they were allocated to
+        order.order_items?.forEach(item => {
+          const taxable = (item.total_price || 0) - (item.coupon_discount || 0);
+          add(order.id, 'food', item.tax_rate || 0, taxable, item.cgst_amount || 0, item.sgst_amount || 0);
+        });
+
+        // Charge taxes are stored as a total; CGST takes the odd paisa
+        if ((order.delivery_amount || 0) > 0) {
+          const taxPaise = toPaise(order.delivery_tax_amount || 0);
+          const cgstPaise = Math.round(taxPaise / 2);
+          add(order.id, 'delivery', order.delivery_tax_rate || 0, order.delivery_amount || 0, cgstPaise / 100, (taxPaise - cgstPaise) / 100);
+        }
+        if ((order.service_charge_amount || 0) > 0) {
+          const taxPaise = toPaise(order.service_charge_tax_amount || 0);
+          const cgstPaise = Math.round(taxPaise / 2);
+          add(order.id, 'service_charge', order.service_charge_tax_rate || 0, order.service_charge_amount || 0, cgstPaise / 100, (taxPaise - cgstPaise) / 100);
+        }
+      });
+
+      const componentOrder: TaxLiabilityData['component'][] = ['food', 'delivery', 'service_charge'];
+      return Object.values(groups)
+        .map(({ row, orderIds, taxable, cgst, sgst }) => ({
+          ...row,
+          order_count: orderIds.size,
+          taxable_value: taxable / 100,
+          cgst_amount: cgst / 100,
+          sgst_amount: sgst / 100,
+          total_tax: (cgst + sgst) / 100,
+        }))
+        .sort((a, b) =>
+          componentOrder.indexOf(a.component) - componentOrder.indexOf(b.component) || a.tax_rate - b.tax_rate
+        );
+    },
+  });
+};
+
 export const usePanchayats = () => {
   return useQuery({
     queryKey: ['panchayats'],
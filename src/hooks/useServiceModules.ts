@@ -7,6 +7,8 @@ export interface ServiceModule {
   service_type: string;
   name: string;
   is_active: boolean;
+  // How many days after today customers can order for
+  max_advance_days: number;
   created_at: string;
   updated_at: string;
 }
@@ -59,3 +61,30 @@ export function useToggleServiceModule() {
     },
   });
 }
+
+// Days ahead a service takes orders for; 0 (today only) until modules load
+export function useMaxAdvanceDays(serviceType: string) {
+  const { data: modules } = useServiceModules();
+  return modules?.find((m) => m.service_type === serviceType)?.max_advance_days ?? 0;
+}
+
+export function useUpdateMaxAdvanceDays() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, max_advance_days }: { id: string; max_advance_days: number }) => {
+      const { error } = await supabase
+        .from('service_modules')
+        .update({ max_advance_days, updated_at: new Date().toISOString() })
+        .eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['service-modules'] });
+      toast({ title: 'Advance ordering updated' });
+    },
+    onError: (error) => {
+      toast({ title: 'Failed to update module', description: error.message, variant: 'destructive' });
+    },
+  });
+}
@@ -0,0 +1,114 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+
+export type TaxAppliesTo = 'food' | 'delivery' | 'service_charge';
+
+export interface TaxClass {
+  id: string;
+  name: string;
+  hsn_sac_code: string | null;
+  // Total GST percent, split equally into CGST and SGST
+  rate_percent: number;
+  applies_to: TaxAppliesTo;
+  is_active: boolean;
+  display_order: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface TaxClassInput {
+  name: string;
+  hsn_sac_code?: string | null;
+  rate_percent: number;
+  applies_to: TaxAppliesTo;
+  is_active?: boolean;
+  display_order?: number;
+}
+
+export const useTaxClasses = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: taxClasses, isLoading } = useQuery({
+    queryKey: ['tax-classes'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('tax_classes')
+        .select('*')
+        .order('applies_to')
+        .order('display_order');
+
+      if (error) throw error;
+      return data as TaxClass[];
+    },
+  });
+
+  const createTaxClass = useMutation({
+    mutationFn: async (taxClass: TaxClassInput) => {
+      const { data, error } = await supabase
+        .from('tax_classes')
+        .insert(taxClass)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['tax-classes'] });
+      toast({ title: 'Tax Class Created' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const updateTaxClass = useMutation({
+    mutationFn: async ({ id, ...updates }: Partial<TaxClassInput> & { id: string }) => {
+      const { data, error } = await supabase
+        .from('tax_classes')
+        .update(updates)
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['tax-classes'] });
+      toast({ title: 'Tax Class Updated' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const deleteTaxClass = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('tax_classes')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['tax-classes'] });
+      toast({ title: 'Tax Class Deleted', description: 'Items and categories using it are now untaxed.' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  return {
+    taxClasses: taxClasses || [],
+    foodTaxClasses: (taxClasses || []).filter(tc => tc.applies_to === 'food'),
+    isLoading,
+    createTaxClass,
+    updateTaxClass,
+    deleteTaxClass,
+  };
+};
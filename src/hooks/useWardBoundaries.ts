@@ -0,0 +1,70 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { LocationPoint, WardBoundaryInput } from '@/lib/geo';
+
+// What locate_ward returns
+export interface WardLookup {
+  found: boolean;
+  panchayat_id: string | null;
+  panchayat_name: string | null;
+  ward_number: number | null;
+  // Whether the pin's panchayat, or else the one passed in, has uploaded
+  // boundaries; without them the ward is still picked by hand
+  coverage_configured: boolean;
+}
+
+// The ward a pin falls in, for an address in panchayatId
+export function useWardAt(point: LocationPoint | null, panchayatId?: string) {
+  return useQuery({
+    queryKey: ['ward-at', point?.latitude.toFixed(6), point?.longitude.toFixed(6), panchayatId],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('locate_ward', {
+        p_latitude: point!.latitude,
+        p_longitude: point!.longitude,
+        p_panchayat_id: panchayatId,
+      });
+      if (error) throw error;
+      return data as unknown as WardLookup;
+    },
+    enabled: !!point,
+    staleTime: 5 * 60_000,
+  });
+}
+
+// Number of wards with an uploaded boundary, per panchayat
+export function useWardBoundaryCounts() {
+  return useQuery({
+    queryKey: ['ward-boundary-counts'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('ward_boundaries')
+        .select('panchayat_id');
+      if (error) throw error;
+
+      const counts: Record<string, number> = {};
+      data?.forEach(({ panchayat_id }) => {
+        counts[panchayat_id] = (counts[panchayat_id] || 0) + 1;
+      });
+      return counts;
+    },
+  });
+}
+
+export function useReplaceWardBoundaries() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ panchayatId, boundaries }: { panchayatId: string; boundaries: WardBoundaryInput[] }) => {
+      const { data, error } = await supabase.rpc('replace_ward_boundaries', {
+        p_panchayat_id: panchayatId,
+        p_boundaries: boundaries,
+      });
+      if (error) throw error;
+      return data as number;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['ward-boundary-counts'] });
+      queryClient.invalidateQueries({ queryKey: ['ward-at'] });
+    },
+  });
+}
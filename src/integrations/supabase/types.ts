@@ -68,6 +68,78 @@ export type Database = {
         }
         Relationships: []
       }
+      audit_log: {
+        Row: {
+          action: string
+          actor_id: string | null
+          actor_role: string | null
+          changed_fields: string[] | null
+          created_at: string
+          id: string
+          new_data: Json | null
+          old_data: Json | null
+          record_id: string | null
+          table_name: string
+        }
+        Insert: {
+          action: string
+          actor_id?: string | null
+          actor_role?: string | null
+          changed_fields?: string[] | null
+          created_at?: string
+          id?: string
+          new_data?: Json | null
+          old_data?: Json | null
+          record_id?: string | null
+          table_name: string
+        }
+        Update: {
+          action?: string
+          actor_id?: string | null
+          actor_role?: string | null
+          changed_fields?: string[] | null
+          created_at?: string
+          id?: string
+          new_data?: Json | null
+          old_data?: Json | null
+          record_id?: string | null
+          table_name?: string
+        }
+        Relationships: []
+      }
+      auth_otps: {
+        Row: {
+          attempts: number
+          code_hash: string
+          consumed_at: string | null
+          created_at: string
+          expires_at: string
+          id: string
+          mobile_number: string
+          requested_ip: string | null
+        }
+        Insert: {
+          attempts?: number
+          code_hash: string
+          consumed_at?: string | null
+          created_at?: string
+          expires_at: string
+          id?: string
+          mobile_number: string
+          requested_ip?: string | null
+        }
+        Update: {
+          attempts?: number
+          code_hash?: string
+          consumed_at?: string | null
+          created_at?: string
+          expires_at?: string
+          id?: string
+          mobile_number?: string
+          requested_ip?: string | null
+        }
+        Relationships: []
+      }
       banners: {
         Row: {
           created_at: string
@@ -110,11 +182,60 @@ export type Database = {
         }
         Relationships: []
       }
+      cancellation_policies: {
+        Row: {
+          allow_cancellation: boolean
+          created_at: string
+          description: string | null
+          display_order: number
+          fee_percent: number
+          forfeit_advance: boolean
+          id: string
+          is_active: boolean
+          min_days_before_event: number | null
+          name: string
+          order_statuses: Database["public"]["Enums"]["order_status"][] | null
+          service_type: Database["public"]["Enums"]["service_type"]
+          updated_at: string
+        }
+        Insert: {
+          allow_cancellation?: boolean
+          created_at?: string
+          description?: string | null
+          display_order?: number
+          fee_percent?: number
+          forfeit_advance?: boolean
+          id?: string
+          is_active?: boolean
+          min_days_before_event?: number | null
+          name: string
+          order_statuses?: Database["public"]["Enums"]["order_status"][] | null
+          service_type: Database["public"]["Enums"]["service_type"]
+          updated_at?: string
+        }
+        Update: {
+          allow_cancellation?: boolean
+          created_at?: string
+          description?: string | null
+          display_order?: number
+          fee_percent?: number
+          forfeit_advance?: boolean
+          id?: string
+          is_active?: boolean
+          min_days_before_event?: number | null
+          name?: string
+          order_statuses?: Database["public"]["Enums"]["order_status"][] | null
+          service_type?: Database["public"]["Enums"]["service_type"]
+          updated_at?: string
+        }
+        Relationships: []
+      }
       cart_items: {
         Row: {
           created_at: string
           food_item_id: string
           id: string
+          modifier_option_ids: string[]
           quantity: number
           selected_cook_id: string | null
           updated_at: string
@@ -124,6 +245,7 @@ export type Database = {
           created_at?: string
           food_item_id: string
           id?: string
+          modifier_option_ids?: string[]
           quantity?: number
           selected_cook_id?: string | null
           updated_at?: string
@@ -133,6 +255,7 @@ export type Database = {
           created_at?: string
           food_item_id?: string
           id?: string
+          modifier_option_ids?: string[]
           quantity?: number
           selected_cook_id?: string | null
           updated_at?: string
@@ -155,6 +278,104 @@ export type Database = {
           },
         ]
       }
+      cash_closings: {
+        Row: {
+          admin_note: string | null
+          business_date: string
+          carried_forward: number
+          created_at: string
+          cutoff_at: string
+          declared_amount: number | null
+          declared_at: string | null
+          declared_note: string | null
+          delivery_staff_id: string
+          deposited_amount: number | null
+          expected_amount: number
+          id: string
+          is_flagged: boolean
+          outstanding_amount: number | null
+          period_start: string | null
+          status: string
+          updated_at: string
+          verified_at: string | null
+          verified_by: string | null
+        }
+        Insert: {
+          admin_note?: string | null
+          business_date: string
+          carried_forward?: number
+          created_at?: string
+          cutoff_at: string
+          declared_amount?: number | null
+          declared_at?: string | null
+          declared_note?: string | null
+          delivery_staff_id: string
+          deposited_amount?: number | null
+          expected_amount?: number
+          id?: string
+          is_flagged?: boolean
+          outstanding_amount?: number | null
+          period_start?: string | null
+          status?: string
+          updated_at?: string
+          verified_at?: string | null
+          verified_by?: string | null
+        }
+        Update: {
+          admin_note?: string | null
+          business_date?: string
+          carried_forward?: number
+          created_at?: string
+          cutoff_at?: string
+          declared_amount?: number | null
+          declared_at?: string | null
+          declared_note?: string | null
+          delivery_staff_id?: string
+          deposited_amount?: number | null
+          expected_amount?: number
+          id?: string
+          is_flagged?: boolean
+          outstanding_amount?: number | null
+          period_start?: string | null
+          status?: string
+          updated_at?: string
+          verified_at?: string | null
+          verified_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cash_closings_delivery_staff_id_fkey"
+            columns: ["delivery_staff_id"]
+            isOneToOne: false
+            referencedRelation: "delivery_staff"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      checkout_groups: {
+        Row: {
+          created_at: string
+          customer_id: string
+          id: string
+          total_amount: number
+          wallet_amount: number
+        }
+        Insert: {
+          created_at?: string
+          customer_id: string
+          id?: string
+          total_amount?: number
+          wallet_amount?: number
+        }
+        Update: {
+          created_at?: string
+          customer_id?: string
+          id?: string
+          total_amount?: number
+          wallet_amount?: number
+        }
+        Relationships: []
+      }
       cloud_kitchen_slots: {
         Row: {
           created_at: string
@@ -608,6 +829,7 @@ export type Database = {
           food_item_id: string
           id: string
           is_coming_soon: boolean
+          modifier_prices: Json
           updated_at: string
           youtube_video_url: string | null
         }
@@ -620,6 +842,7 @@ export type Database = {
           food_item_id: string
           id?: string
           is_coming_soon?: boolean
+          modifier_prices?: Json
           updated_at?: string
           youtube_video_url?: string | null
         }
@@ -632,6 +855,7 @@ export type Database = {
           food_item_id?: string
           id?: string
           is_coming_soon?: boolean
+          modifier_prices?: Json
           updated_at?: string
           youtube_video_url?: string | null
         }
@@ -664,7 +888,6 @@ export type Database = {
           kitchen_name: string
           mobile_number: string
           panchayat_id: string | null
-          password_hash: string | null
           rating: number | null
           total_orders: number | null
           updated_at: string
@@ -681,7 +904,6 @@ export type Database = {
           kitchen_name: string
           mobile_number: string
           panchayat_id?: string | null
-          password_hash?: string | null
           rating?: number | null
           total_orders?: number | null
           updated_at?: string
@@ -698,7 +920,6 @@ export type Database = {
           kitchen_name?: string
           mobile_number?: string
           panchayat_id?: string | null
-          password_hash?: string | null
           rating?: number | null
           total_orders?: number | null
           updated_at?: string
@@ -714,6 +935,111 @@ export type Database = {
           },
         ]
       }
+      coupon_redemptions: {
+        Row: {
+          coupon_id: string
+          created_at: string
+          discount_amount: number
+          id: string
+          order_id: string
+          user_id: string
+        }
+        Insert: {
+          coupon_id: string
+          created_at?: string
+          discount_amount?: number
+          id?: string
+          order_id: string
+          user_id: string
+        }
+        Update: {
+          coupon_id?: string
+          created_at?: string
+          discount_amount?: number
+          id?: string
+          order_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "coupon_redemptions_coupon_id_fkey"
+            columns: ["coupon_id"]
+            isOneToOne: false
+            referencedRelation: "coupons"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "coupon_redemptions_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      coupons: {
+        Row: {
+          category_ids: string[]
+          code: string
+          created_at: string
+          created_by: string | null
+          description: string | null
+          discount_type: string
+          discount_value: number
+          id: string
+          is_active: boolean
+          max_discount_amount: number | null
+          min_order_amount: number
+          panchayat_ids: string[]
+          service_types: string[]
+          updated_at: string
+          usage_limit_per_user: number | null
+          usage_limit_total: number | null
+          valid_from: string | null
+          valid_until: string | null
+        }
+        Insert: {
+          category_ids?: string[]
+          code: string
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          discount_type?: string
+          discount_value: number
+          id?: string
+          is_active?: boolean
+          max_discount_amount?: number | null
+          min_order_amount?: number
+          panchayat_ids?: string[]
+          service_types?: string[]
+          updated_at?: string
+          usage_limit_per_user?: number | null
+          usage_limit_total?: number | null
+          valid_from?: string | null
+          valid_until?: string | null
+        }
+        Update: {
+          category_ids?: string[]
+          code?: string
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          discount_type?: string
+          discount_value?: number
+          id?: string
+          is_active?: boolean
+          max_discount_amount?: number | null
+          min_order_amount?: number
+          panchayat_ids?: string[]
+          service_types?: string[]
+          updated_at?: string
+          usage_limit_per_user?: number | null
+          usage_limit_total?: number | null
+          valid_from?: string | null
+          valid_until?: string | null
+        }
+        Relationships: []
+      }
       customer_addresses: {
         Row: {
           address_label: string | null
@@ -722,6 +1048,8 @@ export type Database = {
           id: string
           is_default: boolean
           landmark: string | null
+          latitude: number | null
+          longitude: number | null
           panchayat_id: string | null
           updated_at: string
           user_id: string
@@ -734,6 +1062,8 @@ export type Database = {
           id?: string
           is_default?: boolean
           landmark?: string | null
+          latitude?: number | null
+          longitude?: number | null
           panchayat_id?: string | null
           updated_at?: string
           user_id: string
@@ -746,6 +1076,8 @@ export type Database = {
           id?: string
           is_default?: boolean
           landmark?: string | null
+          latitude?: number | null
+          longitude?: number | null
           panchayat_id?: string | null
           updated_at?: string
           user_id?: string
@@ -817,6 +1149,7 @@ export type Database = {
           created_at: string
           id: string
           total_credited: number
+          total_spent: number
           total_withdrawn: number
           updated_at: string
           user_id: string
@@ -826,6 +1159,7 @@ export type Database = {
           created_at?: string
           id?: string
           total_credited?: number
+          total_spent?: number
           total_withdrawn?: number
           updated_at?: string
           user_id: string
@@ -835,12 +1169,135 @@ export type Database = {
           created_at?: string
           id?: string
           total_credited?: number
+          total_spent?: number
           total_withdrawn?: number
           updated_at?: string
           user_id?: string
         }
         Relationships: []
       }
+      delivery_location_pings: {
+        Row: {
+          accuracy_m: number | null
+          delivery_staff_id: string
+          id: string
+          latitude: number
+          longitude: number
+          recorded_at: string
+        }
+        Insert: {
+          accuracy_m?: number | null
+          delivery_staff_id: string
+          id?: string
+          latitude: number
+          longitude: number
+          recorded_at?: string
+        }
+        Update: {
+          accuracy_m?: number | null
+          delivery_staff_id?: string
+          id?: string
+          latitude?: number
+          longitude?: number
+          recorded_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "delivery_location_pings_delivery_staff_id_fkey"
+            columns: ["delivery_staff_id"]
+            isOneToOne: false
+            referencedRelation: "delivery_staff"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      delivery_offers: {
+        Row: {
+          delivery_staff_id: string
+          expires_at: string
+          id: string
+          offered_at: string
+          order_id: string
+          responded_at: string | null
+          status: string
+        }
+        Insert: {
+          delivery_staff_id: string
+          expires_at: string
+          id?: string
+          offered_at?: string
+          order_id: string
+          responded_at?: string | null
+          status?: string
+        }
+        Update: {
+          delivery_staff_id?: string
+          expires_at?: string
+          id?: string
+          offered_at?: string
+          order_id?: string
+          responded_at?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "delivery_offers_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "delivery_offers_delivery_staff_id_fkey"
+            columns: ["delivery_staff_id"]
+            isOneToOne: false
+            referencedRelation: "delivery_staff"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      delivery_proofs: {
+        Row: {
+          code_verified_at: string
+          created_at: string
+          delivery_staff_id: string | null
+          id: string
+          order_id: string
+          photo_path: string | null
+        }
+        Insert: {
+          code_verified_at?: string
+          created_at?: string
+          delivery_staff_id?: string | null
+          id?: string
+          order_id: string
+          photo_path?: string | null
+        }
+        Update: {
+          code_verified_at?: string
+          created_at?: string
+          delivery_staff_id?: string | null
+          id?: string
+          order_id?: string
+          photo_path?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "delivery_proofs_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: true
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "delivery_proofs_delivery_staff_id_fkey"
+            columns: ["delivery_staff_id"]
+            isOneToOne: false
+            referencedRelation: "delivery_staff"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       delivery_rule_tiers: {
         Row: {
           created_at: string
@@ -1036,6 +1493,54 @@ export type Database = {
           },
         ]
       }
+      dispatch_log: {
+        Row: {
+          actor_id: string | null
+          created_at: string
+          delivery_staff_id: string | null
+          details: Json
+          event: string
+          id: string
+          order_id: string
+          reason: string
+        }
+        Insert: {
+          actor_id?: string | null
+          created_at?: string
+          delivery_staff_id?: string | null
+          details?: Json
+          event: string
+          id?: string
+          order_id: string
+          reason: string
+        }
+        Update: {
+          actor_id?: string | null
+          created_at?: string
+          delivery_staff_id?: string | null
+          details?: Json
+          event?: string
+          id?: string
+          order_id?: string
+          reason?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "dispatch_log_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "dispatch_log_delivery_staff_id_fkey"
+            columns: ["delivery_staff_id"]
+            isOneToOne: false
+            referencedRelation: "delivery_staff"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       event_types: {
         Row: {
           created_at: string
@@ -1079,6 +1584,7 @@ export type Database = {
           name: string
           service_type: Database["public"]["Enums"]["service_type"] | null
           service_types: string[] | null
+          tax_class_id: string | null
           updated_at: string
         }
         Insert: {
@@ -1090,6 +1596,7 @@ export type Database = {
           name: string
           service_type?: Database["public"]["Enums"]["service_type"] | null
           service_types?: string[] | null
+          tax_class_id?: string | null
           updated_at?: string
         }
         Update: {
@@ -1101,9 +1608,18 @@ export type Database = {
           name?: string
           service_type?: Database["public"]["Enums"]["service_type"] | null
           service_types?: string[] | null
+          tax_class_id?: string | null
           updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "food_categories_tax_class_id_fkey"
+            columns: ["tax_class_id"]
+            isOneToOne: false
+            referencedRelation: "tax_classes"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       food_item_images: {
         Row: {
@@ -1171,6 +1687,7 @@ export type Database = {
           service_type: Database["public"]["Enums"]["service_type"]
           service_types: string[] | null
           set_size: number | null
+          tax_class_id: string | null
           updated_at: string
           ward_number: number | null
         }
@@ -1204,6 +1721,7 @@ export type Database = {
           service_type: Database["public"]["Enums"]["service_type"]
           service_types?: string[] | null
           set_size?: number | null
+          tax_class_id?: string | null
           updated_at?: string
           ward_number?: number | null
         }
@@ -1237,6 +1755,7 @@ export type Database = {
           service_type?: Database["public"]["Enums"]["service_type"]
           service_types?: string[] | null
           set_size?: number | null
+          tax_class_id?: string | null
           updated_at?: string
           ward_number?: number | null
         }
@@ -1262,6 +1781,13 @@ export type Database = {
             referencedRelation: "panchayats"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "food_items_tax_class_id_fkey"
+            columns: ["tax_class_id"]
+            isOneToOne: false
+            referencedRelation: "tax_classes"
+            referencedColumns: ["id"]
+          },
         ]
       }
       indoor_event_services: {
@@ -1342,7 +1868,281 @@ export type Database = {
         }
         Relationships: [
           {
-            foreignKeyName: "indoor_event_vehicles_order_id_fkey"
+            foreignKeyName: "indoor_event_vehicles_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      meal_subscription_skips: {
+        Row: {
+          created_at: string
+          id: string
+          note: string | null
+          reason: string
+          refund_amount: number
+          skip_date: string
+          subscription_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          note?: string | null
+          reason: string
+          refund_amount?: number
+          skip_date: string
+          subscription_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          note?: string | null
+          reason?: string
+          refund_amount?: number
+          skip_date?: string
+          subscription_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "meal_subscription_skips_subscription_id_fkey"
+            columns: ["subscription_id"]
+            isOneToOne: false
+            referencedRelation: "meal_subscriptions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      meal_subscriptions: {
+        Row: {
+          balance: number
+          cloud_kitchen_slot_id: string
+          cook_id: string
+          created_at: string
+          customer_id: string
+          delivery_address: string
+          delivery_instructions: string | null
+          end_date: string
+          ended_at: string | null
+          food_item_id: string
+          id: string
+          meal_count: number
+          meal_price: number
+          panchayat_id: string
+          paused_at: string | null
+          prepaid_amount: number
+          quantity: number
+          start_date: string
+          status: string
+          updated_at: string
+          ward_number: number
+          weekdays: number[]
+        }
+        Insert: {
+          balance?: number
+          cloud_kitchen_slot_id: string
+          cook_id: string
+          created_at?: string
+          customer_id: string
+          delivery_address: string
+          delivery_instructions?: string | null
+          end_date: string
+          ended_at?: string | null
+          food_item_id: string
+          id?: string
+          meal_count: number
+          meal_price: number
+          panchayat_id: string
+          paused_at?: string | null
+          prepaid_amount?: number
+          quantity: number
+          start_date: string
+          status?: string
+          updated_at?: string
+          ward_number: number
+          weekdays: number[]
+        }
+        Update: {
+          balance?: number
+          cloud_kitchen_slot_id?: string
+          cook_id?: string
+          created_at?: string
+          customer_id?: string
+          delivery_address?: string
+          delivery_instructions?: string | null
+          end_date?: string
+          ended_at?: string | null
+          food_item_id?: string
+          id?: string
+          meal_count?: number
+          meal_price?: number
+          panchayat_id?: string
+          paused_at?: string | null
+          prepaid_amount?: number
+          quantity?: number
+          start_date?: string
+          status?: string
+          updated_at?: string
+          ward_number?: number
+          weekdays?: number[]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "meal_subscriptions_cloud_kitchen_slot_id_fkey"
+            columns: ["cloud_kitchen_slot_id"]
+            isOneToOne: false
+            referencedRelation: "cloud_kitchen_slots"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "meal_subscriptions_cook_id_fkey"
+            columns: ["cook_id"]
+            isOneToOne: false
+            referencedRelation: "cooks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "meal_subscriptions_food_item_id_fkey"
+            columns: ["food_item_id"]
+            isOneToOne: false
+            referencedRelation: "food_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "meal_subscriptions_panchayat_id_fkey"
+            columns: ["panchayat_id"]
+            isOneToOne: false
+            referencedRelation: "panchayats"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      modifier_groups: {
+        Row: {
+          created_at: string
+          display_order: number
+          food_item_id: string
+          id: string
+          is_active: boolean
+          is_required: boolean
+          max_selections: number | null
+          name: string
+          selection_type: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          display_order?: number
+          food_item_id: string
+          id?: string
+          is_active?: boolean
+          is_required?: boolean
+          max_selections?: number | null
+          name: string
+          selection_type?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          display_order?: number
+          food_item_id?: string
+          id?: string
+          is_active?: boolean
+          is_required?: boolean
+          max_selections?: number | null
+          name?: string
+          selection_type?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "modifier_groups_food_item_id_fkey"
+            columns: ["food_item_id"]
+            isOneToOne: false
+            referencedRelation: "food_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      modifier_options: {
+        Row: {
+          created_at: string
+          display_order: number
+          group_id: string
+          id: string
+          is_available: boolean
+          is_default: boolean
+          name: string
+          price: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          display_order?: number
+          group_id: string
+          id?: string
+          is_available?: boolean
+          is_default?: boolean
+          name: string
+          price?: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          display_order?: number
+          group_id?: string
+          id?: string
+          is_available?: boolean
+          is_default?: boolean
+          name?: string
+          price?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "modifier_options_group_id_fkey"
+            columns: ["group_id"]
+            isOneToOne: false
+            referencedRelation: "modifier_groups"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notifications: {
+        Row: {
+          created_at: string
+          id: string
+          message: string
+          order_id: string | null
+          read_at: string | null
+          title: string
+          type: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          message: string
+          order_id?: string | null
+          read_at?: string | null
+          title: string
+          type: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          message?: string
+          order_id?: string | null
+          read_at?: string | null
+          title?: string
+          type?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_order_id_fkey"
             columns: ["order_id"]
             isOneToOne: false
             referencedRelation: "orders"
@@ -1360,6 +2160,7 @@ export type Database = {
           notes: string | null
           order_id: string
           responded_at: string | null
+          response_deadline: string | null
           updated_at: string
         }
         Insert: {
@@ -1371,6 +2172,7 @@ export type Database = {
           notes?: string | null
           order_id: string
           responded_at?: string | null
+          response_deadline?: string | null
           updated_at?: string
         }
         Update: {
@@ -1382,6 +2184,7 @@ export type Database = {
           notes?: string | null
           order_id?: string
           responded_at?: string | null
+          response_deadline?: string | null
           updated_at?: string
         }
         Relationships: [
@@ -1401,37 +2204,81 @@ export type Database = {
           },
         ]
       }
+      order_handover_codes: {
+        Row: {
+          code: string
+          created_at: string
+          failed_attempts: number
+          order_id: string
+        }
+        Insert: {
+          code: string
+          created_at?: string
+          failed_attempts?: number
+          order_id: string
+        }
+        Update: {
+          code?: string
+          created_at?: string
+          failed_attempts?: number
+          order_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_handover_codes_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: true
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       order_items: {
         Row: {
           assigned_cook_id: string | null
+          cgst_amount: number
+          coupon_discount: number
           created_at: string
           food_item_id: string
           id: string
+          modifiers: Json
           order_id: string
           quantity: number
+          sgst_amount: number
           special_instructions: string | null
+          tax_rate: number
           total_price: number
           unit_price: number
         }
         Insert: {
           assigned_cook_id?: string | null
+          cgst_amount?: number
+          coupon_discount?: number
           created_at?: string
           food_item_id: string
           id?: string
+          modifiers?: Json
           order_id: string
           quantity?: number
+          sgst_amount?: number
           special_instructions?: string | null
+          tax_rate?: number
           total_price: number
           unit_price: number
         }
         Update: {
           assigned_cook_id?: string | null
+          cgst_amount?: number
+          coupon_discount?: number
           created_at?: string
           food_item_id?: string
           id?: string
+          modifiers?: Json
           order_id?: string
           quantity?: number
+          sgst_amount?: number
           special_instructions?: string | null
+          tax_rate?: number
           total_price?: number
           unit_price?: number
         }
@@ -1527,6 +2374,71 @@ export type Database = {
           },
         ]
       }
+      order_status_history: {
+        Row: {
+          actor_role: string
+          changed_by: string | null
+          created_at: string
+          field: string
+          from_status: string | null
+          id: string
+          order_id: string
+          reason: string | null
+          to_status: string
+        }
+        Insert: {
+          actor_role: string
+          changed_by?: string | null
+          created_at?: string
+          field: string
+          from_status?: string | null
+          id?: string
+          order_id: string
+          reason?: string | null
+          to_status: string
+        }
+        Update: {
+          actor_role?: string
+          changed_by?: string | null
+          created_at?: string
+          field?: string
+          from_status?: string | null
+          id?: string
+          order_id?: string
+          reason?: string | null
+          to_status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_status_history_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_status_transitions: {
+        Row: {
+          allowed_roles: string[]
+          field: string
+          from_status: string
+          to_status: string
+        }
+        Insert: {
+          allowed_roles: string[]
+          field: string
+          from_status: string
+          to_status: string
+        }
+        Update: {
+          allowed_roles?: string[]
+          field?: string
+          from_status?: string
+          to_status?: string
+        }
+        Relationships: []
+      }
       orders: {
         Row: {
           advance_payment_received: boolean | null
@@ -1535,38 +2447,66 @@ export type Database = {
           advance_payment_verified_by: string | null
           assigned_cook_id: string | null
           assigned_delivery_id: string | null
+          cancellation_fee: number
+          cancellation_reason: string | null
+          cancelled_at: string | null
+          cancelled_by_role: string | null
+          cgst_amount: number
+          checkout_group_id: string | null
           cloud_kitchen_slot_id: string | null
           cook_assigned_at: string | null
           cook_assignment_status: string | null
+          cook_escalated_at: string | null
           cook_responded_at: string | null
           cook_response_deadline: string | null
           cook_status: string | null
+          coupon_code: string | null
+          coupon_discount_amount: number
+          coupon_id: string | null
           created_at: string
           customer_id: string
           delivered_at: string | null
           delivery_address: string | null
           delivery_amount: number | null
           delivery_earnings: number | null
+          delivery_escalated_at: string | null
           delivery_eta: string | null
+          delivery_eta_updated_at: string | null
           delivery_instructions: string | null
+          delivery_latitude: number | null
+          delivery_longitude: number | null
           delivery_status: string | null
+          delivery_tax_amount: number
+          delivery_tax_rate: number
+          delivery_window_end: string | null
+          delivery_window_start: string | null
           estimated_delivery_minutes: number | null
           event_date: string | null
           event_details: string | null
           event_type_id: string | null
           guest_count: number | null
           id: string
+          online_paid_amount: number
           order_number: string
           order_type: string | null
           package_id: string | null
           panchayat_id: string
           referral_code: string | null
           referred_by: string | null
+          refund_amount: number
+          release_at: string | null
+          scheduled_for: string | null
           service_charge_amount: number | null
+          service_charge_tax_amount: number
+          service_charge_tax_rate: number
           service_type: Database["public"]["Enums"]["service_type"]
+          sgst_amount: number
           status: Database["public"]["Enums"]["order_status"]
+          subscription_id: string | null
           total_amount: number
           updated_at: string
+          wallet_amount: number
+          wallet_refunded_at: string | null
           ward_number: number
         }
         Insert: {
@@ -1576,38 +2516,66 @@ export type Database = {
           advance_payment_verified_by?: string | null
           assigned_cook_id?: string | null
           assigned_delivery_id?: string | null
+          cancellation_fee?: number
+          cancellation_reason?: string | null
+          cancelled_at?: string | null
+          cancelled_by_role?: string | null
+          cgst_amount?: number
+          checkout_group_id?: string | null
           cloud_kitchen_slot_id?: string | null
           cook_assigned_at?: string | null
           cook_assignment_status?: string | null
+          cook_escalated_at?: string | null
           cook_responded_at?: string | null
           cook_response_deadline?: string | null
           cook_status?: string | null
+          coupon_code?: string | null
+          coupon_discount_amount?: number
+          coupon_id?: string | null
           created_at?: string
           customer_id: string
           delivered_at?: string | null
           delivery_address?: string | null
           delivery_amount?: number | null
           delivery_earnings?: number | null
+          delivery_escalated_at?: string | null
           delivery_eta?: string | null
+          delivery_eta_updated_at?: string | null
           delivery_instructions?: string | null
+          delivery_latitude?: number | null
+          delivery_longitude?: number | null
           delivery_status?: string | null
+          delivery_tax_amount?: number
+          delivery_tax_rate?: number
+          delivery_window_end?: string | null
+          delivery_window_start?: string | null
           estimated_delivery_minutes?: number | null
           event_date?: string | null
           event_details?: string | null
           event_type_id?: string | null
           guest_count?: number | null
           id?: string
+          online_paid_amount?: number
           order_number: string
           order_type?: string | null
           package_id?: string | null
           panchayat_id: string
           referral_code?: string | null
           referred_by?: string | null
+          refund_amount?: number
+          release_at?: string | null
+          scheduled_for?: string | null
           service_charge_amount?: number | null
+          service_charge_tax_amount?: number
+          service_charge_tax_rate?: number
           service_type: Database["public"]["Enums"]["service_type"]
+          sgst_amount?: number
           status?: Database["public"]["Enums"]["order_status"]
+          subscription_id?: string | null
           total_amount: number
           updated_at?: string
+          wallet_amount?: number
+          wallet_refunded_at?: string | null
           ward_number: number
         }
         Update: {
@@ -1617,38 +2585,66 @@ export type Database = {
           advance_payment_verified_by?: string | null
           assigned_cook_id?: string | null
           assigned_delivery_id?: string | null
+          cancellation_fee?: number
+          cancellation_reason?: string | null
+          cancelled_at?: string | null
+          cancelled_by_role?: string | null
+          cgst_amount?: number
+          checkout_group_id?: string | null
           cloud_kitchen_slot_id?: string | null
           cook_assigned_at?: string | null
           cook_assignment_status?: string | null
+          cook_escalated_at?: string | null
           cook_responded_at?: string | null
           cook_response_deadline?: string | null
           cook_status?: string | null
+          coupon_code?: string | null
+          coupon_discount_amount?: number
+          coupon_id?: string | null
           created_at?: string
           customer_id?: string
           delivered_at?: string | null
           delivery_address?: string | null
           delivery_amount?: number | null
           delivery_earnings?: number | null
+          delivery_escalated_at?: string | null
           delivery_eta?: string | null
+          delivery_eta_updated_at?: string | null
           delivery_instructions?: string | null
+          delivery_latitude?: number | null
+          delivery_longitude?: number | null
           delivery_status?: string | null
+          delivery_tax_amount?: number
+          delivery_tax_rate?: number
+          delivery_window_end?: string | null
+          delivery_window_start?: string | null
           estimated_delivery_minutes?: number | null
           event_date?: string | null
           event_details?: string | null
           event_type_id?: string | null
           guest_count?: number | null
           id?: string
+          online_paid_amount?: number
           order_number?: string
           order_type?: string | null
           package_id?: string | null
           panchayat_id?: string
           referral_code?: string | null
           referred_by?: string | null
+          refund_amount?: number
+          release_at?: string | null
+          scheduled_for?: string | null
           service_charge_amount?: number | null
+          service_charge_tax_amount?: number
+          service_charge_tax_rate?: number
           service_type?: Database["public"]["Enums"]["service_type"]
+          sgst_amount?: number
           status?: Database["public"]["Enums"]["order_status"]
+          subscription_id?: string | null
           total_amount?: number
           updated_at?: string
+          wallet_amount?: number
+          wallet_refunded_at?: string | null
           ward_number?: number
         }
         Relationships: [
@@ -1680,6 +2676,27 @@ export type Database = {
             referencedRelation: "panchayats"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "orders_coupon_id_fkey"
+            columns: ["coupon_id"]
+            isOneToOne: false
+            referencedRelation: "coupons"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "orders_checkout_group_id_fkey"
+            columns: ["checkout_group_id"]
+            isOneToOne: false
+            referencedRelation: "checkout_groups"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "orders_subscription_id_fkey"
+            columns: ["subscription_id"]
+            isOneToOne: false
+            referencedRelation: "meal_subscriptions"
+            referencedColumns: ["id"]
+          },
         ]
       }
       packages: {
@@ -1760,6 +2777,81 @@ export type Database = {
         }
         Relationships: []
       }
+      payments: {
+        Row: {
+          amount: number
+          authorised_at: string | null
+          captured_at: string | null
+          checkout_group_id: string | null
+          created_at: string
+          currency: string
+          failed_at: string | null
+          failure_reason: string | null
+          id: string
+          order_id: string | null
+          provider: string
+          provider_order_id: string | null
+          provider_payment_id: string | null
+          purpose: string
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          authorised_at?: string | null
+          captured_at?: string | null
+          checkout_group_id?: string | null
+          created_at?: string
+          currency?: string
+          failed_at?: string | null
+          failure_reason?: string | null
+          id?: string
+          order_id?: string | null
+          provider: string
+          provider_order_id?: string | null
+          provider_payment_id?: string | null
+          purpose?: string
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          authorised_at?: string | null
+          captured_at?: string | null
+          checkout_group_id?: string | null
+          created_at?: string
+          currency?: string
+          failed_at?: string | null
+          failure_reason?: string | null
+          id?: string
+          order_id?: string | null
+          provider?: string
+          provider_order_id?: string | null
+          provider_payment_id?: string | null
+          purpose?: string
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payments_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payments_checkout_group_id_fkey"
+            columns: ["checkout_group_id"]
+            isOneToOne: false
+            referencedRelation: "checkout_groups"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           avatar_url: string | null
@@ -1767,6 +2859,7 @@ export type Database = {
           id: string
           is_active: boolean
           mobile_number: string
+          mobile_verified_at: string | null
           name: string
           panchayat_id: string | null
           updated_at: string
@@ -1779,6 +2872,7 @@ export type Database = {
           id?: string
           is_active?: boolean
           mobile_number: string
+          mobile_verified_at?: string | null
           name: string
           panchayat_id?: string | null
           updated_at?: string
@@ -1791,6 +2885,7 @@ export type Database = {
           id?: string
           is_active?: boolean
           mobile_number?: string
+          mobile_verified_at?: string | null
           name?: string
           panchayat_id?: string | null
           updated_at?: string
@@ -1895,6 +2990,7 @@ export type Database = {
           created_at: string
           id: string
           is_active: boolean
+          max_advance_days: number
           name: string
           service_type: string
           updated_at: string
@@ -1903,6 +2999,7 @@ export type Database = {
           created_at?: string
           id?: string
           is_active?: boolean
+          max_advance_days?: number
           name: string
           service_type: string
           updated_at?: string
@@ -1911,6 +3008,7 @@ export type Database = {
           created_at?: string
           id?: string
           is_active?: boolean
+          max_advance_days?: number
           name?: string
           service_type?: string
           updated_at?: string
@@ -1977,6 +3075,7 @@ export type Database = {
       special_offers: {
         Row: {
           background_color: string | null
+          coupon_id: string | null
           created_at: string
           display_order: number | null
           id: string
@@ -1989,6 +3088,7 @@ export type Database = {
         }
         Insert: {
           background_color?: string | null
+          coupon_id?: string | null
           created_at?: string
           display_order?: number | null
           id?: string
@@ -2001,6 +3101,7 @@ export type Database = {
         }
         Update: {
           background_color?: string | null
+          coupon_id?: string | null
           created_at?: string
           display_order?: number | null
           id?: string
@@ -2011,7 +3112,15 @@ export type Database = {
           title?: string
           updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "special_offers_coupon_id_fkey"
+            columns: ["coupon_id"]
+            isOneToOne: false
+            referencedRelation: "coupons"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       storage_providers: {
         Row: {
@@ -2043,6 +3152,42 @@ export type Database = {
         }
         Relationships: []
       }
+      tax_classes: {
+        Row: {
+          applies_to: string
+          created_at: string
+          display_order: number
+          hsn_sac_code: string | null
+          id: string
+          is_active: boolean
+          name: string
+          rate_percent: number
+          updated_at: string
+        }
+        Insert: {
+          applies_to?: string
+          created_at?: string
+          display_order?: number
+          hsn_sac_code?: string | null
+          id?: string
+          is_active?: boolean
+          name: string
+          rate_percent?: number
+          updated_at?: string
+        }
+        Update: {
+          applies_to?: string
+          created_at?: string
+          display_order?: number
+          hsn_sac_code?: string | null
+          id?: string
+          is_active?: boolean
+          name?: string
+          rate_percent?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
       user_roles: {
         Row: {
           created_at: string
@@ -2148,6 +3293,53 @@ export type Database = {
           },
         ]
       }
+      ward_boundaries: {
+        Row: {
+          boundary: Json
+          created_at: string
+          id: string
+          max_lat: number
+          max_lng: number
+          min_lat: number
+          min_lng: number
+          panchayat_id: string
+          updated_at: string
+          ward_number: number
+        }
+        Insert: {
+          boundary: Json
+          created_at?: string
+          id?: string
+          max_lat: number
+          max_lng: number
+          min_lat: number
+          min_lng: number
+          panchayat_id: string
+          updated_at?: string
+          ward_number: number
+        }
+        Update: {
+          boundary?: Json
+          created_at?: string
+          id?: string
+          max_lat?: number
+          max_lng?: number
+          min_lat?: number
+          min_lng?: number
+          panchayat_id?: string
+          updated_at?: string
+          ward_number?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ward_boundaries_panchayat_id_fkey"
+            columns: ["panchayat_id"]
+            isOneToOne: false
+            referencedRelation: "panchayats"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
@@ -2157,11 +3349,208 @@ export type Database = {
         Args: { p_order_id: string }
         Returns: undefined
       }
+      apply_payment_update: {
+        Args: {
+          p_failure_reason?: string
+          p_payment_id: string
+          p_provider_payment_id?: string
+          p_status: string
+        }
+        Returns: Database["public"]["Tables"]["payments"]["Row"]
+      }
+      assign_order_cook: {
+        Args: { p_cook_id: string; p_order_id: string }
+        Returns: undefined
+      }
+      assign_order_delivery: {
+        Args: { p_delivery_staff_id: string; p_order_id: string }
+        Returns: undefined
+      }
+      auto_assign_order_cooks: {
+        Args: { p_order_id: string }
+        Returns: number
+      }
+      calculate_delivery_charge: {
+        Args: {
+          p_cloud_kitchen_slot_id?: string
+          p_service_type: string
+          p_subtotal: number
+        }
+        Returns: number
+      }
+      cancel_order: {
+        Args: { p_order_id: string; p_reason?: string }
+        Returns: Database["public"]["Tables"]["orders"]["Row"]
+      }
+      close_cash_day: {
+        Args: {
+          p_business_date: string
+          p_deposited_amount: number
+          p_delivery_staff_id: string
+          p_note?: string
+        }
+        Returns: string
+      }
+      complete_delivery: {
+        Args: {
+          p_handover_code: string
+          p_order_id: string
+          p_photo_path?: string
+        }
+        Returns: Json
+      }
+      coupon_error: {
+        Args: {
+          p_coupon_id: string
+          p_order_amount: number
+          p_panchayat_id: string
+          p_service_type: Database["public"]["Enums"]["service_type"]
+          p_user_id: string
+        }
+        Returns: string
+      }
+      create_meal_subscription: {
+        Args: {
+          p_cloud_kitchen_slot_id: string
+          p_cook_id: string
+          p_delivery_address: string
+          p_delivery_instructions?: string
+          p_expected_meal_price?: number
+          p_food_item_id: string
+          p_panchayat_id: string
+          p_quantity: number
+          p_start_date: string
+          p_ward_number: number
+          p_weekdays: number[]
+          p_weeks: number
+        }
+        Returns: Database["public"]["Tables"]["meal_subscriptions"]["Row"]
+      }
+      credit_customer_wallet: {
+        Args: {
+          p_amount: number
+          p_description: string
+          p_reference_id: string
+          p_reference_type: string
+          p_user_id: string
+        }
+        Returns: number
+      }
+      debit_customer_wallet: {
+        Args: {
+          p_amount: number
+          p_description: string
+          p_reference_id: string
+          p_reference_type: string
+          p_user_id: string
+        }
+        Returns: number
+      }
+      declare_cash_handover: {
+        Args: { p_amount: number; p_business_date: string; p_note?: string }
+        Returns: string
+      }
+      decline_delivery_offer: {
+        Args: { p_order_id: string }
+        Returns: undefined
+      }
+      estimate_delivery_minutes: { Args: { p_items: Json }; Returns: number }
       generate_referral_code: { Args: { user_uuid: string }; Returns: string }
+      generate_subscription_orders: {
+        Args: never
+        Returns: number
+      }
+      get_active_delivery_locations: {
+        Args: never
+        Returns: {
+          accuracy_m: number
+          active_orders: Json
+          delivery_staff_id: string
+          latitude: number
+          longitude: number
+          mobile_number: string
+          name: string
+          recorded_at: string
+          vehicle_type: string
+        }[]
+      }
+      get_audit_actors: {
+        Args: never
+        Returns: {
+          actor_id: string
+          mobile_number: string
+          name: string
+        }[]
+      }
+      get_cancellation_terms: {
+        Args: { p_order_id: string }
+        Returns: {
+          allowed: boolean
+          description: string
+          fee: number
+          policy_name: string
+          refund: number
+        }[]
+      }
+      get_cash_reconciliation: {
+        Args: { p_from: string; p_to: string }
+        Returns: {
+          business_date: string
+          carried_forward: number
+          closing_id: string
+          declared_amount: number
+          delivery_staff_id: string
+          deposited_amount: number
+          expected_amount: number
+          is_flagged: boolean
+          outstanding_amount: number
+          staff_name: string
+          status: string
+        }[]
+      }
+      get_charge_tax_rate: { Args: { p_applies_to: string }; Returns: number }
+      get_cook_id: { Args: { _user_id: string }; Returns: string }
+      get_delivery_staff_id: { Args: { _user_id: string }; Returns: string }
+      get_food_item_tax_rate: {
+        Args: { p_food_item_id: string }
+        Returns: number
+      }
+      get_my_cash_due: {
+        Args: { p_business_date: string }
+        Returns: {
+          carried_forward: number
+          expected_amount: number
+        }[]
+      }
+      get_order_cook_ranking: {
+        Args: { p_order_id: string }
+        Returns: {
+          active_orders: number
+          cook_id: string
+          covers_panchayat: boolean
+          declined: boolean
+          kitchen_name: string
+          price: number
+          rating: number
+        }[]
+      }
+      get_order_delivery_partner: {
+        Args: { p_order_id: string }
+        Returns: {
+          mobile_number: string
+          name: string
+          vehicle_number: string
+          vehicle_type: string
+        }[]
+      }
       get_user_role: {
         Args: { _user_id: string }
         Returns: Database["public"]["Enums"]["app_role"]
       }
+      has_admin_permission: {
+        Args: { _level: string; _permission: string; _user_id: string }
+        Returns: boolean
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -2183,6 +3572,94 @@ export type Database = {
         Args: { _order_id: string; _user_id: string }
         Returns: boolean
       }
+      locate_ward: {
+        Args: { p_latitude: number; p_longitude: number; p_panchayat_id?: string }
+        Returns: Json
+      }
+      order_actor_roles: { Args: { p_customer_id: string }; Returns: string[] }
+      pay_order_advance_from_wallet: {
+        Args: { p_amount: number; p_order_id: string }
+        Returns: Database["public"]["Tables"]["orders"]["Row"]
+      }
+      place_checkout: {
+        Args: {
+          p_address_id?: string
+          p_delivery_address: string
+          p_delivery_instructions?: string
+          p_groups: Json
+          p_panchayat_id: string
+          p_scheduled_for?: string
+          p_wallet_amount?: number
+          p_ward_number: number
+          p_window_end?: string
+          p_window_start?: string
+        }
+        Returns: Database["public"]["Tables"]["checkout_groups"]["Row"]
+      }
+      place_order: {
+        Args: {
+          p_address_id?: string
+          p_cloud_kitchen_slot_id?: string
+          p_coupon_code?: string
+          p_delivery_address: string
+          p_delivery_instructions?: string
+          p_expected_total?: number
+          p_items: Json
+          p_panchayat_id: string
+          p_scheduled_for?: string
+          p_service_type: Database["public"]["Enums"]["service_type"]
+          p_wallet_amount?: number
+          p_ward_number: number
+          p_window_end?: string
+          p_window_start?: string
+        }
+        Returns: Database["public"]["Tables"]["orders"]["Row"]
+      }
+      quote_order: {
+        Args: {
+          p_cloud_kitchen_slot_id?: string
+          p_coupon_code?: string
+          p_items: Json
+          p_panchayat_id?: string
+          p_service_type: Database["public"]["Enums"]["service_type"]
+        }
+        Returns: Json
+      }
+      record_delivery_location: {
+        Args: { p_accuracy_m?: number; p_latitude: number; p_longitude: number }
+        Returns: Json
+      }
+      replace_ward_boundaries: {
+        Args: { p_boundaries: Json; p_panchayat_id: string }
+        Returns: number
+      }
+      set_meal_subscription_status: {
+        Args: { p_status: string; p_subscription_id: string }
+        Returns: Database["public"]["Tables"]["meal_subscriptions"]["Row"]
+      }
+      set_order_drop_point: {
+        Args: { p_latitude: number; p_longitude: number; p_order_id: string }
+        Returns: boolean
+      }
+      skip_subscription_day: {
+        Args: { p_date: string; p_subscription_id: string }
+        Returns: Database["public"]["Tables"]["meal_subscription_skips"]["Row"]
+      }
+      split_gst: {
+        Args: { p_amount: number; p_rate: number }
+        Returns: {
+          cgst: number
+          sgst: number
+        }[]
+      }
+      update_order_status: {
+        Args: {
+          p_order_id: string
+          p_reason?: string
+          p_status: Database["public"]["Enums"]["order_status"]
+        }
+        Returns: Database["public"]["Tables"]["orders"]["Row"]
+      }
     }
     Enums: {
       app_role: "super_admin" | "admin" | "cook" | "delivery_staff" | "customer"
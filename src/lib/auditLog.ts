@@ -0,0 +1,91 @@
+// Reading audit_log entries written by public.audit_row_change
+
+export type AuditAction = 'INSERT' | 'UPDATE' | 'DELETE';
+
+export interface AuditEntry {
+  id: string;
+  actor_id: string | null;
+  actor_role: string | null;
+  table_name: string;
+  record_id: string | null;
+  action: AuditAction;
+  old_data: Record<string, unknown> | null;
+  new_data: Record<string, unknown> | null;
+  changed_fields: string[] | null;
+  created_at: string;
+}
+
+export interface AuditChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+// Tables with the audit trigger, as admins know them
+export const AUDITED_TABLES: Record<string, string> = {
+  food_items: 'Food items',
+  cook_dishes: 'Cook dishes',
+  food_categories: 'Categories',
+  coupons: 'Coupons',
+  tax_classes: 'Tax classes',
+  commission_rules: 'Commission rules',
+  delivery_rules: 'Delivery rules',
+  cancellation_policies: 'Cancellation policies',
+  service_modules: 'Service modules',
+  ward_boundaries: 'Ward boundaries',
+  orders: 'Orders',
+  settlements: 'Settlements',
+  delivery_wallets: 'Delivery wallets',
+  wallet_transactions: 'Delivery wallet transactions',
+  cash_closings: 'Cash closings',
+  customer_wallets: 'Customer wallets',
+  customer_wallet_transactions: 'Customer wallet transactions',
+  profiles: 'Customer profiles',
+  cooks: 'Cooks',
+  delivery_staff: 'Delivery staff',
+  user_roles: 'User roles',
+  admin_permissions: 'Admin permissions',
+};
+
+export const ACTION_LABELS: Record<AuditAction, string> = {
+  INSERT: 'Created',
+  UPDATE: 'Updated',
+  DELETE: 'Deleted',
+};
+
+// Bookkeeping columns that say nothing about what an admin changed
+const HIDDEN_FIELDS = ['id', 'created_at', 'updated_at'];
+
+export const auditChanges = (entry: AuditEntry): AuditChange[] => {
+  const before = entry.old_data ?? {};
+  const after = entry.new_data ?? {};
+
+  if (entry.action === 'UPDATE') {
+    return (entry.changed_fields ?? []).map((field) => ({ field, before: before[field], after: after[field] }));
+  }
+
+  const row = entry.action === 'INSERT' ? after : before;
+  return Object.keys(row)
+    .filter((field) => !HIDDEN_FIELDS.includes(field) && row[field] != null)
+    .sort()
+    .map((field) => ({
+      field,
+      before: entry.action === 'DELETE' ? row[field] : null,
+      after: entry.action === 'INSERT' ? row[field] : null,
+    }));
+};
+
+export const formatAuditValue = (value: unknown): string => {
+  if (value == null || value === '') return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+// A readable name for the changed row, falling back to a short id
+export const auditRecordLabel = (entry: AuditEntry): string => {
+  const row = entry.new_data ?? entry.old_data ?? {};
+  for (const key of ['name', 'kitchen_name', 'order_number', 'code', 'title', 'mobile_number']) {
+    if (typeof row[key] === 'string' && row[key]) return row[key] as string;
+  }
+  return entry.record_id ? entry.record_id.slice(0, 8) : '—';
+};
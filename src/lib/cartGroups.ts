@@ -0,0 +1,58 @@
+// Splitting a mixed cart into the orders placed for it at checkout
+
+import type { ServiceType } from '@/types/database';
+
+export interface GroupableCartItem {
+  food_item_id: string;
+  selected_cook_id?: string | null;
+  food_item?: {
+    service_type: ServiceType;
+    preparation_time_minutes?: number | null;
+  } | null;
+}
+
+export interface CartGroup<T extends GroupableCartItem> {
+  key: string;
+  serviceType: ServiceType;
+  // null when no cook was picked; the kitchen assigns one after ordering
+  cookId: string | null;
+  items: T[];
+}
+
+// Ride time added on top of the slowest dish, as estimate_delivery_minutes does
+export const DELIVERY_RIDE_MINUTES = 30;
+const DEFAULT_PREPARATION_MINUTES = 30;
+
+/**
+ * Group cart lines into one order per service type and cook, keeping the
+ * order in which each group first appears in the cart.
+ */
+export function groupCartItems<T extends GroupableCartItem>(items: T[]): CartGroup<T>[] {
+  const groups = new Map<string, CartGroup<T>>();
+
+  items.forEach((item) => {
+    const serviceType = item.food_item?.service_type || 'cloud_kitchen';
+    const cookId = item.selected_cook_id ?? null;
+    const key = `${serviceType}:${cookId ?? 'any'}`;
+
+    const group = groups.get(key);
+    if (group) {
+      group.items.push(item);
+    } else {
+      groups.set(key, { key, serviceType, cookId, items: [item] });
+    }
+  });
+
+  return [...groups.values()];
+}
+
+/**
+ * Minutes until delivery for a group: its slowest dish plus the ride
+ */
+export function estimateDeliveryMinutes(items: GroupableCartItem[]): number {
+  const times = items
+    .map((item) => item.food_item?.preparation_time_minutes)
+    .filter((minutes): minutes is number => minutes != null);
+  const preparation = times.length > 0 ? Math.max(...times) : DEFAULT_PREPARATION_MINUTES;
+  return preparation + DELIVERY_RIDE_MINUTES;
+}
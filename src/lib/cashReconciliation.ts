@@ -0,0 +1,49 @@
+// Cash-on-delivery reconciliation: partners declare the cash they hand over for
+// a business day and an admin closes the day with the deposit they counted
+// (see close_cash_day). Differences are flagged and carried into the next day.
+
+export type CashDayStatus = 'open' | 'declared' | 'closed';
+
+// A row of get_cash_reconciliation; "open" days have delivered cash but no closing yet
+export interface CashReconciliationRow {
+  delivery_staff_id: string;
+  staff_name: string;
+  business_date: string;
+  closing_id: string | null;
+  status: CashDayStatus;
+  expected_amount: number;
+  carried_forward: number;
+  declared_amount: number | null;
+  deposited_amount: number | null;
+  outstanding_amount: number;
+  is_flagged: boolean;
+}
+
+export const CASH_DAY_STATUS_LABELS: Record<CashDayStatus, string> = {
+  open: 'Not declared',
+  declared: 'Awaiting deposit',
+  closed: 'Closed',
+};
+
+// Cash the partner should collect at the door: whatever the wallet and online
+// payments did not cover
+export function cashToCollect(order: {
+  total_amount: number;
+  wallet_amount?: number | null;
+  online_paid_amount?: number | null;
+}): number {
+  return Math.max(order.total_amount - (order.wallet_amount || 0) - (order.online_paid_amount || 0), 0);
+}
+
+// Everything owed for a day, including what earlier days left outstanding
+export function cashDue(row: Pick<CashReconciliationRow, 'expected_amount' | 'carried_forward'>): number {
+  return row.expected_amount + row.carried_forward;
+}
+
+// "₹50 short" / "₹20 over" / null when the amount matches what is due
+export function describeCashVariance(due: number, amount: number | null): string | null {
+  if (amount == null) return null;
+  const variance = Math.round((amount - due) * 100) / 100;
+  if (variance === 0) return null;
+  return `₹${Math.abs(variance).toLocaleString()} ${variance < 0 ? 'short' : 'over'}`;
+}
@@ -0,0 +1,36 @@
+// Automatic cook assignment: the server ranks cooks and offers orders in turn
+// (see run_cook_assignment). These helpers present that ranking and the
+// response deadline a cook is working against.
+
+// A row of get_order_cook_ranking, best cook first
+export interface RankedCook {
+  cook_id: string;
+  kitchen_name: string;
+  covers_panchayat: boolean;
+  active_orders: number;
+  rating: number | null;
+  price: number;
+  // Already rejected or timed out on this order
+  declined: boolean;
+}
+
+// Why a cook sits where it does in the ranking, in ranking order
+export function cookRankReasons(cook: RankedCook): string[] {
+  return [
+    cook.covers_panchayat ? 'Covers area' : 'Outside area',
+    `${cook.active_orders} active order${cook.active_orders === 1 ? '' : 's'}`,
+    cook.rating != null ? `★ ${Number(cook.rating).toFixed(1)}` : 'Not rated',
+    `₹${Number(cook.price).toFixed(0)}`,
+  ];
+}
+
+// Whole seconds until an offer's deadline; `fallbackSeconds` from now when the
+// offer has none (indoor events, offers made before deadlines existed)
+export function responseSecondsLeft(
+  deadline: string | null | undefined,
+  fallbackSeconds: number,
+  now: number = Date.now()
+): number {
+  if (!deadline) return fallbackSeconds;
+  return Math.max(0, Math.floor((new Date(deadline).getTime() - now) / 1000));
+}
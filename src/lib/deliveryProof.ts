@@ -0,0 +1,18 @@
+// Proof of delivery: the partner enters the customer's handover code through
+// complete_delivery, which counts wrong codes and locks the order after a few.
+
+export const HANDOVER_CODE_LENGTH = 4;
+
+// What complete_delivery returns
+export interface HandoverResult {
+  delivered: boolean;
+  attempts_left: number;
+}
+
+// Message for a code the server rejected
+export function handoverFailureMessage(result: HandoverResult): string {
+  if (result.attempts_left <= 0) {
+    return 'Wrong code. No tries left — contact support to complete this delivery.';
+  }
+  return `Wrong code. ${result.attempts_left} ${result.attempts_left === 1 ? 'try' : 'tries'} left.`;
+}
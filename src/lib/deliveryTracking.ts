@@ -0,0 +1,77 @@
+// Live delivery tracking: the partner app reports its location while deliveries
+// are in hand (see record_delivery_location), which keeps orders.delivery_eta
+// current. Admins follow partners from the latest ping and its breadcrumbs.
+
+import type { LocationPoint } from '@/lib/geo';
+
+// How often the partner app reports its location
+export const LOCATION_PING_INTERVAL_MS = 30_000;
+
+// A location or ETA older than this is no longer live
+export const LIVE_LOCATION_MAX_AGE_MS = 2 * 60_000;
+
+export interface ActiveDeliveryOrder {
+  id: string;
+  order_number: string;
+  delivery_status: 'assigned' | 'picked_up';
+  delivery_address: string | null;
+  delivery_eta: string | null;
+  delivery_eta_updated_at: string | null;
+  distance_km: number | null;
+}
+
+// A row of get_active_delivery_locations
+export interface ActiveDeliveryLocation {
+  delivery_staff_id: string;
+  name: string;
+  mobile_number: string;
+  vehicle_type: string;
+  latitude: number | null;
+  longitude: number | null;
+  accuracy_m: number | null;
+  recorded_at: string | null;
+  active_orders: ActiveDeliveryOrder[];
+}
+
+export function isLive(updatedAt: string | Date | null | undefined, now = Date.now()): boolean {
+  if (!updatedAt) return false;
+  return now - new Date(updatedAt).getTime() <= LIVE_LOCATION_MAX_AGE_MS;
+}
+
+// The device's current location, or null when it is unavailable or refused
+export function getDeviceLocation(timeoutMs = 15_000): Promise<LocationPoint | null> {
+  if (typeof navigator === 'undefined' || !('geolocation' in navigator)) return Promise.resolve(null);
+  return new Promise((resolve) => {
+    navigator.geolocation.getCurrentPosition(
+      (position) => resolve({ latitude: position.coords.latitude, longitude: position.coords.longitude }),
+      () => resolve(null),
+      { enableHighAccuracy: true, timeout: timeoutMs }
+    );
+  });
+}
+
+export function mapsPointUrl({ latitude, longitude }: LocationPoint): string {
+  return `https://www.google.com/maps/search/?api=1&query=${latitude},${longitude}`;
+}
+
+// Directions through the breadcrumbs, oldest first. Google Maps takes at most
+// 9 waypoints, so long trails are sampled evenly.
+export function mapsTrailUrl(points: LocationPoint[]): string | null {
+  if (points.length < 2) return null;
+
+  const format = (p: LocationPoint) => `${p.latitude},${p.longitude}`;
+  const middle = points.slice(1, -1);
+  const step = Math.max(middle.length / 9, 1);
+  const waypoints: LocationPoint[] = [];
+  for (let i = 0; i < middle.length && waypoints.length < 9; i += step) {
+    waypoints.push(middle[Math.floor(i)]);
+  }
+
+  const params = new URLSearchParams({
+    api: '1',
+    origin: format(points[0]),
+    destination: format(points[points.length - 1]),
+  });
+  if (waypoints.length > 0) params.set('waypoints', waypoints.map(format).join('|'));
+  return `https://www.google.com/maps/dir/?${params.toString()}`;
+}
@@ -0,0 +1,39 @@
+// Delivery dispatch: the server offers a ready order to one ranked partner at a
+// time and cascades on decline or timeout (see dispatch_delivery_order). Every
+// decision lands in dispatch_log; these helpers present that log.
+
+export type DispatchEvent = 'offered' | 'accepted' | 'declined' | 'expired' | 'withdrawn' | 'exhausted' | 'manual';
+
+export interface DispatchLogEntry {
+  id: string;
+  order_id: string;
+  delivery_staff_id: string | null;
+  event: DispatchEvent;
+  reason: string;
+  details: Record<string, unknown> | null;
+  created_at: string;
+  delivery_staff?: { name: string } | null;
+}
+
+export const DISPATCH_EVENT_LABELS: Record<DispatchEvent, string> = {
+  offered: 'Offered',
+  accepted: 'Accepted',
+  declined: 'Declined',
+  expired: 'Timed out',
+  withdrawn: 'Withdrawn',
+  exhausted: 'No partner left',
+  manual: 'Assigned by admin',
+};
+
+// The ranking factors recorded with an offer, in ranking order
+export function describeDispatchDetails(details: DispatchLogEntry['details']): string[] {
+  if (!details || details.rank == null) return [];
+
+  const active = Number(details.active_deliveries ?? 0);
+  return [
+    details.ward_match ? 'Ward match' : 'Other ward',
+    `${active} active deliver${active === 1 ? 'y' : 'ies'}`,
+    details.staff_type === 'fixed_salary' ? 'Fixed salary' : 'Partner',
+    details.rating != null ? `★ ${Number(details.rating).toFixed(1)}` : 'Not rated',
+  ];
+}
@@ -0,0 +1,101 @@
+// Map coordinates: the Web Mercator maths behind the address pin picker, and
+// reading the GeoJSON ward boundaries admins upload (see replace_ward_boundaries).
+
+export interface LocationPoint {
+  latitude: number;
+  longitude: number;
+}
+
+export const TILE_SIZE = 256;
+
+// Position in pixels on the whole map at a zoom level, from the top-left corner
+export function toWorldPixel({ latitude, longitude }: LocationPoint, zoom: number) {
+  const size = TILE_SIZE * 2 ** zoom;
+  const sin = Math.sin((latitude * Math.PI) / 180);
+  return {
+    x: ((longitude + 180) / 360) * size,
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * size,
+  };
+}
+
+export function fromWorldPixel({ x, y }: { x: number; y: number }, zoom: number): LocationPoint {
+  const size = TILE_SIZE * 2 ** zoom;
+  const n = Math.PI - (2 * Math.PI * y) / size;
+  return {
+    latitude: (180 / Math.PI) * Math.atan(Math.sinh(n)),
+    longitude: (x / size) * 360 - 180,
+  };
+}
+
+// A type rather than an interface so it passes as Json to replace_ward_boundaries
+export type WardBoundaryInput = {
+  ward_number: number;
+  // Positions are [longitude, latitude]
+  geometry: { type: 'Polygon' | 'MultiPolygon'; coordinates: number[][][] | number[][][][] };
+};
+
+export interface ParsedWardBoundaries {
+  boundaries: WardBoundaryInput[];
+  errors: string[];
+  // Wards of the panchayat the file has no boundary for
+  missingWards: number[];
+}
+
+// Feature properties that may hold the ward number, compared without case or punctuation
+const WARD_PROPERTY_KEYS = ['wardnumber', 'wardno', 'ward'];
+
+function wardNumberOf(properties: Record<string, unknown> | null | undefined): number | null {
+  if (!properties) return null;
+  for (const [key, value] of Object.entries(properties)) {
+    if (!WARD_PROPERTY_KEYS.includes(key.toLowerCase().replace(/[^a-z]/g, ''))) continue;
+    const match = String(value ?? '').match(/\d+/);
+    if (match) return parseInt(match[0], 10);
+  }
+  return null;
+}
+
+/**
+ * Ward boundaries from a GeoJSON FeatureCollection (or single Feature) with one
+ * Polygon or MultiPolygon feature per ward, numbered by a "ward", "ward_no" or
+ * "ward_number" property.
+ */
+export function parseWardBoundaries(text: string, wardCount: number): ParsedWardBoundaries {
+  let json: { type?: string; features?: unknown[] };
+  try {
+    json = JSON.parse(text);
+  } catch {
+    return { boundaries: [], errors: ['The file is not valid GeoJSON'], missingWards: [] };
+  }
+
+  const features = (json?.type === 'Feature' ? [json] : json?.features ?? []) as {
+    properties?: Record<string, unknown> | null;
+    geometry?: { type?: string; coordinates?: unknown } | null;
+  }[];
+  if (features.length === 0) {
+    return { boundaries: [], errors: ['The file has no features'], missingWards: [] };
+  }
+
+  const errors: string[] = [];
+  const byWard = new Map<number, WardBoundaryInput>();
+
+  features.forEach((feature, index) => {
+    const ward = wardNumberOf(feature.properties);
+    const type = feature.geometry?.type;
+
+    if (ward == null) {
+      errors.push(`Feature ${index + 1} has no ward number`);
+    } else if (ward < 1 || ward > wardCount) {
+      errors.push(`Ward ${ward} is not one of the ${wardCount} wards`);
+    } else if (type !== 'Polygon' && type !== 'MultiPolygon') {
+      errors.push(`Ward ${ward} is a ${type ?? 'missing geometry'}, not a Polygon`);
+    } else if (byWard.has(ward)) {
+      errors.push(`Ward ${ward} appears more than once`);
+    } else {
+      byWard.set(ward, { ward_number: ward, geometry: { type, coordinates: feature.geometry!.coordinates as number[][][] } });
+    }
+  });
+
+  const boundaries = [...byWard.values()].sort((a, b) => a.ward_number - b.ward_number);
+  const missingWards = Array.from({ length: wardCount }, (_, i) => i + 1).filter(w => !byWard.has(w));
+  return { boundaries, errors, missingWards };
+}
@@ -0,0 +1,89 @@
+// Cart kept in localStorage until the customer logs in, shaped like cart_items rows
+
+import { modifierKey } from '@/lib/modifiers';
+
+const GUEST_CART_KEY = 'guest_cart';
+
+export interface GuestCartLine {
+  id: string;
+  food_item_id: string;
+  quantity: number;
+  selected_cook_id: string | null;
+  modifier_option_ids: string[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ServerCartLine {
+  id: string;
+  food_item_id: string;
+  quantity: number;
+  selected_cook_id: string | null;
+  modifier_option_ids: string[];
+}
+
+export interface CartMergePlan {
+  updates: { id: string; quantity: number; selected_cook_id: string | null }[];
+  inserts: { food_item_id: string; quantity: number; selected_cook_id: string | null; modifier_option_ids: string[] }[];
+}
+
+export function loadGuestCart(): GuestCartLine[] {
+  try {
+    const stored = localStorage.getItem(GUEST_CART_KEY);
+    const lines = stored ? JSON.parse(stored) : [];
+    return Array.isArray(lines) ? lines : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveGuestCart(lines: GuestCartLine[]) {
+  if (lines.length === 0) {
+    localStorage.removeItem(GUEST_CART_KEY);
+  } else {
+    localStorage.setItem(GUEST_CART_KEY, JSON.stringify(lines));
+  }
+}
+
+/**
+ * Empty the guest cart once it has been merged, so it is only ever merged once
+ */
+export function clearGuestCart() {
+  localStorage.removeItem(GUEST_CART_KEY);
+}
+
+/**
+ * Plan merging guest lines into the customer's server cart. A dish with the
+ * same modifiers in both keeps the larger quantity (re-adding the same dish
+ * is not meant to double it), and a cook picked while browsing replaces the
+ * saved one.
+ */
+export function planCartMerge(server: ServerCartLine[], guest: GuestCartLine[]): CartMergePlan {
+  const plan: CartMergePlan = { updates: [], inserts: [] };
+
+  guest.forEach((line) => {
+    if (line.quantity < 1) return;
+    const existing = server.find((item) =>
+      item.food_item_id === line.food_item_id
+      && modifierKey(item.modifier_option_ids) === modifierKey(line.modifier_option_ids)
+    );
+
+    if (!existing) {
+      plan.inserts.push({
+        food_item_id: line.food_item_id,
+        quantity: line.quantity,
+        selected_cook_id: line.selected_cook_id,
+        modifier_option_ids: line.modifier_option_ids || [],
+      });
+      return;
+    }
+
+    const quantity = Math.max(existing.quantity, line.quantity);
+    const selectedCookId = line.selected_cook_id ?? existing.selected_cook_id;
+    if (quantity !== existing.quantity || selectedCookId !== existing.selected_cook_id) {
+      plan.updates.push({ id: existing.id, quantity, selected_cook_id: selectedCookId });
+    }
+  });
+
+  return plan;
+}
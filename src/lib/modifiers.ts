@@ -0,0 +1,130 @@
+// Modifier choices on a dish (spice level, extras, portion size).
+// Mirrors price_item_modifiers so the item page shows what checkout charges.
+
+import type { Json } from '@/integrations/supabase/types';
+
+export interface ModifierOption {
+  id: string;
+  group_id: string;
+  name: string;
+  price: number;
+  is_default: boolean;
+  is_available: boolean;
+  display_order: number;
+}
+
+export interface ModifierGroup {
+  id: string;
+  food_item_id: string;
+  name: string;
+  selection_type: 'single' | 'multiple';
+  is_required: boolean;
+  max_selections: number | null;
+  display_order: number;
+  is_active: boolean;
+  options: ModifierOption[];
+}
+
+// As kept on order_items.modifiers
+export interface SelectedModifier {
+  option_id: string;
+  group_name: string;
+  name: string;
+  price: number;
+}
+
+// order_items.modifiers as read back from the database
+export function readSelectedModifiers(value: Json | null | undefined): SelectedModifier[] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((entry) => {
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) return [];
+    return [{
+      option_id: String(entry.option_id ?? ''),
+      group_name: String(entry.group_name ?? ''),
+      name: String(entry.name ?? ''),
+      price: Number(entry.price ?? 0),
+    }];
+  });
+}
+
+// Cook's own price per option id (cook_dishes.modifier_prices)
+export type ModifierPriceOverrides = Record<string, number>;
+
+/**
+ * Stable key for a set of chosen options; cart lines for the same dish are
+ * only combined when their keys match.
+ */
+export function modifierKey(optionIds: string[] | null | undefined): string {
+  return [...new Set(optionIds || [])].sort().join(',');
+}
+
+/**
+ * Options chosen up front: each group's defaults, or the first option of a
+ * required single-choice group without one
+ */
+export function defaultModifierSelection(groups: ModifierGroup[]): string[] {
+  return groups.flatMap((group) => {
+    const available = group.options.filter((option) => option.is_available);
+    const defaults = available.filter((option) => option.is_default);
+
+    if (group.selection_type === 'single') {
+      const pick = defaults[0] ?? (group.is_required ? available[0] : undefined);
+      return pick ? [pick.id] : [];
+    }
+    return defaults.map((option) => option.id);
+  });
+}
+
+/**
+ * Why a selection cannot be ordered, or null when it is valid
+ */
+export function validateModifierSelection(groups: ModifierGroup[], optionIds: string[]): string | null {
+  for (const group of groups) {
+    const count = group.options.filter((option) => option.is_available && optionIds.includes(option.id)).length;
+    const name = group.name.toLowerCase();
+
+    if (group.is_required && count === 0) return `Please choose the ${name}`;
+    if (group.selection_type === 'single' && count > 1) return `Only one ${name} can be chosen`;
+    if (group.max_selections != null && count > group.max_selections) {
+      return `At most ${group.max_selections} ${name} can be chosen`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Price of the chosen options per unit, at the cook's prices where set
+ */
+export function priceModifiers(
+  groups: ModifierGroup[],
+  optionIds: string[],
+  overrides: ModifierPriceOverrides | null = null
+): { price: number; modifiers: SelectedModifier[] } {
+  const modifiers = groups.flatMap((group) =>
+    group.options
+      .filter((option) => optionIds.includes(option.id))
+      .map((option) => ({
+        option_id: option.id,
+        group_name: group.name,
+        name: option.name,
+        price: Number(overrides?.[option.id] ?? option.price),
+      }))
+  );
+
+  return { price: sumModifierPrices(modifiers), modifiers };
+}
+
+/**
+ * Per-unit price of modifiers already chosen on a cart or order line
+ */
+export function sumModifierPrices(modifiers: SelectedModifier[] | null | undefined): number {
+  const pricePaise = (modifiers || []).reduce((sum, modifier) => sum + Math.round(Number(modifier.price) * 100), 0);
+  return pricePaise / 100;
+}
+
+/**
+ * "Medium, Extra cheese" style summary for cart and order lines
+ */
+export function describeModifiers(modifiers: SelectedModifier[] | null | undefined): string {
+  return (modifiers || []).map((modifier) => modifier.name).join(', ');
+}
@@ -0,0 +1,97 @@
+// Admin areas and access levels, mirroring admin_permissions and
+// public.has_admin_permission on the database side.
+
+export type PermissionLevel = 'none' | 'view' | 'edit';
+
+export type AdminPermission =
+  | 'items'
+  | 'orders'
+  | 'assign_orders'
+  | 'cooks'
+  | 'delivery_staff'
+  | 'reports'
+  | 'settlements'
+  | 'banners'
+  | 'categories'
+  | 'locations'
+  | 'special_offers';
+
+export type AdminPermissionLevels = Record<AdminPermission, PermissionLevel>;
+
+export const ADMIN_PERMISSIONS: { key: AdminPermission; label: string }[] = [
+  { key: 'items', label: 'Items' },
+  { key: 'orders', label: 'Orders' },
+  { key: 'assign_orders', label: 'Assign Orders' },
+  { key: 'cooks', label: 'Cooks' },
+  { key: 'delivery_staff', label: 'Delivery Staff' },
+  { key: 'reports', label: 'Reports' },
+  { key: 'settlements', label: 'Settlements' },
+  { key: 'banners', label: 'Banners' },
+  { key: 'categories', label: 'Categories' },
+  { key: 'locations', label: 'Locations' },
+  { key: 'special_offers', label: 'Special Offers' },
+];
+
+const LEVEL_RANK: Record<PermissionLevel, number> = { none: 0, view: 1, edit: 2 };
+
+// Older rows store a granted permission as 'full'
+export const parsePermissionLevel = (value: string | null | undefined): PermissionLevel => {
+  if (value === 'edit' || value === 'full') return 'edit';
+  if (value === 'view') return 'view';
+  return 'none';
+};
+
+export const hasPermissionLevel = (level: PermissionLevel, required: PermissionLevel) =>
+  LEVEL_RANK[level] >= LEVEL_RANK[required];
+
+const allLevels = (level: PermissionLevel): AdminPermissionLevels =>
+  Object.fromEntries(ADMIN_PERMISSIONS.map(({ key }) => [key, level])) as AdminPermissionLevels;
+
+export const FULL_ACCESS = allLevels('edit');
+export const NO_ACCESS = allLevels('none');
+
+// Levels from an admin_permissions row; no row means no access
+export const permissionsFromRow = (row: object | null): AdminPermissionLevels => {
+  if (!row) return NO_ACCESS;
+  const columns = row as Record<string, string | null | undefined>;
+  return Object.fromEntries(
+    ADMIN_PERMISSIONS.map(({ key }) => [key, parsePermissionLevel(columns[`perm_${key}`])])
+  ) as AdminPermissionLevels;
+};
+
+// Area an admin page belongs to. Pages in neither list are for super admins only.
+const ROUTE_PERMISSIONS: [string, AdminPermission][] = [
+  ['/admin/orders', 'orders'],
+  ['/admin/indoor-events', 'orders'],
+  ['/admin/cloud-kitchen', 'orders'],
+  ['/admin/home-delivery', 'orders'],
+  ['/admin/work-assignment', 'assign_orders'],
+  ['/admin/items', 'items'],
+  ['/admin/categories', 'categories'],
+  ['/admin/cooks', 'cooks'],
+  ['/admin/delivery-staff', 'delivery_staff'],
+  ['/admin/reports', 'reports'],
+  ['/admin/banners', 'banners'],
+  ['/admin/special-offers', 'special_offers'],
+  ['/admin/locations', 'locations'],
+];
+
+export const routePermission = (path: string): AdminPermission | null =>
+  ROUTE_PERMISSIONS.find(([prefix]) => path === prefix || path.startsWith(`${prefix}/`))?.[1] ?? null;
+
+// Admin pages every admin can open, whatever their permissions. The audit log
+// matches audit_log's policy, which lets every admin read it.
+const OPEN_ROUTES = ['/admin', '/admin/audit-log'];
+
+export const canOpenAdminRoute = (
+  path: string,
+  role: string | null | undefined,
+  permissions: AdminPermissionLevels | null | undefined
+): boolean => {
+  if (role === 'super_admin') return true;
+  if (role !== 'admin') return false;
+  if (OPEN_ROUTES.includes(path)) return true;
+
+  const permission = routePermission(path);
+  return !!permission && hasPermissionLevel(permissions?.[permission] ?? 'none', 'view');
+};
@@ -66,3 +66,199 @@ export function calculatePlatformRevenue(
   const marginPerItem = calculatePlatformMargin(basePrice, marginType, marginValue);
   return marginPerItem * quantity;
 }
+
+/**
+ * Any food item row (or subset of one) that can be priced for a customer
+ */
+export interface PriceableItem {
+  price: number;
+  platform_margin_type?: string | null;
+  platform_margin_value?: number | null;
+  discount_percent?: number | null;
+  discount_amount?: number | null;
+  set_size?: number | null;
+  min_order_sets?: number | null;
+}
+
+export interface OrderQuoteLineInput {
+  item: PriceableItem;
+  quantity: number;
+  // 'set' quantities are multiplied by set_size and checked against min_order_sets
+  unit?: 'piece' | 'set';
+  cookCustomPrice?: number | null;
+  // Chosen modifiers per unit; added after discounts
+  modifierPrice?: number | null;
+  // Total GST percent from the item's (or its category's) tax class
+  taxRate?: number | null;
+}
+
+export interface OrderQuoteLine {
+  units: number;
+  sets: number | null;
+  basePrice: number;
+  platformMargin: number;
+  grossUnitPrice: number;
+  discount: number;
+  unitPrice: number;
+  setPrice: number;
+  lineTotal: number;
+  taxRate: number;
+  cgst: number;
+  sgst: number;
+  meetsMinimum: boolean;
+}
+
+export interface OrderQuote {
+  lines: OrderQuoteLine[];
+  itemTotal: number;
+  discountTotal: number;
+  subtotal: number;
+  deliveryCharge: number;
+  deliveryTax: number;
+  cgstTotal: number;
+  sgstTotal: number;
+  taxTotal: number;
+  total: number;
+}
+
+export interface DeliveryChargeRule {
+  min_delivery_charge: number;
+  free_delivery_above: number | null;
+  charge_above_threshold: number | null;
+  tiers?: { order_above: number; delivery_charge: number }[];
+}
+
+/**
+ * Convert rupees to whole paise, rounding half up like Postgres round(x, 2)
+ */
+export function toPaise(amount: number): number {
+  return Math.round(Number((amount * 100).toPrecision(12)));
+}
+
+function fromPaise(paise: number): number {
+  return paise / 100;
+}
+
+/**
+ * GST on a tax-exclusive amount, split into equal CGST and SGST halves.
+ * An odd paisa goes to CGST, matching split_gst in the database.
+ */
+export function splitGst(amountPaise: number, ratePercent: number): { cgst: number; sgst: number } {
+  const taxPaise = Math.round(Number((amountPaise * (ratePercent || 0) / 100).toPrecision(12)));
+  const cgstPaise = Math.round(taxPaise / 2);
+  return { cgst: cgstPaise, sgst: taxPaise - cgstPaise };
+}
+
+/**
+ * Price a single cart line. Mirrors the quote_order RPC so the
+ * displayed price matches what place_order will charge.
+ */
+export function quoteLine(input: OrderQuoteLineInput): OrderQuoteLine {
+  const { item, cookCustomPrice } = input;
+  const quantity = Math.max(0, Math.floor(input.quantity));
+  const setSize = Math.max(1, item.set_size || 1);
+  const isSet = input.unit === 'set';
+
+  const basePrice = cookCustomPrice ?? item.price;
+  const marginType = (item.platform_margin_type || 'percent') as 'percent' | 'fixed';
+  const margin = calculatePlatformMargin(basePrice, marginType, item.platform_margin_value || 0);
+  const grossPaise = toPaise(basePrice + margin);
+
+  // Percent discount takes precedence over flat discount, never below zero
+  let discountPaise = 0;
+  if (item.discount_percent && item.discount_percent > 0) {
+    discountPaise = grossPaise * item.discount_percent / 100;
+  } else if (item.discount_amount && item.discount_amount > 0) {
+    discountPaise = Math.min(toPaise(item.discount_amount), grossPaise);
+  }
+  const modifierPaise = toPaise(input.modifierPrice || 0);
+  const unitPaise = Math.round(Number((grossPaise - discountPaise).toPrecision(12))) + modifierPaise;
+
+  const units = isSet ? quantity * setSize : quantity;
+  const taxRate = input.taxRate || 0;
+  const gst = splitGst(unitPaise * units, taxRate);
+
+  return {
+    units,
+    sets: isSet ? quantity : null,
+    basePrice,
+    platformMargin: fromPaise(toPaise(margin)),
+    grossUnitPrice: fromPaise(grossPaise + modifierPaise),
+    discount: fromPaise(grossPaise + modifierPaise - unitPaise),
+    unitPrice: fromPaise(unitPaise),
+    setPrice: fromPaise(unitPaise * setSize),
+    lineTotal: fromPaise(unitPaise * units),
+    taxRate,
+    cgst: fromPaise(gst.cgst),
+    sgst: fromPaise(gst.sgst),
+    meetsMinimum: !isSet || quantity >= (item.min_order_sets || 1),
+  };
+}
+
+/**
+ * "From" price for a listing card: homemade items start at the cheapest cook's price
+ */
+export function quoteListingPrice(
+  item: PriceableItem & { id: string; service_type?: string | null; service_types?: string[] | null },
+  lowestCookPrices?: Map<string, number | null>
+): OrderQuoteLine {
+  const isHomemade = item.service_type === 'homemade' || (item.service_types || []).includes('homemade');
+  const lowestPrice = isHomemade ? lowestCookPrices?.get(item.id) : null;
+
+  return quoteLine({
+    item,
+    quantity: 1,
+    cookCustomPrice: lowestPrice != null ? Math.min(item.price, lowestPrice) : null,
+  });
+}
+
+/**
+ * Delivery charge from an active delivery rule: tiers first, then the legacy threshold fields
+ */
+export function calculateDeliveryCharge(rule: DeliveryChargeRule | null | undefined, subtotal: number): number {
+  if (!rule) return 0;
+
+  const tiers = [...(rule.tiers || [])].sort((a, b) => b.order_above - a.order_above);
+  const matchingTier = tiers.find(t => subtotal >= t.order_above);
+  if (matchingTier) {
+    return matchingTier.delivery_charge;
+  }
+
+  if (rule.free_delivery_above != null && subtotal >= rule.free_delivery_above) {
+    return Math.max(rule.charge_above_threshold || 0, 0);
+  }
+
+  return rule.min_delivery_charge;
+}
+
+/**
+ * Compute an itemised customer quote for a cart, with all sums done in paise.
+ * GST is charged on top of the discounted line totals and the delivery charge.
+ */
+export function computeOrderQuote(
+  inputs: OrderQuoteLineInput[],
+  options: { deliveryCharge?: number; deliveryTaxRate?: number } = {}
+): OrderQuote {
+  const lines = inputs.map(quoteLine);
+
+  const itemTotalPaise = lines.reduce((sum, l) => sum + toPaise(l.grossUnitPrice) * l.units, 0);
+  const subtotalPaise = lines.reduce((sum, l) => sum + toPaise(l.lineTotal), 0);
+  const deliveryPaise = toPaise(options.deliveryCharge || 0);
+  const deliveryGst = splitGst(deliveryPaise, options.deliveryTaxRate || 0);
+
+  const cgstPaise = lines.reduce((sum, l) => sum + toPaise(l.cgst), 0) + deliveryGst.cgst;
+  const sgstPaise = lines.reduce((sum, l) => sum + toPaise(l.sgst), 0) + deliveryGst.sgst;
+
+  return {
+    lines,
+    itemTotal: fromPaise(itemTotalPaise),
+    discountTotal: fromPaise(itemTotalPaise - subtotalPaise),
+    subtotal: fromPaise(subtotalPaise),
+    deliveryCharge: fromPaise(deliveryPaise),
+    deliveryTax: fromPaise(deliveryGst.cgst + deliveryGst.sgst),
+    cgstTotal: fromPaise(cgstPaise),
+    sgstTotal: fromPaise(sgstPaise),
+    taxTotal: fromPaise(cgstPaise + sgstPaise),
+    total: fromPaise(subtotalPaise + deliveryPaise + cgstPaise + sgstPaise),
+  };
+}
@@ -0,0 +1,133 @@
+// "Order again": checks a past order's lines against today's menu before
+// they go back into the cart. Prices follow quoteLine, so the difference shown
+// is the one checkout will charge.
+
+import { quoteLine, type PriceableItem } from '@/lib/priceUtils';
+import {
+  defaultModifierSelection,
+  priceModifiers,
+  validateModifierSelection,
+  type ModifierGroup,
+  type ModifierPriceOverrides,
+  type SelectedModifier,
+} from '@/lib/modifiers';
+
+export type ReorderStatus = 'ok' | 'price_changed' | 'unavailable' | 'not_in_area' | 'cook_unavailable';
+
+// An order_items row as it was ordered
+export interface PastOrderLine {
+  food_item_id: string;
+  name: string;
+  quantity: number;
+  unit_price: number;
+  cook_id: string | null;
+  modifiers: SelectedModifier[];
+}
+
+export interface CurrentDish extends PriceableItem {
+  id: string;
+  is_available: boolean;
+  available_all_panchayats: boolean | null;
+  available_panchayat_ids: string[] | null;
+}
+
+// A cook_dishes allocation and whether its cook takes orders now
+export interface CurrentCookDish {
+  cook_id: string;
+  food_item_id: string;
+  custom_price: number | null;
+  modifier_prices: ModifierPriceOverrides | null;
+  cook_available: boolean;
+}
+
+export interface ReorderLine extends PastOrderLine {
+  status: ReorderStatus;
+  // Per unit today, with the original cook (or without one when they are gone)
+  current_unit_price: number | null;
+  modifier_option_ids: string[];
+  // Options from the past order that can no longer be chosen
+  dropped_modifiers: SelectedModifier[];
+}
+
+export interface ReorderMenu {
+  dishes: Map<string, CurrentDish>;
+  cookDishes: CurrentCookDish[];
+  modifierGroups: ModifierGroup[];
+}
+
+const PRICE_TOLERANCE = 0.005;
+
+/**
+ * Per-unit price of a dish today, at a cook's prices if one is given
+ */
+export function currentUnitPrice(
+  dish: CurrentDish,
+  cookDish: CurrentCookDish | null,
+  groups: ModifierGroup[],
+  optionIds: string[]
+): number {
+  const modifierPrice = priceModifiers(groups, optionIds, cookDish?.modifier_prices).price;
+  return quoteLine({
+    item: dish,
+    quantity: 1,
+    cookCustomPrice: cookDish?.custom_price ?? null,
+    modifierPrice,
+  }).unitPrice;
+}
+
+/**
+ * Compare each past line with today's menu, best case first:
+ * gone or out of area lines cannot be added; a missing cook needs another
+ * cook; otherwise the line is added at today's price.
+ */
+export function reconcileReorder(
+  lines: PastOrderLine[],
+  menu: ReorderMenu,
+  panchayatId: string | null
+): ReorderLine[] {
+  return lines.map((line) => {
+    const dish = menu.dishes.get(line.food_item_id);
+    const groups = menu.modifierGroups.filter((group) => group.food_item_id === line.food_item_id && group.is_active);
+
+    // Keep the options that are still offered; fall back to the defaults if that leaves a required choice open
+    const availableOptionIds = new Set(
+      groups.flatMap((group) => group.options.filter((option) => option.is_available).map((option) => option.id))
+    );
+    const kept = line.modifiers.filter((modifier) => availableOptionIds.has(modifier.option_id));
+    const dropped = line.modifiers.filter((modifier) => !availableOptionIds.has(modifier.option_id));
+    let optionIds = kept.map((modifier) => modifier.option_id);
+    if (validateModifierSelection(groups, optionIds)) {
+      optionIds = defaultModifierSelection(groups);
+    }
+
+    const result = (status: ReorderStatus, price: number | null): ReorderLine => ({
+      ...line,
+      status,
+      current_unit_price: price,
+      modifier_option_ids: optionIds,
+      dropped_modifiers: dropped,
+    });
+
+    if (!dish || !dish.is_available) return result('unavailable', null);
+
+    if (
+      panchayatId &&
+      !dish.available_all_panchayats &&
+      !(dish.available_panchayat_ids || []).includes(panchayatId)
+    ) {
+      return result('not_in_area', null);
+    }
+
+    const cookDish = line.cook_id
+      ? menu.cookDishes.find((cd) => cd.cook_id === line.cook_id && cd.food_item_id === line.food_item_id) ?? null
+      : null;
+
+    if (line.cook_id && (!cookDish || !cookDish.cook_available)) {
+      return result('cook_unavailable', currentUnitPrice(dish, null, groups, optionIds));
+    }
+
+    const price = currentUnitPrice(dish, cookDish, groups, optionIds);
+    const changed = Math.abs(price - Number(line.unit_price)) > PRICE_TOLERANCE || dropped.length > 0;
+    return result(changed ? 'price_changed' : 'ok', price);
+  });
+}
@@ -0,0 +1,114 @@
+// Delivery dates (and homemade delivery windows) a customer can order for.
+// Mirrors schedule_order_delivery so the pickers only offer what checkout accepts.
+
+import { addDays, differenceInCalendarDays, format } from 'date-fns';
+
+export interface DeliveryWindow {
+  start: string; // "HH:MM"
+  end: string;
+}
+
+export interface SlotTimes {
+  start_time: string;
+  end_time: string;
+  cutoff_hours_before: number;
+}
+
+export type OrderingStatusLabel = 'open' | 'closing_soon' | 'closed';
+
+export interface OrderingStatus {
+  isOpen: boolean;
+  timeRemaining: { hours: number; minutes: number } | null;
+  statusLabel: OrderingStatusLabel;
+}
+
+// Windows offered for homemade orders placed for a later time
+export const HOMEMADE_DELIVERY_WINDOWS: DeliveryWindow[] = [
+  { start: '08:00', end: '10:00' },
+  { start: '10:00', end: '12:00' },
+  { start: '12:00', end: '14:00' },
+  { start: '14:00', end: '16:00' },
+  { start: '16:00', end: '18:00' },
+  { start: '18:00', end: '20:00' },
+  { start: '20:00', end: '22:00' },
+];
+
+const CLOSING_SOON_MINUTES = 60;
+
+/**
+ * "YYYY-MM-DD" for a local date, as stored in orders.scheduled_for
+ */
+export function toDateKey(date: Date): string {
+  return format(date, 'yyyy-MM-dd');
+}
+
+/**
+ * Local time on a date, from "HH:MM" or "HH:MM:SS"
+ */
+export function atTime(dateKey: string, time: string): Date {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const [hours, minutes] = time.split(':').map(Number);
+  return new Date(year, month - 1, day, hours, minutes);
+}
+
+/**
+ * Today and the following days a service takes orders for
+ */
+export function schedulableDates(maxAdvanceDays: number, now: Date = new Date()): string[] {
+  return Array.from({ length: Math.max(maxAdvanceDays, 0) + 1 }, (_, i) => toDateKey(addDays(now, i)));
+}
+
+/**
+ * When ordering for a slot on a date closes
+ */
+export function slotCutoff(slot: Pick<SlotTimes, 'start_time' | 'cutoff_hours_before'>, dateKey: string): Date {
+  const start = atTime(dateKey, slot.start_time);
+  return new Date(start.getTime() - slot.cutoff_hours_before * 60 * 60 * 1000);
+}
+
+/**
+ * Whether a slot still takes orders for a date, and for how long
+ */
+export function getSlotOrderingStatus(slot: SlotTimes, dateKey: string, now: Date = new Date()): OrderingStatus {
+  const remainingMinutes = Math.floor((slotCutoff(slot, dateKey).getTime() - now.getTime()) / 60000);
+
+  if (remainingMinutes <= 0) {
+    return { isOpen: false, timeRemaining: null, statusLabel: 'closed' };
+  }
+
+  return {
+    isOpen: true,
+    timeRemaining: { hours: Math.floor(remainingMinutes / 60), minutes: remainingMinutes % 60 },
+    statusLabel: remainingMinutes <= CLOSING_SOON_MINUTES ? 'closing_soon' : 'open',
+  };
+}
+
+/**
+ * A window can be chosen while there is still time to cook and ride before it opens
+ */
+export function isWindowAvailable(
+  window: DeliveryWindow,
+  dateKey: string,
+  leadMinutes: number,
+  now: Date = new Date()
+): boolean {
+  return atTime(dateKey, window.start).getTime() - leadMinutes * 60000 >= now.getTime();
+}
+
+/**
+ * "Today", "Tomorrow" or "Sat, 18 Apr"
+ */
+export function formatDeliveryDate(dateKey: string, now: Date = new Date()): string {
+  const date = atTime(dateKey, '00:00');
+  const days = differenceInCalendarDays(date, now);
+  if (days === 0) return 'Today';
+  if (days === 1) return 'Tomorrow';
+  return format(date, 'EEE, d MMM');
+}
+
+/**
+ * "10:00 AM - 12:00 PM" for a window's start and end timestamps
+ */
+export function formatDeliveryWindow(start: string | Date, end: string | Date): string {
+  return `${format(new Date(start), 'h:mm a')} - ${format(new Date(end), 'h:mm a')}`;
+}
@@ -0,0 +1,58 @@
+// Meal subscription calendars. Mirrors subscription_delivery_dates so the plan
+// summary shows the same meals the server charges for.
+
+import { addDays, getISODay } from 'date-fns';
+import { atTime, toDateKey } from '@/lib/scheduling';
+
+export type SubscriptionStatus = 'active' | 'paused' | 'cancelled' | 'completed';
+
+export const SUBSCRIPTION_STATUS_CONFIG: Record<SubscriptionStatus, { label: string; color: string }> = {
+  active: { label: 'Active', color: 'bg-green-100 text-green-800' },
+  paused: { label: 'Paused', color: 'bg-yellow-100 text-yellow-800' },
+  cancelled: { label: 'Cancelled', color: 'bg-red-100 text-red-800' },
+  completed: { label: 'Completed', color: 'bg-gray-100 text-gray-800' },
+};
+
+// ISO weekdays, 1 = Monday
+export const WEEKDAYS: { value: number; label: string }[] = [
+  { value: 1, label: 'Mon' },
+  { value: 2, label: 'Tue' },
+  { value: 3, label: 'Wed' },
+  { value: 4, label: 'Thu' },
+  { value: 5, label: 'Fri' },
+  { value: 6, label: 'Sat' },
+  { value: 7, label: 'Sun' },
+];
+
+/**
+ * Last day of a plan running a number of weeks from its start
+ */
+export function subscriptionEndDate(startDate: string, weeks: number): string {
+  return toDateKey(addDays(atTime(startDate, '00:00'), weeks * 7 - 1));
+}
+
+/**
+ * Delivery days of a plan between two dates, inclusive
+ */
+export function subscriptionDeliveryDates(weekdays: number[], startDate: string, endDate: string): string[] {
+  const dates: string[] = [];
+  const end = atTime(endDate, '00:00');
+  for (let day = atTime(startDate, '00:00'); day <= end; day = addDays(day, 1)) {
+    if (weekdays.includes(getISODay(day))) dates.push(toDateKey(day));
+  }
+  return dates;
+}
+
+/**
+ * "Mon–Fri", "Every day" or "Mon, Wed, Fri"
+ */
+export function formatWeekdays(weekdays: number[]): string {
+  const days = [...new Set(weekdays)].sort((a, b) => a - b);
+  if (days.length === 7) return 'Every day';
+
+  const isRun = days.length > 2 && days.every((day, i) => i === 0 || day === days[i - 1] + 1);
+  const label = (day: number) => WEEKDAYS.find((w) => w.value === day)?.label ?? '';
+  if (isRun) return `${label(days[0])}–${label(days[days.length - 1])}`;
+
+  return days.map(label).join(', ');
+}
@@ -1,19 +1,22 @@
-import React, { useMemo } from 'react';
+import React, { useMemo, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useCart } from '@/contexts/CartContext';
 import { useAuth } from '@/contexts/AuthContext';
 import { useDeliveryRules } from '@/hooks/useDeliveryRules';
-import { calculatePlatformMargin } from '@/lib/priceUtils';
+import { calculateDeliveryCharge, quoteLine } from '@/lib/priceUtils';
+import { describeModifiers } from '@/lib/modifiers';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
 import { ArrowLeft, Plus, Minus, Trash2, ShoppingBag } from 'lucide-react';
+import CustomerLoginDialog from '@/components/customer/CustomerLoginDialog';
 
 const Cart: React.FC = () => {
   const navigate = useNavigate();
   const { items, totalAmount, updateQuantity, removeFromCart, isLoading } = useCart();
   const { user } = useAuth();
   const { rules } = useDeliveryRules();
+  const [showLoginDialog, setShowLoginDialog] = useState(false);
 
   const deliveryFee = useMemo(() => {
     if (!items.length || !rules?.length) return 0;
@@ -24,53 +27,18 @@ const Cart: React.FC = () => {
     const activeRule = rules.find(
       (r) => r.service_type === serviceType && r.is_active
     );
-    if (!activeRule) return 0;
-
-    // Check tiers first (new system) - find highest matching tier
-    const tiers = (activeRule as any).tiers || [];
-    if (tiers.length > 0) {
-      // Sort descending by order_above to find highest matching
-      const sortedTiers = [...tiers].sort((a: any, b: any) => b.order_above - a.order_above);
-      const matchingTier = sortedTiers.find((t: any) => totalAmount >= t.order_above);
-      if (matchingTier) {
-        return matchingTier.delivery_charge;
-      }
-    }
-
-    // Legacy: single threshold fields
-    if (activeRule.free_delivery_above != null && totalAmount >= activeRule.free_delivery_above) {
-      if (activeRule.charge_above_threshold != null && activeRule.charge_above_threshold > 0) {
-        return activeRule.charge_above_threshold;
-      }
-      return 0;
-    }
-
-    return activeRule.min_delivery_charge;
+    return calculateDeliveryCharge(activeRule, totalAmount);
   }, [items, rules, totalAmount]);
 
   const handleCheckout = () => {
+    // Guests log in here; their cart is merged into the account before checkout
     if (!user) {
-      navigate('/auth');
+      setShowLoginDialog(true);
       return;
     }
     navigate('/checkout');
   };
 
-  if (!user) {
-    return (
-      <div className="flex min-h-screen flex-col items-center justify-center bg-background p-4">
-        <ShoppingBag className="h-16 w-16 text-muted-foreground" />
-        <h2 className="mt-4 text-xl font-semibold">Login to view cart</h2>
-        <p className="mt-2 text-center text-muted-foreground">
-          Sign in to add items to your cart
-        </p>
-        <Button className="mt-6" onClick={() => navigate('/auth')}>
-          Login / Sign Up
-        </Button>
-      </div>
-    );
-  }
-
   if (items.length === 0) {
     return (
       <div className="min-h-screen bg-background">
@@ -133,14 +101,18 @@ const Cart: React.FC = () => {
                   {/* Details */}
                   <div className="flex-1 min-w-0">
                     <h3 className="font-medium line-clamp-2">{item?.name}</h3>
+                    {cartItem.modifiers.length > 0 && (
+                      <p className="text-xs text-muted-foreground line-clamp-2">
+                        {describeModifiers(cartItem.modifiers)}
+                      </p>
+                    )}
                     <p className="mt-1 text-lg font-bold">
-                      ₹{(() => {
-                        const effectiveBase = (cartItem as any).cook_custom_price ?? item?.price ?? 0;
-                        const marginType = ((item as any)?.platform_margin_type || 'percent') as 'percent' | 'fixed';
-                        const marginValue = (item as any)?.platform_margin_value || 0;
-                        const margin = calculatePlatformMargin(effectiveBase, marginType, marginValue);
-                        return ((effectiveBase + margin) * cartItem.quantity).toFixed(0);
-                      })()}
+                      ₹{item ? quoteLine({
+                        item,
+                        quantity: cartItem.quantity,
+                        cookCustomPrice: cartItem.cook_custom_price,
+                        modifierPrice: cartItem.modifier_price,
+                      }).lineTotal.toFixed(0) : 0}
                     </p>
                     
                     {/* Quantity Controls */}
@@ -209,6 +181,13 @@ const Cart: React.FC = () => {
           </Button>
         </div>
       </div>
+
+      <CustomerLoginDialog
+        open={showLoginDialog}
+        onOpenChange={setShowLoginDialog}
+        onLoginSuccess={() => navigate('/checkout')}
+        message="Log in to place your order. The items in your cart will be kept."
+      />
     </div>
   );
 };
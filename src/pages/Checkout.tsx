@@ -1,5 +1,6 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useCart } from '@/contexts/CartContext';
 import { useAuth } from '@/contexts/AuthContext';
@@ -9,33 +10,134 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Separator } from '@/components/ui/separator';
-import { ArrowLeft, MapPin, ShoppingBag, Loader2 } from 'lucide-react';
+import { ArrowLeft, MapPin, ShoppingBag, Loader2, AlertCircle, Clock, CalendarClock } from 'lucide-react';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { toast } from '@/hooks/use-toast';
 import AddressSelector from '@/components/customer/AddressSelector';
-import { calculatePlatformMargin } from '@/lib/priceUtils';
-
-// Helper to get customer price (base + margin), considering cook custom price
-const getCustomerPrice = (foodItem: any, cookCustomPrice?: number | null): number => {
-  if (!foodItem) return 0;
-  const effectiveBase = cookCustomPrice ?? foodItem.price;
-  const marginType = (foodItem.platform_margin_type || 'percent') as 'percent' | 'fixed';
-  const marginValue = foodItem.platform_margin_value || 0;
-  const margin = calculatePlatformMargin(effectiveBase, marginType, marginValue);
-  return effectiveBase + margin;
+import type { CustomerAddress } from '@/hooks/useCustomerAddresses';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { useCheckoutQuotes } from '@/hooks/useOrderQuote';
+import CouponInput from '@/components/customer/CouponInput';
+import WalletPayment from '@/components/customer/WalletPayment';
+import PaymentMethodSelector, { type PaymentMethod } from '@/components/customer/PaymentMethodSelector';
+import MockPaymentDialog from '@/components/customer/MockPaymentDialog';
+import { useOnlinePayment } from '@/hooks/useOnlinePayment';
+import { useCustomerWallet } from '@/hooks/useCustomerWallet';
+import { useServiceModules } from '@/hooks/useServiceModules';
+import { shareDropPoint } from '@/hooks/useDeliveryTracking';
+import DeliveryDateSelector from '@/components/customer/DeliveryDateSelector';
+import DeliveryWindowSelector from '@/components/customer/DeliveryWindowSelector';
+import { groupCartItems, estimateDeliveryMinutes } from '@/lib/cartGroups';
+import { computeOrderQuote } from '@/lib/priceUtils';
+import { describeModifiers } from '@/lib/modifiers';
+import { schedulableDates, toDateKey, type DeliveryWindow } from '@/lib/scheduling';
+import type { ServiceType } from '@/types/database';
+
+const SERVICE_LABELS: Record<ServiceType, string> = {
+  indoor_events: 'Indoor Events',
+  cloud_kitchen: 'Cloud Kitchen',
+  homemade: 'Homemade',
 };
 
 const Checkout: React.FC = () => {
   const navigate = useNavigate();
-  const { items, totalAmount, clearCart } = useCart();
+  const { items, clearCart } = useCart();
   const { user, profile } = useAuth();
   const { selectedPanchayat, selectedWardNumber, isLocationSet } = useLocation();
 
   const [deliveryAddress, setDeliveryAddress] = useState('');
+  const [savedAddress, setSavedAddress] = useState<CustomerAddress | null>(null);
   const [deliveryInstructions, setDeliveryInstructions] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [couponCode, setCouponCode] = useState<string | null>(null);
+  const [useWallet, setUseWallet] = useState(false);
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('cash');
+  const [isScheduled, setIsScheduled] = useState(false);
+  const [scheduledDate, setScheduledDate] = useState(() => toDateKey(new Date()));
+  const [deliveryWindow, setDeliveryWindow] = useState<DeliveryWindow | null>(null);
+  const { pay, mockCheckout } = useOnlinePayment();
+  const { data: serviceModules } = useServiceModules();
+  const queryClient = useQueryClient();
+  const { data: wallet } = useCustomerWallet();
+
+  // A saved address is ordered to (and its pin passed on) only while its text is used unchanged
+  const orderAddress = savedAddress?.full_address === deliveryAddress ? savedAddress : null;
+  // Mirrors place_order's check: a pinned address belongs to the ward its pin is in
+  const addressInOtherWard = !!orderAddress?.panchayat_id && (
+    orderAddress.panchayat_id !== selectedPanchayat?.id || orderAddress.ward_number !== selectedWardNumber
+  );
+
+  // The cart is placed as one order per service type and cook
+  const cartGroups = useMemo(() => groupCartItems(items), [items]);
 
-  // Determine service type from cart items (assume all items have same service type)
-  const serviceType = items[0]?.food_item?.service_type || 'cloud_kitchen';
+  // Orders can be scheduled as far ahead as every service in the cart allows,
+  // in a window that leaves time for the slowest group to be cooked and delivered
+  const deliveryDates = useMemo(() => {
+    const advanceDays = cartGroups.map(group =>
+      serviceModules?.find(m => m.service_type === group.serviceType)?.max_advance_days ?? 0
+    );
+    return schedulableDates(advanceDays.length > 0 ? Math.min(...advanceDays) : 0);
+  }, [cartGroups, serviceModules]);
+  const scheduleLeadMinutes = Math.max(0, ...cartGroups.map(group => estimateDeliveryMinutes(group.items)));
+
+  // A coupon is applied to a single order: the one with the largest subtotal
+  const couponGroupIndex = useMemo(() => {
+    const subtotals = cartGroups.map(group => computeOrderQuote(group.items.filter(item => item.food_item).map(item => ({
+      item: item.food_item!,
+      quantity: item.quantity,
+      cookCustomPrice: item.cook_custom_price,
+      modifierPrice: item.modifier_price,
+    }))).subtotal);
+    return subtotals.indexOf(Math.max(...subtotals));
+  }, [cartGroups]);
+
+  // Prices come from the server quotes; place_checkout recomputes and verifies each total
+  const quoteGroups = useMemo(() => cartGroups.map((group, index) => ({
+    serviceType: group.serviceType,
+    lines: group.items.map(item => ({
+      food_item_id: item.food_item_id,
+      quantity: item.quantity,
+      cook_id: item.selected_cook_id ?? null,
+      modifier_option_ids: item.modifier_option_ids,
+    })),
+    couponCode: index === couponGroupIndex ? couponCode : null,
+  })), [cartGroups, couponGroupIndex, couponCode]);
+  const quoteResults = useCheckoutQuotes(quoteGroups, selectedPanchayat?.id);
+  const quotes = quoteResults.map(result => result.data);
+  const isQuoteLoading = quoteResults.some(result => result.isLoading);
+  const quoteError = quoteResults.find(result => result.error)?.error;
+  const couponQuote = quotes[couponGroupIndex];
+  const allQuoted = quotes.length > 0 && quotes.every(Boolean);
+
+  const cookIds = useMemo(
+    () => [...new Set(cartGroups.map(group => group.cookId).filter(Boolean))] as string[],
+    [cartGroups]
+  );
+  const { data: cookNames } = useQuery({
+    queryKey: ['checkout-cook-names', cookIds],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('cooks')
+        .select('id, kitchen_name')
+        .in('id', cookIds);
+
+      if (error) throw error;
+      return new Map((data || []).map(cook => [cook.id, cook.kitchen_name]));
+    },
+    enabled: cookIds.length > 0,
+  });
+
+  const sumQuotes = (pick: (quote: NonNullable<typeof quotes[number]>) => number) =>
+    quotes.reduce((sum, quote) => sum + (quote ? pick(quote) : 0), 0);
+  const itemTotal = sumQuotes(quote => quote.item_total);
+  const discountTotal = sumQuotes(quote => quote.discount_total);
+  const cgstTotal = sumQuotes(quote => quote.cgst_total);
+  const sgstTotal = sumQuotes(quote => quote.sgst_total);
+  const deliveryFee = sumQuotes(quote => quote.delivery_charge);
+  const grandTotal = sumQuotes(quote => quote.total);
+
+  // Wallet covers as much of the total as it can; the rest is paid in cash or online
+  const walletAmount = useWallet && allQuoted ? Math.min(wallet?.balance ?? 0, grandTotal) : 0;
 
   if (!user) {
     navigate('/auth');
@@ -101,154 +203,117 @@ const Checkout: React.FC = () => {
       return;
     }
 
+    if (addressInOtherWard) {
+      toast({
+        title: 'Address in Another Ward',
+        description: 'Change your location to this address\'s ward, or pick another address',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    if (isScheduled && !deliveryWindow) {
+      toast({
+        title: 'Delivery Window Required',
+        description: 'Please choose when your order should be delivered',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    if (!allQuoted) return;
+
     setIsSubmitting(true);
 
     try {
-      // Generate order number
-      const orderNumber = `PC${Date.now()}`;
+      // Create one order per group from the server-side quotes, linked under a checkout group
+      // (place_order also sets the homemade cook/delivery statuses so delivery staff get notified)
+      const { data: checkoutGroup, error: checkoutError } = await supabase.rpc('place_checkout', {
+        p_groups: quoteGroups.map((group, index) => ({
+          service_type: group.serviceType,
+          items: group.lines,
+          expected_total: quotes[index]!.total,
+          coupon_code: quotes[index]!.coupon_code,
+        })),
+        p_panchayat_id: selectedPanchayat!.id,
+        p_ward_number: selectedWardNumber!,
+        p_delivery_address: deliveryAddress,
+        p_address_id: orderAddress?.id,
+        p_delivery_instructions: deliveryInstructions || undefined,
+        p_wallet_amount: walletAmount || undefined,
+        ...(isScheduled && deliveryWindow && {
+          p_scheduled_for: scheduledDate,
+          p_window_start: deliveryWindow.start,
+          p_window_end: deliveryWindow.end,
+        }),
+      });
 
-      // For homemade orders, set cook/delivery statuses so delivery staff get notified
-      const isHomemade = serviceType === 'homemade';
+      if (checkoutError) throw checkoutError;
 
-      // Create the order
-      const { data: order, error: orderError } = await supabase
+      const { data: orders, error: ordersError } = await supabase
         .from('orders')
-        .insert([{
-          order_number: orderNumber,
-          customer_id: user.id,
-          service_type: serviceType as 'indoor_events' | 'cloud_kitchen' | 'homemade',
-          total_amount: totalAmount + deliveryFee,
-          delivery_amount: deliveryFee > 0 ? deliveryFee : null,
-          panchayat_id: selectedPanchayat!.id,
-          ward_number: selectedWardNumber!,
-          delivery_address: deliveryAddress,
-          delivery_instructions: deliveryInstructions || null,
-          ...(isHomemade ? {
-            status: 'confirmed' as const,
-            cook_status: 'pending',
-            delivery_status: 'pending',
-            estimated_delivery_minutes: 60,
-          } : {}),
-        }])
-        .select()
-        .single();
-
-      if (orderError) throw orderError;
-
-      // Create order items with customer price (base + platform margin)
-      const orderItems = items.map(item => {
-        const customerPrice = getCustomerPrice(item.food_item, (item as any).cook_custom_price);
-        return {
-          order_id: order.id,
-          food_item_id: item.food_item_id,
-          quantity: item.quantity,
-          unit_price: customerPrice,
-          total_price: customerPrice * item.quantity,
-        };
-      });
+        .select('id, order_number, service_type')
+        .eq('checkout_group_id', checkoutGroup.id);
 
-      const { error: itemsError } = await supabase
-        .from('order_items')
-        .insert(orderItems);
-
-      if (itemsError) throw itemsError;
-
-      // Assign cooks for homemade and cloud_kitchen orders
-      if (isHomemade || serviceType === 'cloud_kitchen') {
-        // Use cart items from context which already have selected_cook_id
-        const cartCookMap = new Map<string, string>();
-        items.forEach((item) => {
-          if (item.selected_cook_id) {
-            cartCookMap.set(item.food_item_id, item.selected_cook_id);
-          }
-        });
-
-        // For items without a selected cook, fallback to cook_dishes allocation
-        const itemsNeedingCook = items.filter(item => !cartCookMap.has(item.food_item_id));
-        const foodItemIds = itemsNeedingCook.map(item => item.food_item_id);
-        
-        if (foodItemIds.length > 0) {
-          const { data: cookDishes } = await supabase
-            .from('cook_dishes')
-            .select('cook_id, food_item_id, cooks!inner(is_active, is_available)')
-            .in('food_item_id', foodItemIds);
-
-          // Pick first active+available cook for items without selection
-          (cookDishes || []).forEach((cd: any) => {
-            if (cd.cooks?.is_active && cd.cooks?.is_available && !cartCookMap.has(cd.food_item_id)) {
-              cartCookMap.set(cd.food_item_id, cd.cook_id);
-            }
-          });
-        }
+      if (ordersError) throw ordersError;
 
-        // Get unique cook IDs to create assignments
-        const uniqueCookIds = [...new Set(cartCookMap.values())];
-
-        // Create cook assignments in order_assigned_cooks
-        for (const cookId of uniqueCookIds) {
-          await supabase
-            .from('order_assigned_cooks')
-            .insert({
-              order_id: order.id,
-              cook_id: cookId,
-              cook_status: 'pending',
-              assigned_at: new Date().toISOString(),
-            });
-        }
+      // Without a pinned address, the drop point for live tracking comes from the device
+      if (orderAddress?.latitude == null) {
+        void shareDropPoint((orders || []).map(order => order.id));
+      }
 
-        // Update order items with assigned cook
-        for (const [foodItemId, cookId] of cartCookMap.entries()) {
-          await supabase
-            .from('order_items')
-            .update({ assigned_cook_id: cookId })
-            .eq('order_id', order.id)
-            .eq('food_item_id', foodItemId);
-        }
+      // Offer homemade and cloud_kitchen orders to cooks: the cook picked in
+      // the cart first, otherwise the best-ranked one. The engine moves on by
+      // itself when a cook rejects or does not answer in time, and picks up
+      // any order missed here within a minute.
+      for (const order of orders || []) {
+        if (order.service_type !== 'homemade' && order.service_type !== 'cloud_kitchen') continue;
+        const { error: assignError } = await supabase.rpc('auto_assign_order_cooks', { p_order_id: order.id });
+        if (assignError) console.error('[Checkout] Cook assignment failed:', assignError);
+      }
 
-        // Update order with first cook's user_id as primary assigned
-        // orders.assigned_cook_id references auth.users(id), so we need user_id not cook id
-        if (uniqueCookIds.length > 0) {
-          const { data: cookData } = await supabase
-            .from('cooks')
-            .select('user_id')
-            .eq('id', uniqueCookIds[0])
-            .maybeSingle();
-
-          if (cookData?.user_id) {
-            await supabase
-              .from('orders')
-              .update({ 
-                assigned_cook_id: cookData.user_id,
-                cook_assignment_status: 'pending',
-              })
-              .eq('id', order.id);
-          }
+      // Collect the online share while the checkout (and its payment dialog) is still shown
+      if (paymentMethod === 'online' && checkoutGroup.total_amount - checkoutGroup.wallet_amount > 0) {
+        const payment = await pay(checkoutGroup.id, 'checkout_group');
+        if (payment.status !== 'captured') {
+          toast({
+            title: 'Payment not completed',
+            description: payment.error || 'Your order is placed. You can pay on delivery or retry from the order page.',
+            variant: 'destructive',
+          });
         }
       }
 
       // Clear the cart
       await clearCart();
 
+      const orderNumbers = (orders || []).map(order => `#${order.order_number}`).join(', ');
       toast({
         title: 'Order Placed!',
-        description: `Your order #${order.order_number} has been placed successfully`,
+        description: (orders || []).length > 1
+          ? `Your orders ${orderNumbers} have been placed successfully`
+          : `Your order ${orderNumbers} has been placed successfully`,
       });
 
+      if (walletAmount > 0) {
+        queryClient.invalidateQueries({ queryKey: ['customer-wallet'] });
+      }
+
       navigate('/orders');
     } catch (error) {
       console.error('Error placing order:', error);
       toast({
         title: 'Error',
-        description: 'Failed to place order. Please try again.',
+        description: (error as Error)?.message || 'Failed to place order. Please try again.',
         variant: 'destructive',
       });
+      quoteResults.forEach(result => result.refetch());
     } finally {
       setIsSubmitting(false);
     }
   };
 
-  const deliveryFee = serviceType === 'homemade' ? 30 : 0;
-  const grandTotal = totalAmount + deliveryFee;
+  const amountToPay = Math.max(grandTotal - walletAmount, 0);
 
   return (
     <div className="min-h-screen bg-background pb-32">
@@ -284,7 +349,17 @@ const Checkout: React.FC = () => {
               <AddressSelector
                 selectedAddress={deliveryAddress}
                 onAddressChange={setDeliveryAddress}
+                onAddressSelect={setSavedAddress}
               />
+              {addressInOtherWard && (
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>
+                    This address is in {orderAddress.ward_number ? `Ward ${orderAddress.ward_number}` : 'another ward'}, not
+                    your selected location. Change your location to order to it.
+                  </AlertDescription>
+                </Alert>
+              )}
             </div>
 
             <div className="space-y-2">
@@ -299,28 +374,168 @@ const Checkout: React.FC = () => {
           </CardContent>
         </Card>
 
+        {/* Delivery Time */}
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="flex items-center gap-2 text-base">
+              <CalendarClock className="h-4 w-4" />
+              Delivery Time
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <RadioGroup
+              value={isScheduled ? 'scheduled' : 'now'}
+              onValueChange={(value) => setIsScheduled(value === 'scheduled')}
+              className="grid grid-cols-2 gap-2"
+            >
+              <Label htmlFor="deliver-now" className="flex items-center gap-2 rounded-lg border p-3 cursor-pointer font-normal">
+                <RadioGroupItem value="now" id="deliver-now" />
+                As soon as possible
+              </Label>
+              <Label htmlFor="deliver-later" className="flex items-center gap-2 rounded-lg border p-3 cursor-pointer font-normal">
+                <RadioGroupItem value="scheduled" id="deliver-later" />
+                Schedule for later
+              </Label>
+            </RadioGroup>
+
+            {isScheduled && (
+              <div className="space-y-3">
+                <DeliveryDateSelector
+                  dates={deliveryDates}
+                  value={scheduledDate}
+                  onChange={(date) => {
+                    setScheduledDate(date);
+                    setDeliveryWindow(null);
+                  }}
+                />
+                <DeliveryWindowSelector
+                  date={scheduledDate}
+                  leadMinutes={scheduleLeadMinutes}
+                  value={deliveryWindow}
+                  onChange={setDeliveryWindow}
+                />
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Coupon & Wallet */}
+        <Card>
+          <CardContent className="p-4">
+            <CouponInput
+              appliedCode={couponCode}
+              discount={couponQuote?.coupon_discount ?? 0}
+              error={couponQuote?.coupon_error ?? null}
+              isChecking={!!couponCode && !!quoteResults[couponGroupIndex]?.isFetching}
+              onApply={setCouponCode}
+              onRemove={() => setCouponCode(null)}
+            />
+            {(wallet?.balance ?? 0) > 0 && (
+              <>
+                <Separator className="my-4" />
+                <WalletPayment
+                  balance={wallet?.balance ?? 0}
+                  walletAmount={Math.min(wallet?.balance ?? 0, grandTotal)}
+                  amountDue={grandTotal}
+                  enabled={useWallet}
+                  onToggle={setUseWallet}
+                />
+              </>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Payment Method */}
+        {amountToPay > 0 && (
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base">Payment Method</CardTitle>
+            </CardHeader>
+            <CardContent className="p-4 pt-0">
+              <PaymentMethodSelector value={paymentMethod} onChange={setPaymentMethod} />
+            </CardContent>
+          </Card>
+        )}
+
         {/* Order Summary */}
         <Card>
           <CardHeader className="pb-3">
             <CardTitle className="text-base">Order Summary</CardTitle>
           </CardHeader>
           <CardContent className="space-y-3">
-            {items.map((item) => {
-              const customerPrice = getCustomerPrice(item.food_item, (item as any).cook_custom_price);
+            {quoteError && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{(quoteError as Error).message}</AlertDescription>
+              </Alert>
+            )}
+            {isQuoteLoading && (
+              <div className="flex justify-center py-2">
+                <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+              </div>
+            )}
+            {allQuoted && cartGroups.map((group, groupIndex) => {
+              const quote = quotes[groupIndex]!;
+              const cookName = group.cookId ? cookNames?.get(group.cookId) : null;
               return (
-                <div key={item.id} className="flex justify-between text-sm">
-                  <span>
-                    {item.food_item?.name} × {item.quantity}
-                  </span>
-                  <span>₹{(customerPrice * item.quantity).toFixed(0)}</span>
+                <div key={group.key} className="space-y-2">
+                  {cartGroups.length > 1 && (
+                    <div className="flex items-center justify-between text-sm font-medium">
+                      <span>
+                        Order {groupIndex + 1}: {SERVICE_LABELS[group.serviceType]}
+                        {cookName && <span className="text-muted-foreground"> · {cookName}</span>}
+                      </span>
+                      {!isScheduled && (
+                        <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                          <Clock className="h-3 w-3" />
+                          ~{estimateDeliveryMinutes(group.items)} min
+                        </span>
+                      )}
+                    </div>
+                  )}
+                  {group.items.map((item, index) => (
+                    <div key={item.id} className="flex justify-between text-sm">
+                      <span>
+                        {item.food_item?.name} × {item.quantity}
+                        {item.modifiers.length > 0 && (
+                          <span className="block text-xs text-muted-foreground">{describeModifiers(item.modifiers)}</span>
+                        )}
+                      </span>
+                      <span>₹{(quote.lines[index]?.line_total ?? 0).toFixed(0)}</span>
+                    </div>
+                  ))}
+                  {cartGroups.length > 1 && (
+                    <div className="flex justify-between text-xs text-muted-foreground">
+                      <span>Delivery Fee</span>
+                      <span>{quote.delivery_charge > 0 ? `₹${quote.delivery_charge}` : 'FREE'}</span>
+                    </div>
+                  )}
                 </div>
               );
             })}
+            {cartGroups.length > 1 && (
+              <p className="text-xs text-muted-foreground">
+                Your cart will be placed as {cartGroups.length} orders, each delivered and tracked separately.
+                You pay once for all of them.
+              </p>
+            )}
             <Separator />
             <div className="flex justify-between text-sm">
               <span className="text-muted-foreground">Subtotal</span>
-              <span>₹{totalAmount.toFixed(0)}</span>
+              <span>₹{itemTotal.toFixed(0)}</span>
             </div>
+            {discountTotal > 0 && (
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">Discount</span>
+                <span className="text-green-600">-₹{discountTotal.toFixed(0)}</span>
+              </div>
+            )}
+            {couponQuote && couponQuote.coupon_discount > 0 && (
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">Coupon ({couponQuote.coupon_code})</span>
+                <span className="text-green-600">-₹{couponQuote.coupon_discount.toFixed(2)}</span>
+              </div>
+            )}
             <div className="flex justify-between text-sm">
               <span className="text-muted-foreground">Delivery Fee</span>
               {deliveryFee > 0 ? (
@@ -329,11 +544,35 @@ const Checkout: React.FC = () => {
                 <span className="text-green-600">FREE</span>
               )}
             </div>
+            {cgstTotal + sgstTotal > 0 && (
+              <>
+                <div className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">CGST</span>
+                  <span>₹{cgstTotal.toFixed(2)}</span>
+                </div>
+                <div className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">SGST</span>
+                  <span>₹{sgstTotal.toFixed(2)}</span>
+                </div>
+              </>
+            )}
             <Separator />
             <div className="flex justify-between font-semibold">
               <span>Total</span>
               <span className="text-lg">₹{grandTotal.toFixed(0)}</span>
             </div>
+            {walletAmount > 0 && (
+              <>
+                <div className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">Paid from Wallet</span>
+                  <span className="text-green-600">-₹{walletAmount.toFixed(2)}</span>
+                </div>
+                <div className="flex justify-between font-semibold">
+                  <span>To Pay ({paymentMethod === 'online' ? 'Online' : 'Cash'})</span>
+                  <span>₹{amountToPay.toFixed(0)}</span>
+                </div>
+              </>
+            )}
           </CardContent>
         </Card>
       </main>
@@ -343,7 +582,7 @@ const Checkout: React.FC = () => {
         <Button
           className="w-full h-12 text-base"
           onClick={handlePlaceOrder}
-          disabled={isSubmitting}
+          disabled={isSubmitting || !allQuoted || addressInOtherWard}
         >
           {isSubmitting ? (
             <>
@@ -351,10 +590,12 @@ const Checkout: React.FC = () => {
               Placing Order...
             </>
           ) : (
-            `Place Order • ₹${grandTotal.toFixed(0)}`
+            `Place Order • ₹${amountToPay.toFixed(0)}`
           )}
         </Button>
       </div>
+
+      <MockPaymentDialog {...mockCheckout} />
     </div>
   );
 };
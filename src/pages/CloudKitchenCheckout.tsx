@@ -1,5 +1,6 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { useNavigate, useLocation } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { useLocation as useLocationContext } from '@/contexts/LocationContext';
@@ -13,15 +14,15 @@ import { ArrowLeft, MapPin, Clock, Loader2, ChefHat, AlertCircle } from 'lucide-
 import { toast } from '@/hooks/use-toast';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import type { CookInfo } from '@/hooks/useCustomerCloudKitchen';
-import { calculatePlatformMargin } from '@/lib/priceUtils';
-
-// Helper to get customer price (base + margin) for cloud kitchen items
-const getCustomerPriceFromItem = (item: CartItemData['item']): number => {
-  const marginType = (item.platform_margin_type || 'percent') as 'percent' | 'fixed';
-  const marginValue = item.platform_margin_value || 0;
-  const margin = calculatePlatformMargin(item.price, marginType, marginValue);
-  return item.price + margin;
-};
+import { useOrderQuote } from '@/hooks/useOrderQuote';
+import CouponInput from '@/components/customer/CouponInput';
+import WalletPayment from '@/components/customer/WalletPayment';
+import PaymentMethodSelector, { type PaymentMethod } from '@/components/customer/PaymentMethodSelector';
+import MockPaymentDialog from '@/components/customer/MockPaymentDialog';
+import { useOnlinePayment } from '@/hooks/useOnlinePayment';
+import { useCustomerWallet } from '@/hooks/useCustomerWallet';
+import { shareDropPoint } from '@/hooks/useDeliveryTracking';
+import { formatDeliveryDate } from '@/lib/scheduling';
 
 interface CartItemData {
   item: {
@@ -47,6 +48,7 @@ interface LocationState {
     start_time: string;
     end_time: string;
     delivery_charge?: number;
+    scheduled_for?: string;
   };
   totalAmount: number;
 }
@@ -62,6 +64,24 @@ const CloudKitchenCheckout: React.FC = () => {
   const [deliveryAddress, setDeliveryAddress] = useState('');
   const [deliveryInstructions, setDeliveryInstructions] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [couponCode, setCouponCode] = useState<string | null>(null);
+  const [useWallet, setUseWallet] = useState(false);
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('cash');
+  const { pay, mockCheckout } = useOnlinePayment();
+  const queryClient = useQueryClient();
+  const { data: wallet } = useCustomerWallet();
+
+  // Server quote; quantities are sent in pieces (sets * set_size)
+  const quoteLines = useMemo(() => (state?.cartItems || []).map(cartItem => ({
+    food_item_id: cartItem.item.id,
+    quantity: cartItem.quantity * (cartItem.item.set_size || 1),
+    cook_id: cartItem.item.cook.id,
+  })), [state]);
+  const { data: quote, isLoading: isQuoteLoading, isFetching: isQuoteFetching, error: quoteError, refetch: refetchQuote } =
+    useOrderQuote('cloud_kitchen', quoteLines, state?.division?.id, { couponCode, panchayatId: selectedPanchayat?.id });
+
+  // Wallet covers as much of the total as it can; the rest is paid in cash or online
+  const walletAmount = useWallet && quote ? Math.min(wallet?.balance ?? 0, quote.total) : 0;
 
   // Redirect if no cart data
   if (!state || !state.cartItems || state.cartItems.length === 0) {
@@ -138,9 +158,10 @@ const CloudKitchenCheckout: React.FC = () => {
     );
   }
 
-  const { cartItems, division, totalAmount } = state;
-  const deliveryFee = division.delivery_charge || 0;
-  const grandTotal = totalAmount + deliveryFee;
+  const { cartItems, division } = state;
+  const deliveryFee = quote?.delivery_charge ?? 0;
+  const grandTotal = quote?.total ?? 0;
+  const amountToPay = Math.max(grandTotal - walletAmount, 0);
 
   // Group items by cook for display
   const itemsByCook = cartItems.reduce((acc, cartItem) => {
@@ -165,61 +186,33 @@ const CloudKitchenCheckout: React.FC = () => {
       return;
     }
 
+    if (!quote) return;
+
     setIsSubmitting(true);
 
     try {
-      // Generate order number
-      const orderNumber = `CK${Date.now()}`;
-
       // Get all unique cooks from cart items
       const cookIds = [...new Set(cartItems.map(ci => ci.item.cook.id))];
-      
-      // For now, if there are multiple cooks, we assign to the first one
-      // TODO: Support multi-cook orders (split into separate orders)
-      const primaryCookId = cookIds[0];
-
-      // Create the order with the selected cook
-      const { data: order, error: orderError } = await supabase
-        .from('orders')
-        .insert([{
-          order_number: orderNumber,
-          customer_id: user.id,
-          service_type: 'cloud_kitchen' as const,
-          total_amount: grandTotal,
-          delivery_amount: deliveryFee,
-          panchayat_id: selectedPanchayat!.id,
-          ward_number: selectedWardNumber!,
-          delivery_address: deliveryAddress,
-          delivery_instructions: deliveryInstructions || null,
-          cloud_kitchen_slot_id: division.id,
-          status: 'pending', // Pending until cook accepts
-          cook_status: 'pending',
-          delivery_status: 'pending',
-          cook_assignment_status: 'pending',
-        }])
-        .select()
-        .single();
 
-      if (orderError) throw orderError;
-
-      // Create order items with customer price (base + platform margin)
-      const orderItems = cartItems.map(cartItem => {
-        const customerPrice = getCustomerPriceFromItem(cartItem.item);
-        return {
-          order_id: order.id,
-          food_item_id: cartItem.item.id,
-          quantity: cartItem.quantity * (cartItem.item.set_size || 1),
-          unit_price: customerPrice,
-          total_price: customerPrice * cartItem.quantity * (cartItem.item.set_size || 1),
-          assigned_cook_id: cartItem.item.cook.id,
-        };
+      // Create the order and its items from the server-side quote
+      const { data: order, error: orderError } = await supabase.rpc('place_order', {
+        p_service_type: 'cloud_kitchen',
+        p_items: quoteLines,
+        p_panchayat_id: selectedPanchayat!.id,
+        p_ward_number: selectedWardNumber!,
+        p_delivery_address: deliveryAddress,
+        p_delivery_instructions: deliveryInstructions || undefined,
+        p_cloud_kitchen_slot_id: division.id,
+        p_expected_total: quote.total,
+        p_coupon_code: quote.coupon_code ?? undefined,
+        p_wallet_amount: walletAmount || undefined,
+        p_scheduled_for: division.scheduled_for,
       });
 
-      const { error: itemsError } = await supabase
-        .from('order_items')
-        .insert(orderItems);
+      if (orderError) throw orderError;
 
-      if (itemsError) throw itemsError;
+      // The drop point for live tracking comes from the device
+      void shareDropPoint([order.id]);
 
       // Create cook assignments for each unique cook
       for (const cookId of cookIds) {
@@ -237,19 +230,36 @@ const CloudKitchenCheckout: React.FC = () => {
         }
       }
 
+      // Collect the online share while the checkout (and its payment dialog) is still shown
+      if (paymentMethod === 'online' && order.total_amount - order.wallet_amount > 0) {
+        const payment = await pay(order.id, 'order');
+        if (payment.status !== 'captured') {
+          toast({
+            title: 'Payment not completed',
+            description: payment.error || 'Your order is placed. You can pay on delivery or retry from the order page.',
+            variant: 'destructive',
+          });
+        }
+      }
+
       toast({
         title: 'Order Placed!',
         description: `Your order #${order.order_number} has been sent to the cook for confirmation`,
       });
 
+      if (walletAmount > 0) {
+        queryClient.invalidateQueries({ queryKey: ['customer-wallet'] });
+      }
+
       navigate('/orders');
     } catch (error) {
       console.error('Error placing order:', error);
       toast({
         title: 'Error',
-        description: 'Failed to place order. Please try again.',
+        description: (error as Error)?.message || 'Failed to place order. Please try again.',
         variant: 'destructive',
       });
+      refetchQuote();
     } finally {
       setIsSubmitting(false);
     }
@@ -277,7 +287,9 @@ const CloudKitchenCheckout: React.FC = () => {
         <Alert>
           <Clock className="h-4 w-4" />
           <AlertDescription>
-            <span className="font-medium">{division.name}</span> delivery slot: {formatTime(division.start_time)} - {formatTime(division.end_time)}
+            <span className="font-medium">{division.name}</span> delivery slot
+            {division.scheduled_for && <> for <span className="font-medium">{formatDeliveryDate(division.scheduled_for)}</span></>}
+            : {formatTime(division.start_time)} - {formatTime(division.end_time)}
           </AlertDescription>
         </Alert>
 
@@ -322,12 +334,61 @@ const CloudKitchenCheckout: React.FC = () => {
           </CardContent>
         </Card>
 
+        {/* Coupon & Wallet */}
+        <Card>
+          <CardContent className="p-4">
+            <CouponInput
+              appliedCode={couponCode}
+              discount={quote?.coupon_discount ?? 0}
+              error={quote?.coupon_error ?? null}
+              isChecking={!!couponCode && isQuoteFetching}
+              onApply={setCouponCode}
+              onRemove={() => setCouponCode(null)}
+            />
+            {(wallet?.balance ?? 0) > 0 && (
+              <>
+                <Separator className="my-4" />
+                <WalletPayment
+                  balance={wallet?.balance ?? 0}
+                  walletAmount={Math.min(wallet?.balance ?? 0, grandTotal)}
+                  amountDue={grandTotal}
+                  enabled={useWallet}
+                  onToggle={setUseWallet}
+                />
+              </>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Payment Method */}
+        {amountToPay > 0 && (
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base">Payment Method</CardTitle>
+            </CardHeader>
+            <CardContent className="p-4 pt-0">
+              <PaymentMethodSelector value={paymentMethod} onChange={setPaymentMethod} />
+            </CardContent>
+          </Card>
+        )}
+
         {/* Order Summary - Grouped by Cook */}
         <Card>
           <CardHeader className="pb-3">
             <CardTitle className="text-base">Order Summary</CardTitle>
           </CardHeader>
           <CardContent className="space-y-4">
+            {quoteError && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{(quoteError as Error).message}</AlertDescription>
+              </Alert>
+            )}
+            {isQuoteLoading && (
+              <div className="flex justify-center py-2">
+                <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+              </div>
+            )}
             {Object.values(itemsByCook).map(({ cook, items }) => (
               <div key={cook.id} className="space-y-2">
                 <div className="flex items-center gap-2 text-sm font-medium text-muted-foreground">
@@ -336,8 +397,8 @@ const CloudKitchenCheckout: React.FC = () => {
                 </div>
                 {items.map((cartItem) => {
                   const setSize = cartItem.item.set_size || 1;
-                  const customerPrice = getCustomerPriceFromItem(cartItem.item);
-                  const itemTotal = customerPrice * cartItem.quantity * setSize;
+                  const line = quote?.lines[cartItems.indexOf(cartItem)];
+                  const itemTotal = line?.line_total ?? 0;
                   return (
                     <div key={cartItem.item.unique_key} className="flex justify-between text-sm pl-6">
                       <span>
@@ -353,19 +414,55 @@ const CloudKitchenCheckout: React.FC = () => {
             <Separator />
             <div className="flex justify-between text-sm">
               <span className="text-muted-foreground">Subtotal</span>
-              <span>₹{totalAmount.toFixed(0)}</span>
+              <span>₹{(quote?.item_total ?? 0).toFixed(0)}</span>
             </div>
+            {quote && quote.discount_total > 0 && (
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">Discount</span>
+                <span className="text-green-600">-₹{quote.discount_total.toFixed(0)}</span>
+              </div>
+            )}
+            {quote && quote.coupon_discount > 0 && (
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">Coupon ({quote.coupon_code})</span>
+                <span className="text-green-600">-₹{quote.coupon_discount.toFixed(2)}</span>
+              </div>
+            )}
             <div className="flex justify-between text-sm">
               <span className="text-muted-foreground">Delivery Fee</span>
               <span className={deliveryFee === 0 ? 'text-green-600' : ''}>
                 {deliveryFee === 0 ? 'FREE' : `₹${deliveryFee.toFixed(0)}`}
               </span>
             </div>
+            {quote && quote.tax_total > 0 && (
+              <>
+                <div className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">CGST</span>
+                  <span>₹{quote.cgst_total.toFixed(2)}</span>
+                </div>
+                <div className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">SGST</span>
+                  <span>₹{quote.sgst_total.toFixed(2)}</span>
+                </div>
+              </>
+            )}
             <Separator />
             <div className="flex justify-between font-semibold">
               <span>Total</span>
               <span className="text-lg">₹{grandTotal.toFixed(0)}</span>
             </div>
+            {walletAmount > 0 && (
+              <>
+                <div className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">Paid from Wallet</span>
+                  <span className="text-green-600">-₹{walletAmount.toFixed(2)}</span>
+                </div>
+                <div className="flex justify-between font-semibold">
+                  <span>To Pay ({paymentMethod === 'online' ? 'Online' : 'Cash'})</span>
+                  <span>₹{amountToPay.toFixed(0)}</span>
+                </div>
+              </>
+            )}
           </CardContent>
         </Card>
       </main>
@@ -375,7 +472,7 @@ const CloudKitchenCheckout: React.FC = () => {
         <Button
           className="w-full h-12 text-base"
           onClick={handlePlaceOrder}
-          disabled={isSubmitting}
+          disabled={isSubmitting || !quote}
         >
           {isSubmitting ? (
             <>
@@ -383,10 +480,12 @@ const CloudKitchenCheckout: React.FC = () => {
               Placing Order...
             </>
           ) : (
-            `Place Order • ₹${grandTotal.toFixed(0)}`
+            `Place Order • ₹${amountToPay.toFixed(0)}`
           )}
         </Button>
       </div>
+
+      <MockPaymentDialog {...mockCheckout} />
     </div>
   );
 };
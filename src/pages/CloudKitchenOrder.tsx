@@ -14,14 +14,10 @@ import {
   type CustomerCloudKitchenItem,
 } from '@/hooks/useCustomerCloudKitchen';
 import { toast } from '@/hooks/use-toast';
-import { calculatePlatformMargin } from '@/lib/priceUtils';
-
-const getCustomerPrice = (item: CustomerCloudKitchenItem): number => {
-  const marginType = (item.platform_margin_type || 'percent') as 'percent' | 'fixed';
-  const marginValue = item.platform_margin_value || 0;
-  const margin = calculatePlatformMargin(item.price, marginType, marginValue);
-  return item.price + margin;
-};
+import { useMaxAdvanceDays } from '@/hooks/useServiceModules';
+import { computeOrderQuote } from '@/lib/priceUtils';
+import { schedulableDates, toDateKey } from '@/lib/scheduling';
+import DeliveryDateSelector from '@/components/customer/DeliveryDateSelector';
 
 interface CartItem {
   item: CustomerCloudKitchenItem;
@@ -31,10 +27,15 @@ interface CartItem {
 const CloudKitchenOrder: React.FC = () => {
   useServiceModuleGuard('cloud_kitchen');
   const navigate = useNavigate();
-  const [selectedDivision, setSelectedDivision] = useState<ActiveDivision | null>(null);
+  const maxAdvanceDays = useMaxAdvanceDays('cloud_kitchen');
+  const deliveryDates = useMemo(() => schedulableDates(maxAdvanceDays), [maxAdvanceDays]);
+  const [selectedDate, setSelectedDate] = useState(() => toDateKey(new Date()));
+  const [selectedDivisionId, setSelectedDivisionId] = useState<string | null>(null);
   const [cart, setCart] = useState<Record<string, CartItem>>({});
 
-  const { data: divisions, isLoading: divisionsLoading } = useCustomerDivisions();
+  const { data: divisions, isLoading: divisionsLoading } = useCustomerDivisions(selectedDate);
+  // Re-read from the list so its ordering status follows the chosen date
+  const selectedDivision: ActiveDivision | null = divisions?.find(d => d.id === selectedDivisionId) ?? null;
   const { data: items, isLoading: itemsLoading } = useCustomerDivisionItems(
     selectedDivision?.id || null
   );
@@ -85,10 +86,10 @@ const CloudKitchenOrder: React.FC = () => {
 
   const cartItems = Object.values(cart);
   const totalSets = cartItems.reduce((sum, c) => sum + c.quantity, 0);
-  const totalAmount = cartItems.reduce((sum, c) => {
-    const setSize = c.item.set_size || 1;
-    return sum + c.quantity * getCustomerPrice(c.item) * setSize;
-  }, 0);
+  // item.price is already the cook's effective price for this division entry
+  const totalAmount = computeOrderQuote(
+    cartItems.map(c => ({ item: c.item, quantity: c.quantity, unit: 'set' as const }))
+  ).subtotal;
 
   const handleProceed = () => {
     if (cartItems.length === 0) {
@@ -121,6 +122,14 @@ const CloudKitchenOrder: React.FC = () => {
       </header>
 
       <main className="container px-4 py-6 space-y-6">
+        {/* Delivery Date */}
+        {deliveryDates.length > 1 && (
+          <section>
+            <h2 className="text-base font-semibold mb-3">Delivery Date</h2>
+            <DeliveryDateSelector dates={deliveryDates} value={selectedDate} onChange={setSelectedDate} />
+          </section>
+        )}
+
         {/* Division Selection */}
         <section>
           <h2 className="text-base font-semibold mb-3">Select Meal Time</h2>
@@ -137,7 +146,7 @@ const CloudKitchenOrder: React.FC = () => {
                   key={division.id}
                   division={division}
                   isSelected={selectedDivision?.id === division.id}
-                  onSelect={() => setSelectedDivision(division)}
+                  onSelect={() => setSelectedDivisionId(division.id)}
                 />
               ))}
             </div>
@@ -3,7 +3,7 @@ import { useNavigate, useLocation as useRouterLocation } from 'react-router-dom'
 import { z } from 'zod';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { useAuth } from '@/contexts/AuthContext';
+import { useAuth, type CustomerSignupDetails } from '@/contexts/AuthContext';
 import { useLocation } from '@/contexts/LocationContext';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -13,6 +13,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Loader2, Phone, User } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
+import OtpCodeForm from '@/components/customer/OtpCodeForm';
 import logo from '@/assets/logo.png';
 
 const loginSchema = z.object({
@@ -38,13 +39,19 @@ type SignupFormData = z.infer<typeof signupSchema>;
 const CustomerAuth: React.FC = () => {
   const navigate = useNavigate();
   const routerLocation = useRouterLocation();
-  const { customerSignIn, customerSignUp, user, isLoading: authLoading } = useAuth();
+  const { requestCustomerOtp, verifyCustomerOtp, user, isLoading: authLoading } = useAuth();
   const { panchayats, getWardsForPanchayat, isLoading: locationLoading } = useLocation();
   const [isSubmitting, setIsSubmitting] = useState(false);
   
-  // Get state from navigation (mobile number and tab preference)
-  const navState = routerLocation.state as { mobileNumber?: string; tab?: string } | null;
+  // Get state from navigation (mobile number, a code already verified for it, and tab preference)
+  const navState = routerLocation.state as { mobileNumber?: string; otpCode?: string; tab?: string } | null;
   const [activeTab, setActiveTab] = useState(navState?.tab || 'login');
+  // Number the code was sent to, and the details to register with once it is verified
+  const [otpFor, setOtpFor] = useState<{ mobileNumber: string; signup?: CustomerSignupDetails } | null>(null);
+  // A verified code for a number without an account, reused to register
+  const [pendingCode, setPendingCode] = useState<{ mobileNumber: string; code: string } | null>(
+    navState?.mobileNumber && navState.otpCode ? { mobileNumber: navState.mobileNumber, code: navState.otpCode } : null
+  );
 
   const loginForm = useForm<LoginFormData>({
     resolver: zodResolver(loginSchema),
@@ -85,58 +92,54 @@ const CustomerAuth: React.FC = () => {
     }
   }, [user, authLoading, navigate]);
 
+  const sendCode = async (mobileNumber: string, signup?: CustomerSignupDetails) => {
+    const { error, retryAfter } = await requestCustomerOtp(mobileNumber);
+    if (error) {
+      toast({
+        title: "Could not send code",
+        description: error.message,
+        variant: "destructive",
+      });
+      // Rate limited: a recent code may still be on its way
+      if (retryAfter === undefined) return;
+    }
+    setOtpFor({ mobileNumber, signup });
+  };
+
   const handleLogin = async (data: LoginFormData) => {
     setIsSubmitting(true);
     try {
-      const { error } = await customerSignIn(data.mobileNumber);
-      if (error) {
-        if (error.message.includes('not found')) {
-          toast({
-            title: "Account not found",
-            description: "Please register first to continue",
-            variant: "destructive",
-          });
-          setActiveTab('signup');
-          signupForm.setValue('mobileNumber', data.mobileNumber);
-        } else {
-          toast({
-            title: "Login failed",
-            description: error.message,
-            variant: "destructive",
-          });
-        }
-      } else {
-        toast({
-          title: "Welcome back!",
-          description: "You have been logged in successfully",
-        });
-        navigate('/');
-      }
+      await sendCode(data.mobileNumber);
     } finally {
       setIsSubmitting(false);
     }
   };
 
-  const handleSignup = async (data: SignupFormData) => {
+  const handleVerify = async (code: string) => {
+    if (!otpFor) return;
     setIsSubmitting(true);
     try {
-      const { error } = await customerSignUp(
-        data.mobileNumber,
-        data.name,
-        data.panchayatId,
-        parseInt(data.wardNumber, 10)
-      );
-      if (error) {
+      const { error, needsSignup } = await verifyCustomerOtp(otpFor.mobileNumber, code, { signup: otpFor.signup });
+      if (needsSignup) {
         toast({
-          title: "Registration failed",
-          description: error.message,
+          title: "Account not found",
+          description: "Please register first to continue",
           variant: "destructive",
         });
-      } else {
+        setPendingCode({ mobileNumber: otpFor.mobileNumber, code });
+        setActiveTab('signup');
+        signupForm.setValue('mobileNumber', otpFor.mobileNumber);
+        setOtpFor(null);
+      } else if (error) {
         toast({
-          title: "Welcome!",
-          description: "Your account has been created successfully",
+          title: "Login failed",
+          description: error.message,
+          variant: "destructive",
         });
+      } else {
+        toast(otpFor.signup
+          ? { title: "Welcome!", description: "Your account has been created successfully" }
+          : { title: "Welcome back!", description: "You have been logged in successfully" });
         navigate('/');
       }
     } finally {
@@ -144,6 +147,35 @@ const CustomerAuth: React.FC = () => {
     }
   };
 
+  const handleSignup = async (data: SignupFormData) => {
+    const signup = {
+      name: data.name,
+      panchayatId: data.panchayatId,
+      wardNumber: parseInt(data.wardNumber, 10),
+    };
+
+    setIsSubmitting(true);
+    try {
+      // The number was just verified while trying to log in
+      if (pendingCode?.mobileNumber === data.mobileNumber) {
+        const { error } = await verifyCustomerOtp(data.mobileNumber, pendingCode.code, { signup });
+        setPendingCode(null);
+        if (!error) {
+          toast({
+            title: "Welcome!",
+            description: "Your account has been created successfully",
+          });
+          navigate('/');
+          return;
+        }
+      }
+
+      await sendCode(data.mobileNumber, signup);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
   if (authLoading) {
     return (
       <div className="flex min-h-screen items-center justify-center bg-background">
@@ -165,106 +197,69 @@ const CustomerAuth: React.FC = () => {
           <CardDescription>Sign in or create an account to order food</CardDescription>
         </CardHeader>
         <CardContent>
-          <Tabs value={activeTab} onValueChange={setActiveTab}>
-            <TabsList className="grid w-full grid-cols-2">
-              <TabsTrigger value="login">Login</TabsTrigger>
-              <TabsTrigger value="signup">Sign Up</TabsTrigger>
-            </TabsList>
+          {otpFor ? (
+            <OtpCodeForm
+              mobileNumber={otpFor.mobileNumber}
+              isSubmitting={isSubmitting}
+              submitLabel={otpFor.signup ? 'Verify & Create Account' : 'Verify & Login'}
+              onVerify={handleVerify}
+              onResend={() => requestCustomerOtp(otpFor.mobileNumber)}
+              onChangeNumber={() => setOtpFor(null)}
+            />
+          ) : (
+            <Tabs value={activeTab} onValueChange={setActiveTab}>
+              <TabsList className="grid w-full grid-cols-2">
+                <TabsTrigger value="login">Login</TabsTrigger>
+                <TabsTrigger value="signup">Sign Up</TabsTrigger>
+              </TabsList>
 
-            <TabsContent value="login" className="mt-6">
-              <Form {...loginForm}>
-                <form onSubmit={loginForm.handleSubmit(handleLogin)} className="space-y-4">
-                  <FormField
-                    control={loginForm.control}
-                    name="mobileNumber"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Mobile Number</FormLabel>
-                        <FormControl>
-                          <div className="relative">
-                            <Phone className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
-                            <Input
-                              placeholder="Enter your 10-digit mobile number"
-                              className="pl-10"
-                              {...field}
-                            />
-                          </div>
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-
-                  <Button type="submit" className="w-full" disabled={isSubmitting}>
-                    {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-                    Continue
-                  </Button>
-                </form>
-              </Form>
-            </TabsContent>
-
-            <TabsContent value="signup" className="mt-6">
-              <Form {...signupForm}>
-                <form onSubmit={signupForm.handleSubmit(handleSignup)} className="space-y-4">
-                  <FormField
-                    control={signupForm.control}
-                    name="name"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Full Name</FormLabel>
-                        <FormControl>
-                          <div className="relative">
-                            <User className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
-                            <Input placeholder="Enter your name" className="pl-10" {...field} />
-                          </div>
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
+              <TabsContent value="login" className="mt-6">
+                <Form {...loginForm}>
+                  <form onSubmit={loginForm.handleSubmit(handleLogin)} className="space-y-4">
+                    <FormField
+                      control={loginForm.control}
+                      name="mobileNumber"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Mobile Number</FormLabel>
+                          <FormControl>
+                            <div className="relative">
+                              <Phone className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                              <Input
+                                placeholder="Enter your 10-digit mobile number"
+                                className="pl-10"
+                                {...field}
+                              />
+                            </div>
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
 
-                  <FormField
-                    control={signupForm.control}
-                    name="mobileNumber"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Mobile Number</FormLabel>
-                        <FormControl>
-                          <div className="relative">
-                            <Phone className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
-                            <Input
-                              placeholder="Enter 10-digit mobile number"
-                              className="pl-10"
-                              {...field}
-                            />
-                          </div>
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
+                    <Button type="submit" className="w-full" disabled={isSubmitting}>
+                      {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                      Send Code
+                    </Button>
+                  </form>
+                </Form>
+              </TabsContent>
 
-                  <div className="grid grid-cols-2 gap-4">
+              <TabsContent value="signup" className="mt-6">
+                <Form {...signupForm}>
+                  <form onSubmit={signupForm.handleSubmit(handleSignup)} className="space-y-4">
                     <FormField
                       control={signupForm.control}
-                      name="panchayatId"
+                      name="name"
                       render={({ field }) => (
                         <FormItem>
-                          <FormLabel>Panchayat</FormLabel>
-                          <Select onValueChange={field.onChange} value={field.value}>
-                            <FormControl>
-                              <SelectTrigger>
-                                <SelectValue placeholder="Select" />
-                              </SelectTrigger>
-                            </FormControl>
-                            <SelectContent className="bg-popover">
-                              {panchayats.map((p) => (
-                                <SelectItem key={p.id} value={p.id}>
-                                  {p.name}
-                                </SelectItem>
-                              ))}
-                            </SelectContent>
-                          </Select>
+                          <FormLabel>Full Name</FormLabel>
+                          <FormControl>
+                            <div className="relative">
+                              <User className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                              <Input placeholder="Enter your name" className="pl-10" {...field} />
+                            </div>
+                          </FormControl>
                           <FormMessage />
                         </FormItem>
                       )}
@@ -272,42 +267,90 @@ const CustomerAuth: React.FC = () => {
 
                     <FormField
                       control={signupForm.control}
-                      name="wardNumber"
+                      name="mobileNumber"
                       render={({ field }) => (
                         <FormItem>
-                          <FormLabel>Ward</FormLabel>
-                          <Select 
-                            onValueChange={field.onChange} 
-                            value={field.value}
-                            disabled={!selectedPanchayatId}
-                          >
-                            <FormControl>
-                              <SelectTrigger>
-                                <SelectValue placeholder="Select" />
-                              </SelectTrigger>
-                            </FormControl>
-                            <SelectContent className="bg-popover max-h-60">
-                              {availableWards.map((wardNum) => (
-                                <SelectItem key={wardNum} value={wardNum.toString()}>
-                                  Ward {wardNum}
-                                </SelectItem>
-                              ))}
-                            </SelectContent>
-                          </Select>
+                          <FormLabel>Mobile Number</FormLabel>
+                          <FormControl>
+                            <div className="relative">
+                              <Phone className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                              <Input
+                                placeholder="Enter 10-digit mobile number"
+                                className="pl-10"
+                                {...field}
+                              />
+                            </div>
+                          </FormControl>
                           <FormMessage />
                         </FormItem>
                       )}
                     />
-                  </div>
 
-                  <Button type="submit" className="w-full" disabled={isSubmitting || locationLoading}>
-                    {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-                    Create Account
-                  </Button>
-                </form>
-              </Form>
-            </TabsContent>
-          </Tabs>
+                    <div className="grid grid-cols-2 gap-4">
+                      <FormField
+                        control={signupForm.control}
+                        name="panchayatId"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Panchayat</FormLabel>
+                            <Select onValueChange={field.onChange} value={field.value}>
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue placeholder="Select" />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent className="bg-popover">
+                                {panchayats.map((p) => (
+                                  <SelectItem key={p.id} value={p.id}>
+                                    {p.name}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <FormField
+                        control={signupForm.control}
+                        name="wardNumber"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Ward</FormLabel>
+                            <Select 
+                              onValueChange={field.onChange} 
+                              value={field.value}
+                              disabled={!selectedPanchayatId}
+                            >
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue placeholder="Select" />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent className="bg-popover max-h-60">
+                                {availableWards.map((wardNum) => (
+                                  <SelectItem key={wardNum} value={wardNum.toString()}>
+                                    Ward {wardNum}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+
+                    <Button type="submit" className="w-full" disabled={isSubmitting || locationLoading}>
+                      {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                      Create Account
+                    </Button>
+                  </form>
+                </Form>
+              </TabsContent>
+            </Tabs>
+          )}
         </CardContent>
       </Card>
 
@@ -3,8 +3,6 @@ import { useNavigate } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { useLocation } from '@/contexts/LocationContext';
 import { useCart } from '@/contexts/CartContext';
-import { useAuthCheck } from '@/hooks/useAuthCheck';
-import CustomerLoginDialog from '@/components/customer/CustomerLoginDialog';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
@@ -14,7 +12,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { ArrowLeft, Plus, Clock, Search, Leaf, Filter, Lock } from 'lucide-react';
 import CartButton from '@/components/customer/CartButton';
 import BottomNav from '@/components/customer/BottomNav';
-import { calculatePlatformMargin } from '@/lib/priceUtils';
+import { quoteLine } from '@/lib/priceUtils';
 
 interface HomemadeItem {
   id: string;
@@ -27,22 +25,19 @@ interface HomemadeItem {
   category_id: string | null;
   platform_margin_type: string | null;
   platform_margin_value: number | null;
+  discount_percent: number | null;
+  discount_amount: number | null;
   images: { id: string; image_url: string; is_primary: boolean }[];
   category: { id: string; name: string } | null;
 }
 
-const getCustomerPrice = (item: HomemadeItem): number => {
-  const marginType = (item.platform_margin_type || 'percent') as 'percent' | 'fixed';
-  const marginValue = item.platform_margin_value || 0;
-  const margin = calculatePlatformMargin(item.price, marginType, marginValue);
-  return item.price + margin;
-};
+const getCustomerPrice = (item: HomemadeItem): number =>
+  quoteLine({ item, quantity: 1 }).unitPrice;
 
 const HomemadeOrder: React.FC = () => {
   const navigate = useNavigate();
   const { addToCart } = useCart();
   const { selectedPanchayat } = useLocation();
-  const { requireAuth, showLoginDialog, setShowLoginDialog, onLoginSuccess } = useAuthCheck();
 
   const [items, setItems] = useState<HomemadeItem[]>([]);
   const [categories, setCategories] = useState<{ id: string; name: string }[]>([]);
@@ -84,7 +79,8 @@ const HomemadeOrder: React.FC = () => {
           .from('food_items')
           .select(`
             id, name, description, price, is_vegetarian, preparation_time_minutes,
-            category_id, platform_margin_type, platform_margin_value, is_coming_soon_home_delivery,
+            category_id, platform_margin_type, platform_margin_value, discount_percent, discount_amount,
+            is_coming_soon_home_delivery,
             images:food_item_images(id, image_url, is_primary),
             category:food_categories(id, name)
           `)
@@ -117,7 +113,7 @@ const HomemadeOrder: React.FC = () => {
   const handleAddToCart = async (e: React.MouseEvent, item: HomemadeItem) => {
     e.stopPropagation();
     if (item.is_coming_soon_home_delivery) return;
-    requireAuth(() => addToCart(item.id));
+    addToCart(item.id);
   };
 
   const handleItemClick = (item: HomemadeItem) => {
@@ -259,7 +255,6 @@ const HomemadeOrder: React.FC = () => {
         )}
       </main>
 
-      <CustomerLoginDialog open={showLoginDialog} onOpenChange={setShowLoginDialog} onLoginSuccess={onLoginSuccess} />
       <CartButton />
       <BottomNav />
     </div>
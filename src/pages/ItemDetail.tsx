@@ -17,10 +17,18 @@ import {
 } from '@/components/ui/carousel';
 import { ArrowLeft, Plus, Minus, Clock, Leaf, ShoppingCart, CalendarHeart, Lock, Share2, Copy, Check, Zap } from 'lucide-react';
 import { toast } from 'sonner';
-import { calculatePlatformMargin } from '@/lib/priceUtils';
+import { quoteLine } from '@/lib/priceUtils';
 import CookSelector, { type CookOption } from '@/components/customer/CookSelector';
 import PendingCartDialog from '@/components/customer/PendingCartDialog';
 import CustomerLoginDialog from '@/components/customer/CustomerLoginDialog';
+import ModifierSelector from '@/components/customer/ModifierSelector';
+import { useModifierGroups } from '@/hooks/useModifierGroups';
+import {
+  defaultModifierSelection,
+  priceModifiers,
+  validateModifierSelection,
+  type ModifierPriceOverrides,
+} from '@/lib/modifiers';
 
 const ItemDetail: React.FC = () => {
   const { itemId } = useParams<{ itemId: string }>();
@@ -38,6 +46,21 @@ const ItemDetail: React.FC = () => {
   const [pendingAction, setPendingAction] = useState<'add' | 'buy' | null>(null);
   const [showLoginDialog, setShowLoginDialog] = useState(false);
   const { selectedPanchayat } = useLocation();
+  const { groups: modifierGroups } = useModifierGroups(itemId);
+  const [selectedOptionIds, setSelectedOptionIds] = useState<string[]>([]);
+
+  // Only active groups and available options can be chosen
+  const activeModifierGroups = useMemo(
+    () => modifierGroups
+      .filter(group => group.is_active)
+      .map(group => ({ ...group, options: group.options.filter(option => option.is_available) }))
+      .filter(group => group.options.length > 0),
+    [modifierGroups]
+  );
+
+  useEffect(() => {
+    setSelectedOptionIds(defaultModifierSelection(activeModifierGroups));
+  }, [activeModifierGroups]);
 
   // Show login dialog for unauthenticated users accessing via shareable link
   useEffect(() => {
@@ -85,6 +108,7 @@ const ItemDetail: React.FC = () => {
               id,
               cook_id,
               custom_price,
+              modifier_prices,
               cooks!inner(id, kitchen_name, rating, total_orders, is_active, is_available, panchayat_id, assigned_panchayat_ids)
             `)
             .eq('food_item_id', itemId);
@@ -121,6 +145,7 @@ const ItemDetail: React.FC = () => {
                 rating: cd.cooks.rating,
                 total_orders: cd.cooks.total_orders,
                 custom_price: cd.custom_price as number | null,
+                modifier_prices: (cd.modifier_prices || {}) as ModifierPriceOverrides,
                 features: featuresMap[cd.id] || [],
               }));
             setAvailableCooks(activeCooks);
@@ -150,28 +175,27 @@ const ItemDetail: React.FC = () => {
 
   const customerPrice = useMemo(() => {
     if (!item) return 0;
-    const itemWithMargin = item as FoodItemWithImages & { platform_margin_type?: string; platform_margin_value?: number };
-    const marginType = (itemWithMargin.platform_margin_type || 'percent') as 'percent' | 'fixed';
-    const marginValue = itemWithMargin.platform_margin_value || 0;
 
-    let basePrice = item.price;
+    let cookCustomPrice: number | null = null;
+    let modifierPrices: ModifierPriceOverrides | null = null;
     if (isHomemade && availableCooks.length > 0) {
       if (selectedCookId) {
         const selectedCook = availableCooks.find(c => c.cook_id === selectedCookId);
-        if (selectedCook?.custom_price != null) {
-          basePrice = selectedCook.custom_price;
-        }
+        cookCustomPrice = selectedCook?.custom_price ?? null;
+        modifierPrices = selectedCook?.modifier_prices ?? null;
       } else {
-        const lowestPrice = Math.min(
+        cookCustomPrice = Math.min(
           ...availableCooks.map(c => c.custom_price ?? item.price)
         );
-        basePrice = lowestPrice;
       }
     }
 
-    const margin = calculatePlatformMargin(basePrice, marginType, marginValue);
-    return basePrice + margin;
-  }, [item, selectedCookId, availableCooks, isHomemade]);
+    const modifierPrice = priceModifiers(activeModifierGroups, selectedOptionIds, modifierPrices).price;
+    return quoteLine({ item, quantity: 1, cookCustomPrice, modifierPrice }).unitPrice;
+  }, [item, selectedCookId, availableCooks, isHomemade, activeModifierGroups, selectedOptionIds]);
+
+  const selectedCookModifierPrices = availableCooks.find(c => c.cook_id === selectedCookId)?.modifier_prices ?? null;
+  const modifierError = validateModifierSelection(activeModifierGroups, selectedOptionIds);
 
   const getResolvedCookId = () => {
     let cookId = selectedCookId;
@@ -187,8 +211,12 @@ const ItemDetail: React.FC = () => {
       toast.error('Please select a cook first');
       return;
     }
+    if (modifierError) {
+      toast.error(modifierError);
+      return;
+    }
     // Check for pending cart items
-    if (hasOtherCartItems && user) {
+    if (hasOtherCartItems) {
       setPendingAction('add');
       setShowPendingCartDialog(true);
       return;
@@ -199,7 +227,7 @@ const ItemDetail: React.FC = () => {
   const performAddToCart = async () => {
     if (!item) return;
     const cookId = getResolvedCookId();
-    await addToCart(item.id, quantity, cookId);
+    await addToCart(item.id, quantity, cookId, selectedOptionIds);
     navigate(-1);
   };
 
@@ -209,6 +237,10 @@ const ItemDetail: React.FC = () => {
       toast.error('Please select a cook first');
       return;
     }
+    if (modifierError) {
+      toast.error(modifierError);
+      return;
+    }
     if (!user) {
       navigate('/auth');
       return;
@@ -225,7 +257,7 @@ const ItemDetail: React.FC = () => {
   const performBuyNow = async () => {
     if (!item) return;
     const cookId = getResolvedCookId();
-    await addToCart(item.id, quantity, cookId);
+    await addToCart(item.id, quantity, cookId, selectedOptionIds);
     navigate('/checkout');
   };
 
@@ -438,9 +470,17 @@ const ItemDetail: React.FC = () => {
             cooks={availableCooks}
             selectedCookId={selectedCookId}
             onSelectCook={setSelectedCookId}
-            basePrice={item.price}
-            platformMarginType={(item as any).platform_margin_type || 'percent'}
-            platformMarginValue={(item as any).platform_margin_value || 0}
+            item={item}
+          />
+        )}
+
+        {/* Spice level, extras, portion size */}
+        {!isIndoorEvents && (
+          <ModifierSelector
+            groups={activeModifierGroups}
+            selectedOptionIds={selectedOptionIds}
+            onChange={setSelectedOptionIds}
+            priceOverrides={selectedCookModifierPrices}
           />
         )}
 
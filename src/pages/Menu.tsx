@@ -2,9 +2,7 @@ import React, { useEffect, useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { useCart } from '@/contexts/CartContext';
-import { useAuthCheck } from '@/hooks/useAuthCheck';
 import { useLocation } from '@/contexts/LocationContext';
-import CustomerLoginDialog from '@/components/customer/CustomerLoginDialog';
 import type { FoodItemWithImages, ServiceType, FoodCategory } from '@/types/database';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
@@ -15,29 +13,13 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { ArrowLeft, Plus, Clock, Search, Leaf, Filter } from 'lucide-react';
 import CartButton from '@/components/customer/CartButton';
 import BottomNav from '@/components/customer/BottomNav';
-import { calculatePlatformMargin } from '@/lib/priceUtils';
+import { quoteListingPrice } from '@/lib/priceUtils';
 import { useCookAllocatedItemIds } from '@/hooks/useCookAllocatedItems';
 import { useLowestCookPrices } from '@/hooks/useLowestCookPrices';
 
-// Helper to calculate customer display price, using lowest cook price for homemade
-const getCustomerPrice = (item: FoodItemWithImages, lowestCookPrices?: Map<string, number | null>): number => {
-  const itemWithMargin = item as FoodItemWithImages & { platform_margin_type?: string; platform_margin_value?: number };
-  const marginType = (itemWithMargin.platform_margin_type || 'percent') as 'percent' | 'fixed';
-  const marginValue = itemWithMargin.platform_margin_value || 0;
-  
-  let basePrice = item.price;
-  const serviceTypes = (item as any).service_types || [];
-  const isHomemade = item.service_type === 'homemade' || serviceTypes.includes('homemade');
-  if (isHomemade && lowestCookPrices) {
-    const lowestPrice = lowestCookPrices.get(item.id);
-    if (lowestPrice !== undefined && lowestPrice !== null) {
-      basePrice = Math.min(basePrice, lowestPrice);
-    }
-  }
-  
-  const margin = calculatePlatformMargin(basePrice, marginType, marginValue);
-  return basePrice + margin;
-};
+// Customer display price, using lowest cook price for homemade
+const getCustomerPrice = (item: FoodItemWithImages, lowestCookPrices?: Map<string, number | null>): number =>
+  quoteListingPrice(item, lowestCookPrices).unitPrice;
 
 const serviceTypeLabels: Record<ServiceType, { title: string; emoji: string }> = {
   indoor_events: { title: 'Indoor Events', emoji: '🎉' },
@@ -49,7 +31,6 @@ const Menu: React.FC = () => {
   const { serviceType } = useParams<{ serviceType: string }>();
   const navigate = useNavigate();
   const { addToCart } = useCart();
-  const { requireAuth, showLoginDialog, setShowLoginDialog, onLoginSuccess } = useAuthCheck();
   const { selectedPanchayat } = useLocation();
   const { data: allocatedIds } = useCookAllocatedItemIds(selectedPanchayat?.id);
   const { lowestCookPrices } = useLowestCookPrices();
@@ -115,7 +96,7 @@ const Menu: React.FC = () => {
 
   const handleAddToCart = async (e: React.MouseEvent, item: FoodItemWithImages) => {
     e.stopPropagation();
-    requireAuth(() => addToCart(item.id));
+    addToCart(item.id);
   };
 
   const handleItemClick = (itemId: string) => {
@@ -279,12 +260,6 @@ const Menu: React.FC = () => {
 
       <CartButton />
       <BottomNav />
-      
-      <CustomerLoginDialog
-        open={showLoginDialog}
-        onOpenChange={setShowLoginDialog}
-        onLoginSuccess={onLoginSuccess}
-      />
     </div>
   );
 };
@@ -1,5 +1,6 @@
 import React, { useEffect, useState, useCallback } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import type { Order, OrderStatus, OrderItem, FoodItem } from '@/types/database';
@@ -7,7 +8,7 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
-import { ArrowLeft, Package, Clock, CheckCircle, XCircle, Truck, MapPin, Phone, ChefHat, Ban } from 'lucide-react';
+import { ArrowLeft, Package, Clock, CheckCircle, XCircle, Truck, MapPin, Phone, ChefHat, Ban, Wallet, Loader2, CreditCard, CalendarClock, KeyRound } from 'lucide-react';
 import { toast } from 'sonner';
 import {
   AlertDialog,
@@ -23,6 +24,17 @@ import {
 import BottomNav from '@/components/customer/BottomNav';
 import { calculatePlatformMargin } from '@/lib/priceUtils';
 import OrderRating from '@/components/customer/OrderRating';
+import { useCustomerWallet } from '@/hooks/useCustomerWallet';
+import { useOnlinePayment, type PaymentPurpose } from '@/hooks/useOnlinePayment';
+import MockPaymentDialog from '@/components/customer/MockPaymentDialog';
+import OrderTimeline from '@/components/customer/OrderTimeline';
+import DeliveryCountdown from '@/components/customer/DeliveryCountdown';
+import { useOrderTracking } from '@/hooks/useOrderTracking';
+import { useOrderHandoverCode } from '@/hooks/useDeliveryProof';
+import { useCancellationTerms } from '@/hooks/useCancellationPolicies';
+import { describeModifiers, sumModifierPrices, type SelectedModifier } from '@/lib/modifiers';
+import { formatDeliveryDate, formatDeliveryWindow } from '@/lib/scheduling';
+import { isLive } from '@/lib/deliveryTracking';
 
 interface CookInfo {
   id: string;
@@ -34,6 +46,7 @@ interface CookInfo {
 interface OrderItemWithFood extends OrderItem {
   food_item: FoodItem;
   assigned_cook_id: string | null;
+  modifiers?: SelectedModifier[];
 }
 
 // Get the customer-facing price (base + platform margin)
@@ -43,7 +56,7 @@ const getCustomerUnitPrice = (item: OrderItemWithFood): number => {
   const marginType = (foodItem.platform_margin_type || 'percent') as 'percent' | 'fixed';
   const marginValue = foodItem.platform_margin_value || 0;
   const margin = calculatePlatformMargin(foodItem.price, marginType, marginValue);
-  return foodItem.price + margin;
+  return foodItem.price + margin + sumModifierPrices(item.modifiers);
 };
 
 const statusConfig: Record<OrderStatus, { label: string; color: string; icon: React.ReactNode }> = {
@@ -64,9 +77,40 @@ const OrderDetail: React.FC = () => {
   const [orderItems, setOrderItems] = useState<OrderItemWithFood[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isCancelling, setIsCancelling] = useState(false);
+  const [isPayingAdvance, setIsPayingAdvance] = useState(false);
+  const queryClient = useQueryClient();
+  const { data: wallet } = useCustomerWallet();
+  const { pay, isPaying, mockCheckout } = useOnlinePayment();
 
   const [cooksMap, setCooksMap] = useState<Record<string, CookInfo>>({});
 
+  const handleOrderChange = useCallback((updated: Order) => {
+    setOrder(prev => (prev ? { ...prev, ...updated } : prev));
+  }, []);
+  const { history, deliveryPartner } = useOrderTracking(orderId, order?.assigned_delivery_id, handleOrderChange);
+  const { data: cancellationTerms } = useCancellationTerms(order?.id, order?.status);
+  const { data: handoverCode } = useOrderHandoverCode(
+    order?.id,
+    !!order && order.status !== 'delivered' && order.status !== 'cancelled'
+  );
+
+  // Other orders placed from the same cart
+  const { data: siblingOrders } = useQuery({
+    queryKey: ['checkout-group-orders', order?.checkout_group_id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('orders')
+        .select('id, order_number, service_type, status')
+        .eq('checkout_group_id', order!.checkout_group_id!)
+        .order('order_number');
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!order?.checkout_group_id,
+  });
+  const placedWith = (siblingOrders || []).filter(o => o.id !== order?.id);
+
   useEffect(() => {
     const fetchOrderDetails = async () => {
       if (!user || !orderId) {
@@ -96,11 +140,11 @@ const OrderDetail: React.FC = () => {
           .eq('order_id', orderId);
 
         if (itemsError) throw itemsError;
-        setOrderItems(itemsData as OrderItemWithFood[]);
+        setOrderItems(itemsData as unknown as OrderItemWithFood[]);
 
         // Fetch cook details for assigned cooks
         const cookIds = [...new Set(
-          (itemsData as OrderItemWithFood[])
+          (itemsData as unknown as OrderItemWithFood[])
             .map(i => i.assigned_cook_id)
             .filter(Boolean) as string[]
         )];
@@ -129,20 +173,56 @@ const OrderDetail: React.FC = () => {
     if (!order) return;
     setIsCancelling(true);
     try {
-      const { error } = await supabase
-        .from('orders')
-        .update({ status: 'cancelled' })
-        .eq('id', order.id);
+      const { data, error } = await supabase.rpc('cancel_order', {
+        p_order_id: order.id,
+        p_reason: 'Cancelled by customer',
+      });
       if (error) throw error;
-      setOrder({ ...order, status: 'cancelled' });
+      setOrder(data as Order);
+      // Wallet and online payments, less any cancellation fee, are refunded to the wallet by the database
+      if ((data.refund_amount || 0) > 0) {
+        queryClient.invalidateQueries({ queryKey: ['customer-wallet'] });
+      }
       toast.success('Order cancelled successfully');
     } catch (err) {
       console.error('Error cancelling order:', err);
-      toast.error('Failed to cancel order');
+      toast.error((err as Error)?.message || 'Failed to cancel order');
     } finally {
       setIsCancelling(false);
     }
-  }, [order]);
+  }, [order, queryClient]);
+
+  const handlePayAdvanceFromWallet = useCallback(async (amount: number) => {
+    if (!order) return;
+    setIsPayingAdvance(true);
+    try {
+      const { data, error } = await supabase.rpc('pay_order_advance_from_wallet', {
+        p_order_id: order.id,
+        p_amount: amount,
+      });
+      if (error) throw error;
+      setOrder(data as Order);
+      queryClient.invalidateQueries({ queryKey: ['customer-wallet'] });
+      toast.success(`₹${amount.toFixed(2)} paid from your wallet`);
+    } catch (err) {
+      console.error('Error paying advance from wallet:', err);
+      toast.error((err as Error)?.message || 'Failed to pay from wallet');
+    } finally {
+      setIsPayingAdvance(false);
+    }
+  }, [order, queryClient]);
+
+  const handlePayOnline = useCallback(async (purpose: PaymentPurpose) => {
+    if (!order) return;
+    const result = await pay(order.id, purpose);
+    if (result.status === 'captured') {
+      const { data } = await supabase.from('orders').select('*').eq('id', order.id).single();
+      if (data) setOrder(data as Order);
+      toast.success('Payment successful');
+    } else if (result.status === 'failed') {
+      toast.error(result.error || 'Payment failed');
+    }
+  }, [order, pay]);
 
   if (!user) {
     return (
@@ -198,10 +278,38 @@ const OrderDetail: React.FC = () => {
     );
   }
 
-  const canCancel = order.status === 'pending' || order.status === 'confirmed';
+  const canCancel = ['pending', 'confirmed', 'preparing', 'ready'].includes(order.status)
+    && cancellationTerms?.allowed !== false;
+
+  const walletPaid = order.wallet_amount || 0;
+  const onlinePaid = order.online_paid_amount || 0;
+  const advanceDue = order.service_type === 'indoor_events'
+    && order.status !== 'cancelled'
+    && !order.advance_payment_received
+    && (order.advance_payment_required || 0) > 0
+    ? Math.max((order.advance_payment_required || 0) - walletPaid - onlinePaid, 0)
+    : 0;
+  // Still owed on a regular order; can be paid online until delivery
+  const balanceDue = order.service_type !== 'indoor_events'
+    && order.status !== 'cancelled'
+    && order.status !== 'delivered'
+    ? Math.max(order.total_amount - walletPaid - onlinePaid, 0)
+    : 0;
+  const advanceFromWallet = Math.min(wallet?.balance ?? 0, advanceDue);
 
   const status = statusConfig[order.status];
 
+  // Countdown to delivery: the ETA set at dispatch (kept current from the partner's location once
+  // picked up), else the estimate from when the order was placed
+  const isActive = order.status !== 'delivered' && order.status !== 'cancelled';
+  // Scheduled orders show their date and window until they are dispatched
+  const isScheduled = !!order.scheduled_for && !order.delivery_eta;
+  const eta = order.delivery_eta
+    ? new Date(order.delivery_eta)
+    : order.estimated_delivery_minutes && !isScheduled
+      ? new Date(new Date(order.created_at).getTime() + order.estimated_delivery_minutes * 60_000)
+      : null;
+
   return (
     <div className="min-h-screen bg-background pb-20">
       <header className="sticky top-0 z-50 flex h-14 items-center gap-3 border-b bg-card px-4">
@@ -234,9 +342,71 @@ const OrderDetail: React.FC = () => {
                 </p>
               </div>
             </div>
+            {isActive && eta && order.service_type !== 'indoor_events' && (
+              <div className="mt-4">
+                <DeliveryCountdown eta={eta} live={isLive(order.delivery_eta_updated_at)} />
+              </div>
+            )}
+            {isActive && isScheduled && (
+              <div className="mt-4 flex items-center gap-3 rounded-lg bg-primary/10 p-3">
+                <CalendarClock className="h-5 w-5 text-primary" />
+                <div>
+                  <p className="text-xs text-muted-foreground">Scheduled for</p>
+                  <p className="font-medium text-primary">
+                    {formatDeliveryDate(order.scheduled_for)}
+                    {order.delivery_window_start && order.delivery_window_end &&
+                      `, ${formatDeliveryWindow(order.delivery_window_start, order.delivery_window_end)}`}
+                  </p>
+                </div>
+              </div>
+            )}
           </CardContent>
         </Card>
 
+        {/* Order Timeline */}
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base">Order Timeline</CardTitle>
+          </CardHeader>
+          <CardContent className="p-4 pt-0">
+            <OrderTimeline
+              order={order}
+              history={history}
+              cookNames={Object.values(cooksMap).map(c => c.kitchen_name)}
+              deliveryPartner={deliveryPartner}
+            />
+          </CardContent>
+        </Card>
+
+        {/* Orders placed from the same cart */}
+        {placedWith.length > 0 && (
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base">Placed Together With</CardTitle>
+            </CardHeader>
+            <CardContent className="p-4 pt-0 space-y-2">
+              {placedWith.map((sibling) => (
+                <button
+                  key={sibling.id}
+                  type="button"
+                  className="flex w-full items-center justify-between rounded-lg border p-3 text-left text-sm hover:bg-muted"
+                  onClick={() => navigate(`/order/${sibling.id}`)}
+                >
+                  <span>
+                    <span className="font-medium">#{sibling.order_number}</span>
+                    <span className="text-muted-foreground">
+                      {' · '}{sibling.service_type.replace('_', ' ').replace(/\b\w/g, l => l.toUpperCase())}
+                    </span>
+                  </span>
+                  <Badge className={`gap-1 ${statusConfig[sibling.status].color}`}>
+                    {statusConfig[sibling.status].label}
+                  </Badge>
+                </button>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Delivery Status */}
         {order.delivery_status && (
           <Card>
@@ -256,15 +426,14 @@ const OrderDetail: React.FC = () => {
                     );
                   })()}
                 </div>
-                {order.delivery_eta && order.status !== 'delivered' && (
+                {isActive && handoverCode && (
                   <div className="text-right">
-                    <p className="text-sm text-muted-foreground">ETA</p>
-                    <p className="font-medium">
-                      {new Date(order.delivery_eta).toLocaleTimeString('en-IN', {
-                        hour: '2-digit',
-                        minute: '2-digit',
-                      })}
+                    <p className="flex items-center justify-end gap-1 text-sm text-muted-foreground">
+                      <KeyRound className="h-3.5 w-3.5" />
+                      Handover Code
                     </p>
+                    <p className="font-mono text-xl font-bold tracking-[0.3em]">{handoverCode}</p>
+                    <p className="text-xs text-muted-foreground">Share it with your delivery partner</p>
                   </div>
                 )}
                 {order.delivered_at && order.status === 'delivered' && (
@@ -297,6 +466,9 @@ const OrderDetail: React.FC = () => {
                   <div key={item.id} className="flex justify-between border-b pb-3 last:border-0 last:pb-0">
                     <div className="flex-1">
                       <p className="font-medium">{item.food_item?.name || 'Item'}</p>
+                      {item.modifiers && item.modifiers.length > 0 && (
+                        <p className="text-xs text-muted-foreground">{describeModifiers(item.modifiers)}</p>
+                      )}
                       <p className="text-sm text-muted-foreground">
                         ₹{customerPrice} × {item.quantity}
                       </p>
@@ -331,6 +503,40 @@ const OrderDetail: React.FC = () => {
                   : order.total_amount) + (order.delivery_amount || 0)}
               </p>
             </div>
+            {walletPaid > 0 && (
+              <div className="mt-2 flex justify-between">
+                <p className="text-sm text-muted-foreground">Paid from Wallet</p>
+                <p className="text-sm text-green-600">₹{walletPaid.toFixed(2)}</p>
+              </div>
+            )}
+            {onlinePaid > 0 && (
+              <div className="mt-2 flex justify-between">
+                <p className="text-sm text-muted-foreground">Paid Online</p>
+                <p className="text-sm text-green-600">₹{onlinePaid.toFixed(2)}</p>
+              </div>
+            )}
+            {balanceDue > 0 && (
+              <Button
+                variant="outline"
+                className="mt-3 w-full gap-2"
+                onClick={() => handlePayOnline('order')}
+                disabled={isPaying}
+              >
+                {isPaying ? <Loader2 className="h-4 w-4 animate-spin" /> : <CreditCard className="h-4 w-4" />}
+                Pay ₹{balanceDue.toFixed(2)} Online
+              </Button>
+            )}
+            {(order.cancellation_fee || 0) > 0 && (
+              <div className="mt-2 flex justify-between">
+                <p className="text-sm text-muted-foreground">Cancellation Fee</p>
+                <p className="text-sm text-destructive">₹{(order.cancellation_fee || 0).toFixed(2)}</p>
+              </div>
+            )}
+            {(order.refund_amount || 0) > 0 && order.wallet_refunded_at && (
+              <p className="mt-1 text-xs text-muted-foreground">
+                ₹{(order.refund_amount || 0).toFixed(2)} was refunded to your wallet when this order was cancelled
+              </p>
+            )}
           </CardContent>
         </Card>
 
@@ -411,6 +617,62 @@ const OrderDetail: React.FC = () => {
           </Card>
         )}
 
+        {/* Advance Payment */}
+        {advanceDue > 0 && (
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base flex items-center gap-2">
+                <Wallet className="h-4 w-4" />
+                Advance Payment
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="p-4 pt-0 space-y-3">
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">Advance Required</span>
+                <span>₹{(order.advance_payment_required || 0).toFixed(2)}</span>
+              </div>
+              {walletPaid > 0 && (
+                <div className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">Paid from Wallet</span>
+                  <span className="text-green-600">₹{walletPaid.toFixed(2)}</span>
+                </div>
+              )}
+              {onlinePaid > 0 && (
+                <div className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">Paid Online</span>
+                  <span className="text-green-600">₹{onlinePaid.toFixed(2)}</span>
+                </div>
+              )}
+              <div className="flex justify-between text-sm font-semibold">
+                <span>Remaining</span>
+                <span>₹{advanceDue.toFixed(2)}</span>
+              </div>
+              {advanceFromWallet > 0 && (
+                <Button
+                  className="w-full gap-2"
+                  onClick={() => handlePayAdvanceFromWallet(advanceFromWallet)}
+                  disabled={isPayingAdvance}
+                >
+                  {isPayingAdvance ? <Loader2 className="h-4 w-4 animate-spin" /> : <Wallet className="h-4 w-4" />}
+                  Pay ₹{advanceFromWallet.toFixed(2)} from Wallet
+                </Button>
+              )}
+              <Button
+                variant="outline"
+                className="w-full gap-2"
+                onClick={() => handlePayOnline('event_advance')}
+                disabled={isPaying}
+              >
+                {isPaying ? <Loader2 className="h-4 w-4 animate-spin" /> : <CreditCard className="h-4 w-4" />}
+                Pay ₹{advanceDue.toFixed(2)} Online
+              </Button>
+              <p className="text-xs text-muted-foreground">
+                You can also pay the advance in cash to our team.
+              </p>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Cancel Order */}
         {canCancel && (
           <AlertDialog>
@@ -426,6 +688,23 @@ const OrderDetail: React.FC = () => {
                 <AlertDialogDescription>
                   Are you sure you want to cancel this order? This action cannot be undone.
                 </AlertDialogDescription>
+                {cancellationTerms && (
+                  <div className="rounded-lg bg-muted p-3 text-sm space-y-1">
+                    {cancellationTerms.description && <p>{cancellationTerms.description}</p>}
+                    {cancellationTerms.fee > 0 && (
+                      <p className="flex justify-between">
+                        <span className="text-muted-foreground">Cancellation fee</span>
+                        <span className="text-destructive">₹{cancellationTerms.fee.toFixed(2)}</span>
+                      </p>
+                    )}
+                    {cancellationTerms.refund > 0 && (
+                      <p className="flex justify-between">
+                        <span className="text-muted-foreground">Refund to wallet</span>
+                        <span className="text-green-600">₹{cancellationTerms.refund.toFixed(2)}</span>
+                      </p>
+                    )}
+                  </div>
+                )}
               </AlertDialogHeader>
               <AlertDialogFooter>
                 <AlertDialogCancel>No, Keep Order</AlertDialogCancel>
@@ -452,6 +731,7 @@ const OrderDetail: React.FC = () => {
         )}
       </main>
 
+      <MockPaymentDialog {...mockCheckout} />
       <BottomNav />
     </div>
   );
@@ -7,9 +7,11 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
-import { ArrowLeft, Package, Clock, CheckCircle, XCircle, Truck } from 'lucide-react';
+import { ArrowLeft, Package, Clock, CheckCircle, XCircle, Truck, CalendarClock, RotateCcw } from 'lucide-react';
 import BottomNav from '@/components/customer/BottomNav';
+import ReorderDialog from '@/components/customer/ReorderDialog';
 import { calculatePlatformMargin } from '@/lib/priceUtils';
+import { formatDeliveryDate, formatDeliveryWindow } from '@/lib/scheduling';
 
 interface OrderWithCustomerTotal extends Order {
   customerTotal?: number;
@@ -30,6 +32,7 @@ const Orders: React.FC = () => {
   const { user } = useAuth();
   const [orders, setOrders] = useState<OrderWithCustomerTotal[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [reorderId, setReorderId] = useState<string | null>(null);
 
   useEffect(() => {
     const fetchOrders = async () => {
@@ -137,6 +140,12 @@ const Orders: React.FC = () => {
           <div className="space-y-4">
             {orders.map((order) => {
               const status = statusConfig[order.status];
+              const placedWith = order.checkout_group_id
+                ? orders.filter(o => o.checkout_group_id === order.checkout_group_id && o.id !== order.id)
+                : [];
+              // Event bookings are planned afresh; finished orders can go back into the cart
+              const canReorder = order.service_type !== 'indoor_events' &&
+                (order.status === 'delivered' || order.status === 'cancelled');
               
               return (
                 <Card 
@@ -157,6 +166,14 @@ const Orders: React.FC = () => {
                             minute: '2-digit',
                           })}
                         </p>
+                        {order.scheduled_for && order.status !== 'delivered' && order.status !== 'cancelled' && (
+                          <p className="mt-1 flex items-center gap-1 text-xs font-medium text-primary">
+                            <CalendarClock className="h-3 w-3" />
+                            For {formatDeliveryDate(order.scheduled_for)}
+                            {order.delivery_window_start && order.delivery_window_end &&
+                              `, ${formatDeliveryWindow(order.delivery_window_start, order.delivery_window_end)}`}
+                          </p>
+                        )}
                       </div>
                       <Badge className={`gap-1 ${status.color}`}>
                         {status.icon}
@@ -170,6 +187,25 @@ const Orders: React.FC = () => {
                       </span>
                       <span className="font-semibold">₹{(order.customerTotal ?? order.total_amount) + (order.delivery_amount || 0)}</span>
                     </div>
+                    {placedWith.length > 0 && (
+                      <p className="mt-2 text-xs text-muted-foreground">
+                        Placed together with {placedWith.map(o => `#${o.order_number}`).join(', ')}
+                      </p>
+                    )}
+                    {canReorder && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="mt-3 w-full"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setReorderId(order.id);
+                        }}
+                      >
+                        <RotateCcw className="mr-1 h-3 w-3" />
+                        Order Again
+                      </Button>
+                    )}
                   </CardContent>
                 </Card>
               );
@@ -178,6 +214,12 @@ const Orders: React.FC = () => {
         )}
       </main>
 
+      <ReorderDialog
+        orderId={reorderId}
+        open={!!reorderId}
+        onOpenChange={(open) => !open && setReorderId(null)}
+      />
+
       <BottomNav />
     </div>
   );
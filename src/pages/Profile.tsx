@@ -17,6 +17,7 @@ import {
   Edit2, Lock, ChefHat, Truck, Settings, Shield
 } from 'lucide-react';
 import BottomNav from '@/components/customer/BottomNav';
+import MealSubscriptionsCard from '@/components/customer/MealSubscriptionsCard';
 
 const Profile: React.FC = () => {
   const navigate = useNavigate();
@@ -228,6 +229,9 @@ const Profile: React.FC = () => {
           </Card>
         )}
 
+        {/* Meal Subscriptions */}
+        <MealSubscriptionsCard />
+
         {/* Actions */}
         <Card>
           <CardContent className="p-0">
@@ -16,7 +16,7 @@ import {
   DialogFooter,
 } from '@/components/ui/dialog';
 import { Label } from '@/components/ui/label';
-import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { 
   Plus, 
   Search, 
@@ -29,6 +29,13 @@ import {
 } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
 import AdminNavbar from '@/components/admin/AdminNavbar';
+import {
+  ADMIN_PERMISSIONS,
+  NO_ACCESS,
+  permissionsFromRow,
+  type AdminPermissionLevels,
+  type PermissionLevel,
+} from '@/lib/permissions';
 
 interface AdminUser {
   id: string;
@@ -76,15 +83,9 @@ const AdminAdmins: React.FC = () => {
   const [searchResults, setSearchResults] = useState<SearchedUser[]>([]);
   const [selectedUser, setSelectedUser] = useState<SearchedUser | null>(null);
   
-  const [formData, setFormData] = useState({
+  const [formData, setFormData] = useState<{ user_id: string; levels: AdminPermissionLevels }>({
     user_id: '',
-    perm_items: 'none',
-    perm_orders: 'none',
-    perm_assign_orders: 'none',
-    perm_cooks: 'none',
-    perm_delivery_staff: 'none',
-    perm_reports: 'none',
-    perm_settlements: 'none',
+    levels: NO_ACCESS,
   });
 
   const isSuperAdmin = role === 'super_admin';
@@ -192,29 +193,14 @@ const AdminAdmins: React.FC = () => {
       } : null);
       setFormData({
         user_id: admin.user_id,
-        perm_items: admin.perm_items,
-        perm_orders: admin.perm_orders,
-        perm_assign_orders: admin.perm_assign_orders,
-        perm_cooks: admin.perm_cooks,
-        perm_delivery_staff: admin.perm_delivery_staff,
-        perm_reports: admin.perm_reports,
-        perm_settlements: admin.perm_settlements,
+        levels: permissionsFromRow(admin),
       });
     } else {
       setEditingAdmin(null);
       setSelectedUser(null);
       setMobileSearch('');
       setSearchResults([]);
-      setFormData({
-        user_id: '',
-        perm_items: 'none',
-        perm_orders: 'none',
-        perm_assign_orders: 'none',
-        perm_cooks: 'none',
-        perm_delivery_staff: 'none',
-        perm_reports: 'none',
-        perm_settlements: 'none',
-      });
+      setFormData({ user_id: '', levels: NO_ACCESS });
     }
     setIsDialogOpen(true);
   };
@@ -232,13 +218,9 @@ const AdminAdmins: React.FC = () => {
     try {
       const permissionData = {
         user_id: formData.user_id,
-        perm_items: formData.perm_items,
-        perm_orders: formData.perm_orders,
-        perm_assign_orders: formData.perm_assign_orders,
-        perm_cooks: formData.perm_cooks,
-        perm_delivery_staff: formData.perm_delivery_staff,
-        perm_reports: formData.perm_reports,
-        perm_settlements: formData.perm_settlements,
+        ...Object.fromEntries(
+          ADMIN_PERMISSIONS.map(({ key }) => [`perm_${key}`, formData.levels[key]])
+        ),
       };
 
       if (editingAdmin) {
@@ -317,16 +299,6 @@ const AdminAdmins: React.FC = () => {
     return name.includes(searchQuery.toLowerCase()) || mobile.includes(searchQuery);
   });
 
-  const permissionLabels = [
-    { key: 'perm_items', label: 'Manage Items' },
-    { key: 'perm_orders', label: 'Manage Orders' },
-    { key: 'perm_assign_orders', label: 'Assign Orders' },
-    { key: 'perm_cooks', label: 'Register Cooks' },
-    { key: 'perm_delivery_staff', label: 'Register Delivery Staff' },
-    { key: 'perm_reports', label: 'Access Reports' },
-    { key: 'perm_settlements', label: 'Approve Settlements' },
-  ];
-
   if (!isSuperAdmin) {
     return (
       <div className="flex min-h-screen items-center justify-center">
@@ -418,13 +390,14 @@ const AdminAdmins: React.FC = () => {
                     </div>
                   </div>
                   <div className="mt-3 flex flex-wrap gap-1">
-                    {permissionLabels.map(({ key, label }) => (
-                      admin[key as keyof AdminUser] !== 'none' && admin[key as keyof AdminUser] && (
-                        <Badge key={key} variant="secondary" className="text-xs">
-                          {label}
+                    {ADMIN_PERMISSIONS.map(({ key, label }) => {
+                      const level = permissionsFromRow(admin)[key];
+                      return level !== 'none' && (
+                        <Badge key={key} variant={level === 'edit' ? 'default' : 'secondary'} className="text-xs">
+                          {label}{level === 'view' ? ' (view)' : ''}
                         </Badge>
-                      )
-                    ))}
+                      );
+                    })}
                   </div>
                 </CardContent>
               </Card>
@@ -499,18 +472,29 @@ const AdminAdmins: React.FC = () => {
 
             <div className="space-y-3">
               <Label>Permissions</Label>
-              {permissionLabels.map(({ key, label }) => (
-                <div key={key} className="flex items-center space-x-2">
-                  <Checkbox
-                    id={key}
-                    checked={formData[key as keyof typeof formData] !== 'none'}
-                    onCheckedChange={(checked) => 
-                      setFormData({ ...formData, [key]: checked ? 'full' : 'none' })
-                    }
-                  />
+              <p className="text-xs text-muted-foreground">
+                View lets the admin open an area; Edit also lets them make changes there.
+              </p>
+              {ADMIN_PERMISSIONS.map(({ key, label }) => (
+                <div key={key} className="flex items-center justify-between gap-4">
                   <Label htmlFor={key} className="text-sm font-normal">
                     {label}
                   </Label>
+                  <Select
+                    value={formData.levels[key]}
+                    onValueChange={(value) =>
+                      setFormData({ ...formData, levels: { ...formData.levels, [key]: value as PermissionLevel } })
+                    }
+                  >
+                    <SelectTrigger id={key} className="h-8 w-28">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">None</SelectItem>
+                      <SelectItem value="view">View</SelectItem>
+                      <SelectItem value="edit">Edit</SelectItem>
+                    </SelectContent>
+                  </Select>
                 </div>
               ))}
             </div>
@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowLeft, History } from 'lucide-react';
+import AuditEntryItem from '@/components/admin/audit/AuditEntryItem';
+import { AUDIT_LOG_PAGE_SIZE, useAuditActors, useAuditLog, type AuditLogFilters } from '@/hooks/useAuditLog';
+import { AUDITED_TABLES } from '@/lib/auditLog';
+
+const defaultFilters: AuditLogFilters = { actorId: 'all', tableName: 'all', fromDate: '', toDate: '' };
+
+const AdminAuditLog: React.FC = () => {
+  const navigate = useNavigate();
+  const [filters, setFilters] = useState<AuditLogFilters>(defaultFilters);
+  const { data: entries, isLoading } = useAuditLog(filters);
+  const { data: actors } = useAuditActors();
+
+  const actorNames = new Map((actors || []).map((actor) => [actor.actor_id, actor.name ?? undefined]));
+  const isFiltered = JSON.stringify(filters) !== JSON.stringify(defaultFilters);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-50 border-b bg-card">
+        <div className="flex h-16 items-center gap-3 px-4">
+          <Button variant="ghost" size="icon" onClick={() => navigate('/admin')}>
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <div>
+            <h1 className="font-display text-lg font-semibold">Audit Log</h1>
+            <p className="text-xs text-muted-foreground">Who changed what in the admin panel</p>
+          </div>
+        </div>
+      </header>
+
+      <main className="space-y-4 p-4">
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="flex items-center justify-between text-base">
+              Filters
+              {isFiltered && (
+                <Button variant="ghost" size="sm" onClick={() => setFilters(defaultFilters)}>
+                  Clear
+                </Button>
+              )}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+            <div className="space-y-1">
+              <Label className="text-xs">Changed by</Label>
+              <Select value={filters.actorId} onValueChange={(v) => setFilters((f) => ({ ...f, actorId: v }))}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All admins</SelectItem>
+                  {actors?.map((actor) => (
+                    <SelectItem key={actor.actor_id} value={actor.actor_id}>
+                      {actor.name || actor.actor_id.slice(0, 8)}
+                      {actor.mobile_number ? ` · ${actor.mobile_number}` : ''}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-1">
+              <Label className="text-xs">Entity</Label>
+              <Select value={filters.tableName} onValueChange={(v) => setFilters((f) => ({ ...f, tableName: v }))}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Everything</SelectItem>
+                  {Object.entries(AUDITED_TABLES).map(([table, label]) => (
+                    <SelectItem key={table} value={table}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-1">
+              <Label className="text-xs">From</Label>
+              <Input
+                type="date"
+                value={filters.fromDate}
+                max={filters.toDate || undefined}
+                onChange={(e) => setFilters((f) => ({ ...f, fromDate: e.target.value }))}
+              />
+            </div>
+
+            <div className="space-y-1">
+              <Label className="text-xs">To</Label>
+              <Input
+                type="date"
+                value={filters.toDate}
+                min={filters.fromDate || undefined}
+                onChange={(e) => setFilters((f) => ({ ...f, toDate: e.target.value }))}
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        {isLoading ? (
+          <div className="space-y-2">
+            {[1, 2, 3].map((i) => (
+              <Skeleton key={i} className="h-24 w-full" />
+            ))}
+          </div>
+        ) : !entries?.length ? (
+          <div className="flex flex-col items-center justify-center py-16">
+            <History className="h-16 w-16 text-muted-foreground" />
+            <h2 className="mt-4 text-lg font-semibold">No changes found</h2>
+            <p className="text-sm text-muted-foreground">
+              {isFiltered ? 'Try widening the filters' : 'Admin changes will appear here'}
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {entries.map((entry) => (
+              <AuditEntryItem
+                key={entry.id}
+                entry={entry}
+                actorName={entry.actor_id ? actorNames.get(entry.actor_id) : undefined}
+              />
+            ))}
+            {entries.length >= AUDIT_LOG_PAGE_SIZE && (
+              <p className="py-2 text-center text-xs text-muted-foreground">
+                Showing the latest {AUDIT_LOG_PAGE_SIZE} changes. Narrow the filters to see older ones.
+              </p>
+            )}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default AdminAuditLog;
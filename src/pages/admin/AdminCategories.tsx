@@ -27,6 +27,8 @@ import {
 import { Label } from '@/components/ui/label';
 import AdminNavbar from '@/components/admin/AdminNavbar';
 import ImageUpload from '@/components/admin/ImageUpload';
+import TaxClassesTab from '@/components/admin/TaxClassesTab';
+import { useTaxClasses } from '@/hooks/useTaxClasses';
 import { 
   Plus, 
   Search, 
@@ -45,6 +47,7 @@ const serviceTypes: { value: ServiceType; label: string }[] = [
 const AdminCategories: React.FC = () => {
   const navigate = useNavigate();
   const { role } = useAuth();
+  const { foodTaxClasses } = useTaxClasses();
   
   const [categories, setCategories] = useState<FoodCategory[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -60,6 +63,7 @@ const AdminCategories: React.FC = () => {
     image_url: '' as string | null,
     is_active: true,
     display_order: 0,
+    tax_class_id: '',
   });
 
   const isAdmin = role === 'super_admin' || role === 'admin';
@@ -125,6 +129,7 @@ const AdminCategories: React.FC = () => {
         image_url: category.image_url,
         is_active: category.is_active,
         display_order: category.display_order,
+        tax_class_id: category.tax_class_id || '',
       });
     } else {
       setEditingCategory(null);
@@ -134,6 +139,7 @@ const AdminCategories: React.FC = () => {
         image_url: null,
         is_active: true,
         display_order: categories.length,
+        tax_class_id: '',
       });
     }
     setIsDialogOpen(true);
@@ -161,6 +167,7 @@ const AdminCategories: React.FC = () => {
         image_url: formData.image_url,
         is_active: formData.is_active,
         display_order: formData.display_order,
+        tax_class_id: formData.tax_class_id || null,
       };
 
       if (editingCategory) {
@@ -362,6 +369,10 @@ const AdminCategories: React.FC = () => {
             ))}
           </div>
         )}
+
+        <div className="mt-8 border-t pt-6">
+          <TaxClassesTab />
+        </div>
       </main>
 
       {/* Add/Edit Dialog */}
@@ -415,6 +426,29 @@ const AdminCategories: React.FC = () => {
               />
             </div>
 
+            <div className="space-y-2">
+              <Label>GST Tax Class</Label>
+              <Select
+                value={formData.tax_class_id || 'none'}
+                onValueChange={(v) => setFormData({ ...formData, tax_class_id: v === 'none' ? '' : v })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="No tax" />
+                </SelectTrigger>
+                <SelectContent className="bg-popover">
+                  <SelectItem value="none">No tax</SelectItem>
+                  {foodTaxClasses.map((tc) => (
+                    <SelectItem key={tc.id} value={tc.id}>
+                      {tc.name} ({tc.rate_percent}%)
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Applies to items in this category unless an item has its own class
+              </p>
+            </div>
+
             <div className="space-y-2">
               <Label htmlFor="display_order">Display Order</Label>
               <Input
@@ -18,7 +18,7 @@ import { Skeleton } from '@/components/ui/skeleton';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { toast } from '@/hooks/use-toast';
-import { ArrowLeft, Plus, ChefHat, Phone, MapPin, Loader2, Calendar, Users, Search, User, CheckCircle, UtensilsCrossed, MessageSquare, Edit } from 'lucide-react';
+import { ArrowLeft, Plus, ChefHat, Phone, MapPin, Loader2, Calendar, Users, Search, User, CheckCircle, UtensilsCrossed, MessageSquare, Edit, KeyRound } from 'lucide-react';
 import { format } from 'date-fns';
 import type { Cook } from '@/types/cook';
 import CookDishesTab from '@/components/admin/CookDishesTab';
@@ -98,6 +98,15 @@ const AdminCooks: React.FC = () => {
     is_active: true,
   });
   
+  // Login sent to a cook, shown once
+  const [sendingLoginFor, setSendingLoginFor] = useState<string | null>(null);
+  const [sentLogin, setSentLogin] = useState<{
+    kitchenName: string;
+    mobileNumber: string;
+    temporaryPassword: string;
+    smsSent: boolean;
+  } | null>(null);
+
   // Staff search state
   const [searchMobile, setSearchMobile] = useState('');
   const [isSearching, setIsSearching] = useState(false);
@@ -361,7 +370,7 @@ const AdminCooks: React.FC = () => {
 
       toast({
         title: "Cook Registered",
-        description: `${data.kitchenName} has been registered. They can now login via Staff Login.`,
+        description: `${data.kitchenName} has been registered. Use Send Login to text them their kitchen login.`,
       });
 
       handleClearSelection();
@@ -399,6 +408,34 @@ const AdminCooks: React.FC = () => {
     }
   };
 
+  // Invite or password reset: the cook-accounts function sets a temporary password and texts it
+  const handleSendLogin = async (cook: Cook) => {
+    if (!confirm(`Send ${cook.kitchen_name} a new login password? Their current password will stop working.`)) return;
+
+    setSendingLoginFor(cook.id);
+    try {
+      const { data, error } = await supabase.functions.invoke('cook-accounts', {
+        body: { action: 'send_login', cook_id: cook.id },
+      });
+      if (error) {
+        const details = await (error as { context?: Response }).context?.json?.().catch(() => null);
+        throw new Error(details?.error || error.message);
+      }
+
+      setSentLogin({
+        kitchenName: cook.kitchen_name,
+        mobileNumber: data.mobile_number,
+        temporaryPassword: data.temporary_password,
+        smsSent: data.sms_sent,
+      });
+      queryClient.invalidateQueries({ queryKey: ['admin-cooks'] });
+    } catch (error) {
+      toast({ title: 'Error', description: (error as Error).message || 'Failed to send login', variant: 'destructive' });
+    } finally {
+      setSendingLoginFor(null);
+    }
+  };
+
   const handleOpenEdit = (cook: Cook) => {
     setEditCook(cook);
     setEditForm({
@@ -839,6 +876,20 @@ const AdminCooks: React.FC = () => {
                           <Edit className="h-3.5 w-3.5 mr-1" />
                           Edit
                         </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={!cook.is_active || sendingLoginFor === cook.id}
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleSendLogin(cook);
+                          }}
+                        >
+                          {sendingLoginFor === cook.id
+                            ? <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" />
+                            : <KeyRound className="h-3.5 w-3.5 mr-1" />}
+                          {cook.user_id ? 'Reset Login' : 'Send Login'}
+                        </Button>
                         <Button
                           size="sm"
                           variant={cook.is_active ? "destructive" : "default"}
@@ -902,6 +953,32 @@ const AdminCooks: React.FC = () => {
           </TabsContent>
         </Tabs>
 
+        {/* Sent Login Dialog */}
+        <Dialog open={!!sentLogin} onOpenChange={(open) => !open && setSentLogin(null)}>
+          <DialogContent className="max-w-sm">
+            <DialogHeader>
+              <DialogTitle className="flex items-center gap-2">
+                <KeyRound className="h-5 w-5" />
+                Login for {sentLogin?.kitchenName}
+              </DialogTitle>
+            </DialogHeader>
+            {sentLogin && (
+              <div className="space-y-3 text-sm">
+                <p className="text-muted-foreground">
+                  {sentLogin.smsSent
+                    ? 'The login was texted to the cook. It is shown here once in case the message does not arrive.'
+                    : 'The text could not be sent. Share this login with the cook directly.'}
+                </p>
+                <div className="rounded-lg bg-muted p-3 space-y-1">
+                  <p>Mobile: <span className="font-mono font-medium">{sentLogin.mobileNumber}</span></p>
+                  <p>Password: <span className="font-mono font-medium">{sentLogin.temporaryPassword}</span></p>
+                </div>
+                <p className="text-xs text-muted-foreground">The cook signs in at /cook/login.</p>
+              </div>
+            )}
+          </DialogContent>
+        </Dialog>
+
         {/* Edit Cook Dialog */}
         <Dialog open={isEditDialogOpen} onOpenChange={(open) => { setIsEditDialogOpen(open); if (!open) setEditCook(null); }}>
           <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
@@ -2,12 +2,16 @@ import React from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { useAdminDeliveryAlerts } from '@/hooks/useDeliveryNotifications';
+import { useNotifications } from '@/hooks/useNotifications';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import UnacceptedOrdersAlert from '@/components/admin/UnacceptedOrdersAlert';
 import { Switch } from '@/components/ui/switch';
-import { useServiceModules, useToggleServiceModule } from '@/hooks/useServiceModules';
+import { Input } from '@/components/ui/input';
+import { useServiceModules, useToggleServiceModule, useUpdateMaxAdvanceDays } from '@/hooks/useServiceModules';
+import { useAdminPermissions } from '@/hooks/usePermission';
+import { canOpenAdminRoute } from '@/lib/permissions';
 import { 
   CalendarHeart,
   ChefHat,
@@ -24,7 +28,8 @@ import {
   Tag,
   Utensils,
   FolderOpen,
-  AlertTriangle
+  AlertTriangle,
+  History
 } from 'lucide-react';
 
 const AdminDashboard: React.FC = () => {
@@ -36,10 +41,14 @@ const AdminDashboard: React.FC = () => {
     dismissAdminAlert, 
     removeAdminAlert 
   } = useAdminDeliveryAlerts();
+  // Cook assignment escalations
+  useNotifications(['admin-orders-assignment']);
 
   const isAdmin = role === 'super_admin' || role === 'admin';
+  const { data: permissions } = useAdminPermissions();
   const { data: serviceModules } = useServiceModules();
   const toggleModule = useToggleServiceModule();
+  const updateAdvanceDays = useUpdateMaxAdvanceDays();
 
   if (!isAdmin) {
     return (
@@ -104,8 +113,11 @@ const AdminDashboard: React.FC = () => {
     { icon: Tag, label: 'Special Offers', path: '/admin/special-offers', description: 'Offer Cards' },
     { icon: BarChart3, label: 'Reports', path: '/admin/reports', description: 'Analytics' },
     { icon: Image, label: 'Storage Settings', path: '/admin/storage-settings', description: 'External Storage' },
+    { icon: History, label: 'Audit Log', path: '/admin/audit-log', description: 'Admin Changes' },
   ];
 
+  const canOpen = (path: string) => canOpenAdminRoute(path, role, permissions);
+
   const superAdminUtilities = [
     { icon: Settings, label: 'Admin Management', path: '/admin/admins', description: 'Roles & Permissions' },
   ];
@@ -159,7 +171,7 @@ const AdminDashboard: React.FC = () => {
         {/* Module Cards */}
         <h3 className="mb-4 text-lg font-semibold">Operational Modules</h3>
         <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
-          {modules.map((module) => {
+          {modules.filter((module) => canOpen(module.path)).map((module) => {
             const serviceTypeMap: Record<string, string> = {
               'indoor-events': 'indoor_events',
               'cloud-kitchen': 'cloud_kitchen',
@@ -194,6 +206,25 @@ const AdminDashboard: React.FC = () => {
                     />
                   )}
                 </CardContent>
+                {role === 'super_admin' && svcModule && svcType !== 'indoor_events' && (
+                  <div className="flex items-center justify-between gap-2 border-t px-4 py-2 text-sm">
+                    <span className="text-muted-foreground">Orders up to (days ahead)</span>
+                    <Input
+                      key={svcModule.max_advance_days}
+                      type="number"
+                      min="0"
+                      max="30"
+                      className="h-8 w-20"
+                      defaultValue={svcModule.max_advance_days}
+                      onBlur={(e) => {
+                        const days = Math.max(0, parseInt(e.target.value) || 0);
+                        if (days !== svcModule.max_advance_days) {
+                          updateAdvanceDays.mutate({ id: svcModule.id, max_advance_days: days });
+                        }
+                      }}
+                    />
+                  </div>
+                )}
               </Card>
             );
           })}
@@ -202,7 +233,7 @@ const AdminDashboard: React.FC = () => {
         {/* Common Utilities */}
         <h3 className="mb-4 mt-8 text-lg font-semibold">Common Utilities</h3>
         <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
-          {commonUtilities.map((item) => (
+          {commonUtilities.filter((item) => canOpen(item.path)).map((item) => (
             <Card 
               key={item.path}
               className="cursor-pointer transition-all hover:shadow-md"
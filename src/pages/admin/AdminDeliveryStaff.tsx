@@ -21,12 +21,14 @@ import {
 } from '@/components/ui/dialog';
 import { 
   ArrowLeft, Truck, Phone, MapPin, CheckCircle, XCircle, 
-  Bike, Car, Plus, Search, User, Loader2, X, Pencil, Trash2, Settings, Wallet 
+  Bike, Car, Plus, Search, User, Loader2, X, Pencil, Trash2, Settings, Wallet, Banknote, Navigation 
 } from 'lucide-react';
 import { Checkbox } from '@/components/ui/checkbox';
 import type { DeliveryStaff } from '@/types/delivery';
 import DeliveryStaffWalletTab from '@/components/admin/delivery/DeliveryStaffWalletTab';
 import DeliveryRulesTab from '@/components/admin/delivery/DeliveryRulesTab';
+import CashReconciliationTab from '@/components/admin/delivery/CashReconciliationTab';
+import LiveDeliveriesTab from '@/components/admin/delivery/LiveDeliveriesTab';
 
 const vehicleIcons: Record<string, React.ReactNode> = {
   bicycle: <Bike className="h-4 w-4" />,
@@ -920,7 +922,7 @@ const AdminDeliveryStaff: React.FC = () => {
 
       <main className="container px-4 py-4">
         <Tabs defaultValue="pending" className="space-y-4">
-          <TabsList className="grid w-full grid-cols-4">
+          <TabsList className="grid w-full grid-cols-6">
             <TabsTrigger value="pending" className="relative">
               Pending
               {pendingStaff && pendingStaff.length > 0 && (
@@ -930,10 +932,18 @@ const AdminDeliveryStaff: React.FC = () => {
               )}
             </TabsTrigger>
             <TabsTrigger value="approved">Approved</TabsTrigger>
+            <TabsTrigger value="live" className="gap-1">
+              <Navigation className="h-4 w-4" />
+              Live
+            </TabsTrigger>
             <TabsTrigger value="wallet" className="gap-1">
               <Wallet className="h-4 w-4" />
               Wallet
             </TabsTrigger>
+            <TabsTrigger value="cash" className="gap-1">
+              <Banknote className="h-4 w-4" />
+              Cash
+            </TabsTrigger>
             <TabsTrigger value="rules" className="gap-1">
               <Truck className="h-4 w-4" />
               Rules
@@ -970,10 +980,18 @@ const AdminDeliveryStaff: React.FC = () => {
             )}
           </TabsContent>
 
+          <TabsContent value="live">
+            <LiveDeliveriesTab />
+          </TabsContent>
+
           <TabsContent value="wallet">
             <DeliveryStaffWalletTab />
           </TabsContent>
 
+          <TabsContent value="cash">
+            <CashReconciliationTab />
+          </TabsContent>
+
           <TabsContent value="rules">
             <DeliveryRulesTab />
           </TabsContent>
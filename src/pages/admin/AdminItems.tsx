@@ -39,7 +39,9 @@ import {
   ChefHat,
   User,
   UtensilsCrossed,
-  Package
+  Package,
+  SlidersHorizontal,
+  FileClock
 } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
 import AdminNavbar from '@/components/admin/AdminNavbar';
@@ -47,6 +49,9 @@ import ImageUpload from '@/components/admin/ImageUpload';
 import ComboFoodsTab from '@/components/admin/ComboFoodsTab';
 import { calculatePlatformMargin } from '@/lib/priceUtils';
 import ViewItemCooksDialog from '@/components/admin/ViewItemCooksDialog';
+import ItemModifiersDialog from '@/components/admin/ItemModifiersDialog';
+import RecordHistoryDialog from '@/components/admin/audit/RecordHistoryDialog';
+import { useTaxClasses } from '@/hooks/useTaxClasses';
 
 // Helper to calculate customer price
 const getCustomerPrice = (item: FoodItemWithImages): number => {
@@ -72,6 +77,7 @@ const serviceTypes: { value: ServiceType; label: string }[] = [
 const AdminItems: React.FC = () => {
   const navigate = useNavigate();
   const { role } = useAuth();
+  const { foodTaxClasses } = useTaxClasses();
   
   const [items, setItems] = useState<FoodItemWithImages[]>([]);
   const [categories, setCategories] = useState<FoodCategory[]>([]);
@@ -103,6 +109,7 @@ const AdminItems: React.FC = () => {
     serves_persons: '',
     platform_margin_type: 'percent' as 'percent' | 'fixed',
     platform_margin_value: '',
+    tax_class_id: '',
   });
 
   const isAdmin = role === 'super_admin' || role === 'admin';
@@ -208,6 +215,7 @@ const AdminItems: React.FC = () => {
         serves_persons: itemWithExtras.serves_persons?.toString() || '',
         platform_margin_type: (itemWithExtras.platform_margin_type as 'percent' | 'fixed') || 'percent',
         platform_margin_value: itemWithExtras.platform_margin_value?.toString() || '',
+        tax_class_id: item.tax_class_id || '',
       });
     } else {
       setEditingItem(null);
@@ -230,6 +238,7 @@ const AdminItems: React.FC = () => {
         serves_persons: '',
         platform_margin_type: 'percent',
         platform_margin_value: '',
+        tax_class_id: '',
       });
     }
     setIsDialogOpen(true);
@@ -275,6 +284,7 @@ const AdminItems: React.FC = () => {
         serves_persons: formData.serves_persons ? parseInt(formData.serves_persons) : null,
         platform_margin_type: formData.platform_margin_type,
         platform_margin_value: formData.platform_margin_value ? parseFloat(formData.platform_margin_value) : 0,
+        tax_class_id: formData.tax_class_id || null,
       };
 
       if (editingItem) {
@@ -555,6 +565,27 @@ const AdminItems: React.FC = () => {
                           </Button>
                         }
                       />
+                      {item.service_type !== 'indoor_events' && (
+                        <ItemModifiersDialog
+                          foodItemId={item.id}
+                          foodItemName={item.name}
+                          trigger={
+                            <Button variant="ghost" size="icon" title="Modifiers">
+                              <SlidersHorizontal className="h-4 w-4" />
+                            </Button>
+                          }
+                        />
+                      )}
+                      <RecordHistoryDialog
+                        tableName="food_items"
+                        recordId={item.id}
+                        recordName={item.name}
+                        trigger={
+                          <Button variant="ghost" size="icon" title="History">
+                            <FileClock className="h-4 w-4" />
+                          </Button>
+                        }
+                      />
                       <Switch
                         checked={item.is_available}
                         onCheckedChange={() => handleToggleAvailability(item)}
@@ -716,6 +747,26 @@ const AdminItems: React.FC = () => {
               </Select>
             </div>
 
+            <div className="space-y-2">
+              <Label>GST Tax Class</Label>
+              <Select 
+                value={formData.tax_class_id || 'category'} 
+                onValueChange={(v) => setFormData({ ...formData, tax_class_id: v === 'category' ? '' : v })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-popover">
+                  <SelectItem value="category">Same as category</SelectItem>
+                  {foodTaxClasses.map((tc) => (
+                    <SelectItem key={tc.id} value={tc.id}>
+                      {tc.name} ({tc.rate_percent}%)
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
             {/* Panchayat Availability */}
             <div className="space-y-3">
               <Label>Panchayat Availability</Label>
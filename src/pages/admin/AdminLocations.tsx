@@ -2,6 +2,8 @@ import React, { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
+import { usePermission } from '@/hooks/usePermission';
+import { useWardBoundaryCounts } from '@/hooks/useWardBoundaries';
 import type { Panchayat } from '@/types/database';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -17,12 +19,15 @@ import {
   DialogTitle,
   DialogFooter,
 } from '@/components/ui/dialog';
-import { ArrowLeft, Plus, Edit2, Trash2, MapPin } from 'lucide-react';
+import { ArrowLeft, Plus, Edit2, Trash2, MapPin, MapIcon } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
+import WardBoundariesDialog from '@/components/admin/WardBoundariesDialog';
 
 const AdminLocations: React.FC = () => {
   const navigate = useNavigate();
   const { role } = useAuth();
+  const { canEdit: canEditBoundaries } = usePermission('locations');
+  const { data: boundaryCounts } = useWardBoundaryCounts();
   
   const [panchayats, setPanchayats] = useState<Panchayat[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -209,6 +214,9 @@ const AdminLocations: React.FC = () => {
                       <p className="text-sm text-muted-foreground">
                         {panchayat.ward_count} wards (1 to {panchayat.ward_count})
                       </p>
+                      <p className="text-xs text-muted-foreground">
+                        {boundaryCounts?.[panchayat.id] ?? 0}/{panchayat.ward_count} wards mapped
+                      </p>
                     </div>
                   </div>
                   <div className="flex items-center gap-2">
@@ -219,6 +227,16 @@ const AdminLocations: React.FC = () => {
                     <Badge variant={panchayat.is_active ? 'default' : 'secondary'}>
                       {panchayat.is_active ? 'Active' : 'Inactive'}
                     </Badge>
+                    <WardBoundariesDialog
+                      panchayat={panchayat}
+                      mappedCount={boundaryCounts?.[panchayat.id] ?? 0}
+                      canEdit={canEditBoundaries}
+                      trigger={
+                        <Button variant="ghost" size="icon" title="Ward boundaries">
+                          <MapIcon className="h-4 w-4" />
+                        </Button>
+                      }
+                    />
                     <Button 
                       variant="ghost" 
                       size="icon"
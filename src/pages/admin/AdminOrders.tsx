@@ -4,6 +4,7 @@ import type { Order, OrderStatus, ServiceType } from '@/types/database';
 import AdminNavbar from '@/components/admin/AdminNavbar';
 import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs';
 import OrdersTabContent from '@/components/admin/orders/OrdersTabContent';
+import CancellationPoliciesTab from '@/components/admin/CancellationPoliciesTab';
 
 const AdminOrders: React.FC = () => {
   return (
@@ -14,11 +15,12 @@ const AdminOrders: React.FC = () => {
         <h1 className="text-2xl font-bold">Orders Management</h1>
 
         <Tabs defaultValue="all" className="w-full">
-          <TabsList className="w-full grid grid-cols-4">
+          <TabsList className="w-full grid grid-cols-5">
             <TabsTrigger value="all">All Orders</TabsTrigger>
             <TabsTrigger value="indoor_events">Indoor Events</TabsTrigger>
             <TabsTrigger value="cloud_kitchen">Cloud Kitchen</TabsTrigger>
             <TabsTrigger value="homemade">Home Delivery</TabsTrigger>
+            <TabsTrigger value="cancellation">Cancellation</TabsTrigger>
           </TabsList>
 
           <TabsContent value="all">
@@ -33,6 +35,9 @@ const AdminOrders: React.FC = () => {
           <TabsContent value="homemade">
             <OrdersTabContent serviceType="homemade" />
           </TabsContent>
+          <TabsContent value="cancellation">
+            <CancellationPoliciesTab />
+          </TabsContent>
         </Tabs>
       </main>
     </div>
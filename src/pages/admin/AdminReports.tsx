@@ -16,11 +16,12 @@ import {
   Calendar as CalendarIcon,
   Settings,
   TrendingUp,
-  Building2
+  Building2,
+  Receipt
 } from 'lucide-react';
 import { format } from 'date-fns';
 import { cn } from '@/lib/utils';
-import { useSalesReport, useCookPerformanceReport, useDeliverySettlementReport, useReferralReport, usePanchayats, useVehicleRentReport } from '@/hooks/useReports';
+import { useSalesReport, useCookPerformanceReport, useDeliverySettlementReport, useReferralReport, usePanchayats, useVehicleRentReport, useTaxLiabilityReport } from '@/hooks/useReports';
 import { useProfitLossReport } from '@/hooks/useProfitLoss';
 import { exportToCSV, exportToExcel } from '@/lib/exportUtils';
 import { ReportFilters } from '@/types/reports';
@@ -46,6 +47,17 @@ const AdminReports: React.FC = () => {
   const { data: referralData, isLoading: referralLoading } = useReferralReport();
   const { data: profitLossData, isLoading: profitLossLoading } = useProfitLossReport(filters);
   const { data: vehicleRentData, isLoading: vehicleRentLoading } = useVehicleRentReport(filters);
+  const { data: taxData, isLoading: taxLoading } = useTaxLiabilityReport(filters);
+
+  const taxTotals = useMemo(() => {
+    if (!taxData) return { taxable: 0, cgst: 0, sgst: 0, total: 0 };
+    return {
+      taxable: taxData.reduce((sum, r) => sum + r.taxable_value, 0),
+      cgst: taxData.reduce((sum, r) => sum + r.cgst_amount, 0),
+      sgst: taxData.reduce((sum, r) => sum + r.sgst_amount, 0),
+      total: taxData.reduce((sum, r) => sum + r.total_tax, 0),
+    };
+  }, [taxData]);
 
   // Process sales data for display
   const salesSummary = useMemo(() => {
@@ -197,22 +209,29 @@ const AdminReports: React.FC = () => {
         </div>
 
         <Tabs defaultValue="pnl" className="space-y-4">
-          <TabsList className="grid w-full grid-cols-5">
+          <TabsList className="grid w-full grid-cols-6">
             <TabsTrigger value="pnl">P&L</TabsTrigger>
             <TabsTrigger value="sales">Sales</TabsTrigger>
             <TabsTrigger value="cook">Cook</TabsTrigger>
             <TabsTrigger value="delivery">Delivery</TabsTrigger>
             <TabsTrigger value="referral">Referral</TabsTrigger>
+            <TabsTrigger value="tax">Tax</TabsTrigger>
           </TabsList>
 
           {/* Profit & Loss Tab */}
           <TabsContent value="pnl" className="space-y-4">
             {/* P&L Summary Cards */}
-            <div className="grid grid-cols-2 gap-4 sm:grid-cols-3 lg:grid-cols-6">
+            <div className="grid grid-cols-2 gap-4 sm:grid-cols-3 lg:grid-cols-7">
               <Card>
                 <CardContent className="p-4 text-center">
                   <p className="text-xl font-bold text-primary">₹{profitLossData?.summary.totalRevenue?.toLocaleString() || 0}</p>
-                  <p className="text-xs text-muted-foreground">Total Revenue</p>
+                  <p className="text-xs text-muted-foreground">Revenue (excl. GST)</p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="p-4 text-center">
+                  <p className="text-xl font-bold text-muted-foreground">₹{profitLossData?.summary.taxCollected?.toLocaleString() || 0}</p>
+                  <p className="text-xs text-muted-foreground">GST Collected</p>
                 </CardContent>
               </Card>
               <Card className="bg-primary/5 border-primary/20">
@@ -606,6 +625,86 @@ const AdminReports: React.FC = () => {
               </CardContent>
             </Card>
           </TabsContent>
+
+          <TabsContent value="tax" className="space-y-4">
+            <div className="grid grid-cols-2 gap-4 sm:grid-cols-4">
+              <Card>
+                <CardContent className="p-4 text-center">
+                  <p className="text-xl font-bold text-primary">₹{taxTotals.taxable.toLocaleString()}</p>
+                  <p className="text-xs text-muted-foreground">Taxable Value</p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="p-4 text-center">
+                  <p className="text-xl font-bold">₹{taxTotals.cgst.toLocaleString()}</p>
+                  <p className="text-xs text-muted-foreground">CGST</p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="p-4 text-center">
+                  <p className="text-xl font-bold">₹{taxTotals.sgst.toLocaleString()}</p>
+                  <p className="text-xs text-muted-foreground">SGST</p>
+                </CardContent>
+              </Card>
+              <Card className="bg-warning/10 border-warning/30">
+                <CardContent className="p-4 text-center">
+                  <p className="text-xl font-bold text-warning">₹{taxTotals.total.toLocaleString()}</p>
+                  <p className="text-xs text-muted-foreground">Total GST Payable</p>
+                </CardContent>
+              </Card>
+            </div>
+
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between">
+                <CardTitle className="flex items-center gap-2">
+                  <Receipt className="h-5 w-5" />
+                  Tax Liability by Rate
+                </CardTitle>
+                <div className="flex gap-2">
+                  <Button size="sm" variant="outline" onClick={() => taxData && exportToCSV(taxData as unknown as Record<string, unknown>[], 'tax-liability')}>
+                    <Download className="mr-2 h-4 w-4" />CSV
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => taxData && exportToExcel(taxData as unknown as Record<string, unknown>[], 'tax-liability')}>
+                    <FileSpreadsheet className="mr-2 h-4 w-4" />Excel
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent>
+                {taxLoading ? (
+                  <p className="text-center text-muted-foreground">Loading...</p>
+                ) : taxData && taxData.length > 0 ? (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Component</TableHead>
+                        <TableHead className="text-right">GST Rate</TableHead>
+                        <TableHead className="text-right">Orders</TableHead>
+                        <TableHead className="text-right">Taxable Value</TableHead>
+                        <TableHead className="text-right">CGST</TableHead>
+                        <TableHead className="text-right">SGST</TableHead>
+                        <TableHead className="text-right">Total Tax</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {taxData.map((row) => (
+                        <TableRow key={`${row.component}-${row.tax_rate}`}>
+                          <TableCell className="capitalize">{row.component.replace('_', ' ')}</TableCell>
+                          <TableCell className="text-right">{row.tax_rate}%</TableCell>
+                          <TableCell className="text-right">{row.order_count}</TableCell>
+                          <TableCell className="text-right">₹{row.taxable_value.toLocaleString()}</TableCell>
+                          <TableCell className="text-right">₹{row.cgst_amount.toLocaleString()}</TableCell>
+                          <TableCell className="text-right">₹{row.sgst_amount.toLocaleString()}</TableCell>
+                          <TableCell className="text-right font-medium">₹{row.total_tax.toLocaleString()}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                ) : (
+                  <p className="text-center text-muted-foreground">No taxable orders in this period</p>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
         </Tabs>
       </main>
     </div>
@@ -18,13 +18,23 @@ import AdminNavbar from '@/components/admin/AdminNavbar';
 import ImageUpload from '@/components/admin/ImageUpload';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { 
+  Select, 
+  SelectContent, 
+  SelectItem, 
+  SelectTrigger, 
+  SelectValue 
+} from '@/components/ui/select';
+import CouponsTab from '@/components/admin/CouponsTab';
+import { useCoupons } from '@/hooks/useCoupons';
 import { 
   Plus, 
   Edit2, 
   Trash2,
   GripVertical,
   Star,
-  Percent
+  Percent,
+  Ticket
 } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
 
@@ -37,6 +47,7 @@ interface SpecialOffer {
   link_url: string | null;
   display_order: number;
   is_active: boolean;
+  coupon_id: string | null;
 }
 
 interface FeaturedItem {
@@ -52,6 +63,7 @@ interface FeaturedItem {
 
 const AdminSpecialOffers: React.FC = () => {
   const { role } = useAuth();
+  const { coupons } = useCoupons();
   
   const [offers, setOffers] = useState<SpecialOffer[]>([]);
   const [featuredItems, setFeaturedItems] = useState<FeaturedItem[]>([]);
@@ -68,6 +80,7 @@ const AdminSpecialOffers: React.FC = () => {
     link_url: '',
     display_order: 0,
     is_active: true,
+    coupon_id: '',
   });
 
   const isAdmin = role === 'super_admin' || role === 'admin';
@@ -165,6 +178,7 @@ const AdminSpecialOffers: React.FC = () => {
         link_url: offer.link_url || '',
         display_order: offer.display_order,
         is_active: offer.is_active,
+        coupon_id: offer.coupon_id || '',
       });
     } else {
       setEditingOffer(null);
@@ -176,6 +190,7 @@ const AdminSpecialOffers: React.FC = () => {
         link_url: '',
         display_order: offers.length,
         is_active: true,
+        coupon_id: '',
       });
     }
     setIsDialogOpen(true);
@@ -200,6 +215,7 @@ const AdminSpecialOffers: React.FC = () => {
         link_url: formData.link_url || null,
         display_order: formData.display_order,
         is_active: formData.is_active,
+        coupon_id: formData.coupon_id || null,
       };
 
       if (editingOffer) {
@@ -282,12 +298,16 @@ const AdminSpecialOffers: React.FC = () => {
 
       <main className="p-4">
         <Tabs defaultValue="offers" className="w-full">
-          <TabsList className="grid w-full grid-cols-2 mb-4">
+          <TabsList className="grid w-full grid-cols-3 mb-4">
             <TabsTrigger value="offers">Manual Offers ({offers.length})</TabsTrigger>
             <TabsTrigger value="featured">
               <Star className="h-4 w-4 mr-1.5" />
               Featured Items ({featuredItems.length})
             </TabsTrigger>
+            <TabsTrigger value="coupons">
+              <Ticket className="h-4 w-4 mr-1.5" />
+              Coupons ({coupons.length})
+            </TabsTrigger>
           </TabsList>
           
           <TabsContent value="offers">
@@ -341,6 +361,12 @@ const AdminSpecialOffers: React.FC = () => {
                         <p className="text-xs text-muted-foreground">
                           {offer.is_active ? 'Active' : 'Inactive'}
                         </p>
+                        {offer.coupon_id && (
+                          <Badge variant="outline" className="mt-1 font-mono text-xs">
+                            <Ticket className="h-3 w-3 mr-1" />
+                            {coupons.find(c => c.id === offer.coupon_id)?.code || 'Coupon'}
+                          </Badge>
+                        )}
                       </div>
 
                       <div className="flex items-center gap-2">
@@ -426,6 +452,10 @@ const AdminSpecialOffers: React.FC = () => {
               </div>
             )}
           </TabsContent>
+
+          <TabsContent value="coupons">
+            <CouponsTab />
+          </TabsContent>
         </Tabs>
       </main>
 
@@ -498,6 +528,29 @@ const AdminSpecialOffers: React.FC = () => {
               />
             </div>
 
+            <div className="space-y-2">
+              <Label>Linked Coupon (optional)</Label>
+              <Select
+                value={formData.coupon_id || 'none'}
+                onValueChange={(v) => setFormData({ ...formData, coupon_id: v === 'none' ? '' : v })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="No coupon" />
+                </SelectTrigger>
+                <SelectContent className="bg-popover">
+                  <SelectItem value="none">No coupon</SelectItem>
+                  {coupons.map((coupon) => (
+                    <SelectItem key={coupon.id} value={coupon.id}>
+                      {coupon.code}{!coupon.is_active && ' (inactive)'}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Tapping the card gives customers this code for checkout
+              </p>
+            </div>
+
             <div className="space-y-2">
               <Label htmlFor="display_order">Display Order</Label>
               <Input
@@ -1,6 +1,6 @@
 import React, { useState, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useQuery } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -23,8 +23,13 @@ import {
 } from '@/components/ui/table';
 import { Skeleton } from '@/components/ui/skeleton';
 import { toast } from '@/hooks/use-toast';
-import { ArrowLeft, ChefHat, Truck, ClipboardList, Loader2, AlertTriangle } from 'lucide-react';
+import { ArrowLeft, ChefHat, Truck, ClipboardList, Loader2, AlertTriangle, Route } from 'lucide-react';
 import AdminNavbar from '@/components/admin/AdminNavbar';
+import CookAssignmentSelect from '@/components/admin/orders/CookAssignmentSelect';
+import DispatchLogDialog from '@/components/admin/orders/DispatchLogDialog';
+import { useAssignOrderCook } from '@/hooks/useCookAssignment';
+import { useAssignOrderDelivery } from '@/hooks/useDeliveryDispatch';
+import { useNotifications } from '@/hooks/useNotifications';
 import { format } from 'date-fns';
 
 interface OrderWithItems {
@@ -37,26 +42,25 @@ interface OrderWithItems {
   ward_number: number;
   assigned_cook_id: string | null;
   assigned_delivery_id: string | null;
+  cook_assignment_status: string | null;
+  cook_escalated_at: string | null;
+  delivery_escalated_at: string | null;
   created_at: string;
   panchayats?: { name: string };
-  order_items?: { food_item_id: string }[];
-}
-
-interface CookWithDishes {
-  id: string;
-  kitchen_name: string;
-  mobile_number: string;
-  panchayat_id: string | null;
-  allocated_dishes: Set<string>;
 }
 
 const AdminWorkAssignment: React.FC = () => {
   const navigate = useNavigate();
-  const queryClient = useQueryClient();
   const [activeTab, setActiveTab] = useState('pending');
   const [assigningOrderId, setAssigningOrderId] = useState<string | null>(null);
+  const assignOrderCook = useAssignOrderCook();
+  const assignOrderDelivery = useAssignOrderDelivery();
+
+  // Escalations from the cook assignment and delivery dispatch engines arrive as notifications
+  useNotifications(['admin-orders-assignment']);
 
-  // Fetch pending orders (not yet assigned) - include order_items for dish filtering
+  // Fetch orders for the tab; cooks are normally assigned automatically, so
+  // Unassigned also holds orders the engine escalated
   const { data: orders, isLoading: ordersLoading } = useQuery({
     queryKey: ['admin-orders-assignment', activeTab],
     queryFn: async () => {
@@ -64,14 +68,13 @@ const AdminWorkAssignment: React.FC = () => {
         .from('orders')
         .select(`
           id, order_number, service_type, status, total_amount, panchayat_id, ward_number,
-          assigned_cook_id, assigned_delivery_id, created_at,
-          panchayats(name),
-          order_items(food_item_id)
+          assigned_cook_id, assigned_delivery_id, cook_assignment_status, cook_escalated_at, delivery_escalated_at, created_at,
+          panchayats(name)
         `)
         .order('created_at', { ascending: false });
 
       if (activeTab === 'pending') {
-        query = query.is('assigned_cook_id', null).not('status', 'eq', 'cancelled');
+        query = query.or('assigned_cook_id.is.null,cook_escalated_at.not.is.null').not('status', 'eq', 'cancelled');
       } else if (activeTab === 'cook-assigned') {
         query = query.not('assigned_cook_id', 'is', null).is('assigned_delivery_id', null).not('status', 'eq', 'cancelled');
       } else {
@@ -84,45 +87,6 @@ const AdminWorkAssignment: React.FC = () => {
     },
   });
 
-  // Fetch available cooks with their allocated dishes
-  const { data: cooksWithDishes } = useQuery({
-    queryKey: ['available-cooks-with-dishes'],
-    queryFn: async () => {
-      // Get cooks
-      const { data: cooksData, error: cooksError } = await supabase
-        .from('cooks')
-        .select('id, kitchen_name, mobile_number, panchayat_id')
-        .eq('is_active', true)
-        .eq('is_available', true);
-      if (cooksError) throw cooksError;
-
-      // Get all dish allocations
-      const cookIds = cooksData?.map(c => c.id) || [];
-      if (cookIds.length === 0) return [];
-
-      const { data: allocations, error: allocError } = await supabase
-        .from('cook_dishes')
-        .select('cook_id, food_item_id')
-        .in('cook_id', cookIds);
-
-      if (allocError) throw allocError;
-
-      // Build dish map
-      const dishMap = new Map<string, Set<string>>();
-      allocations?.forEach(a => {
-        if (!dishMap.has(a.cook_id)) {
-          dishMap.set(a.cook_id, new Set());
-        }
-        dishMap.get(a.cook_id)!.add(a.food_item_id);
-      });
-
-      return cooksData?.map(cook => ({
-        ...cook,
-        allocated_dishes: dishMap.get(cook.id) || new Set(),
-      })) as CookWithDishes[];
-    },
-  });
-
   // Fetch available delivery staff
   const { data: deliveryStaff } = useQuery({
     queryKey: ['available-delivery'],
@@ -138,72 +102,26 @@ const AdminWorkAssignment: React.FC = () => {
     },
   });
 
-  // Get qualified cooks for a specific order
-  const getQualifiedCooks = (order: OrderWithItems) => {
-    if (!cooksWithDishes) return [];
-
-    const requiredDishIds = order.order_items?.map(item => item.food_item_id) || [];
-    
-    // If no items in order, show all available cooks
-    if (requiredDishIds.length === 0) {
-      return cooksWithDishes;
-    }
-
-    // Filter cooks who have ALL required dishes allocated
-    return cooksWithDishes.filter(cook => {
-      return requiredDishIds.every(dishId => cook.allocated_dishes.has(dishId));
-    });
-  };
-
   const assignCook = async (orderId: string, cookId: string) => {
     setAssigningOrderId(orderId);
     try {
-      const { error } = await supabase
-        .from('orders')
-        .update({
-          assigned_cook_id: cookId,
-          cook_assigned_at: new Date().toISOString(),
-          cook_assignment_status: 'pending',
-        })
-        .eq('id', orderId);
-
-      if (error) throw error;
-
-      // Also create an entry in order_assigned_cooks
-      await supabase
-        .from('order_assigned_cooks')
-        .insert({
-          order_id: orderId,
-          cook_id: cookId,
-          cook_status: 'pending',
-        });
-
+      await assignOrderCook.mutateAsync({ orderId, cookId });
       toast({ title: 'Cook Assigned', description: 'Order assigned to cook successfully' });
-      queryClient.invalidateQueries({ queryKey: ['admin-orders-assignment'] });
-    } catch (error: any) {
-      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    } catch (error) {
+      toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
     } finally {
       setAssigningOrderId(null);
     }
   };
 
-  const assignDelivery = async (orderId: string, deliveryId: string) => {
+  // Overrides dispatch: open offers are withdrawn and the choice is logged
+  const assignDelivery = async (orderId: string, deliveryStaffId: string) => {
     setAssigningOrderId(orderId);
     try {
-      const { error } = await supabase
-        .from('orders')
-        .update({
-          assigned_delivery_id: deliveryId,
-          delivery_status: 'assigned',
-        })
-        .eq('id', orderId);
-
-      if (error) throw error;
-
+      await assignOrderDelivery.mutateAsync({ orderId, deliveryStaffId });
       toast({ title: 'Delivery Assigned', description: 'Delivery staff assigned successfully' });
-      queryClient.invalidateQueries({ queryKey: ['admin-orders-assignment'] });
-    } catch (error: any) {
-      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    } catch (error) {
+      toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
     } finally {
       setAssigningOrderId(null);
     }
@@ -285,11 +203,10 @@ const AdminWorkAssignment: React.FC = () => {
                       </TableHeader>
                       <TableBody>
                         {orders.map((order) => {
-                          const qualifiedCooks = getQualifiedCooks(order);
-                          const hasNoCooks = qualifiedCooks.length === 0 && (order.order_items?.length || 0) > 0;
+                          const isEscalated = !!order.cook_escalated_at;
 
                           return (
-                            <TableRow key={order.id} className={hasNoCooks ? 'bg-orange-50' : ''}>
+                            <TableRow key={order.id} className={isEscalated ? 'bg-orange-50' : ''}>
                               <TableCell className="font-medium">
                                 {order.order_number}
                                 <div className="text-xs text-muted-foreground">
@@ -306,38 +223,29 @@ const AdminWorkAssignment: React.FC = () => {
                               </TableCell>
                               <TableCell>{getStatusBadge(order.status)}</TableCell>
                               <TableCell>
-                                {order.assigned_cook_id ? (
-                                  <Badge variant="default" className="gap-1">
-                                    <ChefHat className="h-3 w-3" />
-                                    Assigned
-                                  </Badge>
+                                {order.assigned_cook_id && !isEscalated ? (
+                                  <div className="space-y-1">
+                                    <Badge variant="default" className="gap-1">
+                                      <ChefHat className="h-3 w-3" />
+                                      Assigned
+                                    </Badge>
+                                    {order.cook_assignment_status === 'pending' && (
+                                      <div className="text-xs text-muted-foreground">Awaiting cook</div>
+                                    )}
+                                  </div>
                                 ) : (
                                   <div className="space-y-1">
-                                    {hasNoCooks && (
+                                    {isEscalated && (
                                       <div className="flex items-center gap-1 text-xs text-orange-600">
                                         <AlertTriangle className="h-3 w-3" />
-                                        No qualified cooks
+                                        No cook left since {format(new Date(order.cook_escalated_at!), 'HH:mm')}
                                       </div>
                                     )}
-                                    <Select
-                                      onValueChange={(cookId) => assignCook(order.id, cookId)}
+                                    <CookAssignmentSelect
+                                      orderId={order.id}
                                       disabled={assigningOrderId === order.id}
-                                    >
-                                      <SelectTrigger className="w-40">
-                                        <SelectValue placeholder={hasNoCooks ? "No cooks" : "Select cook"} />
-                                      </SelectTrigger>
-                                      <SelectContent className="bg-popover">
-                                        {qualifiedCooks.length === 0 ? (
-                                          <div className="p-2 text-sm text-muted-foreground">No cooks available</div>
-                                        ) : (
-                                          qualifiedCooks.map((cook) => (
-                                            <SelectItem key={cook.id} value={cook.id}>
-                                              {cook.kitchen_name}
-                                            </SelectItem>
-                                          ))
-                                        )}
-                                      </SelectContent>
-                                    </Select>
+                                      onAssign={(cookId) => assignCook(order.id, cookId)}
+                                    />
                                   </div>
                                 )}
                               </TableCell>
@@ -348,22 +256,40 @@ const AdminWorkAssignment: React.FC = () => {
                                     Assigned
                                   </Badge>
                                 ) : (
-                                  <Select
-                                    onValueChange={(deliveryId) => assignDelivery(order.id, deliveryId)}
-                                    disabled={assigningOrderId === order.id || !order.assigned_cook_id}
-                                  >
-                                    <SelectTrigger className="w-40">
-                                      <SelectValue placeholder={order.assigned_cook_id ? "Select delivery" : "Assign cook first"} />
-                                    </SelectTrigger>
-                                    <SelectContent className="bg-popover">
-                                      {deliveryStaff?.map((staff) => (
-                                        <SelectItem key={staff.id} value={staff.id}>
-                                          {staff.name}
-                                        </SelectItem>
-                                      ))}
-                                    </SelectContent>
-                                  </Select>
+                                  <div className="space-y-1">
+                                    {order.delivery_escalated_at && (
+                                      <div className="flex items-center gap-1 text-xs text-orange-600">
+                                        <AlertTriangle className="h-3 w-3" />
+                                        No partner left since {format(new Date(order.delivery_escalated_at), 'HH:mm')}
+                                      </div>
+                                    )}
+                                    <Select
+                                      onValueChange={(deliveryId) => assignDelivery(order.id, deliveryId)}
+                                      disabled={assigningOrderId === order.id || !order.assigned_cook_id}
+                                    >
+                                      <SelectTrigger className="w-40">
+                                        <SelectValue placeholder={order.assigned_cook_id ? "Select delivery" : "Assign cook first"} />
+                                      </SelectTrigger>
+                                      <SelectContent className="bg-popover">
+                                        {deliveryStaff?.map((staff) => (
+                                          <SelectItem key={staff.id} value={staff.id}>
+                                            {staff.name}
+                                          </SelectItem>
+                                        ))}
+                                      </SelectContent>
+                                    </Select>
+                                  </div>
                                 )}
+                                <DispatchLogDialog
+                                  orderId={order.id}
+                                  orderNumber={order.order_number}
+                                  trigger={
+                                    <Button variant="link" size="sm" className="h-auto gap-1 p-0 text-xs">
+                                      <Route className="h-3 w-3" />
+                                      Dispatch log
+                                    </Button>
+                                  }
+                                />
                               </TableCell>
                             </TableRow>
                           );
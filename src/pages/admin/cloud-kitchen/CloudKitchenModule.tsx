@@ -9,6 +9,7 @@ import DivisionCard from '@/components/admin/cloud-kitchen/DivisionCard';
 import CreateDivisionDialog from '@/components/admin/cloud-kitchen/CreateDivisionDialog';
 import EditTimeSlotDialog from '@/components/admin/cloud-kitchen/EditTimeSlotDialog';
 import DivisionItemsManager from '@/components/admin/cloud-kitchen/DivisionItemsManager';
+import MealSubscriptionsOverview from '@/components/admin/cloud-kitchen/MealSubscriptionsOverview';
 
 const CloudKitchenModule: React.FC = () => {
   const navigate = useNavigate();
@@ -139,6 +140,10 @@ const CloudKitchenModule: React.FC = () => {
             ))}
           </div>
         )}
+
+        <div className="mt-6">
+          <MealSubscriptionsOverview />
+        </div>
       </main>
 
       {/* Dialogs */}
@@ -27,6 +27,7 @@ import {
 } from '@/components/ui/dialog';
 import { Wallet, IndianRupee, CheckCircle, Clock, ChefHat, Loader2 } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
+import { usePermission } from '@/hooks/usePermission';
 
 interface CookWithSettlements {
   id: string;
@@ -50,6 +51,7 @@ interface Settlement {
 
 const IndoorEventsAccounts: React.FC = () => {
   const { user } = useAuth();
+  const { canEdit: canPayOut } = usePermission('settlements');
   const queryClient = useQueryClient();
   const [selectedCook, setSelectedCook] = useState<CookWithSettlements | null>(null);
   const [payoutDialogOpen, setPayoutDialogOpen] = useState(false);
@@ -251,7 +253,7 @@ const IndoorEventsAccounts: React.FC = () => {
                       ₹{cook.total_earned.toLocaleString()}
                     </TableCell>
                     <TableCell className="text-right">
-                      {cook.pending_amount > 0 && (
+                      {cook.pending_amount > 0 && canPayOut && (
                         <Button
                           size="sm"
                           onClick={() => {
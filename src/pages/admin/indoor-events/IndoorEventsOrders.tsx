@@ -232,19 +232,26 @@ const IndoorEventsOrders: React.FC = () => {
   });
 
   const handleUpdateStatus = async (orderId: string, newStatus: OrderStatus) => {
-    const { error } = await supabase
-      .from('orders')
-      .update({ status: newStatus })
-      .eq('id', orderId);
+    const { error } = await supabase.rpc('update_order_status', {
+      p_order_id: orderId,
+      p_status: newStatus,
+    });
 
-    if (!error) {
-      refetch();
-      setSelectedOrder(null);
+    if (error) {
       toast({
-        title: 'Status Updated',
-        description: `Order status changed to ${newStatus.replace('_', ' ')}`,
+        title: 'Error',
+        description: error.message || 'Failed to update status',
+        variant: 'destructive',
       });
+      return;
     }
+
+    refetch();
+    setSelectedOrder(null);
+    toast({
+      title: 'Status Updated',
+      description: `Order status changed to ${newStatus.replace('_', ' ')}`,
+    });
   };
 
   // Mark order as delivered and create settlements for cooks
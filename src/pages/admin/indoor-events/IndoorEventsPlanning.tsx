@@ -245,10 +245,10 @@ const IndoorEventsPlanning: React.FC = () => {
 
   const updateStatusMutation = useMutation({
     mutationFn: async ({ orderId, status }: { orderId: string; status: OrderStatus }) => {
-      const { error } = await supabase
-        .from('orders')
-        .update({ status })
-        .eq('id', orderId);
+      const { error } = await supabase.rpc('update_order_status', {
+        p_order_id: orderId,
+        p_status: status,
+      });
 
       if (error) throw error;
     },
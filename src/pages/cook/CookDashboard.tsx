@@ -2,6 +2,7 @@ import React, { useEffect, useState, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useCookProfile, useCookOrders, useUpdateCookStatus, useUpdateCookAvailability, useCookEarnings, useCookOrderHistory, useCookSettlements } from '@/hooks/useCook';
 import { useCookNotifications } from '@/hooks/useCookNotifications';
+import { useNotifications } from '@/hooks/useNotifications';
 import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -38,11 +39,14 @@ import {
 } from 'lucide-react';
 import { format } from 'date-fns';
 import type { CookStatus } from '@/types/cook';
+import { describeModifiers } from '@/lib/modifiers';
+import { formatDeliveryDate, formatDeliveryWindow } from '@/lib/scheduling';
 import DishRequestForm from '@/components/cook/DishRequestForm';
 import CookAllocatedDishes from '@/components/cook/CookAllocatedDishes';
 import ComboRequestForm from '@/components/cook/ComboRequestForm';
 import NewCookOrderAlert from '@/components/cook/NewCookOrderAlert';
 import NotificationPermissionBanner from '@/components/NotificationPermissionBanner';
+import UnreadNotifications from '@/components/UnreadNotifications';
 
 const statusConfig: Record<CookStatus, { label: string; color: string; icon: React.ReactNode }> = {
   pending: { label: 'New Order', color: 'bg-yellow-100 text-yellow-800', icon: <Clock className="h-4 w-4" /> },
@@ -64,6 +68,7 @@ const CookDashboard: React.FC = () => {
   const updateStatus = useUpdateCookStatus();
   const updateAvailability = useUpdateCookAvailability();
   const { pendingOrders: notificationOrders, showAlert, dismissAlert, removeOrder, ORDER_ACCEPT_CUTOFF_SECONDS } = useCookNotifications();
+  const { notifications, markAllRead } = useNotifications(['cook-orders']);
   const [activeTab, setActiveTab] = useState('active');
 
   // Calculate dish summary from order history
@@ -88,13 +93,13 @@ const CookDashboard: React.FC = () => {
   // Redirect if not logged in
   useEffect(() => {
     if (!authLoading && !user) {
-      navigate('/auth');
+      navigate('/cook/login');
     }
   }, [user, authLoading, navigate]);
 
   const handleLogout = async () => {
     await signOut();
-    navigate('/auth');
+    navigate('/cook/login');
   };
 
   const handleStatusUpdate = async (orderId: string, newStatus: CookStatus) => {
@@ -200,6 +205,8 @@ const CookDashboard: React.FC = () => {
         {/* Notification Permission Banner */}
         <NotificationPermissionBanner />
 
+        <UnreadNotifications notifications={notifications} onDismiss={markAllRead} />
+
         {/* Availability Toggle */}
         <Card>
           <CardContent className="flex items-center justify-between p-4">
@@ -334,6 +341,16 @@ const CookDashboard: React.FC = () => {
                             <span>{order.guest_count} guests</span>
                           </div>
                         )}
+                        {order.scheduled_for && (
+                          <div className="col-span-2 flex items-center gap-1 font-medium text-primary">
+                            <Calendar className="h-3 w-3" />
+                            <span>
+                              For {formatDeliveryDate(order.scheduled_for)}
+                              {order.delivery_window_start && order.delivery_window_end &&
+                                `, ${formatDeliveryWindow(order.delivery_window_start, order.delivery_window_end)}`}
+                            </span>
+                          </div>
+                        )}
                       </div>
 
                       {/* Order Items - Dishes assigned to this cook */}
@@ -346,7 +363,12 @@ const CookDashboard: React.FC = () => {
                           <div className="space-y-1.5">
                             {order.order_items.map((item) => (
                               <div key={item.id} className="flex items-center justify-between text-sm">
-                                <span className="font-medium">{item.food_item?.name || 'Unknown Dish'}</span>
+                                <div>
+                                  <span className="font-medium">{item.food_item?.name || 'Unknown Dish'}</span>
+                                  {item.modifiers && item.modifiers.length > 0 && (
+                                    <p className="text-xs font-medium text-amber-700 dark:text-amber-400">{describeModifiers(item.modifiers)}</p>
+                                  )}
+                                </div>
                                 <span className="text-muted-foreground">
                                   Qty: {item.quantity} × ₹{item.food_item?.price || item.unit_price}
                                 </span>
@@ -524,7 +546,12 @@ const CookDashboard: React.FC = () => {
                         <div className="space-y-1">
                           {assignment.order_items.map((item) => (
                             <div key={item.id} className="flex items-center justify-between text-sm">
-                              <span>{item.food_item?.name || 'Unknown'}</span>
+                              <span>
+                                {item.food_item?.name || 'Unknown'}
+                                {item.modifiers && item.modifiers.length > 0 && (
+                                  <span className="text-xs text-muted-foreground"> ({describeModifiers(item.modifiers)})</span>
+                                )}
+                              </span>
                               <span className="text-muted-foreground">Qty: {item.quantity} × ₹{item.food_item?.price || item.unit_price}</span>
                             </div>
                           ))}
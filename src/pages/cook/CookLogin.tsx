@@ -4,6 +4,7 @@ import { z } from 'zod';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -12,30 +13,6 @@ import { Loader2, ChefHat, Store, Lock } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
 import logo from '@/assets/logo.png';
 
-// Cook session storage key
-const COOK_SESSION_KEY = 'penny_carbs_cook_session';
-
-export interface CookSession {
-  cookId: string;
-  kitchenName: string;
-  mobileNumber: string;
-  panchayatId: string | null;
-}
-
-// Helper to get/set cook session
-export const getCookSession = (): CookSession | null => {
-  const stored = localStorage.getItem(COOK_SESSION_KEY);
-  return stored ? JSON.parse(stored) : null;
-};
-
-export const setCookSession = (session: CookSession) => {
-  localStorage.setItem(COOK_SESSION_KEY, JSON.stringify(session));
-};
-
-export const clearCookSession = () => {
-  localStorage.removeItem(COOK_SESSION_KEY);
-};
-
 const loginSchema = z.object({
   mobileNumber: z.string()
     .min(10, 'Mobile number must be 10 digits')
@@ -48,6 +25,7 @@ type LoginFormData = z.infer<typeof loginSchema>;
 
 const CookLogin: React.FC = () => {
   const navigate = useNavigate();
+  const { user, signIn, signOut, isLoading: authLoading } = useAuth();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
 
@@ -59,63 +37,59 @@ const CookLogin: React.FC = () => {
     },
   });
 
+  // Active cook record of a signed-in user
+  const findCook = async (userId: string) => {
+    const { data } = await supabase
+      .from('cooks')
+      .select('id, kitchen_name')
+      .eq('user_id', userId)
+      .eq('is_active', true)
+      .maybeSingle();
+    return data;
+  };
+
   // Check if already logged in as cook
   useEffect(() => {
-    const session = getCookSession();
-    if (session) {
-      navigate('/cook/dashboard');
-    } else {
+    if (authLoading) return;
+    if (!user) {
       setIsLoading(false);
+      return;
     }
-  }, [navigate]);
+    findCook(user.id).then((cook) => {
+      if (cook) navigate('/cook/dashboard');
+      else setIsLoading(false);
+    });
+  }, [user, authLoading, navigate]);
 
   const handleLogin = async (data: LoginFormData) => {
     setIsSubmitting(true);
     try {
-      // Find cook by mobile number and verify password
-      const { data: cook, error: cookError } = await supabase
-        .from('cooks')
-        .select('id, kitchen_name, mobile_number, panchayat_id, password_hash, is_active')
-        .eq('mobile_number', data.mobileNumber)
-        .maybeSingle();
-
-      if (cookError || !cook) {
-        toast({
-          title: "Login failed",
-          description: "Mobile number not found",
-          variant: "destructive",
-        });
-        return;
-      }
+      const { error } = await signIn(data.mobileNumber, data.password);
 
-      if (!cook.is_active) {
+      if (error) {
         toast({
           title: "Login failed",
-          description: "Your account is inactive. Contact admin.",
+          description: error.message.includes('Invalid login')
+            ? "Invalid mobile number or password"
+            : error.message,
           variant: "destructive",
         });
         return;
       }
 
-      // Simple password verification (plain text for now)
-      if (cook.password_hash !== data.password) {
+      const { data: { user: signedIn } } = await supabase.auth.getUser();
+      const cook = signedIn ? await findCook(signedIn.id) : null;
+
+      if (!cook) {
+        await signOut();
         toast({
           title: "Login failed",
-          description: "Invalid password",
+          description: "This account is not an active kitchen. Contact admin.",
           variant: "destructive",
         });
         return;
       }
 
-      // Create session
-      const session: CookSession = {
-        cookId: cook.id,
-        kitchenName: cook.kitchen_name,
-        mobileNumber: cook.mobile_number,
-        panchayatId: cook.panchayat_id,
-      };
-      setCookSession(session);
-
       toast({
         title: "Welcome!",
         description: `Logged in as ${cook.kitchen_name}`,
@@ -213,7 +187,7 @@ const CookLogin: React.FC = () => {
       </Card>
 
       <p className="mt-4 text-xs text-muted-foreground text-center">
-        Contact admin if you don't have login credentials
+        Forgot your password or don't have one? Ask the admin to send your login by SMS.
       </p>
     </div>
   );
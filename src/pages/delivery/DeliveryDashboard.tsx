@@ -9,9 +9,12 @@ import {
   useAvailableDeliveryOrders,
   useUpdateDeliveryStatus,
   useAcceptDelivery,
+  useDeclineDelivery,
   useUpdateDeliveryAvailability
 } from '@/hooks/useDeliveryStaff';
 import { useDeliveryNotifications } from '@/hooks/useDeliveryNotifications';
+import { useNotifications } from '@/hooks/useNotifications';
+import { useLocationReporting } from '@/hooks/useDeliveryTracking';
 import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -24,7 +27,10 @@ import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover
 import { toast } from '@/hooks/use-toast';
 import NewOrderAlert from '@/components/delivery/NewOrderAlert';
 import OrderTakenToast from '@/components/delivery/OrderTakenToast';
+import HandoverDialog from '@/components/delivery/HandoverDialog';
+import CashHandoverCard from '@/components/delivery/CashHandoverCard';
 import NotificationPermissionBanner from '@/components/NotificationPermissionBanner';
+import UnreadNotifications from '@/components/UnreadNotifications';
 import { format } from 'date-fns';
 import { 
   Truck, 
@@ -41,7 +47,9 @@ import {
   CalendarIcon,
   History
 } from 'lucide-react';
-import type { DeliveryStatus } from '@/types/delivery';
+import type { DeliveryOrder, DeliveryStatus } from '@/types/delivery';
+import { formatDeliveryWindow } from '@/lib/scheduling';
+import { cashToCollect } from '@/lib/cashReconciliation';
 
 const statusConfig: Record<DeliveryStatus, { label: string; color: string }> = {
   pending: { label: 'Pending', color: 'bg-yellow-100 text-yellow-800' },
@@ -56,6 +64,7 @@ const DeliveryDashboard: React.FC = () => {
   const { signOut } = useAuth();
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [dateRange, setDateRange] = useState<{ from?: Date; to?: Date }>({});
+  const [handoverOrder, setHandoverOrder] = useState<DeliveryOrder | null>(null);
   
   const { data: profile, isLoading: profileLoading } = useDeliveryProfile();
   const { data: wallet } = useDeliveryWallet();
@@ -64,6 +73,7 @@ const DeliveryDashboard: React.FC = () => {
   const { data: availableOrders } = useAvailableDeliveryOrders();
   const updateStatus = useUpdateDeliveryStatus();
   const acceptDelivery = useAcceptDelivery();
+  const declineDelivery = useDeclineDelivery();
   const updateAvailability = useUpdateDeliveryAvailability();
   
   // Real-time notifications with auto-refresh
@@ -77,25 +87,22 @@ const DeliveryDashboard: React.FC = () => {
     ORDER_ACCEPT_CUTOFF_SECONDS,
     refreshOrders
   } = useDeliveryNotifications();
+  const { notifications, markAllRead } = useNotifications(['delivery-orders']);
 
   const handleLogout = async () => {
     await signOut();
     navigate('/');
   };
 
-  const handleStatusUpdate = async (orderId: string, newStatus: DeliveryStatus, orderAmount?: number, deliveryCharge?: number) => {
+  const handleStatusUpdate = async (orderId: string, newStatus: DeliveryStatus) => {
     try {
       await updateStatus.mutateAsync({ 
         orderId, 
         status: newStatus,
-        orderAmount,
-        deliveryCharge 
       });
       toast({
         title: "Status Updated",
-        description: newStatus === 'delivered' 
-          ? `Delivery completed! ₹${orderAmount || 0} added to Wallet, ₹${deliveryCharge || 0} to Earnings`
-          : `Delivery status changed to ${statusConfig[newStatus].label}`,
+        description: `Delivery status changed to ${statusConfig[newStatus].label}`,
       });
     } catch (error) {
       toast({
@@ -106,6 +113,35 @@ const DeliveryDashboard: React.FC = () => {
     }
   };
 
+  // Marks the order delivered once the customer's handover code checks out
+  const handleHandover = async (handoverCode: string, photoPath: string | null) => {
+    if (!handoverOrder) return;
+
+    const orderAmount = cashToCollect(handoverOrder);
+    const deliveryCharge = handoverOrder.delivery_amount || 0;
+    try {
+      await updateStatus.mutateAsync({
+        orderId: handoverOrder.id,
+        status: 'delivered',
+        orderAmount,
+        deliveryCharge,
+        handoverCode,
+        photoPath,
+      });
+      setHandoverOrder(null);
+      toast({
+        title: "Status Updated",
+        description: `Delivery completed! ₹${orderAmount || 0} added to Wallet, ₹${deliveryCharge} to Earnings`,
+      });
+    } catch (error) {
+      toast({
+        title: "Could not complete delivery",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleAcceptOrder = async (orderId: string) => {
     try {
       await acceptDelivery.mutateAsync(orderId);
@@ -117,7 +153,24 @@ const DeliveryDashboard: React.FC = () => {
     } catch (error) {
       toast({
         title: "Error",
-        description: "Failed to accept order. It may have been taken by another driver.",
+        description: "Failed to accept order. The offer may have expired.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDeclineOrder = async (orderId: string) => {
+    try {
+      await declineDelivery.mutateAsync(orderId);
+      removeOrder(orderId);
+      toast({
+        title: "Order Passed",
+        description: "The order has been offered to the next driver",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to pass on order. The offer may have expired.",
         variant: "destructive",
       });
     }
@@ -158,6 +211,9 @@ const DeliveryDashboard: React.FC = () => {
   const deliveredOrders = (orderHistory || []).filter(o => o.delivery_status === 'delivered');
   const pickedUpOrders = (orderHistory || []).filter(o => o.delivery_status === 'picked_up');
 
+  // Share the live location while deliveries are in hand; it keeps customers' ETAs current
+  const { error: locationError } = useLocationReporting(!!profile?.is_approved && activeOrders.length > 0);
+
   if (profileLoading) {
     return (
       <div className="min-h-screen bg-background p-4">
@@ -204,11 +260,24 @@ const DeliveryDashboard: React.FC = () => {
         open={showAlert}
         orders={pendingOrders}
         onAccept={handleAcceptOrder}
+        onDecline={handleDeclineOrder}
         onDismiss={dismissAlert}
-        isAccepting={acceptDelivery.isPending}
+        isAccepting={acceptDelivery.isPending || declineDelivery.isPending}
         cutoffSeconds={ORDER_ACCEPT_CUTOFF_SECONDS}
       />
 
+      {/* Handover code and doorstep photo */}
+      {handoverOrder && (
+        <HandoverDialog
+          open={!!handoverOrder}
+          onOpenChange={(open) => !open && setHandoverOrder(null)}
+          orderId={handoverOrder.id}
+          orderNumber={handoverOrder.order_number}
+          isSubmitting={updateStatus.isPending}
+          onConfirm={handleHandover}
+        />
+      )}
+
       {/* Order Taken Toast Notifications */}
       <OrderTakenToast
         ordersTaken={ordersTaken}
@@ -243,6 +312,17 @@ const DeliveryDashboard: React.FC = () => {
         {/* Notification Permission Banner */}
         <NotificationPermissionBanner />
 
+        <UnreadNotifications notifications={notifications} onDismiss={markAllRead} />
+
+        {locationError && (
+          <Card className="border-yellow-300 bg-yellow-50">
+            <CardContent className="flex items-start gap-2 p-3 text-sm text-yellow-800">
+              <Navigation className="h-4 w-4 mt-0.5 shrink-0" />
+              <p>Allow location access so customers see a live ETA while you deliver. ({locationError})</p>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Availability Toggle */}
         <Card>
           <CardContent className="flex items-center justify-between p-4">
@@ -291,6 +371,8 @@ const DeliveryDashboard: React.FC = () => {
           </CardContent>
         </Card>
 
+        <CashHandoverCard deliveryStaffId={profile.id} />
+
         {/* Stats */}
         <div className="grid grid-cols-2 gap-3">
           <Card className="p-4 text-center">
@@ -344,6 +426,13 @@ const DeliveryDashboard: React.FC = () => {
                         </div>
                       )}
 
+                      {order.delivery_window_start && order.delivery_window_end && (
+                        <div className="flex items-center gap-1 text-sm font-medium text-primary">
+                          <Clock className="h-3 w-3 shrink-0" />
+                          <span>Deliver {formatDeliveryWindow(order.delivery_window_start, order.delivery_window_end)}</span>
+                        </div>
+                      )}
+
                       {/* Address */}
                       {order.delivery_address && (
                         <div className="flex items-start gap-1 text-sm text-muted-foreground">
@@ -373,12 +462,7 @@ const DeliveryDashboard: React.FC = () => {
                           {order.delivery_status === 'picked_up' && (
                             <Button
                               size="sm"
-                              onClick={() => handleStatusUpdate(
-                                order.id, 
-                                'delivered',
-                                order.total_amount,
-                                order.delivery_amount || 0
-                              )}
+                              onClick={() => setHandoverOrder(order)}
                             >
                               <CheckCircle2 className="h-4 w-4 mr-1" />
                               Delivered
@@ -399,13 +483,7 @@ const DeliveryDashboard: React.FC = () => {
           </TabsContent>
 
           <TabsContent value="available" className="space-y-3">
-            {profile.staff_type === 'fixed_salary' ? (
-              <Card className="p-6 text-center">
-                <p className="text-muted-foreground">
-                  Fixed salary staff receive orders automatically
-                </p>
-              </Card>
-            ) : availableOrders && availableOrders.length > 0 ? (
+            {availableOrders && availableOrders.length > 0 ? (
               availableOrders.map((order) => (
                 <Card key={order.id}>
                   <CardContent className="p-4 space-y-3">
@@ -416,6 +494,13 @@ const DeliveryDashboard: React.FC = () => {
                       </Badge>
                     </div>
 
+                    {order.delivery_window_start && order.delivery_window_end && (
+                      <div className="flex items-center gap-1 text-sm font-medium text-primary">
+                        <Clock className="h-3 w-3 shrink-0" />
+                        <span>Deliver {formatDeliveryWindow(order.delivery_window_start, order.delivery_window_end)}</span>
+                      </div>
+                    )}
+
                     {order.delivery_address && (
                       <div className="flex items-start gap-1 text-sm text-muted-foreground">
                         <MapPin className="h-3 w-3 mt-0.5 shrink-0" />
@@ -431,9 +516,19 @@ const DeliveryDashboard: React.FC = () => {
                           <p className="text-xs text-green-600">Delivery: ₹{order.delivery_amount}</p>
                         )}
                       </div>
-                      <Button size="sm" onClick={() => handleAcceptOrder(order.id)}>
-                        Accept Order
-                      </Button>
+                      <div className="flex gap-2">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleDeclineOrder(order.id)}
+                          disabled={declineDelivery.isPending}
+                        >
+                          Pass
+                        </Button>
+                        <Button size="sm" onClick={() => handleAcceptOrder(order.id)}>
+                          Accept Order
+                        </Button>
+                      </div>
                     </div>
                   </CardContent>
                 </Card>
@@ -441,7 +536,7 @@ const DeliveryDashboard: React.FC = () => {
             ) : (
               <Card className="p-6 text-center">
                 <Package className="h-12 w-12 mx-auto mb-2 text-muted-foreground" />
-                <p className="text-muted-foreground">No orders available in your area</p>
+                <p className="text-muted-foreground">No orders offered to you right now</p>
               </Card>
             )}
           </TabsContent>
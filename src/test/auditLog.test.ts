@@ -0,0 +1,60 @@
+import { describe, it, expect } from "vitest";
+import { auditChanges, auditRecordLabel, formatAuditValue, type AuditEntry } from "@/lib/auditLog";
+
+const entry = (overrides: Partial<AuditEntry>): AuditEntry => ({
+  id: "log-1",
+  actor_id: "admin-1",
+  actor_role: "admin",
+  table_name: "food_items",
+  record_id: "item-1",
+  action: "UPDATE",
+  old_data: null,
+  new_data: null,
+  changed_fields: null,
+  created_at: "2026-04-22T10:00:00Z",
+  ...overrides,
+});
+
+describe("auditChanges", () => {
+  it("lists only the changed fields of an update with before and after", () => {
+    const changes = auditChanges(
+      entry({
+        old_data: { id: "item-1", name: "Biryani", price: 120 },
+        new_data: { id: "item-1", name: "Biryani", price: 140 },
+        changed_fields: ["price"],
+      })
+    );
+    expect(changes).toEqual([{ field: "price", before: 120, after: 140 }]);
+  });
+
+  it("shows the filled fields of a created row without bookkeeping columns", () => {
+    const changes = auditChanges(
+      entry({
+        action: "INSERT",
+        new_data: { id: "item-1", created_at: "x", updated_at: "x", price: 90, name: "Dosa", description: null },
+      })
+    );
+    expect(changes.map((c) => c.field)).toEqual(["name", "price"]);
+    expect(changes[0]).toEqual({ field: "name", before: null, after: "Dosa" });
+  });
+
+  it("keeps the old values of a deleted row", () => {
+    const changes = auditChanges(entry({ action: "DELETE", old_data: { id: "item-1", name: "Dosa" } }));
+    expect(changes).toEqual([{ field: "name", before: "Dosa", after: null }]);
+  });
+});
+
+describe("auditRecordLabel", () => {
+  it("prefers a name and falls back to a short id", () => {
+    expect(auditRecordLabel(entry({ new_data: { kitchen_name: "Amma's Kitchen" } }))).toBe("Amma's Kitchen");
+    expect(auditRecordLabel(entry({ record_id: "0123456789abcdef", new_data: { amount: 10 } }))).toBe("01234567");
+  });
+});
+
+describe("formatAuditValue", () => {
+  it("formats empty values and objects", () => {
+    expect(formatAuditValue(null)).toBe("—");
+    expect(formatAuditValue({ a: 1 })).toBe('{"a":1}');
+    expect(formatAuditValue(false)).toBe("false");
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect } from "vitest";
+import { estimateDeliveryMinutes, groupCartItems } from "@/lib/cartGroups";
+
+const cartItem = (id: string, serviceType: "cloud_kitchen" | "homemade", cookId: string | null, prep: number | null = null) => ({
+  food_item_id: id,
+  selected_cook_id: cookId,
+  food_item: { service_type: serviceType, preparation_time_minutes: prep },
+});
+
+describe("groupCartItems", () => {
+  it("splits the cart by service type and cook", () => {
+    const groups = groupCartItems([
+      cartItem("a", "homemade", "cook-1"),
+      cartItem("b", "cloud_kitchen", null),
+      cartItem("c", "homemade", "cook-2"),
+      cartItem("d", "homemade", "cook-1"),
+    ]);
+
+    expect(groups.map((g) => g.key)).toEqual(["homemade:cook-1", "cloud_kitchen:any", "homemade:cook-2"]);
+    expect(groups[0].items.map((i) => i.food_item_id)).toEqual(["a", "d"]);
+    expect(groups[1].cookId).toBeNull();
+  });
+
+  it("keeps a single-service cart as one group", () => {
+    const groups = groupCartItems([cartItem("a", "cloud_kitchen", null), cartItem("b", "cloud_kitchen", null)]);
+    expect(groups).toHaveLength(1);
+    expect(groups[0].serviceType).toBe("cloud_kitchen");
+  });
+});
+
+describe("estimateDeliveryMinutes", () => {
+  it("adds the ride to the slowest dish", () => {
+    expect(estimateDeliveryMinutes([cartItem("a", "homemade", null, 20), cartItem("b", "homemade", null, 45)])).toBe(75);
+  });
+
+  it("ignores dishes without a preparation time unless none have one", () => {
+    expect(estimateDeliveryMinutes([cartItem("a", "homemade", null, 20), cartItem("b", "homemade", null)])).toBe(50);
+    expect(estimateDeliveryMinutes([cartItem("a", "homemade", null)])).toBe(60);
+  });
+});
@@ -0,0 +1,32 @@
+import { describe, it, expect } from "vitest";
+import { cashDue, cashToCollect, describeCashVariance } from "@/lib/cashReconciliation";
+
+describe("cashToCollect", () => {
+  it("leaves out what the wallet and online payments covered", () => {
+    expect(cashToCollect({ total_amount: 500, wallet_amount: 100, online_paid_amount: 150 })).toBe(250);
+    expect(cashToCollect({ total_amount: 320 })).toBe(320);
+  });
+
+  it("never goes below zero for prepaid orders", () => {
+    expect(cashToCollect({ total_amount: 200, wallet_amount: 50, online_paid_amount: 200 })).toBe(0);
+  });
+});
+
+describe("cashDue", () => {
+  it("adds what earlier days left outstanding", () => {
+    expect(cashDue({ expected_amount: 1200, carried_forward: 80 })).toBe(1280);
+    expect(cashDue({ expected_amount: 1200, carried_forward: -30 })).toBe(1170);
+  });
+});
+
+describe("describeCashVariance", () => {
+  it("reports shortfalls and excess", () => {
+    expect(describeCashVariance(1000, 950)).toBe("₹50 short");
+    expect(describeCashVariance(1000, 1020)).toBe("₹20 over");
+  });
+
+  it("returns null when the amount matches or is missing", () => {
+    expect(describeCashVariance(1000, 1000)).toBeNull();
+    expect(describeCashVariance(1000, null)).toBeNull();
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect } from "vitest";
+import { cookRankReasons, responseSecondsLeft, type RankedCook } from "@/lib/cookAssignment";
+
+const cook: RankedCook = {
+  cook_id: "c1",
+  kitchen_name: "Amma's Kitchen",
+  covers_panchayat: true,
+  active_orders: 1,
+  rating: 4.25,
+  price: 240,
+  declined: false,
+};
+
+describe("cookRankReasons", () => {
+  it("lists coverage, load, rating and price in ranking order", () => {
+    expect(cookRankReasons(cook)).toEqual(["Covers area", "1 active order", "★ 4.3", "₹240"]);
+  });
+
+  it("handles cooks outside the area without a rating", () => {
+    expect(cookRankReasons({ ...cook, covers_panchayat: false, active_orders: 3, rating: null })).toEqual([
+      "Outside area",
+      "3 active orders",
+      "Not rated",
+      "₹240",
+    ]);
+  });
+});
+
+describe("responseSecondsLeft", () => {
+  const now = new Date("2026-04-23T10:00:00Z").getTime();
+
+  it("counts down to the deadline and stops at zero", () => {
+    expect(responseSecondsLeft("2026-04-23T10:01:30Z", 120, now)).toBe(90);
+    expect(responseSecondsLeft("2026-04-23T09:59:00Z", 120, now)).toBe(0);
+  });
+
+  it("falls back when the offer has no deadline", () => {
+    expect(responseSecondsLeft(null, 120, now)).toBe(120);
+  });
+});
@@ -0,0 +1,15 @@
+import { describe, it, expect } from "vitest";
+import { handoverFailureMessage } from "@/lib/deliveryProof";
+
+describe("handoverFailureMessage", () => {
+  it("counts the tries left", () => {
+    expect(handoverFailureMessage({ delivered: false, attempts_left: 3 })).toBe("Wrong code. 3 tries left.");
+    expect(handoverFailureMessage({ delivered: false, attempts_left: 1 })).toBe("Wrong code. 1 try left.");
+  });
+
+  it("points to support once the order is locked", () => {
+    expect(handoverFailureMessage({ delivered: false, attempts_left: 0 })).toBe(
+      "Wrong code. No tries left — contact support to complete this delivery."
+    );
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { LIVE_LOCATION_MAX_AGE_MS, getDeviceLocation, isLive, mapsTrailUrl } from "@/lib/deliveryTracking";
+
+describe("isLive", () => {
+  const now = new Date("2026-04-27T10:00:00Z").getTime();
+
+  it("accepts recent updates only", () => {
+    expect(isLive(new Date(now - 30_000), now)).toBe(true);
+    expect(isLive(new Date(now - LIVE_LOCATION_MAX_AGE_MS - 1), now)).toBe(false);
+  });
+
+  it("treats a missing update as not live", () => {
+    expect(isLive(null, now)).toBe(false);
+  });
+});
+
+describe("mapsTrailUrl", () => {
+  const point = (i: number) => ({ latitude: 10 + i / 100, longitude: 76 });
+
+  it("needs at least two points", () => {
+    expect(mapsTrailUrl([])).toBeNull();
+    expect(mapsTrailUrl([point(0)])).toBeNull();
+  });
+
+  it("runs from the oldest to the newest point", () => {
+    const url = new URL(mapsTrailUrl([point(0), point(1), point(2)])!);
+    expect(url.searchParams.get("origin")).toBe("10,76");
+    expect(url.searchParams.get("destination")).toBe("10.02,76");
+    expect(url.searchParams.get("waypoints")).toBe("10.01,76");
+  });
+
+  it("samples long trails down to nine waypoints", () => {
+    const points = Array.from({ length: 50 }, (_, i) => point(i));
+    const url = new URL(mapsTrailUrl(points)!);
+    expect(url.searchParams.get("waypoints")!.split("|")).toHaveLength(9);
+  });
+});
+
+describe("getDeviceLocation", () => {
+  const stubGeolocation = (getCurrentPosition: Geolocation["getCurrentPosition"]) =>
+    vi.stubGlobal("navigator", { geolocation: { getCurrentPosition } });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("resolves the device's coordinates", async () => {
+    stubGeolocation((success) =>
+      success({ coords: { latitude: 10.5, longitude: 76.2 } } as GeolocationPosition)
+    );
+    await expect(getDeviceLocation()).resolves.toEqual({ latitude: 10.5, longitude: 76.2 });
+  });
+
+  it("resolves null when location is refused", async () => {
+    stubGeolocation((_success, error) => error?.({ code: 1, message: "denied" } as GeolocationPositionError));
+    await expect(getDeviceLocation()).resolves.toBeNull();
+  });
+
+  it("resolves null without geolocation", async () => {
+    vi.stubGlobal("navigator", {});
+    await expect(getDeviceLocation()).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, it, expect } from "vitest";
+import { describeDispatchDetails } from "@/lib/dispatch";
+
+describe("describeDispatchDetails", () => {
+  it("lists ward, load, staff type and rating in ranking order", () => {
+    expect(
+      describeDispatchDetails({
+        rank: 1,
+        eligible: 3,
+        ward_match: true,
+        active_deliveries: 1,
+        staff_type: "fixed_salary",
+        rating: 4.66,
+      })
+    ).toEqual(["Ward match", "1 active delivery", "Fixed salary", "★ 4.7"]);
+  });
+
+  it("handles unrated partners outside the ward", () => {
+    expect(
+      describeDispatchDetails({
+        rank: 2,
+        ward_match: false,
+        active_deliveries: 0,
+        staff_type: "registered_partner",
+        rating: null,
+      })
+    ).toEqual(["Other ward", "0 active deliveries", "Partner", "Not rated"]);
+  });
+
+  it("returns nothing for entries without a ranking", () => {
+    expect(describeDispatchDetails({ eligible: 0 })).toEqual([]);
+    expect(describeDispatchDetails(null)).toEqual([]);
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect } from "vitest";
+import { fromWorldPixel, parseWardBoundaries, toWorldPixel } from "@/lib/geo";
+
+describe("toWorldPixel / fromWorldPixel", () => {
+  it("puts the origin at the centre of the map", () => {
+    expect(toWorldPixel({ latitude: 0, longitude: 0 }, 0)).toEqual({ x: 128, y: 128 });
+  });
+
+  it("round-trips a point", () => {
+    const point = { latitude: 10.5276, longitude: 76.2144 };
+    const back = fromWorldPixel(toWorldPixel(point, 17), 17);
+    expect(back.latitude).toBeCloseTo(point.latitude, 6);
+    expect(back.longitude).toBeCloseTo(point.longitude, 6);
+  });
+});
+
+describe("parseWardBoundaries", () => {
+  const square = { type: "Polygon", coordinates: [[[76, 10], [76.1, 10], [76.1, 10.1], [76, 10.1], [76, 10]]] };
+  const feature = (properties: Record<string, unknown>, geometry: object = square) => ({
+    type: "Feature",
+    properties,
+    geometry,
+  });
+
+  it("reads ward numbers from common property names", () => {
+    const result = parseWardBoundaries(
+      JSON.stringify({
+        type: "FeatureCollection",
+        features: [feature({ WARD_NO: "2" }), feature({ ward: "Ward 1" }), feature({ ward_number: 3 })],
+      }),
+      4
+    );
+    expect(result.errors).toEqual([]);
+    expect(result.boundaries.map(b => b.ward_number)).toEqual([1, 2, 3]);
+    expect(result.missingWards).toEqual([4]);
+  });
+
+  it("reports features it cannot use", () => {
+    const result = parseWardBoundaries(
+      JSON.stringify({
+        type: "FeatureCollection",
+        features: [
+          feature({ name: "Market" }),
+          feature({ ward: 9 }),
+          feature({ ward: 1 }, { type: "Point", coordinates: [76, 10] }),
+          feature({ ward: 2 }),
+          feature({ ward: 2 }),
+        ],
+      }),
+      3
+    );
+    expect(result.errors).toEqual([
+      "Feature 1 has no ward number",
+      "Ward 9 is not one of the 3 wards",
+      "Ward 1 is a Point, not a Polygon",
+      "Ward 2 appears more than once",
+    ]);
+    expect(result.boundaries.map(b => b.ward_number)).toEqual([2]);
+  });
+
+  it("rejects files that are not GeoJSON", () => {
+    expect(parseWardBoundaries("not json", 3).errors).toEqual(["The file is not valid GeoJSON"]);
+    expect(parseWardBoundaries("{}", 3).errors).toEqual(["The file has no features"]);
+  });
+});
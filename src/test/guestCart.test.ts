@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+import { planCartMerge, type GuestCartLine } from "@/lib/guestCart";
+
+const guest = (foodItemId: string, quantity: number, cookId: string | null = null): GuestCartLine => ({
+  id: `guest-${foodItemId}`,
+  food_item_id: foodItemId,
+  quantity,
+  selected_cook_id: cookId,
+  modifier_option_ids: [],
+  created_at: "2026-01-01T00:00:00Z",
+  updated_at: "2026-01-01T00:00:00Z",
+});
+
+describe("planCartMerge", () => {
+  it("inserts guest items the customer does not have yet", () => {
+    const plan = planCartMerge([], [guest("a", 2, "cook-1")]);
+    expect(plan.inserts).toEqual([
+      { food_item_id: "a", quantity: 2, selected_cook_id: "cook-1", modifier_option_ids: [] },
+    ]);
+    expect(plan.updates).toEqual([]);
+  });
+
+  it("keeps the larger quantity for items in both carts", () => {
+    const server = [
+      { id: "s1", food_item_id: "a", quantity: 3, selected_cook_id: null, modifier_option_ids: [] },
+      { id: "s2", food_item_id: "b", quantity: 1, selected_cook_id: null, modifier_option_ids: [] },
+    ];
+    const plan = planCartMerge(server, [guest("a", 2), guest("b", 4)]);
+    expect(plan.updates).toEqual([{ id: "s2", quantity: 4, selected_cook_id: null }]);
+    expect(plan.inserts).toEqual([]);
+  });
+
+  it("keeps the same dish with other modifiers as a separate line", () => {
+    const server = [{ id: "s1", food_item_id: "a", quantity: 1, selected_cook_id: null, modifier_option_ids: ["hot"] }];
+    const plan = planCartMerge(server, [{ ...guest("a", 1), modifier_option_ids: ["mild"] }]);
+    expect(plan.inserts).toHaveLength(1);
+    expect(plan.updates).toEqual([]);
+  });
+
+  it("prefers the cook picked while browsing", () => {
+    const server = [{ id: "s1", food_item_id: "a", quantity: 2, selected_cook_id: "cook-1", modifier_option_ids: [] }];
+    expect(planCartMerge(server, [guest("a", 1, "cook-2")]).updates).toEqual([
+      { id: "s1", quantity: 2, selected_cook_id: "cook-2" },
+    ]);
+    expect(planCartMerge(server, [guest("a", 1)]).updates).toEqual([]);
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect } from "vitest";
+import {
+  defaultModifierSelection,
+  modifierKey,
+  priceModifiers,
+  readSelectedModifiers,
+  sumModifierPrices,
+  validateModifierSelection,
+  type ModifierGroup,
+} from "@/lib/modifiers";
+
+const option = (id: string, groupId: string, price = 0, extra = {}) => ({
+  id,
+  group_id: groupId,
+  name: id,
+  price,
+  is_default: false,
+  is_available: true,
+  display_order: 0,
+  ...extra,
+});
+
+const spice: ModifierGroup = {
+  id: "spice",
+  food_item_id: "dish",
+  name: "Spice level",
+  selection_type: "single",
+  is_required: true,
+  max_selections: null,
+  display_order: 0,
+  is_active: true,
+  options: [option("mild", "spice"), option("hot", "spice", 0, { is_default: true })],
+};
+
+const extras: ModifierGroup = {
+  id: "extras",
+  food_item_id: "dish",
+  name: "Extras",
+  selection_type: "multiple",
+  is_required: false,
+  max_selections: 2,
+  display_order: 1,
+  is_active: true,
+  options: [option("egg", "extras", 15), option("cheese", "extras", 25), option("raita", "extras", 10)],
+};
+
+describe("modifierKey", () => {
+  it("ignores order and duplicates", () => {
+    expect(modifierKey(["b", "a", "b"])).toBe(modifierKey(["a", "b"]));
+    expect(modifierKey(null)).toBe("");
+  });
+});
+
+describe("defaultModifierSelection", () => {
+  it("picks the default of each single-choice group", () => {
+    expect(defaultModifierSelection([spice, extras])).toEqual(["hot"]);
+  });
+
+  it("falls back to the first option of a required group", () => {
+    const noDefault = { ...spice, options: spice.options.map((o) => ({ ...o, is_default: false })) };
+    expect(defaultModifierSelection([noDefault])).toEqual(["mild"]);
+  });
+});
+
+describe("validateModifierSelection", () => {
+  it("requires a choice in required groups", () => {
+    expect(validateModifierSelection([spice], [])).toBe("Please choose the spice level");
+  });
+
+  it("allows one option in single-choice groups", () => {
+    expect(validateModifierSelection([spice], ["mild", "hot"])).toBe("Only one spice level can be chosen");
+  });
+
+  it("enforces the maximum of multiple-choice groups", () => {
+    expect(validateModifierSelection([spice, extras], ["hot", "egg", "cheese", "raita"])).toBe(
+      "At most 2 extras can be chosen"
+    );
+    expect(validateModifierSelection([spice, extras], ["hot", "egg", "cheese"])).toBeNull();
+  });
+});
+
+describe("priceModifiers", () => {
+  it("sums option prices, using the cook's price where set", () => {
+    const priced = priceModifiers([spice, extras], ["hot", "egg", "cheese"], { cheese: 30 });
+    expect(priced.price).toBe(45);
+    expect(priced.modifiers.map((m) => [m.group_name, m.name, m.price])).toEqual([
+      ["Spice level", "hot", 0],
+      ["Extras", "egg", 15],
+      ["Extras", "cheese", 30],
+    ]);
+  });
+});
+
+describe("sumModifierPrices", () => {
+  it("adds stored modifier prices without float drift", () => {
+    expect(sumModifierPrices([
+      { option_id: "a", group_name: "Extras", name: "egg", price: 0.1 },
+      { option_id: "b", group_name: "Extras", name: "cheese", price: 0.2 },
+    ])).toBe(0.3);
+    expect(sumModifierPrices(null)).toBe(0);
+  });
+});
+
+describe("readSelectedModifiers", () => {
+  it("reads the stored modifiers", () => {
+    expect(readSelectedModifiers([{ option_id: "a", group_name: "Spice", name: "Hot", price: 5 }])).toEqual([
+      { option_id: "a", group_name: "Spice", name: "Hot", price: 5 },
+    ]);
+  });
+
+  it("skips anything that is not a modifier list", () => {
+    expect(readSelectedModifiers(null)).toEqual([]);
+    expect(readSelectedModifiers({ option_id: "a" })).toEqual([]);
+    expect(readSelectedModifiers(["a", null])).toEqual([]);
+  });
+});
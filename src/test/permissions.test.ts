@@ -0,0 +1,63 @@
+import { describe, it, expect } from "vitest";
+import {
+  NO_ACCESS,
+  canOpenAdminRoute,
+  hasPermissionLevel,
+  parsePermissionLevel,
+  permissionsFromRow,
+  routePermission,
+} from "@/lib/permissions";
+
+describe("parsePermissionLevel", () => {
+  it("reads older 'full' grants as edit and anything unknown as none", () => {
+    expect(parsePermissionLevel("full")).toBe("edit");
+    expect(parsePermissionLevel("view")).toBe("view");
+    expect(parsePermissionLevel("admin")).toBe("none");
+    expect(parsePermissionLevel(null)).toBe("none");
+  });
+});
+
+describe("hasPermissionLevel", () => {
+  it("lets edit satisfy view but not the other way round", () => {
+    expect(hasPermissionLevel("edit", "view")).toBe(true);
+    expect(hasPermissionLevel("view", "edit")).toBe(false);
+    expect(hasPermissionLevel("none", "view")).toBe(false);
+  });
+});
+
+describe("permissionsFromRow", () => {
+  it("maps perm_ columns and treats a missing row as no access", () => {
+    const levels = permissionsFromRow({ perm_reports: "view", perm_settlements: "full" });
+    expect(levels.reports).toBe("view");
+    expect(levels.settlements).toBe("edit");
+    expect(levels.items).toBe("none");
+    expect(permissionsFromRow(null).orders).toBe("none");
+  });
+});
+
+describe("routePermission", () => {
+  it("finds the area of nested admin pages", () => {
+    expect(routePermission("/admin/reports")).toBe("reports");
+    expect(routePermission("/admin/cooks/abc")).toBe("cooks");
+    expect(routePermission("/admin/cloud-kitchen/orders")).toBe("orders");
+    expect(routePermission("/admin/itemsx")).toBeNull();
+    expect(routePermission("/admin")).toBeNull();
+  });
+});
+
+describe("canOpenAdminRoute", () => {
+  const reportsOnly = { ...NO_ACCESS, reports: "view" as const };
+
+  it("opens pages in the admin's areas and the pages open to all admins", () => {
+    expect(canOpenAdminRoute("/admin/reports", "admin", reportsOnly)).toBe(true);
+    expect(canOpenAdminRoute("/admin/orders", "admin", reportsOnly)).toBe(false);
+    expect(canOpenAdminRoute("/admin", "admin", NO_ACCESS)).toBe(true);
+    expect(canOpenAdminRoute("/admin/audit-log", "admin", NO_ACCESS)).toBe(true);
+  });
+
+  it("keeps pages outside every area for super admins", () => {
+    expect(canOpenAdminRoute("/admin/users", "admin", reportsOnly)).toBe(false);
+    expect(canOpenAdminRoute("/admin/users", "super_admin", NO_ACCESS)).toBe(true);
+    expect(canOpenAdminRoute("/admin", "customer", NO_ACCESS)).toBe(false);
+  });
+});
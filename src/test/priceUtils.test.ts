@@ -0,0 +1,227 @@
+import { describe, it, expect } from "vitest";
+import {
+  calculateDeliveryCharge,
+  computeOrderQuote,
+  quoteLine,
+  splitGst,
+  toPaise,
+} from "@/lib/priceUtils";
+
+const item = (overrides = {}) => ({
+  price: 100,
+  platform_margin_type: "percent",
+  platform_margin_value: 10,
+  discount_percent: null,
+  discount_amount: null,
+  set_size: 1,
+  min_order_sets: 1,
+  ...overrides,
+});
+
+describe("toPaise", () => {
+  it("rounds half up like Postgres round(x, 2)", () => {
+    expect(toPaise(1.005)).toBe(101);
+    expect(toPaise(0.1 + 0.2)).toBe(30);
+    expect(toPaise(19.999)).toBe(2000);
+  });
+});
+
+describe("quoteLine", () => {
+  it("adds a percent platform margin to the base price", () => {
+    const line = quoteLine({ item: item(), quantity: 2 });
+    expect(line.platformMargin).toBe(10);
+    expect(line.unitPrice).toBe(110);
+    expect(line.lineTotal).toBe(220);
+  });
+
+  it("adds a fixed platform margin", () => {
+    const line = quoteLine({
+      item: item({ platform_margin_type: "fixed", platform_margin_value: 15 }),
+      quantity: 1,
+    });
+    expect(line.unitPrice).toBe(115);
+  });
+
+  it("defaults to a percent margin when the type is missing", () => {
+    const line = quoteLine({
+      item: item({ platform_margin_type: null, platform_margin_value: 5 }),
+      quantity: 1,
+    });
+    expect(line.unitPrice).toBe(105);
+  });
+
+  it("prices from the cook custom price when one is given", () => {
+    const line = quoteLine({ item: item(), quantity: 1, cookCustomPrice: 80 });
+    expect(line.basePrice).toBe(80);
+    expect(line.unitPrice).toBe(88);
+  });
+
+  it("keeps a zero cook custom price instead of falling back", () => {
+    const line = quoteLine({ item: item(), quantity: 1, cookCustomPrice: 0 });
+    expect(line.unitPrice).toBe(0);
+  });
+
+  it("applies a percent discount after the margin", () => {
+    const line = quoteLine({ item: item({ discount_percent: 10 }), quantity: 3 });
+    expect(line.grossUnitPrice).toBe(110);
+    expect(line.discount).toBe(11);
+    expect(line.unitPrice).toBe(99);
+    expect(line.lineTotal).toBe(297);
+  });
+
+  it("adds modifier prices per unit without discounting them", () => {
+    const line = quoteLine({ item: item({ discount_percent: 10 }), quantity: 2, modifierPrice: 20 });
+    expect(line.grossUnitPrice).toBe(130);
+    expect(line.discount).toBe(11);
+    expect(line.unitPrice).toBe(119);
+    expect(line.lineTotal).toBe(238);
+  });
+
+  it("prefers the percent discount over a flat discount", () => {
+    const line = quoteLine({
+      item: item({ discount_percent: 50, discount_amount: 5 }),
+      quantity: 1,
+    });
+    expect(line.unitPrice).toBe(55);
+  });
+
+  it("never discounts below zero", () => {
+    const line = quoteLine({ item: item({ discount_amount: 500 }), quantity: 1 });
+    expect(line.unitPrice).toBe(0);
+    expect(line.discount).toBe(110);
+  });
+
+  it("rounds each unit price to the paisa", () => {
+    const line = quoteLine({
+      item: item({ price: 33.33, platform_margin_value: 7.5 }),
+      quantity: 3,
+    });
+    // 33.33 * 1.075 = 35.82975
+    expect(line.unitPrice).toBe(35.83);
+    expect(line.lineTotal).toBe(107.49);
+  });
+
+  it("multiplies set quantities by the set size", () => {
+    const line = quoteLine({
+      item: item({ price: 10, platform_margin_value: 0, set_size: 6, min_order_sets: 2 }),
+      quantity: 3,
+      unit: "set",
+    });
+    expect(line.sets).toBe(3);
+    expect(line.units).toBe(18);
+    expect(line.setPrice).toBe(60);
+    expect(line.lineTotal).toBe(180);
+    expect(line.meetsMinimum).toBe(true);
+  });
+
+  it("flags set quantities below the minimum order", () => {
+    const line = quoteLine({
+      item: item({ set_size: 4, min_order_sets: 2 }),
+      quantity: 1,
+      unit: "set",
+    });
+    expect(line.meetsMinimum).toBe(false);
+  });
+
+  it("treats piece quantities as units regardless of set size", () => {
+    const line = quoteLine({ item: item({ set_size: 4 }), quantity: 4 });
+    expect(line.units).toBe(4);
+    expect(line.sets).toBeNull();
+    expect(line.meetsMinimum).toBe(true);
+  });
+});
+
+describe("computeOrderQuote", () => {
+  it("sums lines, discounts and delivery in paise", () => {
+    const quote = computeOrderQuote(
+      [
+        { item: item({ price: 0.1, platform_margin_value: 0 }), quantity: 3 },
+        { item: item({ discount_percent: 10 }), quantity: 1 },
+      ],
+      { deliveryCharge: 30 }
+    );
+    expect(quote.itemTotal).toBe(110.3);
+    expect(quote.discountTotal).toBe(11);
+    expect(quote.subtotal).toBe(99.3);
+    expect(quote.deliveryCharge).toBe(30);
+    expect(quote.total).toBe(129.3);
+  });
+
+  it("returns a zero quote for an empty cart", () => {
+    const quote = computeOrderQuote([]);
+    expect(quote.lines).toEqual([]);
+    expect(quote.total).toBe(0);
+  });
+
+  it("adds GST on the discounted lines and on delivery", () => {
+    const quote = computeOrderQuote(
+      [
+        { item: item({ discount_percent: 10 }), quantity: 2, taxRate: 5 },
+        { item: item({ price: 50, platform_margin_value: 0 }), quantity: 1 },
+      ],
+      { deliveryCharge: 40, deliveryTaxRate: 18 }
+    );
+    expect(quote.subtotal).toBe(248);
+    expect(quote.lines[0].cgst).toBe(4.95);
+    expect(quote.lines[0].sgst).toBe(4.95);
+    expect(quote.lines[1].cgst).toBe(0);
+    expect(quote.deliveryTax).toBe(7.2);
+    expect(quote.cgstTotal).toBe(8.55);
+    expect(quote.sgstTotal).toBe(8.55);
+    expect(quote.taxTotal).toBe(17.1);
+    expect(quote.total).toBe(305.1);
+  });
+});
+
+describe("splitGst", () => {
+  it("splits tax equally between CGST and SGST", () => {
+    expect(splitGst(10000, 5)).toEqual({ cgst: 250, sgst: 250 });
+  });
+
+  it("gives an odd paisa to CGST", () => {
+    expect(splitGst(100, 5)).toEqual({ cgst: 3, sgst: 2 });
+  });
+
+  it("returns zero tax without a rate", () => {
+    expect(splitGst(10000, 0)).toEqual({ cgst: 0, sgst: 0 });
+  });
+});
+
+describe("calculateDeliveryCharge", () => {
+  const rule = {
+    min_delivery_charge: 40,
+    free_delivery_above: 500,
+    charge_above_threshold: null,
+    tiers: [],
+  };
+
+  it("returns zero without a rule", () => {
+    expect(calculateDeliveryCharge(null, 100)).toBe(0);
+  });
+
+  it("charges the minimum below the free delivery threshold", () => {
+    expect(calculateDeliveryCharge(rule, 499)).toBe(40);
+  });
+
+  it("is free at or above the threshold", () => {
+    expect(calculateDeliveryCharge(rule, 500)).toBe(0);
+  });
+
+  it("uses the reduced charge above the threshold when configured", () => {
+    expect(calculateDeliveryCharge({ ...rule, charge_above_threshold: 15 }, 600)).toBe(15);
+  });
+
+  it("uses the highest tier the subtotal reaches", () => {
+    const tiered = {
+      ...rule,
+      tiers: [
+        { order_above: 0, delivery_charge: 50 },
+        { order_above: 300, delivery_charge: 20 },
+        { order_above: 200, delivery_charge: 30 },
+      ],
+    };
+    expect(calculateDeliveryCharge(tiered, 250)).toBe(30);
+    expect(calculateDeliveryCharge(tiered, 300)).toBe(20);
+    expect(calculateDeliveryCharge(tiered, 10)).toBe(50);
+  });
+});
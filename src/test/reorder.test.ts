@@ -0,0 +1,91 @@
+import { describe, it, expect } from "vitest";
+import { reconcileReorder, type CurrentDish, type PastOrderLine, type ReorderMenu } from "@/lib/reorder";
+
+const dish = (id: string, overrides: Partial<CurrentDish> = {}): CurrentDish => ({
+  id,
+  price: 100,
+  platform_margin_type: "percent",
+  platform_margin_value: 0,
+  is_available: true,
+  available_all_panchayats: true,
+  available_panchayat_ids: [],
+  ...overrides,
+});
+
+const line = (food_item_id: string, overrides: Partial<PastOrderLine> = {}): PastOrderLine => ({
+  food_item_id,
+  name: food_item_id,
+  quantity: 2,
+  unit_price: 100,
+  cook_id: null,
+  modifiers: [],
+  ...overrides,
+});
+
+const menu = (dishes: CurrentDish[], overrides: Partial<ReorderMenu> = {}): ReorderMenu => ({
+  dishes: new Map(dishes.map((d) => [d.id, d])),
+  cookDishes: [],
+  modifierGroups: [],
+  ...overrides,
+});
+
+describe("reconcileReorder", () => {
+  it("keeps unchanged lines and flags price changes", () => {
+    const result = reconcileReorder(
+      [line("a"), line("b")],
+      menu([dish("a"), dish("b", { price: 120 })]),
+      null
+    );
+    expect(result.map((l) => l.status)).toEqual(["ok", "price_changed"]);
+    expect(result[1].current_unit_price).toBe(120);
+  });
+
+  it("drops dishes that are gone or not sold in the area", () => {
+    const result = reconcileReorder(
+      [line("a"), line("b"), line("missing")],
+      menu([
+        dish("a", { is_available: false }),
+        dish("b", { available_all_panchayats: false, available_panchayat_ids: ["p2"] }),
+      ]),
+      "p1"
+    );
+    expect(result.map((l) => l.status)).toEqual(["unavailable", "not_in_area", "unavailable"]);
+  });
+
+  it("prices with the cook's current price and spots a cook who stopped", () => {
+    const cookDishes = [
+      { cook_id: "c1", food_item_id: "a", custom_price: 90, modifier_prices: null, cook_available: true },
+      { cook_id: "c2", food_item_id: "b", custom_price: null, modifier_prices: null, cook_available: false },
+    ];
+    const result = reconcileReorder(
+      [line("a", { cook_id: "c1", unit_price: 90 }), line("b", { cook_id: "c2" })],
+      menu([dish("a"), dish("b")], { cookDishes }),
+      null
+    );
+    expect(result[0].status).toBe("ok");
+    expect(result[1].status).toBe("cook_unavailable");
+  });
+
+  it("drops options that are no longer offered", () => {
+    const groups = [{
+      id: "g1", food_item_id: "a", name: "Extras", selection_type: "multiple" as const, is_required: false,
+      max_selections: null, display_order: 0, is_active: true,
+      options: [{ id: "o1", group_id: "g1", name: "Cheese", price: 20, is_default: false, is_available: true, display_order: 0 }],
+    }];
+    const result = reconcileReorder(
+      [line("a", {
+        unit_price: 130,
+        modifiers: [
+          { option_id: "o1", group_name: "Extras", name: "Cheese", price: 20 },
+          { option_id: "o2", group_name: "Extras", name: "Olives", price: 10 },
+        ],
+      })],
+      menu([dish("a")], { modifierGroups: groups }),
+      null
+    );
+    expect(result[0].status).toBe("price_changed");
+    expect(result[0].modifier_option_ids).toEqual(["o1"]);
+    expect(result[0].dropped_modifiers.map((m) => m.name)).toEqual(["Olives"]);
+    expect(result[0].current_unit_price).toBe(120);
+  });
+});
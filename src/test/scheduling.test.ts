@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import {
+  formatDeliveryDate,
+  getSlotOrderingStatus,
+  isWindowAvailable,
+  schedulableDates,
+} from "@/lib/scheduling";
+
+const lunch = { start_time: "12:00:00", end_time: "14:00:00", cutoff_hours_before: 3 };
+const breakfast = { start_time: "06:00:00", end_time: "08:00:00", cutoff_hours_before: 8 };
+
+describe("schedulableDates", () => {
+  it("lists today and the days after it", () => {
+    expect(schedulableDates(2, new Date(2026, 3, 30, 10, 0))).toEqual(["2026-04-30", "2026-05-01", "2026-05-02"]);
+    expect(schedulableDates(0, new Date(2026, 3, 30, 10, 0))).toEqual(["2026-04-30"]);
+  });
+});
+
+describe("getSlotOrderingStatus", () => {
+  it("closes at the cutoff before the slot on that date", () => {
+    const now = new Date(2026, 3, 17, 8, 30);
+    expect(getSlotOrderingStatus(lunch, "2026-04-17", now)).toEqual({
+      isOpen: true,
+      timeRemaining: { hours: 0, minutes: 30 },
+      statusLabel: "closing_soon",
+    });
+    expect(getSlotOrderingStatus(lunch, "2026-04-17", new Date(2026, 3, 17, 9, 0)).isOpen).toBe(false);
+  });
+
+  it("keeps a later date open after today's cutoff", () => {
+    const now = new Date(2026, 3, 17, 13, 0);
+    const status = getSlotOrderingStatus(lunch, "2026-04-18", now);
+    expect(status.isOpen).toBe(true);
+    expect(status.timeRemaining).toEqual({ hours: 20, minutes: 0 });
+    expect(status.statusLabel).toBe("open");
+  });
+
+  it("puts an early slot's cutoff on the evening before", () => {
+    expect(getSlotOrderingStatus(breakfast, "2026-04-18", new Date(2026, 3, 17, 21, 0)).isOpen).toBe(true);
+    expect(getSlotOrderingStatus(breakfast, "2026-04-18", new Date(2026, 3, 17, 23, 0)).isOpen).toBe(false);
+  });
+});
+
+describe("isWindowAvailable", () => {
+  it("needs the lead time before the window opens", () => {
+    const window = { start: "12:00", end: "14:00" };
+    expect(isWindowAvailable(window, "2026-04-17", 60, new Date(2026, 3, 17, 11, 0))).toBe(true);
+    expect(isWindowAvailable(window, "2026-04-17", 60, new Date(2026, 3, 17, 11, 1))).toBe(false);
+  });
+});
+
+describe("formatDeliveryDate", () => {
+  it("names today and tomorrow", () => {
+    const now = new Date(2026, 3, 17, 22, 0);
+    expect(formatDeliveryDate("2026-04-17", now)).toBe("Today");
+    expect(formatDeliveryDate("2026-04-18", now)).toBe("Tomorrow");
+    expect(formatDeliveryDate("2026-04-20", now)).toBe("Mon, 20 Apr");
+  });
+});
@@ -0,0 +1,25 @@
+import { describe, it, expect } from "vitest";
+import { formatWeekdays, subscriptionDeliveryDates, subscriptionEndDate } from "@/lib/subscriptions";
+
+describe("subscriptionDeliveryDates", () => {
+  it("lists the chosen weekdays between the plan's dates", () => {
+    // 2026-04-20 is a Monday
+    const end = subscriptionEndDate("2026-04-20", 1);
+    expect(end).toBe("2026-04-26");
+    expect(subscriptionDeliveryDates([1, 3, 5], "2026-04-20", end)).toEqual(["2026-04-20", "2026-04-22", "2026-04-24"]);
+  });
+
+  it("counts four weeks of weekday lunches", () => {
+    const end = subscriptionEndDate("2026-04-22", 4);
+    expect(subscriptionDeliveryDates([1, 2, 3, 4, 5], "2026-04-22", end)).toHaveLength(20);
+  });
+});
+
+describe("formatWeekdays", () => {
+  it("shortens runs of days", () => {
+    expect(formatWeekdays([5, 1, 2, 3, 4])).toBe("Mon–Fri");
+    expect(formatWeekdays([1, 2, 3, 4, 5, 6, 7])).toBe("Every day");
+    expect(formatWeekdays([1, 3, 5])).toBe("Mon, Wed, Fri");
+    expect(formatWeekdays([6, 7])).toBe("Sat, Sun");
+  });
+});
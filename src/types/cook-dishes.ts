@@ -1,5 +1,7 @@
 // Types for Cook Dish Allocation system
 
+import type { ModifierPriceOverrides } from '@/lib/modifiers';
+
 export interface CookDish {
   id: string;
   cook_id: string;
@@ -10,6 +12,7 @@ export interface CookDish {
   updated_at: string;
   custom_price: number | null;
   is_coming_soon: boolean;
+  modifier_prices?: ModifierPriceOverrides;
   food_item?: {
     id: string;
     name: string;
@@ -1,5 +1,7 @@
 // Types for Cook / Food Partner module
 
+import type { SelectedModifier } from '@/lib/modifiers';
+
 export interface Cook {
   id: string;
   user_id: string | null;
@@ -29,6 +31,7 @@ export interface CookOrderItem {
   quantity: number;
   unit_price: number;
   total_price: number;
+  modifiers?: SelectedModifier[];
   food_item?: {
     id: string;
     name: string;
@@ -47,6 +50,11 @@ export interface CookOrder {
   delivery_address: string | null;
   guest_count: number | null;
   created_at: string;
+  // Orders placed for a later date; cooks are alerted at release_at
+  scheduled_for?: string | null;
+  delivery_window_start?: string | null;
+  delivery_window_end?: string | null;
+  release_at?: string | null;
   customer?: {
     name: string;
     mobile_number: string;
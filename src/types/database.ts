@@ -54,6 +54,7 @@ export interface FoodCategory {
   image_url: string | null;
   is_active: boolean;
   display_order: number;
+  tax_class_id?: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -75,6 +76,7 @@ export interface FoodItem {
   ward_number: number | null;
   platform_margin_type: string | null;
   platform_margin_value: number | null;
+  tax_class_id?: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -124,13 +126,48 @@ export interface Order {
   event_details: string | null;
   delivery_status: string | null;
   delivery_eta: string | null;
+  // Set while the partner's live location keeps delivery_eta current
+  delivery_eta_updated_at?: string | null;
+  delivery_latitude?: number | null;
+  delivery_longitude?: number | null;
+  estimated_delivery_minutes?: number | null;
+  // Set when the order was placed together with others from one cart
+  checkout_group_id?: string | null;
+  // Set for orders placed for a later date; the kitchen is told at release_at
+  scheduled_for?: string | null;
+  delivery_window_start?: string | null;
+  delivery_window_end?: string | null;
+  release_at?: string | null;
+  // Placed from a meal subscription
+  subscription_id?: string | null;
   delivered_at: string | null;
   cook_status: string | null;
   delivery_amount: number | null;
+  advance_payment_required?: number | null;
+  advance_payment_received?: boolean | null;
+  wallet_amount?: number;
+  wallet_refunded_at?: string | null;
+  online_paid_amount?: number;
+  cancelled_at?: string | null;
+  cancellation_reason?: string | null;
+  cancellation_fee?: number;
+  refund_amount?: number;
   created_at: string;
   updated_at: string;
 }
 
+export interface OrderStatusHistoryEntry {
+  id: string;
+  order_id: string;
+  field: 'status' | 'cook_status' | 'delivery_status' | 'cook_assignment_status';
+  from_status: string | null;
+  to_status: string;
+  changed_by: string | null;
+  actor_role: string;
+  reason: string | null;
+  created_at: string;
+}
+
 export interface OrderItem {
   id: string;
   order_id: string;
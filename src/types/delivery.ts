@@ -73,12 +73,16 @@ export interface DeliveryOrder {
   order_number: string;
   service_type: string;
   total_amount: number;
+  wallet_amount?: number | null;
+  online_paid_amount?: number | null;
   delivery_amount?: number | null;
   delivery_status: DeliveryStatus;
   delivery_address: string | null;
   delivery_instructions: string | null;
   estimated_delivery_minutes?: number;
   delivery_eta?: string | null;
+  delivery_window_start?: string | null;
+  delivery_window_end?: string | null;
   panchayat_id: string;
   ward_number: number;
   created_at: string;
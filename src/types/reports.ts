@@ -40,6 +40,16 @@ export interface ReferralReportData {
   paid_commission: number;
 }
 
+export interface TaxLiabilityData {
+  component: 'food' | 'delivery' | 'service_charge';
+  tax_rate: number;
+  order_count: number;
+  taxable_value: number;
+  cgst_amount: number;
+  sgst_amount: number;
+  total_tax: number;
+}
+
 export interface ReportFilters {
   startDate: Date | undefined;
   endDate: Date | undefined;
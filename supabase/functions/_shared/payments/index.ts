@@ -0,0 +1,83 @@
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { createMockProvider } from './mock.ts';
+import { createRazorpayProvider } from './razorpay.ts';
+import type { PaymentProvider, PaymentProviderName, PaymentStatus } from './types.ts';
+
+export * from './types.ts';
+
+// The mock provider marks payments captured without any money moving, so it only
+// exists where ALLOW_MOCK_PAYMENTS=true and MOCK_PAYMENT_SECRET are both set
+export const isMockEnabled = () =>
+  Deno.env.get('ALLOW_MOCK_PAYMENTS') === 'true' && !!Deno.env.get('MOCK_PAYMENT_SECRET');
+
+let mock: ReturnType<typeof createMockProvider> | null = null;
+
+export const getMockProvider = () => {
+  if (!isMockEnabled()) throw new Error('Mock payments are disabled');
+  if (!mock) mock = createMockProvider(Deno.env.get('MOCK_PAYMENT_SECRET')!);
+  return mock;
+};
+
+// Lazily built so the mock works without any Razorpay secrets configured
+let razorpay: PaymentProvider | null = null;
+
+export const getProvider = (name: PaymentProviderName): PaymentProvider => {
+  if (name === 'mock') return getMockProvider();
+
+  if (!razorpay) {
+    const keyId = Deno.env.get('RAZORPAY_KEY_ID');
+    const keySecret = Deno.env.get('RAZORPAY_KEY_SECRET');
+    if (!keyId || !keySecret) throw new Error('Razorpay is not configured');
+    razorpay = createRazorpayProvider({
+      keyId,
+      keySecret,
+      // Webhooks are refused without it; checkout and verify do not need it
+      webhookSecret: Deno.env.get('RAZORPAY_WEBHOOK_SECRET') || null,
+    });
+  }
+  return razorpay;
+};
+
+// PAYMENT_PROVIDER picks the gateway for new payments and must be set
+export const getActiveProvider = (): PaymentProvider => {
+  const name = Deno.env.get('PAYMENT_PROVIDER');
+  if (name !== 'razorpay' && name !== 'mock') throw new Error('Online payments are not configured');
+  return getProvider(name);
+};
+
+export const createServiceClient = (): SupabaseClient =>
+  createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+export interface PaymentRow {
+  id: string;
+  order_id: string | null;
+  checkout_group_id: string | null;
+  user_id: string;
+  purpose: 'order' | 'event_advance' | 'checkout_group';
+  provider: PaymentProviderName;
+  provider_order_id: string | null;
+  provider_payment_id: string | null;
+  amount: number;
+  currency: string;
+  status: PaymentStatus;
+  failure_reason: string | null;
+}
+
+export const applyPaymentUpdate = async (
+  supabase: SupabaseClient,
+  paymentId: string,
+  status: Exclude<PaymentStatus, 'intent'>,
+  providerPaymentId?: string,
+  failureReason?: string,
+): Promise<PaymentRow> => {
+  const { data, error } = await supabase.rpc('apply_payment_update', {
+    p_payment_id: paymentId,
+    p_status: status,
+    p_provider_payment_id: providerPaymentId ?? null,
+    p_failure_reason: failureReason ?? null,
+  });
+  if (error) throw error;
+  return data as PaymentRow;
+};
+
+export const toPaise = (amount: number) => Math.round(amount * 100);
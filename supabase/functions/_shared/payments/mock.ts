@@ -0,0 +1,61 @@
+import { hmacSha256Hex, safeEqual } from '../hmac.ts';
+import type {
+  CaptureResult,
+  CheckoutResult,
+  CreateProviderOrderInput,
+  PaymentProvider,
+  ProviderOrder,
+  WebhookEvent,
+} from './types.ts';
+
+/**
+ * Fully local provider for development and testing. It signs payments the same
+ * way Razorpay does so the verify path is exercised, and accepts webhooks
+ * signed with the same secret in an `x-mock-signature` header:
+ *
+ *   { "event": "payment.captured", "order_id": "mock_order_...", "payment_id": "mock_pay_..." }
+ */
+export const createMockProvider = (secret: string): PaymentProvider & {
+  sign(providerOrderId: string, providerPaymentId: string): Promise<string>;
+} => ({
+  name: 'mock',
+
+  async createOrder(_input: CreateProviderOrderInput): Promise<ProviderOrder> {
+    return { providerOrderId: `mock_order_${crypto.randomUUID()}`, checkout: {} };
+  },
+
+  sign(providerOrderId: string, providerPaymentId: string) {
+    return hmacSha256Hex(secret, `${providerOrderId}|${providerPaymentId}`);
+  },
+
+  async verifyCheckout({ providerOrderId, providerPaymentId, signature }: CheckoutResult) {
+    const expected = await hmacSha256Hex(secret, `${providerOrderId}|${providerPaymentId}`);
+    return safeEqual(expected, signature);
+  },
+
+  async capture(_providerPaymentId: string, _amount: number, _currency: string): Promise<CaptureResult> {
+    return { status: 'captured' };
+  },
+
+  async parseWebhook(rawBody: string, headers: Headers): Promise<WebhookEvent | null> {
+    const signature = headers.get('x-mock-signature') || '';
+    const expected = await hmacSha256Hex(secret, rawBody);
+    if (!safeEqual(expected, signature)) return null;
+
+    const body = JSON.parse(rawBody);
+    const statusByEvent: Record<string, WebhookEvent['status']> = {
+      'payment.authorized': 'authorised',
+      'payment.captured': 'captured',
+      'payment.failed': 'failed',
+    };
+    const status = statusByEvent[body?.event];
+    if (!status || !body.order_id) return null;
+
+    return {
+      status,
+      providerOrderId: body.order_id,
+      providerPaymentId: body.payment_id || `mock_pay_${crypto.randomUUID()}`,
+      failureReason: body.failure_reason,
+    };
+  },
+});
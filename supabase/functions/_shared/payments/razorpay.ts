@@ -0,0 +1,108 @@
+import { hmacSha256Hex, safeEqual } from '../hmac.ts';
+import type {
+  CaptureResult,
+  CheckoutResult,
+  CreateProviderOrderInput,
+  PaymentProvider,
+  ProviderOrder,
+  WebhookEvent,
+} from './types.ts';
+
+const API_BASE = 'https://api.razorpay.com/v1';
+
+interface RazorpayConfig {
+  keyId: string;
+  keySecret: string;
+  webhookSecret: string | null;
+}
+
+interface RazorpayPaymentEntity {
+  id: string;
+  order_id: string;
+  status: 'created' | 'authorized' | 'captured' | 'refunded' | 'failed';
+  error_description?: string | null;
+}
+
+/**
+ * Razorpay Orders API adapter. The browser opens Razorpay Checkout with the
+ * returned key and order id; the handler's signature is verified here.
+ */
+export const createRazorpayProvider = (config: RazorpayConfig): PaymentProvider => {
+  const request = async <T>(path: string, init: RequestInit = {}): Promise<T> => {
+    const response = await fetch(`${API_BASE}${path}`, {
+      ...init,
+      headers: {
+        Authorization: `Basic ${btoa(`${config.keyId}:${config.keySecret}`)}`,
+        'Content-Type': 'application/json',
+        ...init.headers,
+      },
+    });
+    const body = await response.json();
+    if (!response.ok) {
+      throw new Error(body?.error?.description || `Razorpay request failed (${response.status})`);
+    }
+    return body as T;
+  };
+
+  return {
+    name: 'razorpay',
+
+    async createOrder({ amount, currency, receipt }: CreateProviderOrderInput): Promise<ProviderOrder> {
+      const order = await request<{ id: string }>('/orders', {
+        method: 'POST',
+        body: JSON.stringify({ amount, currency, receipt }),
+      });
+      return { providerOrderId: order.id, checkout: { key_id: config.keyId } };
+    },
+
+    async verifyCheckout({ providerOrderId, providerPaymentId, signature }: CheckoutResult) {
+      const expected = await hmacSha256Hex(config.keySecret, `${providerOrderId}|${providerPaymentId}`);
+      return safeEqual(expected, signature);
+    },
+
+    async capture(providerPaymentId: string, amount: number, currency: string): Promise<CaptureResult> {
+      // Accounts with auto-capture have already captured by the time we look
+      const payment = await request<RazorpayPaymentEntity>(`/payments/${providerPaymentId}`);
+      if (payment.status === 'captured') return { status: 'captured' };
+      if (payment.status === 'failed') {
+        return { status: 'failed', failureReason: payment.error_description || 'Payment failed' };
+      }
+
+      const captured = await request<RazorpayPaymentEntity>(`/payments/${providerPaymentId}/capture`, {
+        method: 'POST',
+        body: JSON.stringify({ amount, currency }),
+      });
+      return captured.status === 'captured'
+        ? { status: 'captured' }
+        : { status: 'failed', failureReason: captured.error_description || 'Capture failed' };
+    },
+
+    async parseWebhook(rawBody: string, headers: Headers): Promise<WebhookEvent | null> {
+      // An empty key would let anyone sign a webhook
+      if (!config.webhookSecret) throw new Error('Razorpay webhook secret is not configured');
+
+      const signature = headers.get('x-razorpay-signature') || '';
+      const expected = await hmacSha256Hex(config.webhookSecret, rawBody);
+      if (!safeEqual(expected, signature)) return null;
+
+      const body = JSON.parse(rawBody);
+      const payment: RazorpayPaymentEntity | undefined = body?.payload?.payment?.entity;
+      if (!payment?.order_id) return null;
+
+      const statusByEvent: Record<string, WebhookEvent['status']> = {
+        'payment.authorized': 'authorised',
+        'payment.captured': 'captured',
+        'payment.failed': 'failed',
+      };
+      const status = statusByEvent[body.event];
+      if (!status) return null;
+
+      return {
+        status,
+        providerOrderId: payment.order_id,
+        providerPaymentId: payment.id,
+        failureReason: payment.error_description || undefined,
+      };
+    },
+  };
+};
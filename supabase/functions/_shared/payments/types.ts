@@ -0,0 +1,49 @@
+export type PaymentProviderName = 'razorpay' | 'mock';
+
+export type PaymentStatus = 'intent' | 'authorised' | 'captured' | 'failed';
+
+export interface CreateProviderOrderInput {
+  // Smallest currency unit (paise)
+  amount: number;
+  currency: string;
+  // Our payments.id, echoed back by the provider
+  receipt: string;
+}
+
+export interface ProviderOrder {
+  providerOrderId: string;
+  // Extra data the browser needs to open the provider's checkout
+  checkout: Record<string, unknown>;
+}
+
+export interface CheckoutResult {
+  providerOrderId: string;
+  providerPaymentId: string;
+  signature: string;
+}
+
+export interface CaptureResult {
+  status: 'captured' | 'failed';
+  failureReason?: string;
+}
+
+export interface WebhookEvent {
+  status: Exclude<PaymentStatus, 'intent'>;
+  providerOrderId: string;
+  providerPaymentId: string;
+  failureReason?: string;
+}
+
+/**
+ * A payment gateway adapter. Edge functions only talk to providers through
+ * this interface so a new gateway is one more implementation.
+ */
+export interface PaymentProvider {
+  name: PaymentProviderName;
+  createOrder(input: CreateProviderOrderInput): Promise<ProviderOrder>;
+  // Checks the signature the browser checkout returned
+  verifyCheckout(result: CheckoutResult): Promise<boolean>;
+  capture(providerPaymentId: string, amount: number, currency: string): Promise<CaptureResult>;
+  // Returns null when the webhook signature is invalid or the event is not relevant
+  parseWebhook(rawBody: string, headers: Headers): Promise<WebhookEvent | null>;
+}
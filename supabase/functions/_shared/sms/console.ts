@@ -0,0 +1,13 @@
+import type { SmsMessage, SmsProvider } from './types.ts';
+
+/**
+ * Local provider for development: nothing is sent, the text is written to the
+ * function log so the code can be read from `supabase functions serve`.
+ */
+export const createConsoleProvider = (): SmsProvider => ({
+  name: 'console',
+
+  async send({ to, body }: SmsMessage) {
+    console.log(`[sms:console] to ${to}: ${body}`);
+  },
+});
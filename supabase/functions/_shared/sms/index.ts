@@ -0,0 +1,32 @@
+import { createConsoleProvider } from './console.ts';
+import { createTwilioProvider } from './twilio.ts';
+import type { SmsProvider, SmsProviderName } from './types.ts';
+
+export * from './types.ts';
+
+// Lazily built so the console provider works without any gateway secrets configured
+let provider: SmsProvider | null = null;
+
+// SMS_PROVIDER picks the gateway and must be set. The console provider writes
+// codes to the function log, so it is only used when asked for by name.
+export const getSmsProvider = (): SmsProvider => {
+  if (provider) return provider;
+
+  const name = Deno.env.get('SMS_PROVIDER') as SmsProviderName | undefined;
+  if (name === 'twilio') {
+    const accountSid = Deno.env.get('TWILIO_ACCOUNT_SID');
+    const authToken = Deno.env.get('TWILIO_AUTH_TOKEN');
+    if (!accountSid || !authToken) throw new Error('Twilio is not configured');
+    provider = createTwilioProvider({
+      accountSid,
+      authToken,
+      from: Deno.env.get('TWILIO_FROM_NUMBER'),
+      messagingServiceSid: Deno.env.get('TWILIO_MESSAGING_SERVICE_SID'),
+    });
+  } else if (name === 'console') {
+    provider = createConsoleProvider();
+  } else {
+    throw new Error('SMS is not configured');
+  }
+  return provider;
+};
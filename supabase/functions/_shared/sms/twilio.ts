@@ -0,0 +1,38 @@
+import type { SmsMessage, SmsProvider } from './types.ts';
+
+interface TwilioConfig {
+  accountSid: string;
+  authToken: string;
+  // Either a sender number or a messaging service sid
+  from?: string;
+  messagingServiceSid?: string;
+}
+
+/**
+ * Twilio Messages API adapter
+ */
+export const createTwilioProvider = (config: TwilioConfig): SmsProvider => ({
+  name: 'twilio',
+
+  async send({ to, body }: SmsMessage) {
+    const form = new URLSearchParams({ To: `+91${to}`, Body: body });
+    if (config.messagingServiceSid) form.set('MessagingServiceSid', config.messagingServiceSid);
+    else form.set('From', config.from || '');
+
+    const response = await fetch(
+      `https://api.twilio.com/2010-04-01/Accounts/${config.accountSid}/Messages.json`,
+      {
+        method: 'POST',
+        headers: {
+          Authorization: `Basic ${btoa(`${config.accountSid}:${config.authToken}`)}`,
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: form,
+      },
+    );
+    if (!response.ok) {
+      const error = await response.json().catch(() => null);
+      throw new Error(error?.message || `Twilio request failed (${response.status})`);
+    }
+  },
+});
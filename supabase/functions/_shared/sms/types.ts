@@ -0,0 +1,16 @@
+export type SmsProviderName = 'twilio' | 'console';
+
+export interface SmsMessage {
+  // Ten-digit Indian mobile number as stored on profiles
+  to: string;
+  body: string;
+}
+
+/**
+ * An SMS gateway adapter. Auth functions only send texts through this
+ * interface so a new gateway is one more implementation.
+ */
+export interface SmsProvider {
+  name: SmsProviderName;
+  send(message: SmsMessage): Promise<void>;
+}
@@ -0,0 +1,124 @@
+// Admin actions on cook logins:
+//   send_login -> give the cook's auth user a new temporary password and the
+//                 `<mobile>@pennycarbs.app` login email, creating the user when
+//                 the cook has none, and text the password to the cook
+// Only logins this function created for the same cook are ever reset, so an
+// admin cannot take over another account by linking it to a cook.
+// Cooks sign in on /cook/login with their mobile number and that password.
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { getSmsProvider } from '../_shared/sms/index.ts';
+
+// No 0/O or 1/l/I so the password can be read out over the phone
+const PASSWORD_ALPHABET = 'abcdefghjkmnpqrstuvwxyzABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const PASSWORD_LENGTH = 10;
+
+const temporaryPassword = () =>
+  Array.from(crypto.getRandomValues(new Uint32Array(PASSWORD_LENGTH)))
+    .map((value) => PASSWORD_ALPHABET[value % PASSWORD_ALPHABET.length])
+    .join('');
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const userClient = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_ANON_KEY')!, {
+      global: { headers: { Authorization: req.headers.get('Authorization') || '' } },
+    });
+    const { data: { user } } = await userClient.auth.getUser();
+    if (!user) return jsonResponse({ error: 'Not authenticated' }, 401);
+
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+    const { data: canManageCooks, error: permissionError } = await supabase.rpc('has_admin_permission', {
+      _user_id: user.id,
+      _permission: 'cooks',
+      _level: 'edit',
+    });
+    if (permissionError) throw permissionError;
+    if (!canManageCooks) return jsonResponse({ error: 'Only admins who manage cooks can send cook logins' }, 403);
+
+    const body = await req.json();
+    if (body.action !== 'send_login') return jsonResponse({ error: 'Unknown action' }, 400);
+
+    const { data: cook, error: cookError } = await supabase
+      .from('cooks')
+      .select('id, user_id, kitchen_name, mobile_number, is_active')
+      .eq('id', body.cook_id)
+      .maybeSingle();
+    if (cookError) throw cookError;
+    if (!cook) return jsonResponse({ error: 'Cook not found' }, 404);
+    if (!cook.is_active) return jsonResponse({ error: 'Activate the cook before sending a login' }, 400);
+
+    const email = `${cook.mobile_number}@pennycarbs.app`;
+    const password = temporaryPassword();
+
+    if (cook.user_id) {
+      const { data: roles, error: rolesError } = await supabase
+        .from('user_roles')
+        .select('role')
+        .eq('user_id', cook.user_id);
+      if (rolesError) throw rolesError;
+
+      const { data: linked, error: linkedError } = await supabase.auth.admin.getUserById(cook.user_id);
+      if (linkedError) throw linkedError;
+
+      const isCookOnly = roles.length > 0 && roles.every((row) => row.role === 'cook');
+      if (!isCookOnly || linked.user.app_metadata?.cook_id !== cook.id) {
+        return jsonResponse(
+          { error: 'This cook is linked to an account that was not created as their kitchen login, so it cannot be reset here' },
+          409
+        );
+      }
+
+      const { error } = await supabase.auth.admin.updateUserById(cook.user_id, {
+        email,
+        password,
+        email_confirm: true,
+      });
+      if (error) {
+        return jsonResponse({ error: `Could not update the cook's login: ${error.message}` }, 409);
+      }
+    } else {
+      const { data: created, error } = await supabase.auth.admin.createUser({
+        email,
+        password,
+        email_confirm: true,
+        // Marks the login as ours to reset; only the service role can set app_metadata
+        app_metadata: { cook_id: cook.id },
+      });
+      if (error) {
+        return jsonResponse({ error: `Could not create the cook's login: ${error.message}` }, 409);
+      }
+
+      const { error: linkError } = await supabase.from('cooks').update({ user_id: created.user.id }).eq('id', cook.id);
+      if (linkError) throw linkError;
+
+      // New users get the customer role from the signup trigger
+      const { error: roleError } = await supabase
+        .from('user_roles')
+        .update({ role: 'cook' })
+        .eq('user_id', created.user.id);
+      if (roleError) throw roleError;
+    }
+
+    let smsSent = true;
+    try {
+      await getSmsProvider().send({
+        to: cook.mobile_number,
+        body: `Penny Carbs kitchen login for ${cook.kitchen_name}: mobile ${cook.mobile_number}, password ${password}`,
+      });
+    } catch (smsError) {
+      console.error('cook-accounts sms error:', smsError);
+      smsSent = false;
+    }
+
+    // Shown once to the admin in case the text does not arrive
+    return jsonResponse({ mobile_number: cook.mobile_number, temporary_password: password, sms_sent: smsSent });
+  } catch (error) {
+    console.error('cook-accounts error:', error);
+    return jsonResponse({ error: (error as Error).message || 'Request failed' }, 500);
+  }
+});
@@ -0,0 +1,293 @@
+// Customer login by one-time code sent to the mobile number:
+//   request_otp -> text a six digit code, rate limited per number and per IP
+//   verify_otp  -> check the code and return a one-time token the browser
+//                  exchanges for a session with auth.verifyOtp
+// Without an account, verify_otp answers needs_signup and keeps the code, so
+// the same code can be sent again with the signup details. Callers are not
+// signed in yet, so JWT verification is disabled for this function in config.toml.
+//
+// Existing accounts keep their auth user; they are found through their
+// profile, so customers on the older `@pennycarbs.app` emails sign in the same way.
+// A profile whose number was never verified (a password signup) is re-claimed
+// by the number's owner: its password is rotated and its sessions ended first.
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { hmacSha256Hex, safeEqual } from '../_shared/hmac.ts';
+import { getSmsProvider } from '../_shared/sms/index.ts';
+
+const OTP_TTL_SECONDS = 5 * 60;
+const RESEND_AFTER_SECONDS = 60;
+const MAX_CODES_PER_MOBILE_PER_HOUR = 5;
+const MAX_CODES_PER_IP_PER_HOUR = 20;
+const MAX_ATTEMPTS = 5;
+
+const otpSecret = Deno.env.get('OTP_SECRET') || Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+const hashCode = (mobileNumber: string, code: string) => hmacSha256Hex(otpSecret, `${mobileNumber}|${code}`);
+
+const generateCode = () => {
+  const [value] = crypto.getRandomValues(new Uint32Array(1));
+  return String(value % 1_000_000).padStart(6, '0');
+};
+
+// Auth users are never signed into with a password; this only fills the column
+const randomPassword = () => `${crypto.randomUUID()}${crypto.randomUUID()}`;
+
+const secondsUntil = (date: Date) => Math.max(Math.ceil((date.getTime() - Date.now()) / 1000), 1);
+
+interface SignupDetails {
+  name: string;
+  panchayat_id: string;
+  ward_number: number;
+}
+
+const requestOtp = async (supabase: SupabaseClient, mobileNumber: string, ip: string | null) => {
+  const hourAgo = new Date(Date.now() - 60 * 60 * 1000).toISOString();
+
+  const { data: recent, error } = await supabase
+    .from('auth_otps')
+    .select('created_at')
+    .eq('mobile_number', mobileNumber)
+    .gte('created_at', hourAgo)
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+
+  if (recent.length > 0) {
+    const resendAt = new Date(new Date(recent[0].created_at).getTime() + RESEND_AFTER_SECONDS * 1000);
+    if (resendAt > new Date()) {
+      return jsonResponse({ error: 'Please wait before requesting another code', retry_after: secondsUntil(resendAt) }, 429);
+    }
+  }
+  if (recent.length >= MAX_CODES_PER_MOBILE_PER_HOUR) {
+    const oldest = new Date(recent[recent.length - 1].created_at);
+    return jsonResponse({
+      error: 'Too many codes requested for this number. Please try again later.',
+      retry_after: secondsUntil(new Date(oldest.getTime() + 60 * 60 * 1000)),
+    }, 429);
+  }
+
+  if (ip) {
+    const { count, error: ipError } = await supabase
+      .from('auth_otps')
+      .select('id', { count: 'exact', head: true })
+      .eq('requested_ip', ip)
+      .gte('created_at', hourAgo);
+    if (ipError) throw ipError;
+    if ((count ?? 0) >= MAX_CODES_PER_IP_PER_HOUR) {
+      return jsonResponse({ error: 'Too many codes requested. Please try again later.', retry_after: 60 * 60 }, 429);
+    }
+  }
+
+  const code = generateCode();
+  const { data: otp, error: insertError } = await supabase
+    .from('auth_otps')
+    .insert({
+      mobile_number: mobileNumber,
+      code_hash: await hashCode(mobileNumber, code),
+      requested_ip: ip,
+      expires_at: new Date(Date.now() + OTP_TTL_SECONDS * 1000).toISOString(),
+    })
+    .select('id')
+    .single();
+  if (insertError) throw insertError;
+
+  try {
+    await getSmsProvider().send({
+      to: mobileNumber,
+      body: `${code} is your Penny Carbs login code. It expires in ${OTP_TTL_SECONDS / 60} minutes. Do not share it with anyone.`,
+    });
+  } catch (sendError) {
+    // An unsent code should not count against the customer's limit
+    await supabase.from('auth_otps').delete().eq('id', otp.id);
+    console.error('customer-auth sms error:', sendError);
+    return jsonResponse({ error: 'Could not send the code. Please try again.' }, 502);
+  }
+
+  return jsonResponse({ sent: true, expires_in: OTP_TTL_SECONDS, resend_after: RESEND_AFTER_SECONDS });
+};
+
+// Cooks and delivery staff browsing as customers get an account from their staff record
+const staffSignupDetails = async (supabase: SupabaseClient, mobileNumber: string): Promise<SignupDetails | null> => {
+  const { data: cook } = await supabase
+    .from('cooks')
+    .select('kitchen_name, panchayat_id')
+    .eq('mobile_number', mobileNumber)
+    .eq('is_active', true)
+    .maybeSingle();
+  if (cook?.panchayat_id) return { name: cook.kitchen_name, panchayat_id: cook.panchayat_id, ward_number: 1 };
+
+  const { data: deliveryStaff } = await supabase
+    .from('delivery_staff')
+    .select('name, panchayat_id')
+    .eq('mobile_number', mobileNumber)
+    .eq('is_active', true)
+    .maybeSingle();
+  if (deliveryStaff?.panchayat_id) {
+    return { name: deliveryStaff.name, panchayat_id: deliveryStaff.panchayat_id, ward_number: 1 };
+  }
+
+  return null;
+};
+
+const createCustomer = async (supabase: SupabaseClient, mobileNumber: string, details: SignupDetails) => {
+  const { data, error } = await supabase.auth.admin.createUser({
+    email: `${mobileNumber}@customer.pennycarbs.app`,
+    password: randomPassword(),
+    email_confirm: true,
+  });
+  if (error) throw error;
+
+  // Role is auto-assigned by database trigger
+  const { error: profileError } = await supabase.from('profiles').insert({
+    user_id: data.user.id,
+    name: details.name,
+    mobile_number: mobileNumber,
+    panchayat_id: details.panchayat_id,
+    ward_number: details.ward_number,
+    mobile_verified_at: new Date().toISOString(),
+  });
+  if (profileError) {
+    await supabase.auth.admin.deleteUser(data.user.id);
+    throw profileError;
+  }
+
+  return data.user;
+};
+
+const parseSignup = (signup: unknown): SignupDetails | string | null => {
+  if (!signup || typeof signup !== 'object') return null;
+  const { name, panchayat_id, ward_number } = signup as Record<string, unknown>;
+  const trimmed = typeof name === 'string' ? name.trim() : '';
+  if (trimmed.length < 2 || trimmed.length > 100) return 'Please enter your name';
+  if (typeof panchayat_id !== 'string' || !panchayat_id) return 'Please select a panchayat';
+  if (!Number.isInteger(ward_number) || (ward_number as number) < 1) return 'Please select a ward';
+  return { name: trimmed, panchayat_id, ward_number: ward_number as number };
+};
+
+const verifyOtp = async (supabase: SupabaseClient, mobileNumber: string, body: Record<string, unknown>) => {
+  const code = typeof body.code === 'string' ? body.code.trim() : '';
+  if (!/^\d{6}$/.test(code)) return jsonResponse({ error: 'Enter the 6 digit code' }, 400);
+
+  const signup = parseSignup(body.signup);
+  if (typeof signup === 'string') return jsonResponse({ error: signup }, 400);
+
+  // Only the latest code for a number counts
+  const { data: otp, error } = await supabase
+    .from('auth_otps')
+    .select('*')
+    .eq('mobile_number', mobileNumber)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw error;
+
+  if (!otp || otp.consumed_at || new Date(otp.expires_at) <= new Date()) {
+    return jsonResponse({ error: 'This code has expired. Please request a new one.' }, 400);
+  }
+
+  // Count the attempt before checking the code, in one conditional update, so
+  // parallel guesses cannot all see the same count
+  const { data: attempts, error: attemptError } = await supabase.rpc('use_otp_attempt', {
+    p_otp_id: otp.id,
+    p_max_attempts: MAX_ATTEMPTS,
+  });
+  if (attemptError) throw attemptError;
+  if (attempts == null) {
+    return jsonResponse({ error: 'Too many wrong attempts. Please request a new code.' }, 429);
+  }
+
+  if (!safeEqual(await hashCode(mobileNumber, code), otp.code_hash)) {
+    const attemptsLeft = MAX_ATTEMPTS - attempts;
+    return jsonResponse({
+      error: attemptsLeft > 0 ? 'Incorrect code. Please try again.' : 'Too many wrong attempts. Please request a new code.',
+      attempts_left: attemptsLeft,
+    }, 400);
+  }
+
+  const staffDetails = body.staff_quick_access ? await staffSignupDetails(supabase, mobileNumber) : null;
+  if (body.staff_quick_access && !staffDetails) {
+    return jsonResponse({ error: 'This mobile number is not registered as staff. Please use customer login.' }, 404);
+  }
+
+  const { data: profile, error: profileError } = await supabase
+    .from('profiles')
+    .select('user_id, mobile_verified_at')
+    .eq('mobile_number', mobileNumber)
+    .maybeSingle();
+  if (profileError) throw profileError;
+
+  if (profile) {
+    const { data: roleData } = await supabase
+      .from('user_roles')
+      .select('role')
+      .eq('user_id', profile.user_id)
+      .maybeSingle();
+    if (roleData && roleData.role !== 'customer') {
+      return jsonResponse({ error: 'This account is registered as staff. Please use the Staff Login page.' }, 403);
+    }
+  }
+
+  const details = signup ?? staffDetails;
+  if (!profile && !details) {
+    return jsonResponse({ error: 'Customer not found. Please register first.', needs_signup: true }, 404);
+  }
+
+  // Claim the code before acting on it so two requests cannot both use it
+  const { data: claimed, error: claimError } = await supabase
+    .from('auth_otps')
+    .update({ consumed_at: new Date().toISOString() })
+    .eq('id', otp.id)
+    .is('consumed_at', null)
+    .select('id');
+  if (claimError) throw claimError;
+  if (!claimed.length) return jsonResponse({ error: 'This code has expired. Please request a new one.' }, 400);
+
+  const userId = profile ? profile.user_id : (await createCustomer(supabase, mobileNumber, details!)).id;
+
+  if (profile && !profile.mobile_verified_at) {
+    const { error: passwordError } = await supabase.auth.admin.updateUserById(userId, { password: randomPassword() });
+    if (passwordError) throw passwordError;
+
+    const { error: reclaimError } = await supabase.rpc('claim_profile_mobile', { p_user_id: userId });
+    if (reclaimError) throw reclaimError;
+  }
+
+  const { data: { user }, error: userError } = await supabase.auth.admin.getUserById(userId);
+  if (userError || !user?.email) throw userError || new Error('Account has no login email');
+
+  const { data: link, error: linkError } = await supabase.auth.admin.generateLink({
+    type: 'magiclink',
+    email: user.email,
+  });
+  if (linkError) throw linkError;
+
+  return jsonResponse({ token_hash: link.properties.hashed_token, created: !profile });
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+    const body = await req.json();
+
+    const mobileNumber = typeof body.mobile_number === 'string' ? body.mobile_number.trim() : '';
+    if (!/^\d{10}$/.test(mobileNumber)) {
+      return jsonResponse({ error: 'Mobile number must be 10 digits' }, 400);
+    }
+
+    if (body.action === 'request_otp') {
+      const ip = req.headers.get('x-forwarded-for')?.split(',')[0].trim() || null;
+      return await requestOtp(supabase, mobileNumber, ip);
+    }
+    if (body.action === 'verify_otp') {
+      return await verifyOtp(supabase, mobileNumber, body);
+    }
+    return jsonResponse({ error: 'Unknown action' }, 400);
+  } catch (error) {
+    console.error('customer-auth error:', error);
+    return jsonResponse({ error: (error as Error).message || 'Login failed' }, 500);
+  }
+});
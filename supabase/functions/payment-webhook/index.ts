@@ -0,0 +1,52 @@
+// Provider webhooks: POST /payment-webhook?provider=razorpay|mock
+// The provider signature is the only authentication, so JWT verification is
+// disabled for this function in config.toml.
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import {
+  applyPaymentUpdate,
+  createServiceClient,
+  getProvider,
+  isMockEnabled,
+  type PaymentProviderName,
+} from '../_shared/payments/index.ts';
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const providerName = new URL(req.url).searchParams.get('provider') as PaymentProviderName | null;
+    if (providerName !== 'razorpay' && !(providerName === 'mock' && isMockEnabled())) {
+      return jsonResponse({ error: 'Unknown provider' }, 400);
+    }
+
+    const rawBody = await req.text();
+    const event = await getProvider(providerName).parseWebhook(rawBody, req.headers);
+    // Acknowledge ignored events so the provider does not keep retrying them
+    if (!event) return jsonResponse({ received: true, ignored: true });
+
+    const supabase = createServiceClient();
+    const { data: payment, error } = await supabase
+      .from('payments')
+      .select('id')
+      .eq('provider', providerName)
+      .eq('provider_order_id', event.providerOrderId)
+      .maybeSingle();
+    if (error) throw error;
+    if (!payment) return jsonResponse({ received: true, ignored: true });
+
+    const updated = await applyPaymentUpdate(
+      supabase,
+      payment.id,
+      event.status,
+      event.providerPaymentId,
+      event.failureReason,
+    );
+
+    return jsonResponse({ received: true, status: updated.status });
+  } catch (error) {
+    console.error('payment-webhook error:', error);
+    return jsonResponse({ error: (error as Error).message || 'Webhook failed' }, 500);
+  }
+});
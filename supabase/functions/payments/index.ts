@@ -0,0 +1,234 @@
+// Customer-facing payment actions:
+//   create         -> new payment intent + provider order for what is still due
+//                     on an order, or on every open order of a checkout group
+//   verify         -> check the checkout signature, authorise and capture
+//   mock_complete  -> stand-in for the provider checkout when using the mock provider
+//                     (only where ALLOW_MOCK_PAYMENTS=true)
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import {
+  applyPaymentUpdate,
+  createServiceClient,
+  getActiveProvider,
+  getMockProvider,
+  getProvider,
+  isMockEnabled,
+  toPaise,
+  type PaymentRow,
+} from '../_shared/payments/index.ts';
+
+type Purpose = PaymentRow['purpose'];
+
+// What the customer still owes online for this purpose, or an error message
+const amountDue = (order: Record<string, unknown>, purpose: Exclude<Purpose, 'checkout_group'>): number | string => {
+  const prepaid = Number(order.wallet_amount || 0) + Number(order.online_paid_amount || 0);
+
+  if (order.status === 'cancelled') return 'This order has been cancelled';
+
+  if (purpose === 'event_advance') {
+    if (order.service_type !== 'indoor_events' || !order.advance_payment_required || order.advance_payment_received) {
+      return 'This order has no advance payment due';
+    }
+    return Number(order.advance_payment_required) - prepaid;
+  }
+
+  if (order.service_type === 'indoor_events') return 'Event orders are paid through the advance';
+  if (order.status === 'delivered') return 'This order has already been delivered';
+  return Number(order.total_amount) - prepaid;
+};
+
+// Intents older than this count as abandoned. If one is paid after all,
+// apply_payment_update puts whatever is no longer due into the wallet.
+const OPEN_INTENT_MINUTES = 15;
+
+// Why a new payment cannot start while another on the same orders is in flight or
+// already captured, or null
+const paymentInProgress = async (
+  supabase: SupabaseClient,
+  orderIds: string[],
+  checkoutGroupIds: string[],
+): Promise<string | null> => {
+  const targets = [
+    `order_id.in.(${orderIds.join(',')})`,
+    ...(checkoutGroupIds.length ? [`checkout_group_id.in.(${checkoutGroupIds.join(',')})`] : []),
+  ];
+  const openSince = Date.now() - OPEN_INTENT_MINUTES * 60_000;
+
+  const { data, error } = await supabase
+    .from('payments')
+    .select('status, created_at')
+    .or(targets.join(','))
+    .neq('status', 'failed');
+  if (error) throw error;
+
+  const open = (data || []).filter((payment) => payment.status !== 'intent' || new Date(payment.created_at).getTime() >= openSince);
+  if (open.some((payment) => payment.status === 'captured')) return 'This order has already been paid online';
+  if (open.length) return 'A payment for this order is already in progress. Try again in a few minutes.';
+  return null;
+};
+
+const verifyAndCapture = async (
+  supabase: SupabaseClient,
+  payment: PaymentRow,
+  providerPaymentId: string,
+  signature: string,
+) => {
+  const provider = getProvider(payment.provider);
+
+  const valid = await provider.verifyCheckout({
+    providerOrderId: payment.provider_order_id!,
+    providerPaymentId,
+    signature,
+  });
+  if (!valid) {
+    return applyPaymentUpdate(supabase, payment.id, 'failed', providerPaymentId, 'Payment signature mismatch');
+  }
+
+  await applyPaymentUpdate(supabase, payment.id, 'authorised', providerPaymentId);
+
+  const result = await provider.capture(providerPaymentId, toPaise(payment.amount), payment.currency);
+  return applyPaymentUpdate(supabase, payment.id, result.status, providerPaymentId, result.failureReason);
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const userClient = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_ANON_KEY')!, {
+      global: { headers: { Authorization: req.headers.get('Authorization') || '' } },
+    });
+    const { data: { user } } = await userClient.auth.getUser();
+    if (!user) return jsonResponse({ error: 'Not authenticated' }, 401);
+
+    const supabase = createServiceClient();
+    const body = await req.json();
+
+    if (body.action === 'create') {
+      const purpose: Purpose = body.purpose === 'event_advance' || body.purpose === 'checkout_group'
+        ? body.purpose
+        : 'order';
+
+      let due: number;
+      let orderNumber: string;
+      let target: { order_id: string | null; checkout_group_id: string | null };
+      let blockedBy: string | null;
+
+      if (purpose === 'checkout_group') {
+        const { data: orders, error: ordersError } = await supabase
+          .from('orders')
+          .select('*')
+          .eq('checkout_group_id', body.checkout_group_id)
+          .eq('customer_id', user.id)
+          .order('created_at');
+        if (ordersError) throw ordersError;
+        if (!orders?.length) return jsonResponse({ error: 'Order not found' }, 404);
+
+        // Cancelled or delivered orders in the group have nothing due online
+        due = orders
+          .map((order) => amountDue(order, 'order'))
+          .reduce<number>((sum, amount) => sum + (typeof amount === 'number' ? Math.max(amount, 0) : 0), 0);
+        orderNumber = orders.map((order) => order.order_number).join(', ');
+        target = { order_id: null, checkout_group_id: body.checkout_group_id };
+        blockedBy = await paymentInProgress(supabase, orders.map((order) => order.id), [body.checkout_group_id]);
+      } else {
+        const { data: order, error: orderError } = await supabase
+          .from('orders')
+          .select('*')
+          .eq('id', body.order_id)
+          .eq('customer_id', user.id)
+          .maybeSingle();
+        if (orderError) throw orderError;
+        if (!order) return jsonResponse({ error: 'Order not found' }, 404);
+
+        const orderDue = amountDue(order, purpose);
+        if (typeof orderDue === 'string') return jsonResponse({ error: orderDue }, 400);
+        due = orderDue;
+        orderNumber = order.order_number;
+        target = { order_id: order.id, checkout_group_id: null };
+        blockedBy = await paymentInProgress(
+          supabase,
+          [order.id],
+          order.checkout_group_id ? [order.checkout_group_id] : [],
+        );
+      }
+
+      if (due <= 0) return jsonResponse({ error: 'Nothing left to pay for this order' }, 400);
+      if (blockedBy) return jsonResponse({ error: blockedBy }, 409);
+
+      const provider = getActiveProvider();
+      const { data: payment, error: insertError } = await supabase
+        .from('payments')
+        .insert({
+          ...target,
+          user_id: user.id,
+          purpose,
+          provider: provider.name,
+          amount: Math.round(due * 100) / 100,
+        })
+        .select('*')
+        .single();
+      if (insertError) throw insertError;
+
+      const providerOrder = await provider.createOrder({
+        amount: toPaise(payment.amount),
+        currency: payment.currency,
+        receipt: payment.id,
+      });
+
+      const { error: updateError } = await supabase
+        .from('payments')
+        .update({ provider_order_id: providerOrder.providerOrderId })
+        .eq('id', payment.id);
+      if (updateError) throw updateError;
+
+      return jsonResponse({
+        payment_id: payment.id,
+        provider: provider.name,
+        provider_order_id: providerOrder.providerOrderId,
+        amount: payment.amount,
+        currency: payment.currency,
+        order_number: orderNumber,
+        checkout: providerOrder.checkout,
+      });
+    }
+
+    // verify / mock_complete act on an existing payment of this user
+    const { data: payment, error: paymentError } = await supabase
+      .from('payments')
+      .select('*')
+      .eq('id', body.payment_id)
+      .eq('user_id', user.id)
+      .maybeSingle();
+    if (paymentError) throw paymentError;
+    if (!payment) return jsonResponse({ error: 'Payment not found' }, 404);
+
+    let updated: PaymentRow;
+
+    if (body.action === 'verify') {
+      if (!body.provider_payment_id || !body.signature) {
+        return jsonResponse({ error: 'Missing payment confirmation' }, 400);
+      }
+      updated = await verifyAndCapture(supabase, payment, body.provider_payment_id, body.signature);
+    } else if (body.action === 'mock_complete') {
+      if (!isMockEnabled()) return jsonResponse({ error: 'Mock payments are disabled' }, 403);
+      if (payment.provider !== 'mock') return jsonResponse({ error: 'Not a mock payment' }, 400);
+
+      if (body.outcome === 'failure') {
+        updated = await applyPaymentUpdate(supabase, payment.id, 'failed', undefined, 'Declined in mock checkout');
+      } else {
+        const providerPaymentId = `mock_pay_${crypto.randomUUID()}`;
+        const signature = await getMockProvider().sign(payment.provider_order_id!, providerPaymentId);
+        updated = await verifyAndCapture(supabase, payment, providerPaymentId, signature);
+      }
+    } else {
+      return jsonResponse({ error: 'Unknown action' }, 400);
+    }
+
+    return jsonResponse({ status: updated.status, failure_reason: updated.failure_reason });
+  } catch (error) {
+    console.error('payments error:', error);
+    return jsonResponse({ error: (error as Error).message || 'Payment failed' }, 500);
+  }
+});
@@ -0,0 +1,286 @@
+-- Server-authoritative order pricing
+-- Checkout used to compute total_amount in the browser and insert it directly,
+-- so prices are now quoted and persisted by the database instead.
+
+-- Delivery charge for a service type, mirroring the tier/legacy logic shown in the cart
+CREATE OR REPLACE FUNCTION public.calculate_delivery_charge(
+  p_service_type text,
+  p_subtotal numeric,
+  p_cloud_kitchen_slot_id uuid DEFAULT NULL
+)
+RETURNS numeric
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_rule delivery_rules%ROWTYPE;
+  v_charge numeric;
+BEGIN
+  -- Cloud kitchen divisions carry their own flat delivery charge
+  IF p_cloud_kitchen_slot_id IS NOT NULL THEN
+    SELECT delivery_charge INTO v_charge
+    FROM cloud_kitchen_slots
+    WHERE id = p_cloud_kitchen_slot_id;
+
+    RETURN COALESCE(v_charge, 0);
+  END IF;
+
+  SELECT * INTO v_rule
+  FROM delivery_rules
+  WHERE service_type = p_service_type
+    AND is_active = true
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  -- Tiers first: highest threshold the subtotal reaches
+  SELECT delivery_charge INTO v_charge
+  FROM delivery_rule_tiers
+  WHERE rule_id = v_rule.id
+    AND p_subtotal >= order_above
+  ORDER BY order_above DESC
+  LIMIT 1;
+
+  IF FOUND THEN
+    RETURN v_charge;
+  END IF;
+
+  -- Legacy single threshold fields
+  IF v_rule.free_delivery_above IS NOT NULL AND p_subtotal >= v_rule.free_delivery_above THEN
+    RETURN GREATEST(COALESCE(v_rule.charge_above_threshold, 0), 0);
+  END IF;
+
+  RETURN v_rule.min_delivery_charge;
+END;
+$$;
+
+-- Itemised quote for a set of cart lines: [{ food_item_id, quantity, cook_id }]
+-- quantity is in units (pieces), i.e. sets * set_size for cloud kitchen items
+CREATE OR REPLACE FUNCTION public.quote_order(
+  p_service_type service_type,
+  p_items jsonb,
+  p_cloud_kitchen_slot_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_line jsonb;
+  v_item food_items%ROWTYPE;
+  v_cook_id uuid;
+  v_quantity integer;
+  v_set_size integer;
+  v_custom_price numeric;
+  v_base numeric;
+  v_margin numeric;
+  v_gross numeric;
+  v_discount numeric;
+  v_unit numeric;
+  v_lines jsonb := '[]'::jsonb;
+  v_item_total numeric := 0;
+  v_subtotal numeric := 0;
+  v_delivery numeric;
+BEGIN
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Cannot quote an empty order';
+  END IF;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_quantity := (v_line->>'quantity')::integer;
+    v_cook_id := NULLIF(v_line->>'cook_id', '')::uuid;
+
+    SELECT * INTO v_item
+    FROM food_items
+    WHERE id = (v_line->>'food_item_id')::uuid;
+
+    IF NOT FOUND OR NOT v_item.is_available THEN
+      RAISE EXCEPTION 'Item % is no longer available', COALESCE(v_item.name, v_line->>'food_item_id');
+    END IF;
+
+    IF v_quantity IS NULL OR v_quantity < 1 THEN
+      RAISE EXCEPTION 'Invalid quantity for %', v_item.name;
+    END IF;
+
+    -- Division orders are sold in whole sets with a minimum number of sets
+    IF p_cloud_kitchen_slot_id IS NOT NULL THEN
+      v_set_size := GREATEST(COALESCE(v_item.set_size, 1), 1);
+      IF v_quantity % v_set_size <> 0
+        OR v_quantity < COALESCE(v_item.min_order_sets, 1) * v_set_size THEN
+        RAISE EXCEPTION 'Invalid set quantity for %', v_item.name;
+      END IF;
+    END IF;
+
+    -- Selected cook's custom price overrides the base price
+    v_custom_price := NULL;
+    IF v_cook_id IS NOT NULL THEN
+      SELECT custom_price INTO v_custom_price
+      FROM cook_dishes
+      WHERE cook_id = v_cook_id
+        AND food_item_id = v_item.id;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'The selected cook no longer offers %', v_item.name;
+      END IF;
+    END IF;
+
+    v_base := COALESCE(v_custom_price, v_item.price);
+    v_margin := CASE
+      WHEN COALESCE(v_item.platform_margin_type, 'percent') = 'fixed'
+        THEN COALESCE(v_item.platform_margin_value, 0)
+      ELSE v_base * COALESCE(v_item.platform_margin_value, 0) / 100
+    END;
+    v_gross := round(v_base + v_margin, 2);
+
+    -- Percent discount takes precedence over flat discount, never below zero
+    v_discount := CASE
+      WHEN COALESCE(v_item.discount_percent, 0) > 0 THEN v_gross * v_item.discount_percent / 100
+      WHEN COALESCE(v_item.discount_amount, 0) > 0 THEN LEAST(v_item.discount_amount, v_gross)
+      ELSE 0
+    END;
+    v_unit := round(v_gross - v_discount, 2);
+
+    v_item_total := v_item_total + v_gross * v_quantity;
+    v_subtotal := v_subtotal + v_unit * v_quantity;
+
+    v_lines := v_lines || jsonb_build_object(
+      'food_item_id', v_item.id,
+      'cook_id', v_cook_id,
+      'quantity', v_quantity,
+      'base_price', v_item.price,
+      'cook_custom_price', v_custom_price,
+      'platform_margin', round(v_margin, 2),
+      'discount', v_gross - v_unit,
+      'unit_price', v_unit,
+      'line_total', v_unit * v_quantity
+    );
+  END LOOP;
+
+  v_delivery := public.calculate_delivery_charge(p_service_type::text, v_subtotal, p_cloud_kitchen_slot_id);
+
+  RETURN jsonb_build_object(
+    'lines', v_lines,
+    'item_total', v_item_total,
+    'discount_total', v_item_total - v_subtotal,
+    'subtotal', v_subtotal,
+    'delivery_charge', v_delivery,
+    'total', v_subtotal + v_delivery
+  );
+END;
+$$;
+
+-- Place a cloud kitchen / homemade order using the server quote
+-- p_expected_total is the total the customer saw; a mismatch means prices moved
+CREATE OR REPLACE FUNCTION public.place_order(
+  p_service_type service_type,
+  p_items jsonb,
+  p_panchayat_id uuid,
+  p_ward_number integer,
+  p_delivery_address text,
+  p_delivery_instructions text DEFAULT NULL,
+  p_cloud_kitchen_slot_id uuid DEFAULT NULL,
+  p_expected_total numeric DEFAULT NULL
+)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_user_id uuid;
+  v_quote jsonb;
+  v_total numeric;
+  v_order orders%ROWTYPE;
+BEGIN
+  v_user_id := auth.uid();
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_service_type = 'indoor_events' THEN
+    RAISE EXCEPTION 'Indoor event bookings cannot be placed through checkout';
+  END IF;
+
+  v_quote := public.quote_order(p_service_type, p_items, p_cloud_kitchen_slot_id);
+  v_total := (v_quote->>'total')::numeric;
+
+  IF p_expected_total IS NOT NULL AND abs(v_total - p_expected_total) > 0.01 THEN
+    RAISE EXCEPTION 'Prices have changed since you opened checkout. Please review your order.';
+  END IF;
+
+  -- order_number is overwritten by the set_order_number trigger
+  INSERT INTO orders (
+    order_number,
+    customer_id,
+    service_type,
+    total_amount,
+    delivery_amount,
+    panchayat_id,
+    ward_number,
+    delivery_address,
+    delivery_instructions,
+    cloud_kitchen_slot_id,
+    status,
+    cook_status,
+    delivery_status,
+    cook_assignment_status,
+    estimated_delivery_minutes
+  ) VALUES (
+    '',
+    v_user_id,
+    p_service_type,
+    v_total,
+    (v_quote->>'delivery_charge')::numeric,
+    p_panchayat_id,
+    p_ward_number,
+    p_delivery_address,
+    p_delivery_instructions,
+    p_cloud_kitchen_slot_id,
+    CASE WHEN p_service_type = 'homemade' THEN 'confirmed' ELSE 'pending' END::order_status,
+    'pending',
+    'pending',
+    CASE WHEN p_service_type = 'cloud_kitchen' THEN 'pending' END,
+    CASE WHEN p_service_type = 'homemade' THEN 60 END
+  )
+  RETURNING * INTO v_order;
+
+  INSERT INTO order_items (order_id, food_item_id, quantity, unit_price, total_price, assigned_cook_id)
+  SELECT
+    v_order.id,
+    (line->>'food_item_id')::uuid,
+    (line->>'quantity')::integer,
+    (line->>'unit_price')::numeric,
+    (line->>'line_total')::numeric,
+    NULLIF(line->>'cook_id', '')::uuid
+  FROM jsonb_array_elements(v_quote->'lines') AS line;
+
+  RETURN v_order;
+END;
+$$;
+
+-- Customers may only insert indoor event bookings directly; food orders go through place_order
+DROP POLICY IF EXISTS "Customers can create orders" ON public.orders;
+
+CREATE POLICY "Customers can create event bookings" ON public.orders
+  FOR INSERT WITH CHECK (auth.uid() = customer_id AND service_type = 'indoor_events');
+
+DROP POLICY IF EXISTS "Users can insert their order items" ON public.order_items;
+
+CREATE POLICY "Users can insert their event booking items" ON public.order_items
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.orders
+      WHERE orders.id = order_items.order_id
+        AND orders.customer_id = auth.uid()
+        AND orders.service_type = 'indoor_events'
+    )
+  );
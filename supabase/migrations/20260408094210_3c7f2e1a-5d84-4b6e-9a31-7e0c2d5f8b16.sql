@@ -0,0 +1,401 @@
+-- GST handling
+-- Tax classes carry the total GST rate; it is charged on top of prices and
+-- split equally into CGST and SGST. Food items use their own class, falling
+-- back to their category's class. Delivery and indoor-event service charges
+-- use the active class for that charge type.
+
+CREATE TABLE public.tax_classes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  hsn_sac_code TEXT,
+  rate_percent NUMERIC NOT NULL DEFAULT 0 CHECK (rate_percent >= 0 AND rate_percent <= 100),
+  applies_to TEXT NOT NULL DEFAULT 'food' CHECK (applies_to IN ('food', 'delivery', 'service_charge')),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  display_order INT NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.tax_classes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view tax classes"
+ON public.tax_classes FOR SELECT USING (true);
+
+CREATE POLICY "Admins can manage tax classes"
+ON public.tax_classes FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'super_admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'super_admin'));
+
+CREATE TRIGGER update_tax_classes_updated_at
+BEFORE UPDATE ON public.tax_classes
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.food_categories
+  ADD COLUMN IF NOT EXISTS tax_class_id UUID REFERENCES public.tax_classes(id) ON DELETE SET NULL;
+
+ALTER TABLE public.food_items
+  ADD COLUMN IF NOT EXISTS tax_class_id UUID REFERENCES public.tax_classes(id) ON DELETE SET NULL;
+
+-- Tax persisted per order line (total_price is the taxable value)
+ALTER TABLE public.order_items
+  ADD COLUMN IF NOT EXISTS tax_rate NUMERIC NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS cgst_amount NUMERIC NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS sgst_amount NUMERIC NOT NULL DEFAULT 0;
+
+-- Order-level totals; cgst/sgst include item, delivery and service charge tax
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS cgst_amount NUMERIC NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS sgst_amount NUMERIC NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS delivery_tax_rate NUMERIC NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS delivery_tax_amount NUMERIC NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS service_charge_tax_rate NUMERIC NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS service_charge_tax_amount NUMERIC NOT NULL DEFAULT 0;
+
+CREATE INDEX idx_food_items_tax_class_id ON public.food_items(tax_class_id);
+CREATE INDEX idx_food_categories_tax_class_id ON public.food_categories(tax_class_id);
+
+-- GST rate for a food item: its own class, else its category's class
+CREATE OR REPLACE FUNCTION public.get_food_item_tax_rate(p_food_item_id uuid)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT COALESCE(item_class.rate_percent, category_class.rate_percent, 0)
+  FROM food_items fi
+  LEFT JOIN tax_classes item_class
+    ON item_class.id = fi.tax_class_id AND item_class.is_active = true
+  LEFT JOIN food_categories fc ON fc.id = fi.category_id
+  LEFT JOIN tax_classes category_class
+    ON category_class.id = fc.tax_class_id AND category_class.is_active = true
+  WHERE fi.id = p_food_item_id;
+$$;
+
+-- GST rate for a non-food charge ('delivery' or 'service_charge')
+CREATE OR REPLACE FUNCTION public.get_charge_tax_rate(p_applies_to text)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT COALESCE((
+    SELECT rate_percent
+    FROM tax_classes
+    WHERE applies_to = p_applies_to
+      AND is_active = true
+    ORDER BY display_order, created_at
+    LIMIT 1
+  ), 0);
+$$;
+
+-- Split GST on a tax-exclusive amount into CGST and SGST; an odd paisa goes to CGST
+CREATE OR REPLACE FUNCTION public.split_gst(p_amount numeric, p_rate numeric)
+RETURNS TABLE(cgst numeric, sgst numeric)
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_tax numeric;
+BEGIN
+  v_tax := round(COALESCE(p_amount, 0) * COALESCE(p_rate, 0) / 100, 2);
+  cgst := round(v_tax / 2, 2);
+  sgst := v_tax - cgst;
+  RETURN NEXT;
+END;
+$$;
+
+-- Quote now includes GST per line and on delivery
+CREATE OR REPLACE FUNCTION public.quote_order(
+  p_service_type service_type,
+  p_items jsonb,
+  p_cloud_kitchen_slot_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_line jsonb;
+  v_item food_items%ROWTYPE;
+  v_cook_id uuid;
+  v_quantity integer;
+  v_set_size integer;
+  v_custom_price numeric;
+  v_base numeric;
+  v_margin numeric;
+  v_gross numeric;
+  v_discount numeric;
+  v_unit numeric;
+  v_tax_rate numeric;
+  v_cgst numeric;
+  v_sgst numeric;
+  v_lines jsonb := '[]'::jsonb;
+  v_item_total numeric := 0;
+  v_subtotal numeric := 0;
+  v_cgst_total numeric := 0;
+  v_sgst_total numeric := 0;
+  v_delivery numeric;
+  v_delivery_tax_rate numeric;
+BEGIN
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Cannot quote an empty order';
+  END IF;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_quantity := (v_line->>'quantity')::integer;
+    v_cook_id := NULLIF(v_line->>'cook_id', '')::uuid;
+
+    SELECT * INTO v_item
+    FROM food_items
+    WHERE id = (v_line->>'food_item_id')::uuid;
+
+    IF NOT FOUND OR NOT v_item.is_available THEN
+      RAISE EXCEPTION 'Item % is no longer available', COALESCE(v_item.name, v_line->>'food_item_id');
+    END IF;
+
+    IF v_quantity IS NULL OR v_quantity < 1 THEN
+      RAISE EXCEPTION 'Invalid quantity for %', v_item.name;
+    END IF;
+
+    -- Division orders are sold in whole sets with a minimum number of sets
+    IF p_cloud_kitchen_slot_id IS NOT NULL THEN
+      v_set_size := GREATEST(COALESCE(v_item.set_size, 1), 1);
+      IF v_quantity % v_set_size <> 0
+        OR v_quantity < COALESCE(v_item.min_order_sets, 1) * v_set_size THEN
+        RAISE EXCEPTION 'Invalid set quantity for %', v_item.name;
+      END IF;
+    END IF;
+
+    -- Selected cook's custom price overrides the base price
+    v_custom_price := NULL;
+    IF v_cook_id IS NOT NULL THEN
+      SELECT custom_price INTO v_custom_price
+      FROM cook_dishes
+      WHERE cook_id = v_cook_id
+        AND food_item_id = v_item.id;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'The selected cook no longer offers %', v_item.name;
+      END IF;
+    END IF;
+
+    v_base := COALESCE(v_custom_price, v_item.price);
+    v_margin := CASE
+      WHEN COALESCE(v_item.platform_margin_type, 'percent') = 'fixed'
+        THEN COALESCE(v_item.platform_margin_value, 0)
+      ELSE v_base * COALESCE(v_item.platform_margin_value, 0) / 100
+    END;
+    v_gross := round(v_base + v_margin, 2);
+
+    -- Percent discount takes precedence over flat discount, never below zero
+    v_discount := CASE
+      WHEN COALESCE(v_item.discount_percent, 0) > 0 THEN v_gross * v_item.discount_percent / 100
+      WHEN COALESCE(v_item.discount_amount, 0) > 0 THEN LEAST(v_item.discount_amount, v_gross)
+      ELSE 0
+    END;
+    v_unit := round(v_gross - v_discount, 2);
+
+    v_tax_rate := public.get_food_item_tax_rate(v_item.id);
+    SELECT g.cgst, g.sgst INTO v_cgst, v_sgst
+    FROM public.split_gst(v_unit * v_quantity, v_tax_rate) g;
+
+    v_item_total := v_item_total + v_gross * v_quantity;
+    v_subtotal := v_subtotal + v_unit * v_quantity;
+    v_cgst_total := v_cgst_total + v_cgst;
+    v_sgst_total := v_sgst_total + v_sgst;
+
+    v_lines := v_lines || jsonb_build_object(
+      'food_item_id', v_item.id,
+      'cook_id', v_cook_id,
+      'quantity', v_quantity,
+      'base_price', v_item.price,
+      'cook_custom_price', v_custom_price,
+      'platform_margin', round(v_margin, 2),
+      'discount', v_gross - v_unit,
+      'unit_price', v_unit,
+      'line_total', v_unit * v_quantity,
+      'tax_rate', v_tax_rate,
+      'cgst_amount', v_cgst,
+      'sgst_amount', v_sgst
+    );
+  END LOOP;
+
+  v_delivery := public.calculate_delivery_charge(p_service_type::text, v_subtotal, p_cloud_kitchen_slot_id);
+  v_delivery_tax_rate := public.get_charge_tax_rate('delivery');
+  SELECT v_cgst_total + g.cgst, v_sgst_total + g.sgst INTO v_cgst_total, v_sgst_total
+  FROM public.split_gst(v_delivery, v_delivery_tax_rate) g;
+
+  RETURN jsonb_build_object(
+    'lines', v_lines,
+    'item_total', v_item_total,
+    'discount_total', v_item_total - v_subtotal,
+    'subtotal', v_subtotal,
+    'delivery_charge', v_delivery,
+    'delivery_tax_rate', v_delivery_tax_rate,
+    'delivery_tax', round(v_delivery * v_delivery_tax_rate / 100, 2),
+    'cgst_total', v_cgst_total,
+    'sgst_total', v_sgst_total,
+    'tax_total', v_cgst_total + v_sgst_total,
+    'total', v_subtotal + v_delivery + v_cgst_total + v_sgst_total
+  );
+END;
+$$;
+
+-- place_order persists the GST split on the order and each line
+CREATE OR REPLACE FUNCTION public.place_order(
+  p_service_type service_type,
+  p_items jsonb,
+  p_panchayat_id uuid,
+  p_ward_number integer,
+  p_delivery_address text,
+  p_delivery_instructions text DEFAULT NULL,
+  p_cloud_kitchen_slot_id uuid DEFAULT NULL,
+  p_expected_total numeric DEFAULT NULL
+)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_user_id uuid;
+  v_quote jsonb;
+  v_total numeric;
+  v_order orders%ROWTYPE;
+BEGIN
+  v_user_id := auth.uid();
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_service_type = 'indoor_events' THEN
+    RAISE EXCEPTION 'Indoor event bookings cannot be placed through checkout';
+  END IF;
+
+  v_quote := public.quote_order(p_service_type, p_items, p_cloud_kitchen_slot_id);
+  v_total := (v_quote->>'total')::numeric;
+
+  IF p_expected_total IS NOT NULL AND abs(v_total - p_expected_total) > 0.01 THEN
+    RAISE EXCEPTION 'Prices have changed since you opened checkout. Please review your order.';
+  END IF;
+
+  -- order_number is overwritten by the set_order_number trigger
+  INSERT INTO orders (
+    order_number,
+    customer_id,
+    service_type,
+    total_amount,
+    delivery_amount,
+    cgst_amount,
+    sgst_amount,
+    delivery_tax_rate,
+    delivery_tax_amount,
+    panchayat_id,
+    ward_number,
+    delivery_address,
+    delivery_instructions,
+    cloud_kitchen_slot_id,
+    status,
+    cook_status,
+    delivery_status,
+    cook_assignment_status,
+    estimated_delivery_minutes
+  ) VALUES (
+    '',
+    v_user_id,
+    p_service_type,
+    v_total,
+    (v_quote->>'delivery_charge')::numeric,
+    (v_quote->>'cgst_total')::numeric,
+    (v_quote->>'sgst_total')::numeric,
+    (v_quote->>'delivery_tax_rate')::numeric,
+    (v_quote->>'delivery_tax')::numeric,
+    p_panchayat_id,
+    p_ward_number,
+    p_delivery_address,
+    p_delivery_instructions,
+    p_cloud_kitchen_slot_id,
+    CASE WHEN p_service_type = 'homemade' THEN 'confirmed' ELSE 'pending' END::order_status,
+    'pending',
+    'pending',
+    CASE WHEN p_service_type = 'cloud_kitchen' THEN 'pending' END,
+    CASE WHEN p_service_type = 'homemade' THEN 60 END
+  )
+  RETURNING * INTO v_order;
+
+  INSERT INTO order_items (
+    order_id, food_item_id, quantity, unit_price, total_price, assigned_cook_id,
+    tax_rate, cgst_amount, sgst_amount
+  )
+  SELECT
+    v_order.id,
+    (line->>'food_item_id')::uuid,
+    (line->>'quantity')::integer,
+    (line->>'unit_price')::numeric,
+    (line->>'line_total')::numeric,
+    NULLIF(line->>'cook_id', '')::uuid,
+    (line->>'tax_rate')::numeric,
+    (line->>'cgst_amount')::numeric,
+    (line->>'sgst_amount')::numeric
+  FROM jsonb_array_elements(v_quote->'lines') AS line;
+
+  RETURN v_order;
+END;
+$$;
+
+-- Indoor event service charges are set by admins; record GST on them whenever
+-- the amount changes. Event totals are agreed with the customer, so
+-- total_amount is left as entered.
+CREATE OR REPLACE FUNCTION public.apply_service_charge_tax()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_old_tax numeric := 0;
+  v_new_tax numeric;
+  v_rate numeric;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.service_charge_amount IS NOT DISTINCT FROM OLD.service_charge_amount THEN
+      RETURN NEW;
+    END IF;
+    v_old_tax := COALESCE(OLD.service_charge_tax_amount, 0);
+  END IF;
+
+  v_rate := CASE WHEN COALESCE(NEW.service_charge_amount, 0) > 0
+    THEN public.get_charge_tax_rate('service_charge')
+    ELSE 0
+  END;
+  v_new_tax := round(COALESCE(NEW.service_charge_amount, 0) * v_rate / 100, 2);
+
+  -- Swap the previous service charge tax out of the order's CGST/SGST totals
+  NEW.cgst_amount := COALESCE(NEW.cgst_amount, 0) - round(v_old_tax / 2, 2) + round(v_new_tax / 2, 2);
+  NEW.sgst_amount := COALESCE(NEW.sgst_amount, 0)
+    - (v_old_tax - round(v_old_tax / 2, 2))
+    + (v_new_tax - round(v_new_tax / 2, 2));
+  NEW.service_charge_tax_rate := v_rate;
+  NEW.service_charge_tax_amount := v_new_tax;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_order_service_charge_tax
+BEFORE INSERT OR UPDATE OF service_charge_amount ON public.orders
+FOR EACH ROW EXECUTE FUNCTION public.apply_service_charge_tax();
+
+-- Starter classes. Food classes only apply once assigned to a category or
+-- item; the charge classes start inactive so current prices are unchanged
+INSERT INTO public.tax_classes (name, rate_percent, applies_to, is_active, display_order) VALUES
+  ('GST 5%', 5, 'food', true, 1),
+  ('GST 18%', 18, 'food', true, 2),
+  ('Delivery GST 18%', 18, 'delivery', false, 1),
+  ('Event service charge GST 18%', 18, 'service_charge', false, 1);
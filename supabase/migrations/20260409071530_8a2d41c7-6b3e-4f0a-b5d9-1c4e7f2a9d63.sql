@@ -0,0 +1,502 @@
+-- Coupons
+-- special_offers are display cards only; coupons carry the actual discount
+-- rules and are redeemed through quote_order / place_order.
+
+CREATE TABLE public.coupons (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  code TEXT NOT NULL,
+  description TEXT,
+  discount_type TEXT NOT NULL DEFAULT 'percent' CHECK (discount_type IN ('percent', 'flat')),
+  discount_value NUMERIC NOT NULL CHECK (discount_value > 0),
+  min_order_amount NUMERIC NOT NULL DEFAULT 0,
+  max_discount_amount NUMERIC,
+  valid_from TIMESTAMPTZ,
+  valid_until TIMESTAMPTZ,
+  usage_limit_total INT,
+  usage_limit_per_user INT,
+  -- Empty arrays mean no restriction
+  service_types TEXT[] NOT NULL DEFAULT '{}',
+  panchayat_ids UUID[] NOT NULL DEFAULT '{}',
+  category_ids UUID[] NOT NULL DEFAULT '{}',
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (discount_type = 'flat' OR discount_value <= 100)
+);
+
+CREATE UNIQUE INDEX idx_coupons_code ON public.coupons (upper(code));
+
+CREATE TABLE public.coupon_redemptions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  coupon_id UUID NOT NULL REFERENCES public.coupons(id) ON DELETE RESTRICT,
+  order_id UUID NOT NULL UNIQUE REFERENCES public.orders(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  discount_amount NUMERIC NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_coupon_redemptions_coupon_id ON public.coupon_redemptions(coupon_id);
+CREATE INDEX idx_coupon_redemptions_user_id ON public.coupon_redemptions(user_id);
+
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS coupon_id UUID REFERENCES public.coupons(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS coupon_code TEXT,
+  ADD COLUMN IF NOT EXISTS coupon_discount_amount NUMERIC NOT NULL DEFAULT 0;
+
+-- Share of the coupon discount allocated to each line; GST is charged on total_price - coupon_discount
+ALTER TABLE public.order_items
+  ADD COLUMN IF NOT EXISTS coupon_discount NUMERIC NOT NULL DEFAULT 0;
+
+ALTER TABLE public.special_offers
+  ADD COLUMN IF NOT EXISTS coupon_id UUID REFERENCES public.coupons(id) ON DELETE SET NULL;
+
+ALTER TABLE public.coupons ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.coupon_redemptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage coupons"
+ON public.coupons FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'super_admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'super_admin'));
+
+-- Codes are only public when advertised on an active offer card
+CREATE POLICY "Anyone can view advertised coupons"
+ON public.coupons FOR SELECT
+USING (
+  is_active = true AND EXISTS (
+    SELECT 1 FROM public.special_offers so
+    WHERE so.coupon_id = coupons.id AND so.is_active = true
+  )
+);
+
+CREATE POLICY "Users can view their coupon redemptions"
+ON public.coupon_redemptions FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all coupon redemptions"
+ON public.coupon_redemptions FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'super_admin'));
+
+CREATE TRIGGER update_coupons_updated_at
+BEFORE UPDATE ON public.coupons
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Why a coupon cannot be used for this order, or NULL when it can.
+-- Redemptions on cancelled orders do not count towards the limits.
+CREATE OR REPLACE FUNCTION public.coupon_error(
+  p_coupon_id uuid,
+  p_service_type service_type,
+  p_panchayat_id uuid,
+  p_user_id uuid,
+  p_order_amount numeric
+)
+RETURNS text
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_coupon coupons%ROWTYPE;
+  v_used integer;
+BEGIN
+  SELECT * INTO v_coupon FROM coupons WHERE id = p_coupon_id;
+
+  IF NOT FOUND OR NOT v_coupon.is_active THEN
+    RETURN 'Invalid coupon code';
+  END IF;
+
+  IF v_coupon.valid_from IS NOT NULL AND now() < v_coupon.valid_from THEN
+    RETURN 'This coupon is not active yet';
+  END IF;
+
+  IF v_coupon.valid_until IS NOT NULL AND now() > v_coupon.valid_until THEN
+    RETURN 'This coupon has expired';
+  END IF;
+
+  IF cardinality(v_coupon.service_types) > 0 AND NOT (p_service_type::text = ANY(v_coupon.service_types)) THEN
+    RETURN 'This coupon is not valid for this service';
+  END IF;
+
+  IF cardinality(v_coupon.panchayat_ids) > 0
+    AND (p_panchayat_id IS NULL OR NOT (p_panchayat_id = ANY(v_coupon.panchayat_ids))) THEN
+    RETURN 'This coupon is not valid in your area';
+  END IF;
+
+  IF p_order_amount < v_coupon.min_order_amount THEN
+    RETURN format('Add items worth ₹%s more to use this coupon', v_coupon.min_order_amount - p_order_amount);
+  END IF;
+
+  IF v_coupon.usage_limit_total IS NOT NULL THEN
+    SELECT count(*) INTO v_used
+    FROM coupon_redemptions r
+    JOIN orders o ON o.id = r.order_id
+    WHERE r.coupon_id = v_coupon.id AND o.status <> 'cancelled';
+
+    IF v_used >= v_coupon.usage_limit_total THEN
+      RETURN 'This coupon has reached its usage limit';
+    END IF;
+  END IF;
+
+  IF v_coupon.usage_limit_per_user IS NOT NULL AND p_user_id IS NOT NULL THEN
+    SELECT count(*) INTO v_used
+    FROM coupon_redemptions r
+    JOIN orders o ON o.id = r.order_id
+    WHERE r.coupon_id = v_coupon.id AND r.user_id = p_user_id AND o.status <> 'cancelled';
+
+    IF v_used >= v_coupon.usage_limit_per_user THEN
+      RETURN 'You have already used this coupon';
+    END IF;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+-- New optional coupon/panchayat arguments change the signatures
+DROP FUNCTION IF EXISTS public.place_order(service_type, jsonb, uuid, integer, text, text, uuid, numeric);
+DROP FUNCTION IF EXISTS public.quote_order(service_type, jsonb, uuid);
+
+-- Quote with an optional coupon. The coupon discount is spread over the
+-- eligible lines in proportion to their totals so GST is charged on the
+-- discounted value. An unusable coupon is reported in coupon_error rather
+-- than failing the quote.
+CREATE OR REPLACE FUNCTION public.quote_order(
+  p_service_type service_type,
+  p_items jsonb,
+  p_cloud_kitchen_slot_id uuid DEFAULT NULL,
+  p_coupon_code text DEFAULT NULL,
+  p_panchayat_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_line jsonb;
+  v_item food_items%ROWTYPE;
+  v_cook_id uuid;
+  v_quantity integer;
+  v_set_size integer;
+  v_custom_price numeric;
+  v_base numeric;
+  v_margin numeric;
+  v_gross numeric;
+  v_discount numeric;
+  v_unit numeric;
+  v_cgst numeric;
+  v_sgst numeric;
+  v_priced jsonb := '[]'::jsonb;
+  v_lines jsonb := '[]'::jsonb;
+  v_item_total numeric := 0;
+  v_subtotal numeric := 0;
+  v_cgst_total numeric := 0;
+  v_sgst_total numeric := 0;
+  v_delivery numeric;
+  v_delivery_tax_rate numeric;
+  v_coupon coupons%ROWTYPE;
+  v_coupon_error text;
+  v_coupon_discount numeric := 0;
+  v_eligible_total numeric := 0;
+  v_eligible_count integer := 0;
+  v_eligible_seen integer := 0;
+  v_allocated numeric := 0;
+  v_line_coupon numeric;
+BEGIN
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Cannot quote an empty order';
+  END IF;
+
+  -- Price each line
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_quantity := (v_line->>'quantity')::integer;
+    v_cook_id := NULLIF(v_line->>'cook_id', '')::uuid;
+
+    SELECT * INTO v_item
+    FROM food_items
+    WHERE id = (v_line->>'food_item_id')::uuid;
+
+    IF NOT FOUND OR NOT v_item.is_available THEN
+      RAISE EXCEPTION 'Item % is no longer available', COALESCE(v_item.name, v_line->>'food_item_id');
+    END IF;
+
+    IF v_quantity IS NULL OR v_quantity < 1 THEN
+      RAISE EXCEPTION 'Invalid quantity for %', v_item.name;
+    END IF;
+
+    -- Division orders are sold in whole sets with a minimum number of sets
+    IF p_cloud_kitchen_slot_id IS NOT NULL THEN
+      v_set_size := GREATEST(COALESCE(v_item.set_size, 1), 1);
+      IF v_quantity % v_set_size <> 0
+        OR v_quantity < COALESCE(v_item.min_order_sets, 1) * v_set_size THEN
+        RAISE EXCEPTION 'Invalid set quantity for %', v_item.name;
+      END IF;
+    END IF;
+
+    -- Selected cook's custom price overrides the base price
+    v_custom_price := NULL;
+    IF v_cook_id IS NOT NULL THEN
+      SELECT custom_price INTO v_custom_price
+      FROM cook_dishes
+      WHERE cook_id = v_cook_id
+        AND food_item_id = v_item.id;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'The selected cook no longer offers %', v_item.name;
+      END IF;
+    END IF;
+
+    v_base := COALESCE(v_custom_price, v_item.price);
+    v_margin := CASE
+      WHEN COALESCE(v_item.platform_margin_type, 'percent') = 'fixed'
+        THEN COALESCE(v_item.platform_margin_value, 0)
+      ELSE v_base * COALESCE(v_item.platform_margin_value, 0) / 100
+    END;
+    v_gross := round(v_base + v_margin, 2);
+
+    -- Percent discount takes precedence over flat discount, never below zero
+    v_discount := CASE
+      WHEN COALESCE(v_item.discount_percent, 0) > 0 THEN v_gross * v_item.discount_percent / 100
+      WHEN COALESCE(v_item.discount_amount, 0) > 0 THEN LEAST(v_item.discount_amount, v_gross)
+      ELSE 0
+    END;
+    v_unit := round(v_gross - v_discount, 2);
+
+    v_item_total := v_item_total + v_gross * v_quantity;
+    v_subtotal := v_subtotal + v_unit * v_quantity;
+
+    v_priced := v_priced || jsonb_build_object(
+      'food_item_id', v_item.id,
+      'category_id', v_item.category_id,
+      'cook_id', v_cook_id,
+      'quantity', v_quantity,
+      'base_price', v_item.price,
+      'cook_custom_price', v_custom_price,
+      'platform_margin', round(v_margin, 2),
+      'discount', v_gross - v_unit,
+      'unit_price', v_unit,
+      'line_total', v_unit * v_quantity,
+      'tax_rate', public.get_food_item_tax_rate(v_item.id)
+    );
+  END LOOP;
+
+  -- Coupon
+  IF NULLIF(trim(p_coupon_code), '') IS NOT NULL THEN
+    SELECT * INTO v_coupon
+    FROM coupons
+    WHERE upper(code) = upper(trim(p_coupon_code));
+
+    IF NOT FOUND THEN
+      v_coupon_error := 'Invalid coupon code';
+    ELSE
+      v_coupon_error := public.coupon_error(v_coupon.id, p_service_type, p_panchayat_id, auth.uid(), v_subtotal);
+    END IF;
+
+    IF v_coupon_error IS NULL THEN
+      SELECT COALESCE(sum((l->>'line_total')::numeric), 0), count(*)
+      INTO v_eligible_total, v_eligible_count
+      FROM jsonb_array_elements(v_priced) l
+      WHERE cardinality(v_coupon.category_ids) = 0
+        OR (l->>'category_id')::uuid = ANY(v_coupon.category_ids);
+
+      IF v_eligible_total <= 0 THEN
+        v_coupon_error := 'This coupon does not apply to the items in your cart';
+      ELSIF v_coupon.discount_type = 'percent' THEN
+        v_coupon_discount := round(v_eligible_total * v_coupon.discount_value / 100, 2);
+      ELSE
+        v_coupon_discount := LEAST(v_coupon.discount_value, v_eligible_total);
+      END IF;
+
+      IF v_coupon.max_discount_amount IS NOT NULL THEN
+        v_coupon_discount := LEAST(v_coupon_discount, v_coupon.max_discount_amount);
+      END IF;
+    END IF;
+  END IF;
+
+  -- Allocate the coupon to eligible lines (last one takes the rounding remainder), then tax each line
+  FOR v_line IN SELECT * FROM jsonb_array_elements(v_priced)
+  LOOP
+    v_line_coupon := 0;
+    IF v_coupon_discount > 0 AND (
+      cardinality(v_coupon.category_ids) = 0
+      OR (v_line->>'category_id')::uuid = ANY(v_coupon.category_ids)
+    ) THEN
+      v_eligible_seen := v_eligible_seen + 1;
+      IF v_eligible_seen = v_eligible_count THEN
+        v_line_coupon := v_coupon_discount - v_allocated;
+      ELSE
+        v_line_coupon := round(v_coupon_discount * (v_line->>'line_total')::numeric / v_eligible_total, 2);
+      END IF;
+      v_allocated := v_allocated + v_line_coupon;
+    END IF;
+
+    SELECT g.cgst, g.sgst INTO v_cgst, v_sgst
+    FROM public.split_gst((v_line->>'line_total')::numeric - v_line_coupon, (v_line->>'tax_rate')::numeric) g;
+
+    v_cgst_total := v_cgst_total + v_cgst;
+    v_sgst_total := v_sgst_total + v_sgst;
+
+    v_lines := v_lines || ((v_line - 'category_id') || jsonb_build_object(
+      'coupon_discount', v_line_coupon,
+      'cgst_amount', v_cgst,
+      'sgst_amount', v_sgst
+    ));
+  END LOOP;
+
+  v_delivery := public.calculate_delivery_charge(p_service_type::text, v_subtotal - v_coupon_discount, p_cloud_kitchen_slot_id);
+  v_delivery_tax_rate := public.get_charge_tax_rate('delivery');
+  SELECT v_cgst_total + g.cgst, v_sgst_total + g.sgst INTO v_cgst_total, v_sgst_total
+  FROM public.split_gst(v_delivery, v_delivery_tax_rate) g;
+
+  RETURN jsonb_build_object(
+    'lines', v_lines,
+    'item_total', v_item_total,
+    'discount_total', v_item_total - v_subtotal,
+    'subtotal', v_subtotal,
+    'coupon_id', CASE WHEN v_coupon_error IS NULL THEN v_coupon.id END,
+    'coupon_code', CASE WHEN v_coupon_error IS NULL THEN v_coupon.code END,
+    'coupon_discount', v_coupon_discount,
+    'coupon_error', v_coupon_error,
+    'delivery_charge', v_delivery,
+    'delivery_tax_rate', v_delivery_tax_rate,
+    'delivery_tax', round(v_delivery * v_delivery_tax_rate / 100, 2),
+    'cgst_total', v_cgst_total,
+    'sgst_total', v_sgst_total,
+    'tax_total', v_cgst_total + v_sgst_total,
+    'total', v_subtotal - v_coupon_discount + v_delivery + v_cgst_total + v_sgst_total
+  );
+END;
+$$;
+
+-- place_order redeems the coupon against the new order
+CREATE OR REPLACE FUNCTION public.place_order(
+  p_service_type service_type,
+  p_items jsonb,
+  p_panchayat_id uuid,
+  p_ward_number integer,
+  p_delivery_address text,
+  p_delivery_instructions text DEFAULT NULL,
+  p_cloud_kitchen_slot_id uuid DEFAULT NULL,
+  p_expected_total numeric DEFAULT NULL,
+  p_coupon_code text DEFAULT NULL
+)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_user_id uuid;
+  v_quote jsonb;
+  v_total numeric;
+  v_coupon_id uuid;
+  v_order orders%ROWTYPE;
+BEGIN
+  v_user_id := auth.uid();
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_service_type = 'indoor_events' THEN
+    RAISE EXCEPTION 'Indoor event bookings cannot be placed through checkout';
+  END IF;
+
+  -- Serialise redemptions of the same coupon so usage limits hold
+  IF NULLIF(trim(p_coupon_code), '') IS NOT NULL THEN
+    PERFORM 1 FROM coupons WHERE upper(code) = upper(trim(p_coupon_code)) FOR UPDATE;
+  END IF;
+
+  v_quote := public.quote_order(p_service_type, p_items, p_cloud_kitchen_slot_id, p_coupon_code, p_panchayat_id);
+  v_total := (v_quote->>'total')::numeric;
+
+  IF v_quote->>'coupon_error' IS NOT NULL THEN
+    RAISE EXCEPTION '%', v_quote->>'coupon_error';
+  END IF;
+
+  IF p_expected_total IS NOT NULL AND abs(v_total - p_expected_total) > 0.01 THEN
+    RAISE EXCEPTION 'Prices have changed since you opened checkout. Please review your order.';
+  END IF;
+
+  v_coupon_id := NULLIF(v_quote->>'coupon_id', '')::uuid;
+
+  -- order_number is overwritten by the set_order_number trigger
+  INSERT INTO orders (
+    order_number,
+    customer_id,
+    service_type,
+    total_amount,
+    delivery_amount,
+    coupon_id,
+    coupon_code,
+    coupon_discount_amount,
+    cgst_amount,
+    sgst_amount,
+    delivery_tax_rate,
+    delivery_tax_amount,
+    panchayat_id,
+    ward_number,
+    delivery_address,
+    delivery_instructions,
+    cloud_kitchen_slot_id,
+    status,
+    cook_status,
+    delivery_status,
+    cook_assignment_status,
+    estimated_delivery_minutes
+  ) VALUES (
+    '',
+    v_user_id,
+    p_service_type,
+    v_total,
+    (v_quote->>'delivery_charge')::numeric,
+    v_coupon_id,
+    v_quote->>'coupon_code',
+    (v_quote->>'coupon_discount')::numeric,
+    (v_quote->>'cgst_total')::numeric,
+    (v_quote->>'sgst_total')::numeric,
+    (v_quote->>'delivery_tax_rate')::numeric,
+    (v_quote->>'delivery_tax')::numeric,
+    p_panchayat_id,
+    p_ward_number,
+    p_delivery_address,
+    p_delivery_instructions,
+    p_cloud_kitchen_slot_id,
+    CASE WHEN p_service_type = 'homemade' THEN 'confirmed' ELSE 'pending' END::order_status,
+    'pending',
+    'pending',
+    CASE WHEN p_service_type = 'cloud_kitchen' THEN 'pending' END,
+    CASE WHEN p_service_type = 'homemade' THEN 60 END
+  )
+  RETURNING * INTO v_order;
+
+  INSERT INTO order_items (
+    order_id, food_item_id, quantity, unit_price, total_price, assigned_cook_id,
+    coupon_discount, tax_rate, cgst_amount, sgst_amount
+  )
+  SELECT
+    v_order.id,
+    (line->>'food_item_id')::uuid,
+    (line->>'quantity')::integer,
+    (line->>'unit_price')::numeric,
+    (line->>'line_total')::numeric,
+    NULLIF(line->>'cook_id', '')::uuid,
+    (line->>'coupon_discount')::numeric,
+    (line->>'tax_rate')::numeric,
+    (line->>'cgst_amount')::numeric,
+    (line->>'sgst_amount')::numeric
+  FROM jsonb_array_elements(v_quote->'lines') AS line;
+
+  IF v_coupon_id IS NOT NULL THEN
+    INSERT INTO coupon_redemptions (coupon_id, order_id, user_id, discount_amount)
+    VALUES (v_coupon_id, v_order.id, v_user_id, (v_quote->>'coupon_discount')::numeric);
+  END IF;
+
+  RETURN v_order;
+END;
+$$;
@@ -0,0 +1,324 @@
+-- Customer wallet spending
+-- Wallet balances can pay for all or part of an order at checkout, or an
+-- indoor-event advance. Refunds go back to the wallet when the order is cancelled.
+
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS wallet_amount NUMERIC NOT NULL DEFAULT 0 CHECK (wallet_amount >= 0),
+  ADD COLUMN IF NOT EXISTS wallet_refunded_at TIMESTAMP WITH TIME ZONE;
+
+-- Take money out of a customer's wallet. The wallet row is locked so
+-- concurrent spends cannot overdraw it.
+CREATE OR REPLACE FUNCTION public.debit_customer_wallet(
+  p_user_id uuid,
+  p_amount numeric,
+  p_reference_type text,
+  p_reference_id uuid,
+  p_description text
+)
+RETURNS numeric
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_wallet customer_wallets%ROWTYPE;
+  v_balance numeric;
+BEGIN
+  SELECT * INTO v_wallet FROM customer_wallets WHERE user_id = p_user_id FOR UPDATE;
+
+  IF NOT FOUND OR v_wallet.balance < p_amount THEN
+    RAISE EXCEPTION 'Insufficient wallet balance';
+  END IF;
+
+  v_balance := v_wallet.balance - p_amount;
+
+  UPDATE customer_wallets
+  SET balance = v_balance,
+      total_withdrawn = total_withdrawn + p_amount
+  WHERE id = v_wallet.id;
+
+  INSERT INTO customer_wallet_transactions (
+    wallet_id, amount, balance_after, transaction_type, reference_type, reference_id, description, status, created_by
+  ) VALUES (
+    v_wallet.id, p_amount, v_balance, 'debit', p_reference_type, p_reference_id, p_description, 'completed', auth.uid()
+  );
+
+  RETURN v_balance;
+END;
+$$;
+
+-- Put money back into a customer's wallet, creating the wallet if needed
+CREATE OR REPLACE FUNCTION public.credit_customer_wallet(
+  p_user_id uuid,
+  p_amount numeric,
+  p_reference_type text,
+  p_reference_id uuid,
+  p_description text
+)
+RETURNS numeric
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_wallet customer_wallets%ROWTYPE;
+  v_balance numeric;
+BEGIN
+  SELECT * INTO v_wallet FROM customer_wallets WHERE user_id = p_user_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    INSERT INTO customer_wallets (user_id, balance)
+    VALUES (p_user_id, 0)
+    RETURNING * INTO v_wallet;
+  END IF;
+
+  v_balance := v_wallet.balance + p_amount;
+
+  UPDATE customer_wallets
+  SET balance = v_balance,
+      total_credited = total_credited + p_amount
+  WHERE id = v_wallet.id;
+
+  INSERT INTO customer_wallet_transactions (
+    wallet_id, amount, balance_after, transaction_type, reference_type, reference_id, description, status, created_by
+  ) VALUES (
+    v_wallet.id, p_amount, v_balance, 'credit', p_reference_type, p_reference_id, p_description, 'completed', auth.uid()
+  );
+
+  RETURN v_balance;
+END;
+$$;
+
+-- Only other database functions may move wallet money
+REVOKE EXECUTE ON FUNCTION public.debit_customer_wallet(uuid, numeric, text, uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.credit_customer_wallet(uuid, numeric, text, uuid, text) FROM PUBLIC, anon, authenticated;
+
+-- The wallet amount argument changes the signature
+DROP FUNCTION IF EXISTS public.place_order(service_type, jsonb, uuid, integer, text, text, uuid, numeric, text);
+
+-- place_order can take part or all of the total from the customer's wallet.
+-- Whatever is left is collected in cash on delivery.
+CREATE OR REPLACE FUNCTION public.place_order(
+  p_service_type service_type,
+  p_items jsonb,
+  p_panchayat_id uuid,
+  p_ward_number integer,
+  p_delivery_address text,
+  p_delivery_instructions text DEFAULT NULL,
+  p_cloud_kitchen_slot_id uuid DEFAULT NULL,
+  p_expected_total numeric DEFAULT NULL,
+  p_coupon_code text DEFAULT NULL,
+  p_wallet_amount numeric DEFAULT 0
+)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_user_id uuid;
+  v_quote jsonb;
+  v_total numeric;
+  v_coupon_id uuid;
+  v_wallet_amount numeric;
+  v_order orders%ROWTYPE;
+BEGIN
+  v_user_id := auth.uid();
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_service_type = 'indoor_events' THEN
+    RAISE EXCEPTION 'Indoor event bookings cannot be placed through checkout';
+  END IF;
+
+  -- Serialise redemptions of the same coupon so usage limits hold
+  IF NULLIF(trim(p_coupon_code), '') IS NOT NULL THEN
+    PERFORM 1 FROM coupons WHERE upper(code) = upper(trim(p_coupon_code)) FOR UPDATE;
+  END IF;
+
+  v_quote := public.quote_order(p_service_type, p_items, p_cloud_kitchen_slot_id, p_coupon_code, p_panchayat_id);
+  v_total := (v_quote->>'total')::numeric;
+
+  IF v_quote->>'coupon_error' IS NOT NULL THEN
+    RAISE EXCEPTION '%', v_quote->>'coupon_error';
+  END IF;
+
+  IF p_expected_total IS NOT NULL AND abs(v_total - p_expected_total) > 0.01 THEN
+    RAISE EXCEPTION 'Prices have changed since you opened checkout. Please review your order.';
+  END IF;
+
+  IF COALESCE(p_wallet_amount, 0) < 0 THEN
+    RAISE EXCEPTION 'Invalid wallet amount';
+  END IF;
+
+  v_wallet_amount := LEAST(round(COALESCE(p_wallet_amount, 0), 2), v_total);
+
+  v_coupon_id := NULLIF(v_quote->>'coupon_id', '')::uuid;
+
+  -- order_number is overwritten by the set_order_number trigger
+  INSERT INTO orders (
+    order_number,
+    customer_id,
+    service_type,
+    total_amount,
+    delivery_amount,
+    coupon_id,
+    coupon_code,
+    coupon_discount_amount,
+    wallet_amount,
+    cgst_amount,
+    sgst_amount,
+    delivery_tax_rate,
+    delivery_tax_amount,
+    panchayat_id,
+    ward_number,
+    delivery_address,
+    delivery_instructions,
+    cloud_kitchen_slot_id,
+    status,
+    cook_status,
+    delivery_status,
+    cook_assignment_status,
+    estimated_delivery_minutes
+  ) VALUES (
+    '',
+    v_user_id,
+    p_service_type,
+    v_total,
+    (v_quote->>'delivery_charge')::numeric,
+    v_coupon_id,
+    v_quote->>'coupon_code',
+    (v_quote->>'coupon_discount')::numeric,
+    v_wallet_amount,
+    (v_quote->>'cgst_total')::numeric,
+    (v_quote->>'sgst_total')::numeric,
+    (v_quote->>'delivery_tax_rate')::numeric,
+    (v_quote->>'delivery_tax')::numeric,
+    p_panchayat_id,
+    p_ward_number,
+    p_delivery_address,
+    p_delivery_instructions,
+    p_cloud_kitchen_slot_id,
+    CASE WHEN p_service_type = 'homemade' THEN 'confirmed' ELSE 'pending' END::order_status,
+    'pending',
+    'pending',
+    CASE WHEN p_service_type = 'cloud_kitchen' THEN 'pending' END,
+    CASE WHEN p_service_type = 'homemade' THEN 60 END
+  )
+  RETURNING * INTO v_order;
+
+  INSERT INTO order_items (
+    order_id, food_item_id, quantity, unit_price, total_price, assigned_cook_id,
+    coupon_discount, tax_rate, cgst_amount, sgst_amount
+  )
+  SELECT
+    v_order.id,
+    (line->>'food_item_id')::uuid,
+    (line->>'quantity')::integer,
+    (line->>'unit_price')::numeric,
+    (line->>'line_total')::numeric,
+    NULLIF(line->>'cook_id', '')::uuid,
+    (line->>'coupon_discount')::numeric,
+    (line->>'tax_rate')::numeric,
+    (line->>'cgst_amount')::numeric,
+    (line->>'sgst_amount')::numeric
+  FROM jsonb_array_elements(v_quote->'lines') AS line;
+
+  IF v_coupon_id IS NOT NULL THEN
+    INSERT INTO coupon_redemptions (coupon_id, order_id, user_id, discount_amount)
+    VALUES (v_coupon_id, v_order.id, v_user_id, (v_quote->>'coupon_discount')::numeric);
+  END IF;
+
+  IF v_wallet_amount > 0 THEN
+    PERFORM public.debit_customer_wallet(
+      v_user_id, v_wallet_amount, 'order', v_order.id,
+      'Payment for order ' || v_order.order_number
+    );
+  END IF;
+
+  RETURN v_order;
+END;
+$$;
+
+-- Pay (part of) an indoor-event advance from the wallet. Anything not covered
+-- is still collected in cash and verified by an admin.
+CREATE OR REPLACE FUNCTION public.pay_order_advance_from_wallet(
+  p_order_id uuid,
+  p_amount numeric
+)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_user_id uuid;
+  v_order orders%ROWTYPE;
+  v_amount numeric;
+BEGIN
+  v_user_id := auth.uid();
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id AND customer_id = v_user_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_order.service_type <> 'indoor_events'
+     OR COALESCE(v_order.advance_payment_required, 0) <= 0
+     OR COALESCE(v_order.advance_payment_received, false)
+     OR v_order.status = 'cancelled' THEN
+    RAISE EXCEPTION 'This order has no advance payment due';
+  END IF;
+
+  v_amount := LEAST(round(p_amount, 2), v_order.advance_payment_required - v_order.wallet_amount);
+
+  IF v_amount IS NULL OR v_amount <= 0 THEN
+    RAISE EXCEPTION 'Invalid wallet amount';
+  END IF;
+
+  PERFORM public.debit_customer_wallet(
+    v_user_id, v_amount, 'order', v_order.id,
+    'Advance payment for order ' || v_order.order_number
+  );
+
+  UPDATE orders
+  SET wallet_amount = wallet_amount + v_amount,
+      advance_payment_received = (wallet_amount + v_amount) >= advance_payment_required
+  WHERE id = v_order.id
+  RETURNING * INTO v_order;
+
+  RETURN v_order;
+END;
+$$;
+
+-- Refund the wallet share of an order when it is cancelled
+CREATE OR REPLACE FUNCTION public.refund_order_wallet_payment()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF NEW.wallet_amount > 0 AND NEW.wallet_refunded_at IS NULL THEN
+    PERFORM public.credit_customer_wallet(
+      NEW.customer_id, NEW.wallet_amount, 'order', NEW.id,
+      'Refund for cancelled order ' || NEW.order_number
+    );
+    NEW.wallet_refunded_at := now();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_order_cancelled_refund_wallet
+  BEFORE UPDATE ON public.orders
+  FOR EACH ROW
+  WHEN (NEW.status = 'cancelled' AND OLD.status IS DISTINCT FROM 'cancelled')
+  EXECUTE FUNCTION public.refund_order_wallet_payment();
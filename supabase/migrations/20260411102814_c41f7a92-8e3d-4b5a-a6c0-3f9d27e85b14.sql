@@ -0,0 +1,174 @@
+-- Online payments
+-- A payment starts as an intent created by the payments edge function, is
+-- authorised when the provider confirms the customer paid, and ends captured
+-- or failed. Status changes only come from the edge functions (service role).
+
+CREATE TABLE public.payments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  purpose TEXT NOT NULL DEFAULT 'order' CHECK (purpose IN ('order', 'event_advance')),
+  provider TEXT NOT NULL CHECK (provider IN ('razorpay', 'mock')),
+  provider_order_id TEXT,
+  provider_payment_id TEXT,
+  amount NUMERIC NOT NULL CHECK (amount > 0),
+  currency TEXT NOT NULL DEFAULT 'INR',
+  status TEXT NOT NULL DEFAULT 'intent' CHECK (status IN ('intent', 'authorised', 'captured', 'failed')),
+  failure_reason TEXT,
+  authorised_at TIMESTAMPTZ,
+  captured_at TIMESTAMPTZ,
+  failed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_payments_order_id ON public.payments(order_id);
+CREATE INDEX idx_payments_user_id ON public.payments(user_id);
+CREATE UNIQUE INDEX idx_payments_provider_order ON public.payments(provider, provider_order_id);
+
+-- Amount captured online so far; cash due is total - wallet - online
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS online_paid_amount NUMERIC NOT NULL DEFAULT 0 CHECK (online_paid_amount >= 0);
+
+ALTER TABLE public.payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their payments"
+ON public.payments FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all payments"
+ON public.payments FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'super_admin'));
+
+CREATE TRIGGER update_payments_updated_at
+BEFORE UPDATE ON public.payments
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Move a payment along intent -> authorised -> captured / failed.
+-- Repeated or out-of-order updates (webhook retries, webhook racing the
+-- checkout callback) are ignored. A capture credits the order, and an event
+-- advance is marked received once wallet + online payments cover it.
+CREATE OR REPLACE FUNCTION public.apply_payment_update(
+  p_payment_id uuid,
+  p_status text,
+  p_provider_payment_id text DEFAULT NULL,
+  p_failure_reason text DEFAULT NULL
+)
+RETURNS public.payments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_payment payments%ROWTYPE;
+  v_order orders%ROWTYPE;
+BEGIN
+  SELECT * INTO v_payment FROM payments WHERE id = p_payment_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment not found';
+  END IF;
+
+  IF v_payment.status IN ('captured', 'failed')
+     OR v_payment.status = p_status
+     OR (v_payment.status = 'authorised' AND p_status = 'intent') THEN
+    RETURN v_payment;
+  END IF;
+
+  IF p_status NOT IN ('authorised', 'captured', 'failed') THEN
+    RAISE EXCEPTION 'Invalid payment status %', p_status;
+  END IF;
+
+  UPDATE payments
+  SET status = p_status,
+      provider_payment_id = COALESCE(p_provider_payment_id, provider_payment_id),
+      failure_reason = CASE WHEN p_status = 'failed' THEN p_failure_reason END,
+      authorised_at = CASE WHEN p_status IN ('authorised', 'captured') THEN COALESCE(authorised_at, now()) ELSE authorised_at END,
+      captured_at = CASE WHEN p_status = 'captured' THEN now() END,
+      failed_at = CASE WHEN p_status = 'failed' THEN now() END
+  WHERE id = p_payment_id
+  RETURNING * INTO v_payment;
+
+  IF p_status = 'captured' THEN
+    UPDATE orders
+    SET online_paid_amount = online_paid_amount + v_payment.amount
+    WHERE id = v_payment.order_id
+    RETURNING * INTO v_order;
+
+    IF v_payment.purpose = 'event_advance'
+       AND v_order.wallet_amount + v_order.online_paid_amount >= COALESCE(v_order.advance_payment_required, 0) THEN
+      UPDATE orders
+      SET advance_payment_received = true,
+          advance_payment_verified_at = now()
+      WHERE id = v_order.id;
+    END IF;
+  END IF;
+
+  RETURN v_payment;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_payment_update(uuid, text, text, text) FROM PUBLIC, anon, authenticated;
+
+-- Wallet advance payments now count online payments towards the advance too
+CREATE OR REPLACE FUNCTION public.pay_order_advance_from_wallet(
+  p_order_id uuid,
+  p_amount numeric
+)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_user_id uuid;
+  v_order orders%ROWTYPE;
+  v_amount numeric;
+BEGIN
+  v_user_id := auth.uid();
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id AND customer_id = v_user_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_order.service_type <> 'indoor_events'
+     OR COALESCE(v_order.advance_payment_required, 0) <= 0
+     OR COALESCE(v_order.advance_payment_received, false)
+     OR v_order.status = 'cancelled' THEN
+    RAISE EXCEPTION 'This order has no advance payment due';
+  END IF;
+
+  v_amount := LEAST(
+    round(p_amount, 2),
+    v_order.advance_payment_required - v_order.wallet_amount - v_order.online_paid_amount
+  );
+
+  IF v_amount IS NULL OR v_amount <= 0 THEN
+    RAISE EXCEPTION 'Invalid wallet amount';
+  END IF;
+
+  PERFORM public.debit_customer_wallet(
+    v_user_id, v_amount, 'order', v_order.id,
+    'Advance payment for order ' || v_order.order_number
+  );
+
+  UPDATE orders
+  SET wallet_amount = wallet_amount + v_amount,
+      advance_payment_received = (wallet_amount + v_amount + online_paid_amount) >= advance_payment_required,
+      advance_payment_verified_at = CASE
+        WHEN (wallet_amount + v_amount + online_paid_amount) >= advance_payment_required THEN now()
+        ELSE advance_payment_verified_at
+      END
+  WHERE id = v_order.id
+  RETURNING * INTO v_order;
+
+  RETURN v_order;
+END;
+$$;
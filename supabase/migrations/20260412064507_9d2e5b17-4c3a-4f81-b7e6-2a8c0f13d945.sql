@@ -0,0 +1,261 @@
+-- Order state machine
+-- Every allowed change of orders.status, cook_status, delivery_status and
+-- cook_assignment_status is a row in order_status_transitions, together with
+-- the roles that may make it. A trigger rejects anything else and every change
+-- is written to order_status_history.
+
+CREATE TABLE public.order_status_transitions (
+  field TEXT NOT NULL CHECK (field IN ('status', 'cook_status', 'delivery_status', 'cook_assignment_status')),
+  from_status TEXT NOT NULL,
+  to_status TEXT NOT NULL,
+  -- customer, cook, delivery_staff, admin, system (no signed-in user: jobs, edge functions)
+  allowed_roles TEXT[] NOT NULL,
+  PRIMARY KEY (field, from_status, to_status)
+);
+
+ALTER TABLE public.order_status_transitions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view order status transitions"
+ON public.order_status_transitions FOR SELECT
+USING (true);
+
+CREATE POLICY "Admins can manage order status transitions"
+ON public.order_status_transitions FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'super_admin'))
+WITH CHECK (public.has_role(auth.uid(), 'super_admin'));
+
+INSERT INTO public.order_status_transitions (field, from_status, to_status, allowed_roles) VALUES
+  -- Order lifecycle
+  ('status', 'pending', 'confirmed', '{cook,admin,system}'),
+  ('status', 'pending', 'preparing', '{admin,system}'),
+  ('status', 'pending', 'cancelled', '{customer,cook,admin,system}'),
+  ('status', 'confirmed', 'preparing', '{cook,admin,system}'),
+  ('status', 'confirmed', 'ready', '{admin,system}'),
+  ('status', 'confirmed', 'out_for_delivery', '{admin,system}'),
+  ('status', 'confirmed', 'cancelled', '{customer,cook,admin,system}'),
+  ('status', 'preparing', 'ready', '{cook,admin,system}'),
+  ('status', 'preparing', 'out_for_delivery', '{admin,system}'),
+  ('status', 'preparing', 'delivered', '{admin,system}'),
+  ('status', 'preparing', 'cancelled', '{admin,system}'),
+  ('status', 'ready', 'preparing', '{admin,system}'),
+  ('status', 'ready', 'out_for_delivery', '{delivery_staff,admin,system}'),
+  ('status', 'ready', 'delivered', '{admin,system}'),
+  ('status', 'ready', 'cancelled', '{admin,system}'),
+  ('status', 'out_for_delivery', 'delivered', '{delivery_staff,admin,system}'),
+  ('status', 'out_for_delivery', 'cancelled', '{admin,system}'),
+  ('status', 'cancelled', 'pending', '{admin}'),
+  -- Kitchen
+  ('cook_status', 'pending', 'accepted', '{cook,admin,system}'),
+  ('cook_status', 'pending', 'rejected', '{cook,admin,system}'),
+  ('cook_status', 'accepted', 'preparing', '{cook,admin,system}'),
+  ('cook_status', 'accepted', 'ready', '{admin,system}'),
+  ('cook_status', 'preparing', 'ready', '{cook,admin,system}'),
+  ('cook_status', 'accepted', 'pending', '{admin,system}'),
+  ('cook_status', 'rejected', 'pending', '{admin,system}'),
+  ('cook_status', 'preparing', 'pending', '{admin,system}'),
+  -- Delivery
+  ('delivery_status', 'pending', 'assigned', '{delivery_staff,admin,system}'),
+  ('delivery_status', 'assigned', 'picked_up', '{delivery_staff,admin,system}'),
+  ('delivery_status', 'assigned', 'pending', '{admin,system}'),
+  ('delivery_status', 'assigned', 'delivered', '{admin,system}'),
+  ('delivery_status', 'picked_up', 'delivered', '{delivery_staff,admin,system}'),
+  -- Cook assignment
+  ('cook_assignment_status', 'pending', 'accepted', '{cook,admin,system}'),
+  ('cook_assignment_status', 'pending', 'rejected', '{cook,admin,system}'),
+  ('cook_assignment_status', 'pending', 'auto_rejected', '{admin,system}'),
+  ('cook_assignment_status', 'accepted', 'pending', '{admin,system}'),
+  ('cook_assignment_status', 'rejected', 'pending', '{admin,system}'),
+  ('cook_assignment_status', 'auto_rejected', 'pending', '{admin,system}');
+
+-- Picked-up deliveries now move the order to out_for_delivery; bring
+-- in-flight orders in line so they can still be delivered
+UPDATE public.orders
+SET status = 'out_for_delivery'
+WHERE status = 'ready' AND delivery_status = 'picked_up';
+
+CREATE TABLE public.order_status_history (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  field TEXT NOT NULL,
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  changed_by UUID,
+  actor_role TEXT NOT NULL,
+  reason TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_order_status_history_order_id ON public.order_status_history(order_id, created_at);
+
+ALTER TABLE public.order_status_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Customers can view their order history"
+ON public.order_status_history FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.orders o
+  WHERE o.id = order_status_history.order_id AND o.customer_id = auth.uid()
+));
+
+CREATE POLICY "Staff can view order history"
+ON public.order_status_history FOR SELECT
+TO authenticated
+USING (
+  public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'super_admin')
+  OR public.is_cook(auth.uid()) OR public.is_delivery_staff(auth.uid())
+);
+
+-- Roles the current user holds for this order, most privileged first
+CREATE OR REPLACE FUNCTION public.order_actor_roles(p_customer_id uuid)
+RETURNS text[]
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_roles text[] := '{}';
+BEGIN
+  IF v_user_id IS NULL THEN
+    RETURN ARRAY['system'];
+  END IF;
+
+  IF has_role(v_user_id, 'admin') OR has_role(v_user_id, 'super_admin') THEN
+    v_roles := v_roles || 'admin'::text;
+  END IF;
+  IF is_cook(v_user_id) THEN
+    v_roles := v_roles || 'cook'::text;
+  END IF;
+  IF is_delivery_staff(v_user_id) THEN
+    v_roles := v_roles || 'delivery_staff'::text;
+  END IF;
+  IF p_customer_id = v_user_id THEN
+    v_roles := v_roles || 'customer'::text;
+  END IF;
+
+  RETURN v_roles;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.enforce_order_status_transitions()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_roles text[] := public.order_actor_roles(NEW.customer_id);
+  v_field text;
+  v_from text;
+  v_to text;
+BEGIN
+  FOREACH v_field IN ARRAY ARRAY['status', 'cook_status', 'delivery_status', 'cook_assignment_status'] LOOP
+    v_from := to_jsonb(OLD)->>v_field;
+    v_to := to_jsonb(NEW)->>v_field;
+
+    -- Unset statuses may be initialised to anything
+    CONTINUE WHEN v_from IS NULL OR v_to IS NULL OR v_from = v_to;
+
+    IF NOT EXISTS (
+      SELECT 1 FROM order_status_transitions t
+      WHERE t.field = v_field
+        AND t.from_status = v_from
+        AND t.to_status = v_to
+        AND t.allowed_roles && v_roles
+    ) THEN
+      RAISE EXCEPTION 'Order % cannot change % from "%" to "%"',
+        OLD.order_number, replace(v_field, '_', ' '), v_from, v_to
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Runs before the other BEFORE UPDATE triggers (they fire in name order)
+CREATE TRIGGER a_enforce_order_status_transitions
+  BEFORE UPDATE OF status, cook_status, delivery_status, cook_assignment_status ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_order_status_transitions();
+
+-- Reason for the changes made in this transaction, set by update_order_status
+CREATE OR REPLACE FUNCTION public.log_order_status_history()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_roles text[] := public.order_actor_roles(NEW.customer_id);
+  v_reason text := NULLIF(current_setting('app.order_status_reason', true), '');
+  v_field text;
+  v_from text;
+  v_to text;
+  v_role text;
+BEGIN
+  FOREACH v_field IN ARRAY ARRAY['status', 'cook_status', 'delivery_status', 'cook_assignment_status'] LOOP
+    v_from := CASE WHEN TG_OP = 'UPDATE' THEN to_jsonb(OLD)->>v_field END;
+    v_to := to_jsonb(NEW)->>v_field;
+
+    CONTINUE WHEN v_to IS NULL OR v_from IS NOT DISTINCT FROM v_to;
+
+    -- Record the role that allowed the change
+    SELECT r INTO v_role
+    FROM unnest(v_roles) WITH ORDINALITY AS u(r, n)
+    WHERE v_from IS NULL OR EXISTS (
+      SELECT 1 FROM order_status_transitions t
+      WHERE t.field = v_field AND t.from_status = v_from AND t.to_status = v_to AND r = ANY (t.allowed_roles)
+    )
+    ORDER BY n
+    LIMIT 1;
+
+    INSERT INTO order_status_history (order_id, field, from_status, to_status, changed_by, actor_role, reason)
+    VALUES (NEW.id, v_field, v_from, v_to, auth.uid(), COALESCE(v_role, v_roles[1], 'system'), v_reason);
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_order_status_history
+  AFTER INSERT OR UPDATE OF status, cook_status, delivery_status, cook_assignment_status ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_order_status_history();
+
+-- Change an order's status with a reason for the history. Runs as the caller,
+-- so the orders RLS policies and the transition table both apply.
+CREATE OR REPLACE FUNCTION public.update_order_status(
+  p_order_id uuid,
+  p_status order_status,
+  p_reason text DEFAULT NULL
+)
+RETURNS public.orders
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+BEGIN
+  PERFORM set_config('app.order_status_reason', COALESCE(p_reason, ''), true);
+
+  UPDATE orders
+  SET status = p_status
+  WHERE id = p_order_id
+  RETURNING * INTO v_order;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  PERFORM set_config('app.order_status_reason', '', true);
+
+  RETURN v_order;
+END;
+$$;
+
+-- Seed history with the current state of existing orders
+INSERT INTO public.order_status_history (order_id, field, from_status, to_status, actor_role, reason, created_at)
+SELECT id, 'status', NULL, status::text, 'system', 'Recorded when status history was introduced', updated_at
+FROM public.orders;
@@ -0,0 +1,45 @@
+-- Live order tracking
+-- Customers follow their order on OrderDetail through realtime changes to
+-- orders and order_status_history.
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'orders'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.orders;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'order_status_history'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.order_status_history;
+  END IF;
+END;
+$$;
+
+-- Delivery partner on an order, for the customer who placed it. Customers
+-- cannot read delivery_staff directly.
+CREATE OR REPLACE FUNCTION public.get_order_delivery_partner(p_order_id uuid)
+RETURNS TABLE(name text, mobile_number text, vehicle_type text, vehicle_number text)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT ds.name, ds.mobile_number, ds.vehicle_type, ds.vehicle_number
+  FROM orders o
+  JOIN delivery_staff ds ON ds.user_id = o.assigned_delivery_id
+  WHERE o.id = p_order_id
+    AND (
+      o.customer_id = auth.uid()
+      OR has_role(auth.uid(), 'admin')
+      OR has_role(auth.uid(), 'super_admin')
+    )
+  LIMIT 1;
+END;
+$$;
@@ -0,0 +1,300 @@
+-- Cancellation policies
+-- Customer cancellations are checked against cancellation_policies for the
+-- order's service type: the first active matching rule (by display_order)
+-- decides whether the order can be cancelled and what fee is kept. Whatever
+-- the customer paid by wallet or online, less the fee, goes back to their
+-- wallet. Cancellations by staff are always refunded in full. Assigned cooks
+-- and the delivery partner are notified.
+
+ALTER TABLE public.orders
+ADD COLUMN cancelled_at TIMESTAMPTZ,
+ADD COLUMN cancelled_by_role TEXT,
+ADD COLUMN cancellation_reason TEXT,
+ADD COLUMN cancellation_fee NUMERIC NOT NULL DEFAULT 0,
+ADD COLUMN refund_amount NUMERIC NOT NULL DEFAULT 0;
+
+CREATE TABLE public.cancellation_policies (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  service_type service_type NOT NULL,
+  name TEXT NOT NULL,
+  -- Shown to the customer before they cancel
+  description TEXT,
+  -- Order statuses the rule covers; NULL covers every status
+  order_statuses order_status[],
+  -- Indoor events: the rule covers cancellations at least this many days before event_date
+  min_days_before_event INTEGER CHECK (min_days_before_event IS NULL OR min_days_before_event >= 0),
+  allow_cancellation BOOLEAN NOT NULL DEFAULT true,
+  fee_percent NUMERIC NOT NULL DEFAULT 0 CHECK (fee_percent >= 0 AND fee_percent <= 100),
+  -- Keep the event advance (advance_payment_required) on top of the fee
+  forfeit_advance BOOLEAN NOT NULL DEFAULT false,
+  display_order INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_cancellation_policies_service_type ON public.cancellation_policies(service_type, display_order);
+
+ALTER TABLE public.cancellation_policies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view cancellation policies"
+ON public.cancellation_policies FOR SELECT
+USING (true);
+
+CREATE POLICY "Admins can manage cancellation policies"
+ON public.cancellation_policies FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'super_admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'super_admin'));
+
+CREATE TRIGGER update_cancellation_policies_updated_at
+  BEFORE UPDATE ON public.cancellation_policies
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.cancellation_policies
+  (service_type, name, description, order_statuses, min_days_before_event, allow_cancellation, fee_percent, forfeit_advance, display_order)
+VALUES
+  ('cloud_kitchen', 'Before the cook accepts', 'Free cancellation until the cook accepts your order', '{pending}', NULL, true, 0, false, 10),
+  ('cloud_kitchen', 'Accepted', 'A 10% fee applies once the cook has accepted your order', '{confirmed}', NULL, true, 10, false, 20),
+  ('cloud_kitchen', 'Being prepared', 'A 50% fee applies once your food is being prepared', '{preparing,ready}', NULL, true, 50, false, 30),
+  ('cloud_kitchen', 'Out for delivery', 'Orders cannot be cancelled once they are out for delivery', '{out_for_delivery,delivered}', NULL, false, 0, false, 40),
+  ('homemade', 'Before the cook accepts', 'Free cancellation until the cook accepts your order', '{pending}', NULL, true, 0, false, 10),
+  ('homemade', 'Accepted', 'A 10% fee applies once the cook has accepted your order', '{confirmed}', NULL, true, 10, false, 20),
+  ('homemade', 'Being prepared', 'A 50% fee applies once your food is being prepared', '{preparing,ready}', NULL, true, 50, false, 30),
+  ('homemade', 'Out for delivery', 'Orders cannot be cancelled once they are out for delivery', '{out_for_delivery,delivered}', NULL, false, 0, false, 40),
+  ('indoor_events', 'Event under way', 'Events cannot be cancelled once the food has left the kitchen', '{out_for_delivery,delivered}', NULL, false, 0, false, 10),
+  ('indoor_events', '7 or more days before', 'Free cancellation up to 7 days before the event', NULL, 7, true, 0, false, 20),
+  ('indoor_events', '2 to 6 days before', 'The advance payment is kept for cancellations within 7 days of the event', NULL, 2, true, 0, true, 30),
+  ('indoor_events', 'Within 2 days', 'The advance payment and 25% of the booking are kept for cancellations within 2 days of the event', NULL, NULL, true, 25, true, 40);
+
+-- Customers may cancel while the food is being prepared; the policy decides the fee
+UPDATE public.order_status_transitions
+SET allowed_roles = allowed_roles || 'customer'::text
+WHERE field = 'status' AND to_status = 'cancelled' AND from_status IN ('preparing', 'ready');
+
+-- Terms for cancelling an order as it stands now
+CREATE OR REPLACE FUNCTION public.evaluate_cancellation_policy(p_order public.orders)
+RETURNS TABLE(allowed boolean, fee numeric, refund numeric, policy_name text, description text)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_policy cancellation_policies%ROWTYPE;
+  v_days integer;
+  v_paid numeric := COALESCE(p_order.wallet_amount, 0) + COALESCE(p_order.online_paid_amount, 0);
+  v_fee numeric := 0;
+BEGIN
+  IF p_order.event_date IS NOT NULL THEN
+    v_days := (p_order.event_date AT TIME ZONE 'Asia/Kolkata')::date - (now() AT TIME ZONE 'Asia/Kolkata')::date;
+  END IF;
+
+  SELECT * INTO v_policy
+  FROM cancellation_policies p
+  WHERE p.is_active
+    AND p.service_type = p_order.service_type
+    AND (p.order_statuses IS NULL OR p_order.status = ANY (p.order_statuses))
+    AND (p.min_days_before_event IS NULL OR v_days >= p.min_days_before_event)
+  ORDER BY p.display_order, p.created_at
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT true, 0::numeric, v_paid, NULL::text, NULL::text;
+    RETURN;
+  END IF;
+
+  IF v_policy.allow_cancellation THEN
+    v_fee := round(p_order.total_amount * v_policy.fee_percent / 100, 2);
+    IF v_policy.forfeit_advance THEN
+      v_fee := v_fee + COALESCE(p_order.advance_payment_required, 0);
+    END IF;
+    -- Only money already received can be kept
+    v_fee := LEAST(v_fee, v_paid);
+  END IF;
+
+  RETURN QUERY SELECT v_policy.allow_cancellation, v_fee, v_paid - v_fee, v_policy.name, v_policy.description;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.evaluate_cancellation_policy(public.orders) FROM PUBLIC, anon, authenticated;
+
+-- Cancellation terms for the customer before they cancel
+CREATE OR REPLACE FUNCTION public.get_cancellation_terms(p_order_id uuid)
+RETURNS TABLE(allowed boolean, fee numeric, refund numeric, policy_name text, description text)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id;
+
+  IF NOT FOUND OR (
+    v_order.customer_id IS DISTINCT FROM auth.uid()
+    AND NOT has_role(auth.uid(), 'admin')
+    AND NOT has_role(auth.uid(), 'super_admin')
+  ) THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  RETURN QUERY SELECT * FROM evaluate_cancellation_policy(v_order);
+END;
+$$;
+
+-- Customers cannot update orders directly; this is how they cancel
+CREATE OR REPLACE FUNCTION public.cancel_order(p_order_id uuid, p_reason text DEFAULT NULL)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND OR v_order.customer_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_order.status = 'cancelled' THEN
+    RAISE EXCEPTION 'Order is already cancelled';
+  END IF;
+
+  PERFORM set_config('app.order_status_reason', COALESCE(p_reason, 'Cancelled by customer'), true);
+
+  UPDATE orders
+  SET status = 'cancelled'
+  WHERE id = p_order_id
+  RETURNING * INTO v_order;
+
+  PERFORM set_config('app.order_status_reason', '', true);
+
+  RETURN v_order;
+END;
+$$;
+
+-- The cancellation trigger below refunds wallet and online payments together
+DROP TRIGGER IF EXISTS on_order_cancelled_refund_wallet ON public.orders;
+DROP FUNCTION IF EXISTS public.refund_order_wallet_payment();
+
+CREATE OR REPLACE FUNCTION public.apply_order_cancellation()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_roles text[] := public.order_actor_roles(NEW.customer_id);
+  v_terms record;
+  v_fee numeric := 0;
+  v_refund numeric;
+BEGIN
+  -- The policy only binds customers; staff cancellations are refunded in full
+  IF NOT (v_roles && ARRAY['admin', 'cook', 'delivery_staff', 'system']) THEN
+    SELECT * INTO v_terms FROM public.evaluate_cancellation_policy(OLD);
+
+    IF NOT v_terms.allowed THEN
+      RAISE EXCEPTION '%', COALESCE(v_terms.description, 'This order can no longer be cancelled')
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    v_fee := v_terms.fee;
+  END IF;
+
+  v_refund := GREATEST(COALESCE(NEW.wallet_amount, 0) + COALESCE(NEW.online_paid_amount, 0) - v_fee, 0);
+
+  NEW.cancelled_at := now();
+  NEW.cancelled_by_role := COALESCE(v_roles[1], 'system');
+  NEW.cancellation_reason := NULLIF(current_setting('app.order_status_reason', true), '');
+  NEW.cancellation_fee := v_fee;
+
+  IF NEW.wallet_refunded_at IS NULL THEN
+    NEW.refund_amount := v_refund;
+    IF v_refund > 0 THEN
+      PERFORM public.credit_customer_wallet(
+        NEW.customer_id, v_refund, 'order', NEW.id,
+        'Refund for cancelled order ' || NEW.order_number
+      );
+      NEW.wallet_refunded_at := now();
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_order_cancelled_apply_policy
+  BEFORE UPDATE ON public.orders
+  FOR EACH ROW
+  WHEN (NEW.status = 'cancelled' AND OLD.status IS DISTINCT FROM 'cancelled')
+  EXECUTE FUNCTION public.apply_order_cancellation();
+
+-- In-app notifications for staff
+CREATE TABLE public.notifications (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  order_id UUID REFERENCES public.orders(id) ON DELETE CASCADE,
+  -- order_cancelled
+  type TEXT NOT NULL,
+  title TEXT NOT NULL,
+  message TEXT NOT NULL,
+  read_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_notifications_user_id ON public.notifications(user_id, created_at DESC);
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their notifications"
+ON public.notifications FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+CREATE POLICY "Users can mark their notifications read"
+ON public.notifications FOR UPDATE
+TO authenticated
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid());
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
+
+CREATE OR REPLACE FUNCTION public.notify_order_cancelled()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_message text := 'Order #' || NEW.order_number || ' has been cancelled'
+    || COALESCE(': ' || NEW.cancellation_reason, '');
+BEGIN
+  INSERT INTO notifications (user_id, order_id, type, title, message)
+  SELECT DISTINCT c.user_id, NEW.id, 'order_cancelled', 'Order cancelled', v_message
+  FROM cooks c
+  WHERE c.user_id IS NOT NULL
+    AND c.user_id IS DISTINCT FROM auth.uid()
+    AND (
+      c.id IN (SELECT oac.cook_id FROM order_assigned_cooks oac WHERE oac.order_id = NEW.id)
+      OR c.id IN (SELECT oi.assigned_cook_id FROM order_items oi WHERE oi.order_id = NEW.id)
+    );
+
+  IF NEW.assigned_delivery_id IS NOT NULL AND NEW.assigned_delivery_id IS DISTINCT FROM auth.uid() THEN
+    INSERT INTO notifications (user_id, order_id, type, title, message)
+    VALUES (NEW.assigned_delivery_id, NEW.id, 'order_cancelled', 'Order cancelled', v_message);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_order_cancelled_notify
+  AFTER UPDATE ON public.orders
+  FOR EACH ROW
+  WHEN (NEW.status = 'cancelled' AND OLD.status IS DISTINCT FROM 'cancelled')
+  EXECUTE FUNCTION public.notify_order_cancelled();
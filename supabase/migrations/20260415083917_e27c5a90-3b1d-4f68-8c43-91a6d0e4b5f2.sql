@@ -0,0 +1,229 @@
+-- Checkout groups
+-- A cart can hold items from several services and cooks. Checkout splits it
+-- into one order per service type and cook, all linked to a checkout group
+-- the customer pays for once.
+
+CREATE TABLE public.checkout_groups (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  customer_id UUID NOT NULL,
+  -- Sum of the orders' totals when placed
+  total_amount NUMERIC NOT NULL DEFAULT 0,
+  wallet_amount NUMERIC NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_checkout_groups_customer_id ON public.checkout_groups(customer_id);
+
+ALTER TABLE public.checkout_groups ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Customers can view their checkout groups"
+ON public.checkout_groups FOR SELECT
+USING (auth.uid() = customer_id);
+
+CREATE POLICY "Admins can view all checkout groups"
+ON public.checkout_groups FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'super_admin'));
+
+ALTER TABLE public.orders
+ADD COLUMN checkout_group_id UUID REFERENCES public.checkout_groups(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_orders_checkout_group_id ON public.orders(checkout_group_id);
+
+-- A payment can now cover every order in a checkout group
+ALTER TABLE public.payments
+  ALTER COLUMN order_id DROP NOT NULL,
+  ADD COLUMN checkout_group_id UUID REFERENCES public.checkout_groups(id) ON DELETE CASCADE,
+  DROP CONSTRAINT IF EXISTS payments_purpose_check,
+  ADD CONSTRAINT payments_purpose_check CHECK (purpose IN ('order', 'event_advance', 'checkout_group')),
+  ADD CONSTRAINT payments_target_check CHECK (
+    (purpose = 'checkout_group' AND checkout_group_id IS NOT NULL)
+    OR (purpose <> 'checkout_group' AND order_id IS NOT NULL)
+  );
+
+CREATE INDEX idx_payments_checkout_group_id ON public.payments(checkout_group_id);
+
+-- Minutes until delivery for a set of quote lines: the slowest dish plus the ride
+CREATE OR REPLACE FUNCTION public.estimate_delivery_minutes(p_items jsonb)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SET search_path TO 'public'
+AS $$
+  SELECT COALESCE(MAX(fi.preparation_time_minutes), 30) + 30
+  FROM jsonb_array_elements(p_items) AS line
+  JOIN food_items fi ON fi.id = (line->>'food_item_id')::uuid;
+$$;
+
+-- Place one order per group of cart lines, all under a new checkout group.
+-- p_groups: [{ service_type, items: [{ food_item_id, quantity, cook_id }], expected_total, coupon_code }]
+-- The wallet amount is spent on the orders in the order given.
+CREATE OR REPLACE FUNCTION public.place_checkout(
+  p_groups jsonb,
+  p_panchayat_id uuid,
+  p_ward_number integer,
+  p_delivery_address text,
+  p_delivery_instructions text DEFAULT NULL,
+  p_wallet_amount numeric DEFAULT 0
+)
+RETURNS public.checkout_groups
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_group checkout_groups%ROWTYPE;
+  v_entry jsonb;
+  v_order orders%ROWTYPE;
+  v_wallet_left numeric := round(COALESCE(p_wallet_amount, 0), 2);
+  v_total numeric := 0;
+  v_wallet_used numeric := 0;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF jsonb_typeof(p_groups) <> 'array' OR jsonb_array_length(p_groups) = 0 THEN
+    RAISE EXCEPTION 'Your cart is empty';
+  END IF;
+
+  IF v_wallet_left < 0 THEN
+    RAISE EXCEPTION 'Invalid wallet amount';
+  END IF;
+
+  IF (SELECT count(*) FROM jsonb_array_elements(p_groups) AS g WHERE NULLIF(trim(g->>'coupon_code'), '') IS NOT NULL) > 1 THEN
+    RAISE EXCEPTION 'A coupon can only be applied to one order';
+  END IF;
+
+  INSERT INTO checkout_groups (customer_id)
+  VALUES (v_user_id)
+  RETURNING * INTO v_group;
+
+  FOR v_entry IN SELECT * FROM jsonb_array_elements(p_groups) LOOP
+    v_order := public.place_order(
+      (v_entry->>'service_type')::service_type,
+      v_entry->'items',
+      p_panchayat_id,
+      p_ward_number,
+      p_delivery_address,
+      p_delivery_instructions,
+      NULL,
+      NULLIF(v_entry->>'expected_total', '')::numeric,
+      NULLIF(trim(v_entry->>'coupon_code'), ''),
+      v_wallet_left
+    );
+
+    UPDATE orders
+    SET checkout_group_id = v_group.id,
+        estimated_delivery_minutes = public.estimate_delivery_minutes(v_entry->'items')
+    WHERE id = v_order.id;
+
+    v_wallet_left := v_wallet_left - v_order.wallet_amount;
+    v_wallet_used := v_wallet_used + v_order.wallet_amount;
+    v_total := v_total + v_order.total_amount;
+  END LOOP;
+
+  UPDATE checkout_groups
+  SET total_amount = v_total,
+      wallet_amount = v_wallet_used
+  WHERE id = v_group.id
+  RETURNING * INTO v_group;
+
+  RETURN v_group;
+END;
+$$;
+
+-- Captured group payments are shared out over the group's open orders by what
+-- each still owes; anything left over (an order cancelled meanwhile) goes to
+-- the customer's wallet.
+CREATE OR REPLACE FUNCTION public.apply_payment_update(
+  p_payment_id uuid,
+  p_status text,
+  p_provider_payment_id text DEFAULT NULL,
+  p_failure_reason text DEFAULT NULL
+)
+RETURNS public.payments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_payment payments%ROWTYPE;
+  v_order orders%ROWTYPE;
+  v_remaining numeric;
+  v_share numeric;
+BEGIN
+  SELECT * INTO v_payment FROM payments WHERE id = p_payment_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment not found';
+  END IF;
+
+  IF v_payment.status IN ('captured', 'failed')
+     OR v_payment.status = p_status
+     OR (v_payment.status = 'authorised' AND p_status = 'intent') THEN
+    RETURN v_payment;
+  END IF;
+
+  IF p_status NOT IN ('authorised', 'captured', 'failed') THEN
+    RAISE EXCEPTION 'Invalid payment status %', p_status;
+  END IF;
+
+  UPDATE payments
+  SET status = p_status,
+      provider_payment_id = COALESCE(p_provider_payment_id, provider_payment_id),
+      failure_reason = CASE WHEN p_status = 'failed' THEN p_failure_reason END,
+      authorised_at = CASE WHEN p_status IN ('authorised', 'captured') THEN COALESCE(authorised_at, now()) ELSE authorised_at END,
+      captured_at = CASE WHEN p_status = 'captured' THEN now() END,
+      failed_at = CASE WHEN p_status = 'failed' THEN now() END
+  WHERE id = p_payment_id
+  RETURNING * INTO v_payment;
+
+  IF p_status = 'captured' AND v_payment.purpose = 'checkout_group' THEN
+    v_remaining := v_payment.amount;
+
+    FOR v_order IN
+      SELECT * FROM orders
+      WHERE checkout_group_id = v_payment.checkout_group_id
+        AND status NOT IN ('cancelled', 'delivered')
+      ORDER BY created_at
+      FOR UPDATE
+    LOOP
+      EXIT WHEN v_remaining <= 0;
+      v_share := LEAST(v_remaining, GREATEST(v_order.total_amount - v_order.wallet_amount - v_order.online_paid_amount, 0));
+      CONTINUE WHEN v_share <= 0;
+
+      UPDATE orders
+      SET online_paid_amount = online_paid_amount + v_share
+      WHERE id = v_order.id;
+
+      v_remaining := v_remaining - v_share;
+    END LOOP;
+
+    IF v_remaining > 0 THEN
+      PERFORM public.credit_customer_wallet(
+        v_payment.user_id, v_remaining, 'payment', v_payment.id,
+        'Unused part of an online payment'
+      );
+    END IF;
+  ELSIF p_status = 'captured' THEN
+    UPDATE orders
+    SET online_paid_amount = online_paid_amount + v_payment.amount
+    WHERE id = v_payment.order_id
+    RETURNING * INTO v_order;
+
+    IF v_payment.purpose = 'event_advance'
+       AND v_order.wallet_amount + v_order.online_paid_amount >= COALESCE(v_order.advance_payment_required, 0) THEN
+      UPDATE orders
+      SET advance_payment_received = true,
+          advance_payment_verified_at = now()
+      WHERE id = v_order.id;
+    END IF;
+  END IF;
+
+  RETURN v_payment;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_payment_update(uuid, text, text, text) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,361 @@
+-- Scheduled delivery
+-- Cloud kitchen and homemade orders can be placed for a later date, up to the
+-- service's max_advance_days ahead. Cloud kitchen orders take the date's meal
+-- slot; homemade orders pick a delivery window on it. Cooks and delivery
+-- staff are only alerted from release_at onwards.
+
+ALTER TABLE public.service_modules
+ADD COLUMN max_advance_days INTEGER NOT NULL DEFAULT 0 CHECK (max_advance_days >= 0);
+
+UPDATE public.service_modules
+SET max_advance_days = 3
+WHERE service_type IN ('cloud_kitchen', 'homemade');
+
+ALTER TABLE public.orders
+ADD COLUMN scheduled_for DATE,
+ADD COLUMN delivery_window_start TIMESTAMPTZ,
+ADD COLUMN delivery_window_end TIMESTAMPTZ,
+-- When the kitchen starts on the order; NULL for orders placed for now
+ADD COLUMN release_at TIMESTAMPTZ;
+
+CREATE INDEX idx_orders_release_at ON public.orders(release_at) WHERE release_at IS NOT NULL;
+
+-- Delivery window and release time for an order placed for a date.
+-- Slot orders close cutoff_hours_before the slot starts on that date, which is
+-- also when the kitchen is told. Window orders need the dishes' preparation
+-- and ride time before the window opens. Returns NULL for orders placed for now.
+CREATE OR REPLACE FUNCTION public.schedule_order_delivery(
+  p_service_type service_type,
+  p_items jsonb,
+  p_cloud_kitchen_slot_id uuid DEFAULT NULL,
+  p_scheduled_for date DEFAULT NULL,
+  p_window_start time DEFAULT NULL,
+  p_window_end time DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_today date := (now() AT TIME ZONE 'Asia/Kolkata')::date;
+  v_date date := p_scheduled_for;
+  v_max_days integer;
+  v_slot cloud_kitchen_slots%ROWTYPE;
+  v_start timestamptz;
+  v_end timestamptz;
+  v_release timestamptz;
+  v_lead integer;
+BEGIN
+  -- Slot orders are always for a date; today's when none was picked
+  IF v_date IS NULL AND p_cloud_kitchen_slot_id IS NOT NULL THEN
+    v_date := v_today;
+  END IF;
+
+  IF v_date IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT max_advance_days INTO v_max_days
+  FROM service_modules
+  WHERE service_type = p_service_type::text;
+
+  IF v_date < v_today OR v_date > v_today + COALESCE(v_max_days, 0) THEN
+    IF COALESCE(v_max_days, 0) = 0 THEN
+      RAISE EXCEPTION 'Orders can only be placed for today';
+    END IF;
+    RAISE EXCEPTION 'Orders can only be placed up to % days ahead', v_max_days;
+  END IF;
+
+  IF p_cloud_kitchen_slot_id IS NOT NULL THEN
+    SELECT * INTO v_slot FROM cloud_kitchen_slots WHERE id = p_cloud_kitchen_slot_id AND is_active;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'This meal slot is not available';
+    END IF;
+
+    v_start := (v_date + v_slot.start_time) AT TIME ZONE 'Asia/Kolkata';
+    v_end := (v_date + v_slot.end_time) AT TIME ZONE 'Asia/Kolkata';
+    v_release := v_start - make_interval(hours => v_slot.cutoff_hours_before);
+
+    IF now() >= v_release THEN
+      RAISE EXCEPTION 'Ordering for % on % has closed', v_slot.name, to_char(v_date, 'DD Mon');
+    END IF;
+  ELSE
+    IF p_window_start IS NULL OR p_window_end IS NULL OR p_window_end <= p_window_start THEN
+      RAISE EXCEPTION 'Please choose a delivery window';
+    END IF;
+
+    v_start := (v_date + p_window_start) AT TIME ZONE 'Asia/Kolkata';
+    v_end := (v_date + p_window_end) AT TIME ZONE 'Asia/Kolkata';
+    v_lead := public.estimate_delivery_minutes(p_items);
+    v_release := v_start - make_interval(mins => v_lead);
+
+    IF now() > v_release THEN
+      RAISE EXCEPTION 'This delivery window is too soon. Please choose a later one.';
+    END IF;
+  END IF;
+
+  IF v_end <= v_start THEN
+    v_end := v_end + interval '1 day';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'scheduled_for', v_date,
+    'window_start', v_start,
+    'window_end', v_end,
+    'release_at', v_release
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.schedule_order_delivery(service_type, jsonb, uuid, date, time, time) FROM PUBLIC, anon, authenticated;
+
+-- place_order: takes a delivery date (and window) and holds the order until release_at
+DROP FUNCTION IF EXISTS public.place_order(service_type, jsonb, uuid, integer, text, text, uuid, numeric, text, numeric);
+
+CREATE OR REPLACE FUNCTION public.place_order(
+  p_service_type service_type,
+  p_items jsonb,
+  p_panchayat_id uuid,
+  p_ward_number integer,
+  p_delivery_address text,
+  p_delivery_instructions text DEFAULT NULL,
+  p_cloud_kitchen_slot_id uuid DEFAULT NULL,
+  p_expected_total numeric DEFAULT NULL,
+  p_coupon_code text DEFAULT NULL,
+  p_wallet_amount numeric DEFAULT 0,
+  p_scheduled_for date DEFAULT NULL,
+  p_window_start time DEFAULT NULL,
+  p_window_end time DEFAULT NULL
+)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_user_id uuid;
+  v_quote jsonb;
+  v_schedule jsonb;
+  v_total numeric;
+  v_coupon_id uuid;
+  v_wallet_amount numeric;
+  v_order orders%ROWTYPE;
+BEGIN
+  v_user_id := auth.uid();
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_service_type = 'indoor_events' THEN
+    RAISE EXCEPTION 'Indoor event bookings cannot be placed through checkout';
+  END IF;
+
+  v_schedule := public.schedule_order_delivery(
+    p_service_type, p_items, p_cloud_kitchen_slot_id, p_scheduled_for, p_window_start, p_window_end
+  );
+
+  -- Serialise redemptions of the same coupon so usage limits hold
+  IF NULLIF(trim(p_coupon_code), '') IS NOT NULL THEN
+    PERFORM 1 FROM coupons WHERE upper(code) = upper(trim(p_coupon_code)) FOR UPDATE;
+  END IF;
+
+  v_quote := public.quote_order(p_service_type, p_items, p_cloud_kitchen_slot_id, p_coupon_code, p_panchayat_id);
+  v_total := (v_quote->>'total')::numeric;
+
+  IF v_quote->>'coupon_error' IS NOT NULL THEN
+    RAISE EXCEPTION '%', v_quote->>'coupon_error';
+  END IF;
+
+  IF p_expected_total IS NOT NULL AND abs(v_total - p_expected_total) > 0.01 THEN
+    RAISE EXCEPTION 'Prices have changed since you opened checkout. Please review your order.';
+  END IF;
+
+  IF COALESCE(p_wallet_amount, 0) < 0 THEN
+    RAISE EXCEPTION 'Invalid wallet amount';
+  END IF;
+
+  v_wallet_amount := LEAST(round(COALESCE(p_wallet_amount, 0), 2), v_total);
+
+  v_coupon_id := NULLIF(v_quote->>'coupon_id', '')::uuid;
+
+  -- order_number is overwritten by the set_order_number trigger
+  INSERT INTO orders (
+    order_number,
+    customer_id,
+    service_type,
+    total_amount,
+    delivery_amount,
+    coupon_id,
+    coupon_code,
+    coupon_discount_amount,
+    wallet_amount,
+    cgst_amount,
+    sgst_amount,
+    delivery_tax_rate,
+    delivery_tax_amount,
+    panchayat_id,
+    ward_number,
+    delivery_address,
+    delivery_instructions,
+    cloud_kitchen_slot_id,
+    scheduled_for,
+    delivery_window_start,
+    delivery_window_end,
+    release_at,
+    status,
+    cook_status,
+    delivery_status,
+    cook_assignment_status,
+    estimated_delivery_minutes
+  ) VALUES (
+    '',
+    v_user_id,
+    p_service_type,
+    v_total,
+    (v_quote->>'delivery_charge')::numeric,
+    v_coupon_id,
+    v_quote->>'coupon_code',
+    (v_quote->>'coupon_discount')::numeric,
+    v_wallet_amount,
+    (v_quote->>'cgst_total')::numeric,
+    (v_quote->>'sgst_total')::numeric,
+    (v_quote->>'delivery_tax_rate')::numeric,
+    (v_quote->>'delivery_tax')::numeric,
+    p_panchayat_id,
+    p_ward_number,
+    p_delivery_address,
+    p_delivery_instructions,
+    p_cloud_kitchen_slot_id,
+    (v_schedule->>'scheduled_for')::date,
+    (v_schedule->>'window_start')::timestamptz,
+    (v_schedule->>'window_end')::timestamptz,
+    (v_schedule->>'release_at')::timestamptz,
+    CASE WHEN p_service_type = 'homemade' THEN 'confirmed' ELSE 'pending' END::order_status,
+    'pending',
+    'pending',
+    CASE WHEN p_service_type = 'cloud_kitchen' THEN 'pending' END,
+    CASE WHEN p_service_type = 'homemade' THEN 60 END
+  )
+  RETURNING * INTO v_order;
+
+  INSERT INTO order_items (
+    order_id, food_item_id, quantity, unit_price, total_price, assigned_cook_id,
+    coupon_discount, tax_rate, cgst_amount, sgst_amount, modifiers
+  )
+  SELECT
+    v_order.id,
+    (line->>'food_item_id')::uuid,
+    (line->>'quantity')::integer,
+    (line->>'unit_price')::numeric,
+    (line->>'line_total')::numeric,
+    NULLIF(line->>'cook_id', '')::uuid,
+    (line->>'coupon_discount')::numeric,
+    (line->>'tax_rate')::numeric,
+    (line->>'cgst_amount')::numeric,
+    (line->>'sgst_amount')::numeric,
+    COALESCE(line->'modifiers', '[]'::jsonb)
+  FROM jsonb_array_elements(v_quote->'lines') AS line;
+
+  IF v_coupon_id IS NOT NULL THEN
+    INSERT INTO coupon_redemptions (coupon_id, order_id, user_id, discount_amount)
+    VALUES (v_coupon_id, v_order.id, v_user_id, (v_quote->>'coupon_discount')::numeric);
+  END IF;
+
+  IF v_wallet_amount > 0 THEN
+    PERFORM public.debit_customer_wallet(
+      v_user_id, v_wallet_amount, 'order', v_order.id,
+      'Payment for order ' || v_order.order_number
+    );
+  END IF;
+
+  RETURN v_order;
+END;
+$$;
+
+-- place_checkout: every order in the group is placed for the same date and window
+DROP FUNCTION IF EXISTS public.place_checkout(jsonb, uuid, integer, text, text, numeric);
+
+CREATE OR REPLACE FUNCTION public.place_checkout(
+  p_groups jsonb,
+  p_panchayat_id uuid,
+  p_ward_number integer,
+  p_delivery_address text,
+  p_delivery_instructions text DEFAULT NULL,
+  p_wallet_amount numeric DEFAULT 0,
+  p_scheduled_for date DEFAULT NULL,
+  p_window_start time DEFAULT NULL,
+  p_window_end time DEFAULT NULL
+)
+RETURNS public.checkout_groups
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_group checkout_groups%ROWTYPE;
+  v_entry jsonb;
+  v_order orders%ROWTYPE;
+  v_wallet_left numeric := round(COALESCE(p_wallet_amount, 0), 2);
+  v_total numeric := 0;
+  v_wallet_used numeric := 0;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF jsonb_typeof(p_groups) <> 'array' OR jsonb_array_length(p_groups) = 0 THEN
+    RAISE EXCEPTION 'Your cart is empty';
+  END IF;
+
+  IF v_wallet_left < 0 THEN
+    RAISE EXCEPTION 'Invalid wallet amount';
+  END IF;
+
+  IF (SELECT count(*) FROM jsonb_array_elements(p_groups) AS g WHERE NULLIF(trim(g->>'coupon_code'), '') IS NOT NULL) > 1 THEN
+    RAISE EXCEPTION 'A coupon can only be applied to one order';
+  END IF;
+
+  INSERT INTO checkout_groups (customer_id)
+  VALUES (v_user_id)
+  RETURNING * INTO v_group;
+
+  FOR v_entry IN SELECT * FROM jsonb_array_elements(p_groups) LOOP
+    v_order := public.place_order(
+      (v_entry->>'service_type')::service_type,
+      v_entry->'items',
+      p_panchayat_id,
+      p_ward_number,
+      p_delivery_address,
+      p_delivery_instructions,
+      NULL,
+      NULLIF(v_entry->>'expected_total', '')::numeric,
+      NULLIF(trim(v_entry->>'coupon_code'), ''),
+      v_wallet_left,
+      p_scheduled_for,
+      p_window_start,
+      p_window_end
+    );
+
+    UPDATE orders
+    SET checkout_group_id = v_group.id,
+        estimated_delivery_minutes = public.estimate_delivery_minutes(v_entry->'items')
+    WHERE id = v_order.id;
+
+    v_wallet_left := v_wallet_left - v_order.wallet_amount;
+    v_wallet_used := v_wallet_used + v_order.wallet_amount;
+    v_total := v_total + v_order.total_amount;
+  END LOOP;
+
+  UPDATE checkout_groups
+  SET total_amount = v_total,
+      wallet_amount = v_wallet_used
+  WHERE id = v_group.id
+  RETURNING * INTO v_group;
+
+  RETURN v_group;
+END;
+$$;
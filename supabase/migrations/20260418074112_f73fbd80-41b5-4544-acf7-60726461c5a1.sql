@@ -0,0 +1,569 @@
+-- Meal subscriptions
+-- Customers can subscribe to a cloud kitchen division on chosen weekdays for a
+-- number of weeks, e.g. "Lunch, Mon-Fri, 4 weeks, 1 set of item X". The whole
+-- plan is paid up front from the wallet. generate_subscription_orders() places
+-- each day's order shortly before the division's cutoff, paid from what was
+-- prepaid. Skipped and paused days, days that could not be ordered, and
+-- whatever is left when a plan ends or is cancelled go back to the wallet.
+
+CREATE TABLE public.meal_subscriptions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  customer_id UUID NOT NULL,
+  cloud_kitchen_slot_id UUID NOT NULL REFERENCES public.cloud_kitchen_slots(id),
+  food_item_id UUID NOT NULL REFERENCES public.food_items(id),
+  cook_id UUID NOT NULL REFERENCES public.cooks(id),
+  -- Units per meal, a whole number of sets as in the cart
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  -- ISO weekdays the meal is delivered on, 1 = Monday
+  weekdays SMALLINT[] NOT NULL CHECK (cardinality(weekdays) > 0 AND weekdays <@ '{1,2,3,4,5,6,7}'::smallint[]),
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  panchayat_id UUID NOT NULL REFERENCES public.panchayats(id),
+  ward_number INTEGER NOT NULL,
+  delivery_address TEXT NOT NULL,
+  delivery_instructions TEXT,
+  -- Quoted order total for one meal when the plan was bought
+  meal_price NUMERIC NOT NULL CHECK (meal_price >= 0),
+  meal_count INTEGER NOT NULL CHECK (meal_count > 0),
+  prepaid_amount NUMERIC NOT NULL DEFAULT 0,
+  -- Prepayment not yet spent on orders or refunded
+  balance NUMERIC NOT NULL DEFAULT 0 CHECK (balance >= 0),
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'paused', 'cancelled', 'completed')),
+  paused_at TIMESTAMPTZ,
+  ended_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (end_date >= start_date)
+);
+
+CREATE INDEX idx_meal_subscriptions_customer_id ON public.meal_subscriptions(customer_id);
+CREATE INDEX idx_meal_subscriptions_open ON public.meal_subscriptions(end_date) WHERE status IN ('active', 'paused');
+
+-- Delivery days of a plan that were not ordered, and what was refunded for them
+CREATE TABLE public.meal_subscription_skips (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  subscription_id UUID NOT NULL REFERENCES public.meal_subscriptions(id) ON DELETE CASCADE,
+  skip_date DATE NOT NULL,
+  reason TEXT NOT NULL CHECK (reason IN ('customer', 'paused', 'unavailable')),
+  note TEXT,
+  refund_amount NUMERIC NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (subscription_id, skip_date)
+);
+
+ALTER TABLE public.orders
+ADD COLUMN subscription_id UUID REFERENCES public.meal_subscriptions(id) ON DELETE SET NULL;
+
+-- One order per plan and delivery day
+CREATE UNIQUE INDEX idx_orders_subscription_day ON public.orders(subscription_id, scheduled_for) WHERE subscription_id IS NOT NULL;
+
+ALTER TABLE public.meal_subscriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.meal_subscription_skips ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Customers can view their meal subscriptions"
+ON public.meal_subscriptions FOR SELECT
+USING (auth.uid() = customer_id);
+
+CREATE POLICY "Admins can view all meal subscriptions"
+ON public.meal_subscriptions FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'super_admin'));
+
+CREATE POLICY "Customers can view their skipped meals"
+ON public.meal_subscription_skips FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.meal_subscriptions s
+  WHERE s.id = subscription_id AND s.customer_id = auth.uid()
+));
+
+CREATE POLICY "Admins can view all skipped meals"
+ON public.meal_subscription_skips FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'super_admin'));
+
+CREATE TRIGGER update_meal_subscriptions_updated_at
+  BEFORE UPDATE ON public.meal_subscriptions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Delivery days between two dates on the given weekdays
+CREATE OR REPLACE FUNCTION public.subscription_delivery_dates(p_weekdays smallint[], p_start date, p_end date)
+RETURNS SETOF date
+LANGUAGE sql
+IMMUTABLE
+SET search_path TO 'public'
+AS $$
+  SELECT d::date
+  FROM generate_series(p_start, p_end, interval '1 day') AS d
+  WHERE EXTRACT(ISODOW FROM d)::smallint = ANY (p_weekdays);
+$$;
+
+-- When ordering for a division closes on a date
+CREATE OR REPLACE FUNCTION public.slot_cutoff_at(p_slot public.cloud_kitchen_slots, p_date date)
+RETURNS timestamptz
+LANGUAGE sql
+IMMUTABLE
+SET search_path TO 'public'
+AS $$
+  SELECT ((p_date + p_slot.start_time) AT TIME ZONE 'Asia/Kolkata')
+    - make_interval(hours => p_slot.cutoff_hours_before);
+$$;
+
+-- Move part of a plan's prepayment back to the customer's wallet
+CREATE OR REPLACE FUNCTION public.refund_subscription_balance(
+  p_subscription_id uuid,
+  p_amount numeric,
+  p_description text
+)
+RETURNS numeric
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_sub meal_subscriptions%ROWTYPE;
+  v_refund numeric;
+BEGIN
+  SELECT * INTO v_sub FROM meal_subscriptions WHERE id = p_subscription_id FOR UPDATE;
+
+  v_refund := LEAST(GREATEST(COALESCE(p_amount, 0), 0), v_sub.balance);
+  IF v_refund <= 0 THEN
+    RETURN 0;
+  END IF;
+
+  UPDATE meal_subscriptions SET balance = balance - v_refund WHERE id = v_sub.id;
+
+  PERFORM public.credit_customer_wallet(
+    v_sub.customer_id, v_refund, 'meal_subscription', v_sub.id, p_description
+  );
+
+  RETURN v_refund;
+END;
+$$;
+
+-- Subscribe to a division. The plan runs p_weeks weeks from p_start_date and
+-- is paid in full from the wallet at today's price for one meal.
+CREATE OR REPLACE FUNCTION public.create_meal_subscription(
+  p_cloud_kitchen_slot_id uuid,
+  p_food_item_id uuid,
+  p_cook_id uuid,
+  p_quantity integer,
+  p_weekdays smallint[],
+  p_start_date date,
+  p_weeks integer,
+  p_panchayat_id uuid,
+  p_ward_number integer,
+  p_delivery_address text,
+  p_delivery_instructions text DEFAULT NULL,
+  p_expected_meal_price numeric DEFAULT NULL
+)
+RETURNS public.meal_subscriptions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_today date := (now() AT TIME ZONE 'Asia/Kolkata')::date;
+  v_slot cloud_kitchen_slots%ROWTYPE;
+  v_first date;
+  v_end date;
+  v_quote jsonb;
+  v_meal_price numeric;
+  v_meal_count integer;
+  v_sub meal_subscriptions%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_slot FROM cloud_kitchen_slots WHERE id = p_cloud_kitchen_slot_id AND is_active;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This meal slot is not available';
+  END IF;
+
+  IF p_weeks IS NULL OR p_weeks < 1 OR p_weeks > 12 THEN
+    RAISE EXCEPTION 'Plans run for 1 to 12 weeks';
+  END IF;
+
+  IF p_weekdays IS NULL OR cardinality(p_weekdays) = 0 OR NOT p_weekdays <@ '{1,2,3,4,5,6,7}'::smallint[] THEN
+    RAISE EXCEPTION 'Please choose the days you want meals on';
+  END IF;
+
+  IF p_start_date IS NULL OR p_start_date < v_today THEN
+    RAISE EXCEPTION 'A plan cannot start in the past';
+  END IF;
+
+  IF NULLIF(trim(p_delivery_address), '') IS NULL THEN
+    RAISE EXCEPTION 'Please enter your delivery address';
+  END IF;
+
+  v_end := p_start_date + p_weeks * 7 - 1;
+
+  -- Days whose ordering has already closed are not part of the plan
+  SELECT count(*), min(d) INTO v_meal_count, v_first
+  FROM public.subscription_delivery_dates(p_weekdays, p_start_date, v_end) AS d
+  WHERE public.slot_cutoff_at(v_slot, d) > now();
+
+  IF v_meal_count = 0 THEN
+    RAISE EXCEPTION 'This plan has no delivery days left';
+  END IF;
+
+  v_quote := public.quote_order(
+    'cloud_kitchen',
+    jsonb_build_array(jsonb_build_object(
+      'food_item_id', p_food_item_id, 'quantity', p_quantity, 'cook_id', p_cook_id
+    )),
+    p_cloud_kitchen_slot_id,
+    NULL,
+    p_panchayat_id
+  );
+  v_meal_price := (v_quote->>'total')::numeric;
+
+  IF p_expected_meal_price IS NOT NULL AND abs(v_meal_price - p_expected_meal_price) > 0.01 THEN
+    RAISE EXCEPTION 'Prices have changed since you opened this plan. Please review it.';
+  END IF;
+
+  INSERT INTO meal_subscriptions (
+    customer_id, cloud_kitchen_slot_id, food_item_id, cook_id, quantity, weekdays,
+    start_date, end_date, panchayat_id, ward_number, delivery_address, delivery_instructions,
+    meal_price, meal_count, prepaid_amount, balance
+  ) VALUES (
+    v_user_id, v_slot.id, p_food_item_id, p_cook_id, p_quantity, p_weekdays,
+    v_first, v_end, p_panchayat_id, p_ward_number, trim(p_delivery_address), p_delivery_instructions,
+    v_meal_price, v_meal_count, v_meal_price * v_meal_count, v_meal_price * v_meal_count
+  )
+  RETURNING * INTO v_sub;
+
+  PERFORM public.debit_customer_wallet(
+    v_user_id, v_sub.prepaid_amount, 'meal_subscription', v_sub.id,
+    v_slot.name || ' subscription, ' || v_meal_count || ' meals'
+  );
+
+  RETURN v_sub;
+END;
+$$;
+
+-- Skip one delivery day before its order is placed; the meal is refunded
+CREATE OR REPLACE FUNCTION public.skip_subscription_day(p_subscription_id uuid, p_date date)
+RETURNS public.meal_subscription_skips
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_sub meal_subscriptions%ROWTYPE;
+  v_slot cloud_kitchen_slots%ROWTYPE;
+  v_skip meal_subscription_skips%ROWTYPE;
+BEGIN
+  SELECT * INTO v_sub FROM meal_subscriptions WHERE id = p_subscription_id FOR UPDATE;
+
+  IF NOT FOUND OR v_sub.customer_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Subscription not found';
+  END IF;
+
+  IF v_sub.status NOT IN ('active', 'paused') THEN
+    RAISE EXCEPTION 'This subscription has ended';
+  END IF;
+
+  IF p_date NOT IN (SELECT public.subscription_delivery_dates(v_sub.weekdays, v_sub.start_date, v_sub.end_date)) THEN
+    RAISE EXCEPTION 'There is no meal on %', to_char(p_date, 'DD Mon');
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM orders WHERE subscription_id = v_sub.id AND scheduled_for = p_date) THEN
+    RAISE EXCEPTION 'The meal for % has already been ordered. You can cancel it from your orders.', to_char(p_date, 'DD Mon');
+  END IF;
+
+  SELECT * INTO v_slot FROM cloud_kitchen_slots WHERE id = v_sub.cloud_kitchen_slot_id;
+  IF now() >= public.slot_cutoff_at(v_slot, p_date) THEN
+    RAISE EXCEPTION 'It is too late to skip the meal for %', to_char(p_date, 'DD Mon');
+  END IF;
+
+  INSERT INTO meal_subscription_skips (subscription_id, skip_date, reason)
+  VALUES (v_sub.id, p_date, 'customer')
+  ON CONFLICT (subscription_id, skip_date) DO NOTHING
+  RETURNING * INTO v_skip;
+
+  IF v_skip.id IS NULL THEN
+    RAISE EXCEPTION 'The meal for % is already skipped', to_char(p_date, 'DD Mon');
+  END IF;
+
+  UPDATE meal_subscription_skips
+  SET refund_amount = public.refund_subscription_balance(
+    v_sub.id, v_sub.meal_price, 'Skipped meal on ' || to_char(p_date, 'DD Mon')
+  )
+  WHERE id = v_skip.id
+  RETURNING * INTO v_skip;
+
+  RETURN v_skip;
+END;
+$$;
+
+-- Pause, resume or cancel a plan. Cancelling refunds what is left of the prepayment.
+CREATE OR REPLACE FUNCTION public.set_meal_subscription_status(p_subscription_id uuid, p_status text)
+RETURNS public.meal_subscriptions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_sub meal_subscriptions%ROWTYPE;
+  v_is_admin boolean := public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'super_admin');
+BEGIN
+  SELECT * INTO v_sub FROM meal_subscriptions WHERE id = p_subscription_id FOR UPDATE;
+
+  IF NOT FOUND OR (v_sub.customer_id IS DISTINCT FROM auth.uid() AND NOT v_is_admin) THEN
+    RAISE EXCEPTION 'Subscription not found';
+  END IF;
+
+  IF v_sub.status NOT IN ('active', 'paused') THEN
+    RAISE EXCEPTION 'This subscription has ended';
+  END IF;
+
+  IF p_status = 'paused' THEN
+    UPDATE meal_subscriptions SET status = 'paused', paused_at = now()
+    WHERE id = v_sub.id;
+  ELSIF p_status = 'active' THEN
+    UPDATE meal_subscriptions SET status = 'active', paused_at = NULL
+    WHERE id = v_sub.id;
+  ELSIF p_status = 'cancelled' THEN
+    PERFORM public.refund_subscription_balance(v_sub.id, v_sub.balance, 'Cancelled meal subscription');
+    UPDATE meal_subscriptions SET status = 'cancelled', ended_at = now()
+    WHERE id = v_sub.id;
+  ELSE
+    RAISE EXCEPTION 'Invalid subscription status %', p_status;
+  END IF;
+
+  SELECT * INTO v_sub FROM meal_subscriptions WHERE id = p_subscription_id;
+  RETURN v_sub;
+END;
+$$;
+
+-- Place a plan's order for one delivery day, paid from its prepayment.
+-- The order is held for the kitchen until the division's cutoff, like any
+-- order placed for a later date.
+CREATE OR REPLACE FUNCTION public.place_subscription_order(p_subscription_id uuid, p_date date)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_sub meal_subscriptions%ROWTYPE;
+  v_slot cloud_kitchen_slots%ROWTYPE;
+  v_quote jsonb;
+  v_total numeric;
+  v_wallet_amount numeric;
+  v_start timestamptz;
+  v_end timestamptz;
+  v_order orders%ROWTYPE;
+BEGIN
+  SELECT * INTO v_sub FROM meal_subscriptions WHERE id = p_subscription_id FOR UPDATE;
+
+  SELECT * INTO v_slot FROM cloud_kitchen_slots WHERE id = v_sub.cloud_kitchen_slot_id AND is_active;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This meal slot is not available';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM cooks WHERE id = v_sub.cook_id AND is_active AND is_available
+  ) THEN
+    RAISE EXCEPTION 'The cook is not taking orders';
+  END IF;
+
+  v_quote := public.quote_order(
+    'cloud_kitchen',
+    jsonb_build_array(jsonb_build_object(
+      'food_item_id', v_sub.food_item_id, 'quantity', v_sub.quantity, 'cook_id', v_sub.cook_id
+    )),
+    v_slot.id,
+    NULL,
+    v_sub.panchayat_id
+  );
+  v_total := (v_quote->>'total')::numeric;
+  -- Anything above the prepaid price is collected on delivery
+  v_wallet_amount := LEAST(v_total, v_sub.meal_price, v_sub.balance);
+
+  v_start := (p_date + v_slot.start_time) AT TIME ZONE 'Asia/Kolkata';
+  v_end := (p_date + v_slot.end_time) AT TIME ZONE 'Asia/Kolkata';
+  IF v_end <= v_start THEN
+    v_end := v_end + interval '1 day';
+  END IF;
+
+  -- order_number is overwritten by the set_order_number trigger
+  INSERT INTO orders (
+    order_number,
+    customer_id,
+    service_type,
+    total_amount,
+    delivery_amount,
+    wallet_amount,
+    cgst_amount,
+    sgst_amount,
+    delivery_tax_rate,
+    delivery_tax_amount,
+    panchayat_id,
+    ward_number,
+    delivery_address,
+    delivery_instructions,
+    cloud_kitchen_slot_id,
+    subscription_id,
+    scheduled_for,
+    delivery_window_start,
+    delivery_window_end,
+    release_at,
+    status,
+    cook_status,
+    delivery_status,
+    cook_assignment_status
+  ) VALUES (
+    '',
+    v_sub.customer_id,
+    'cloud_kitchen',
+    v_total,
+    (v_quote->>'delivery_charge')::numeric,
+    v_wallet_amount,
+    (v_quote->>'cgst_total')::numeric,
+    (v_quote->>'sgst_total')::numeric,
+    (v_quote->>'delivery_tax_rate')::numeric,
+    (v_quote->>'delivery_tax')::numeric,
+    v_sub.panchayat_id,
+    v_sub.ward_number,
+    v_sub.delivery_address,
+    v_sub.delivery_instructions,
+    v_slot.id,
+    v_sub.id,
+    p_date,
+    v_start,
+    v_end,
+    GREATEST(public.slot_cutoff_at(v_slot, p_date), now()),
+    'pending',
+    'pending',
+    'pending',
+    'pending'
+  )
+  RETURNING * INTO v_order;
+
+  INSERT INTO order_items (
+    order_id, food_item_id, quantity, unit_price, total_price, assigned_cook_id,
+    coupon_discount, tax_rate, cgst_amount, sgst_amount, modifiers
+  )
+  SELECT
+    v_order.id,
+    (line->>'food_item_id')::uuid,
+    (line->>'quantity')::integer,
+    (line->>'unit_price')::numeric,
+    (line->>'line_total')::numeric,
+    NULLIF(line->>'cook_id', '')::uuid,
+    (line->>'coupon_discount')::numeric,
+    (line->>'tax_rate')::numeric,
+    (line->>'cgst_amount')::numeric,
+    (line->>'sgst_amount')::numeric,
+    COALESCE(line->'modifiers', '[]'::jsonb)
+  FROM jsonb_array_elements(v_quote->'lines') AS line;
+
+  INSERT INTO order_assigned_cooks (order_id, cook_id, cook_status, assigned_at)
+  VALUES (v_order.id, v_sub.cook_id, 'pending', now());
+
+  UPDATE meal_subscriptions SET balance = balance - v_wallet_amount WHERE id = v_sub.id;
+
+  RETURN v_order;
+END;
+$$;
+
+-- Place the orders for delivery days within two hours of their cutoff, record days
+-- that are paused or cannot be ordered, and close plans that have run out.
+-- Runs from pg_cron; admins can also run it by hand. Returns the number of
+-- orders placed.
+CREATE OR REPLACE FUNCTION public.generate_subscription_orders()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_today date := (now() AT TIME ZONE 'Asia/Kolkata')::date;
+  v_sub meal_subscriptions%ROWTYPE;
+  v_slot cloud_kitchen_slots%ROWTYPE;
+  v_date date;
+  v_cutoff timestamptz;
+  v_placed integer := 0;
+  v_note text;
+BEGIN
+  IF auth.uid() IS NOT NULL
+    AND NOT (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'super_admin')) THEN
+    RAISE EXCEPTION 'Not authorised';
+  END IF;
+
+  FOR v_sub IN
+    SELECT * FROM meal_subscriptions
+    WHERE status IN ('active', 'paused')
+      AND start_date <= v_today + 1
+      AND end_date >= v_today
+  LOOP
+    SELECT * INTO v_slot FROM cloud_kitchen_slots WHERE id = v_sub.cloud_kitchen_slot_id;
+
+    -- An early slot's cutoff can fall on the evening before
+    FOR v_date IN
+      SELECT d FROM public.subscription_delivery_dates(v_sub.weekdays, GREATEST(v_sub.start_date, v_today), LEAST(v_sub.end_date, v_today + 1)) AS d
+    LOOP
+      v_cutoff := public.slot_cutoff_at(v_slot, v_date);
+
+      CONTINUE WHEN now() < v_cutoff - interval '2 hours';
+      CONTINUE WHEN EXISTS (SELECT 1 FROM orders WHERE subscription_id = v_sub.id AND scheduled_for = v_date);
+      CONTINUE WHEN EXISTS (SELECT 1 FROM meal_subscription_skips WHERE subscription_id = v_sub.id AND skip_date = v_date);
+
+      v_note := NULL;
+      IF v_sub.status = 'paused' THEN
+        v_note := 'Subscription paused';
+      ELSIF now() >= (v_date + v_slot.start_time) AT TIME ZONE 'Asia/Kolkata' THEN
+        v_note := 'The meal time passed before it could be ordered';
+      ELSE
+        BEGIN
+          PERFORM public.place_subscription_order(v_sub.id, v_date);
+          v_placed := v_placed + 1;
+        EXCEPTION WHEN OTHERS THEN
+          v_note := SQLERRM;
+        END;
+      END IF;
+
+      IF v_note IS NOT NULL THEN
+        INSERT INTO meal_subscription_skips (subscription_id, skip_date, reason, note, refund_amount)
+        VALUES (
+          v_sub.id,
+          v_date,
+          CASE WHEN v_sub.status = 'paused' THEN 'paused' ELSE 'unavailable' END,
+          v_note,
+          public.refund_subscription_balance(
+            v_sub.id, v_sub.meal_price,
+            CASE WHEN v_sub.status = 'paused' THEN 'Paused meal on ' ELSE 'Meal not available on ' END
+              || to_char(v_date, 'DD Mon')
+          )
+        );
+      END IF;
+    END LOOP;
+  END LOOP;
+
+  -- Plans past their last day give back anything left over
+  FOR v_sub IN
+    SELECT * FROM meal_subscriptions
+    WHERE status IN ('active', 'paused') AND end_date < v_today
+  LOOP
+    PERFORM public.refund_subscription_balance(v_sub.id, v_sub.balance, 'Meal subscription ended');
+    UPDATE meal_subscriptions SET status = 'completed', ended_at = now() WHERE id = v_sub.id;
+  END LOOP;
+
+  RETURN v_placed;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.refund_subscription_balance(uuid, numeric, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.place_subscription_order(uuid, date) FROM PUBLIC, anon, authenticated;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'generate-subscription-orders',
+  '*/15 * * * *',
+  $$SELECT public.generate_subscription_orders()$$
+);
@@ -0,0 +1,36 @@
+-- One-time login codes for customers, sent and checked by the customer-auth
+-- edge function. Codes are stored as HMACs and never leave the function.
+CREATE TABLE public.auth_otps (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  mobile_number text NOT NULL,
+  code_hash text NOT NULL,
+  requested_ip text,
+  attempts smallint NOT NULL DEFAULT 0,
+  expires_at timestamptz NOT NULL,
+  consumed_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_auth_otps_mobile ON public.auth_otps (mobile_number, created_at DESC);
+CREATE INDEX idx_auth_otps_ip ON public.auth_otps (requested_ip, created_at DESC);
+
+-- No policies: only the edge function, with the service role, reads or writes codes
+ALTER TABLE public.auth_otps ENABLE ROW LEVEL SECURITY;
+
+-- Codes older than a day no longer count towards any limit
+SELECT cron.schedule(
+  'purge-auth-otps',
+  '17 3 * * *',
+  $$DELETE FROM public.auth_otps WHERE created_at < now() - interval '1 day'$$
+);
+
+-- Customers created before OTP login had the password PC_CUSTOMER_<mobile>,
+-- which anyone knowing the number could use. Replace it with a random one on
+-- every account that still has it; those accounts now sign in by code.
+UPDATE auth.users u
+SET encrypted_password = extensions.crypt(gen_random_uuid()::text, extensions.gen_salt('bf')),
+    updated_at = now()
+FROM public.profiles p
+WHERE p.user_id = u.id
+  AND u.encrypted_password IS NOT NULL
+  AND u.encrypted_password = extensions.crypt('PC_CUSTOMER_' || p.mobile_number, u.encrypted_password);
@@ -0,0 +1,58 @@
+-- Cooks now sign in with Supabase Auth (cooks.user_id). The browser-side
+-- password check read cooks.password_hash through a public policy; both go.
+DROP POLICY IF EXISTS "Anyone can verify cook credentials for login" ON public.cooks;
+ALTER TABLE public.cooks DROP COLUMN IF EXISTS password_hash;
+
+-- Customers still pick and see cooks while ordering
+CREATE POLICY "Anyone can view cooks for ordering"
+ON public.cooks
+FOR SELECT
+USING (true);
+
+-- Cook record of a signed-in user, only while the cook is active
+CREATE OR REPLACE FUNCTION public.get_cook_id(_user_id uuid)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT id
+  FROM public.cooks
+  WHERE user_id = _user_id
+    AND is_active = true
+  LIMIT 1
+$$;
+
+-- Assignments: a cook sees and updates only their own, and cannot hand one to another cook
+DROP POLICY IF EXISTS "Cooks can view their own assignments" ON public.order_assigned_cooks;
+DROP POLICY IF EXISTS "Cooks can update their own assignment status" ON public.order_assigned_cooks;
+
+CREATE POLICY "Cooks can view their own assignments"
+ON public.order_assigned_cooks
+FOR SELECT
+USING (cook_id = public.get_cook_id(auth.uid()));
+
+CREATE POLICY "Cooks can update their own assignment status"
+ON public.order_assigned_cooks
+FOR UPDATE
+USING (cook_id = public.get_cook_id(auth.uid()))
+WITH CHECK (cook_id = public.get_cook_id(auth.uid()));
+
+-- Dishes: customers keep read access for ordering; only the allocated cook changes prices
+DROP POLICY IF EXISTS "Cooks can view their own allocated dishes" ON public.cook_dishes;
+DROP POLICY IF EXISTS "Cooks can update their own dish prices" ON public.cook_dishes;
+
+CREATE POLICY "Cooks can view their own allocated dishes"
+ON public.cook_dishes
+FOR SELECT
+USING (cook_id = public.get_cook_id(auth.uid()));
+
+CREATE POLICY "Cooks can update their own dish prices"
+ON public.cook_dishes
+FOR UPDATE
+USING (cook_id = public.get_cook_id(auth.uid()))
+WITH CHECK (cook_id = public.get_cook_id(auth.uid()));
+
+-- Settlements need no change: "Users can view their own settlements" already
+-- limits them to auth.uid() = user_id, which is the cook's signed-in user.
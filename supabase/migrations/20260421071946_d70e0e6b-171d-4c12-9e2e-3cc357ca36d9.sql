@@ -0,0 +1,224 @@
+-- Admin permissions are per area with three levels: none, view and edit.
+-- Super admins keep full access; admins get what their admin_permissions row grants.
+ALTER TABLE public.admin_permissions
+  ADD COLUMN IF NOT EXISTS perm_items text NOT NULL DEFAULT 'none',
+  ADD COLUMN IF NOT EXISTS perm_orders text NOT NULL DEFAULT 'none',
+  ADD COLUMN IF NOT EXISTS perm_assign_orders text NOT NULL DEFAULT 'none',
+  ADD COLUMN IF NOT EXISTS perm_cooks text NOT NULL DEFAULT 'none',
+  ADD COLUMN IF NOT EXISTS perm_delivery_staff text NOT NULL DEFAULT 'none',
+  ADD COLUMN IF NOT EXISTS perm_reports text NOT NULL DEFAULT 'none',
+  ADD COLUMN IF NOT EXISTS perm_settlements text NOT NULL DEFAULT 'none',
+  ADD COLUMN IF NOT EXISTS perm_banners text NOT NULL DEFAULT 'none',
+  ADD COLUMN IF NOT EXISTS perm_categories text NOT NULL DEFAULT 'none',
+  ADD COLUMN IF NOT EXISTS perm_locations text NOT NULL DEFAULT 'none',
+  ADD COLUMN IF NOT EXISTS perm_special_offers text NOT NULL DEFAULT 'none';
+
+-- The admin screen saved checked permissions as 'full'
+UPDATE public.admin_permissions
+SET perm_items = CASE WHEN perm_items = 'full' THEN 'edit' ELSE perm_items END,
+    perm_orders = CASE WHEN perm_orders = 'full' THEN 'edit' ELSE perm_orders END,
+    perm_assign_orders = CASE WHEN perm_assign_orders = 'full' THEN 'edit' ELSE perm_assign_orders END,
+    perm_cooks = CASE WHEN perm_cooks = 'full' THEN 'edit' ELSE perm_cooks END,
+    perm_delivery_staff = CASE WHEN perm_delivery_staff = 'full' THEN 'edit' ELSE perm_delivery_staff END,
+    perm_reports = CASE WHEN perm_reports = 'full' THEN 'edit' ELSE perm_reports END,
+    perm_settlements = CASE WHEN perm_settlements = 'full' THEN 'edit' ELSE perm_settlements END,
+    perm_banners = CASE WHEN perm_banners = 'full' THEN 'edit' ELSE perm_banners END,
+    perm_categories = CASE WHEN perm_categories = 'full' THEN 'edit' ELSE perm_categories END,
+    perm_locations = CASE WHEN perm_locations = 'full' THEN 'edit' ELSE perm_locations END,
+    perm_special_offers = CASE WHEN perm_special_offers = 'full' THEN 'edit' ELSE perm_special_offers END;
+
+ALTER TABLE public.admin_permissions
+  ADD CONSTRAINT admin_permissions_levels_check CHECK (
+    perm_items IN ('none', 'view', 'edit')
+    AND perm_orders IN ('none', 'view', 'edit')
+    AND perm_assign_orders IN ('none', 'view', 'edit')
+    AND perm_cooks IN ('none', 'view', 'edit')
+    AND perm_delivery_staff IN ('none', 'view', 'edit')
+    AND perm_reports IN ('none', 'view', 'edit')
+    AND perm_settlements IN ('none', 'view', 'edit')
+    AND perm_banners IN ('none', 'view', 'edit')
+    AND perm_categories IN ('none', 'view', 'edit')
+    AND perm_locations IN ('none', 'view', 'edit')
+    AND perm_special_offers IN ('none', 'view', 'edit')
+  );
+
+-- Admins added without a permissions row had full access until now; keep it
+-- until a super admin narrows it down
+INSERT INTO public.admin_permissions (
+  user_id, perm_items, perm_orders, perm_assign_orders, perm_cooks, perm_delivery_staff,
+  perm_reports, perm_settlements, perm_banners, perm_categories, perm_locations, perm_special_offers
+)
+SELECT ur.user_id, 'edit', 'edit', 'edit', 'edit', 'edit', 'edit', 'edit', 'edit', 'edit', 'edit', 'edit'
+FROM public.user_roles ur
+WHERE ur.role = 'admin'
+ON CONFLICT (user_id) DO NOTHING;
+
+-- Whether a user holds at least _level ('view' or 'edit') on an admin area
+CREATE OR REPLACE FUNCTION public.has_admin_permission(_user_id uuid, _permission text, _level text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_role(_user_id, 'super_admin')
+    OR (
+      public.has_role(_user_id, 'admin')
+      AND EXISTS (
+        SELECT 1
+        FROM public.admin_permissions ap
+        WHERE ap.user_id = _user_id
+          AND (
+            CASE _permission
+              WHEN 'items' THEN ap.perm_items
+              WHEN 'orders' THEN ap.perm_orders
+              WHEN 'assign_orders' THEN ap.perm_assign_orders
+              WHEN 'cooks' THEN ap.perm_cooks
+              WHEN 'delivery_staff' THEN ap.perm_delivery_staff
+              WHEN 'reports' THEN ap.perm_reports
+              WHEN 'settlements' THEN ap.perm_settlements
+              WHEN 'banners' THEN ap.perm_banners
+              WHEN 'categories' THEN ap.perm_categories
+              WHEN 'locations' THEN ap.perm_locations
+              WHEN 'special_offers' THEN ap.perm_special_offers
+            END
+          ) = ANY (CASE _level WHEN 'view' THEN ARRAY['view', 'edit'] ELSE ARRAY['edit'] END)
+      )
+    )
+$$;
+
+-- Catalogue
+DROP POLICY IF EXISTS "Admins can manage all items" ON public.food_items;
+CREATE POLICY "Admins with item access can view items" ON public.food_items
+FOR SELECT USING (public.has_admin_permission(auth.uid(), 'items', 'view'));
+CREATE POLICY "Admins with item edit access can manage items" ON public.food_items
+FOR ALL USING (public.has_admin_permission(auth.uid(), 'items', 'edit'))
+WITH CHECK (public.has_admin_permission(auth.uid(), 'items', 'edit'));
+
+DROP POLICY IF EXISTS "Admins can manage item images" ON public.food_item_images;
+CREATE POLICY "Admins with item edit access can manage item images" ON public.food_item_images
+FOR ALL USING (public.has_admin_permission(auth.uid(), 'items', 'edit'))
+WITH CHECK (public.has_admin_permission(auth.uid(), 'items', 'edit'));
+
+DROP POLICY IF EXISTS "Admins can manage categories" ON public.food_categories;
+CREATE POLICY "Admins with category access can view categories" ON public.food_categories
+FOR SELECT USING (public.has_admin_permission(auth.uid(), 'categories', 'view'));
+CREATE POLICY "Admins with category edit access can manage categories" ON public.food_categories
+FOR ALL USING (public.has_admin_permission(auth.uid(), 'categories', 'edit'))
+WITH CHECK (public.has_admin_permission(auth.uid(), 'categories', 'edit'));
+
+DROP POLICY IF EXISTS "Admins can manage banners" ON public.banners;
+CREATE POLICY "Admins with banner access can view banners" ON public.banners
+FOR SELECT USING (public.has_admin_permission(auth.uid(), 'banners', 'view'));
+CREATE POLICY "Admins with banner edit access can manage banners" ON public.banners
+FOR ALL USING (public.has_admin_permission(auth.uid(), 'banners', 'edit'))
+WITH CHECK (public.has_admin_permission(auth.uid(), 'banners', 'edit'));
+
+DROP POLICY IF EXISTS "Admins can manage special offers" ON public.special_offers;
+CREATE POLICY "Admins with offer access can view special offers" ON public.special_offers
+FOR SELECT USING (public.has_admin_permission(auth.uid(), 'special_offers', 'view'));
+CREATE POLICY "Admins with offer edit access can manage special offers" ON public.special_offers
+FOR ALL USING (public.has_admin_permission(auth.uid(), 'special_offers', 'edit'))
+WITH CHECK (public.has_admin_permission(auth.uid(), 'special_offers', 'edit'));
+
+-- Locations
+DROP POLICY IF EXISTS "Super admins and admins can manage panchayats" ON public.panchayats;
+CREATE POLICY "Admins with location access can view panchayats" ON public.panchayats
+FOR SELECT USING (public.has_admin_permission(auth.uid(), 'locations', 'view'));
+CREATE POLICY "Admins with location edit access can manage panchayats" ON public.panchayats
+FOR ALL USING (public.has_admin_permission(auth.uid(), 'locations', 'edit'))
+WITH CHECK (public.has_admin_permission(auth.uid(), 'locations', 'edit'));
+
+DROP POLICY IF EXISTS "Super admins and admins can manage wards" ON public.wards;
+CREATE POLICY "Admins with location access can view wards" ON public.wards
+FOR SELECT USING (public.has_admin_permission(auth.uid(), 'locations', 'view'));
+CREATE POLICY "Admins with location edit access can manage wards" ON public.wards
+FOR ALL USING (public.has_admin_permission(auth.uid(), 'locations', 'edit'))
+WITH CHECK (public.has_admin_permission(auth.uid(), 'locations', 'edit'));
+
+-- Staff
+DROP POLICY IF EXISTS "Admins can manage cooks" ON public.cooks;
+CREATE POLICY "Admins with cook edit access can manage cooks" ON public.cooks
+FOR ALL USING (public.has_admin_permission(auth.uid(), 'cooks', 'edit'))
+WITH CHECK (public.has_admin_permission(auth.uid(), 'cooks', 'edit'));
+
+DROP POLICY IF EXISTS "Admins can manage delivery staff" ON public.delivery_staff;
+CREATE POLICY "Admins with delivery staff access can view delivery staff" ON public.delivery_staff
+FOR SELECT USING (
+  public.has_admin_permission(auth.uid(), 'delivery_staff', 'view')
+  OR public.has_admin_permission(auth.uid(), 'assign_orders', 'view')
+);
+CREATE POLICY "Admins with delivery staff edit access can manage delivery staff" ON public.delivery_staff
+FOR ALL USING (public.has_admin_permission(auth.uid(), 'delivery_staff', 'edit'))
+WITH CHECK (public.has_admin_permission(auth.uid(), 'delivery_staff', 'edit'));
+
+-- Orders: reports read orders, and assigning work updates them
+DROP POLICY IF EXISTS "Admins can view all orders" ON public.orders;
+DROP POLICY IF EXISTS "Admins can manage orders" ON public.orders;
+CREATE POLICY "Admins with order access can view orders" ON public.orders
+FOR SELECT USING (
+  public.has_admin_permission(auth.uid(), 'orders', 'view')
+  OR public.has_admin_permission(auth.uid(), 'assign_orders', 'view')
+  OR public.has_admin_permission(auth.uid(), 'reports', 'view')
+);
+CREATE POLICY "Admins with order edit access can update orders" ON public.orders
+FOR UPDATE USING (
+  public.has_admin_permission(auth.uid(), 'orders', 'edit')
+  OR public.has_admin_permission(auth.uid(), 'assign_orders', 'edit')
+)
+WITH CHECK (
+  public.has_admin_permission(auth.uid(), 'orders', 'edit')
+  OR public.has_admin_permission(auth.uid(), 'assign_orders', 'edit')
+);
+
+DROP POLICY IF EXISTS "Admins can manage order items" ON public.order_items;
+CREATE POLICY "Admins with order access can view order items" ON public.order_items
+FOR SELECT USING (
+  public.has_admin_permission(auth.uid(), 'orders', 'view')
+  OR public.has_admin_permission(auth.uid(), 'assign_orders', 'view')
+  OR public.has_admin_permission(auth.uid(), 'reports', 'view')
+);
+CREATE POLICY "Admins with order edit access can manage order items" ON public.order_items
+FOR ALL USING (
+  public.has_admin_permission(auth.uid(), 'orders', 'edit')
+  OR public.has_admin_permission(auth.uid(), 'assign_orders', 'edit')
+)
+WITH CHECK (
+  public.has_admin_permission(auth.uid(), 'orders', 'edit')
+  OR public.has_admin_permission(auth.uid(), 'assign_orders', 'edit')
+);
+
+DROP POLICY IF EXISTS "Admins can manage order cook assignments" ON public.order_assigned_cooks;
+CREATE POLICY "Admins with order access can view cook assignments" ON public.order_assigned_cooks
+FOR SELECT USING (
+  public.has_admin_permission(auth.uid(), 'orders', 'view')
+  OR public.has_admin_permission(auth.uid(), 'assign_orders', 'view')
+);
+CREATE POLICY "Admins with assignment edit access can manage cook assignments" ON public.order_assigned_cooks
+FOR ALL USING (
+  public.has_admin_permission(auth.uid(), 'assign_orders', 'edit')
+  OR public.has_admin_permission(auth.uid(), 'orders', 'edit')
+)
+WITH CHECK (
+  public.has_admin_permission(auth.uid(), 'assign_orders', 'edit')
+  OR public.has_admin_permission(auth.uid(), 'orders', 'edit')
+);
+
+-- Settlements: completing an order raises them, only settlement editors pay them out
+DROP POLICY IF EXISTS "Admins can manage settlements" ON public.settlements;
+CREATE POLICY "Admins with settlement access can view settlements" ON public.settlements
+FOR SELECT USING (
+  public.has_admin_permission(auth.uid(), 'settlements', 'view')
+  OR public.has_admin_permission(auth.uid(), 'reports', 'view')
+  OR public.has_admin_permission(auth.uid(), 'cooks', 'view')
+);
+CREATE POLICY "Admins completing orders can raise settlements" ON public.settlements
+FOR INSERT WITH CHECK (
+  public.has_admin_permission(auth.uid(), 'settlements', 'edit')
+  OR public.has_admin_permission(auth.uid(), 'orders', 'edit')
+);
+CREATE POLICY "Admins with settlement edit access can update settlements" ON public.settlements
+FOR UPDATE USING (public.has_admin_permission(auth.uid(), 'settlements', 'edit'))
+WITH CHECK (public.has_admin_permission(auth.uid(), 'settlements', 'edit'));
+CREATE POLICY "Admins with settlement edit access can delete settlements" ON public.settlements
+FOR DELETE USING (public.has_admin_permission(auth.uid(), 'settlements', 'edit'));
@@ -0,0 +1,143 @@
+-- Who changed what in the back office: one row per insert, update or delete
+-- an admin makes on a sensitive table, written by trigger
+CREATE TABLE public.audit_log (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  actor_id uuid,
+  actor_role text,
+  table_name text NOT NULL,
+  record_id text,
+  action text NOT NULL CHECK (action IN ('INSERT', 'UPDATE', 'DELETE')),
+  old_data jsonb,
+  new_data jsonb,
+  changed_fields text[],
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_audit_log_created_at ON public.audit_log (created_at DESC);
+CREATE INDEX idx_audit_log_record ON public.audit_log (table_name, record_id, created_at DESC);
+CREATE INDEX idx_audit_log_actor ON public.audit_log (actor_id, created_at DESC);
+
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+
+-- Read-only for admins; entries are only ever written by the trigger below
+CREATE POLICY "Admins can view audit log" ON public.audit_log
+FOR SELECT USING (
+  public.has_role(auth.uid(), 'super_admin') OR public.has_role(auth.uid(), 'admin')
+);
+
+-- Only changes made by admins are logged; customers, cooks, delivery staff and
+-- background jobs are left out
+CREATE OR REPLACE FUNCTION public.audit_row_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _actor uuid := auth.uid();
+  _role text;
+  _old jsonb;
+  _new jsonb;
+  _changed text[];
+BEGIN
+  IF _actor IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF public.has_role(_actor, 'super_admin') THEN
+    _role := 'super_admin';
+  ELSIF public.has_role(_actor, 'admin') THEN
+    _role := 'admin';
+  ELSE
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP <> 'INSERT' THEN
+    _old := to_jsonb(OLD);
+  END IF;
+  IF TG_OP <> 'DELETE' THEN
+    _new := to_jsonb(NEW);
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    SELECT array_agg(n.key ORDER BY n.key)
+    INTO _changed
+    FROM jsonb_each(_new) n
+    WHERE n.key <> 'updated_at'
+      AND n.value IS DISTINCT FROM _old -> n.key;
+
+    -- Saves that change nothing but the timestamp
+    IF _changed IS NULL THEN
+      RETURN NULL;
+    END IF;
+  END IF;
+
+  INSERT INTO public.audit_log (actor_id, actor_role, table_name, record_id, action, old_data, new_data, changed_fields)
+  VALUES (_actor, _role, TG_TABLE_NAME, COALESCE(_new, _old) ->> 'id', TG_OP, _old, _new, _changed);
+
+  RETURN NULL;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.audit_row_change() FROM PUBLIC, anon, authenticated;
+
+-- Menu and pricing
+CREATE TRIGGER audit_food_items AFTER INSERT OR UPDATE OR DELETE ON public.food_items
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+CREATE TRIGGER audit_cook_dishes AFTER INSERT OR UPDATE OR DELETE ON public.cook_dishes
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+CREATE TRIGGER audit_food_categories AFTER INSERT OR UPDATE OR DELETE ON public.food_categories
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+CREATE TRIGGER audit_coupons AFTER INSERT OR UPDATE OR DELETE ON public.coupons
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+CREATE TRIGGER audit_tax_classes AFTER INSERT OR UPDATE OR DELETE ON public.tax_classes
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+CREATE TRIGGER audit_commission_rules AFTER INSERT OR UPDATE OR DELETE ON public.commission_rules
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+CREATE TRIGGER audit_delivery_rules AFTER INSERT OR UPDATE OR DELETE ON public.delivery_rules
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+CREATE TRIGGER audit_cancellation_policies AFTER INSERT OR UPDATE OR DELETE ON public.cancellation_policies
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+CREATE TRIGGER audit_service_modules AFTER INSERT OR UPDATE OR DELETE ON public.service_modules
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+
+-- Orders and money
+CREATE TRIGGER audit_orders AFTER INSERT OR UPDATE OR DELETE ON public.orders
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+CREATE TRIGGER audit_settlements AFTER INSERT OR UPDATE OR DELETE ON public.settlements
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+CREATE TRIGGER audit_delivery_wallets AFTER INSERT OR UPDATE OR DELETE ON public.delivery_wallets
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+CREATE TRIGGER audit_wallet_transactions AFTER INSERT OR UPDATE OR DELETE ON public.wallet_transactions
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+CREATE TRIGGER audit_customer_wallets AFTER INSERT OR UPDATE OR DELETE ON public.customer_wallets
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+CREATE TRIGGER audit_customer_wallet_transactions AFTER INSERT OR UPDATE OR DELETE ON public.customer_wallet_transactions
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+
+-- People and access
+CREATE TRIGGER audit_profiles AFTER INSERT OR UPDATE OR DELETE ON public.profiles
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+CREATE TRIGGER audit_cooks AFTER INSERT OR UPDATE OR DELETE ON public.cooks
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+CREATE TRIGGER audit_delivery_staff AFTER INSERT OR UPDATE OR DELETE ON public.delivery_staff
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+CREATE TRIGGER audit_user_roles AFTER INSERT OR UPDATE OR DELETE ON public.user_roles
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+CREATE TRIGGER audit_admin_permissions AFTER INSERT OR UPDATE OR DELETE ON public.admin_permissions
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+
+-- Everyone who appears in the log, for the viewer's filter
+CREATE OR REPLACE FUNCTION public.get_audit_actors()
+RETURNS TABLE (actor_id uuid, name text, mobile_number text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT a.actor_id, p.name, p.mobile_number
+  FROM (SELECT DISTINCT al.actor_id FROM public.audit_log al WHERE al.actor_id IS NOT NULL) a
+  LEFT JOIN public.profiles p ON p.user_id = a.actor_id
+  WHERE public.has_role(auth.uid(), 'super_admin') OR public.has_role(auth.uid(), 'admin')
+  ORDER BY p.name NULLS LAST
+$$;
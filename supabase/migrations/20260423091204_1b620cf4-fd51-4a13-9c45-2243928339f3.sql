@@ -0,0 +1,488 @@
+-- Automatic cook assignment
+-- New orders are offered to the best-ranked cook offering their dishes. A cook
+-- who rejects, or lets the response deadline pass, is skipped and the next one
+-- is tried; admins are alerted only once no qualified cook is left.
+
+ALTER TABLE public.order_assigned_cooks
+  ADD COLUMN IF NOT EXISTS response_deadline TIMESTAMPTZ;
+
+-- Set while an order has dishes no remaining cook can take; cleared when an
+-- admin assigns one by hand
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS cook_escalated_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_order_assigned_cooks_pending_deadline
+  ON public.order_assigned_cooks (response_deadline)
+  WHERE cook_status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_orders_cook_escalated_at
+  ON public.orders (cook_escalated_at)
+  WHERE cook_escalated_at IS NOT NULL;
+
+-- The assignment engine acts as the system whoever set it off (a customer
+-- placing the order, a cook rejecting it), so its status changes follow the
+-- system row of order_status_transitions. The setting is transaction-local
+-- and only the engine's own functions set it.
+CREATE OR REPLACE FUNCTION public.order_actor_roles(p_customer_id uuid)
+RETURNS text[]
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_roles text[] := '{}';
+BEGIN
+  IF v_user_id IS NULL OR current_setting('app.order_actor', true) = 'system' THEN
+    RETURN ARRAY['system'];
+  END IF;
+
+  IF has_role(v_user_id, 'admin') OR has_role(v_user_id, 'super_admin') THEN
+    v_roles := v_roles || 'admin'::text;
+  END IF;
+  IF is_cook(v_user_id) THEN
+    v_roles := v_roles || 'cook'::text;
+  END IF;
+  IF is_delivery_staff(v_user_id) THEN
+    v_roles := v_roles || 'delivery_staff'::text;
+  END IF;
+  IF p_customer_id = v_user_id THEN
+    v_roles := v_roles || 'customer'::text;
+  END IF;
+
+  RETURN v_roles;
+END;
+$$;
+
+-- Pending offers get a response deadline, counted from the order's kitchen
+-- release for scheduled orders. Indoor events are assigned by hand and have none.
+-- Once an offer has been passed on, only admins can revive it.
+CREATE OR REPLACE FUNCTION public.prepare_cook_assignment()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_service_type text;
+  v_release_at timestamptz;
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND OLD.cook_status IN ('rejected', 'auto_rejected')
+    AND NEW.cook_status IS DISTINCT FROM OLD.cook_status
+    AND auth.uid() IS NOT NULL
+    AND current_setting('app.order_actor', true) IS DISTINCT FROM 'system'
+    AND NOT (has_role(auth.uid(), 'admin') OR has_role(auth.uid(), 'super_admin'))
+  THEN
+    RAISE EXCEPTION 'This order has been passed to another cook'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.cook_status = 'pending' AND (TG_OP = 'INSERT' OR OLD.cook_status IS DISTINCT FROM 'pending') THEN
+    SELECT o.service_type::text, o.release_at
+    INTO v_service_type, v_release_at
+    FROM orders o
+    WHERE o.id = NEW.order_id;
+
+    IF v_service_type IS DISTINCT FROM 'indoor_events' THEN
+      NEW.response_deadline := GREATEST(now(), COALESCE(v_release_at, now())) + interval '2 minutes';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prepare_cook_assignment
+  BEFORE INSERT OR UPDATE OF cook_status ON public.order_assigned_cooks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prepare_cook_assignment();
+
+-- Cooks able to make every one of the given dishes (all of the order's dishes
+-- when none are given), best first: covers the order's panchayat, fewest
+-- orders in hand, highest rated, cheapest for the quantities ordered
+CREATE OR REPLACE FUNCTION public.rank_order_cooks(p_order_id uuid, p_food_item_ids uuid[] DEFAULT NULL)
+RETURNS TABLE (
+  cook_id uuid,
+  kitchen_name text,
+  covers_panchayat boolean,
+  active_orders integer,
+  rating numeric,
+  price numeric,
+  declined boolean
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  WITH dishes AS (
+    SELECT oi.food_item_id, SUM(oi.quantity) AS quantity
+    FROM order_items oi
+    WHERE oi.order_id = p_order_id
+      AND (p_food_item_ids IS NULL OR oi.food_item_id = ANY (p_food_item_ids))
+    GROUP BY oi.food_item_id
+  ),
+  candidates AS (
+    SELECT cd.cook_id, SUM(COALESCE(cd.custom_price, fi.price) * d.quantity) AS price
+    FROM dishes d
+    JOIN cook_dishes cd ON cd.food_item_id = d.food_item_id AND NOT cd.is_coming_soon
+    JOIN food_items fi ON fi.id = d.food_item_id
+    GROUP BY cd.cook_id
+    HAVING COUNT(*) = (SELECT COUNT(*) FROM dishes)
+  )
+  SELECT
+    c.id,
+    c.kitchen_name,
+    COALESCE(o.panchayat_id = c.panchayat_id OR o.panchayat_id = ANY (c.assigned_panchayat_ids), false),
+    (
+      SELECT COUNT(DISTINCT a.order_id)::integer
+      FROM order_assigned_cooks a
+      JOIN orders ao ON ao.id = a.order_id
+      WHERE a.cook_id = c.id
+        AND a.cook_status IN ('pending', 'accepted', 'preparing', 'cooked')
+        AND ao.status NOT IN ('delivered', 'cancelled')
+    ),
+    c.rating,
+    cand.price,
+    EXISTS (
+      SELECT 1 FROM order_assigned_cooks t
+      WHERE t.order_id = p_order_id AND t.cook_id = c.id AND t.cook_status IN ('rejected', 'auto_rejected')
+    )
+  FROM candidates cand
+  JOIN cooks c ON c.id = cand.cook_id
+  JOIN orders o ON o.id = p_order_id
+  WHERE c.is_active AND c.is_available
+  ORDER BY 3 DESC, 4, c.rating DESC NULLS LAST, cand.price, c.id
+$$;
+
+-- Offer dishes of an order to a cook
+CREATE OR REPLACE FUNCTION public.offer_order_to_cook(p_order_id uuid, p_cook_id uuid, p_food_item_ids uuid[])
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  UPDATE order_items
+  SET assigned_cook_id = p_cook_id
+  WHERE order_id = p_order_id
+    AND assigned_cook_id IS NULL
+    AND food_item_id = ANY (p_food_item_ids);
+
+  INSERT INTO order_assigned_cooks (order_id, cook_id, cook_status)
+  VALUES (p_order_id, p_cook_id, 'pending')
+  ON CONFLICT (order_id, cook_id) DO NOTHING;
+END;
+$$;
+
+-- Bring the order's summary columns in line with its cook offers
+CREATE OR REPLACE FUNCTION public.sync_order_cook_assignment(p_order_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  UPDATE orders o
+  SET
+    assigned_cook_id = COALESCE((
+      SELECT c.user_id
+      FROM order_assigned_cooks a
+      JOIN cooks c ON c.id = a.cook_id
+      WHERE a.order_id = o.id AND a.cook_status NOT IN ('rejected', 'auto_rejected')
+      ORDER BY a.assigned_at
+      LIMIT 1
+    ), o.assigned_cook_id),
+    cook_response_deadline = (
+      SELECT MIN(a.response_deadline)
+      FROM order_assigned_cooks a
+      WHERE a.order_id = o.id AND a.cook_status = 'pending'
+    ),
+    cook_assigned_at = COALESCE((
+      SELECT MAX(a.assigned_at)
+      FROM order_assigned_cooks a
+      WHERE a.order_id = o.id AND a.cook_status = 'pending'
+    ), o.cook_assigned_at),
+    cook_assignment_status = CASE
+      WHEN EXISTS (
+        SELECT 1 FROM order_assigned_cooks a
+        WHERE a.order_id = o.id AND a.cook_status = 'pending'
+      ) THEN 'pending'
+      ELSE o.cook_assignment_status
+    END
+  WHERE o.id = p_order_id;
+END;
+$$;
+
+-- Offer every dish that has no cook to the best cook not yet tried: one cook
+-- for all of them when possible, otherwise dish by dish. Cooks picked in the
+-- cart are offered their dishes first. Returns how many order lines are left
+-- without a cook; the first time any are, admins are alerted.
+-- Callers set app.order_actor to 'system'.
+CREATE OR REPLACE FUNCTION public.run_cook_assignment(p_order_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+  v_unassigned uuid[];
+  v_item uuid;
+  v_cook uuid;
+  v_left integer;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND OR v_order.service_type = 'indoor_events' OR v_order.status IN ('delivered', 'cancelled') THEN
+    RETURN 0;
+  END IF;
+
+  INSERT INTO order_assigned_cooks (order_id, cook_id, cook_status)
+  SELECT DISTINCT p_order_id, oi.assigned_cook_id, 'pending'
+  FROM order_items oi
+  WHERE oi.order_id = p_order_id AND oi.assigned_cook_id IS NOT NULL
+  ON CONFLICT (order_id, cook_id) DO NOTHING;
+
+  SELECT array_agg(DISTINCT oi.food_item_id)
+  INTO v_unassigned
+  FROM order_items oi
+  WHERE oi.order_id = p_order_id AND oi.assigned_cook_id IS NULL;
+
+  IF v_unassigned IS NOT NULL THEN
+    SELECT r.cook_id INTO v_cook
+    FROM rank_order_cooks(p_order_id, v_unassigned) r
+    WHERE NOT r.declined
+    LIMIT 1;
+
+    IF v_cook IS NOT NULL THEN
+      PERFORM offer_order_to_cook(p_order_id, v_cook, v_unassigned);
+    ELSE
+      FOREACH v_item IN ARRAY v_unassigned LOOP
+        SELECT r.cook_id INTO v_cook
+        FROM rank_order_cooks(p_order_id, ARRAY[v_item]) r
+        WHERE NOT r.declined
+        LIMIT 1;
+
+        IF v_cook IS NOT NULL THEN
+          PERFORM offer_order_to_cook(p_order_id, v_cook, ARRAY[v_item]);
+        END IF;
+      END LOOP;
+    END IF;
+  END IF;
+
+  PERFORM sync_order_cook_assignment(p_order_id);
+
+  SELECT COUNT(*) INTO v_left
+  FROM order_items oi
+  WHERE oi.order_id = p_order_id AND oi.assigned_cook_id IS NULL;
+
+  IF v_left > 0 AND v_order.cook_escalated_at IS NULL THEN
+    UPDATE orders SET cook_escalated_at = now() WHERE id = p_order_id;
+
+    INSERT INTO notifications (user_id, order_id, type, title, message)
+    SELECT DISTINCT ur.user_id, p_order_id, 'cook_assignment_escalated', 'No cook available',
+      'Order #' || v_order.order_number || ' has dishes that no available cook has accepted. Assign a cook manually.'
+    FROM user_roles ur
+    WHERE ur.role IN ('admin', 'super_admin')
+      AND has_admin_permission(ur.user_id, 'assign_orders', 'view');
+  ELSIF v_left = 0 AND v_order.cook_escalated_at IS NOT NULL THEN
+    UPDATE orders SET cook_escalated_at = NULL WHERE id = p_order_id;
+  END IF;
+
+  RETURN v_left;
+END;
+$$;
+
+-- Assign cooks to a newly placed order. Open to the order's customer and to
+-- admins who can assign orders.
+CREATE OR REPLACE FUNCTION public.auto_assign_order_cooks(p_order_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_left integer;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM orders o
+    WHERE o.id = p_order_id
+      AND (o.customer_id = auth.uid() OR has_admin_permission(auth.uid(), 'assign_orders', 'edit'))
+  ) THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  PERFORM set_config('app.order_actor', 'system', true);
+  v_left := run_cook_assignment(p_order_id);
+  PERFORM set_config('app.order_actor', '', true);
+
+  RETURN v_left;
+END;
+$$;
+
+-- A cook who rejects or times out hands their dishes to the next cook
+CREATE OR REPLACE FUNCTION public.pass_on_declined_cook_assignment()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_order_number text;
+BEGIN
+  PERFORM set_config('app.order_actor', 'system', true);
+
+  UPDATE order_items
+  SET assigned_cook_id = NULL
+  WHERE order_id = NEW.order_id AND assigned_cook_id = NEW.cook_id;
+
+  -- Recorded in the order history before the next offer moves it back to pending
+  UPDATE orders
+  SET cook_assignment_status = NEW.cook_status
+  WHERE id = NEW.order_id AND cook_assignment_status = 'pending'
+  RETURNING order_number INTO v_order_number;
+
+  IF NEW.cook_status = 'auto_rejected' THEN
+    INSERT INTO notifications (user_id, order_id, type, title, message)
+    SELECT c.user_id, NEW.order_id, 'cook_assignment_expired', 'Order passed on',
+      'Order #' || COALESCE(v_order_number, o.order_number) || ' went to another cook because it was not accepted in time'
+    FROM cooks c, orders o
+    WHERE c.id = NEW.cook_id AND c.user_id IS NOT NULL AND o.id = NEW.order_id;
+  END IF;
+
+  PERFORM run_cook_assignment(NEW.order_id);
+  PERFORM set_config('app.order_actor', '', true);
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER pass_on_declined_cook_assignment
+  AFTER UPDATE OF cook_status ON public.order_assigned_cooks
+  FOR EACH ROW
+  WHEN (OLD.cook_status = 'pending' AND NEW.cook_status IN ('rejected', 'auto_rejected'))
+  EXECUTE FUNCTION public.pass_on_declined_cook_assignment();
+
+-- Every minute: time out offers past their deadline, and assign orders whose
+-- placement never reached the engine (the customer's app closed mid-checkout)
+CREATE OR REPLACE FUNCTION public.run_cook_assignments()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_order_id uuid;
+BEGIN
+  UPDATE order_assigned_cooks
+  SET cook_status = 'auto_rejected',
+      responded_at = now(),
+      notes = COALESCE(notes, 'No response before the deadline'),
+      updated_at = now()
+  WHERE cook_status = 'pending' AND response_deadline < now();
+
+  PERFORM set_config('app.order_actor', 'system', true);
+
+  FOR v_order_id IN
+    SELECT o.id
+    FROM orders o
+    WHERE o.status = 'pending'
+      AND o.service_type <> 'indoor_events'
+      AND o.cook_escalated_at IS NULL
+      AND o.created_at BETWEEN now() - interval '1 day' AND now() - interval '1 minute'
+      AND EXISTS (SELECT 1 FROM order_items oi WHERE oi.order_id = o.id)
+      AND NOT EXISTS (
+        SELECT 1 FROM order_assigned_cooks a
+        WHERE a.order_id = o.id AND a.cook_status IN ('pending', 'accepted', 'preparing', 'cooked', 'ready')
+      )
+  LOOP
+    PERFORM run_cook_assignment(v_order_id);
+  END LOOP;
+
+  PERFORM set_config('app.order_actor', '', true);
+END;
+$$;
+
+SELECT cron.schedule(
+  'run-cook-assignments',
+  '* * * * *',
+  $$SELECT public.run_cook_assignments()$$
+);
+
+-- Ranked cooks for an order's dishes still without a cook (all of them when
+-- every dish has one), for manual assignment
+CREATE OR REPLACE FUNCTION public.get_order_cook_ranking(p_order_id uuid)
+RETURNS TABLE (
+  cook_id uuid,
+  kitchen_name text,
+  covers_panchayat boolean,
+  active_orders integer,
+  rating numeric,
+  price numeric,
+  declined boolean
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_unassigned uuid[];
+BEGIN
+  IF NOT has_admin_permission(auth.uid(), 'assign_orders', 'view') THEN
+    RAISE EXCEPTION 'Not allowed to view cook assignments';
+  END IF;
+
+  SELECT array_agg(DISTINCT oi.food_item_id)
+  INTO v_unassigned
+  FROM order_items oi
+  WHERE oi.order_id = p_order_id AND oi.assigned_cook_id IS NULL;
+
+  RETURN QUERY SELECT * FROM rank_order_cooks(p_order_id, v_unassigned);
+END;
+$$;
+
+-- An admin's pick for an order's dishes still without a cook. Overrides an
+-- earlier rejection by the same cook and clears the escalation.
+CREATE OR REPLACE FUNCTION public.assign_order_cook(p_order_id uuid, p_cook_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF NOT has_admin_permission(auth.uid(), 'assign_orders', 'edit') THEN
+    RAISE EXCEPTION 'Not allowed to assign cooks';
+  END IF;
+
+  PERFORM 1 FROM orders WHERE id = p_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  UPDATE order_items
+  SET assigned_cook_id = p_cook_id
+  WHERE order_id = p_order_id AND assigned_cook_id IS NULL;
+
+  INSERT INTO order_assigned_cooks (order_id, cook_id, cook_status)
+  VALUES (p_order_id, p_cook_id, 'pending')
+  ON CONFLICT (order_id, cook_id) DO UPDATE
+  SET cook_status = 'pending', assigned_at = now(), responded_at = NULL, updated_at = now()
+  WHERE order_assigned_cooks.cook_status IN ('rejected', 'auto_rejected');
+
+  PERFORM sync_order_cook_assignment(p_order_id);
+
+  UPDATE orders SET cook_escalated_at = NULL WHERE id = p_order_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.rank_order_cooks(uuid, uuid[]) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.offer_order_to_cook(uuid, uuid, uuid[]) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.sync_order_cook_assignment(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.run_cook_assignment(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.run_cook_assignments() FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.prepare_cook_assignment() FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.pass_on_declined_cook_assignment() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,418 @@
+-- Delivery dispatch
+-- An order ready for pickup is offered to one delivery partner at a time, best
+-- ranked first. An offer that is passed or runs out goes to the next partner;
+-- admins are alerted once every partner in the area has been tried. Every
+-- decision is written to dispatch_log.
+
+CREATE TABLE public.delivery_offers (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  delivery_staff_id UUID NOT NULL REFERENCES public.delivery_staff(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'accepted', 'declined', 'expired', 'withdrawn')),
+  offered_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  expires_at TIMESTAMPTZ NOT NULL,
+  responded_at TIMESTAMPTZ,
+  UNIQUE (order_id, delivery_staff_id)
+);
+
+CREATE INDEX idx_delivery_offers_pending ON public.delivery_offers (expires_at) WHERE status = 'pending';
+CREATE INDEX idx_delivery_offers_staff ON public.delivery_offers (delivery_staff_id, status);
+
+CREATE TABLE public.dispatch_log (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  delivery_staff_id UUID REFERENCES public.delivery_staff(id) ON DELETE SET NULL,
+  event TEXT NOT NULL
+    CHECK (event IN ('offered', 'accepted', 'declined', 'expired', 'withdrawn', 'exhausted', 'manual')),
+  reason TEXT NOT NULL,
+  -- Ranking factors behind an offer
+  details JSONB NOT NULL DEFAULT '{}'::jsonb,
+  actor_id UUID DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_dispatch_log_order ON public.dispatch_log (order_id, created_at);
+
+-- Set once every partner has been tried; cleared when an admin assigns one
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS delivery_escalated_at TIMESTAMPTZ;
+
+-- Delivery staff record of a signed-in user, only while active and approved
+CREATE OR REPLACE FUNCTION public.get_delivery_staff_id(_user_id uuid)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT id
+  FROM public.delivery_staff
+  WHERE user_id = _user_id
+    AND is_active = true
+    AND is_approved = true
+  LIMIT 1
+$$;
+
+ALTER TABLE public.delivery_offers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.dispatch_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Delivery staff can view their own offers" ON public.delivery_offers
+FOR SELECT USING (delivery_staff_id = public.get_delivery_staff_id(auth.uid()));
+
+CREATE POLICY "Admins with assignment access can view delivery offers" ON public.delivery_offers
+FOR SELECT USING (
+  public.has_admin_permission(auth.uid(), 'orders', 'view')
+  OR public.has_admin_permission(auth.uid(), 'assign_orders', 'view')
+);
+
+CREATE POLICY "Admins with assignment access can view dispatch log" ON public.dispatch_log
+FOR SELECT USING (
+  public.has_admin_permission(auth.uid(), 'orders', 'view')
+  OR public.has_admin_permission(auth.uid(), 'assign_orders', 'view')
+);
+
+-- Partners see an order while it is offered to them. Accepting goes through
+-- accept_delivery_order, so the open race on unassigned orders is closed.
+CREATE POLICY "Delivery staff can view orders offered to them" ON public.orders
+FOR SELECT USING (
+  EXISTS (
+    SELECT 1 FROM public.delivery_offers d
+    WHERE d.order_id = orders.id
+      AND d.status = 'pending'
+      AND d.delivery_staff_id = public.get_delivery_staff_id(auth.uid())
+  )
+);
+
+DROP POLICY IF EXISTS "Delivery staff can accept available orders" ON public.orders;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.delivery_offers;
+
+-- Partners able to take an order, best first: covers its ward, fewest
+-- deliveries in hand, salaried staff before registered partners, highest
+-- rated. Partners limited to certain wards only see orders in them.
+CREATE OR REPLACE FUNCTION public.rank_delivery_partners(p_order_id uuid)
+RETURNS TABLE (
+  rank integer,
+  delivery_staff_id uuid,
+  name text,
+  ward_match boolean,
+  active_deliveries integer,
+  staff_type text,
+  rating numeric,
+  offered boolean
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  WITH candidates AS (
+    SELECT
+      ds.id,
+      ds.name,
+      COALESCE(o.ward_number = ANY (ds.assigned_wards), false) AS ward_match,
+      (
+        SELECT COUNT(*)::integer
+        FROM orders ao
+        WHERE ao.assigned_delivery_id = ds.user_id
+          AND ao.delivery_status IN ('assigned', 'picked_up')
+      ) AS active_deliveries,
+      ds.staff_type,
+      ds.rating,
+      EXISTS (SELECT 1 FROM delivery_offers d WHERE d.order_id = o.id AND d.delivery_staff_id = ds.id) AS offered
+    FROM delivery_staff ds
+    JOIN orders o ON o.id = p_order_id
+    WHERE ds.is_active AND ds.is_approved AND ds.is_available
+      AND ds.user_id IS NOT NULL
+      AND (o.panchayat_id = ds.panchayat_id OR o.panchayat_id = ANY (COALESCE(ds.assigned_panchayat_ids, '{}')))
+      AND (
+        ds.staff_type <> 'registered_partner'
+        OR COALESCE(cardinality(ds.assigned_wards), 0) = 0
+        OR o.ward_number = ANY (ds.assigned_wards)
+      )
+  )
+  SELECT
+    ROW_NUMBER() OVER (
+      ORDER BY c.ward_match DESC, c.active_deliveries, (c.staff_type = 'fixed_salary') DESC, c.rating DESC NULLS LAST, c.id
+    )::integer,
+    c.id, c.name, c.ward_match, c.active_deliveries, c.staff_type, c.rating, c.offered
+  FROM candidates c
+  ORDER BY 1
+$$;
+
+-- Offer a ready order to the best partner not yet offered it, unless an offer
+-- is already open. Once nobody is left the order is escalated to admins.
+CREATE OR REPLACE FUNCTION public.dispatch_delivery_order(p_order_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+  v_eligible integer;
+  v_next record;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND
+    OR v_order.service_type NOT IN ('cloud_kitchen', 'homemade')
+    OR v_order.status = 'cancelled'
+    OR v_order.assigned_delivery_id IS NOT NULL
+    OR v_order.delivery_status IS DISTINCT FROM 'pending'
+    OR v_order.cook_status IS DISTINCT FROM 'ready'
+    OR v_order.release_at > now()
+  THEN
+    RETURN;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM delivery_offers WHERE order_id = p_order_id AND status = 'pending') THEN
+    RETURN;
+  END IF;
+
+  SELECT COUNT(*) INTO v_eligible FROM rank_delivery_partners(p_order_id);
+
+  SELECT r.* INTO v_next
+  FROM rank_delivery_partners(p_order_id) r
+  WHERE NOT r.offered
+  ORDER BY r.rank
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    IF v_order.delivery_escalated_at IS NULL THEN
+      UPDATE orders SET delivery_escalated_at = now() WHERE id = p_order_id;
+
+      INSERT INTO dispatch_log (order_id, event, reason, details)
+      VALUES (
+        p_order_id,
+        'exhausted',
+        CASE WHEN v_eligible = 0
+          THEN 'No available partner covers this area'
+          ELSE 'Every available partner in the area has been offered this order'
+        END,
+        jsonb_build_object('eligible', v_eligible)
+      );
+
+      INSERT INTO notifications (user_id, order_id, type, title, message)
+      SELECT DISTINCT ur.user_id, p_order_id, 'delivery_dispatch_escalated', 'No delivery partner',
+        'Order #' || v_order.order_number || ' is ready but no delivery partner has accepted it. Assign one manually.'
+      FROM user_roles ur
+      WHERE ur.role IN ('admin', 'super_admin')
+        AND has_admin_permission(ur.user_id, 'assign_orders', 'view');
+    END IF;
+    RETURN;
+  END IF;
+
+  INSERT INTO delivery_offers (order_id, delivery_staff_id, expires_at)
+  VALUES (p_order_id, v_next.delivery_staff_id, now() + interval '2 minutes');
+
+  INSERT INTO dispatch_log (order_id, delivery_staff_id, event, reason, details)
+  VALUES (
+    p_order_id,
+    v_next.delivery_staff_id,
+    'offered',
+    'Ranked ' || v_next.rank || ' of ' || v_eligible || ' available partners',
+    jsonb_build_object(
+      'rank', v_next.rank,
+      'eligible', v_eligible,
+      'ward_match', v_next.ward_match,
+      'active_deliveries', v_next.active_deliveries,
+      'staff_type', v_next.staff_type,
+      'rating', v_next.rating
+    )
+  );
+END;
+$$;
+
+-- Dispatch as soon as the kitchen marks an order ready
+CREATE OR REPLACE FUNCTION public.dispatch_ready_order()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  PERFORM dispatch_delivery_order(NEW.id);
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER dispatch_ready_order
+  AFTER INSERT OR UPDATE OF cook_status ON public.orders
+  FOR EACH ROW
+  WHEN (NEW.cook_status = 'ready' AND NEW.assigned_delivery_id IS NULL)
+  EXECUTE FUNCTION public.dispatch_ready_order();
+
+-- Accept the offer made to the signed-in partner
+CREATE OR REPLACE FUNCTION public.accept_delivery_order(p_order_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_staff_id uuid := public.get_delivery_staff_id(auth.uid());
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF v_staff_id IS NULL THEN
+    RAISE EXCEPTION 'User is not an approved delivery staff';
+  END IF;
+
+  UPDATE delivery_offers
+  SET status = 'accepted', responded_at = now()
+  WHERE order_id = p_order_id
+    AND delivery_staff_id = v_staff_id
+    AND status = 'pending'
+    AND expires_at > now();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This delivery is no longer offered to you';
+  END IF;
+
+  UPDATE orders
+  SET
+    assigned_delivery_id = v_user_id,
+    delivery_status = 'assigned',
+    delivery_eta = now() + interval '1 hour'
+  WHERE id = p_order_id
+    AND assigned_delivery_id IS NULL
+    AND delivery_status = 'pending'
+    AND cook_status = 'ready'
+    AND status <> 'cancelled';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not available for acceptance. It may have been cancelled.';
+  END IF;
+
+  INSERT INTO dispatch_log (order_id, delivery_staff_id, event, reason)
+  VALUES (p_order_id, v_staff_id, 'accepted', 'Accepted the offer');
+END;
+$$;
+
+-- Pass on the offer made to the signed-in partner; the next one is offered at once
+CREATE OR REPLACE FUNCTION public.decline_delivery_offer(p_order_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_staff_id uuid := public.get_delivery_staff_id(auth.uid());
+BEGIN
+  UPDATE delivery_offers
+  SET status = 'declined', responded_at = now()
+  WHERE order_id = p_order_id
+    AND delivery_staff_id = v_staff_id
+    AND status = 'pending';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This delivery is no longer offered to you';
+  END IF;
+
+  INSERT INTO dispatch_log (order_id, delivery_staff_id, event, reason)
+  VALUES (p_order_id, v_staff_id, 'declined', 'Passed on the offer');
+
+  PERFORM dispatch_delivery_order(p_order_id);
+END;
+$$;
+
+-- An admin's pick. Withdraws any open offer and clears the escalation.
+CREATE OR REPLACE FUNCTION public.assign_order_delivery(p_order_id uuid, p_delivery_staff_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_user_id uuid;
+BEGIN
+  IF NOT has_admin_permission(auth.uid(), 'assign_orders', 'edit') THEN
+    RAISE EXCEPTION 'Not allowed to assign deliveries';
+  END IF;
+
+  SELECT user_id INTO v_user_id FROM delivery_staff WHERE id = p_delivery_staff_id;
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Delivery partner has no login';
+  END IF;
+
+  WITH withdrawn AS (
+    UPDATE delivery_offers
+    SET status = 'withdrawn', responded_at = now()
+    WHERE order_id = p_order_id AND status = 'pending'
+    RETURNING delivery_staff_id
+  )
+  INSERT INTO dispatch_log (order_id, delivery_staff_id, event, reason)
+  SELECT p_order_id, w.delivery_staff_id, 'withdrawn', 'Offer withdrawn for a manual assignment'
+  FROM withdrawn w;
+
+  UPDATE orders
+  SET assigned_delivery_id = v_user_id, delivery_status = 'assigned', delivery_escalated_at = NULL
+  WHERE id = p_order_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  INSERT INTO dispatch_log (order_id, delivery_staff_id, event, reason)
+  VALUES (p_order_id, p_delivery_staff_id, 'manual', 'Assigned by an admin');
+END;
+$$;
+
+-- Every minute: expire offers nobody answered, and dispatch ready orders with
+-- no open offer (released scheduled orders, or ready before anyone was free)
+CREATE OR REPLACE FUNCTION public.run_delivery_dispatch()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_offer record;
+  v_order_id uuid;
+BEGIN
+  FOR v_offer IN
+    SELECT id, order_id, delivery_staff_id
+    FROM delivery_offers
+    WHERE status = 'pending' AND expires_at < now()
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    UPDATE delivery_offers SET status = 'expired' WHERE id = v_offer.id;
+
+    INSERT INTO dispatch_log (order_id, delivery_staff_id, event, reason)
+    VALUES (v_offer.order_id, v_offer.delivery_staff_id, 'expired', 'No answer before the offer ran out');
+
+    PERFORM dispatch_delivery_order(v_offer.order_id);
+  END LOOP;
+
+  FOR v_order_id IN
+    SELECT o.id
+    FROM orders o
+    WHERE o.service_type IN ('cloud_kitchen', 'homemade')
+      AND o.status <> 'cancelled'
+      AND o.cook_status = 'ready'
+      AND o.delivery_status = 'pending'
+      AND o.assigned_delivery_id IS NULL
+      AND o.delivery_escalated_at IS NULL
+      AND (o.release_at IS NULL OR o.release_at <= now())
+      AND NOT EXISTS (SELECT 1 FROM delivery_offers d WHERE d.order_id = o.id AND d.status = 'pending')
+  LOOP
+    PERFORM dispatch_delivery_order(v_order_id);
+  END LOOP;
+END;
+$$;
+
+SELECT cron.schedule(
+  'run-delivery-dispatch',
+  '* * * * *',
+  $$SELECT public.run_delivery_dispatch()$$
+);
+
+REVOKE EXECUTE ON FUNCTION public.rank_delivery_partners(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.dispatch_delivery_order(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.run_delivery_dispatch() FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.dispatch_ready_order() FROM PUBLIC, anon, authenticated;
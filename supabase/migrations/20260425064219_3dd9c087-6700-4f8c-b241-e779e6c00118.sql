@@ -0,0 +1,189 @@
+-- Proof of delivery
+-- Every delivered order gets a 4-digit handover code that only the customer and
+-- admins can read. The partner enters it at the door through complete_delivery,
+-- optionally with a doorstep photo, and the result is kept in delivery_proofs.
+-- Partners can no longer mark an order delivered without it.
+
+CREATE TABLE public.order_handover_codes (
+  order_id UUID PRIMARY KEY REFERENCES public.orders(id) ON DELETE CASCADE,
+  code TEXT NOT NULL CHECK (code ~ '^[0-9]{4}$'),
+  -- Wrong codes entered by the partner; the order locks after five
+  failed_attempts SMALLINT NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.delivery_proofs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  order_id UUID NOT NULL UNIQUE REFERENCES public.orders(id) ON DELETE CASCADE,
+  delivery_staff_id UUID REFERENCES public.delivery_staff(id) ON DELETE SET NULL,
+  code_verified_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  photo_url TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_delivery_proofs_staff ON public.delivery_proofs (delivery_staff_id, created_at DESC);
+
+ALTER TABLE public.order_handover_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.delivery_proofs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Customers can view their handover codes" ON public.order_handover_codes
+FOR SELECT USING (EXISTS (
+  SELECT 1 FROM public.orders o
+  WHERE o.id = order_handover_codes.order_id AND o.customer_id = auth.uid()
+));
+
+CREATE POLICY "Admins with order access can view handover codes" ON public.order_handover_codes
+FOR SELECT USING (public.has_admin_permission(auth.uid(), 'orders', 'view'));
+
+CREATE POLICY "Admins with order access can view delivery proofs" ON public.delivery_proofs
+FOR SELECT USING (public.has_admin_permission(auth.uid(), 'orders', 'view'));
+
+CREATE POLICY "Delivery staff can view their delivery proofs" ON public.delivery_proofs
+FOR SELECT USING (delivery_staff_id = public.get_delivery_staff_id(auth.uid()));
+
+-- Doorstep photos; file names are random, like the other image buckets
+INSERT INTO storage.buckets (id, name, public) VALUES ('delivery-proofs', 'delivery-proofs', true)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Anyone can view delivery proof photos"
+ON storage.objects FOR SELECT
+USING (bucket_id = 'delivery-proofs');
+
+CREATE POLICY "Delivery staff can upload delivery proof photos"
+ON storage.objects FOR INSERT
+WITH CHECK (bucket_id = 'delivery-proofs' AND public.is_delivery_staff(auth.uid()));
+
+CREATE OR REPLACE FUNCTION public.generate_handover_code()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  INSERT INTO order_handover_codes (order_id, code)
+  VALUES (NEW.id, lpad(floor(random() * 10000)::integer::text, 4, '0'))
+  ON CONFLICT (order_id) DO NOTHING;
+  RETURN NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.generate_handover_code() FROM PUBLIC, anon, authenticated;
+
+CREATE TRIGGER generate_handover_code
+  AFTER INSERT ON public.orders
+  FOR EACH ROW
+  WHEN (NEW.service_type IN ('cloud_kitchen', 'homemade'))
+  EXECUTE FUNCTION public.generate_handover_code();
+
+-- Orders already on their way get a code too
+INSERT INTO public.order_handover_codes (order_id, code)
+SELECT o.id, lpad(floor(random() * 10000)::integer::text, 4, '0')
+FROM public.orders o
+WHERE o.service_type IN ('cloud_kitchen', 'homemade')
+  AND o.status NOT IN ('delivered', 'cancelled')
+ON CONFLICT (order_id) DO NOTHING;
+
+-- Only complete_delivery (which records the proof first) or an admin may mark
+-- a delivery delivered
+CREATE OR REPLACE FUNCTION public.require_delivery_proof()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_roles text[] := public.order_actor_roles(NEW.customer_id);
+BEGIN
+  IF NEW.delivery_status = 'delivered'
+    AND OLD.delivery_status IS DISTINCT FROM 'delivered'
+    AND NOT v_roles && ARRAY['admin', 'system']
+    AND NOT EXISTS (SELECT 1 FROM delivery_proofs WHERE order_id = NEW.id)
+  THEN
+    RAISE EXCEPTION 'Order % needs the customer''s handover code to be marked delivered', NEW.order_number
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.require_delivery_proof() FROM PUBLIC, anon, authenticated;
+
+CREATE TRIGGER require_delivery_proof
+  BEFORE UPDATE OF delivery_status ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.require_delivery_proof();
+
+-- Hand over an order: checks the customer's code, records the proof and marks
+-- the order delivered. A wrong code is counted rather than raised so the count
+-- sticks; the result says whether the order was delivered and how many tries
+-- are left.
+CREATE OR REPLACE FUNCTION public.complete_delivery(
+  p_order_id uuid,
+  p_handover_code text,
+  p_photo_url text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_staff_id uuid := public.get_delivery_staff_id(auth.uid());
+  v_order orders%ROWTYPE;
+  v_code order_handover_codes%ROWTYPE;
+  v_max_attempts constant integer := 5;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF v_staff_id IS NULL THEN
+    RAISE EXCEPTION 'User is not an approved delivery staff';
+  END IF;
+
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND OR v_order.assigned_delivery_id IS DISTINCT FROM v_user_id THEN
+    RAISE EXCEPTION 'This delivery is not assigned to you';
+  END IF;
+
+  IF v_order.delivery_status <> 'picked_up' THEN
+    RAISE EXCEPTION 'Pick up order % before handing it over', v_order.order_number;
+  END IF;
+
+  SELECT * INTO v_code FROM order_handover_codes WHERE order_id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order % has no handover code. Contact support to complete it.', v_order.order_number;
+  END IF;
+
+  IF v_code.failed_attempts >= v_max_attempts THEN
+    RAISE EXCEPTION 'Too many wrong codes for order %. Contact support to complete it.', v_order.order_number;
+  END IF;
+
+  IF btrim(COALESCE(p_handover_code, '')) <> v_code.code THEN
+    UPDATE order_handover_codes
+    SET failed_attempts = failed_attempts + 1
+    WHERE order_id = p_order_id;
+
+    RETURN jsonb_build_object(
+      'delivered', false,
+      'attempts_left', v_max_attempts - v_code.failed_attempts - 1
+    );
+  END IF;
+
+  INSERT INTO delivery_proofs (order_id, delivery_staff_id, photo_url)
+  VALUES (p_order_id, v_staff_id, NULLIF(btrim(p_photo_url), ''));
+
+  UPDATE orders
+  SET
+    delivery_status = 'delivered',
+    status = 'delivered',
+    delivered_at = now()
+  WHERE id = p_order_id;
+
+  RETURN jsonb_build_object('delivered', true, 'attempts_left', v_max_attempts - v_code.failed_attempts);
+END;
+$$;
@@ -0,0 +1,407 @@
+-- Cash-on-delivery reconciliation
+-- Each partner closes their cash once per business day (Asia/Kolkata). A
+-- closing covers the cash portion of orders they delivered since their last
+-- closed day, plus whatever that day left outstanding. The partner declares
+-- what they are handing over, an admin records the verified deposit, and the
+-- day is closed and locked. Any difference is flagged and carried forward.
+
+CREATE TABLE public.cash_closings (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  delivery_staff_id UUID NOT NULL REFERENCES public.delivery_staff(id) ON DELETE CASCADE,
+  business_date DATE NOT NULL,
+  -- Deliveries after period_start up to cutoff_at count towards this day;
+  -- period_start is the previous closing's cutoff (NULL for the first one)
+  period_start TIMESTAMPTZ,
+  cutoff_at TIMESTAMPTZ NOT NULL,
+  expected_amount NUMERIC NOT NULL DEFAULT 0,
+  -- Outstanding from the previous closed day; negative when they over-deposited
+  carried_forward NUMERIC NOT NULL DEFAULT 0,
+  declared_amount NUMERIC CHECK (declared_amount >= 0),
+  declared_at TIMESTAMPTZ,
+  declared_note TEXT,
+  deposited_amount NUMERIC CHECK (deposited_amount >= 0),
+  -- expected + carried forward - deposited, set when the day is closed
+  outstanding_amount NUMERIC,
+  is_flagged BOOLEAN NOT NULL DEFAULT false,
+  verified_by UUID,
+  verified_at TIMESTAMPTZ,
+  admin_note TEXT,
+  status TEXT NOT NULL DEFAULT 'declared' CHECK (status IN ('declared', 'closed')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (delivery_staff_id, business_date)
+);
+
+CREATE INDEX idx_cash_closings_date ON public.cash_closings (business_date DESC);
+
+ALTER TABLE public.cash_closings ENABLE ROW LEVEL SECURITY;
+
+-- Rows are written only through the functions below
+CREATE POLICY "Delivery staff can view their cash closings" ON public.cash_closings
+FOR SELECT USING (delivery_staff_id = public.get_delivery_staff_id(auth.uid()));
+
+CREATE POLICY "Admins with settlement access can view cash closings" ON public.cash_closings
+FOR SELECT USING (public.has_admin_permission(auth.uid(), 'settlements', 'view'));
+
+CREATE TRIGGER update_cash_closings_updated_at
+  BEFORE UPDATE ON public.cash_closings
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER audit_cash_closings AFTER INSERT OR UPDATE OR DELETE ON public.cash_closings
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+
+-- Closed days never change
+CREATE OR REPLACE FUNCTION public.lock_closed_cash_closings()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF OLD.status = 'closed' THEN
+    RAISE EXCEPTION 'Cash for % is closed and locked', to_char(OLD.business_date, 'DD Mon YYYY')
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+END;
+$$;
+
+CREATE TRIGGER lock_closed_cash_closings
+  BEFORE UPDATE OR DELETE ON public.cash_closings
+  FOR EACH ROW EXECUTE FUNCTION public.lock_closed_cash_closings();
+
+-- Cash a partner should hold for orders delivered in (p_from, p_to]: what the
+-- customer still owed after wallet and online payments
+CREATE OR REPLACE FUNCTION public.cod_cash_collected(p_delivery_staff_id uuid, p_from timestamptz, p_to timestamptz)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT COALESCE(SUM(GREATEST(o.total_amount - COALESCE(o.wallet_amount, 0) - COALESCE(o.online_paid_amount, 0), 0)), 0)
+  FROM orders o
+  JOIN delivery_staff ds ON ds.user_id = o.assigned_delivery_id
+  WHERE ds.id = p_delivery_staff_id
+    AND o.delivery_status = 'delivered'
+    AND o.delivered_at <= p_to
+    AND (p_from IS NULL OR o.delivered_at > p_from);
+$$;
+
+-- The period and amounts a closing for p_business_date would cover right now
+CREATE OR REPLACE FUNCTION public.cash_closing_period(p_delivery_staff_id uuid, p_business_date date)
+RETURNS TABLE (
+  period_start timestamptz,
+  cutoff_at timestamptz,
+  expected_amount numeric,
+  carried_forward numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_last cash_closings%ROWTYPE;
+  v_cutoff timestamptz := LEAST(now(), (p_business_date + 1)::timestamp AT TIME ZONE 'Asia/Kolkata');
+BEGIN
+  IF p_business_date > (now() AT TIME ZONE 'Asia/Kolkata')::date THEN
+    RAISE EXCEPTION 'Cash cannot be closed for a future day';
+  END IF;
+
+  SELECT * INTO v_last
+  FROM cash_closings c
+  WHERE c.delivery_staff_id = p_delivery_staff_id AND c.status = 'closed'
+  ORDER BY c.business_date DESC
+  LIMIT 1;
+
+  IF FOUND AND v_last.business_date >= p_business_date THEN
+    RAISE EXCEPTION 'Cash is already closed up to %', to_char(v_last.business_date, 'DD Mon YYYY');
+  END IF;
+
+  RETURN QUERY SELECT
+    v_last.cutoff_at,
+    v_cutoff,
+    cod_cash_collected(p_delivery_staff_id, v_last.cutoff_at, v_cutoff),
+    COALESCE(v_last.outstanding_amount, 0);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.cod_cash_collected(uuid, timestamptz, timestamptz) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.cash_closing_period(uuid, date) FROM PUBLIC, anon, authenticated;
+
+-- What the signed-in partner owes for a day if they hand over now
+CREATE OR REPLACE FUNCTION public.get_my_cash_due(p_business_date date)
+RETURNS TABLE (
+  expected_amount numeric,
+  carried_forward numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_staff_id uuid := public.get_delivery_staff_id(auth.uid());
+BEGIN
+  IF v_staff_id IS NULL THEN
+    RAISE EXCEPTION 'User is not an approved delivery staff';
+  END IF;
+
+  RETURN QUERY
+  SELECT p.expected_amount, p.carried_forward
+  FROM cash_closing_period(v_staff_id, p_business_date) p;
+END;
+$$;
+
+-- Partner declares the cash they are handing over for a day. Only one day can
+-- be awaiting verification at a time; declaring again replaces the amount.
+CREATE OR REPLACE FUNCTION public.declare_cash_handover(
+  p_business_date date,
+  p_amount numeric,
+  p_note text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_staff_id uuid := public.get_delivery_staff_id(auth.uid());
+  v_period record;
+  v_other date;
+  v_id uuid;
+BEGIN
+  IF v_staff_id IS NULL THEN
+    RAISE EXCEPTION 'User is not an approved delivery staff';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount < 0 THEN
+    RAISE EXCEPTION 'Enter the cash you are handing over';
+  END IF;
+
+  SELECT business_date INTO v_other
+  FROM cash_closings
+  WHERE delivery_staff_id = v_staff_id AND status = 'declared' AND business_date <> p_business_date;
+
+  IF FOUND THEN
+    RAISE EXCEPTION 'Your handover for % is still awaiting verification', to_char(v_other, 'DD Mon');
+  END IF;
+
+  SELECT * INTO v_period FROM cash_closing_period(v_staff_id, p_business_date);
+
+  INSERT INTO cash_closings (
+    delivery_staff_id, business_date, period_start, cutoff_at, expected_amount, carried_forward,
+    declared_amount, declared_at, declared_note
+  )
+  VALUES (
+    v_staff_id, p_business_date, v_period.period_start, v_period.cutoff_at, v_period.expected_amount,
+    v_period.carried_forward, p_amount, now(), NULLIF(btrim(p_note), '')
+  )
+  ON CONFLICT (delivery_staff_id, business_date) DO UPDATE SET
+    period_start = EXCLUDED.period_start,
+    cutoff_at = EXCLUDED.cutoff_at,
+    expected_amount = EXCLUDED.expected_amount,
+    carried_forward = EXCLUDED.carried_forward,
+    declared_amount = EXCLUDED.declared_amount,
+    declared_at = EXCLUDED.declared_at,
+    declared_note = EXCLUDED.declared_note
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$;
+
+-- Admin records the deposit they counted and closes the day. Amounts are
+-- recomputed so deliveries made after the declaration are included; a
+-- deposit that differs from what was due or declared flags the day, and the
+-- difference carries into the partner's next day. The deposit also settles
+-- the partner's wallet collections.
+CREATE OR REPLACE FUNCTION public.close_cash_day(
+  p_delivery_staff_id uuid,
+  p_business_date date,
+  p_deposited_amount numeric,
+  p_note text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_period record;
+  v_existing cash_closings%ROWTYPE;
+  v_due numeric;
+  v_outstanding numeric;
+  v_flagged boolean;
+  v_id uuid;
+BEGIN
+  IF NOT public.has_admin_permission(auth.uid(), 'settlements', 'edit') THEN
+    RAISE EXCEPTION 'Not authorised to close cash';
+  END IF;
+
+  IF p_deposited_amount IS NULL OR p_deposited_amount < 0 THEN
+    RAISE EXCEPTION 'Enter the deposited amount';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM cash_closings
+    WHERE delivery_staff_id = p_delivery_staff_id AND status = 'declared' AND business_date < p_business_date
+  ) THEN
+    RAISE EXCEPTION 'Close the earlier declared day for this partner first';
+  END IF;
+
+  SELECT * INTO v_period FROM cash_closing_period(p_delivery_staff_id, p_business_date);
+
+  SELECT * INTO v_existing
+  FROM cash_closings
+  WHERE delivery_staff_id = p_delivery_staff_id AND business_date = p_business_date
+  FOR UPDATE;
+
+  v_due := v_period.expected_amount + v_period.carried_forward;
+  v_outstanding := v_due - p_deposited_amount;
+  v_flagged := v_outstanding <> 0
+    OR (v_existing.declared_amount IS NOT NULL AND v_existing.declared_amount <> p_deposited_amount);
+
+  INSERT INTO cash_closings (
+    delivery_staff_id, business_date, period_start, cutoff_at, expected_amount, carried_forward,
+    deposited_amount, outstanding_amount, is_flagged, verified_by, verified_at, admin_note, status
+  )
+  VALUES (
+    p_delivery_staff_id, p_business_date, v_period.period_start, v_period.cutoff_at, v_period.expected_amount,
+    v_period.carried_forward, p_deposited_amount, v_outstanding, v_flagged, auth.uid(), now(),
+    NULLIF(btrim(p_note), ''), 'closed'
+  )
+  ON CONFLICT (delivery_staff_id, business_date) DO UPDATE SET
+    period_start = EXCLUDED.period_start,
+    cutoff_at = EXCLUDED.cutoff_at,
+    expected_amount = EXCLUDED.expected_amount,
+    carried_forward = EXCLUDED.carried_forward,
+    deposited_amount = EXCLUDED.deposited_amount,
+    outstanding_amount = EXCLUDED.outstanding_amount,
+    is_flagged = EXCLUDED.is_flagged,
+    verified_by = EXCLUDED.verified_by,
+    verified_at = EXCLUDED.verified_at,
+    admin_note = EXCLUDED.admin_note,
+    status = 'closed'
+  RETURNING id INTO v_id;
+
+  IF p_deposited_amount > 0 THEN
+    UPDATE delivery_wallets
+    SET
+      collected_amount = GREATEST(collected_amount - p_deposited_amount, 0),
+      total_settled = total_settled + p_deposited_amount
+    WHERE delivery_staff_id = p_delivery_staff_id;
+
+    INSERT INTO wallet_transactions (
+      delivery_staff_id, transaction_type, amount, description, status, approved_by, approved_at
+    )
+    VALUES (
+      p_delivery_staff_id, 'settlement', -p_deposited_amount,
+      'Cash deposit for ' || to_char(p_business_date, 'DD Mon YYYY'), 'approved', auth.uid(), now()
+    );
+  END IF;
+
+  RETURN v_id;
+END;
+$$;
+
+-- Outstanding cash per partner per day: every closing in the range, plus days
+-- with delivered cash that no closing covers yet
+CREATE OR REPLACE FUNCTION public.get_cash_reconciliation(p_from date, p_to date)
+RETURNS TABLE (
+  delivery_staff_id uuid,
+  staff_name text,
+  business_date date,
+  closing_id uuid,
+  status text,
+  expected_amount numeric,
+  carried_forward numeric,
+  declared_amount numeric,
+  deposited_amount numeric,
+  outstanding_amount numeric,
+  is_flagged boolean
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF NOT public.has_admin_permission(auth.uid(), 'settlements', 'view') THEN
+    RAISE EXCEPTION 'Not authorised to view cash reconciliation';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    c.delivery_staff_id,
+    ds.name,
+    c.business_date,
+    c.id,
+    c.status,
+    c.expected_amount,
+    c.carried_forward,
+    c.declared_amount,
+    c.deposited_amount,
+    CASE WHEN c.status = 'closed' THEN c.outstanding_amount ELSE c.expected_amount + c.carried_forward END,
+    c.is_flagged
+  FROM cash_closings c
+  JOIN delivery_staff ds ON ds.id = c.delivery_staff_id
+  WHERE c.business_date BETWEEN p_from AND p_to
+
+  UNION ALL
+
+  SELECT
+    ds.id,
+    ds.name,
+    (o.delivered_at AT TIME ZONE 'Asia/Kolkata')::date,
+    NULL::uuid,
+    'open'::text,
+    SUM(GREATEST(o.total_amount - COALESCE(o.wallet_amount, 0) - COALESCE(o.online_paid_amount, 0), 0)),
+    0::numeric,
+    NULL::numeric,
+    NULL::numeric,
+    SUM(GREATEST(o.total_amount - COALESCE(o.wallet_amount, 0) - COALESCE(o.online_paid_amount, 0), 0)),
+    false
+  FROM orders o
+  JOIN delivery_staff ds ON ds.user_id = o.assigned_delivery_id
+  WHERE o.delivery_status = 'delivered'
+    AND (o.delivered_at AT TIME ZONE 'Asia/Kolkata')::date BETWEEN p_from AND p_to
+    AND NOT EXISTS (
+      SELECT 1 FROM cash_closings c
+      WHERE c.delivery_staff_id = ds.id
+        AND o.delivered_at <= c.cutoff_at
+        AND (c.period_start IS NULL OR o.delivered_at > c.period_start)
+    )
+    -- Cash from before a partner's opening balance was settled the old way
+    AND NOT EXISTS (
+      SELECT 1 FROM cash_closings c
+      WHERE c.delivery_staff_id = ds.id AND c.status = 'closed' AND o.delivered_at <= c.cutoff_at
+    )
+  GROUP BY ds.id, ds.name, (o.delivered_at AT TIME ZONE 'Asia/Kolkata')::date
+  HAVING SUM(GREATEST(o.total_amount - COALESCE(o.wallet_amount, 0) - COALESCE(o.online_paid_amount, 0), 0)) > 0
+
+  ORDER BY 3 DESC, 2;
+END;
+$$;
+
+-- Opening balance: close yesterday for every partner with what their wallet
+-- says they still hold, so the first real closing starts from here
+INSERT INTO public.cash_closings (
+  delivery_staff_id, business_date, cutoff_at, carried_forward, deposited_amount,
+  outstanding_amount, is_flagged, verified_at, admin_note, status
+)
+SELECT
+  ds.id,
+  (now() AT TIME ZONE 'Asia/Kolkata')::date - 1,
+  now(),
+  COALESCE(w.collected_amount, 0),
+  0,
+  COALESCE(w.collected_amount, 0),
+  false,
+  now(),
+  'Opening balance from wallet collections',
+  'closed'
+FROM public.delivery_staff ds
+LEFT JOIN public.delivery_wallets w ON w.delivery_staff_id = ds.id
+ON CONFLICT (delivery_staff_id, business_date) DO NOTHING;
@@ -0,0 +1,192 @@
+-- Live delivery tracking
+-- While a partner has deliveries in hand, their app reports its location every
+-- so often through record_delivery_location. Each report is kept as a
+-- breadcrumb, and the ETA of every order they have picked up is recomputed from
+-- the distance to its drop point. Admins follow partners on active jobs live.
+
+-- Where the order is going, when the address has coordinates
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS delivery_latitude DOUBLE PRECISION,
+  ADD COLUMN IF NOT EXISTS delivery_longitude DOUBLE PRECISION,
+  -- Last time delivery_eta was recomputed from the partner's location
+  ADD COLUMN IF NOT EXISTS delivery_eta_updated_at TIMESTAMPTZ;
+
+CREATE TABLE public.delivery_location_pings (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  delivery_staff_id UUID NOT NULL REFERENCES public.delivery_staff(id) ON DELETE CASCADE,
+  latitude DOUBLE PRECISION NOT NULL CHECK (latitude BETWEEN -90 AND 90),
+  longitude DOUBLE PRECISION NOT NULL CHECK (longitude BETWEEN -180 AND 180),
+  -- Reported accuracy radius in metres
+  accuracy_m REAL,
+  recorded_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_delivery_location_pings_staff ON public.delivery_location_pings (delivery_staff_id, recorded_at DESC);
+
+ALTER TABLE public.delivery_location_pings ENABLE ROW LEVEL SECURITY;
+
+-- Pings are written only through record_delivery_location
+CREATE POLICY "Delivery staff can view their location pings" ON public.delivery_location_pings
+FOR SELECT USING (delivery_staff_id = public.get_delivery_staff_id(auth.uid()));
+
+CREATE POLICY "Admins with delivery staff access can view location pings" ON public.delivery_location_pings
+FOR SELECT USING (public.has_admin_permission(auth.uid(), 'delivery_staff', 'view'));
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.delivery_location_pings;
+
+-- Straight-line distance in kilometres (haversine)
+CREATE OR REPLACE FUNCTION public.distance_km(
+  p_lat1 double precision,
+  p_lng1 double precision,
+  p_lat2 double precision,
+  p_lng2 double precision
+)
+RETURNS double precision
+LANGUAGE sql
+IMMUTABLE
+SET search_path TO 'public'
+AS $$
+  SELECT 2 * 6371 * asin(sqrt(
+    power(sin(radians(p_lat2 - p_lat1) / 2), 2)
+    + cos(radians(p_lat1)) * cos(radians(p_lat2)) * power(sin(radians(p_lng2 - p_lng1) / 2), 2)
+  ));
+$$;
+
+-- Minutes to ride a straight-line distance: roads run about 1.3x longer, at
+-- 20 km/h through town, plus a few minutes to find the door
+CREATE OR REPLACE FUNCTION public.delivery_eta_minutes(p_distance_km double precision)
+RETURNS integer
+LANGUAGE sql
+IMMUTABLE
+SET search_path TO 'public'
+AS $$
+  SELECT ceil(p_distance_km * 1.3 / 20 * 60)::integer + 3;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.distance_km(double precision, double precision, double precision, double precision) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.delivery_eta_minutes(double precision) FROM PUBLIC, anon, authenticated;
+
+-- Called by the partner app with the device's location. Reports closer together
+-- than 15 seconds are ignored. Returns whether the ping was kept and how many
+-- order ETAs were recomputed.
+CREATE OR REPLACE FUNCTION public.record_delivery_location(
+  p_latitude double precision,
+  p_longitude double precision,
+  p_accuracy_m real DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_staff_id uuid := public.get_delivery_staff_id(auth.uid());
+  v_updated integer;
+BEGIN
+  IF v_staff_id IS NULL THEN
+    RAISE EXCEPTION 'User is not an approved delivery staff';
+  END IF;
+
+  IF p_latitude IS NULL OR p_longitude IS NULL
+    OR p_latitude NOT BETWEEN -90 AND 90 OR p_longitude NOT BETWEEN -180 AND 180
+  THEN
+    RAISE EXCEPTION 'Invalid location';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM delivery_location_pings
+    WHERE delivery_staff_id = v_staff_id AND recorded_at > now() - interval '15 seconds'
+  ) THEN
+    RETURN jsonb_build_object('recorded', false, 'updated_orders', 0);
+  END IF;
+
+  INSERT INTO delivery_location_pings (delivery_staff_id, latitude, longitude, accuracy_m)
+  VALUES (v_staff_id, p_latitude, p_longitude, p_accuracy_m);
+
+  UPDATE orders
+  SET
+    delivery_eta = now() + make_interval(mins => public.delivery_eta_minutes(
+      public.distance_km(p_latitude, p_longitude, delivery_latitude, delivery_longitude)
+    )),
+    delivery_eta_updated_at = now()
+  WHERE assigned_delivery_id = v_user_id
+    AND delivery_status = 'picked_up'
+    AND delivery_latitude IS NOT NULL
+    AND delivery_longitude IS NOT NULL;
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+
+  RETURN jsonb_build_object('recorded', true, 'updated_orders', v_updated);
+END;
+$$;
+
+-- Partners with deliveries in hand, their latest location and those deliveries
+CREATE OR REPLACE FUNCTION public.get_active_delivery_locations()
+RETURNS TABLE (
+  delivery_staff_id uuid,
+  name text,
+  mobile_number text,
+  vehicle_type text,
+  latitude double precision,
+  longitude double precision,
+  accuracy_m real,
+  recorded_at timestamptz,
+  active_orders jsonb
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF NOT public.has_admin_permission(auth.uid(), 'delivery_staff', 'view') THEN
+    RAISE EXCEPTION 'Not authorised to view delivery locations';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    ds.id,
+    ds.name,
+    ds.mobile_number,
+    ds.vehicle_type,
+    p.latitude,
+    p.longitude,
+    p.accuracy_m,
+    p.recorded_at,
+    a.active_orders
+  FROM delivery_staff ds
+  LEFT JOIN LATERAL (
+    SELECT lp.latitude, lp.longitude, lp.accuracy_m, lp.recorded_at
+    FROM delivery_location_pings lp
+    WHERE lp.delivery_staff_id = ds.id
+    ORDER BY lp.recorded_at DESC
+    LIMIT 1
+  ) p ON true
+  JOIN LATERAL (
+    SELECT jsonb_agg(jsonb_build_object(
+      'id', o.id,
+      'order_number', o.order_number,
+      'delivery_status', o.delivery_status,
+      'delivery_address', o.delivery_address,
+      'delivery_eta', o.delivery_eta,
+      'delivery_eta_updated_at', o.delivery_eta_updated_at,
+      'distance_km', CASE
+        WHEN p.latitude IS NOT NULL AND o.delivery_latitude IS NOT NULL
+        THEN round(public.distance_km(p.latitude, p.longitude, o.delivery_latitude, o.delivery_longitude)::numeric, 1)
+      END
+    ) ORDER BY o.created_at) AS active_orders
+    FROM orders o
+    WHERE o.assigned_delivery_id = ds.user_id
+      AND o.delivery_status IN ('assigned', 'picked_up')
+  ) a ON a.active_orders IS NOT NULL
+  ORDER BY p.recorded_at DESC NULLS LAST, ds.name;
+END;
+$$;
+
+-- Breadcrumbs are only needed while deliveries are fresh
+SELECT cron.schedule(
+  'prune-delivery-location-pings',
+  '30 3 * * *',
+  $$DELETE FROM public.delivery_location_pings WHERE recorded_at < now() - interval '7 days'$$
+);
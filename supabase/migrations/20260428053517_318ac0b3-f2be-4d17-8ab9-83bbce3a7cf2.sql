@@ -0,0 +1,529 @@
+-- Geo-coded customer addresses
+-- Customers drop a pin on their address and the ward is worked out from ward
+-- boundaries that admins upload per panchayat as GeoJSON. Once any boundaries
+-- exist, a pin outside all of them is outside the delivery area and the
+-- address is rejected. Orders placed to a saved address carry its pin, which
+-- live ETAs are measured against.
+
+ALTER TABLE public.customer_addresses
+  ADD COLUMN IF NOT EXISTS latitude DOUBLE PRECISION CHECK (latitude BETWEEN -90 AND 90),
+  ADD COLUMN IF NOT EXISTS longitude DOUBLE PRECISION CHECK (longitude BETWEEN -180 AND 180),
+  ADD CONSTRAINT customer_addresses_pin_check CHECK ((latitude IS NULL) = (longitude IS NULL));
+
+CREATE TABLE public.ward_boundaries (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  panchayat_id UUID NOT NULL REFERENCES public.panchayats(id) ON DELETE CASCADE,
+  ward_number INTEGER NOT NULL CHECK (ward_number > 0),
+  -- GeoJSON Polygon or MultiPolygon geometry, positions as [longitude, latitude]
+  boundary JSONB NOT NULL CHECK (boundary->>'type' IN ('Polygon', 'MultiPolygon')),
+  -- Bounding box, to skip wards that cannot contain a point
+  min_lat DOUBLE PRECISION NOT NULL,
+  max_lat DOUBLE PRECISION NOT NULL,
+  min_lng DOUBLE PRECISION NOT NULL,
+  max_lng DOUBLE PRECISION NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (panchayat_id, ward_number)
+);
+
+ALTER TABLE public.ward_boundaries ENABLE ROW LEVEL SECURITY;
+
+-- Boundaries are replaced only through replace_ward_boundaries
+CREATE POLICY "Anyone can view ward boundaries" ON public.ward_boundaries
+FOR SELECT USING (true);
+
+CREATE TRIGGER update_ward_boundaries_updated_at
+  BEFORE UPDATE ON public.ward_boundaries
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER audit_ward_boundaries AFTER INSERT OR UPDATE OR DELETE ON public.ward_boundaries
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+
+-- Ray casting against one linear ring of [longitude, latitude] positions
+CREATE OR REPLACE FUNCTION public.point_in_ring(p_latitude double precision, p_longitude double precision, p_ring jsonb)
+RETURNS boolean
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_count integer := jsonb_array_length(p_ring);
+  v_inside boolean := false;
+  v_prev integer := v_count - 1;
+  v_lng_i double precision;
+  v_lat_i double precision;
+  v_lng_j double precision;
+  v_lat_j double precision;
+BEGIN
+  FOR i IN 0 .. v_count - 1 LOOP
+    v_lng_i := (p_ring->i->>0)::double precision;
+    v_lat_i := (p_ring->i->>1)::double precision;
+    v_lng_j := (p_ring->v_prev->>0)::double precision;
+    v_lat_j := (p_ring->v_prev->>1)::double precision;
+
+    IF (v_lat_i > p_latitude) <> (v_lat_j > p_latitude)
+      AND p_longitude < (v_lng_j - v_lng_i) * (p_latitude - v_lat_i) / (v_lat_j - v_lat_i) + v_lng_i
+    THEN
+      v_inside := NOT v_inside;
+    END IF;
+
+    v_prev := i;
+  END LOOP;
+
+  RETURN v_inside;
+END;
+$$;
+
+-- Inside a Polygon's outer ring and none of its holes, or inside any polygon of a MultiPolygon
+CREATE OR REPLACE FUNCTION public.point_in_geometry(p_latitude double precision, p_longitude double precision, p_geometry jsonb)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+SET search_path TO 'public'
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(
+      CASE p_geometry->>'type'
+        WHEN 'Polygon' THEN jsonb_build_array(p_geometry->'coordinates')
+        WHEN 'MultiPolygon' THEN p_geometry->'coordinates'
+        ELSE '[]'::jsonb
+      END
+    ) AS polygon
+    WHERE public.point_in_ring(p_latitude, p_longitude, polygon->0)
+      AND NOT EXISTS (
+        SELECT 1
+        FROM jsonb_array_elements(polygon) WITH ORDINALITY AS hole(ring, n)
+        WHERE hole.n > 1 AND public.point_in_ring(p_latitude, p_longitude, hole.ring)
+      )
+  );
+$$;
+
+-- The ward of an active panchayat that contains a point
+CREATE OR REPLACE FUNCTION public.find_ward(p_latitude double precision, p_longitude double precision)
+RETURNS TABLE (panchayat_id uuid, ward_number integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT wb.panchayat_id, wb.ward_number
+  FROM ward_boundaries wb
+  JOIN panchayats p ON p.id = wb.panchayat_id AND p.is_active
+  WHERE p_latitude BETWEEN wb.min_lat AND wb.max_lat
+    AND p_longitude BETWEEN wb.min_lng AND wb.max_lng
+    AND public.point_in_geometry(p_latitude, p_longitude, wb.boundary)
+  ORDER BY p.name, wb.ward_number
+  LIMIT 1;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.point_in_ring(double precision, double precision, jsonb) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.point_in_geometry(double precision, double precision, jsonb) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.find_ward(double precision, double precision) FROM PUBLIC, anon, authenticated;
+
+-- Where a pin falls, for the address form. coverage_configured is false until
+-- admins have uploaded any boundaries, in which case the ward is still chosen
+-- by hand.
+CREATE OR REPLACE FUNCTION public.locate_ward(p_latitude double precision, p_longitude double precision)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_panchayat_id uuid;
+  v_panchayat_name text;
+  v_ward_number integer;
+BEGIN
+  SELECT f.panchayat_id, p.name, f.ward_number
+  INTO v_panchayat_id, v_panchayat_name, v_ward_number
+  FROM public.find_ward(p_latitude, p_longitude) f
+  JOIN panchayats p ON p.id = f.panchayat_id;
+
+  RETURN jsonb_build_object(
+    'found', v_panchayat_id IS NOT NULL,
+    'panchayat_id', v_panchayat_id,
+    'panchayat_name', v_panchayat_name,
+    'ward_number', v_ward_number,
+    'coverage_configured', EXISTS (SELECT 1 FROM ward_boundaries)
+  );
+END;
+$$;
+
+-- Pinned addresses take their panchayat and ward from the boundaries
+CREATE OR REPLACE FUNCTION public.locate_customer_address()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_ward record;
+BEGIN
+  IF NEW.latitude IS NULL THEN
+    IF TG_OP = 'INSERT' AND EXISTS (SELECT 1 FROM ward_boundaries) THEN
+      RAISE EXCEPTION 'Drop a pin on your address so we can find your ward'
+        USING ERRCODE = 'check_violation';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_ward FROM public.find_ward(NEW.latitude, NEW.longitude);
+
+  IF FOUND THEN
+    NEW.panchayat_id := v_ward.panchayat_id;
+    NEW.ward_number := v_ward.ward_number;
+  ELSIF EXISTS (SELECT 1 FROM ward_boundaries) THEN
+    RAISE EXCEPTION 'This address is outside our delivery area'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.locate_customer_address() FROM PUBLIC, anon, authenticated;
+
+CREATE TRIGGER locate_customer_address
+  BEFORE INSERT OR UPDATE OF latitude, longitude, panchayat_id, ward_number ON public.customer_addresses
+  FOR EACH ROW
+  EXECUTE FUNCTION public.locate_customer_address();
+
+-- Replace a panchayat's ward boundaries. p_boundaries is an array of
+-- {ward_number, geometry}; wards left out lose their boundary.
+CREATE OR REPLACE FUNCTION public.replace_ward_boundaries(p_panchayat_id uuid, p_boundaries jsonb)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_ward_count integer;
+  v_entry jsonb;
+  v_ward integer;
+  v_geometry jsonb;
+  v_positions jsonb;
+  v_inserted integer := 0;
+BEGIN
+  IF NOT public.has_admin_permission(auth.uid(), 'locations', 'edit') THEN
+    RAISE EXCEPTION 'Not authorised to edit locations';
+  END IF;
+
+  SELECT ward_count INTO v_ward_count FROM panchayats WHERE id = p_panchayat_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Panchayat not found';
+  END IF;
+
+  IF jsonb_typeof(p_boundaries) <> 'array' THEN
+    RAISE EXCEPTION 'Boundaries must be a list of wards';
+  END IF;
+
+  DELETE FROM ward_boundaries WHERE panchayat_id = p_panchayat_id;
+
+  FOR v_entry IN SELECT * FROM jsonb_array_elements(p_boundaries) LOOP
+    v_ward := (v_entry->>'ward_number')::integer;
+    v_geometry := v_entry->'geometry';
+
+    IF v_ward IS NULL OR v_ward < 1 OR v_ward > v_ward_count THEN
+      RAISE EXCEPTION 'Ward % is not one of the panchayat''s % wards', v_entry->>'ward_number', v_ward_count;
+    END IF;
+
+    v_positions := CASE v_geometry->>'type'
+      WHEN 'Polygon' THEN jsonb_path_query_array(v_geometry, 'strict $.coordinates[*][*]')
+      WHEN 'MultiPolygon' THEN jsonb_path_query_array(v_geometry, 'strict $.coordinates[*][*][*]')
+    END;
+
+    IF v_positions IS NULL OR jsonb_array_length(v_positions) < 4 THEN
+      RAISE EXCEPTION 'Ward % needs a Polygon or MultiPolygon boundary', v_ward;
+    END IF;
+
+    INSERT INTO ward_boundaries (panchayat_id, ward_number, boundary, min_lat, max_lat, min_lng, max_lng)
+    SELECT
+      p_panchayat_id,
+      v_ward,
+      v_geometry,
+      min((pos->>1)::double precision),
+      max((pos->>1)::double precision),
+      min((pos->>0)::double precision),
+      max((pos->>0)::double precision)
+    FROM jsonb_array_elements(v_positions) AS pos;
+
+    v_inserted := v_inserted + 1;
+  END LOOP;
+
+  RETURN v_inserted;
+END;
+$$;
+
+-- place_order: an order placed to a saved address must be in the ward it is
+-- placed for, and carries the address's pin
+DROP FUNCTION IF EXISTS public.place_order(service_type, jsonb, uuid, integer, text, text, uuid, numeric, text, numeric, date, time, time);
+
+CREATE OR REPLACE FUNCTION public.place_order(
+  p_service_type service_type,
+  p_items jsonb,
+  p_panchayat_id uuid,
+  p_ward_number integer,
+  p_delivery_address text,
+  p_delivery_instructions text DEFAULT NULL,
+  p_cloud_kitchen_slot_id uuid DEFAULT NULL,
+  p_expected_total numeric DEFAULT NULL,
+  p_coupon_code text DEFAULT NULL,
+  p_wallet_amount numeric DEFAULT 0,
+  p_scheduled_for date DEFAULT NULL,
+  p_window_start time DEFAULT NULL,
+  p_window_end time DEFAULT NULL,
+  p_address_id uuid DEFAULT NULL
+)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_user_id uuid;
+  v_quote jsonb;
+  v_schedule jsonb;
+  v_total numeric;
+  v_coupon_id uuid;
+  v_wallet_amount numeric;
+  v_address customer_addresses%ROWTYPE;
+  v_order orders%ROWTYPE;
+BEGIN
+  v_user_id := auth.uid();
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_service_type = 'indoor_events' THEN
+    RAISE EXCEPTION 'Indoor event bookings cannot be placed through checkout';
+  END IF;
+
+  IF p_address_id IS NOT NULL THEN
+    SELECT * INTO v_address FROM customer_addresses WHERE id = p_address_id AND user_id = v_user_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Delivery address not found';
+    END IF;
+
+    IF v_address.panchayat_id IS NOT NULL
+      AND (v_address.panchayat_id <> p_panchayat_id OR v_address.ward_number IS DISTINCT FROM p_ward_number)
+    THEN
+      RAISE EXCEPTION 'This address is in a different ward. Change your location to order to it.';
+    END IF;
+  END IF;
+
+  v_schedule := public.schedule_order_delivery(
+    p_service_type, p_items, p_cloud_kitchen_slot_id, p_scheduled_for, p_window_start, p_window_end
+  );
+
+  -- Serialise redemptions of the same coupon so usage limits hold
+  IF NULLIF(trim(p_coupon_code), '') IS NOT NULL THEN
+    PERFORM 1 FROM coupons WHERE upper(code) = upper(trim(p_coupon_code)) FOR UPDATE;
+  END IF;
+
+  v_quote := public.quote_order(p_service_type, p_items, p_cloud_kitchen_slot_id, p_coupon_code, p_panchayat_id);
+  v_total := (v_quote->>'total')::numeric;
+
+  IF v_quote->>'coupon_error' IS NOT NULL THEN
+    RAISE EXCEPTION '%', v_quote->>'coupon_error';
+  END IF;
+
+  IF p_expected_total IS NOT NULL AND abs(v_total - p_expected_total) > 0.01 THEN
+    RAISE EXCEPTION 'Prices have changed since you opened checkout. Please review your order.';
+  END IF;
+
+  IF COALESCE(p_wallet_amount, 0) < 0 THEN
+    RAISE EXCEPTION 'Invalid wallet amount';
+  END IF;
+
+  v_wallet_amount := LEAST(round(COALESCE(p_wallet_amount, 0), 2), v_total);
+
+  v_coupon_id := NULLIF(v_quote->>'coupon_id', '')::uuid;
+
+  -- order_number is overwritten by the set_order_number trigger
+  INSERT INTO orders (
+    order_number,
+    customer_id,
+    service_type,
+    total_amount,
+    delivery_amount,
+    coupon_id,
+    coupon_code,
+    coupon_discount_amount,
+    wallet_amount,
+    cgst_amount,
+    sgst_amount,
+    delivery_tax_rate,
+    delivery_tax_amount,
+    panchayat_id,
+    ward_number,
+    delivery_address,
+    delivery_latitude,
+    delivery_longitude,
+    delivery_instructions,
+    cloud_kitchen_slot_id,
+    scheduled_for,
+    delivery_window_start,
+    delivery_window_end,
+    release_at,
+    status,
+    cook_status,
+    delivery_status,
+    cook_assignment_status,
+    estimated_delivery_minutes
+  ) VALUES (
+    '',
+    v_user_id,
+    p_service_type,
+    v_total,
+    (v_quote->>'delivery_charge')::numeric,
+    v_coupon_id,
+    v_quote->>'coupon_code',
+    (v_quote->>'coupon_discount')::numeric,
+    v_wallet_amount,
+    (v_quote->>'cgst_total')::numeric,
+    (v_quote->>'sgst_total')::numeric,
+    (v_quote->>'delivery_tax_rate')::numeric,
+    (v_quote->>'delivery_tax')::numeric,
+    p_panchayat_id,
+    p_ward_number,
+    p_delivery_address,
+    v_address.latitude,
+    v_address.longitude,
+    p_delivery_instructions,
+    p_cloud_kitchen_slot_id,
+    (v_schedule->>'scheduled_for')::date,
+    (v_schedule->>'window_start')::timestamptz,
+    (v_schedule->>'window_end')::timestamptz,
+    (v_schedule->>'release_at')::timestamptz,
+    CASE WHEN p_service_type = 'homemade' THEN 'confirmed' ELSE 'pending' END::order_status,
+    'pending',
+    'pending',
+    CASE WHEN p_service_type = 'cloud_kitchen' THEN 'pending' END,
+    CASE WHEN p_service_type = 'homemade' THEN 60 END
+  )
+  RETURNING * INTO v_order;
+
+  INSERT INTO order_items (
+    order_id, food_item_id, quantity, unit_price, total_price, assigned_cook_id,
+    coupon_discount, tax_rate, cgst_amount, sgst_amount, modifiers
+  )
+  SELECT
+    v_order.id,
+    (line->>'food_item_id')::uuid,
+    (line->>'quantity')::integer,
+    (line->>'unit_price')::numeric,
+    (line->>'line_total')::numeric,
+    NULLIF(line->>'cook_id', '')::uuid,
+    (line->>'coupon_discount')::numeric,
+    (line->>'tax_rate')::numeric,
+    (line->>'cgst_amount')::numeric,
+    (line->>'sgst_amount')::numeric,
+    COALESCE(line->'modifiers', '[]'::jsonb)
+  FROM jsonb_array_elements(v_quote->'lines') AS line;
+
+  IF v_coupon_id IS NOT NULL THEN
+    INSERT INTO coupon_redemptions (coupon_id, order_id, user_id, discount_amount)
+    VALUES (v_coupon_id, v_order.id, v_user_id, (v_quote->>'coupon_discount')::numeric);
+  END IF;
+
+  IF v_wallet_amount > 0 THEN
+    PERFORM public.debit_customer_wallet(
+      v_user_id, v_wallet_amount, 'order', v_order.id,
+      'Payment for order ' || v_order.order_number
+    );
+  END IF;
+
+  RETURN v_order;
+END;
+$$;
+
+-- place_checkout: passes the saved address on to each order
+DROP FUNCTION IF EXISTS public.place_checkout(jsonb, uuid, integer, text, text, numeric, date, time, time);
+
+CREATE OR REPLACE FUNCTION public.place_checkout(
+  p_groups jsonb,
+  p_panchayat_id uuid,
+  p_ward_number integer,
+  p_delivery_address text,
+  p_delivery_instructions text DEFAULT NULL,
+  p_wallet_amount numeric DEFAULT 0,
+  p_scheduled_for date DEFAULT NULL,
+  p_window_start time DEFAULT NULL,
+  p_window_end time DEFAULT NULL,
+  p_address_id uuid DEFAULT NULL
+)
+RETURNS public.checkout_groups
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_group checkout_groups%ROWTYPE;
+  v_entry jsonb;
+  v_order orders%ROWTYPE;
+  v_wallet_left numeric := round(COALESCE(p_wallet_amount, 0), 2);
+  v_total numeric := 0;
+  v_wallet_used numeric := 0;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF jsonb_typeof(p_groups) <> 'array' OR jsonb_array_length(p_groups) = 0 THEN
+    RAISE EXCEPTION 'Your cart is empty';
+  END IF;
+
+  IF v_wallet_left < 0 THEN
+    RAISE EXCEPTION 'Invalid wallet amount';
+  END IF;
+
+  IF (SELECT count(*) FROM jsonb_array_elements(p_groups) AS g WHERE NULLIF(trim(g->>'coupon_code'), '') IS NOT NULL) > 1 THEN
+    RAISE EXCEPTION 'A coupon can only be applied to one order';
+  END IF;
+
+  INSERT INTO checkout_groups (customer_id)
+  VALUES (v_user_id)
+  RETURNING * INTO v_group;
+
+  FOR v_entry IN SELECT * FROM jsonb_array_elements(p_groups) LOOP
+    v_order := public.place_order(
+      (v_entry->>'service_type')::service_type,
+      v_entry->'items',
+      p_panchayat_id,
+      p_ward_number,
+      p_delivery_address,
+      p_delivery_instructions,
+      NULL,
+      NULLIF(v_entry->>'expected_total', '')::numeric,
+      NULLIF(trim(v_entry->>'coupon_code'), ''),
+      v_wallet_left,
+      p_scheduled_for,
+      p_window_start,
+      p_window_end,
+      p_address_id
+    );
+
+    UPDATE orders
+    SET checkout_group_id = v_group.id,
+        estimated_delivery_minutes = public.estimate_delivery_minutes(v_entry->'items')
+    WHERE id = v_order.id;
+
+    v_wallet_left := v_wallet_left - v_order.wallet_amount;
+    v_wallet_used := v_wallet_used + v_order.wallet_amount;
+    v_total := v_total + v_order.total_amount;
+  END LOOP;
+
+  UPDATE checkout_groups
+  SET total_amount = v_total,
+      wallet_amount = v_wallet_used
+  WHERE id = v_group.id
+  RETURNING * INTO v_group;
+
+  RETURN v_group;
+END;
+$$;
@@ -0,0 +1,119 @@
+-- Online payments that arrive after an order is settled
+-- A single-order capture used to be added to orders.online_paid_amount even
+-- when the order was cancelled or already paid for (e.g. a second intent on
+-- the same order), and with no refund the money was lost. Like group payments,
+-- a single-order capture now only pays what is still due and the rest goes to
+-- the customer's wallet.
+
+CREATE OR REPLACE FUNCTION public.apply_payment_update(
+  p_payment_id uuid,
+  p_status text,
+  p_provider_payment_id text DEFAULT NULL,
+  p_failure_reason text DEFAULT NULL
+)
+RETURNS public.payments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_payment payments%ROWTYPE;
+  v_order orders%ROWTYPE;
+  v_remaining numeric;
+  v_share numeric;
+BEGIN
+  SELECT * INTO v_payment FROM payments WHERE id = p_payment_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment not found';
+  END IF;
+
+  IF v_payment.status IN ('captured', 'failed')
+     OR v_payment.status = p_status
+     OR (v_payment.status = 'authorised' AND p_status = 'intent') THEN
+    RETURN v_payment;
+  END IF;
+
+  IF p_status NOT IN ('authorised', 'captured', 'failed') THEN
+    RAISE EXCEPTION 'Invalid payment status %', p_status;
+  END IF;
+
+  UPDATE payments
+  SET status = p_status,
+      provider_payment_id = COALESCE(p_provider_payment_id, provider_payment_id),
+      failure_reason = CASE WHEN p_status = 'failed' THEN p_failure_reason END,
+      authorised_at = CASE WHEN p_status IN ('authorised', 'captured') THEN COALESCE(authorised_at, now()) ELSE authorised_at END,
+      captured_at = CASE WHEN p_status = 'captured' THEN now() END,
+      failed_at = CASE WHEN p_status = 'failed' THEN now() END
+  WHERE id = p_payment_id
+  RETURNING * INTO v_payment;
+
+  IF p_status <> 'captured' THEN
+    RETURN v_payment;
+  END IF;
+
+  v_remaining := v_payment.amount;
+
+  IF v_payment.purpose = 'checkout_group' THEN
+    FOR v_order IN
+      SELECT * FROM orders
+      WHERE checkout_group_id = v_payment.checkout_group_id
+        AND status NOT IN ('cancelled', 'delivered')
+      ORDER BY created_at
+      FOR UPDATE
+    LOOP
+      EXIT WHEN v_remaining <= 0;
+      v_share := LEAST(v_remaining, GREATEST(v_order.total_amount - v_order.wallet_amount - v_order.online_paid_amount, 0));
+      CONTINUE WHEN v_share <= 0;
+
+      UPDATE orders
+      SET online_paid_amount = online_paid_amount + v_share
+      WHERE id = v_order.id;
+
+      v_remaining := v_remaining - v_share;
+    END LOOP;
+  ELSE
+    SELECT * INTO v_order FROM orders WHERE id = v_payment.order_id FOR UPDATE;
+
+    -- What this payment's purpose still has due; nothing once the order is settled
+    IF NOT FOUND OR v_order.status IN ('cancelled', 'delivered') THEN
+      v_share := 0;
+    ELSIF v_payment.purpose = 'event_advance' THEN
+      v_share := CASE WHEN v_order.advance_payment_received THEN 0
+        ELSE GREATEST(COALESCE(v_order.advance_payment_required, 0) - v_order.wallet_amount - v_order.online_paid_amount, 0)
+      END;
+    ELSE
+      v_share := GREATEST(v_order.total_amount - v_order.wallet_amount - v_order.online_paid_amount, 0);
+    END IF;
+    v_share := LEAST(v_remaining, v_share);
+
+    IF v_share > 0 THEN
+      UPDATE orders
+      SET online_paid_amount = online_paid_amount + v_share
+      WHERE id = v_order.id
+      RETURNING * INTO v_order;
+
+      v_remaining := v_remaining - v_share;
+
+      IF v_payment.purpose = 'event_advance'
+         AND v_order.wallet_amount + v_order.online_paid_amount >= COALESCE(v_order.advance_payment_required, 0) THEN
+        UPDATE orders
+        SET advance_payment_received = true,
+            advance_payment_verified_at = now()
+        WHERE id = v_order.id;
+      END IF;
+    END IF;
+  END IF;
+
+  IF v_remaining > 0 THEN
+    PERFORM public.credit_customer_wallet(
+      v_payment.user_id, v_remaining, 'payment', v_payment.id,
+      'Unused part of an online payment'
+    );
+  END IF;
+
+  RETURN v_payment;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_payment_update(uuid, text, text, text) FROM PUBLIC, anon, authenticated;
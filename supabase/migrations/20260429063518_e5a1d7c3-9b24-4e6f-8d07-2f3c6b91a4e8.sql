@@ -0,0 +1,50 @@
+-- Harden OTP login
+-- Wrong guesses are counted with one conditional update, so parallel guesses
+-- cannot all read the same count and get past the attempt limit. The mobile
+-- number is the login identity, so customers can no longer change it on their
+-- own profile.
+
+-- Use up one attempt on a live code. Returns the attempts made including this
+-- one, or NULL when the code is spent, expired or out of attempts.
+CREATE OR REPLACE FUNCTION public.use_otp_attempt(p_otp_id uuid, p_max_attempts integer)
+RETURNS integer
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  UPDATE auth_otps
+  SET attempts = attempts + 1
+  WHERE id = p_otp_id
+    AND attempts < p_max_attempts
+    AND consumed_at IS NULL
+    AND expires_at > now()
+  RETURNING attempts;
+$$;
+
+-- Only the customer-auth edge function (service role) checks codes
+REVOKE EXECUTE ON FUNCTION public.use_otp_attempt(uuid, integer) FROM PUBLIC, anon, authenticated;
+
+-- "Users can update their own profile" covers every column; the mobile number
+-- may only be changed by a super admin or the service role
+CREATE OR REPLACE FUNCTION public.protect_profile_mobile_number()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF NEW.mobile_number IS DISTINCT FROM OLD.mobile_number
+     AND auth.uid() IS NOT NULL
+     AND NOT public.has_role(auth.uid(), 'super_admin') THEN
+    RAISE EXCEPTION 'The mobile number on an account cannot be changed';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.protect_profile_mobile_number() FROM PUBLIC, anon, authenticated;
+
+CREATE TRIGGER protect_profile_mobile_number
+BEFORE UPDATE OF mobile_number ON public.profiles
+FOR EACH ROW EXECUTE FUNCTION public.protect_profile_mobile_number();
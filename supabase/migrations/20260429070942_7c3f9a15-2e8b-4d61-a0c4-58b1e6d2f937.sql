@@ -0,0 +1,47 @@
+-- Cook assignment safety net
+-- The every-minute sweep only looked at pending orders, but place_order
+-- creates homemade orders as confirmed, so those never got the fallback. It
+-- also skipped scheduled orders placed more than a day ahead. It now takes any
+-- open order without a cook, and its one-day window counts from the kitchen
+-- release for scheduled orders.
+
+CREATE OR REPLACE FUNCTION public.run_cook_assignments()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_order_id uuid;
+BEGIN
+  UPDATE order_assigned_cooks
+  SET cook_status = 'auto_rejected',
+      responded_at = now(),
+      notes = COALESCE(notes, 'No response before the deadline'),
+      updated_at = now()
+  WHERE cook_status = 'pending' AND response_deadline < now();
+
+  PERFORM set_config('app.order_actor', 'system', true);
+
+  FOR v_order_id IN
+    SELECT o.id
+    FROM orders o
+    WHERE o.status NOT IN ('delivered', 'cancelled')
+      AND o.service_type <> 'indoor_events'
+      AND o.cook_escalated_at IS NULL
+      AND o.created_at <= now() - interval '1 minute'
+      AND COALESCE(o.release_at, o.created_at) >= now() - interval '1 day'
+      AND EXISTS (SELECT 1 FROM order_items oi WHERE oi.order_id = o.id)
+      AND NOT EXISTS (
+        SELECT 1 FROM order_assigned_cooks a
+        WHERE a.order_id = o.id AND a.cook_status IN ('pending', 'accepted', 'preparing', 'cooked', 'ready')
+      )
+  LOOP
+    PERFORM run_cook_assignment(v_order_id);
+  END LOOP;
+
+  PERFORM set_config('app.order_actor', '', true);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.run_cook_assignments() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,156 @@
+-- Tables and functions added after admin permissions still let any admin in
+-- through has_role. Gate them by the area their admin screens live in, like
+-- the policies in 20260421071946.
+
+-- Orders
+DROP POLICY IF EXISTS "Admins can manage cancellation policies" ON public.cancellation_policies;
+CREATE POLICY "Admins with order access can view cancellation policies" ON public.cancellation_policies
+FOR SELECT USING (public.has_admin_permission(auth.uid(), 'orders', 'view'));
+CREATE POLICY "Admins with order edit access can manage cancellation policies" ON public.cancellation_policies
+FOR ALL USING (public.has_admin_permission(auth.uid(), 'orders', 'edit'))
+WITH CHECK (public.has_admin_permission(auth.uid(), 'orders', 'edit'));
+
+DROP POLICY IF EXISTS "Admins can view all checkout groups" ON public.checkout_groups;
+CREATE POLICY "Admins with order access can view checkout groups" ON public.checkout_groups
+FOR SELECT USING (public.has_admin_permission(auth.uid(), 'orders', 'view'));
+
+DROP POLICY IF EXISTS "Admins can view all meal subscriptions" ON public.meal_subscriptions;
+CREATE POLICY "Admins with order access can view meal subscriptions" ON public.meal_subscriptions
+FOR SELECT USING (public.has_admin_permission(auth.uid(), 'orders', 'view'));
+
+DROP POLICY IF EXISTS "Admins can view all skipped meals" ON public.meal_subscription_skips;
+CREATE POLICY "Admins with order access can view skipped meals" ON public.meal_subscription_skips
+FOR SELECT USING (public.has_admin_permission(auth.uid(), 'orders', 'view'));
+
+DROP POLICY IF EXISTS "Admins can view all addresses" ON public.customer_addresses;
+CREATE POLICY "Admins with order access can view addresses" ON public.customer_addresses
+FOR SELECT USING (public.has_admin_permission(auth.uid(), 'orders', 'view'));
+
+DROP POLICY IF EXISTS "Staff can view order history" ON public.order_status_history;
+CREATE POLICY "Staff can view order history" ON public.order_status_history
+FOR SELECT TO authenticated
+USING (
+  public.has_admin_permission(auth.uid(), 'orders', 'view')
+  OR public.has_admin_permission(auth.uid(), 'assign_orders', 'view')
+  OR public.is_cook(auth.uid()) OR public.is_delivery_staff(auth.uid())
+);
+
+DROP POLICY IF EXISTS "Admins can view all payments" ON public.payments;
+CREATE POLICY "Admins with order access can view payments" ON public.payments
+FOR SELECT USING (
+  public.has_admin_permission(auth.uid(), 'orders', 'view')
+  OR public.has_admin_permission(auth.uid(), 'settlements', 'view')
+  OR public.has_admin_permission(auth.uid(), 'reports', 'view')
+);
+
+-- Catalogue: modifiers are edited with the item, tax classes on the categories screen
+DROP POLICY IF EXISTS "Admins can manage modifier groups" ON public.modifier_groups;
+CREATE POLICY "Admins with item edit access can manage modifier groups" ON public.modifier_groups
+FOR ALL USING (public.has_admin_permission(auth.uid(), 'items', 'edit'))
+WITH CHECK (public.has_admin_permission(auth.uid(), 'items', 'edit'));
+
+DROP POLICY IF EXISTS "Admins can manage modifier options" ON public.modifier_options;
+CREATE POLICY "Admins with item edit access can manage modifier options" ON public.modifier_options
+FOR ALL USING (public.has_admin_permission(auth.uid(), 'items', 'edit'))
+WITH CHECK (public.has_admin_permission(auth.uid(), 'items', 'edit'));
+
+DROP POLICY IF EXISTS "Admins can manage tax classes" ON public.tax_classes;
+CREATE POLICY "Admins with category edit access can manage tax classes" ON public.tax_classes
+FOR ALL USING (public.has_admin_permission(auth.uid(), 'categories', 'edit'))
+WITH CHECK (public.has_admin_permission(auth.uid(), 'categories', 'edit'));
+
+-- Coupons live with the special offers
+DROP POLICY IF EXISTS "Admins can manage coupons" ON public.coupons;
+CREATE POLICY "Admins with offer access can view coupons" ON public.coupons
+FOR SELECT USING (public.has_admin_permission(auth.uid(), 'special_offers', 'view'));
+CREATE POLICY "Admins with offer edit access can manage coupons" ON public.coupons
+FOR ALL USING (public.has_admin_permission(auth.uid(), 'special_offers', 'edit'))
+WITH CHECK (public.has_admin_permission(auth.uid(), 'special_offers', 'edit'));
+
+DROP POLICY IF EXISTS "Admins can view all coupon redemptions" ON public.coupon_redemptions;
+CREATE POLICY "Admins with offer access can view coupon redemptions" ON public.coupon_redemptions
+FOR SELECT USING (
+  public.has_admin_permission(auth.uid(), 'special_offers', 'view')
+  OR public.has_admin_permission(auth.uid(), 'reports', 'view')
+);
+
+-- Delivery wallets: shown with delivery staff and in reports, paid out by settlement editors
+DROP POLICY IF EXISTS "Admins can manage wallets" ON public.delivery_wallets;
+CREATE POLICY "Admins with delivery staff access can view wallets" ON public.delivery_wallets
+FOR SELECT USING (
+  public.has_admin_permission(auth.uid(), 'delivery_staff', 'view')
+  OR public.has_admin_permission(auth.uid(), 'settlements', 'view')
+  OR public.has_admin_permission(auth.uid(), 'reports', 'view')
+);
+CREATE POLICY "Admins with settlement edit access can manage wallets" ON public.delivery_wallets
+FOR ALL USING (public.has_admin_permission(auth.uid(), 'settlements', 'edit'))
+WITH CHECK (public.has_admin_permission(auth.uid(), 'settlements', 'edit'));
+
+DROP POLICY IF EXISTS "Admins can manage transactions" ON public.wallet_transactions;
+CREATE POLICY "Admins with delivery staff access can view transactions" ON public.wallet_transactions
+FOR SELECT USING (
+  public.has_admin_permission(auth.uid(), 'delivery_staff', 'view')
+  OR public.has_admin_permission(auth.uid(), 'settlements', 'view')
+  OR public.has_admin_permission(auth.uid(), 'reports', 'view')
+);
+CREATE POLICY "Admins with settlement edit access can manage transactions" ON public.wallet_transactions
+FOR ALL USING (public.has_admin_permission(auth.uid(), 'settlements', 'edit'))
+WITH CHECK (public.has_admin_permission(auth.uid(), 'settlements', 'edit'));
+
+-- Only admins who can change orders act as 'admin' in order_status_transitions
+CREATE OR REPLACE FUNCTION public.order_actor_roles(p_customer_id uuid)
+RETURNS text[]
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_roles text[] := '{}';
+BEGIN
+  IF v_user_id IS NULL OR current_setting('app.order_actor', true) = 'system' THEN
+    RETURN ARRAY['system'];
+  END IF;
+
+  IF has_admin_permission(v_user_id, 'orders', 'edit')
+    OR has_admin_permission(v_user_id, 'assign_orders', 'edit')
+  THEN
+    v_roles := v_roles || 'admin'::text;
+  END IF;
+  IF is_cook(v_user_id) THEN
+    v_roles := v_roles || 'cook'::text;
+  END IF;
+  IF is_delivery_staff(v_user_id) THEN
+    v_roles := v_roles || 'delivery_staff'::text;
+  END IF;
+  IF p_customer_id = v_user_id THEN
+    v_roles := v_roles || 'customer'::text;
+  END IF;
+
+  RETURN v_roles;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_cancellation_terms(p_order_id uuid)
+RETURNS TABLE(allowed boolean, fee numeric, refund numeric, policy_name text, description text)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id;
+
+  IF NOT FOUND OR (
+    v_order.customer_id IS DISTINCT FROM auth.uid()
+    AND NOT has_admin_permission(auth.uid(), 'orders', 'view')
+  ) THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  RETURN QUERY SELECT * FROM evaluate_cancellation_policy(v_order);
+END;
+$$;
@@ -0,0 +1,169 @@
+-- Proof of delivery, tightened
+-- Doorstep photos show a customer's home, so the bucket is private: only the
+-- order's customer, its delivery partner and admins with order access can read
+-- them, through signed links. delivery_proofs keeps the photo's path in the
+-- bucket rather than a URL.
+-- Handover codes come from a secure random source instead of random().
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+UPDATE storage.buckets SET public = false WHERE id = 'delivery-proofs';
+
+DROP POLICY IF EXISTS "Anyone can view delivery proof photos" ON storage.objects;
+DROP POLICY IF EXISTS "Delivery staff can upload delivery proof photos" ON storage.objects;
+
+-- Photos are stored under a folder named after the order
+CREATE POLICY "Order parties can view delivery proof photos"
+ON storage.objects FOR SELECT
+USING (
+  bucket_id = 'delivery-proofs'
+  AND EXISTS (
+    SELECT 1 FROM public.orders o
+    WHERE o.id::text = (storage.foldername(name))[1]
+      AND (
+        o.customer_id = auth.uid()
+        OR o.assigned_delivery_id = auth.uid()
+        OR public.has_admin_permission(auth.uid(), 'orders', 'view')
+      )
+  )
+);
+
+CREATE POLICY "Delivery partners can upload photos for their orders"
+ON storage.objects FOR INSERT
+WITH CHECK (
+  bucket_id = 'delivery-proofs'
+  AND public.is_delivery_staff(auth.uid())
+  AND EXISTS (
+    SELECT 1 FROM public.orders o
+    WHERE o.id::text = (storage.foldername(name))[1]
+      AND o.assigned_delivery_id = auth.uid()
+  )
+);
+
+ALTER TABLE public.delivery_proofs RENAME COLUMN photo_url TO photo_path;
+
+-- Photos already taken were saved as public URLs into this bucket
+UPDATE public.delivery_proofs
+SET photo_path = regexp_replace(photo_path, '^.*/storage/v1/object/public/delivery-proofs/', '')
+WHERE photo_path LIKE '%/storage/v1/object/public/delivery-proofs/%';
+
+CREATE OR REPLACE FUNCTION public.new_handover_code()
+RETURNS text
+LANGUAGE sql
+VOLATILE
+SET search_path TO 'public'
+AS $$
+  SELECT lpad(
+    (('x' || encode(extensions.gen_random_bytes(4), 'hex'))::bit(32)::bigint % 10000)::text,
+    4,
+    '0'
+  )
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.new_handover_code() FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.generate_handover_code()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  INSERT INTO order_handover_codes (order_id, code)
+  VALUES (NEW.id, new_handover_code())
+  ON CONFLICT (order_id) DO NOTHING;
+  RETURN NULL;
+END;
+$$;
+
+-- Replace the random() codes of orders that are not yet at the door
+UPDATE public.order_handover_codes hc
+SET code = public.new_handover_code()
+FROM public.orders o
+WHERE o.id = hc.order_id
+  AND o.status NOT IN ('delivered', 'cancelled')
+  AND o.delivery_status IS DISTINCT FROM 'picked_up';
+
+-- The photo must be one uploaded into this order's folder
+DROP FUNCTION IF EXISTS public.complete_delivery(uuid, text, text);
+
+CREATE OR REPLACE FUNCTION public.complete_delivery(
+  p_order_id uuid,
+  p_handover_code text,
+  p_photo_path text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_staff_id uuid := public.get_delivery_staff_id(auth.uid());
+  v_order orders%ROWTYPE;
+  v_code order_handover_codes%ROWTYPE;
+  v_photo_path text := NULLIF(btrim(p_photo_path), '');
+  v_max_attempts constant integer := 5;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF v_staff_id IS NULL THEN
+    RAISE EXCEPTION 'User is not an approved delivery staff';
+  END IF;
+
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND OR v_order.assigned_delivery_id IS DISTINCT FROM v_user_id THEN
+    RAISE EXCEPTION 'This delivery is not assigned to you';
+  END IF;
+
+  IF v_order.delivery_status <> 'picked_up' THEN
+    RAISE EXCEPTION 'Pick up order % before handing it over', v_order.order_number;
+  END IF;
+
+  IF v_photo_path IS NOT NULL AND (
+    split_part(v_photo_path, '/', 1) <> p_order_id::text
+    OR NOT EXISTS (
+      SELECT 1 FROM storage.objects
+      WHERE bucket_id = 'delivery-proofs' AND name = v_photo_path
+    )
+  ) THEN
+    RAISE EXCEPTION 'Doorstep photo not found. Take it again.';
+  END IF;
+
+  SELECT * INTO v_code FROM order_handover_codes WHERE order_id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order % has no handover code. Contact support to complete it.', v_order.order_number;
+  END IF;
+
+  IF v_code.failed_attempts >= v_max_attempts THEN
+    RAISE EXCEPTION 'Too many wrong codes for order %. Contact support to complete it.', v_order.order_number;
+  END IF;
+
+  IF btrim(COALESCE(p_handover_code, '')) <> v_code.code THEN
+    UPDATE order_handover_codes
+    SET failed_attempts = failed_attempts + 1
+    WHERE order_id = p_order_id;
+
+    RETURN jsonb_build_object(
+      'delivered', false,
+      'attempts_left', v_max_attempts - v_code.failed_attempts - 1
+    );
+  END IF;
+
+  INSERT INTO delivery_proofs (order_id, delivery_staff_id, photo_path)
+  VALUES (p_order_id, v_staff_id, v_photo_path);
+
+  UPDATE orders
+  SET
+    delivery_status = 'delivered',
+    status = 'delivered',
+    delivered_at = now()
+  WHERE id = p_order_id;
+
+  RETURN jsonb_build_object('delivered', true, 'attempts_left', v_max_attempts - v_code.failed_attempts);
+END;
+$$;
@@ -0,0 +1,82 @@
+-- Ward coverage is per panchayat. An address in a panchayat with uploaded ward
+-- boundaries needs a pin inside one of them, on insert and on every later edit
+-- of its location; panchayats without boundaries keep hand-picked wards.
+
+-- Whether a panchayat has any ward boundaries
+CREATE OR REPLACE FUNCTION public.panchayat_has_boundaries(p_panchayat_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT EXISTS (SELECT 1 FROM ward_boundaries WHERE panchayat_id = p_panchayat_id)
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.panchayat_has_boundaries(uuid) FROM PUBLIC, anon, authenticated;
+
+-- coverage_configured now says whether the panchayat the pin falls in, or else
+-- p_panchayat_id (the one the customer is ordering for), has boundaries
+DROP FUNCTION IF EXISTS public.locate_ward(double precision, double precision);
+
+CREATE OR REPLACE FUNCTION public.locate_ward(
+  p_latitude double precision,
+  p_longitude double precision,
+  p_panchayat_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_panchayat_id uuid;
+  v_panchayat_name text;
+  v_ward_number integer;
+BEGIN
+  SELECT f.panchayat_id, p.name, f.ward_number
+  INTO v_panchayat_id, v_panchayat_name, v_ward_number
+  FROM public.find_ward(p_latitude, p_longitude) f
+  JOIN panchayats p ON p.id = f.panchayat_id;
+
+  RETURN jsonb_build_object(
+    'found', v_panchayat_id IS NOT NULL,
+    'panchayat_id', v_panchayat_id,
+    'panchayat_name', v_panchayat_name,
+    'ward_number', v_ward_number,
+    'coverage_configured', public.panchayat_has_boundaries(COALESCE(v_panchayat_id, p_panchayat_id))
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.locate_customer_address()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_ward record;
+BEGIN
+  IF NEW.latitude IS NULL OR NEW.longitude IS NULL THEN
+    IF public.panchayat_has_boundaries(NEW.panchayat_id) THEN
+      RAISE EXCEPTION 'Drop a pin on your address so we can find your ward'
+        USING ERRCODE = 'check_violation';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_ward FROM public.find_ward(NEW.latitude, NEW.longitude);
+
+  IF FOUND THEN
+    NEW.panchayat_id := v_ward.panchayat_id;
+    NEW.ward_number := v_ward.ward_number;
+  ELSIF public.panchayat_has_boundaries(NEW.panchayat_id) THEN
+    RAISE EXCEPTION 'This address is outside our delivery area'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
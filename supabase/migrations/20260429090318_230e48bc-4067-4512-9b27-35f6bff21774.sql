@@ -0,0 +1,42 @@
+-- Cancelled orders stay cancelled. Reinstating one left the refund its
+-- cancellation had credited to the customer's wallet in place, so the order
+-- was paid for twice over; customers place a new order instead.
+DELETE FROM public.order_status_transitions
+WHERE field = 'status' AND from_status = 'cancelled' AND to_status = 'pending';
+
+-- Unset statuses count as 'pending', their column default, so setting or
+-- clearing one goes through the transition table like any other change
+CREATE OR REPLACE FUNCTION public.enforce_order_status_transitions()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_roles text[] := public.order_actor_roles(NEW.customer_id);
+  v_field text;
+  v_from text;
+  v_to text;
+BEGIN
+  FOREACH v_field IN ARRAY ARRAY['status', 'cook_status', 'delivery_status', 'cook_assignment_status'] LOOP
+    v_from := COALESCE(to_jsonb(OLD)->>v_field, 'pending');
+    v_to := COALESCE(to_jsonb(NEW)->>v_field, 'pending');
+
+    CONTINUE WHEN v_from = v_to;
+
+    IF NOT EXISTS (
+      SELECT 1 FROM order_status_transitions t
+      WHERE t.field = v_field
+        AND t.from_status = v_from
+        AND t.to_status = v_to
+        AND t.allowed_roles && v_roles
+    ) THEN
+      RAISE EXCEPTION 'Order % cannot change % from "%" to "%"',
+        OLD.order_number, replace(v_field, '_', ' '), v_from, v_to
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,52 @@
+-- Who is let off the cancellation fee. Holding any staff role used to be
+-- enough, so a customer who was also a cook or partner could cancel their own
+-- orders for free. The fee is now waived only for background jobs, admins with
+-- order edit access, and cooks or partners cancelling someone else's order.
+CREATE OR REPLACE FUNCTION public.apply_order_cancellation()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_roles text[] := public.order_actor_roles(NEW.customer_id);
+  v_terms record;
+  v_fee numeric := 0;
+  v_refund numeric;
+BEGIN
+  IF NOT (
+    v_roles && ARRAY['system']
+    OR public.has_admin_permission(auth.uid(), 'orders', 'edit')
+    OR (v_roles && ARRAY['cook', 'delivery_staff'] AND NEW.customer_id IS DISTINCT FROM auth.uid())
+  ) THEN
+    SELECT * INTO v_terms FROM public.evaluate_cancellation_policy(OLD);
+
+    IF NOT v_terms.allowed THEN
+      RAISE EXCEPTION '%', COALESCE(v_terms.description, 'This order can no longer be cancelled')
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    v_fee := v_terms.fee;
+  END IF;
+
+  v_refund := GREATEST(COALESCE(NEW.wallet_amount, 0) + COALESCE(NEW.online_paid_amount, 0) - v_fee, 0);
+
+  NEW.cancelled_at := now();
+  NEW.cancelled_by_role := COALESCE(v_roles[1], 'system');
+  NEW.cancellation_reason := NULLIF(current_setting('app.order_status_reason', true), '');
+  NEW.cancellation_fee := v_fee;
+
+  IF NEW.wallet_refunded_at IS NULL THEN
+    NEW.refund_amount := v_refund;
+    IF v_refund > 0 THEN
+      PERFORM public.credit_customer_wallet(
+        NEW.customer_id, v_refund, 'order', NEW.id,
+        'Refund for cancelled order ' || NEW.order_number
+      );
+      NEW.wallet_refunded_at := now();
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
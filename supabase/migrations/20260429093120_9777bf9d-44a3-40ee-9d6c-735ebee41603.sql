@@ -0,0 +1,58 @@
+-- Spending a wallet balance on orders is not a cash-out. Keep it in its own
+-- total so total_withdrawn only counts money paid out of the wallet.
+ALTER TABLE public.customer_wallets
+  ADD COLUMN IF NOT EXISTS total_spent NUMERIC NOT NULL DEFAULT 0;
+
+-- Move what has been spent on orders so far out of total_withdrawn
+UPDATE public.customer_wallets w
+SET
+  total_spent = s.spent,
+  total_withdrawn = GREATEST(w.total_withdrawn - s.spent, 0)
+FROM (
+  SELECT t.wallet_id, sum(t.amount) AS spent
+  FROM public.customer_wallet_transactions t
+  WHERE t.transaction_type = 'debit' AND t.reference_type = 'order'
+  GROUP BY t.wallet_id
+) s
+WHERE s.wallet_id = w.id;
+
+CREATE OR REPLACE FUNCTION public.debit_customer_wallet(
+  p_user_id uuid,
+  p_amount numeric,
+  p_reference_type text,
+  p_reference_id uuid,
+  p_description text
+)
+RETURNS numeric
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_wallet customer_wallets%ROWTYPE;
+  v_balance numeric;
+BEGIN
+  SELECT * INTO v_wallet FROM customer_wallets WHERE user_id = p_user_id FOR UPDATE;
+
+  IF NOT FOUND OR v_wallet.balance < p_amount THEN
+    RAISE EXCEPTION 'Insufficient wallet balance';
+  END IF;
+
+  v_balance := v_wallet.balance - p_amount;
+
+  UPDATE customer_wallets
+  SET balance = v_balance,
+      total_spent = total_spent + p_amount
+  WHERE id = v_wallet.id;
+
+  INSERT INTO customer_wallet_transactions (
+    wallet_id, amount, balance_after, transaction_type, reference_type, reference_id, description, status, created_by
+  ) VALUES (
+    v_wallet.id, p_amount, v_balance, 'debit', p_reference_type, p_reference_id, p_description, 'completed', auth.uid()
+  );
+
+  RETURN v_balance;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.debit_customer_wallet(uuid, numeric, text, uuid, text) FROM PUBLIC, anon, authenticated;
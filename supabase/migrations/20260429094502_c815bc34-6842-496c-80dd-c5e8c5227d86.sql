@@ -0,0 +1,78 @@
+-- Mobile numbers on profiles are only trusted once an OTP to them has been
+-- verified. Password signups could put anyone's number on a profile; when the
+-- number's owner then signs in by OTP, customer-auth re-claims the profile:
+-- it rotates the password, ends every session and marks the number verified.
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS mobile_verified_at TIMESTAMPTZ;
+
+-- Accounts customer-auth created were verified by OTP at signup
+UPDATE public.profiles p
+SET mobile_verified_at = u.created_at
+FROM auth.users u
+WHERE u.id = p.user_id
+  AND u.email = p.mobile_number || '@customer.pennycarbs.app'
+  AND p.mobile_verified_at IS NULL;
+
+-- Users cannot set the verification themselves, and a changed number has to
+-- be verified again
+CREATE OR REPLACE FUNCTION public.protect_profile_mobile_number()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.mobile_verified_at := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NOT public.has_role(auth.uid(), 'super_admin') AND (
+    NEW.mobile_number IS DISTINCT FROM OLD.mobile_number
+    OR NEW.mobile_verified_at IS DISTINCT FROM OLD.mobile_verified_at
+  ) THEN
+    RAISE EXCEPTION 'The mobile number on an account cannot be changed';
+  END IF;
+
+  IF NEW.mobile_number IS DISTINCT FROM OLD.mobile_number THEN
+    NEW.mobile_verified_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_profile_mobile_number ON public.profiles;
+
+CREATE TRIGGER protect_profile_mobile_number
+BEFORE INSERT OR UPDATE OF mobile_number, mobile_verified_at ON public.profiles
+FOR EACH ROW EXECUTE FUNCTION public.protect_profile_mobile_number();
+
+-- Called by customer-auth once an OTP to the profile's number checks out and
+-- the password has been rotated. Ends every session of an unverified profile,
+-- so whoever registered the number without owning it is signed out.
+CREATE OR REPLACE FUNCTION public.claim_profile_mobile(p_user_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  UPDATE profiles
+  SET mobile_verified_at = now()
+  WHERE user_id = p_user_id AND mobile_verified_at IS NULL;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  DELETE FROM auth.sessions WHERE user_id = p_user_id;
+  RETURN true;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_profile_mobile(uuid) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,42 @@
+-- Drop points for live tracking
+-- An order only gets an ETA from the partner's location once it knows where it
+-- is going. When checkout has no pinned address to copy, the customer's app
+-- sends the device's location instead, while the order is still on its way.
+CREATE OR REPLACE FUNCTION public.set_order_drop_point(
+  p_order_id uuid,
+  p_latitude double precision,
+  p_longitude double precision
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_updated integer;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_latitude IS NULL OR p_longitude IS NULL
+    OR p_latitude NOT BETWEEN -90 AND 90 OR p_longitude NOT BETWEEN -180 AND 180
+  THEN
+    RAISE EXCEPTION 'Invalid location';
+  END IF;
+
+  -- A drop point already set (from the address pin) is kept
+  UPDATE orders
+  SET
+    delivery_latitude = p_latitude,
+    delivery_longitude = p_longitude
+  WHERE id = p_order_id
+    AND customer_id = auth.uid()
+    AND delivery_latitude IS NULL
+    AND status NOT IN ('delivered', 'cancelled');
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+
+  RETURN v_updated > 0;
+END;
+$$;
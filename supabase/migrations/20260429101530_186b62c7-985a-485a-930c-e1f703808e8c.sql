@@ -0,0 +1,19 @@
+-- Orders placed before checkout copied the address pin (see place_order) have
+-- no drop point, so live tracking cannot work out their ETA. Fill it in for
+-- orders still on their way from the customer's pinned saved address with the
+-- same text.
+UPDATE public.orders o
+SET
+  delivery_latitude = a.latitude,
+  delivery_longitude = a.longitude
+FROM (
+  SELECT DISTINCT ON (ca.user_id, btrim(ca.full_address))
+    ca.user_id, btrim(ca.full_address) AS full_address, ca.latitude, ca.longitude
+  FROM public.customer_addresses ca
+  WHERE ca.latitude IS NOT NULL AND ca.longitude IS NOT NULL
+  ORDER BY ca.user_id, btrim(ca.full_address), ca.updated_at DESC
+) a
+WHERE a.user_id = o.customer_id
+  AND a.full_address = btrim(o.delivery_address)
+  AND o.delivery_latitude IS NULL
+  AND o.status NOT IN ('delivered', 'cancelled');
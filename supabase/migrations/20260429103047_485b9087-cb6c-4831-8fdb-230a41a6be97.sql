@@ -0,0 +1,40 @@
+-- Proof of delivery, enforced on both status columns
+-- Partners may move an order's own status from out_for_delivery to delivered,
+-- which skipped require_delivery_proof while it only watched delivery_status.
+-- A proof's photo must also sit in its order's folder, whoever writes the row.
+
+CREATE OR REPLACE FUNCTION public.require_delivery_proof()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_roles text[] := public.order_actor_roles(NEW.customer_id);
+BEGIN
+  IF (
+    (NEW.delivery_status = 'delivered' AND OLD.delivery_status IS DISTINCT FROM 'delivered')
+    OR (NEW.status = 'delivered' AND OLD.status IS DISTINCT FROM 'delivered')
+  )
+    AND NOT v_roles && ARRAY['admin', 'system']
+    AND NOT EXISTS (SELECT 1 FROM delivery_proofs WHERE order_id = NEW.id)
+  THEN
+    RAISE EXCEPTION 'Order % needs the customer''s handover code to be marked delivered', NEW.order_number
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS require_delivery_proof ON public.orders;
+
+CREATE TRIGGER require_delivery_proof
+  BEFORE UPDATE OF status, delivery_status ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.require_delivery_proof();
+
+-- Photos from before the bucket was split into order folders are kept as they are
+ALTER TABLE public.delivery_proofs
+  ADD CONSTRAINT delivery_proofs_photo_in_order_folder
+  CHECK (photo_path IS NULL OR split_part(photo_path, '/', 1) = order_id::text) NOT VALID;
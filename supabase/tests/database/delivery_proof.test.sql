@@ -0,0 +1,174 @@
+-- Proof of delivery: complete_delivery, require_delivery_proof and the
+-- delivery-proofs storage policies. Run with `supabase test db`.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(16);
+
+-- Customers, an assigned partner, another partner and two orders out for delivery
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-0000-0000-0000000000c1', 'customer@example.test'),
+  ('00000000-0000-0000-0000-0000000000c2', 'other-customer@example.test'),
+  ('00000000-0000-0000-0000-0000000000d1', 'partner@example.test'),
+  ('00000000-0000-0000-0000-0000000000d2', 'other-partner@example.test');
+
+INSERT INTO public.panchayats (id, name) VALUES ('00000000-0000-0000-0000-0000000000a1', 'Proof Test Panchayat');
+
+INSERT INTO public.delivery_staff (user_id, name, mobile_number, vehicle_type, is_approved) VALUES
+  ('00000000-0000-0000-0000-0000000000d1', 'Partner', '9000000001', 'bike', true),
+  ('00000000-0000-0000-0000-0000000000d2', 'Other Partner', '9000000002', 'bike', true);
+
+INSERT INTO public.orders (
+  id, order_number, customer_id, service_type, total_amount, panchayat_id, ward_number,
+  assigned_delivery_id, status, delivery_status
+) VALUES
+  ('00000000-0000-0000-0000-0000000000b1', '', '00000000-0000-0000-0000-0000000000c1', 'homemade', 100,
+   '00000000-0000-0000-0000-0000000000a1', 1, '00000000-0000-0000-0000-0000000000d1', 'out_for_delivery', 'picked_up'),
+  ('00000000-0000-0000-0000-0000000000b2', '', '00000000-0000-0000-0000-0000000000c1', 'homemade', 100,
+   '00000000-0000-0000-0000-0000000000a1', 1, '00000000-0000-0000-0000-0000000000d1', 'out_for_delivery', 'picked_up');
+
+UPDATE public.order_handover_codes SET code = '1234'
+WHERE order_id IN ('00000000-0000-0000-0000-0000000000b1', '00000000-0000-0000-0000-0000000000b2');
+
+INSERT INTO storage.objects (bucket_id, name)
+VALUES ('delivery-proofs', '00000000-0000-0000-0000-0000000000b1/door.jpg');
+
+-- Orders cannot be marked delivered without a proof, on either status column.
+-- Run as the table owner with the partner's claims so RLS does not hide the row.
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000d1", "role": "authenticated"}', true);
+
+SELECT throws_like(
+  $$UPDATE public.orders SET delivery_status = 'delivered', status = 'delivered'
+    WHERE id = '00000000-0000-0000-0000-0000000000b2'$$,
+  '%needs the customer''s handover code%',
+  'a partner cannot set delivery_status to delivered directly'
+);
+
+SELECT throws_like(
+  $$UPDATE public.orders SET status = 'delivered' WHERE id = '00000000-0000-0000-0000-0000000000b2'$$,
+  '%needs the customer''s handover code%',
+  'a partner cannot set status to delivered directly'
+);
+
+-- complete_delivery as the assigned partner
+SET LOCAL ROLE authenticated;
+
+SELECT is(
+  public.complete_delivery('00000000-0000-0000-0000-0000000000b1', '0000') ->> 'delivered',
+  'false',
+  'a wrong code does not deliver the order'
+);
+
+SELECT throws_ok(
+  $$SELECT public.complete_delivery(
+    '00000000-0000-0000-0000-0000000000b1', '1234', '00000000-0000-0000-0000-0000000000b2/door.jpg'
+  )$$,
+  'Doorstep photo not found. Take it again.',
+  'the photo must be in the order''s folder'
+);
+
+SELECT throws_ok(
+  $$SELECT public.complete_delivery(
+    '00000000-0000-0000-0000-0000000000b1', '1234', '00000000-0000-0000-0000-0000000000b1/missing.jpg'
+  )$$,
+  'Doorstep photo not found. Take it again.',
+  'the photo must have been uploaded'
+);
+
+SELECT is(
+  public.complete_delivery(
+    '00000000-0000-0000-0000-0000000000b1', '1234', '00000000-0000-0000-0000-0000000000b1/door.jpg'
+  ) ->> 'delivered',
+  'true',
+  'the right code delivers the order'
+);
+
+RESET ROLE;
+
+SELECT is(
+  (SELECT failed_attempts FROM public.order_handover_codes WHERE order_id = '00000000-0000-0000-0000-0000000000b1'),
+  1::smallint,
+  'the wrong code was counted'
+);
+
+SELECT results_eq(
+  $$SELECT status::text, delivery_status FROM public.orders WHERE id = '00000000-0000-0000-0000-0000000000b1'$$,
+  $$VALUES ('delivered', 'delivered')$$,
+  'the order is marked delivered'
+);
+
+SELECT is(
+  (SELECT photo_path FROM public.delivery_proofs WHERE order_id = '00000000-0000-0000-0000-0000000000b1'),
+  '00000000-0000-0000-0000-0000000000b1/door.jpg',
+  'the proof keeps the photo path'
+);
+
+-- Five wrong codes lock the order
+UPDATE public.order_handover_codes SET failed_attempts = 5
+WHERE order_id = '00000000-0000-0000-0000-0000000000b2';
+
+SET LOCAL ROLE authenticated;
+
+SELECT throws_like(
+  $$SELECT public.complete_delivery('00000000-0000-0000-0000-0000000000b2', '1234')$$,
+  'Too many wrong codes%',
+  'a locked order cannot be completed even with the right code'
+);
+
+-- Another partner cannot hand over the order
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000d2", "role": "authenticated"}', true);
+
+SELECT throws_ok(
+  $$SELECT public.complete_delivery('00000000-0000-0000-0000-0000000000b2', '1234')$$,
+  'This delivery is not assigned to you',
+  'only the assigned partner can complete a delivery'
+);
+
+-- Storage: only partners assigned to the order upload into its folder
+SELECT throws_ok(
+  $$INSERT INTO storage.objects (bucket_id, name)
+    VALUES ('delivery-proofs', '00000000-0000-0000-0000-0000000000b2/door.jpg')$$,
+  '42501',
+  NULL,
+  'another partner cannot upload into the order''s folder'
+);
+
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000d1", "role": "authenticated"}', true);
+
+SELECT lives_ok(
+  $$INSERT INTO storage.objects (bucket_id, name)
+    VALUES ('delivery-proofs', '00000000-0000-0000-0000-0000000000b2/door.jpg')$$,
+  'the assigned partner can upload into the order''s folder'
+);
+
+-- Storage: only the order's parties see its photos
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000c1", "role": "authenticated"}', true);
+
+SELECT is(
+  (SELECT count(*)::integer FROM storage.objects
+   WHERE bucket_id = 'delivery-proofs' AND name = '00000000-0000-0000-0000-0000000000b1/door.jpg'),
+  1,
+  'the customer can see their order''s photo'
+);
+
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000c2", "role": "authenticated"}', true);
+
+SELECT is(
+  (SELECT count(*)::integer FROM storage.objects WHERE bucket_id = 'delivery-proofs'),
+  0,
+  'other customers cannot see the photos'
+);
+
+RESET ROLE;
+
+-- A proof's photo must be in its own order's folder
+SELECT throws_ok(
+  $$INSERT INTO public.delivery_proofs (order_id, photo_path)
+    VALUES ('00000000-0000-0000-0000-0000000000b2', '00000000-0000-0000-0000-0000000000b1/door.jpg')$$,
+  '23514',
+  NULL,
+  'a proof cannot point at another order''s photo'
+);
+
+SELECT * FROM finish();
+ROLLBACK;